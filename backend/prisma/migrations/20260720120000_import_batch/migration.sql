@@ -0,0 +1,47 @@
+-- CreateTable ImportBatch
+CREATE TABLE "ImportBatch" (
+    "id" SERIAL NOT NULL,
+    "kind" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL DEFAULT '',
+    "fileHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'applied',
+    "forced" BOOLEAN NOT NULL DEFAULT false,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "rejectedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rolledBackAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable ImportBatchChange
+CREATE TABLE "ImportBatchChange" (
+    "id" SERIAL NOT NULL,
+    "batchId" INTEGER NOT NULL,
+    "entity" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "productCode" TEXT NOT NULL DEFAULT '',
+    "previous" JSONB,
+
+    CONSTRAINT "ImportBatchChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_fileHash_idx" ON "ImportBatch"("fileHash");
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_createdAt_idx" ON "ImportBatch"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ImportBatchChange_batchId_idx" ON "ImportBatchChange"("batchId");
+
+-- CreateIndex
+CREATE INDEX "ImportBatchChange_orderId_source_idx" ON "ImportBatchChange"("orderId", "source");
+
+-- AddForeignKey
+ALTER TABLE "ImportBatchChange" ADD CONSTRAINT "ImportBatchChange_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateTable ImportMappingProfile
+CREATE TABLE "ImportMappingProfile" (
+    "id" SERIAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "mappings" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportMappingProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportMappingProfile_source_key" ON "ImportMappingProfile"("source");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ImportBatchRejection" (
+    "id" SERIAL NOT NULL,
+    "batchId" INTEGER NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "severity" TEXT NOT NULL DEFAULT 'rejected',
+    "code" TEXT NOT NULL,
+    "reason" TEXT NOT NULL DEFAULT '',
+    "values" JSONB NOT NULL,
+
+    CONSTRAINT "ImportBatchRejection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportBatchRejection_batchId_idx" ON "ImportBatchRejection"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "ImportBatchRejection" ADD CONSTRAINT "ImportBatchRejection_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" SERIAL NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "phase" TEXT NOT NULL DEFAULT 'queued',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "fileName" TEXT NOT NULL DEFAULT '',
+    "filePath" TEXT NOT NULL,
+    "fields" JSONB NOT NULL,
+    "cancelRequested" BOOLEAN NOT NULL DEFAULT false,
+    "httpStatus" INTEGER,
+    "result" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_status_id_idx" ON "ImportJob"("status", "id");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_createdAt_idx" ON "ImportJob"("createdAt");
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ShopeeBalanceTransaction" (
+    "id" SERIAL NOT NULL,
+    "externalKey" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "type" TEXT NOT NULL,
+    "rawType" TEXT NOT NULL DEFAULT '',
+    "description" TEXT NOT NULL DEFAULT '',
+    "orderSn" TEXT,
+    "direction" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT '',
+    "balanceAfter" DOUBLE PRECISION,
+    "pendingAdjustment" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopeeBalanceTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopeeBalanceTransaction_externalKey_key" ON "ShopeeBalanceTransaction"("externalKey");
+
+-- CreateIndex
+CREATE INDEX "ShopeeBalanceTransaction_orderSn_idx" ON "ShopeeBalanceTransaction"("orderSn");
+
+-- CreateIndex
+CREATE INDEX "ShopeeBalanceTransaction_occurredAt_idx" ON "ShopeeBalanceTransaction"("occurredAt");
+
+-- CreateIndex
+CREATE INDEX "ShopeeBalanceTransaction_type_idx" ON "ShopeeBalanceTransaction"("type");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "ShopeeIntegration" ADD COLUMN "syncCron" TEXT;
+
+-- AlterTable
+ALTER TABLE "TiktokShopIntegration" ADD COLUMN "syncCron" TEXT;
+
+-- AlterTable
+ALTER TABLE "TiktokAdsIntegration" ADD COLUMN "syncCron" TEXT;
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" SERIAL NOT NULL,
+    "integration" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "windowFrom" TIMESTAMP(3),
+    "windowTo" TIMESTAMP(3),
+    "fetched" INTEGER NOT NULL DEFAULT 0,
+    "synced" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "message" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_integration_startedAt_idx" ON "SyncRun"("integration", "startedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "feesManual" BOOLEAN NOT NULL DEFAULT false;
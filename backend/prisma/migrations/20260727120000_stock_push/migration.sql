@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "StockPushConfig" (
+    "id" SERIAL NOT NULL,
+    "channel" TEXT NOT NULL,
+    "safetyBuffer" INTEGER NOT NULL DEFAULT 0,
+    "cron" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockPushConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockPushRun" (
+    "id" SERIAL NOT NULL,
+    "channel" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "planned" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "unchanged" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "message" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "StockPushRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockPushItem" (
+    "id" SERIAL NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "masterProductId" INTEGER,
+    "masterSku" TEXT,
+    "productId" INTEGER,
+    "productCode" TEXT NOT NULL,
+    "productName" TEXT,
+    "listingRef" TEXT,
+    "previousStock" INTEGER,
+    "quantity" INTEGER,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockPushItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockPushConfig_channel_key" ON "StockPushConfig"("channel");
+
+-- CreateIndex
+CREATE INDEX "StockPushRun_channel_startedAt_idx" ON "StockPushRun"("channel", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "StockPushItem_runId_idx" ON "StockPushItem"("runId");
+
+-- AddForeignKey
+ALTER TABLE "StockPushItem" ADD CONSTRAINT "StockPushItem_runId_fkey" FOREIGN KEY ("runId") REFERENCES "StockPushRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
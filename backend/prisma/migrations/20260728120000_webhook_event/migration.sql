@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" SERIAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "eventType" TEXT,
+    "shopRef" TEXT,
+    "orderRef" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "signatureValid" BOOLEAN NOT NULL DEFAULT false,
+    "url" TEXT,
+    "headers" JSONB,
+    "rawBody" TEXT NOT NULL,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_source_receivedAt_idx" ON "WebhookEvent"("source", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_status_availableAt_idx" ON "WebhookEvent"("status", "availableAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "OrderReturn" ADD COLUMN "refundAmount" DOUBLE PRECISION,
+ADD COLUMN "origin" TEXT NOT NULL DEFAULT 'manual',
+ADD COLUMN "externalId" TEXT,
+ADD COLUMN "externalStatus" TEXT;
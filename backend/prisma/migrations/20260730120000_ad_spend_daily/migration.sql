@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "AdSpendDaily" (
+    "id" SERIAL NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "channel" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL DEFAULT '',
+    "campaignName" TEXT NOT NULL DEFAULT '',
+    "spend" DOUBLE PRECISION NOT NULL,
+    "impressions" INTEGER,
+    "clicks" INTEGER,
+    "conversions" INTEGER,
+    "attributedRevenue" DOUBLE PRECISION,
+    "origin" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AdSpendDaily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdSpendDaily_date_channel_campaignId_key" ON "AdSpendDaily"("date", "channel", "campaignId");
+
+-- CreateIndex
+CREATE INDEX "AdSpendDaily_channel_date_idx" ON "AdSpendDaily"("channel", "date");
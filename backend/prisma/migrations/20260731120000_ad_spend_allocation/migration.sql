@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "AdSpendAllocation" (
+    "id" SERIAL NOT NULL,
+    "adChannel" TEXT NOT NULL,
+    "salesChannel" TEXT NOT NULL,
+    "percent" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AdSpendAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdSpendAllocation_adChannel_salesChannel_key" ON "AdSpendAllocation"("adChannel", "salesChannel");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "OrderStatusEvent" (
+    "id" SERIAL NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "previousStatus" TEXT,
+    "changes" JSONB NOT NULL,
+    "origin" TEXT NOT NULL,
+    "detail" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderStatusEvent_orderId_source_createdAt_idx" ON "OrderStatusEvent"("orderId", "source", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderStatusEvent_createdAt_idx" ON "OrderStatusEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusEvent" ADD CONSTRAINT "OrderStatusEvent_orderId_source_fkey" FOREIGN KEY ("orderId", "source") REFERENCES "Order"("orderId", "source") ON DELETE CASCADE ON UPDATE CASCADE;
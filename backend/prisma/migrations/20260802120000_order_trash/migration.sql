@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "OrderDeletion" (
+    "id" SERIAL NOT NULL,
+    "kind" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "filter" JSONB NOT NULL,
+    "deletedBy" TEXT NOT NULL DEFAULT '',
+    "orderCount" INTEGER NOT NULL DEFAULT 0,
+    "itemCount" INTEGER NOT NULL DEFAULT 0,
+    "returnCount" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'trashed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "restoredAt" TIMESTAMP(3),
+    "purgedAt" TIMESTAMP(3),
+
+    CONSTRAINT "OrderDeletion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderTrashEntry" (
+    "id" SERIAL NOT NULL,
+    "deletionId" INTEGER NOT NULL,
+    "entity" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+
+    CONSTRAINT "OrderTrashEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderTrashConfig" (
+    "id" SERIAL NOT NULL,
+    "retentionDays" INTEGER NOT NULL DEFAULT 30,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderTrashConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderDeletion_status_createdAt_idx" ON "OrderDeletion"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderTrashEntry_deletionId_idx" ON "OrderTrashEntry"("deletionId");
+
+-- CreateIndex
+CREATE INDEX "OrderTrashEntry_orderId_source_idx" ON "OrderTrashEntry"("orderId", "source");
+
+-- AddForeignKey
+ALTER TABLE "OrderTrashEntry" ADD CONSTRAINT "OrderTrashEntry_deletionId_fkey" FOREIGN KEY ("deletionId") REFERENCES "OrderDeletion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
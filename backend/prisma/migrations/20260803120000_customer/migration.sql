@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "customerId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Customer" (
+    "id" SERIAL NOT NULL,
+    "channel" TEXT NOT NULL,
+    "buyerKey" TEXT NOT NULL,
+    "keyType" TEXT NOT NULL,
+    "city" TEXT,
+    "state" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Customer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_customerId_idx" ON "Order"("customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Customer_channel_buyerKey_key" ON "Customer"("channel", "buyerKey");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
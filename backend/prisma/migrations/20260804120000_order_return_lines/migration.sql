@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "refundedAmount" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "OrderReturn" ADD COLUMN "partial" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "OrderReturnLine" (
+    "id" SERIAL NOT NULL,
+    "returnId" INTEGER NOT NULL,
+    "orderItemId" INTEGER,
+    "productId" INTEGER,
+    "productCode" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "refundAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "condition" TEXT NOT NULL DEFAULT 'resellable',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderReturnLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderReturnLine_returnId_idx" ON "OrderReturnLine"("returnId");
+
+-- CreateIndex
+CREATE INDEX "OrderReturnLine_orderItemId_idx" ON "OrderReturnLine"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "OrderReturnLine_productId_idx" ON "OrderReturnLine"("productId");
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnLine" ADD CONSTRAINT "OrderReturnLine_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "OrderReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnLine" ADD CONSTRAINT "OrderReturnLine_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
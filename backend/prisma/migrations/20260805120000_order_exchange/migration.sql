@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "OrderReturnLine" ADD COLUMN "exchangeId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "OrderExchange" (
+    "id" SERIAL NOT NULL,
+    "returnId" INTEGER NOT NULL,
+    "replacementOrderId" TEXT NOT NULL,
+    "replacementSource" TEXT NOT NULL,
+    "priceDifference" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderExchange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderReturnLine_exchangeId_idx" ON "OrderReturnLine"("exchangeId");
+
+-- CreateIndex
+CREATE INDEX "OrderExchange_returnId_idx" ON "OrderExchange"("returnId");
+
+-- CreateIndex
+CREATE INDEX "OrderExchange_replacementOrderId_replacementSource_idx" ON "OrderExchange"("replacementOrderId", "replacementSource");
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnLine" ADD CONSTRAINT "OrderReturnLine_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "OrderExchange"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderExchange" ADD CONSTRAINT "OrderExchange_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "OrderReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "ReturnAnalyticsConfig" (
+    "id" SERIAL NOT NULL,
+    "returnRateThreshold" DOUBLE PRECISION NOT NULL DEFAULT 15,
+    "minSoldUnits" INTEGER NOT NULL DEFAULT 10,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReturnAnalyticsConfig_pkey" PRIMARY KEY ("id")
+);
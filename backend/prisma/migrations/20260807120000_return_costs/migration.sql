@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "reverseShippingFee" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ReturnCostSetting" (
+    "id" SERIAL NOT NULL,
+    "channel" TEXT NOT NULL,
+    "logisticsCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReturnCostSetting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReturnCostSetting_channel_key" ON "ReturnCostSetting"("channel");
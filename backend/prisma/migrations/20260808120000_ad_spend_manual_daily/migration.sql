@@ -0,0 +1,29 @@
+-- Totais mensais antigos (AdSpend sem linhas diárias, ou acima da soma delas) viram uma linha diária no dia 1,
+-- para o rollup das linhas diárias não apagá-los.
+-- Lançamento manual → campanha "mensal" (origin manual), que o replace de sync/import preserva.
+-- Sync TikTok Ads / import da carteira Shopee → campanha "total_anterior" (origin api/import), que o próximo
+-- replace do mesmo mês apaga; senão o sync/import refeito somaria por cima do total migrado.
+INSERT INTO "AdSpendDaily" ("date", "channel", "campaignId", "campaignName", "spend", "origin", "updatedAt")
+SELECT
+    a."month",
+    a."channel",
+    CASE WHEN s."origin" = 'manual' THEN 'mensal' ELSE 'total_anterior' END,
+    CASE WHEN s."origin" = 'manual' THEN 'Lançamento manual' ELSE 'Total mensal anterior' END,
+    ROUND((a."amount" - COALESCE(d."spend", 0))::numeric, 2)::double precision,
+    s."origin",
+    CURRENT_TIMESTAMP
+FROM "AdSpend" a
+CROSS JOIN LATERAL (
+    SELECT CASE
+        WHEN a."notes" LIKE 'Sincronizado automaticamente via TikTok Ads API%' THEN 'api'
+        WHEN a."notes" LIKE 'Import %' THEN 'import'
+        ELSE 'manual'
+    END AS "origin"
+) s
+LEFT JOIN (
+    SELECT "channel", date_trunc('month', "date") AS "month", SUM("spend") AS "spend"
+    FROM "AdSpendDaily"
+    GROUP BY "channel", date_trunc('month', "date")
+) d ON d."channel" = a."channel" AND d."month" = date_trunc('month', a."month")
+WHERE a."amount" - COALESCE(d."spend", 0) >= 0.01
+ON CONFLICT ("date", "channel", "campaignId") DO NOTHING;
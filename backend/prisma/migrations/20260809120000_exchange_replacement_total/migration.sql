@@ -0,0 +1,2 @@
+-- priceDifference guardava o total do pedido de reposição, não uma diferença: nome passa a dizer o que é
+ALTER TABLE "OrderExchange" RENAME COLUMN "priceDifference" TO "replacementTotal";
@@ -0,0 +1,157 @@
+/**
+ * Confere que refazer o sync TikTok Ads / import da carteira Shopee num mês migrado por
+ * 20260808120000_ad_spend_manual_daily não duplica o AdSpend: o total legado de sync/import
+ * ("total_anterior") sai no replace e o lançamento manual ("mensal") continua somado.
+ * Roda writeAdSpendDaily sobre um PrismaClient em memória (só AdSpend/AdSpendDaily). Sai com código 1 se falhar.
+ *
+ * Uso (na pasta backend):
+ *   npm run check:ad-spend-resync
+ */
+import type { PrismaClient } from '@prisma/client';
+import {
+  LEGACY_MONTH_CAMPAIGN_ID,
+  MANUAL_MONTH_CAMPAIGN_ID,
+  writeAdSpendDaily,
+  type AdSpendDailyInput,
+} from '../src/adSpendDaily.js';
+
+type Row = Record<string, any>;
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    const v = row[key];
+    const eq = (a: unknown, b: unknown) =>
+      a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+    if (cond === null || typeof cond !== 'object' || cond instanceof Date) return eq(v, cond);
+    if ('in' in cond) return (cond.in as unknown[]).some((c) => eq(v, c));
+    if ('not' in cond) return !eq(v, cond.not);
+    if ('gte' in cond && !(v >= cond.gte)) return false;
+    if ('lt' in cond && !(v < cond.lt)) return false;
+    return true;
+  });
+}
+
+/** Só o que writeAdSpendDaily / rollupAdSpendMonths usam. */
+function memoryPrisma() {
+  const daily: Row[] = [];
+  const monthly: Row[] = [];
+  const applyInc = (row: Row, data: Row) => {
+    for (const [k, v] of Object.entries(data)) {
+      if (v === undefined) continue;
+      row[k] = v && typeof v === 'object' && 'increment' in v ? Number(row[k] ?? 0) + v.increment : v;
+    }
+  };
+  const prisma = {
+    adSpendDaily: {
+      async deleteMany({ where }: Row) {
+        let count = 0;
+        for (let i = daily.length - 1; i >= 0; i--) {
+          if (matches(daily[i], where)) {
+            daily.splice(i, 1);
+            count++;
+          }
+        }
+        return { count };
+      },
+      async create({ data }: Row) {
+        daily.push({ ...data });
+        return data;
+      },
+      async upsert({ where, update, create }: Row) {
+        const key = where.date_channel_campaignId;
+        const row = daily.find((r) => matches(r, key));
+        if (row) applyInc(row, update);
+        else daily.push({ ...create });
+        return row ?? create;
+      },
+      async aggregate({ where }: Row) {
+        const spend = daily.filter((r) => matches(r, where)).reduce((a, r) => a + r.spend, 0);
+        return { _sum: { spend } };
+      },
+    },
+    adSpend: {
+      async upsert({ where, update, create }: Row) {
+        const row = monthly.find((r) => matches(r, where.month_channel));
+        if (row) Object.assign(row, update);
+        else monthly.push({ ...create });
+        return row ?? create;
+      },
+    },
+    async $transaction(ops: Promise<unknown>[]) {
+      return Promise.all(ops);
+    },
+  };
+  return { prisma: prisma as unknown as PrismaClient, daily, monthly };
+}
+
+const JAN = new Date(2026, 0, 1);
+const FEB = new Date(2026, 1, 1);
+
+function spreadOverMonth(month: Date, total: number, campaigns: string[]): AdSpendDailyInput[] {
+  const rows: AdSpendDailyInput[] = [];
+  const days = 10;
+  for (let d = 0; d < days; d++) {
+    for (const campaignId of campaigns) {
+      rows.push({
+        date: new Date(month.getFullYear(), month.getMonth(), d + 1),
+        campaignId,
+        spend: total / days / campaigns.length,
+      });
+    }
+  }
+  return rows;
+}
+
+async function main() {
+  const { prisma, daily, monthly } = memoryPrisma();
+  const failures: string[] = [];
+  const expectAmount = (channel: string, month: Date, expected: number, label: string) => {
+    const row = monthly.find((r) => r.channel === channel && r.month.getTime() === month.getTime());
+    const amount = Number(row?.amount ?? 0);
+    const ok = Math.abs(amount - expected) < 0.005;
+    console.log(`${ok ? 'OK ' : 'ERR'} ${label}: ${amount.toFixed(2)} (esperado ${expected.toFixed(2)})`);
+    if (!ok) failures.push(label);
+  };
+
+  // Estado após a migração (AdSpend legado sem linhas diárias):
+  // tiktok/jan veio do sync da API, shopee/jan do import da carteira, shopee/fev foi digitado à mão.
+  daily.push(
+    { date: JAN, channel: 'tiktok', campaignId: LEGACY_MONTH_CAMPAIGN_ID, campaignName: 'Total mensal anterior', spend: 1000, origin: 'api' },
+    { date: JAN, channel: 'shopee', campaignId: LEGACY_MONTH_CAMPAIGN_ID, campaignName: 'Total mensal anterior', spend: 400, origin: 'import' },
+    { date: FEB, channel: 'shopee', campaignId: MANUAL_MONTH_CAMPAIGN_ID, campaignName: 'Lançamento manual', spend: 300, origin: 'manual' },
+  );
+  monthly.push(
+    { month: JAN, channel: 'tiktok', amount: 1000, notes: 'Sincronizado automaticamente via TikTok Ads API' },
+    { month: JAN, channel: 'shopee', amount: 400, notes: 'Import Shopee (sobrescrever): Pagamento no Saldo da Carteira - Recarga por compra de ADS' },
+    { month: FEB, channel: 'shopee', amount: 300, notes: '' },
+  );
+
+  // Re-sync TikTok Ads do mesmo mês (mesmo gasto, agora por dia e campanha)
+  await writeAdSpendDaily(prisma, 'tiktok', spreadOverMonth(JAN, 1000, ['c1', 'c2']), {
+    mode: 'replace',
+    origin: 'api',
+    months: [JAN],
+    notes: 'Sincronizado automaticamente via TikTok Ads API (soma diária por campanha)',
+  });
+  expectAmount('tiktok', JAN, 1000, 'TikTok jan: re-sync não duplica o total migrado');
+
+  // Re-import da carteira Shopee (modo sobrescrever) de um mês importado e de um mês com lançamento manual
+  await writeAdSpendDaily(prisma, 'shopee', [...spreadOverMonth(JAN, 400, ['']), ...spreadOverMonth(FEB, 200, [''])], {
+    mode: 'replace',
+    origin: 'import',
+    notes: 'Import Shopee (sobrescrever): Pagamento no Saldo da Carteira - Recarga por compra de ADS',
+  });
+  expectAmount('shopee', JAN, 400, 'Shopee jan: re-import não duplica o total migrado');
+  expectAmount('shopee', FEB, 500, 'Shopee fev: lançamento manual continua somado ao import');
+
+  if (failures.length) {
+    process.exitCode = 1;
+    return;
+  }
+  console.log('OK: refazer sync/import de meses migrados mantém o AdSpend.');
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,281 @@
+/**
+ * Servidor fake da Shopee Open Platform v2 para desenvolvimento e testes da integração.
+ * Confere partner_id, timestamp e assinatura (signAuth / signShop) como a Shopee e responde
+ * com pedidos gerados em memória: autorização, tokens, loja, lista/detalhe de pedidos e escrow.
+ *
+ * Uso (na pasta backend):
+ *   node scripts/shopee-fake-server.cjs
+ *   SHOPEE_API_HOST=http://localhost:4010 npm run dev
+ * Na tela Integrações, conecte a Shopee com o partner id / partner key abaixo e o shop id do fake.
+ *
+ * Variáveis: FAKE_SHOPEE_PORT (4010), FAKE_SHOPEE_PARTNER_ID (100001),
+ * FAKE_SHOPEE_PARTNER_KEY (fake-partner-key), FAKE_SHOPEE_SHOP_ID (200001), FAKE_SHOPEE_ORDERS (60).
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.FAKE_SHOPEE_PORT) || 4010;
+const PARTNER_ID = Number(process.env.FAKE_SHOPEE_PARTNER_ID) || 100001;
+const PARTNER_KEY = process.env.FAKE_SHOPEE_PARTNER_KEY || 'fake-partner-key';
+const SHOP_ID = Number(process.env.FAKE_SHOPEE_SHOP_ID) || 200001;
+const ORDER_COUNT = Number(process.env.FAKE_SHOPEE_ORDERS) || 60;
+
+const TIMESTAMP_TOLERANCE_S = 300;
+const ACCESS_TOKEN_TTL_S = 4 * 60 * 60;
+const DAY_S = 24 * 60 * 60;
+const FIFTEEN_DAYS_S = 15 * DAY_S;
+
+const tokens = new Map(); // access_token → expiresAt (s)
+const refreshTokens = new Set();
+const codes = new Set();
+
+function now() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function randomToken(prefix) {
+  return `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function sign(baseString) {
+  return crypto.createHmac('sha256', PARTNER_KEY).update(baseString).digest('hex');
+}
+
+// ── Pedidos em memória ──────────────────────────────────────────────────────
+
+const PRODUCTS = [
+  { item_id: 9001, item_name: 'Camiseta Básica', item_sku: 'CAM-BAS', models: [['P', 49.9], ['M', 49.9], ['G', 52.9]] },
+  { item_id: 9002, item_name: 'Calça Jogger', item_sku: 'CAL-JOG', models: [['38', 119.9], ['40', 119.9]] },
+  { item_id: 9003, item_name: 'Boné Aba Curva', item_sku: 'BON-ABA', models: [['Único', 39.9]] },
+];
+const STATUSES = ['UNPAID', 'READY_TO_SHIP', 'SHIPPED', 'COMPLETED', 'COMPLETED', 'COMPLETED', 'CANCELLED'];
+
+function money(n) {
+  return Math.round(n * 100) / 100;
+}
+
+function buildOrders() {
+  const out = [];
+  const base = now();
+  for (let i = 0; i < ORDER_COUNT; i++) {
+    const createTime = base - Math.floor(((i + 1) / ORDER_COUNT) * 45 * DAY_S);
+    const product = PRODUCTS[i % PRODUCTS.length];
+    const [modelName, price] = product.models[i % product.models.length];
+    const qty = (i % 3) + 1;
+    const status = STATUSES[i % STATUSES.length];
+    const total = money(price * qty);
+    out.push({
+      order_sn: `FAKE${String(createTime)}${String(i).padStart(3, '0')}`,
+      order_status: status,
+      create_time: createTime,
+      // Pedidos antigos concluídos agora: a sync incremental (update_time) precisa trazê-los
+      update_time: status === 'COMPLETED' && i % 4 === 0 ? base - 3600 : createTime + DAY_S,
+      total_amount: total,
+      buyer_username: `comprador${i % 17}`,
+      buyer_user_id: 5000 + (i % 17),
+      buyer_cpf_id: `***.***.${String(100 + (i % 17))}-**`,
+      recipient_address: { name: `Cliente ${i % 17}`, phone: '55119****0000', city: 'São Paulo', state: 'SP' },
+      item_list: [
+        {
+          item_id: product.item_id,
+          item_name: product.item_name,
+          item_sku: product.item_sku,
+          model_id: product.item_id * 10 + (i % product.models.length),
+          model_name: modelName,
+          model_sku: `${product.item_sku}-${modelName}`,
+          model_quantity_purchased: qty,
+          model_original_price: price,
+          model_discounted_price: price,
+        },
+      ],
+      pay_time: status === 'UNPAID' ? 0 : createTime + 600,
+      estimated_shipping_fee: 12.5,
+    });
+  }
+  return out;
+}
+
+const ORDERS = buildOrders();
+const ORDERS_BY_SN = new Map(ORDERS.map((o) => [o.order_sn, o]));
+
+function escrowOf(order) {
+  const commission = money(order.total_amount * 0.14);
+  const service = money(order.total_amount * 0.06);
+  const easyReturn = money(order.total_amount * 0.01);
+  const autoRecharge = order.total_amount > 100 ? money(order.total_amount * 0.02) : 0;
+  return {
+    order_sn: order.order_sn,
+    order_income: {
+      escrow_amount: money(order.total_amount - commission - service - easyReturn - autoRecharge),
+      buyer_total_amount: order.total_amount,
+      commission_fee: commission,
+      service_fee: service,
+      net_commission_fee: commission,
+      net_service_fee: service,
+      seller_transaction_fee: 0,
+      reverse_shipping_fee: 0,
+      delivery_seller_protection_fee_premium_amount: easyReturn,
+      ads_escrow_top_up_fee_or_technical_support_fee: autoRecharge,
+    },
+  };
+}
+
+// ── Validação (mesmas regras da Shopee) ─────────────────────────────────────
+
+function shopeeError(error, message, status = 403) {
+  return Object.assign(new Error(message), { shopeeError: error, status });
+}
+
+function checkCommon(q) {
+  if (Number(q.get('partner_id')) !== PARTNER_ID) throw shopeeError('error_param', 'Wrong partner_id.');
+  const timestamp = Number(q.get('timestamp'));
+  if (!timestamp || Math.abs(now() - timestamp) > TIMESTAMP_TOLERANCE_S) {
+    throw shopeeError('error_param', 'Invalid timestamp.');
+  }
+  return timestamp;
+}
+
+function checkAuthSign(path, q) {
+  const timestamp = checkCommon(q);
+  if (q.get('sign') !== sign(`${PARTNER_ID}${path}${timestamp}`)) throw shopeeError('error_sign', 'Wrong sign.');
+}
+
+function checkShopSign(path, q) {
+  const timestamp = checkCommon(q);
+  const accessToken = String(q.get('access_token') || '');
+  const shopId = Number(q.get('shop_id'));
+  if (q.get('sign') !== sign(`${PARTNER_ID}${path}${timestamp}${accessToken}${shopId}`)) {
+    throw shopeeError('error_sign', 'Wrong sign.');
+  }
+  if (shopId !== SHOP_ID) throw shopeeError('error_shop', 'Shop not authorized.');
+  const expiresAt = tokens.get(accessToken);
+  if (!expiresAt || expiresAt < now()) throw shopeeError('invalid_acceess_token', 'Invalid access_token.');
+}
+
+function issueTokens() {
+  const access = randomToken('access');
+  const refresh = randomToken('refresh');
+  tokens.set(access, now() + ACCESS_TOKEN_TTL_S);
+  refreshTokens.add(refresh);
+  return { access_token: access, refresh_token: refresh, expire_in: ACCESS_TOKEN_TTL_S, shop_id_list: [SHOP_ID] };
+}
+
+// ── Rotas ───────────────────────────────────────────────────────────────────
+
+const routes = {
+  'GET /api/v2/shop/auth_partner': (path, q, _body, res) => {
+    checkAuthSign(path, q);
+    const code = randomToken('code');
+    codes.add(code);
+    const redirect = new URL(String(q.get('redirect') || ''));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('shop_id', String(SHOP_ID));
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+    return undefined;
+  },
+
+  'POST /api/v2/auth/token/get': (path, q, body) => {
+    checkAuthSign(path, q);
+    if (!codes.delete(String(body.code || ''))) throw shopeeError('error_auth', 'Invalid code.');
+    if (Number(body.shop_id) !== SHOP_ID) throw shopeeError('error_shop', 'Shop not authorized.');
+    return issueTokens();
+  },
+
+  'POST /api/v2/auth/access_token/get': (path, q, body) => {
+    checkAuthSign(path, q);
+    if (!refreshTokens.delete(String(body.refresh_token || ''))) {
+      throw shopeeError('error_auth', 'Invalid refresh_token.');
+    }
+    return issueTokens();
+  },
+
+  'GET /api/v2/shop/get_shop_info': (path, q) => {
+    checkShopSign(path, q);
+    return { shop_name: 'Loja Fake', region: 'BR', status: 'NORMAL' };
+  },
+
+  'GET /api/v2/order/get_order_list': (path, q) => {
+    checkShopSign(path, q);
+    const field = String(q.get('time_range_field') || '');
+    if (field !== 'create_time' && field !== 'update_time') {
+      throw shopeeError('error_param', 'time_range_field must be create_time or update_time.', 400);
+    }
+    const from = Number(q.get('time_from'));
+    const to = Number(q.get('time_to'));
+    if (!(to > from) || to - from > FIFTEEN_DAYS_S) {
+      throw shopeeError('error_param', 'time_to - time_from must be within 15 days.', 400);
+    }
+    const pageSize = Math.min(Math.max(Number(q.get('page_size')) || 20, 1), 100);
+    const offset = Number(q.get('cursor')) || 0;
+    const matched = ORDERS.filter((o) => o[field] >= from && o[field] <= to);
+    const page = matched.slice(offset, offset + pageSize);
+    const more = offset + pageSize < matched.length;
+    return {
+      response: {
+        more,
+        next_cursor: more ? String(offset + pageSize) : '',
+        order_list: page.map((o) => ({ order_sn: o.order_sn })),
+      },
+    };
+  },
+
+  'GET /api/v2/order/get_order_detail': (path, q) => {
+    checkShopSign(path, q);
+    const sns = String(q.get('order_sn_list') || '').split(',').filter(Boolean);
+    if (sns.length === 0 || sns.length > 50) {
+      throw shopeeError('error_param', 'order_sn_list must have 1 to 50 orders.', 400);
+    }
+    return { response: { order_list: sns.map((sn) => ORDERS_BY_SN.get(sn)).filter(Boolean) } };
+  },
+
+  'GET /api/v2/payment/get_escrow_detail': (path, q) => {
+    checkShopSign(path, q);
+    const order = ORDERS_BY_SN.get(String(q.get('order_sn') || ''));
+    if (!order) throw shopeeError('error_not_found', 'Order not found.', 404);
+    if (order.order_status !== 'COMPLETED') throw shopeeError('error_param', 'Escrow not released yet.', 400);
+    return { response: escrowOf(order) };
+  },
+};
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const requestId = crypto.randomBytes(8).toString('hex');
+  res.on('finish', () => console.log(`${req.method} ${url.pathname} → ${res.statusCode}`));
+  const send = (status, payload) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: '', message: '', request_id: requestId, ...payload }));
+  };
+  const handler = routes[`${req.method} ${url.pathname}`];
+  if (!handler) return send(404, { error: 'error_not_found', message: `No route ${req.method} ${url.pathname}.` });
+  try {
+    const body = req.method === 'POST' ? await readBody(req) : {};
+    const payload = handler(url.pathname, url.searchParams, body, res);
+    if (payload !== undefined) send(200, payload);
+  } catch (e) {
+    if (e && e.shopeeError) return send(e.status, { error: e.shopeeError, message: e.message });
+    console.error(e);
+    send(500, { error: 'error_server', message: String(e && e.message ? e.message : e) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Shopee fake em http://localhost:${PORT} (partner_id=${PARTNER_ID}, shop_id=${SHOP_ID})`);
+  console.log(`${ORDERS.length} pedidos gerados nos últimos 45 dias.`);
+});
@@ -0,0 +1,221 @@
+/**
+ * Confere se a Finance API (demonstrativos) e o income XLSX geram a mesma entrada de
+ * applyTiktokSettledOrders para o mesmo conjunto de pedidos. Sai com código 1 se houver diferença.
+ *
+ * Uso (na pasta backend):
+ *   npm run check:tiktok-settlement
+ *     → fixture embutida: transações da API e as linhas equivalentes da aba "Detalhes do pedido"
+ *   npm run check:tiktok-settlement -- --xlsx income.xlsx --statements transacoes.json
+ *     → arquivos reais; transacoes.json = [{ statement, transaction }] de fetchStatementTransactions
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseTikTokIncomeReport } from '../src/tiktokIncome.js';
+import type { TiktokShopStatement, TiktokShopStatementTransaction } from '../src/tiktokShopApi.js';
+import {
+  AFFILIATE_FEE_FIELDS,
+  SERVICE_FEE_FIELDS,
+  aggregateStatementTransactions,
+  compareSettledOrders,
+  type StatementEntry,
+} from '../src/tiktokStatement.js';
+
+const require = createRequire(import.meta.url);
+const xlsx = require('xlsx');
+
+function parseArg(name: string): string {
+  const idx = process.argv.indexOf(name);
+  if (idx < 0 || idx >= process.argv.length - 1) return '';
+  return String(process.argv[idx + 1]).trim();
+}
+
+function statement(id: string, paymentId: string): TiktokShopStatement {
+  return { id, payment_id: paymentId } as TiktokShopStatement;
+}
+
+/**
+ * Pedidos cobrindo as regras do agregador: taxas de serviço além de SFP/por item, afiliado + agência,
+ * anúncios da loja, pedido com dois SKUs (taxa repetida por linha) e pedido liquidado em dois pagamentos.
+ */
+function fixtureEntries(): StatementEntry[] {
+  const s1 = statement('ST1', 'PAY1');
+  const s2 = statement('ST2', 'PAY2');
+  const tx = (t: Partial<TiktokShopStatementTransaction> & { id: string }): TiktokShopStatementTransaction => ({
+    type: 'ORDER',
+    ...t,
+  });
+  return [
+    {
+      statement: s1,
+      transaction: tx({
+        id: 'T1',
+        order_id: '5800000000000001',
+        sku_id: 'SKU-A',
+        settlement_amount: '71.30',
+        fee_tax_amount: '-28.70',
+        platform_commission_amount: '-12.00',
+        sfp_service_fee_amount: '-6.00',
+        fee_per_item_sold_amount: '-4.00',
+        transaction_fee_amount: '-1.20',
+        affiliate_commission_amount: '-5.50',
+      }),
+    },
+    {
+      statement: s1,
+      transaction: tx({
+        id: 'T2',
+        order_id: '5800000000000002',
+        sku_id: 'SKU-B',
+        settlement_amount: '40.00',
+        fee_tax_amount: '-20.00',
+        platform_commission_amount: '-8.00',
+        fee_tax_breakdown: {
+          fee: {
+            sfp_service_fee_amount: '-3.00',
+            fee_per_item_sold_amount: '-4.00',
+            affiliate_partner_commission_amount: '-2.00',
+            affiliate_ads_commission_amount: '-1.50',
+            affiliate_partner_ads_commission_amount: '-1.50',
+          },
+        },
+      }),
+    },
+    {
+      statement: s1,
+      transaction: tx({
+        id: 'T3',
+        order_id: '5800000000000002',
+        sku_id: 'SKU-C',
+        settlement_amount: '25.00',
+        fee_tax_amount: '-20.00',
+        platform_commission_amount: '-8.00',
+        fee_tax_breakdown: {
+          fee: {
+            sfp_service_fee_amount: '-3.00',
+            fee_per_item_sold_amount: '-4.00',
+            affiliate_partner_commission_amount: '-2.00',
+            affiliate_ads_commission_amount: '-1.50',
+            affiliate_partner_ads_commission_amount: '-1.50',
+          },
+        },
+      }),
+    },
+    {
+      statement: s1,
+      transaction: tx({
+        id: 'T4',
+        order_id: '5800000000000003',
+        sku_id: 'SKU-A',
+        settlement_amount: '30.00',
+        fee_tax_amount: '-10.00',
+        platform_commission_amount: '-6.00',
+        voucher_xtra_service_fee_amount: '-4.00',
+      }),
+    },
+    {
+      statement: s2,
+      transaction: tx({
+        id: 'T5',
+        order_id: '5800000000000003',
+        sku_id: 'SKU-A',
+        settlement_amount: '12.00',
+        fee_tax_amount: '-3.00',
+        platform_commission_amount: '-3.00',
+      }),
+    },
+    {
+      statement: s2,
+      transaction: tx({ id: 'T6', type: 'ADJUSTMENT', order_id: '5800000000000001', settlement_amount: '-5.00' }),
+    },
+  ];
+}
+
+/** Linha da aba "Detalhes do pedido" que o TikTok gera para a mesma transação. */
+function incomeSheetRow(entry: StatementEntry): Record<string, unknown> {
+  const { statement: st, transaction: t } = entry;
+  const fee = t.fee_tax_breakdown?.fee ?? {};
+  const raw = t as unknown as Record<string, string | undefined>;
+  const val = (f: string) => Number(raw[f] ?? fee[f] ?? 0);
+  const sum = (fields: readonly string[]) =>
+    Number(fields.reduce((acc, f) => acc + val(f), 0).toFixed(2));
+  return {
+    'Tipo de transação': String(t.type).toUpperCase() === 'ORDER' ? 'Pedido' : 'Ajuste',
+    'ID do pedido/ajuste': t.order_id ?? '',
+    'ID do pagamento': st.payment_id ?? '',
+    'ID do demonstrativo': st.id,
+    'ID do SKU': t.sku_id ?? '',
+    'Valor total a ser liquidado': Number(t.settlement_amount ?? 0),
+    'Tarifa de comissão da plataforma': val('platform_commission_amount'),
+    'Taxas de serviço': sum(SERVICE_FEE_FIELDS),
+    'Taxa de serviço do SFP': val('sfp_service_fee_amount'),
+    'Taxa por item vendido': val('fee_per_item_sold_amount'),
+    'Taxas e impostos': Number(t.fee_tax_amount ?? 0),
+    'Comissões de afiliados': sum(AFFILIATE_FEE_FIELDS),
+    'Comissão paga aos criadores': val('affiliate_commission_amount'),
+    'Comissão paga às agências parceiras': val('affiliate_partner_commission_amount'),
+    'Comissão de Anúncios da loja paga aos criadores': val('affiliate_ads_commission_amount'),
+    'Comissão de Anúncios da loja paga às agências parceiras': val('affiliate_partner_ads_commission_amount'),
+  };
+}
+
+function writeFixtureWorkbook(entries: StatementEntry[], dir: string): string {
+  const wb = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(wb, xlsx.utils.json_to_sheet(entries.map(incomeSheetRow)), 'Detalhes do pedido');
+  const filepath = join(dir, 'income-fixture.xlsx');
+  xlsx.writeFile(wb, filepath);
+  return filepath;
+}
+
+function main() {
+  const xlsxPath = parseArg('--xlsx');
+  const statementsPath = parseArg('--statements');
+  if (!!xlsxPath !== !!statementsPath) {
+    console.error('Informe --xlsx e --statements juntos (ou nenhum, para a fixture embutida).');
+    process.exit(2);
+  }
+
+  let tmpDir = '';
+  let entries: StatementEntry[];
+  let incomePath: string;
+  if (xlsxPath) {
+    entries = JSON.parse(readFileSync(statementsPath, 'utf-8')) as StatementEntry[];
+    incomePath = xlsxPath;
+  } else {
+    entries = fixtureEntries();
+    tmpDir = mkdtempSync(join(tmpdir(), 'tiktok-parity-'));
+    incomePath = writeFixtureWorkbook(entries, tmpDir);
+  }
+
+  try {
+    const api = aggregateStatementTransactions(entries);
+    const income = parseTikTokIncomeReport(incomePath);
+    if (income.orders.length === 0) {
+      console.error(`Income XLSX sem pedidos: ${income.message}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const cmp = compareSettledOrders(api.orders, income.orders);
+    console.log(
+      `Pedidos: API ${api.orders.length}, XLSX ${income.orders.length} — iguais ${cmp.equal}, ` +
+        `diferentes ${cmp.different.length}, só API ${cmp.onlyLeft.length}, só XLSX ${cmp.onlyRight.length}`,
+    );
+    for (const d of cmp.different.slice(0, 20)) {
+      console.log(`  ${d.orderId}: API ${JSON.stringify(d.left)} × XLSX ${JSON.stringify(d.right)}`);
+    }
+    if (cmp.onlyLeft.length) console.log(`  só API: ${cmp.onlyLeft.slice(0, 20).join(', ')}`);
+    if (cmp.onlyRight.length) console.log(`  só XLSX: ${cmp.onlyRight.slice(0, 20).join(', ')}`);
+
+    if (cmp.different.length || cmp.onlyLeft.length || cmp.onlyRight.length) {
+      process.exitCode = 1;
+      return;
+    }
+    console.log('OK: API e XLSX geram a mesma liquidação.');
+  } finally {
+    if (tmpDir) rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+main();
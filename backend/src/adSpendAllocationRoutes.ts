@@ -0,0 +1,77 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { EXTERNAL_ADS_CHANNELS, isExternalAdsChannel } from './externalAdsReport.js';
+import { CONTRIBUTION_DASHBOARD_CHANNELS } from './simulationMetrics.js';
+
+/**
+ * Rateio do gasto Meta / Google entre os canais de venda (AdSpendAllocation), usado por computeSimulationMetrics
+ * quando a simulação é filtrada por canal.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+const SALES_CHANNELS: readonly string[] = CONTRIBUTION_DASHBOARD_CHANNELS;
+
+export function registerAdSpendAllocationRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/adspend/allocation → { adChannels, salesChannels, allocations: { meta: { tray_varejo: 100 }, ... } }
+  app.get('/api/adspend/allocation', async (_req, res) => {
+    try {
+      const rows = await prismaAny.adSpendAllocation.findMany({ orderBy: [{ adChannel: 'asc' }, { salesChannel: 'asc' }] });
+      const allocations: Record<string, Record<string, number>> = {};
+      for (const ch of EXTERNAL_ADS_CHANNELS) allocations[ch] = {};
+      for (const r of rows) {
+        allocations[r.adChannel] = { ...(allocations[r.adChannel] ?? {}), [r.salesChannel]: Number(r.percent || 0) };
+      }
+      return res.status(200).json({ adChannels: EXTERNAL_ADS_CHANNELS, salesChannels: SALES_CHANNELS, allocations });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar rateio de ADS.' });
+    }
+  });
+
+  // PUT /api/adspend/allocation/:adChannel  body: { allocations: { tray_varejo: 70, shopee: 30 } } (substitui o rateio do canal)
+  app.put('/api/adspend/allocation/:adChannel', async (req, res) => {
+    try {
+      const adChannel = String(req.params.adChannel).trim().toLowerCase();
+      if (!isExternalAdsChannel(adChannel)) return res.status(400).json({ message: 'Canal de ADS inválido. Use meta | google.' });
+
+      const raw = req.body?.allocations;
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return res.status(400).json({ message: 'allocations obrigatório (ex.: { "tray_varejo": 100 }).' });
+      }
+      const entries: Array<{ salesChannel: string; percent: number }> = [];
+      for (const [salesChannel, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (!SALES_CHANNELS.includes(salesChannel)) {
+          return res.status(400).json({ message: `Canal de venda inválido: ${salesChannel}.` });
+        }
+        const percent = Number(value ?? 0);
+        if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+          return res.status(400).json({ message: 'Percentual deve estar entre 0 e 100.' });
+        }
+        if (percent > 0) entries.push({ salesChannel, percent });
+      }
+      const total = entries.reduce((s, e) => s + e.percent, 0);
+      if (total > 100.0001) {
+        return res.status(400).json({ message: `A soma do rateio não pode passar de 100% (atual: ${total.toFixed(2)}%).` });
+      }
+
+      await prisma.$transaction([
+        prismaAny.adSpendAllocation.deleteMany({ where: { adChannel } }),
+        ...entries.map((e) => prismaAny.adSpendAllocation.create({ data: { adChannel, ...e } })),
+      ]);
+      return res.status(200).json({
+        success: true,
+        adChannel,
+        allocations: Object.fromEntries(entries.map((e) => [e.salesChannel, e.percent])),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar rateio de ADS.' });
+    }
+  });
+}
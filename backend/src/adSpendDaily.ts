@@ -0,0 +1,266 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+
+/**
+ * Gasto de ADS por dia e campanha (AdSpendDaily) e o total mensal derivado (AdSpend).
+ * Fontes: sync da TikTok Ads API (quebrado por campanha), planilha da carteira Shopee (por dia, sem campanha)
+ * e relatórios CSV do Meta Ads / Google Ads (por dia e campanha).
+ * Sempre que as linhas diárias de um canal mudam, o AdSpend dos meses tocados é regravado com a soma delas.
+ * O valor lançado à mão em /api/adspend também vira linha diária (campanha "mensal", no dia 1): o AdSpend nunca
+ * é gravado direto, então um import ou sync posterior não apaga o lançamento.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+export type AdSpendDailyInput = {
+  date: Date;
+  campaignId?: string;
+  campaignName?: string;
+  spend: number;
+  impressions?: number | null;
+  clicks?: number | null;
+  conversions?: number | null;
+  attributedRevenue?: number | null;
+};
+
+export type WriteAdSpendDailyOptions = {
+  /**
+   * replace: apaga as linhas do canal nos meses tocados e grava as novas;
+   * replaceDays: apaga só os dias presentes nas linhas (reimportar um período não duplica nem apaga o resto do mês);
+   * add: soma às existentes.
+   */
+  mode: 'replace' | 'replaceDays' | 'add';
+  origin: 'api' | 'import' | 'manual';
+  /** Meses (início do mês) a recalcular além dos que aparecem nas linhas — ex.: mês sincronizado sem gasto. */
+  months?: Date[];
+  /** Observação gravada no AdSpend mensal. */
+  notes: string;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Campanha da linha diária que guarda o lançamento manual do mês. */
+export const MANUAL_MONTH_CAMPAIGN_ID = 'mensal';
+
+/**
+ * Campanha do total mensal que veio de sync/import antes do detalhamento diário. Ao contrário do
+ * lançamento manual, o replace do mesmo canal apaga essa linha — o novo sync/import traz o mês inteiro.
+ */
+export const LEGACY_MONTH_CAMPAIGN_ID = 'total_anterior';
+
+export function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** YYYY-MM-DD → início do dia local (mesma convenção de AdSpend.month e das vendas por dia). */
+export function dateFromDayKey(v: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(v ?? '').trim());
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function monthStartOf(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), 1);
+}
+
+function nextMonth(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth() + 1, 1);
+}
+
+/**
+ * Grava as linhas diárias de um canal e recalcula o AdSpend dos meses tocados.
+ * Devolve os AdSpend mensais regravados.
+ */
+export async function writeAdSpendDaily(
+  prisma: PrismaClient,
+  channel: string,
+  rows: AdSpendDailyInput[],
+  opts: WriteAdSpendDailyOptions,
+) {
+  const prismaAny = prisma as any;
+  const monthByKey = new Map<number, Date>();
+  for (const d of [...(opts.months ?? []), ...rows.map((r) => r.date)]) {
+    const m = monthStartOf(d);
+    monthByKey.set(m.getTime(), m);
+  }
+  const months = [...monthByKey.values()].sort((a, b) => a.getTime() - b.getTime());
+
+  // Mesmo dia/campanha pode vir repetido (ex.: várias recargas da carteira no dia)
+  const merged = new Map<string, AdSpendDailyInput & { campaignId: string }>();
+  for (const r of rows) {
+    const date = new Date(r.date.getFullYear(), r.date.getMonth(), r.date.getDate());
+    const campaignId = r.campaignId ?? '';
+    const key = `${date.getTime()}|${campaignId}`;
+    const prev = merged.get(key);
+    if (!prev) {
+      merged.set(key, { ...r, date, campaignId });
+      continue;
+    }
+    const sum = (a?: number | null, b?: number | null) => (a == null && b == null ? null : (a ?? 0) + (b ?? 0));
+    merged.set(key, {
+      ...prev,
+      spend: prev.spend + r.spend,
+      impressions: sum(prev.impressions, r.impressions),
+      clicks: sum(prev.clicks, r.clicks),
+      conversions: sum(prev.conversions, r.conversions),
+      attributedRevenue: sum(prev.attributedRevenue, r.attributedRevenue),
+    });
+  }
+
+  const ops: any[] = [];
+  // O lançamento manual (campanha "mensal") só sai por /api/adspend; o total legado sai no replace
+  const keepManual = { campaignId: { not: MANUAL_MONTH_CAMPAIGN_ID } };
+  if (opts.mode === 'replace') {
+    for (const m of months) {
+      ops.push(prismaAny.adSpendDaily.deleteMany({ where: { channel, date: { gte: m, lt: nextMonth(m) }, ...keepManual } }));
+    }
+  } else if (opts.mode === 'replaceDays') {
+    const days = [...new Set([...merged.values()].map((r) => r.date.getTime()))].map((t) => new Date(t));
+    if (days.length > 0) ops.push(prismaAny.adSpendDaily.deleteMany({ where: { channel, date: { in: days }, ...keepManual } }));
+  }
+  for (const r of merged.values()) {
+    const data = {
+      campaignName: r.campaignName ?? '',
+      spend: round2(r.spend),
+      impressions: r.impressions ?? null,
+      clicks: r.clicks ?? null,
+      conversions: r.conversions ?? null,
+      attributedRevenue: r.attributedRevenue == null ? null : round2(r.attributedRevenue),
+      origin: opts.origin,
+    };
+    if (opts.mode !== 'add') {
+      ops.push(prismaAny.adSpendDaily.create({ data: { date: r.date, channel, campaignId: r.campaignId, ...data } }));
+      continue;
+    }
+    const inc = (v: number | null) => (v == null ? undefined : { increment: v });
+    ops.push(
+      prismaAny.adSpendDaily.upsert({
+        where: { date_channel_campaignId: { date: r.date, channel, campaignId: r.campaignId } },
+        update: {
+          spend: { increment: data.spend },
+          impressions: inc(data.impressions),
+          clicks: inc(data.clicks),
+          conversions: inc(data.conversions),
+          attributedRevenue: inc(data.attributedRevenue),
+          origin: opts.origin,
+        },
+        create: { date: r.date, channel, campaignId: r.campaignId, ...data },
+      }),
+    );
+  }
+  if (ops.length > 0) await prisma.$transaction(ops);
+
+  return rollupAdSpendMonths(prisma, channel, months, opts.notes);
+}
+
+/**
+ * Lançamento manual do total do mês: a linha "mensal" fica com a diferença para o que já veio por dia
+ * (imports/sync), para o AdSpend do mês bater com o valor digitado. Devolve erro se o mês já tem mais que isso.
+ * Imports posteriores somam às linhas diárias sem apagar a "mensal".
+ */
+export async function writeManualAdSpend(
+  prisma: PrismaClient,
+  channel: string,
+  month: Date,
+  amount: number,
+  notes: string,
+): Promise<{ row: any } | { error: string }> {
+  const prismaAny = prisma as any;
+  const start = monthStartOf(month);
+  const agg = await prismaAny.adSpendDaily.aggregate({
+    where: { channel, date: { gte: start, lt: nextMonth(start) }, campaignId: { not: MANUAL_MONTH_CAMPAIGN_ID } },
+    _sum: { spend: true },
+  });
+  const daily = round2(Number(agg?._sum?.spend ?? 0));
+  const manual = round2(amount - daily);
+  if (manual < 0) {
+    return {
+      error: `O mês já tem R$ ${daily.toFixed(2)} de gasto diário importado para ${channel}; o total não pode ser menor.`,
+    };
+  }
+  await prismaAny.adSpendDaily.deleteMany({ where: { channel, date: start, campaignId: MANUAL_MONTH_CAMPAIGN_ID } });
+  const rows =
+    manual > 0 ? [{ date: start, campaignId: MANUAL_MONTH_CAMPAIGN_ID, campaignName: 'Lançamento manual', spend: manual }] : [];
+  const [row] = await writeAdSpendDaily(prisma, channel, rows, { mode: 'add', origin: 'manual', months: [start], notes });
+  return { row };
+}
+
+/** AdSpend (mês, canal) = soma das linhas diárias do mês. */
+export async function rollupAdSpendMonths(prisma: PrismaClient, channel: string, months: Date[], notes: string) {
+  const prismaAny = prisma as any;
+  const out: any[] = [];
+  for (const month of months) {
+    const agg = await prismaAny.adSpendDaily.aggregate({
+      where: { channel, date: { gte: month, lt: nextMonth(month) } },
+      _sum: { spend: true },
+    });
+    const amount = round2(Number(agg?._sum?.spend ?? 0));
+    out.push(
+      await prismaAny.adSpend.upsert({
+        where: { month_channel: { month, channel } },
+        update: { amount, notes },
+        create: { month, channel, amount, notes },
+      }),
+    );
+  }
+  return out;
+}
+
+export type DailySpendTotals = {
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  attributedRevenue: number;
+};
+
+/** Soma as linhas diárias do intervalo [from, to) por "YYYY-MM-DD|canal". */
+export async function loadDailySpendByDayChannel(prisma: PrismaClient, from: Date, to: Date) {
+  const rows = await (prisma as any).adSpendDaily.findMany({
+    where: { date: { gte: from, lt: to } },
+    select: { date: true, channel: true, spend: true, impressions: true, clicks: true, conversions: true, attributedRevenue: true },
+  });
+  const out = new Map<string, DailySpendTotals>();
+  for (const r of rows) {
+    const key = `${dayKey(new Date(r.date))}|${String(r.channel || '').toLowerCase()}`;
+    const t = out.get(key) ?? { spend: 0, impressions: 0, clicks: 0, conversions: 0, attributedRevenue: 0 };
+    t.spend += Number(r.spend || 0);
+    t.impressions += Number(r.impressions || 0);
+    t.clicks += Number(r.clicks || 0);
+    t.conversions += Number(r.conversions || 0);
+    t.attributedRevenue += Number(r.attributedRevenue || 0);
+    out.set(key, t);
+  }
+  return out;
+}
+
+export function registerAdSpendDailyRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // Linhas diárias: GET /api/adspend/daily?from=2026-06-01&to=2026-06-30&channel=tiktok
+  app.get('/api/adspend/daily', async (req, res) => {
+    try {
+      const from = dateFromDayKey(String(req.query.from ?? ''));
+      const toDay = dateFromDayKey(String(req.query.to ?? ''));
+      if (!from || !toDay || from > toDay) {
+        return res.status(400).json({ message: 'Parâmetros from e to devem ser YYYY-MM-DD com início ≤ fim.' });
+      }
+      const channel = String(req.query.channel ?? '').trim().toLowerCase();
+      const rows = await prismaAny.adSpendDaily.findMany({
+        where: {
+          date: { gte: from, lt: new Date(toDay.getFullYear(), toDay.getMonth(), toDay.getDate() + 1) },
+          ...(channel ? { channel } : {}),
+        },
+        orderBy: [{ date: 'asc' }, { channel: 'asc' }, { spend: 'desc' }],
+      });
+      return res.json(rows);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar gastos diários de ADS.' });
+    }
+  });
+}
@@ -0,0 +1,379 @@
+import { createHmac } from 'node:crypto';
+import type { Express } from 'express';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { ORDER_STATUS_EXCLUDED, monthStartFromYYYYMM } from './simulationMetrics.js';
+
+/**
+ * Compradores por canal e segmentação RFM (recência, frequência, valor).
+ *
+ * Os parsers (Shopee, TikTok, Nuvemshop) e as syncs por API extraem um identificador do comprador
+ * (CPF/CNPJ, usuário, e-mail ou telefone) + cidade/UF. O identificador é normalizado e vira um HMAC-sha256
+ * com a chave secreta CUSTOMER_KEY_SALT (obrigatória: CPF e telefone sem chave se revertem por enumeração):
+ * o banco guarda só a chave, nunca o dado em claro.
+ * Valores mascarados pela plataforma (com `*`) são ignorados — não identificam ninguém.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+export type BuyerInfo = {
+  document?: string | null;
+  username?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  city?: string | null;
+  state?: string | null;
+};
+
+export type BuyerKeyType = 'document' | 'username' | 'email' | 'phone';
+
+/** Campos do comprador nas planilhas (ver IMPORT_LAYOUT_HEADERS). */
+export const BUYER_FIELDS = ['buyerDocument', 'buyerUsername', 'buyerEmail', 'buyerPhone', 'city', 'state'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_CUSTOMERS = 10;
+const CHUNK = 1000;
+
+function clean(v: unknown): string {
+  const s = v == null ? '' : String(v).trim();
+  return s.includes('*') ? '' : s;
+}
+
+/** Identificador normalizado de maior prioridade: documento > usuário > e-mail > telefone. */
+export function buyerIdentity(buyer: BuyerInfo): { keyType: BuyerKeyType; value: string } | null {
+  const doc = clean(buyer.document).replace(/\D/g, '');
+  if (doc.length === 11 || doc.length === 14) return { keyType: 'document', value: doc };
+  const username = clean(buyer.username).toLowerCase().replace(/\s+/g, '');
+  if (username) return { keyType: 'username', value: username };
+  const email = clean(buyer.email).toLowerCase();
+  if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) return { keyType: 'email', value: email };
+  // Telefone: últimos 11 dígitos (DDD + número), sem DDI
+  const phone = clean(buyer.phone).replace(/\D/g, '').slice(-11);
+  if (phone.length >= 10) return { keyType: 'phone', value: phone };
+  return null;
+}
+
+/** Chave do HMAC dos compradores. Chamada no início do servidor: sem ela o backend não sobe. */
+export function customerKeySalt(): string {
+  const salt = String(process.env.CUSTOMER_KEY_SALT ?? '').trim();
+  if (!salt) throw new Error('CUSTOMER_KEY_SALT não definida: configure a chave secreta do hash dos compradores.');
+  return salt;
+}
+
+export function buyerKeyOf(buyer: BuyerInfo): { keyType: BuyerKeyType; buyerKey: string } | null {
+  const id = buyerIdentity(buyer);
+  if (!id) return null;
+  const buyerKey = createHmac('sha256', customerKeySalt()).update(`${id.keyType}:${id.value}`).digest('hex');
+  return { keyType: id.keyType, buyerKey };
+}
+
+/** Lê os campos do comprador de uma linha; `get(field)` resolve o cabeçalho do layout. */
+export function buyerFromRow(get: (field: (typeof BUYER_FIELDS)[number]) => unknown): BuyerInfo {
+  return {
+    document: clean(get('buyerDocument')) || null,
+    username: clean(get('buyerUsername')) || null,
+    email: clean(get('buyerEmail')) || null,
+    phone: clean(get('buyerPhone')) || null,
+    city: clean(get('city')) || null,
+    state: clean(get('state')) || null,
+  };
+}
+
+/** Junta dois registros do mesmo pedido (linhas de itens repetem ou omitem os dados do comprador). */
+export function mergeBuyer(into: BuyerInfo, from: BuyerInfo): BuyerInfo {
+  return {
+    document: into.document || from.document,
+    username: into.username || from.username,
+    email: into.email || from.email,
+    phone: into.phone || from.phone,
+    city: into.city || from.city,
+    state: into.state || from.state,
+  };
+}
+
+/** Comprador por pedido de uma planilha com uma linha por item (Shopee/TikTok). */
+export function buyersFromRows(
+  rows: Record<string, unknown>[],
+  orderIdOf: (row: Record<string, unknown>) => string,
+  get: (row: Record<string, unknown>, field: (typeof BUYER_FIELDS)[number]) => unknown,
+): Map<string, BuyerInfo> {
+  const out = new Map<string, BuyerInfo>();
+  for (const row of rows) {
+    const orderId = orderIdOf(row);
+    if (!orderId) continue;
+    const buyer = buyerFromRow((field) => get(row, field));
+    const prev = out.get(orderId);
+    out.set(orderId, prev ? mergeBuyer(prev, buyer) : buyer);
+  }
+  return out;
+}
+
+/**
+ * Cria/atualiza os Customer do canal e grava Order.customerId. Pedidos sem identificador ficam como estão.
+ * Chamado depois da gravação dos pedidos; falha aqui só é logada (não desfaz o import/sync).
+ */
+export async function linkOrderCustomers(
+  prisma: PrismaClient,
+  source: string,
+  entries: Array<{ orderId: string; buyer: BuyerInfo }>,
+): Promise<number> {
+  try {
+    const byKey = new Map<string, { keyType: BuyerKeyType; city: string | null; state: string | null; orderIds: string[] }>();
+    for (const { orderId, buyer } of entries) {
+      const key = buyerKeyOf(buyer);
+      if (!key) continue;
+      const acc = byKey.get(key.buyerKey) ?? { keyType: key.keyType, city: null, state: null, orderIds: [] };
+      acc.city = buyer.city || acc.city;
+      acc.state = buyer.state || acc.state;
+      acc.orderIds.push(orderId);
+      byKey.set(key.buyerKey, acc);
+    }
+    if (byKey.size === 0) return 0;
+
+    const keys = [...byKey.keys()];
+    let linked = 0;
+    for (let i = 0; i < keys.length; i += CHUNK) {
+      const slice = keys.slice(i, i + CHUNK);
+      await (prisma as any).customer.createMany({
+        data: slice.map((buyerKey) => {
+          const acc = byKey.get(buyerKey)!;
+          return { channel: source, buyerKey, keyType: acc.keyType, city: acc.city, state: acc.state };
+        }),
+        skipDuplicates: true,
+      });
+      const customers: Array<{ id: number; buyerKey: string; city: string | null; state: string | null }> =
+        await (prisma as any).customer.findMany({
+          where: { channel: source, buyerKey: { in: slice } },
+          select: { id: true, buyerKey: true, city: true, state: true },
+        });
+      const ops: any[] = [];
+      for (const c of customers) {
+        const acc = byKey.get(c.buyerKey)!;
+        // Endereço mais recente prevalece
+        if ((acc.city && acc.city !== c.city) || (acc.state && acc.state !== c.state)) {
+          ops.push(
+            (prisma as any).customer.update({
+              where: { id: c.id },
+              data: { city: acc.city || c.city, state: acc.state || c.state },
+            }),
+          );
+        }
+        ops.push(
+          (prisma as any).order.updateMany({
+            where: { source, orderId: { in: acc.orderIds } },
+            data: { customerId: c.id },
+          }),
+        );
+      }
+      const results = await prisma.$transaction(ops);
+      linked += results.reduce((s: number, r: any) => s + (typeof r?.count === 'number' ? r.count : 0), 0);
+    }
+    return linked;
+  } catch (e) {
+    console.error(`Erro ao vincular compradores (${source}):`, e);
+    return 0;
+  }
+}
+
+type CustomerAgg = {
+  customerId: number;
+  channel: string;
+  orders: number;
+  revenue: number;
+  firstOrder: Date;
+  lastOrder: Date;
+};
+
+export type RfmSegment = 'champions' | 'loyal' | 'new' | 'potential' | 'at_risk' | 'hibernating';
+
+export const RFM_SEGMENT_LABELS: Record<RfmSegment, string> = {
+  champions: 'Campeões',
+  loyal: 'Leais',
+  new: 'Novos',
+  potential: 'Potenciais',
+  at_risk: 'Em risco',
+  hibernating: 'Hibernando',
+};
+
+/** Nota 1–5 por quintil; empates recebem a mesma nota (posição média do grupo empatado). */
+function quintileScorer(values: number[]): (v: number) => number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const bound = (v: number, inclusive: boolean) => {
+    let lo = 0;
+    let hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < v || (inclusive && sorted[mid] === v)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  return (v) => {
+    if (n === 0) return 1;
+    const rank = (bound(v, false) + bound(v, true)) / 2;
+    return Math.min(5, 1 + Math.floor((5 * rank) / n));
+  };
+}
+
+function rfmSegment(r: number, f: number, orders: number): RfmSegment {
+  if (r >= 4 && f >= 4) return 'champions';
+  if (r >= 3 && f >= 3 && orders > 1) return 'loyal';
+  if (r >= 4 && orders === 1) return 'new';
+  if (r <= 2 && orders > 1) return 'at_risk';
+  if (r >= 3) return 'potential';
+  return 'hibernating';
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function summarizeChannel(channel: string, rows: CustomerAgg[], refDate: Date) {
+  const recencyOf = (c: CustomerAgg) => Math.max(0, Math.floor((refDate.getTime() - c.lastOrder.getTime()) / DAY_MS));
+  // Recência: menos dias = nota maior
+  const rScore = quintileScorer(rows.map((c) => -recencyOf(c)));
+  const fScore = quintileScorer(rows.map((c) => c.orders));
+  const mScore = quintileScorer(rows.map((c) => c.revenue));
+
+  const segments = Object.fromEntries(
+    (Object.keys(RFM_SEGMENT_LABELS) as RfmSegment[]).map((s) => [s, { customers: 0, revenue: 0 }]),
+  ) as Record<RfmSegment, { customers: number; revenue: number }>;
+
+  const scored = rows.map((c) => {
+    const recencyDays = recencyOf(c);
+    const r = rScore(-recencyDays);
+    const f = fScore(c.orders);
+    const m = mScore(c.revenue);
+    const segment = rfmSegment(r, f, c.orders);
+    segments[segment].customers += 1;
+    segments[segment].revenue += c.revenue;
+    return { ...c, recencyDays, r, f, m, segment };
+  });
+
+  const repeat = rows.filter((c) => c.orders > 1);
+  const gaps = repeat.map((c) => (c.lastOrder.getTime() - c.firstOrder.getTime()) / DAY_MS / (c.orders - 1));
+  const orders = rows.reduce((s, c) => s + c.orders, 0);
+  const revenue = rows.reduce((s, c) => s + c.revenue, 0);
+
+  return {
+    channel,
+    customers: rows.length,
+    repeatCustomers: repeat.length,
+    repeatRate: rows.length > 0 ? round2((100 * repeat.length) / rows.length) : 0,
+    orders,
+    revenue: round2(revenue),
+    ordersPerCustomer: rows.length > 0 ? round2(orders / rows.length) : 0,
+    avgDaysBetweenPurchases: gaps.length > 0 ? round2(gaps.reduce((s, g) => s + g, 0) / gaps.length) : null,
+    segments: Object.fromEntries(
+      Object.entries(segments).map(([k, v]) => [k, { customers: v.customers, revenue: round2(v.revenue) }]),
+    ),
+    topCustomers: scored
+      .sort((a, b) => b.revenue - a.revenue || b.orders - a.orders)
+      .slice(0, TOP_CUSTOMERS)
+      .map((c) => ({
+        customerId: c.customerId,
+        orders: c.orders,
+        revenue: round2(c.revenue),
+        firstOrder: c.firstOrder,
+        lastOrder: c.lastOrder,
+        recencyDays: c.recencyDays,
+        score: `${c.r}${c.f}${c.m}`,
+        segment: c.segment,
+      })),
+  };
+}
+
+export function registerCustomerRoutes(app: Express, { prisma }: Deps) {
+  /**
+   * GET /api/customers/rfm?channel=shopee&start=YYYY-MM&end=YYYY-MM
+   * Por canal: clientes, taxa de recompra, média de dias entre compras, segmentos RFM e top clientes.
+   * Considera só pedidos válidos (sem cancelados/não pagos/devolvidos) vinculados a um comprador.
+   */
+  app.get('/api/customers/rfm', async (req, res) => {
+    try {
+      const channel = String(req.query.channel ?? 'all').trim() || 'all';
+      const startStr = String(req.query.start ?? '').trim();
+      const endStr = String(req.query.end ?? startStr).trim() || startStr;
+
+      const where: Prisma.OrderWhereInput = {
+        customerId: { not: null },
+        NOT: [...ORDER_STATUS_EXCLUDED],
+        ...(channel !== 'all' ? { source: channel } : {}),
+      };
+      let refDate = new Date();
+      if (startStr) {
+        const monthStart = monthStartFromYYYYMM(startStr);
+        const monthEnd = monthStartFromYYYYMM(endStr);
+        if (!monthStart || !monthEnd) {
+          return res.status(400).json({ message: 'Parâmetros start/end inválidos (use YYYY-MM).' });
+        }
+        const [from, to] = monthStart <= monthEnd ? [monthStart, monthEnd] : [monthEnd, monthStart];
+        const until = new Date(to.getFullYear(), to.getMonth() + 1, 1);
+        where.orderDate = { gte: from, lt: until };
+        // Recência medida no fim do período (não "hoje") para períodos passados
+        if (until < refDate) refDate = until;
+      }
+
+      const grouped: any[] = await (prisma as any).order.groupBy({
+        by: ['customerId', 'source'],
+        where,
+        _count: { _all: true },
+        _sum: { totalPrice: true },
+        _min: { orderDate: true },
+        _max: { orderDate: true },
+      });
+
+      const byChannel = new Map<string, CustomerAgg[]>();
+      for (const g of grouped) {
+        const list = byChannel.get(g.source) ?? [];
+        list.push({
+          customerId: g.customerId,
+          channel: g.source,
+          orders: g._count._all,
+          revenue: Number(g._sum.totalPrice) || 0,
+          firstOrder: g._min.orderDate,
+          lastOrder: g._max.orderDate,
+        });
+        byChannel.set(g.source, list);
+      }
+
+      const channels = [...byChannel.entries()]
+        .map(([ch, rows]) => summarizeChannel(ch, rows, refDate))
+        .sort((a, b) => b.revenue - a.revenue);
+
+      // Cidade/UF e tipo de chave só para os clientes exibidos
+      const shownIds = [...new Set(channels.flatMap((c) => c.topCustomers.map((t) => t.customerId)))];
+      const customers: Array<{ id: number; keyType: string; city: string | null; state: string | null }> =
+        shownIds.length > 0
+          ? await (prisma as any).customer.findMany({
+              where: { id: { in: shownIds } },
+              select: { id: true, keyType: true, city: true, state: true },
+            })
+          : [];
+      const customerById = new Map(customers.map((c) => [c.id, c]));
+
+      const unlinkedOrders = await prisma.order.count({
+        where: { ...where, customerId: null },
+      });
+
+      return res.json({
+        channel,
+        referenceDate: refDate,
+        segmentLabels: RFM_SEGMENT_LABELS,
+        unlinkedOrders,
+        channels: channels.map((c) => ({
+          ...c,
+          topCustomers: c.topCustomers.map((t) => {
+            const info = customerById.get(t.customerId);
+            return { ...t, keyType: info?.keyType ?? '', city: info?.city ?? null, state: info?.state ?? null };
+          }),
+        })),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao calcular RFM de clientes' });
+    }
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * Relatórios de campanhas exportados do Meta Ads (Gerenciador de Anúncios) e do Google Ads, em CSV.
+ *
+ * Meta: Relatórios → Exportar tabela (CSV), com a quebra "Dia". Sem ela o arquivo traz só
+ * "Início dos relatórios"/"Término dos relatórios" e cada linha vale pelo período inteiro.
+ * Google: Campanhas → Baixar → CSV, com a coluna "Dia" (segmento por dia). As duas primeiras linhas
+ * (nome do relatório e período) e as linhas "Total: ..." do fim são ignoradas.
+ *
+ * Cabeçalhos aceitos em português e inglês; valores em BRL passam pelo parseBrNumber de quem chama.
+ */
+import { dateFromDayKey, type AdSpendDailyInput } from './adSpendDaily.js';
+
+export const EXTERNAL_ADS_CHANNELS = ['meta', 'google'] as const;
+export type ExternalAdsChannel = (typeof EXTERNAL_ADS_CHANNELS)[number];
+
+export function isExternalAdsChannel(v: string): v is ExternalAdsChannel {
+  return (EXTERNAL_ADS_CHANNELS as readonly string[]).includes(v);
+}
+
+type ReportField =
+  | 'day'
+  | 'periodStart'
+  | 'periodEnd'
+  | 'campaignId'
+  | 'campaignName'
+  | 'spend'
+  | 'impressions'
+  | 'clicks'
+  | 'conversions'
+  | 'conversionValue';
+
+const REPORT_HEADERS: Record<ExternalAdsChannel, Partial<Record<ReportField, string[]>>> = {
+  meta: {
+    day: ['Dia', 'Day'],
+    periodStart: ['Início dos relatórios', 'Reporting starts'],
+    periodEnd: ['Término dos relatórios', 'Reporting ends'],
+    campaignId: ['Identificação da campanha', 'ID da campanha', 'Campaign ID'],
+    campaignName: ['Nome da campanha', 'Campaign name'],
+    spend: ['Valor usado (BRL)', 'Valor gasto (BRL)', 'Amount spent (BRL)', 'Valor usado', 'Amount spent'],
+    impressions: ['Impressões', 'Impressions'],
+    clicks: ['Cliques no link', 'Link clicks', 'Cliques (todos)', 'Clicks (all)'],
+    conversions: ['Compras', 'Purchases', 'Resultados', 'Results'],
+    conversionValue: ['Valor de conversão da compra', 'Valor de conversão de compras', 'Purchases conversion value'],
+  },
+  google: {
+    day: ['Dia', 'Day'],
+    campaignId: ['ID da campanha', 'Campaign ID'],
+    campaignName: ['Campanha', 'Campaign'],
+    spend: ['Custo', 'Cost'],
+    impressions: ['Impr.', 'Impressões', 'Impressions'],
+    clicks: ['Cliques', 'Clicks'],
+    conversions: ['Conversões', 'Conversions'],
+    conversionValue: ['Valor conv.', 'Valor de conv.', 'Conv. value', 'Conversion value'],
+  },
+};
+
+export type ExternalAdsReport = {
+  rows: AdSpendDailyInput[];
+  /** Linhas de dados lidas (fora cabeçalho e totais). */
+  dataRows: number;
+  /** Linhas descartadas: sem data legível, período em mais de um mês (Meta sem "Dia") ou sem gasto. */
+  skipped: number;
+  message?: string;
+};
+
+function normalizeHeader(s: unknown): string {
+  return String(s ?? '')
+    .replace(/^\uFEFF/, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** DD/MM/AAAA, AAAA-MM-DD, "15 de jun. de 2026" / "Jun 15, 2026" ou serial do Excel → início do dia local. */
+function parseReportDay(v: unknown): Date | null {
+  if (v == null || v === '') return null;
+  if (typeof v === 'number' && Number.isFinite(v)) {
+    const d = new Date(Math.round((v - 25569) * 86400 * 1000));
+    return isNaN(d.getTime()) ? null : new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  }
+  const s = String(v).trim();
+  const iso = dateFromDayKey(s);
+  if (iso) return iso;
+  const br = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (br) return new Date(Number(br[3]), Number(br[2]) - 1, Number(br[1]));
+  const d = new Date(s.replace(/ de /g, ' ').replace(/\./g, ''));
+  return isNaN(d.getTime()) ? null : new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/**
+ * Linhas da planilha (header: 1) → gasto diário por campanha.
+ * O cabeçalho é a primeira linha que tem a coluna de gasto e alguma coluna de data.
+ */
+export function parseExternalAdsReport(
+  channel: ExternalAdsChannel,
+  rows: unknown[][],
+  parseBrNumber: (v: unknown) => number,
+): ExternalAdsReport {
+  const headers = REPORT_HEADERS[channel];
+  const findCol = (header: string[], field: ReportField) => {
+    for (const candidate of headers[field] ?? []) {
+      const idx = header.indexOf(normalizeHeader(candidate));
+      if (idx >= 0) return idx;
+    }
+    return -1;
+  };
+
+  let headerIdx = -1;
+  let header: string[] = [];
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const h = (rows[i] || []).map(normalizeHeader);
+    if (findCol(h, 'spend') >= 0 && (findCol(h, 'day') >= 0 || findCol(h, 'periodStart') >= 0)) {
+      headerIdx = i;
+      header = h;
+      break;
+    }
+  }
+  if (headerIdx < 0) {
+    const label = channel === 'meta' ? 'Meta Ads' : 'Google Ads';
+    return { rows: [], dataRows: 0, skipped: 0, message: `Cabeçalho do relatório ${label} não encontrado (precisa de data e valor gasto).` };
+  }
+
+  const col = {
+    day: findCol(header, 'day'),
+    periodStart: findCol(header, 'periodStart'),
+    periodEnd: findCol(header, 'periodEnd'),
+    campaignId: findCol(header, 'campaignId'),
+    campaignName: findCol(header, 'campaignName'),
+    spend: findCol(header, 'spend'),
+    impressions: findCol(header, 'impressions'),
+    clicks: findCol(header, 'clicks'),
+    conversions: findCol(header, 'conversions'),
+    conversionValue: findCol(header, 'conversionValue'),
+  };
+  const cell = (r: unknown[], idx: number) => (idx >= 0 ? r[idx] : undefined);
+  const optionalInt = (r: unknown[], idx: number) => {
+    const v = cell(r, idx);
+    if (v == null || String(v).trim() === '' || String(v).trim() === '--') return null;
+    return Math.round(parseBrNumber(v));
+  };
+  const optionalMoney = (r: unknown[], idx: number) => {
+    const v = cell(r, idx);
+    if (v == null || String(v).trim() === '' || String(v).trim() === '--') return null;
+    return parseBrNumber(v);
+  };
+
+  const out: AdSpendDailyInput[] = [];
+  let dataRows = 0;
+  let skipped = 0;
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const r = rows[i] || [];
+    if (r.every((c) => c == null || String(c).trim() === '')) continue;
+    // Google: "Total: conta", "Total: campanhas"...; Meta: linha de resultados gerais sem campanha
+    if (/^total/i.test(String(r[0] ?? '').trim())) continue;
+    dataRows++;
+
+    let date: Date | null = null;
+    if (col.day >= 0) {
+      date = parseReportDay(cell(r, col.day));
+    } else {
+      // Meta sem quebra diária: o período precisa caber em um mês (vai para o primeiro dia, o total mensal fica certo)
+      const start = parseReportDay(cell(r, col.periodStart));
+      const end = col.periodEnd >= 0 ? parseReportDay(cell(r, col.periodEnd)) : start;
+      if (start && end && start.getFullYear() === end.getFullYear() && start.getMonth() === end.getMonth()) {
+        date = start;
+      }
+    }
+    const spend = Math.abs(parseBrNumber(cell(r, col.spend)));
+    if (!date || !spend) {
+      skipped++;
+      continue;
+    }
+
+    const campaignName = String(cell(r, col.campaignName) ?? '').trim();
+    const campaignId = String(cell(r, col.campaignId) ?? '').trim() || campaignName;
+    out.push({
+      date,
+      campaignId,
+      campaignName,
+      spend,
+      impressions: optionalInt(r, col.impressions),
+      clicks: optionalInt(r, col.clicks),
+      conversions: optionalInt(r, col.conversions),
+      attributedRevenue: optionalMoney(r, col.conversionValue),
+    });
+  }
+
+  return { rows: out, dataRows, skipped };
+}
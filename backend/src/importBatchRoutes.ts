@@ -0,0 +1,569 @@
+import type { Express, Response } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  buildRejectionReport,
+  countRejected,
+  isRejectionReportFormat,
+  sanitizeRejectedRows,
+  REJECTION_REPORT_CONTENT_TYPES,
+  type RejectedRow,
+  type RejectionReportFormat,
+} from './importRejections.js';
+import { buildOrderEventsCreate, type OrderEventDraft } from './orderHistory.js';
+
+/**
+ * Lotes de importação (/api/upload e /api/upload-items).
+ * Cada lote guarda o hash do arquivo e o estado anterior de cada Order/OrderItem tocado,
+ * permitindo listar o histórico e desfazer um upload errado sem scripts manuais.
+ * Produtos criados por ensureProduct não entram no lote (cadastro compartilhado entre imports).
+ * As linhas rejeitadas/com ressalva também ficam no lote, para baixar o relatório depois.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+export type ImportBatchKind = 'orders' | 'items';
+
+export type OrderKey = { orderId: string; source: string };
+export type ItemKey = { orderId: string; source: string; productCode: string };
+export type SnapshotRow = Record<string, unknown>;
+export type SnapshotMap = Map<string, SnapshotRow>;
+
+/** Colunas de Order restauradas no rollback. */
+const ORDER_SNAPSHOT_FIELDS = [
+  'orderId',
+  'source',
+  'orderDate',
+  'productName',
+  'quantity',
+  'totalPrice',
+  'status',
+  'createdAt',
+  'commissionFee',
+  'serviceFee',
+  'easyReturnFee',
+  'autoRechargeFee',
+  'reverseShippingFee',
+  'feesManual',
+  'settlementAmount',
+  'estimatedSettlementAmount',
+  'partnerCommission',
+  'paymentId',
+  'freight',
+  'freightManual',
+  'paymentType',
+] as const;
+
+/** Colunas de OrderItem restauradas no rollback. */
+const ITEM_SNAPSHOT_FIELDS = [
+  'orderId',
+  'source',
+  'productCode',
+  'name',
+  'unitPrice',
+  'discount',
+  'sellerDiscount',
+  'platformDiscount',
+  'quantity',
+  'totalPrice',
+  'productId',
+] as const;
+
+const ORDER_DATE_FIELDS = ['orderDate', 'createdAt'];
+const CHUNK = 500;
+
+export function orderKeyOf(orderId: string, source: string): string {
+  return `${orderId}|${source}`;
+}
+
+export function itemKeyOf(orderId: string, source: string, productCode: string): string {
+  return `${orderId}|${source}|${productCode}`;
+}
+
+export function fileSha256(filepath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filepath)).digest('hex');
+}
+
+function selectOf(fields: readonly string[]): Record<string, true> {
+  return Object.fromEntries(fields.map((f) => [f, true]));
+}
+
+/** Datas viram ISO para caber no campo Json. */
+function toSnapshot(row: Record<string, unknown>): SnapshotRow {
+  const out: SnapshotRow = {};
+  for (const [k, v] of Object.entries(row)) {
+    out[k] = v instanceof Date ? v.toISOString() : v;
+  }
+  return out;
+}
+
+function groupIdsBySource(keys: OrderKey[]): Map<string, string[]> {
+  const bySource = new Map<string, Set<string>>();
+  for (const k of keys) {
+    if (!bySource.has(k.source)) bySource.set(k.source, new Set());
+    bySource.get(k.source)!.add(k.orderId);
+  }
+  return new Map([...bySource.entries()].map(([s, ids]) => [s, [...ids]]));
+}
+
+/** Estado atual dos pedidos (chave orderId|source); ausentes = serão criados. */
+export async function snapshotOrders(prismaAny: any, keys: OrderKey[]): Promise<SnapshotMap> {
+  const out: SnapshotMap = new Map();
+  for (const [source, ids] of groupIdsBySource(keys)) {
+    for (let i = 0; i < ids.length; i += CHUNK) {
+      const rows = await prismaAny.order.findMany({
+        where: { source, orderId: { in: ids.slice(i, i + CHUNK) } },
+        select: selectOf(ORDER_SNAPSHOT_FIELDS),
+      });
+      for (const r of rows) out.set(orderKeyOf(r.orderId, r.source), toSnapshot(r));
+    }
+  }
+  return out;
+}
+
+/** Estado atual dos itens (chave orderId|source|productCode). */
+export async function snapshotOrderItems(prismaAny: any, keys: ItemKey[]): Promise<SnapshotMap> {
+  const wanted = new Set(keys.map((k) => itemKeyOf(k.orderId, k.source, k.productCode)));
+  const out: SnapshotMap = new Map();
+  for (const [source, ids] of groupIdsBySource(keys)) {
+    for (let i = 0; i < ids.length; i += CHUNK) {
+      const rows = await prismaAny.orderItem.findMany({
+        where: { source, orderId: { in: ids.slice(i, i + CHUNK) } },
+        select: selectOf(ITEM_SNAPSHOT_FIELDS),
+      });
+      for (const r of rows) {
+        const key = itemKeyOf(r.orderId, r.source, r.productCode);
+        if (wanted.has(key)) out.set(key, toSnapshot(r));
+      }
+    }
+  }
+  return out;
+}
+
+/** Todos os itens dos pedidos informados (usado antes de remover pedidos no import). */
+export async function snapshotItemsOfOrders(prismaAny: any, keys: OrderKey[]): Promise<SnapshotRow[]> {
+  const out: SnapshotRow[] = [];
+  for (const [source, ids] of groupIdsBySource(keys)) {
+    for (let i = 0; i < ids.length; i += CHUNK) {
+      const rows = await prismaAny.orderItem.findMany({
+        where: { source, orderId: { in: ids.slice(i, i + CHUNK) } },
+        select: selectOf(ITEM_SNAPSHOT_FIELDS),
+      });
+      for (const r of rows) out.push(toSnapshot(r));
+    }
+  }
+  return out;
+}
+
+export async function findAppliedBatchByHash(prismaAny: any, kind: ImportBatchKind, fileHash: string) {
+  return prismaAny.importBatch.findFirst({
+    where: { kind, fileHash, status: 'applied' },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, source: true, fileName: true, createdAt: true },
+  });
+}
+
+export function duplicateImportMessage(dup: { id: number; fileName: string; createdAt: Date }): string {
+  const when = new Date(dup.createdAt).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+  const name = dup.fileName ? ` (${dup.fileName})` : '';
+  return `Este arquivo já foi importado em ${when} no lote #${dup.id}${name}. Confirme para importar novamente.`;
+}
+
+export type ImportBatchDraft = {
+  kind: ImportBatchKind;
+  source: string;
+  fileName: string;
+  fileHash: string;
+  forced: boolean;
+  skipped?: number;
+  /** Linhas rejeitadas e com ressalva; rejectedCount conta só as rejeitadas. */
+  rejected?: RejectedRow[];
+  orderKeys: OrderKey[];
+  previousOrders: SnapshotMap;
+  itemKeys: ItemKey[];
+  previousItems: SnapshotMap;
+  /** Pedidos removidos pelo import (ex.: duplicata Tray legado), com seus itens. */
+  deletedOrders?: SnapshotRow[];
+  deletedItems?: SnapshotRow[];
+};
+
+/**
+ * Monta o create do ImportBatch (com as mudanças) para entrar no mesmo $transaction do upload.
+ * Contagens: pedidos em kind=orders, itens em kind=items.
+ */
+export function buildImportBatchCreate(prismaAny: any, draft: ImportBatchDraft) {
+  const changes: Array<Record<string, unknown>> = [];
+  let orderCreated = 0;
+  let orderUpdated = 0;
+  let itemCreated = 0;
+  let itemUpdated = 0;
+
+  const seenOrders = new Set<string>();
+  for (const k of draft.orderKeys) {
+    const key = orderKeyOf(k.orderId, k.source);
+    if (seenOrders.has(key)) continue;
+    seenOrders.add(key);
+    const prev = draft.previousOrders.get(key);
+    // upload-items só atualiza pedidos existentes (updateMany); não cria Order
+    if (!prev && draft.kind === 'items') continue;
+    if (prev) orderUpdated++;
+    else orderCreated++;
+    changes.push({
+      entity: 'order',
+      action: prev ? 'updated' : 'created',
+      orderId: k.orderId,
+      source: k.source,
+      previous: prev ?? undefined,
+    });
+  }
+
+  const seenItems = new Set<string>();
+  for (const k of draft.itemKeys) {
+    const key = itemKeyOf(k.orderId, k.source, k.productCode);
+    if (seenItems.has(key)) continue;
+    seenItems.add(key);
+    const prev = draft.previousItems.get(key);
+    if (prev) itemUpdated++;
+    else itemCreated++;
+    changes.push({
+      entity: 'orderItem',
+      action: prev ? 'updated' : 'created',
+      orderId: k.orderId,
+      source: k.source,
+      productCode: k.productCode,
+      previous: prev ?? undefined,
+    });
+  }
+
+  for (const o of draft.deletedOrders ?? []) {
+    changes.push({
+      entity: 'order',
+      action: 'deleted',
+      orderId: String(o.orderId),
+      source: String(o.source),
+      previous: o,
+    });
+  }
+  for (const it of draft.deletedItems ?? []) {
+    changes.push({
+      entity: 'orderItem',
+      action: 'deleted',
+      orderId: String(it.orderId),
+      source: String(it.source),
+      productCode: String(it.productCode),
+      previous: it,
+    });
+  }
+
+  const isItems = draft.kind === 'items';
+  return prismaAny.importBatch.create({
+    data: {
+      kind: draft.kind,
+      source: draft.source,
+      fileName: draft.fileName,
+      fileHash: draft.fileHash,
+      forced: draft.forced,
+      createdCount: isItems ? itemCreated : orderCreated,
+      updatedCount: isItems ? itemUpdated : orderUpdated,
+      skippedCount: draft.skipped ?? 0,
+      rejectedCount: countRejected(draft.rejected ?? []),
+      changes: { create: changes },
+      rejections: {
+        create: (draft.rejected ?? []).map((r) => ({
+          rowNumber: r.rowNumber,
+          severity: r.severity,
+          code: r.code,
+          reason: r.reason,
+          values: toSnapshot(r.values),
+        })),
+      },
+    },
+    select: { id: true },
+  });
+}
+
+function sendRejectionReport(res: Response, rows: RejectedRow[], format: RejectionReportFormat, baseName: string) {
+  res.setHeader('Content-Type', REJECTION_REPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${baseName}.${format}"`);
+  return res.status(200).send(buildRejectionReport(rows, format));
+}
+
+function restoreOrderData(prev: SnapshotRow): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const f of ORDER_SNAPSHOT_FIELDS) {
+    if (!(f in prev)) continue;
+    const v = prev[f];
+    data[f] = ORDER_DATE_FIELDS.includes(f) && v != null ? new Date(String(v)) : v;
+  }
+  return data;
+}
+
+function restoreItemData(prev: SnapshotRow, existingProductIds: Set<number>): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const f of ITEM_SNAPSHOT_FIELDS) {
+    if (f in prev) data[f] = prev[f];
+  }
+  // Produto removido depois do lote: mantém o item sem vínculo
+  if (data.productId != null && !existingProductIds.has(Number(data.productId))) data.productId = null;
+  return data;
+}
+
+function withoutKeys(data: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  const out = { ...data };
+  for (const k of keys) delete out[k];
+  return out;
+}
+
+export function registerImportBatchRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/import-batches?source=shopee&kind=orders&limit=50&offset=0
+  app.get('/api/import-batches', async (req, res) => {
+    try {
+      const source = String(req.query.source ?? '').trim().toLowerCase();
+      const kind = String(req.query.kind ?? '').trim().toLowerCase();
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 500);
+      const offset = Math.max(parseInt(String(req.query.offset ?? '0'), 10) || 0, 0);
+
+      const where: Record<string, unknown> = {};
+      if (source) where.source = source;
+      if (kind) where.kind = kind;
+
+      const [total, batches] = await Promise.all([
+        prismaAny.importBatch.count({ where }),
+        prismaAny.importBatch.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: offset,
+          take: limit,
+          include: { _count: { select: { rejections: true } } },
+        }),
+      ]);
+      return res.status(200).json({ total, limit, offset, batches });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar lotes de importação.' });
+    }
+  });
+
+  app.get('/api/import-batches/:id', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+
+      const batch = await prismaAny.importBatch.findUnique({
+        where: { id },
+        include: { changes: { orderBy: { id: 'asc' } } },
+      });
+      if (!batch) return res.status(404).json({ message: 'Lote não encontrado.' });
+
+      const summary: Record<string, Record<string, number>> = {};
+      for (const c of batch.changes as Array<{ entity: string; action: string }>) {
+        summary[c.entity] = summary[c.entity] ?? {};
+        summary[c.entity][c.action] = (summary[c.entity][c.action] ?? 0) + 1;
+      }
+      return res.status(200).json({ ...batch, summary });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar lote de importação.' });
+    }
+  });
+
+  // GET /api/import-batches/:id/rejections?format=csv|xlsx  (sem format = JSON)
+  app.get('/api/import-batches/:id/rejections', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const format = String(req.query.format ?? '').trim().toLowerCase();
+      if (format && !isRejectionReportFormat(format)) {
+        return res.status(400).json({ message: 'Formato inválido (use csv ou xlsx).' });
+      }
+
+      const batch = await prismaAny.importBatch.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          rejections: {
+            orderBy: [{ rowNumber: 'asc' }, { id: 'asc' }],
+            select: { rowNumber: true, severity: true, code: true, reason: true, values: true },
+          },
+        },
+      });
+      if (!batch) return res.status(404).json({ message: 'Lote não encontrado.' });
+
+      const rows = batch.rejections as RejectedRow[];
+      if (!format) return res.status(200).json(rows);
+      return sendRejectionReport(res, rows, format as RejectionReportFormat, `lote-${id}-linhas-rejeitadas`);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao gerar relatório de linhas rejeitadas.' });
+    }
+  });
+
+  // POST /api/import-rejections/export?format=csv|xlsx  body: { rows: RejectedRow[] }
+  // Para a prévia e para uploads recusados (400), que não geram lote.
+  app.post('/api/import-rejections/export', (req, res) => {
+    try {
+      const format = String(req.query.format ?? req.body?.format ?? 'csv').trim().toLowerCase();
+      if (!isRejectionReportFormat(format)) {
+        return res.status(400).json({ message: 'Formato inválido (use csv ou xlsx).' });
+      }
+      return sendRejectionReport(res, sanitizeRejectedRows(req.body?.rows), format, 'linhas-rejeitadas');
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao gerar relatório de linhas rejeitadas.' });
+    }
+  });
+
+  // POST /api/import-batches/:id/rollback?force=1
+  // Restaura o estado anterior das linhas do lote. Se um lote posterior (ainda aplicado) tocou
+  // os mesmos pedidos, recusa com 409 — a menos que force=1.
+  app.post('/api/import-batches/:id/rollback', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const forceRaw = String(req.query.force ?? req.body?.force ?? '').trim().toLowerCase();
+      const force = forceRaw === '1' || forceRaw === 'true' || forceRaw === 'yes';
+
+      const batch = await prismaAny.importBatch.findUnique({
+        where: { id },
+        include: { changes: { orderBy: { id: 'asc' } } },
+      });
+      if (!batch) return res.status(404).json({ message: 'Lote não encontrado.' });
+      if (batch.status !== 'applied') {
+        return res.status(400).json({ message: 'Este lote já foi desfeito.' });
+      }
+
+      type Change = {
+        entity: string;
+        action: string;
+        orderId: string;
+        source: string;
+        productCode: string;
+        previous: SnapshotRow | null;
+      };
+      const changes = batch.changes as Change[];
+
+      if (!force) {
+        const bySource = groupIdsBySource(changes);
+        const later: Array<{ batchId: number }> =
+          bySource.size > 0
+            ? await prismaAny.importBatchChange.findMany({
+                where: {
+                  batchId: { gt: id },
+                  batch: { status: 'applied' },
+                  OR: [...bySource.entries()].map(([source, ids]) => ({ source, orderId: { in: ids } })),
+                },
+                select: { batchId: true },
+                distinct: ['batchId'],
+              })
+            : [];
+        if (later.length > 0) {
+          const ids = later.map((l) => l.batchId).sort((a, b) => a - b);
+          return res.status(409).json({
+            message: `Lotes posteriores alteraram os mesmos pedidos (${ids.map((i) => `#${i}`).join(', ')}). Desfaça-os antes ou force o rollback.`,
+            conflictingBatchIds: ids,
+          });
+        }
+      }
+
+      // Claim condicional primeiro, na mesma transação: um rollback concorrente do mesmo lote espera a trava
+      // e cai no count 0, sem repetir a restauração nem os eventos 'revert'
+      const rolledBack = await prisma.$transaction(
+        async (tx) => {
+          const txAny = tx as any;
+          const claimed = await txAny.importBatch.updateMany({
+            where: { id, status: 'applied' },
+            data: { status: 'rolled_back', rolledBackAt: new Date() },
+          });
+          if (claimed.count === 0) return false;
+
+          const productIds = changes
+            .filter((c) => c.entity === 'orderItem' && c.previous?.productId != null)
+            .map((c) => Number(c.previous!.productId));
+          const existingProducts: Array<{ id: number }> =
+            productIds.length > 0
+              ? await txAny.product.findMany({ where: { id: { in: [...new Set(productIds)] } }, select: { id: true } })
+              : [];
+          const existingProductIds = new Set(existingProducts.map((p) => p.id));
+
+          const ops: any[] = [];
+          const pick = (entity: string, action: string) =>
+            changes.filter((c) => c.entity === entity && c.action === action);
+
+          // 1) remove o que o lote criou (itens antes; remover o pedido já leva os itens em cascata)
+          for (const c of pick('orderItem', 'created')) {
+            ops.push(
+              txAny.orderItem.deleteMany({
+                where: { orderId: c.orderId, source: c.source, productCode: c.productCode },
+              }),
+            );
+          }
+          for (const c of pick('order', 'created')) {
+            ops.push(txAny.order.deleteMany({ where: { orderId: c.orderId, source: c.source } }));
+          }
+
+          // 2) restaura pedidos alterados/removidos e depois os itens (FK em Order)
+          const restoredOrders = [...pick('order', 'updated'), ...pick('order', 'deleted')].filter((c) => c.previous);
+          const currentOrders = await snapshotOrders(txAny, restoredOrders);
+          const events: OrderEventDraft[] = [];
+          for (const c of restoredOrders) {
+            if (!c.previous) continue;
+            const data = restoreOrderData(c.previous);
+            events.push({
+              orderId: c.orderId,
+              source: c.source,
+              previous: currentOrders.get(orderKeyOf(c.orderId, c.source)) ?? null,
+              next: data,
+              origin: 'revert',
+              detail: `Lote #${id}`,
+            });
+            ops.push(
+              txAny.order.upsert({
+                where: { orderId_source: { orderId: c.orderId, source: c.source } },
+                update: withoutKeys(data, ['orderId', 'source', 'createdAt']),
+                create: data,
+              }),
+            );
+          }
+          for (const c of [...pick('orderItem', 'updated'), ...pick('orderItem', 'deleted')]) {
+            if (!c.previous) continue;
+            const data = restoreItemData(c.previous, existingProductIds);
+            ops.push(
+              txAny.orderItem.upsert({
+                where: {
+                  orderId_source_productCode: {
+                    orderId: c.orderId,
+                    source: c.source,
+                    productCode: c.productCode,
+                  },
+                },
+                update: withoutKeys(data, ['orderId', 'source', 'productCode']),
+                create: data,
+              }),
+            );
+          }
+
+          ops.push(...buildOrderEventsCreate(txAny, events));
+          for (const op of ops) await op;
+          return true;
+        },
+        { timeout: 120000 },
+      );
+      if (!rolledBack) return res.status(400).json({ message: 'Este lote já foi desfeito.' });
+      return res.status(200).json({
+        message: 'Lote desfeito com sucesso.',
+        id,
+        restored: changes.filter((c) => c.action !== 'created').length,
+        removed: changes.filter((c) => c.action === 'created').length,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao desfazer lote de importação.' });
+    }
+  });
+}
@@ -0,0 +1,337 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Fila de importações em segundo plano (ImportJob).
+ * A rota de upload salva uma cópia do arquivo e devolve 202 com o id do job; um worker local
+ * (um job por vez) roda o mesmo handler da rota síncrona, registrando fase e percentual.
+ * O resultado guarda o status HTTP e o JSON que a rota teria devolvido, para a tela seguir o mesmo fluxo.
+ *
+ * Consistência: cada handler grava tudo em um único $transaction no final; cancelamento e falhas
+ * antes dessa fase não deixam nada pela metade. Produtos novos (ensureProduct) também contam como
+ * gravação: o handler entra em "writing" antes de criá-los. Jobs "running" encontrados no boot viram "failed".
+ */
+
+export type ImportJobKind = 'orders' | 'items' | 'tiktok_income' | 'shopee_income' | 'shopee_balance' | 'adspend';
+export type ImportJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Fases reportadas pelos handlers (o percentual vem junto). */
+export type ImportJobPhase = 'queued' | 'reading' | 'parsing' | 'comparing' | 'writing' | 'done';
+
+export const IMPORT_JOB_PHASE_LABELS: Record<ImportJobPhase, string> = {
+  queued: 'Na fila',
+  reading: 'Lendo planilha',
+  parsing: 'Interpretando linhas',
+  comparing: 'Comparando com o banco',
+  writing: 'Gravando',
+  done: 'Concluído',
+};
+
+/** Subconjunto do Response do Express usado pelos handlers de upload (o worker captura o resultado). */
+export type ImportJobResponder = {
+  status(code: number): { json(body: unknown): unknown };
+};
+
+/**
+ * Progresso do job. `phase` também verifica o pedido de cancelamento: se houver, lança antes
+ * da fase seguinte — por isso os handlers chamam `phase('writing')` antes da primeira gravação
+ * (ensureProduct ou o $transaction). Depois de "writing" o cancelamento não é mais verificado.
+ */
+export type ImportJobProgress = {
+  phase(phase: ImportJobPhase, percent: number): Promise<void>;
+};
+
+export type ImportJobHandler = (
+  fields: Record<string, unknown>,
+  files: Record<string, unknown>,
+  res: ImportJobResponder,
+  progress?: ImportJobProgress,
+) => Promise<unknown>;
+
+type Deps = {
+  prisma: PrismaClient;
+  handlers: Record<ImportJobKind, ImportJobHandler>;
+};
+
+const POLL_MS = 2000;
+const CANCELLED_MESSAGE = 'Importação cancelada.';
+
+/** Pasta das cópias dos uploads enquanto o job não termina. */
+const JOBS_DIR = process.env.IMPORT_JOBS_DIR || path.join(os.tmpdir(), 'shopsmarsales-import-jobs');
+
+function isTruthyField(v: unknown): boolean {
+  const s = String((Array.isArray(v) ? v[0] : v) ?? '').trim().toLowerCase();
+  return s === '1' || s === 'true' || s === 'yes';
+}
+
+/** background=1 no form: a rota enfileira em vez de processar dentro da requisição. */
+export function wantsBackgroundJob(fields: Record<string, unknown>): boolean {
+  return isTruthyField(fields.background);
+}
+
+/** Campos do formidable (arrays de 1 valor) viram strings simples para caber no Json. */
+function plainFields(fields: Record<string, unknown>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(fields || {})) {
+    if (k === 'background') continue;
+    const first = Array.isArray(v) ? v[0] : v;
+    if (first != null) out[k] = String(first);
+  }
+  return out;
+}
+
+function removeFile(filePath: string) {
+  fs.promises.unlink(filePath).catch(() => undefined);
+}
+
+function captureResponse() {
+  const out: { status: number; body: unknown } = { status: 200, body: null };
+  const res: ImportJobResponder = {
+    status(code: number) {
+      out.status = code;
+      return {
+        json(body: unknown) {
+          out.body = body;
+          return body;
+        },
+      };
+    },
+  };
+  return { res, out };
+}
+
+function messageOf(body: unknown): string {
+  const m = body && typeof body === 'object' ? (body as { message?: unknown }).message : undefined;
+  return m != null ? String(m) : '';
+}
+
+export function createImportJobQueue(deps: Deps) {
+  const { prisma, handlers } = deps;
+  const prismaAny = prisma as any;
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Copia o arquivo do formidable e cria o job na fila. */
+  async function enqueue(
+    kind: ImportJobKind,
+    fields: Record<string, unknown>,
+    file: { filepath: string; originalFilename?: string | null },
+  ) {
+    await fs.promises.mkdir(JOBS_DIR, { recursive: true });
+    const fileName = String(file.originalFilename || '').trim();
+    const ext = path.extname(fileName || file.filepath);
+    const filePath = path.join(JOBS_DIR, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}${ext}`);
+    await fs.promises.copyFile(file.filepath, filePath);
+
+    const job = await prismaAny.importJob.create({
+      data: { kind, fileName, filePath, fields: plainFields(fields) },
+    });
+    wake();
+    return job;
+  }
+
+  function progressFor(jobId: number, state: { cancelled: boolean }): ImportJobProgress {
+    let writing = false;
+    return {
+      async phase(phase, percent) {
+        const job = await prismaAny.importJob.update({
+          where: { id: jobId },
+          data: { phase, progress: Math.max(0, Math.min(100, Math.round(percent))) },
+          select: { cancelRequested: true },
+        });
+        // Já gravou algo (produtos): um cancelamento que chegou depois não pode interromper o resto.
+        if (writing) return;
+        if (job.cancelRequested && phase !== 'done') {
+          state.cancelled = true;
+          throw new Error(CANCELLED_MESSAGE);
+        }
+        if (phase === 'writing') writing = true;
+      },
+    };
+  }
+
+  async function runJob(job: any) {
+    const handler = handlers[job.kind as ImportJobKind];
+    const state = { cancelled: false };
+    const { res, out } = captureResponse();
+    try {
+      if (!handler) throw new Error(`Tipo de importação desconhecido: ${job.kind}`);
+      const files = { file: { filepath: job.filePath, originalFilename: job.fileName } };
+      await handler(job.fields ?? {}, files, res, progressFor(job.id, state));
+    } catch (e) {
+      if (!state.cancelled) {
+        console.error(e);
+        out.status = 500;
+        out.body = { message: e instanceof Error ? e.message : String(e) };
+      }
+    }
+
+    const status: ImportJobStatus = state.cancelled ? 'cancelled' : out.status < 400 ? 'succeeded' : 'failed';
+    await prismaAny.importJob.update({
+      where: { id: job.id },
+      data: {
+        status,
+        phase: status === 'succeeded' ? 'done' : undefined,
+        progress: status === 'succeeded' ? 100 : undefined,
+        httpStatus: state.cancelled ? null : out.status,
+        result: state.cancelled ? undefined : (out.body as object | null) ?? undefined,
+        error: state.cancelled ? CANCELLED_MESSAGE : status === 'failed' ? messageOf(out.body) || 'Erro na importação.' : null,
+        finishedAt: new Date(),
+      },
+    });
+    removeFile(job.filePath);
+  }
+
+  /** Pega o próximo job da fila (o updateMany garante que só um worker o assume). */
+  async function claimNext() {
+    const next = await prismaAny.importJob.findFirst({
+      where: { status: 'queued' },
+      orderBy: { id: 'asc' },
+    });
+    if (!next) return null;
+    const claimed = await prismaAny.importJob.updateMany({
+      where: { id: next.id, status: 'queued' },
+      data: { status: 'running', phase: 'reading', startedAt: new Date() },
+    });
+    return claimed.count === 1 ? next : null;
+  }
+
+  async function tick() {
+    timer = null;
+    if (running) return;
+    running = true;
+    try {
+      for (let job = await claimNext(); job; job = await claimNext()) {
+        await runJob(job);
+      }
+    } catch (e) {
+      console.error('[import-jobs] Erro no worker:', e);
+    } finally {
+      running = false;
+      schedule(POLL_MS);
+    }
+  }
+
+  function schedule(ms: number) {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void tick(), ms);
+  }
+
+  function wake() {
+    if (!running) schedule(0);
+  }
+
+  /** Jobs que estavam rodando quando o processo caiu não têm como continuar. */
+  async function start() {
+    const stale = await prismaAny.importJob.findMany({
+      where: { status: 'running' },
+      select: { id: true, filePath: true },
+    });
+    if (stale.length > 0) {
+      await prismaAny.importJob.updateMany({
+        where: { id: { in: stale.map((j: { id: number }) => j.id) } },
+        data: {
+          status: 'failed',
+          error: 'Importação interrompida pelo reinício do servidor. Envie o arquivo novamente.',
+          finishedAt: new Date(),
+        },
+      });
+      for (const j of stale) removeFile(j.filePath);
+      console.warn(`[import-jobs] ${stale.length} job(s) interrompido(s) marcados como falha.`);
+    }
+    schedule(0);
+  }
+
+  return { enqueue, start };
+}
+
+export type ImportJobQueue = ReturnType<typeof createImportJobQueue>;
+
+function jobView(job: any) {
+  const { filePath: _filePath, ...rest } = job;
+  return { ...rest, phaseLabel: IMPORT_JOB_PHASE_LABELS[job.phase as ImportJobPhase] ?? job.phase };
+}
+
+export function registerImportJobRoutes(app: Express, deps: { prisma: PrismaClient }) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/import-jobs?status=running&limit=20  (sem o resultado, que pode ser grande)
+  app.get('/api/import-jobs', async (req, res) => {
+    try {
+      const status = String(req.query.status ?? '').trim().toLowerCase();
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20'), 10) || 20, 1), 200);
+      const jobs = await prismaAny.importJob.findMany({
+        where: status ? { status } : {},
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: {
+          id: true,
+          kind: true,
+          status: true,
+          phase: true,
+          progress: true,
+          fileName: true,
+          httpStatus: true,
+          error: true,
+          createdAt: true,
+          startedAt: true,
+          finishedAt: true,
+        },
+      });
+      return res.status(200).json(jobs.map(jobView));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar importações em andamento.' });
+    }
+  });
+
+  app.get('/api/import-jobs/:id', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const job = await prismaAny.importJob.findUnique({ where: { id } });
+      if (!job) return res.status(404).json({ message: 'Importação não encontrada.' });
+      return res.status(200).json(jobView(job));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar importação.' });
+    }
+  });
+
+  // POST /api/import-jobs/:id/cancel
+  // Na fila: cancela na hora. Rodando: o worker para na próxima fase (antes de gravar).
+  app.post('/api/import-jobs/:id/cancel', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const job = await prismaAny.importJob.findUnique({ where: { id } });
+      if (!job) return res.status(404).json({ message: 'Importação não encontrada.' });
+
+      if (job.status === 'queued') {
+        const cancelled = await prismaAny.importJob.updateMany({
+          where: { id, status: 'queued' },
+          data: { status: 'cancelled', cancelRequested: true, error: CANCELLED_MESSAGE, finishedAt: new Date() },
+        });
+        if (cancelled.count === 1) {
+          removeFile(job.filePath);
+          return res.status(200).json(jobView(await prismaAny.importJob.findUnique({ where: { id } })));
+        }
+      }
+      if (job.status === 'queued' || job.status === 'running') {
+        if (job.phase === 'writing') {
+          return res.status(409).json({ message: 'A importação já está gravando e não pode mais ser cancelada.' });
+        }
+        const updated = await prismaAny.importJob.update({ where: { id }, data: { cancelRequested: true } });
+        return res.status(202).json(jobView(updated));
+      }
+      return res.status(400).json({ message: 'Esta importação já terminou.' });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao cancelar importação.' });
+    }
+  });
+}
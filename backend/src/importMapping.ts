@@ -0,0 +1,244 @@
+/**
+ * Cabeçalhos conhecidos das planilhas de upload, por layout, e perfis de mapeamento do usuário.
+ *
+ * Os padronizadores (index.ts) e o parser Nuvemshop leem cada campo via `headerKeys()`:
+ * primeiro os aliases salvos no ImportMappingProfile do layout, depois a lista fixa abaixo.
+ * Assim, quando o marketplace renomeia uma coluna, basta mapear o novo cabeçalho na tela de configuração.
+ */
+import type { PrismaClient } from '@prisma/client';
+
+export const IMPORT_LAYOUTS = ['shopee', 'tiktok', 'tray', 'tray_items', 'atacado', 'mercadolivre'] as const;
+export type ImportLayout = (typeof IMPORT_LAYOUTS)[number];
+
+export const IMPORT_LAYOUT_LABELS: Record<ImportLayout, string> = {
+  shopee: 'Shopee (pedidos)',
+  tiktok: 'TikTok Shop (pedidos)',
+  tray: 'Tray (pedidos)',
+  tray_items: 'Tray (produtos vendidos)',
+  atacado: 'Atacado (Nuvemshop)',
+  mercadolivre: 'Mercado Livre (vendas)',
+};
+
+/** Rótulos dos campos canônicos exibidos na tela de mapeamento. */
+export const IMPORT_FIELD_LABELS: Record<string, string> = {
+  orderId: 'ID do pedido',
+  orderNumber: 'Número do pedido',
+  orderDate: 'Data do pedido',
+  orderTime: 'Hora do pedido',
+  status: 'Status do pedido',
+  paymentStatus: 'Status do pagamento',
+  productName: 'Nome do produto',
+  variation: 'Variação',
+  sku: 'SKU / código do produto',
+  skuId: 'ID do SKU',
+  quantity: 'Quantidade',
+  unitPrice: 'Preço unitário',
+  totalPrice: 'Total',
+  orderAmount: 'Total do pedido',
+  discount: 'Desconto',
+  sellerDiscount: 'Desconto do vendedor',
+  platformDiscount: 'Desconto da plataforma',
+  commissionFee: 'Comissão',
+  serviceFee: 'Taxa de serviço',
+  fees: 'Taxas',
+  paymentType: 'Tipo de pagamento',
+  paymentForm: 'Forma de pagamento',
+  paymentId: 'ID do pagamento',
+  freight: 'Frete',
+  channel: 'Canal de venda',
+  store: 'Loja',
+  listingId: 'ID do anúncio',
+  shippingRevenue: 'Receita de envio',
+  shippingCost: 'Tarifas de envio',
+  netAmount: 'Valor líquido',
+  buyerDocument: 'CPF/CNPJ do comprador',
+  buyerUsername: 'Usuário do comprador',
+  buyerEmail: 'E-mail do comprador',
+  buyerPhone: 'Telefone do comprador',
+  city: 'Cidade',
+  state: 'Estado (UF)',
+};
+
+/** Lista fixa de cabeçalhos por layout e campo (ordem = prioridade). */
+export const IMPORT_LAYOUT_HEADERS: Record<ImportLayout, Record<string, string[]>> = {
+  shopee: {
+    orderId: ['ID do pedido', 'ID do Pedido', 'Order ID'],
+    orderDate: ['Data de criação do pedido', 'Data de Criação do Pedido', 'Created Time'],
+    status: ['Status do pedido', 'Status', 'Order Status'],
+    productName: ['Nome do Produto', 'Nome do produto', 'Product Name'],
+    variation: ['Nome da variação', 'Nome da Variação', 'Nome da variacao', 'Variation', 'Variação', 'Variacao', 'Variation Name'],
+    sku: ['Número de referência SKU', 'Numero de referencia SKU', 'Nº de referência do SKU principal', 'SKU ID', 'ID do SKU', 'SKU Reference No.'],
+    quantity: ['Quantidade', 'Qty', 'Quantity'],
+    totalPrice: ['SKU Subtotal After Discount', 'Subtotal do produto', 'Valor Total', 'Total global', 'Preço Final Total'],
+    unitPrice: ['SKU Unit Original Price', 'Preço unitário', 'Preco unitario', 'Unit Price', 'Preço'],
+    platformDiscount: ['SKU Platform Discount'],
+    sellerDiscount: ['SKU Seller Discount'],
+    discount: ['Desconto', 'Discount', 'Desconto do produto', 'Seller discount'],
+    commissionFee: ['Net Commission Fee', 'Taxa de comissão líquida', 'Commission Fee'],
+    serviceFee: ['Taxa de serviço bruta', 'Gross service fee', 'Service Fee', 'Taxa de servico bruta'],
+    buyerDocument: ['CPF do Comprador', 'CPF do comprador', 'Buyer CPF'],
+    buyerUsername: ['Nome de usuário (comprador)', 'Nome de usuario (comprador)', 'Username (Buyer)'],
+    buyerPhone: ['Telefone', 'Phone Number'],
+    city: ['Cidade', 'City'],
+    state: ['UF', 'Estado', 'State', 'Province'],
+  },
+  tiktok: {
+    orderId: ['Order ID'],
+    orderDate: ['Created Time'],
+    status: ['Order Status', 'Order Substatus'],
+    productName: ['Product Name'],
+    variation: ['Variation'],
+    sku: ['Seller SKU'],
+    skuId: ['SKU ID'],
+    quantity: ['Quantity'],
+    unitPrice: ['SKU Unit Original Price'],
+    totalPrice: ['SKU Subtotal After Discount'],
+    orderAmount: ['Order Amount'],
+    platformDiscount: ['SKU Platform Discount'],
+    sellerDiscount: ['SKU Seller Discount'],
+    buyerUsername: ['Buyer Username'],
+    buyerPhone: ['Phone #'],
+    city: ['City'],
+    state: ['State', 'Province'],
+  },
+  tray: {
+    orderId: ['Pedido', 'pedido', 'Order ID'],
+    orderDate: ['Data', 'data'],
+    orderTime: ['Hora', 'hora'],
+    totalPrice: ['Total', 'total', 'Subtotal produtos', 'Subtotal produtos '],
+    freight: ['Frete valor', 'Frete', 'Valor frete'],
+    paymentType: ['Pagamento tipo', 'Pagamento', 'Forma pagamento paga'],
+    status: ['Status pedido', 'Status', 'Status do pedido'],
+    channel: ['Canal de venda', 'Canal'],
+    store: [
+      'Loja',
+      'Identificador loja',
+      'Identificador da loja',
+      'ID loja',
+      'Id loja',
+      'Código loja',
+      'Codigo loja',
+      'Store ID',
+      'Store id',
+    ],
+  },
+  tray_items: {
+    orderId: ['Código pedido', 'Codigo pedido', 'C�digo pedido', 'Pedido', 'orderId'],
+    sku: ['Código produto', 'Codigo produto', 'C�digo produto'],
+    productName: ['Nome produto', 'Nome do Produto', 'Produto'],
+    unitPrice: ['Preço venda', 'Preco venda', 'Pre�o venda', 'Valor'],
+    quantity: ['Quantidade', 'Qtd', 'Quantity'],
+  },
+  atacado: {
+    orderNumber: ['Numero do Pedido', 'Número do Pedido', 'Numero do pedido'],
+    orderId: ['Identificador do pedido', 'Identificador do Pedido', 'ID do pedido'],
+    orderDate: ['Data', 'Data do pedido', 'Data de criacao'],
+    status: ['Status do Pedido', 'Status do pedido'],
+    paymentStatus: ['Status do Pagamento', 'Status do pagamento'],
+    totalPrice: ['Total'],
+    freight: ['Valor do Frete', 'Valor do frete', 'Frete'],
+    discount: ['Desconto'],
+    fees: ['Taxas'],
+    paymentType: ['Meio de pagamento'],
+    paymentForm: ['Forma de Pagamento', 'Forma de pagamento'],
+    paymentId: [
+      'Identificador da transacao no meio de pagamento',
+      'Identificador da transação no meio de pagamento',
+    ],
+    productName: ['Nome do Produto', 'Nome do produto'],
+    sku: ['SKU', 'Sku'],
+    quantity: ['Quantidade Comprada', 'Quantidade'],
+    unitPrice: ['Valor do Produto', 'Valor do produto'],
+    buyerDocument: ['CPF / CNPJ', 'CPF/CNPJ', 'CPF'],
+    buyerEmail: ['E-mail', 'Email'],
+    buyerPhone: ['Telefone'],
+    city: ['Cidade'],
+    state: ['Estado'],
+  },
+  mercadolivre: {
+    orderId: ['N.º de venda', 'Nº de venda', 'N° de venda', 'Número de venda'],
+    orderDate: ['Data da venda'],
+    status: ['Estado', 'Status'],
+    quantity: ['Unidades'],
+    totalPrice: ['Receita por produtos (BRL)', 'Receita por produtos'],
+    commissionFee: ['Tarifa de venda e impostos (BRL)', 'Tarifa de venda e impostos'],
+    shippingRevenue: ['Receita por envio (BRL)', 'Receita por envio'],
+    shippingCost: ['Tarifas de envio (BRL)', 'Tarifas de envio'],
+    netAmount: ['Total (BRL)', 'Total'],
+    sku: ['SKU'],
+    listingId: ['# de anúncio', 'N.º de anúncio', 'Nº de anúncio'],
+    productName: ['Título do anúncio'],
+    variation: ['Variação'],
+    unitPrice: ['Preço unitário de venda do anúncio (BRL)', 'Preço unitário de venda do anúncio'],
+  },
+};
+
+/** Aliases do usuário por campo (ImportMappingProfile.mappings). */
+export type ImportFieldMapping = Record<string, string[]>;
+
+export function isImportLayout(v: string): v is ImportLayout {
+  return (IMPORT_LAYOUTS as readonly string[]).includes(v);
+}
+
+/** Layout de planilha usado por cada `source` do /api/upload. */
+export function importLayoutForSource(source: string): ImportLayout {
+  const s = String(source || '').trim().toLowerCase();
+  if (s === 'shopee' || s === 'tiktok' || s === 'atacado' || s === 'mercadolivre') return s;
+  return 'tray';
+}
+
+/** Cabeçalhos a tentar para o campo: aliases do perfil primeiro, depois a lista fixa. */
+export function headerKeys(mapping: ImportFieldMapping | null | undefined, layout: ImportLayout, field: string): string[] {
+  const custom = mapping?.[field] ?? [];
+  const builtin = IMPORT_LAYOUT_HEADERS[layout][field] ?? [];
+  return custom.length > 0 ? [...custom, ...builtin] : builtin;
+}
+
+/** Limpa o JSON salvo: só campos conhecidos do layout, aliases não vazios e sem repetição. */
+export function sanitizeImportMapping(layout: ImportLayout, raw: unknown): ImportFieldMapping {
+  const out: ImportFieldMapping = {};
+  if (!raw || typeof raw !== 'object') return out;
+  const fields = IMPORT_LAYOUT_HEADERS[layout];
+  for (const [field, aliases] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(field in fields) || !Array.isArray(aliases)) continue;
+    const clean = [...new Set(aliases.map((a) => String(a ?? '').trim()).filter(Boolean))];
+    if (clean.length > 0) out[field] = clean;
+  }
+  return out;
+}
+
+export async function loadImportMapping(prisma: PrismaClient, layout: ImportLayout): Promise<ImportFieldMapping> {
+  const profile = await (prisma as any).importMappingProfile.findUnique({ where: { source: layout } });
+  return sanitizeImportMapping(layout, profile?.mappings);
+}
+
+function normalizeHeader(s: string): string {
+  return String(s || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Campo lido a partir de um cabeçalho da planilha (null = não mapeado).
+ * Nuvemshop e Mercado Livre usam comparação normalizada (sem acento/caixa), como o `pickNormalized` dos parsers.
+ */
+export function fieldForHeader(
+  layout: ImportLayout,
+  header: string,
+  mapping: ImportFieldMapping,
+): { field: string; via: 'profile' | 'builtin' } | null {
+  const same =
+    layout === 'atacado' || layout === 'mercadolivre'
+      ? (a: string, b: string) => normalizeHeader(a) === normalizeHeader(b)
+      : (a: string, b: string) => a === b;
+  for (const [field, aliases] of Object.entries(mapping)) {
+    if (aliases.some((a) => same(a, header))) return { field, via: 'profile' };
+  }
+  for (const [field, keys] of Object.entries(IMPORT_LAYOUT_HEADERS[layout])) {
+    if (keys.some((k) => same(k, header))) return { field, via: 'builtin' };
+  }
+  return null;
+}
@@ -0,0 +1,130 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import formidable from 'formidable';
+import {
+  fieldForHeader,
+  isImportLayout,
+  loadImportMapping,
+  sanitizeImportMapping,
+  IMPORT_FIELD_LABELS,
+  IMPORT_LAYOUTS,
+  IMPORT_LAYOUT_HEADERS,
+  IMPORT_LAYOUT_LABELS,
+  type ImportLayout,
+} from './importMapping.js';
+
+type Deps = {
+  prisma: PrismaClient;
+  readUploadSheetRows: (filepath: string, layout: ImportLayout) => Record<string, unknown>[];
+  getFileFromFormidable: (files: Record<string, unknown>) => { file: any };
+  getFilePath: (file: any) => string | undefined;
+};
+
+async function describeLayout(prisma: PrismaClient, layout: ImportLayout) {
+  const mapping = await loadImportMapping(prisma, layout);
+  return {
+    source: layout,
+    label: IMPORT_LAYOUT_LABELS[layout],
+    fields: Object.entries(IMPORT_LAYOUT_HEADERS[layout]).map(([field, builtin]) => ({
+      field,
+      label: IMPORT_FIELD_LABELS[field] ?? field,
+      builtin,
+      aliases: mapping[field] ?? [],
+    })),
+  };
+}
+
+export function registerImportMappingRoutes(app: Express, deps: Deps) {
+  const { prisma, readUploadSheetRows, getFileFromFormidable, getFilePath } = deps;
+  const prismaAny = prisma as any;
+
+  app.get('/api/import-mappings', async (_req, res) => {
+    try {
+      const layouts = await Promise.all(IMPORT_LAYOUTS.map((l) => describeLayout(prisma, l)));
+      return res.status(200).json(layouts);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar mapeamentos de importação.' });
+    }
+  });
+
+  app.get('/api/import-mappings/:source', async (req, res) => {
+    try {
+      const source = String(req.params.source ?? '').trim().toLowerCase();
+      if (!isImportLayout(source)) return res.status(400).json({ message: 'Source inválido.' });
+      return res.status(200).json(await describeLayout(prisma, source));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar mapeamento de importação.' });
+    }
+  });
+
+  // PUT /api/import-mappings/shopee  body: { mappings: { orderId: ["ID do Pedido (novo)"] } }
+  app.put('/api/import-mappings/:source', async (req, res) => {
+    try {
+      const source = String(req.params.source ?? '').trim().toLowerCase();
+      if (!isImportLayout(source)) return res.status(400).json({ message: 'Source inválido.' });
+      const mappings = sanitizeImportMapping(source, req.body?.mappings);
+      await prismaAny.importMappingProfile.upsert({
+        where: { source },
+        update: { mappings },
+        create: { source, mappings },
+      });
+      return res.status(200).json(await describeLayout(prisma, source));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar mapeamento de importação.' });
+    }
+  });
+
+  // POST /api/import-mappings/:source/inspect (multipart: file)
+  // Lista os cabeçalhos do arquivo e o campo que cada um alimenta (ou null = não mapeado).
+  app.post('/api/import-mappings/:source/inspect', (req, res) => {
+    const form = formidable({ multiples: false, keepExtensions: true });
+
+    form.parse(req, async (err: unknown, _fields: Record<string, unknown>, files: Record<string, unknown>) => {
+      if (err) return res.status(500).json({ message: 'Erro no form.' });
+
+      try {
+        const source = String(req.params.source ?? '').trim().toLowerCase();
+        if (!isImportLayout(source)) return res.status(400).json({ message: 'Source inválido.' });
+
+        const { file } = getFileFromFormidable(files);
+        if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+        const filepath = getFilePath(file);
+        if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+
+        const rows = readUploadSheetRows(filepath, source);
+        const mapping = await loadImportMapping(prisma, source);
+        const headerSet = new Set<string>();
+        for (const row of rows.slice(0, 50)) for (const k of Object.keys(row)) headerSet.add(k);
+
+        const headers = [...headerSet].map((header) => {
+          const hit = fieldForHeader(source, header, mapping);
+          const sample = rows.map((r) => r[header]).find((v) => v !== undefined && v !== null && String(v).trim() !== '');
+          return {
+            header,
+            field: hit?.field ?? null,
+            via: hit?.via ?? null,
+            sample: sample != null ? String(sample).slice(0, 80) : '',
+          };
+        });
+        const mappedFields = new Set(headers.map((h) => h.field).filter(Boolean));
+        const missingFields = Object.keys(IMPORT_LAYOUT_HEADERS[source])
+          .filter((f) => !mappedFields.has(f))
+          .map((field) => ({ field, label: IMPORT_FIELD_LABELS[field] ?? field }));
+
+        return res.status(200).json({
+          source,
+          rows: rows.length,
+          headers,
+          unmapped: headers.filter((h) => !h.field).map((h) => h.header),
+          missingFields,
+        });
+      } catch (e) {
+        console.error(e);
+        return res.status(500).json({ message: 'Erro ao analisar cabeçalhos do arquivo.' });
+      }
+    });
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Pré-visualização (dry-run) dos uploads de pedidos/itens.
+ * Compara o que o upload gravaria com o estado atual (snapshots do lote de importação)
+ * sem escrever nada: pedidos novos, campos que mudariam, vínculo de produto dos itens e linhas rejeitadas.
+ */
+import { countRejected, type RejectedRow } from './importRejections.js';
+import { itemKeyOf, orderKeyOf, type SnapshotMap, type SnapshotRow } from './importBatchRoutes.js';
+
+/** Dados que o upload gravaria no Order (mesmo objeto usado no update do upsert). */
+export type PlannedOrder = {
+  orderId: string;
+  source: string;
+  data: Record<string, unknown>;
+};
+
+export type PlannedItem = {
+  orderId: string;
+  source: string;
+  productCode: string;
+  name: string;
+  /** Product.code que o item usaria (ex.: shopee_ABC). */
+  productRef: string;
+  /** null = produto ainda não existe e seria criado no import. */
+  productId: number | null;
+};
+
+export type OrderFieldChange = {
+  field: string;
+  old: unknown;
+  new: unknown;
+};
+
+type ProductInfo = { id: number; code: string; name: string; masterProductId: number | null };
+
+/** Campos comparados no preview; fees = taxas que também vêm dos relatórios de income. */
+const ORDER_DIFF_FIELDS = [
+  'status',
+  'totalPrice',
+  'commissionFee',
+  'serviceFee',
+  'freight',
+  'paymentType',
+  'paymentId',
+] as const;
+const FEE_FIELDS = new Set(['commissionFee', 'serviceFee']);
+const MONEY_EPS = 0.005;
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  const emptyA = a === null || a === undefined || a === '';
+  const emptyB = b === null || b === undefined || b === '';
+  if (emptyA || emptyB) return emptyA && emptyB;
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Math.abs(Number(a) - Number(b)) < MONEY_EPS;
+  }
+  return String(a).trim() === String(b).trim();
+}
+
+/** Pedido já conciliado por relatório de income (liquidação ou onhold). */
+function hasIncomeData(prev: SnapshotRow): boolean {
+  return prev.settlementAmount != null || prev.estimatedSettlementAmount != null;
+}
+
+export async function buildImportPreview(
+  prismaAny: any,
+  input: {
+    source: string;
+    orders: PlannedOrder[];
+    items: PlannedItem[];
+    previousOrders: SnapshotMap;
+    previousItems: SnapshotMap;
+    rejected: RejectedRow[];
+    /** Pedidos que o import removeria (ex.: Tray legado duplicado). */
+    deletedOrders?: SnapshotRow[];
+    /** upload-items só atualiza pedidos existentes. */
+    ordersUpdateOnly?: boolean;
+  },
+) {
+  const newOrders: Array<{ orderId: string; source: string; orderDate: unknown; status: unknown; totalPrice: unknown }> = [];
+  const changedOrders: Array<{
+    orderId: string;
+    source: string;
+    changes: OrderFieldChange[];
+    overwritesIncomeFees: boolean;
+  }> = [];
+  let unchangedOrders = 0;
+
+  const seenOrders = new Set<string>();
+  for (const o of input.orders) {
+    const key = orderKeyOf(o.orderId, o.source);
+    if (seenOrders.has(key)) continue;
+    seenOrders.add(key);
+    const prev = input.previousOrders.get(key);
+    if (!prev) {
+      if (input.ordersUpdateOnly) continue;
+      newOrders.push({
+        orderId: o.orderId,
+        source: o.source,
+        orderDate: o.data.orderDate,
+        status: o.data.status,
+        totalPrice: o.data.totalPrice,
+      });
+      continue;
+    }
+    const changes: OrderFieldChange[] = [];
+    for (const field of ORDER_DIFF_FIELDS) {
+      if (!(field in o.data)) continue;
+      if (!sameValue(prev[field], o.data[field])) {
+        changes.push({ field, old: prev[field] ?? null, new: o.data[field] ?? null });
+      }
+    }
+    if (changes.length === 0) {
+      unchangedOrders++;
+      continue;
+    }
+    changedOrders.push({
+      orderId: o.orderId,
+      source: o.source,
+      changes,
+      overwritesIncomeFees: hasIncomeData(prev) && changes.some((c) => FEE_FIELDS.has(c.field)),
+    });
+  }
+
+  const productIds = new Set<number>();
+  for (const it of input.items) if (it.productId != null) productIds.add(it.productId);
+  for (const prev of input.previousItems.values()) {
+    if (prev.productId != null) productIds.add(Number(prev.productId));
+  }
+  const products: ProductInfo[] =
+    productIds.size > 0
+      ? await prismaAny.product.findMany({
+          where: { id: { in: [...productIds] } },
+          select: { id: true, code: true, name: true, masterProductId: true },
+        })
+      : [];
+  const productById = new Map(products.map((p) => [p.id, p]));
+
+  const itemMappingChanges: Array<{
+    orderId: string;
+    source: string;
+    productCode: string;
+    name: string;
+    oldProduct: ProductInfo | null;
+    newProduct: { id: number | null; code: string; name: string; masterProductId: number | null; isNew: boolean };
+  }> = [];
+  let newItems = 0;
+  const seenItems = new Set<string>();
+  for (const it of input.items) {
+    const key = itemKeyOf(it.orderId, it.source, it.productCode);
+    if (seenItems.has(key)) continue;
+    seenItems.add(key);
+    const prev = input.previousItems.get(key);
+    if (!prev) {
+      newItems++;
+      continue;
+    }
+    const oldId = prev.productId != null ? Number(prev.productId) : null;
+    if (oldId === it.productId) continue;
+    const target = it.productId != null ? productById.get(it.productId) : undefined;
+    itemMappingChanges.push({
+      orderId: it.orderId,
+      source: it.source,
+      productCode: it.productCode,
+      name: it.name,
+      oldProduct: oldId != null ? productById.get(oldId) ?? null : null,
+      newProduct: {
+        id: it.productId,
+        code: it.productRef,
+        name: target?.name ?? it.name,
+        masterProductId: target?.masterProductId ?? null,
+        isNew: it.productId == null,
+      },
+    });
+  }
+
+  const deletedOrders = (input.deletedOrders ?? []).map((o) => ({
+    orderId: String(o.orderId),
+    source: String(o.source),
+    totalPrice: o.totalPrice,
+    status: o.status,
+  }));
+
+  return {
+    preview: true,
+    source: input.source,
+    summary: {
+      newOrders: newOrders.length,
+      changedOrders: changedOrders.length,
+      unchangedOrders,
+      overwritesIncomeFees: changedOrders.filter((o) => o.overwritesIncomeFees).length,
+      newItems,
+      itemMappingChanges: itemMappingChanges.length,
+      deletedOrders: deletedOrders.length,
+      rejectedRows: countRejected(input.rejected),
+      warningRows: input.rejected.length - countRejected(input.rejected),
+    },
+    newOrders,
+    changedOrders,
+    itemMappingChanges,
+    deletedOrders,
+    rejectedRows: input.rejected,
+  };
+}
+
+export type ImportPreview = Awaited<ReturnType<typeof buildImportPreview>>;
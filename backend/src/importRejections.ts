@@ -0,0 +1,161 @@
+import { createRequire } from 'module';
+
+/**
+ * Linhas rejeitadas nos uploads de pedidos/itens (/api/upload, /api/upload-items).
+ * Os padronizadores avisam o motivo via callback; aqui ficam os códigos e rótulos exibidos na tela.
+ * Se o padronizador avisa um motivo e ainda assim devolve a linha, ela entra como ressalva (warning).
+ */
+
+const require = createRequire(import.meta.url);
+const xlsx = require('xlsx');
+
+export type RowRejectCode =
+  | 'missing_order_id'
+  | 'invalid_order_date'
+  | 'missing_product'
+  | 'invalid_quantity'
+  | 'negative_quantity'
+  | 'unknown_status'
+  | 'unknown_source'
+  | 'parse_error';
+
+export const ROW_REJECT_LABELS: Record<RowRejectCode, string> = {
+  missing_order_id: 'Sem número/ID do pedido',
+  invalid_order_date: 'Data do pedido ausente ou inválida',
+  missing_product: 'Sem código ou nome do produto',
+  invalid_quantity: 'Quantidade zerada ou inválida',
+  negative_quantity: 'Quantidade negativa',
+  unknown_status: 'Status do pedido ausente ou não reconhecido',
+  unknown_source: 'Canal não suportado para esta planilha',
+  parse_error: 'Erro ao ler a linha',
+};
+
+export type RowReject = (code: RowRejectCode) => void;
+
+export type RowRejectSeverity = 'rejected' | 'warning';
+
+export type RejectedRow = {
+  /** Linha na planilha (1 = cabeçalho). */
+  rowNumber: number;
+  /** rejected = linha descartada; warning = importada, mas com campo ignorado/preenchido por padrão. */
+  severity: RowRejectSeverity;
+  code: RowRejectCode;
+  reason: string;
+  values: Record<string, unknown>;
+};
+
+/** sheet_to_json: índice 0 = linha 2 da planilha (linha 1 é o cabeçalho). */
+export function sheetRowNumber(rowIndex: number): number {
+  return rowIndex + 2;
+}
+
+/** Usa o __rowNum__ do sheet_to_json (0-based, conta linhas em branco e título acima do cabeçalho) quando houver. */
+function rowNumberOf(rows: Record<string, unknown>[], rowIndex: number): number {
+  const rowNum = (rows[rowIndex] as { __rowNum__?: unknown } | undefined)?.__rowNum__;
+  return typeof rowNum === 'number' ? rowNum + 1 : sheetRowNumber(rowIndex);
+}
+
+export function rejectedRow(
+  rows: Record<string, unknown>[],
+  rowIndex: number,
+  code: RowRejectCode,
+  severity: RowRejectSeverity = 'rejected',
+): RejectedRow {
+  return {
+    rowNumber: rowNumberOf(rows, rowIndex),
+    severity,
+    code,
+    reason: ROW_REJECT_LABELS[code],
+    values: rows[rowIndex] ?? {},
+  };
+}
+
+/**
+ * Aplica o padronizador em cada linha, separando as aceitas das rejeitadas (com motivo).
+ * Linha aceita com motivo avisado vira uma ressalva por código.
+ */
+export function standardizeRows<T>(
+  rows: Record<string, unknown>[],
+  standardize: (row: Record<string, unknown>, onReject: RowReject) => T | null,
+): { items: T[]; rejected: RejectedRow[] } {
+  const items: T[] = [];
+  const rejected: RejectedRow[] = [];
+  rows.forEach((row, i) => {
+    const codes: RowRejectCode[] = [];
+    const out = standardize(row, (c) => {
+      if (!codes.includes(c)) codes.push(c);
+    });
+    if (out !== null) {
+      items.push(out);
+      for (const c of codes) rejected.push(rejectedRow(rows, i, c, 'warning'));
+    } else {
+      rejected.push(rejectedRow(rows, i, codes[0] ?? 'parse_error'));
+    }
+  });
+  return { items, rejected };
+}
+
+export function countRejected(rows: RejectedRow[]): number {
+  return rows.filter((r) => r.severity === 'rejected').length;
+}
+
+export type RejectionReportFormat = 'csv' | 'xlsx';
+
+export function isRejectionReportFormat(v: string): v is RejectionReportFormat {
+  return v === 'csv' || v === 'xlsx';
+}
+
+/** Aceita linhas vindas do front (preview/erro 400) sem confiar no formato. */
+export function sanitizeRejectedRows(raw: unknown): RejectedRow[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((r): r is Record<string, unknown> => r != null && typeof r === 'object')
+    .map((r) => {
+      const code = String(r.code ?? '') as RowRejectCode;
+      return {
+        rowNumber: Number(r.rowNumber) || 0,
+        severity: r.severity === 'warning' ? 'warning' : 'rejected',
+        code,
+        reason: String(r.reason ?? ROW_REJECT_LABELS[code] ?? ''),
+        values: r.values != null && typeof r.values === 'object' ? (r.values as Record<string, unknown>) : {},
+      };
+    });
+}
+
+function csvCell(v: unknown): string {
+  const s = v == null ? '' : v instanceof Date ? v.toISOString() : String(v);
+  return /[";\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Relatório das linhas rejeitadas: colunas fixas (linha, situação, código, motivo) seguidas
+ * das colunas originais da planilha, na ordem em que aparecem.
+ * CSV com ";" e BOM para abrir direto no Excel pt-BR.
+ */
+export function buildRejectionReport(rows: RejectedRow[], format: RejectionReportFormat): Buffer {
+  const rawHeaders: string[] = [];
+  for (const r of rows) {
+    for (const k of Object.keys(r.values)) if (!rawHeaders.includes(k)) rawHeaders.push(k);
+  }
+  const header = ['Linha', 'Situação', 'Código', 'Motivo', ...rawHeaders];
+  const data = rows.map((r) => [
+    r.rowNumber,
+    r.severity === 'warning' ? 'Importada com ressalva' : 'Rejeitada',
+    r.code,
+    r.reason,
+    ...rawHeaders.map((h) => r.values[h] ?? ''),
+  ]);
+
+  if (format === 'xlsx') {
+    const wb = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(wb, xlsx.utils.aoa_to_sheet([header, ...data]), 'Linhas rejeitadas');
+    return xlsx.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+  const lines = [header, ...data].map((line) => line.map(csvCell).join(';'));
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+export const REJECTION_REPORT_CONTENT_TYPES: Record<RejectionReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
@@ -9,11 +9,15 @@ import util from 'util';
 import crypto from 'crypto';
 import { createRequire } from 'module';
 import * as shopeeApi from './shopeeApi.js';
+import { upsertShopeeCatalog } from './shopeeCatalog.js';
 import * as tiktokShopApi from './tiktokShopApi.js';
 import * as tiktokAdsApi from './tiktokAdsApi.js';
-import { parseTikTokIncomeReport } from './tiktokIncome.js';
+import { parseTikTokIncomeReport, type TikTokIncomeOrderRow } from './tiktokIncome.js';
+import { aggregateStatementTransactions } from './tiktokStatement.js';
+import { cancelledOrderIds, planTiktokReturns, TIKTOK_ORDER_STATUS_LABELS } from './tiktokReturns.js';
 import { parseTikTokOnholdReport } from './tiktokOnhold.js';
 import { parseShopeeIncomeReport } from './shopeeIncome.js';
+import { createShopeeBalanceImportHandler, registerShopeeBalanceRoutes } from './shopeeBalanceRoutes.js';
 import {
   buildProductCostLookup,
   effectiveCostDisplay,
@@ -32,9 +36,87 @@ import {
   loadCombinedCostLookup,
   buildMasterStockCurrent,
 } from './masterProductRoutes.js';
-import { computeSimulationMetrics, computeContributionDashboard, buildMonthChannelRateMap, computeOrderProfitBreakdown, listMonthsInclusive, DEFAULT_TAX_PERCENT } from './simulationMetrics.js';
+import { computeSimulationMetrics, computeContributionDashboard, buildMonthChannelRateMap, computeOrderProfitBreakdown, listMonthsInclusive, orderNetRevenue, DEFAULT_TAX_PERCENT } from './simulationMetrics.js';
 import { parseNubankStatementCsv, type BankStatementDraft } from './nubankStatement.js';
 import { parseNuvemshopSalesRows, SOURCE_ATACADO } from './nuvemshopOrders.js';
+import {
+  findMercadoLivreHeaderRow,
+  parseMercadoLivreSalesRows,
+  MERCADO_LIVRE_PRODUCT_PREFIX,
+  SOURCE_MERCADO_LIVRE,
+} from './mercadoLivreOrders.js';
+import { countRejected, rejectedRow, standardizeRows, type RejectedRow, type RowReject } from './importRejections.js';
+import { buildImportPreview, type PlannedItem, type PlannedOrder } from './importPreview.js';
+import {
+  headerKeys,
+  importLayoutForSource,
+  loadImportMapping,
+  IMPORT_LAYOUT_HEADERS,
+  type ImportFieldMapping,
+  type ImportLayout,
+} from './importMapping.js';
+import { registerImportMappingRoutes } from './importMappingRoutes.js';
+import {
+  createImportJobQueue,
+  registerImportJobRoutes,
+  wantsBackgroundJob,
+  type ImportJobHandler,
+  type ImportJobKind,
+  type ImportJobProgress,
+  type ImportJobResponder,
+} from './importJobs.js';
+import { createSyncScheduler, registerSyncRoutes, type SyncResult, type SyncWindow } from './syncScheduler.js';
+import {
+  dateFromDayKey,
+  dayKey,
+  LEGACY_MONTH_CAMPAIGN_ID,
+  loadDailySpendByDayChannel,
+  MANUAL_MONTH_CAMPAIGN_ID,
+  registerAdSpendDailyRoutes,
+  writeAdSpendDaily,
+  writeManualAdSpend,
+  type AdSpendDailyInput,
+} from './adSpendDaily.js';
+import { isExternalAdsChannel, parseExternalAdsReport, type ExternalAdsChannel } from './externalAdsReport.js';
+import { registerAdSpendAllocationRoutes } from './adSpendAllocationRoutes.js';
+import { registerReturnCostRoutes } from './returnCostRoutes.js';
+import { registerOrderSearchRoutes } from './orderSearch.js';
+import { registerOrderExportRoutes } from './orderExport.js';
+import { buyersFromRows, customerKeySalt, linkOrderCustomers, registerCustomerRoutes } from './customers.js';
+import { registerReturnAnalyticsRoutes } from './returnAnalytics.js';
+import { isReturnCondition, planReturnLines, settleOrderReturn } from './orderReturnLines.js';
+import { deletedByOf, registerOrderTrashRoutes, startOrderTrashPurge, trashOrderItems, trashOrders } from './orderTrash.js';
+import {
+  buildOrderEventsCreate,
+  importOrderEvents,
+  loadOrderHistoryState,
+  recordOrderEvent,
+  registerOrderHistoryRoutes,
+  ORDER_HISTORY_SELECT,
+  type OrderEventDraft,
+} from './orderHistory.js';
+import {
+  createShopeeStockConnector,
+  createStockPush,
+  createTiktokShopStockConnector,
+  registerStockPushRoutes,
+} from './stockPush.js';
+import {
+  createShopeeWebhookReceiver,
+  createTiktokShopWebhookReceiver,
+  createWebhookQueue,
+  registerWebhookRoutes,
+} from './webhooks.js';
+import {
+  registerImportBatchRoutes,
+  buildImportBatchCreate,
+  duplicateImportMessage,
+  fileSha256,
+  findAppliedBatchByHash,
+  snapshotItemsOfOrders,
+  snapshotOrderItems,
+  snapshotOrders,
+} from './importBatchRoutes.js';
 
 function parseDateOnly(dateStr: string): Date | null {
   const s = String(dateStr ?? '').trim();
@@ -159,19 +241,7 @@ function trayDigitsOnly(s: string): string {
 /** Define o `source` do pedido Tray a partir da planilha (loja) ou do prefixo do número do pedido. */
 function resolveTraySubSource(row: Record<string, unknown> | null, orderId: string): string {
   const oid = String(orderId || '').trim();
-  const storeVal = row
-    ? pick(row, [
-        'Loja',
-        'Identificador loja',
-        'Identificador da loja',
-        'ID loja',
-        'Id loja',
-        'Código loja',
-        'Codigo loja',
-        'Store ID',
-        'Store id',
-      ])
-    : undefined;
+  const storeVal = row ? pick(row, IMPORT_LAYOUT_HEADERS.tray.store) : undefined;
   if (storeVal != null && String(storeVal).trim()) {
     const d = trayDigitsOnly(String(storeVal));
     if (d === TRAY_STORE_ID_ATACADO) return TRAY_SOURCE_ATACADO;
@@ -206,6 +276,8 @@ function channelLabelForChart(source: string): string {
       return 'Shopee';
     case 'tiktok':
       return 'TikTok';
+    case SOURCE_MERCADO_LIVRE:
+      return 'Mercado Livre';
     case TRAY_SOURCE_ATACADO:
     case 'tray_atacado':
       return 'Atacado';
@@ -348,22 +420,27 @@ interface StandardizedShopeeItem {
   platformDiscount: number;
 }
 
-function standardizeShopeeRow(row: Record<string, unknown>): StandardizedShopeeItem | null {
+function standardizeShopeeRow(
+  row: Record<string, unknown>,
+  onReject?: RowReject,
+  mapping?: ImportFieldMapping,
+): StandardizedShopeeItem | null {
+  const keys = (field: string) => headerKeys(mapping, 'shopee', field);
   try {
-    const orderIdVal = pick(row, ['ID do pedido', 'ID do Pedido', 'Order ID']);
-    const orderDateVal = pick(row, ['Data de criação do pedido', 'Data de Criação do Pedido', 'Created Time']);
-    const statusVal = pick(row, ['Status do pedido', 'Status', 'Order Status']);
-    const productNameVal = pick(row, ['Nome do Produto', 'Nome do produto', 'Product Name']);
-    const variationVal = pick(row, ['Nome da variação', 'Nome da Variação', 'Nome da variacao', 'Variation', 'Variação', 'Variacao', 'Variation Name']);
-    const skuIdVal = pick(row, ['Número de referência SKU', 'Numero de referencia SKU', 'Nº de referência do SKU principal', 'SKU ID', 'ID do SKU', 'SKU Reference No.']);
-    const qtyVal = pick(row, ['Quantidade', 'Qty', 'Quantity']);
-    const priceVal = pick(row, ['SKU Subtotal After Discount', 'Subtotal do produto', 'Valor Total', 'Total global', 'Preço Final Total']);
-    const unitPriceVal = pick(row, ['SKU Unit Original Price', 'Preço unitário', 'Preco unitario', 'Unit Price', 'Preço']);
-    const platformDiscVal = pick(row, ['SKU Platform Discount']);
-    const sellerDiscVal = pick(row, ['SKU Seller Discount']);
-    const discountVal = pick(row, ['Desconto', 'Discount', 'Desconto do produto', 'Seller discount']);
-    const commissionVal = pick(row, ['Net Commission Fee', 'Taxa de comissão líquida', 'Commission Fee']);
-    const serviceVal = pick(row, ['Taxa de serviço bruta', 'Gross service fee', 'Service Fee', 'Taxa de servico bruta']);
+    const orderIdVal = pick(row, keys('orderId'));
+    const orderDateVal = pick(row, keys('orderDate'));
+    const statusVal = pick(row, keys('status'));
+    const productNameVal = pick(row, keys('productName'));
+    const variationVal = pick(row, keys('variation'));
+    const skuIdVal = pick(row, keys('sku'));
+    const qtyVal = pick(row, keys('quantity'));
+    const priceVal = pick(row, keys('totalPrice'));
+    const unitPriceVal = pick(row, keys('unitPrice'));
+    const platformDiscVal = pick(row, keys('platformDiscount'));
+    const sellerDiscVal = pick(row, keys('sellerDiscount'));
+    const discountVal = pick(row, keys('discount'));
+    const commissionVal = pick(row, keys('commissionFee'));
+    const serviceVal = pick(row, keys('serviceFee'));
 
     const orderId = orderIdVal ? String(orderIdVal).trim() : '';
     const orderDate = parseDateFlexible(orderDateVal);
@@ -389,7 +466,20 @@ function standardizeShopeeRow(row: Record<string, unknown>): StandardizedShopeeI
     const commissionFee = commissionVal != null ? parseBrNumber(commissionVal) : null;
     const serviceFee = serviceVal != null ? parseBrNumber(serviceVal) : null;
 
-    if (!orderId || !orderDate || isNaN(orderDate.getTime())) return null;
+    if (!orderId) {
+      onReject?.('missing_order_id');
+      return null;
+    }
+    if (!orderDate || isNaN(orderDate.getTime())) {
+      onReject?.('invalid_order_date');
+      return null;
+    }
+    if (quantity < 0) {
+      onReject?.('negative_quantity');
+      return null;
+    }
+    // Sem status: importa como "Desconhecido", mas avisa no relatório
+    if (!statusVal) onReject?.('unknown_status');
 
     return {
       orderId,
@@ -411,6 +501,7 @@ function standardizeShopeeRow(row: Record<string, unknown>): StandardizedShopeeI
     };
   } catch (e) {
     console.error('Erro ao padronizar linha Shopee:', e);
+    onReject?.('parse_error');
     return null;
   }
 }
@@ -506,20 +597,25 @@ interface StandardizedTiktokItem {
   platformDiscount: number;
 }
 
-function standardizeTiktokRow(row: Record<string, unknown>): StandardizedTiktokItem | null {
+function standardizeTiktokRow(
+  row: Record<string, unknown>,
+  onReject?: RowReject,
+  mapping?: ImportFieldMapping,
+): StandardizedTiktokItem | null {
+  const keys = (field: string) => headerKeys(mapping, 'tiktok', field);
   try {
-    const orderIdVal = pick(row, ['Order ID']);
-    const orderDateVal = pick(row, ['Created Time']);
-    const statusVal = pick(row, ['Order Status', 'Order Substatus']);
-    const productNameVal = pick(row, ['Product Name']);
-    const variationVal = pick(row, ['Variation']);
-    const skuIdVal = pick(row, ['SKU ID']);
-    const sellerSkuVal = pick(row, ['Seller SKU']);
-    const qtyVal = pick(row, ['Quantity']);
-    const unitPriceVal = pick(row, ['SKU Unit Original Price']);
-    const subtotalAfterVal = pick(row, ['SKU Subtotal After Discount']);
-    const platformDiscountVal = pick(row, ['SKU Platform Discount']);
-    const sellerDiscountVal = pick(row, ['SKU Seller Discount']);
+    const orderIdVal = pick(row, keys('orderId'));
+    const orderDateVal = pick(row, keys('orderDate'));
+    const statusVal = pick(row, keys('status'));
+    const productNameVal = pick(row, keys('productName'));
+    const variationVal = pick(row, keys('variation'));
+    const skuIdVal = pick(row, keys('skuId'));
+    const sellerSkuVal = pick(row, keys('sku'));
+    const qtyVal = pick(row, keys('quantity'));
+    const unitPriceVal = pick(row, keys('unitPrice'));
+    const subtotalAfterVal = pick(row, keys('totalPrice'));
+    const platformDiscountVal = pick(row, keys('platformDiscount'));
+    const sellerDiscountVal = pick(row, keys('sellerDiscount'));
 
     const orderId = orderIdVal ? String(orderIdVal).trim() : '';
     const orderDate = parseDateFlexible(orderDateVal);
@@ -536,7 +632,20 @@ function standardizeTiktokRow(row: Record<string, unknown>): StandardizedTiktokI
     const discount =
       sellerDiscount + platformDiscount > 0 ? sellerDiscount + platformDiscount : null;
 
-    if (!orderId || !orderDate || isNaN(orderDate.getTime())) return null;
+    if (!orderId) {
+      onReject?.('missing_order_id');
+      return null;
+    }
+    if (!orderDate || isNaN(orderDate.getTime())) {
+      onReject?.('invalid_order_date');
+      return null;
+    }
+    if (quantity < 0) {
+      onReject?.('negative_quantity');
+      return null;
+    }
+    // Sem status: importa como "Desconhecido", mas avisa no relatório
+    if (!statusVal) onReject?.('unknown_status');
 
     return {
       orderId,
@@ -553,6 +662,7 @@ function standardizeTiktokRow(row: Record<string, unknown>): StandardizedTiktokI
     };
   } catch (e) {
     console.error('Erro ao padronizar linha TikTok:', e);
+    onReject?.('parse_error');
     return null;
   }
 }
@@ -573,6 +683,29 @@ function parseDateAndTime(dateVal: unknown, timeVal: unknown): Date | null {
   return new Date(d.getFullYear(), d.getMonth(), d.getDate(), t.hh, t.mm, t.ss);
 }
 
+/** Taxas do pedido que o usuário pode editar à mão (Order.feesManual): imports e escrow não sobrescrevem. */
+const ORDER_FEE_FIELDS = ['commissionFee', 'serviceFee', 'easyReturnFee', 'autoRechargeFee'] as const;
+
+function withoutManualFees<T extends Record<string, unknown>>(data: T, feesManual: boolean | null | undefined): T {
+  if (!feesManual) return data;
+  const out: Record<string, unknown> = { ...data };
+  for (const f of ORDER_FEE_FIELDS) delete out[f];
+  return out as T;
+}
+
+/** orderIds (do canal) com taxas editadas à mão, para filtrar as taxas das planilhas de pedidos. */
+async function loadManualFeeOrderIds(prismaAny: any, source: string, orderIds: string[]): Promise<Set<string>> {
+  const out = new Set<string>();
+  for (let i = 0; i < orderIds.length; i += 1000) {
+    const rows: Array<{ orderId: string }> = await prismaAny.order.findMany({
+      where: { source, feesManual: true, orderId: { in: orderIds.slice(i, i + 1000) } },
+      select: { orderId: true },
+    });
+    for (const r of rows) out.add(r.orderId);
+  }
+  return out;
+}
+
 function monthStartFromYYYYMM(v: string): Date | null {
   const s = String(v || '').trim();
   const m = s.match(/^(\d{4})-(\d{2})$/);
@@ -653,6 +786,8 @@ function mapOrderToGrossRevenueRow(o: {
   settlementAmount?: number | null;
   estimatedSettlementAmount?: number | null;
   paymentId?: string | null;
+  /** Custo de envio do vendedor (só Mercado Livre; no Tray o frete é custo da simulação). */
+  shippingFee?: number | null;
   items: Array<{
     productCode: string;
     name: string;
@@ -692,8 +827,9 @@ function mapOrderToGrossRevenueRow(o: {
   const easyReturnFee = roundMoney(Math.abs(Number(o.easyReturnFee || 0)));
   const autoRechargeFee = roundMoney(Math.abs(Number(o.autoRechargeFee || 0)));
   const partnerCommission = roundMoney(Math.abs(Number(o.partnerCommission || 0)));
+  const shippingFee = roundMoney(Math.abs(Number(o.shippingFee || 0)));
   const totalFees = roundMoney(
-    commissionFee + serviceFee + easyReturnFee + autoRechargeFee + partnerCommission,
+    commissionFee + serviceFee + easyReturnFee + autoRechargeFee + partnerCommission + shippingFee,
   );
   const feePercentBase = grossProductSales > 0 ? grossProductSales : 0;
   const pctOfGross = (amount: number) =>
@@ -704,6 +840,7 @@ function mapOrderToGrossRevenueRow(o: {
     { key: 'easyReturn', label: 'Devolução Fácil', amount: easyReturnFee, percentOfGross: pctOfGross(easyReturnFee) },
     { key: 'autoRecharge', label: 'Recarga automática', amount: autoRechargeFee, percentOfGross: pctOfGross(autoRechargeFee) },
     { key: 'partner', label: 'Comissão parceiro', amount: partnerCommission, percentOfGross: pctOfGross(partnerCommission) },
+    { key: 'shipping', label: 'Tarifa de envio', amount: shippingFee, percentOfGross: pctOfGross(shippingFee) },
   ].filter((line) => line.amount > 0);
   const totalFeesPercent = pctOfGross(totalFees);
   const orderTotal = roundMoney(Number(o.totalPrice || 0));
@@ -750,7 +887,12 @@ function mapOrderToGrossRevenueRow(o: {
   };
 }
 
-const standardizeData = (row: Record<string, unknown>, source: string): StandardizedSale | null => {
+const standardizeData = (
+  row: Record<string, unknown>,
+  source: string,
+  onReject?: RowReject,
+  mapping?: ImportFieldMapping,
+): StandardizedSale | null => {
   try {
     if (source === 'shopee') {
       const orderIdVal = pick(row, ['ID do pedido', 'ID do Pedido', 'Order ID']);
@@ -769,7 +911,14 @@ const standardizeData = (row: Record<string, unknown>, source: string): Standard
       const totalPrice = parseBrNumber(priceVal);
       const status = statusVal ? String(statusVal).trim() : 'Desconhecido';
 
-      if (!orderId || !orderDate || isNaN(orderDate.getTime())) return null;
+      if (!orderId) {
+        onReject?.('missing_order_id');
+        return null;
+      }
+      if (!orderDate || isNaN(orderDate.getTime())) {
+        onReject?.('invalid_order_date');
+        return null;
+      }
 
       return {
         orderId,
@@ -783,7 +932,10 @@ const standardizeData = (row: Record<string, unknown>, source: string): Standard
     }
 
     if (source === 'tiktok') {
-      if (!row['Order ID']) return null;
+      if (!row['Order ID']) {
+        onReject?.('missing_order_id');
+        return null;
+      }
       const statusVal = pick(row, ['Order Status', 'Status', 'Order status']);
       return {
         orderId: String(row['Order ID']),
@@ -798,14 +950,15 @@ const standardizeData = (row: Record<string, unknown>, source: string): Standard
 
     if (isTrayUploadSource(source)) {
       // CSV template: "Pedido";"Data";"Hora";"Frete valor"; ... ;"Status pedido"; ... ;"Total"; ...
-      const orderIdVal = pick(row, ['Pedido', 'pedido', 'Order ID']);
-      const orderDateVal = pick(row, ['Data', 'data']);
-      const orderTimeVal = pick(row, ['Hora', 'hora']);
-      const totalVal = pick(row, ['Total', 'total', 'Subtotal produtos', 'Subtotal produtos ']);
-      const freightVal = pick(row, ['Frete valor', 'Frete', 'Valor frete']);
-      const paymentTypeVal = pick(row, ['Pagamento tipo', 'Pagamento', 'Forma pagamento paga']);
-      const statusVal = pick(row, ['Status pedido', 'Status', 'Status do pedido']);
-      const channelVal = pick(row, ['Canal de venda', 'Canal', 'Canal']);
+      const keys = (field: string) => headerKeys(mapping, 'tray', field);
+      const orderIdVal = pick(row, keys('orderId'));
+      const orderDateVal = pick(row, keys('orderDate'));
+      const orderTimeVal = pick(row, keys('orderTime'));
+      const totalVal = pick(row, keys('totalPrice'));
+      const freightVal = pick(row, keys('freight'));
+      const paymentTypeVal = pick(row, keys('paymentType'));
+      const statusVal = pick(row, keys('status'));
+      const channelVal = pick(row, keys('channel'));
 
       const orderId = orderIdVal ? String(orderIdVal).trim() : '';
       const orderDate = parseDateAndTime(orderDateVal, orderTimeVal);
@@ -814,7 +967,15 @@ const standardizeData = (row: Record<string, unknown>, source: string): Standard
       const paymentType = paymentTypeVal ? String(paymentTypeVal).trim() : undefined;
       const status = statusVal ? String(statusVal).trim() : 'Desconhecido';
 
-      if (!orderId || !orderDate || isNaN(orderDate.getTime())) return null;
+      if (!orderId) {
+        onReject?.('missing_order_id');
+        return null;
+      }
+      if (!orderDate || isNaN(orderDate.getTime())) {
+        onReject?.('invalid_order_date');
+        return null;
+      }
+      if (!statusVal) onReject?.('unknown_status');
 
       const srcLower = String(source).trim().toLowerCase();
       const traySource =
@@ -843,22 +1004,30 @@ const standardizeData = (row: Record<string, unknown>, source: string): Standard
       };
     }
 
+    onReject?.('unknown_source');
     return null;
   } catch (e) {
     console.error('Erro ao padronizar linha:', prettyInspect({ row, source, e }));
+    onReject?.('parse_error');
     return null;
   }
 };
 
-const standardizeTrayItem = (row: Record<string, unknown>, uploadTraySource: string): StandardizedOrderItem | null => {
+const standardizeTrayItem = (
+  row: Record<string, unknown>,
+  uploadTraySource: string,
+  onReject?: RowReject,
+  mapping?: ImportFieldMapping,
+): StandardizedOrderItem | null => {
+  const keys = (field: string) => headerKeys(mapping, 'tray_items', field);
   try {
     // CSV: "Código pedido";"Nome produto";"Preço venda";"Quantidade";"Código produto"
     
-    const orderIdVal = pick(row, ['Código pedido', 'Codigo pedido', 'C�digo pedido', 'Pedido', 'orderId']);
-    const productCodeVal = pick(row, ['Código produto', 'Codigo produto', 'C�digo produto']);
-    const nameVal = pick(row, ['Nome produto', 'Nome do Produto', 'Produto']);
-    const unitPriceVal = pick(row, ['Preço venda', 'Preco venda', 'Pre�o venda', 'Valor']);
-    const qtyVal = pick(row, ['Quantidade', 'Qtd', 'Quantity']);
+    const orderIdVal = pick(row, keys('orderId'));
+    const productCodeVal = pick(row, keys('sku'));
+    const nameVal = pick(row, keys('productName'));
+    const unitPriceVal = pick(row, keys('unitPrice'));
+    const qtyVal = pick(row, keys('quantity'));
 
     const orderId = orderIdVal ? String(orderIdVal).trim() : '';
     const productCode = productCodeVal ? String(productCodeVal).trim() : '';
@@ -871,8 +1040,22 @@ const standardizeTrayItem = (row: Record<string, unknown>, uploadTraySource: str
     const unitPrice = parseBrNumber(unitPriceVal);
     const quantity = qtyVal ? parseInt(String(qtyVal), 10) || 0 : 0;
 
-    if (!orderId || !productCode || !name) return null;
-    if (quantity <= 0) return null;
+    if (!orderId) {
+      onReject?.('missing_order_id');
+      return null;
+    }
+    if (!productCode || !name) {
+      onReject?.('missing_product');
+      return null;
+    }
+    if (quantity < 0) {
+      onReject?.('negative_quantity');
+      return null;
+    }
+    if (quantity === 0) {
+      onReject?.('invalid_quantity');
+      return null;
+    }
 
     const us = String(uploadTraySource || 'tray').trim().toLowerCase();
     const traySource =
@@ -893,6 +1076,7 @@ const standardizeTrayItem = (row: Record<string, unknown>, uploadTraySource: str
     };
   } catch (e) {
     console.error('Erro ao padronizar item Tray:', prettyInspect({ row, e }));
+    onReject?.('parse_error');
     return null;
   }
 };
@@ -917,6 +1101,36 @@ function getFilePath(file: any): string | undefined {
   return file.filepath || file.path || file.filePath || file.tempFilePath;
 }
 
+/** Lê a 1ª aba do upload como objetos. CSV: Tray/Atacado/Nuvemshop usam ';', TikTok/Shopee usam ','. */
+function readUploadSheetRows(filepath: string, layout: ImportLayout): Record<string, unknown>[] {
+  const ext = String(path.extname(filepath || '')).toLowerCase();
+  const semicolon = layout === 'tray' || layout === 'tray_items' || layout === 'atacado';
+  const workbook =
+    ext === '.csv'
+      ? xlsx.readFile(filepath, {
+          FS: semicolon ? ';' : ',',
+          raw: true,
+          // Nuvemshop/Tray BR exports: ';' + Windows-1252 (não UTF-8); planilha de itens Tray vem sem codepage
+          codepage: layout === 'tray' || layout === 'atacado' ? 1252 : undefined,
+        })
+      : xlsx.readFile(filepath);
+  const sheetName = workbook.SheetNames[0];
+  const sheet = workbook.Sheets[sheetName];
+  // Vendas Mercado Livre: cabeçalho abaixo das linhas de título do relatório
+  const range =
+    layout === 'mercadolivre'
+      ? findMercadoLivreHeaderRow(
+          xlsx.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true }) as unknown[][],
+          IMPORT_LAYOUT_HEADERS.mercadolivre.orderId,
+        )
+      : undefined;
+  return xlsx.utils.sheet_to_json(sheet, {
+    defval: '',
+    raw: true,
+    range,
+  }) as Record<string, unknown>[];
+}
+
 function monthKeyFromAnyDate(v: unknown): string | null {
   if (!v) return null;
   const s = String(v).trim();
@@ -932,6 +1146,24 @@ function monthKeyFromAnyDate(v: unknown): string | null {
   return null;
 }
 
+/** Dia (YYYY-MM-DD) de uma célula de data: ISO, DD/MM/AAAA ou serial do Excel. */
+function dayKeyFromAnyDate(v: unknown): string | null {
+  if (v == null || v === '') return null;
+  if (typeof v === 'number') {
+    const jsDate = new Date(Math.round((v - 25569) * 86400 * 1000));
+    if (isNaN(jsDate.getTime())) return null;
+    return `${jsDate.getUTCFullYear()}-${String(jsDate.getUTCMonth() + 1).padStart(2, '0')}-${String(jsDate.getUTCDate()).padStart(2, '0')}`;
+  }
+  const s = String(v).trim();
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const br = s.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+  if (br) return `${br[3]}-${br[2]}-${br[1]}`;
+  const d = new Date(s);
+  if (!isNaN(d.getTime())) return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  return null;
+}
+
 function parseShopeeAdsWalletReport(filepath: string) {
   const ext = String(path.extname(filepath || '')).toLowerCase();
   const workbook =
@@ -951,7 +1183,7 @@ function parseShopeeAdsWalletReport(filepath: string) {
     return a.includes('Data') && a.includes('Descrição') && a.includes('Valor');
   });
   if (headerIdx < 0) {
-    return { byMonth: new Map<string, number>(), matchedRows: 0, total: 0, message: 'Cabeçalho não encontrado.' };
+    return { byMonth: new Map<string, number>(), byDay: new Map<string, number>(), matchedRows: 0, total: 0, message: 'Cabeçalho não encontrado.' };
   }
 
   const header = (rows[headerIdx] || []).map((c) => String(c ?? '').trim());
@@ -962,17 +1194,19 @@ function parseShopeeAdsWalletReport(filepath: string) {
   const idxValor = col('Valor');
 
   if (idxData < 0 || idxDesc < 0 || idxValor < 0) {
-    return { byMonth: new Map<string, number>(), matchedRows: 0, total: 0, message: 'Colunas obrigatórias ausentes.' };
+    return { byMonth: new Map<string, number>(), byDay: new Map<string, number>(), matchedRows: 0, total: 0, message: 'Colunas obrigatórias ausentes.' };
   }
 
   const wantText = 'Pagamento no Saldo da Carteira - Recarga por compra de ADS'.toLowerCase();
   const byMonth = new Map<string, number>();
+  const byDay = new Map<string, number>(); // YYYY-MM-DD → gasto (alimenta AdSpendDaily)
   let matchedRows = 0;
 
   for (let i = headerIdx + 1; i < rows.length; i++) {
     const r = rows[i] || [];
     const dateVal = r[idxData];
-    const monthKey = monthKeyFromAnyDate(dateVal);
+    const dayStr = dayKeyFromAnyDate(dateVal);
+    const monthKey = dayStr ? dayStr.slice(0, 7) : monthKeyFromAnyDate(dateVal);
     if (!monthKey) continue;
 
     const tipo = idxTipo >= 0 ? String(r[idxTipo] ?? '').trim() : '';
@@ -994,10 +1228,29 @@ function parseShopeeAdsWalletReport(filepath: string) {
 
     matchedRows++;
     byMonth.set(monthKey, Number(((byMonth.get(monthKey) || 0) + amount).toFixed(2)));
+    // Sem dia legível, o valor vai para o dia 1 do mês (o total mensal continua certo)
+    const day = dayStr ?? `${monthKey}-01`;
+    byDay.set(day, Number(((byDay.get(day) || 0) + amount).toFixed(2)));
   }
 
   const total = Number([...byMonth.values()].reduce((a, b) => a + b, 0).toFixed(2));
-  return { byMonth, matchedRows, total, message: '' };
+  return { byMonth, byDay, matchedRows, total, message: '' };
+}
+
+/** Relatório de campanhas Meta Ads / Google Ads (CSV ou XLSX) → gasto diário por campanha. */
+function readExternalAdsReport(filepath: string, channel: ExternalAdsChannel) {
+  let workbook;
+  if (String(path.extname(filepath || '')).toLowerCase() === '.csv') {
+    // Meta exporta UTF-8 sem BOM e o Google, UTF-16; sem decodificar aqui o xlsx lê como latin1
+    const buf = fs.readFileSync(filepath);
+    const text = buf[0] === 0xff && buf[1] === 0xfe ? buf.toString('utf16le') : buf.toString('utf8');
+    workbook = xlsx.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true });
+  } else {
+    workbook = xlsx.readFile(filepath, { raw: true });
+  }
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = xlsx.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null }) as unknown[][];
+  return parseExternalAdsReport(channel, rows, parseBrNumber);
 }
 
 function slugifyProductKey(name: string, variation: string): string {
@@ -1021,6 +1274,8 @@ interface EnsureProductOpts {
   sku?: string | null;
   variationName?: string | null;
   parentCode?: string | null;
+  /** Prefixo do code quando difere do source (ex.: ml_ para mercadolivre). */
+  codePrefix?: string;
 }
 
 async function ensureProduct(
@@ -1030,7 +1285,7 @@ async function ensureProduct(
   name: string,
   opts?: EnsureProductOpts,
 ): Promise<number> {
-  const code = `${source}_${String(productCode).trim()}`;
+  const code = `${opts?.codePrefix ?? source}_${String(productCode).trim()}`;
   const extra: Record<string, unknown> = {};
   if (opts?.variationName) extra.variationName = opts.variationName;
   if (opts?.parentCode) extra.parentCode = opts.parentCode;
@@ -1044,6 +1299,21 @@ async function ensureProduct(
   return p.id;
 }
 
+/** Preview de upload: Product.id por code (`${source}_${productCode}`) sem criar; ausente = seria criado. */
+async function findProductIdsByCode(prisma: any, codes: string[]): Promise<Map<string, number>> {
+  const unique = [...new Set(codes.map((c) => String(c).trim()).filter(Boolean))];
+  const out = new Map<string, number>();
+  const CHUNK = 500;
+  for (let i = 0; i < unique.length; i += CHUNK) {
+    const rows = await prisma.product.findMany({
+      where: { code: { in: unique.slice(i, i + CHUNK) } },
+      select: { id: true, code: true },
+    });
+    for (const r of rows) out.set(r.code, r.id);
+  }
+  return out;
+}
+
 /** Auto-create a ProductGroup for variations that share the same parentCode */
 async function autoGroupVariations(prisma: any, parentCode: string, groupName: string) {
   const products = await prisma.product.findMany({
@@ -1089,7 +1359,8 @@ async function autoGroupVariations(prisma: any, parentCode: string, groupName: s
 
 async function main() {
   console.log('Node:', process.version);
-  
+  customerKeySalt();
+
   if (!fs.existsSync(prismaClientPath)) {
     console.warn('Warning: Prisma client folder not found.');
   }
@@ -1100,599 +1371,1121 @@ async function main() {
 
   const app = express();
   app.use(cors());
-  app.use(express.json());
-
-  app.post('/api/upload', (req, res) => {
-    const form = formidable({ multiples: false, keepExtensions: true });
-
-    form.parse(req, async (err: unknown, fields: FormFields, files: FormFields) => {
-      if (err) return res.status(500).json({ message: 'Erro no form.' });
+  // Limite maior: exportação das linhas rejeitadas recebe a planilha de volta no body
+  // Webhooks: guarda o corpo cru, que entra na assinatura
+  app.use(
+    express.json({
+      limit: '20mb',
+      verify: (req, _res, buf) => {
+        if (req.url?.startsWith('/api/webhooks/')) (req as any).rawBody = buf;
+      },
+    }),
+  );
 
-      try {
-        const { key: fileKey, file } = getFileFromFormidable(files);
-        if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+  // Importações em segundo plano: cada rota de upload registra seu handler aqui
+  const importJobHandlers = {} as Record<ImportJobKind, ImportJobHandler>;
+  const importJobs = createImportJobQueue({ prisma, handlers: importJobHandlers });
 
-        const filepath = getFilePath(file);
-        if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+  /** background=1: copia o upload para a fila e responde 202 com o id do job. */
+  const enqueueImportJob = async (res: express.Response, kind: ImportJobKind, fields: FormFields, files: FormFiles) => {
+    try {
+      const { file } = getFileFromFormidable(files);
+      const filepath = getFilePath(file);
+      if (!file || !filepath) return res.status(400).json({ message: 'Arquivo não enviado.' });
+      const job = await importJobs.enqueue(kind, fields, {
+        filepath,
+        originalFilename: file.originalFilename || file.name,
+      });
+      return res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao enfileirar importação.' });
+    }
+  };
 
-        const sourceRaw = (fields as any).source;
-        const source = String(first(sourceRaw) ?? '')
-          .trim()
-          .toLowerCase() as string;
+  /** Upload de pedidos: usado pela rota síncrona e pelo worker de importações (background=1). */
+  const handleOrdersUpload: ImportJobHandler = async (fields, files, res, progress) => {
+    try {
+      const { key: fileKey, file } = getFileFromFormidable(files);
+      if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+
+      const filepath = getFilePath(file);
+      if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+
+      const sourceRaw = (fields as any).source;
+      const source = String(first(sourceRaw) ?? '')
+        .trim()
+        .toLowerCase() as string;
+
+      const allowedUpload = [
+        'shopee',
+        'tiktok',
+        'tray',
+        TRAY_SOURCE_ATACADO,
+        TRAY_SOURCE_VAREJO,
+        'tray_atacado',
+        SOURCE_MERCADO_LIVRE,
+      ];
+      if (!source || !allowedUpload.includes(source)) {
+        return res.status(400).json({ message: 'Source inválido.' });
+      }
+      // Aceita legado tray_atacado e normaliza para atacado
+      const normalizedSource = source === 'tray_atacado' ? TRAY_SOURCE_ATACADO : source;
+
+      // preview=1: só devolve o diff (nada é gravado)
+      const previewRaw = String(first((fields as any).preview) ?? '').trim().toLowerCase();
+      const preview = previewRaw === '1' || previewRaw === 'true' || previewRaw === 'yes';
+
+      // Mesmo arquivo (SHA-256) já importado: recusa, a menos que force=1 (no preview só avisa)
+      const fileHash = fileSha256(filepath);
+      const fileName = String(file.originalFilename || file.name || '').trim();
+      const forceRaw = String(first((fields as any).force) ?? '').trim().toLowerCase();
+      const force = forceRaw === '1' || forceRaw === 'true' || forceRaw === 'yes';
+      const dup = force ? null : await findAppliedBatchByHash(prisma as any, 'orders', fileHash);
+      if (dup && !preview) {
+        return res.status(409).json({ message: duplicateImportMessage(dup), duplicateBatch: dup });
+      }
+      const previewMeta = {
+        fileName,
+        fileHash,
+        duplicateBatch: dup,
+        duplicateMessage: dup ? duplicateImportMessage(dup) : null,
+      };
 
-        const allowedUpload = ['shopee', 'tiktok', 'tray', TRAY_SOURCE_ATACADO, TRAY_SOURCE_VAREJO, 'tray_atacado'];
-        if (!source || !allowedUpload.includes(source)) {
-          return res.status(400).json({ message: 'Source inválido.' });
+      await progress?.phase('reading', 5);
+      const layout = importLayoutForSource(normalizedSource);
+      const jsonData = readUploadSheetRows(filepath, layout);
+      const mapping = await loadImportMapping(prisma, layout);
+      await progress?.phase('parsing', 25);
+
+      // Canal Atacado: export Nuvemshop (pedidos + itens no mesmo arquivo)
+      if (normalizedSource === TRAY_SOURCE_ATACADO) {
+        const { orders: nuvemOrders, skipped, rejected: nuvemRejected } = parseNuvemshopSalesRows(jsonData, mapping);
+        const rejectedRows = nuvemRejected.map((r) => rejectedRow(jsonData, r.rowIndex, r.code));
+        if (nuvemOrders.length === 0) {
+          return res.status(400).json({
+            message:
+              'Nenhum pedido Atacado encontrado. Use o CSV de Vendas da Nuvemshop (colunas Número do Pedido, Total, SKU…).',
+            skipped,
+            rejectedRows,
+          });
         }
-        // Aceita legado tray_atacado e normaliza para atacado
-        const normalizedSource = source === 'tray_atacado' ? TRAY_SOURCE_ATACADO : source;
-
-        const ext = String(path.extname(filepath || '')).toLowerCase();
-        // CSV: Tray/Atacado/Nuvemshop usam ';', TikTok/Shopee usam ','
-        const workbook =
-          ext === '.csv'
-            ? xlsx.readFile(filepath, {
-                // Nuvemshop/Tray BR exports: ';' + Windows-1252 (não UTF-8)
-                FS: isTrayUploadSource(normalizedSource) || normalizedSource === TRAY_SOURCE_ATACADO ? ';' : ',',
-                raw: true,
-                codepage: isTrayUploadSource(normalizedSource) || normalizedSource === TRAY_SOURCE_ATACADO ? 1252 : undefined,
-              })
-            : xlsx.readFile(filepath);
-        const sheetName = workbook.SheetNames[0];
-        const jsonData = xlsx.utils.sheet_to_json(workbook.Sheets[sheetName], {
-          defval: '',
-          raw: true,
-        }) as Record<string, unknown>[];
-
-        // Canal Atacado: export Nuvemshop (pedidos + itens no mesmo arquivo)
-        if (normalizedSource === TRAY_SOURCE_ATACADO) {
-          const { orders: nuvemOrders, skipped } = parseNuvemshopSalesRows(jsonData);
-          if (nuvemOrders.length === 0) {
-            return res.status(400).json({
-              message:
-                'Nenhum pedido Atacado encontrado. Use o CSV de Vendas da Nuvemshop (colunas Número do Pedido, Total, SKU…).',
-              skipped,
-            });
-          }
 
-          const productIds = new Map<string, number>();
-          const ops: any[] = [];
-          let itemCount = 0;
+        const productIds = new Map<string, number>();
+        const ops: any[] = [];
+        let itemCount = 0;
 
-          const freightLockedRows = await (prisma as any).order.findMany({
-            where: {
-              source: SOURCE_ATACADO,
-              orderId: { in: nuvemOrders.map((o) => o.orderId) },
-              freightManual: true,
-            },
-            select: { orderId: true },
-          });
-          const freightLocked = new Set(
-            (freightLockedRows as Array<{ orderId: string }>).map((r) => r.orderId),
+        const freightLockedRows = await (prisma as any).order.findMany({
+          where: {
+            source: SOURCE_ATACADO,
+            orderId: { in: nuvemOrders.map((o) => o.orderId) },
+            freightManual: true,
+          },
+          select: { orderId: true },
+        });
+        const freightLocked = new Set(
+          (freightLockedRows as Array<{ orderId: string }>).map((r) => r.orderId),
+        );
+
+        const orderKeys = nuvemOrders.map((o) => ({ orderId: o.orderId, source: SOURCE_ATACADO }));
+        const itemKeys = nuvemOrders.flatMap((o) =>
+          o.items.map((it) => ({ orderId: o.orderId, source: SOURCE_ATACADO, productCode: it.productCode })),
+        );
+        await progress?.phase('comparing', 45);
+        const [previousOrders, previousItems] = await Promise.all([
+          snapshotOrders(prisma as any, orderKeys),
+          snapshotOrderItems(prisma as any, itemKeys),
+        ]);
+        // ensureProduct grava no laço abaixo: o cancelamento precisa acontecer antes dele
+        if (!preview) await progress?.phase('writing', 60);
+        const existingProducts = preview
+          ? await findProductIdsByCode(prisma, itemKeys.map((k) => `${SOURCE_ATACADO}_${k.productCode}`))
+          : null;
+        const plannedOrders: PlannedOrder[] = [];
+        const plannedItems: PlannedItem[] = [];
+
+        for (const o of nuvemOrders) {
+          const firstItem = o.items[0];
+          const qty = o.items.reduce((s, it) => s + it.quantity, 0);
+          const freightValue = o.freight > 0 ? o.freight : null;
+          const updateData: Record<string, unknown> = {
+            orderDate: o.orderDate,
+            status: o.status,
+            totalPrice: Number(o.totalPrice.toFixed(2)),
+            quantity: qty || 1,
+            productName: firstItem?.name || `Pedido Atacado #${o.orderNumber}`,
+            paymentType: o.paymentType || null,
+            paymentId: o.paymentId || null,
+            serviceFee: o.fees > 0 ? o.fees : null,
+          };
+          // Não sobrescreve frete editado manualmente na simulação.
+          if (!freightLocked.has(o.orderId)) {
+            updateData.freight = freightValue;
+          }
+          plannedOrders.push({ orderId: o.orderId, source: SOURCE_ATACADO, data: updateData });
+          ops.push(
+            prisma.order.upsert({
+              where: { orderId_source: { orderId: o.orderId, source: SOURCE_ATACADO } },
+              update: updateData,
+              create: {
+                orderId: o.orderId,
+                source: SOURCE_ATACADO,
+                orderDate: o.orderDate,
+                status: o.status,
+                totalPrice: Number(o.totalPrice.toFixed(2)),
+                quantity: qty || 1,
+                productName: firstItem?.name || `Pedido Atacado #${o.orderNumber}`,
+                freight: freightValue,
+                freightManual: false,
+                paymentType: o.paymentType || null,
+                paymentId: o.paymentId || null,
+                serviceFee: o.fees > 0 ? o.fees : null,
+              },
+            }),
           );
 
-          for (const o of nuvemOrders) {
-            const firstItem = o.items[0];
-            const qty = o.items.reduce((s, it) => s + it.quantity, 0);
-            const freightValue = o.freight > 0 ? o.freight : null;
-            const updateData: Record<string, unknown> = {
-              orderDate: o.orderDate,
-              status: o.status,
-              totalPrice: Number(o.totalPrice.toFixed(2)),
-              quantity: qty || 1,
-              productName: firstItem?.name || `Pedido Atacado #${o.orderNumber}`,
-              paymentType: o.paymentType || null,
-              paymentId: o.paymentId || null,
-              serviceFee: o.fees > 0 ? o.fees : null,
-            };
-            // Não sobrescreve frete editado manualmente na simulação.
-            if (!freightLocked.has(o.orderId)) {
-              updateData.freight = freightValue;
+          for (const it of o.items) {
+            const pkey = `${SOURCE_ATACADO}_${it.productCode}`;
+            if (!productIds.has(pkey)) {
+              const id = existingProducts
+                ? existingProducts.get(pkey)
+                : await ensureProduct(prisma, SOURCE_ATACADO, it.productCode, it.name, {
+                    sku: it.productCode,
+                  });
+              if (id != null) productIds.set(pkey, id);
             }
+            const productId = productIds.get(pkey);
+            plannedItems.push({
+              orderId: o.orderId,
+              source: SOURCE_ATACADO,
+              productCode: it.productCode,
+              name: it.name,
+              productRef: pkey,
+              productId: productId ?? null,
+            });
+            itemCount++;
             ops.push(
-              prisma.order.upsert({
-                where: { orderId_source: { orderId: o.orderId, source: SOURCE_ATACADO } },
-                update: updateData,
-                create: {
-                  orderId: o.orderId,
-                  source: SOURCE_ATACADO,
-                  orderDate: o.orderDate,
-                  status: o.status,
-                  totalPrice: Number(o.totalPrice.toFixed(2)),
-                  quantity: qty || 1,
-                  productName: firstItem?.name || `Pedido Atacado #${o.orderNumber}`,
-                  freight: freightValue,
-                  freightManual: false,
-                  paymentType: o.paymentType || null,
-                  paymentId: o.paymentId || null,
-                  serviceFee: o.fees > 0 ? o.fees : null,
-                },
-              }),
-            );
-
-            for (const it of o.items) {
-              const pkey = `${SOURCE_ATACADO}_${it.productCode}`;
-              if (!productIds.has(pkey)) {
-                const id = await ensureProduct(prisma, SOURCE_ATACADO, it.productCode, it.name, {
-                  sku: it.productCode,
-                });
-                productIds.set(pkey, id);
-              }
-              const productId = productIds.get(pkey);
-              itemCount++;
-              ops.push(
-                (prisma as any).orderItem.upsert({
-                  where: {
-                    orderId_source_productCode: {
-                      orderId: o.orderId,
-                      source: SOURCE_ATACADO,
-                      productCode: it.productCode,
-                    },
-                  },
-                  update: {
-                    name: it.name,
-                    unitPrice: it.unitPrice,
-                    quantity: it.quantity,
-                    totalPrice: it.totalPrice,
-                    sellerDiscount: it.sellerDiscount || 0,
-                    discount: it.sellerDiscount || 0,
-                    productId,
-                  },
-                  create: {
+              (prisma as any).orderItem.upsert({
+                where: {
+                  orderId_source_productCode: {
                     orderId: o.orderId,
                     source: SOURCE_ATACADO,
                     productCode: it.productCode,
-                    name: it.name,
-                    unitPrice: it.unitPrice,
-                    quantity: it.quantity,
-                    totalPrice: it.totalPrice,
-                    sellerDiscount: it.sellerDiscount || 0,
-                    discount: it.sellerDiscount || 0,
-                    productId,
                   },
-                }),
-              );
-            }
-          }
-
-          const results = await prisma.$transaction(ops);
-          return res.status(200).json({
-            message: 'Pedidos Atacado (Nuvemshop) processados com sucesso.',
-            count: nuvemOrders.length,
-            items: itemCount,
-            operations: results.length,
-            skipped,
-          });
-        }
-
-        if (source === 'shopee') {
-          const rowsRaw = jsonData
-            .map((row) => standardizeShopeeRow(row))
-            .filter((r): r is StandardizedShopeeItem => r !== null);
-          // Planilha Shopee costuma trazer linha "pai" (só nome do produto) + linha da variação — mesma venda, mesmo preço.
-          const rows = dedupeShopeeImportRows(rowsRaw);
-
-          const byOrder = new Map<string, {
-            orderDate: Date;
-            status: string;
-            commissionFee: number | null;
-            serviceFee: number | null;
-            totalPrice: number;
-            productName: string;
-            quantity: number;
-          }>();
-          for (const r of rows) {
-            const key = r.orderId;
-            if (!byOrder.has(key)) {
-              byOrder.set(key, {
-                orderDate: r.orderDate,
-                status: r.status,
-                commissionFee: r.commissionFee,
-                serviceFee: r.serviceFee,
-                totalPrice: 0,
-                productName: r.name,
-                quantity: 0,
-              });
-            }
-            const agg = byOrder.get(key)!;
-            agg.totalPrice += r.totalPrice;
-            agg.quantity += r.quantity;
-          }
-
-          const ops: any[] = [];
-          for (const [orderId, agg] of byOrder.entries()) {
-            ops.push(
-              prisma.order.upsert({
-                where: { orderId_source: { orderId, source: 'shopee' } },
-                update: {
-                  orderDate: agg.orderDate,
-                  status: agg.status,
-                  totalPrice: Number(agg.totalPrice.toFixed(2)),
-                  quantity: agg.quantity,
-                  productName: agg.productName,
-                  commissionFee: agg.commissionFee,
-                  serviceFee: agg.serviceFee,
                 },
-                create: {
-                  orderId,
-                  source: 'shopee',
-                  orderDate: agg.orderDate,
-                  status: agg.status,
-                  totalPrice: Number(agg.totalPrice.toFixed(2)),
-                  quantity: agg.quantity,
-                  productName: agg.productName,
-                  commissionFee: agg.commissionFee,
-                  serviceFee: agg.serviceFee,
-                },
-              })
-            );
-          }
-          const productIds = new Map<string, number>();
-          const parentNames = new Map<string, string>(); // parentCode → baseName
-          for (const r of rows) {
-            const key = `shopee_${r.productCode}`;
-            if (!productIds.has(key)) {
-              const parentCode = r.variationName ? `shopee_base_${slugifyProductKey(r.baseName, '')}` : undefined;
-              const id = await ensureProduct(prisma, 'shopee', r.productCode, r.name, {
-                variationName: r.variationName || null,
-                parentCode: parentCode || null,
-                sku: r.skuId || null,
-              });
-              productIds.set(key, id);
-              if (parentCode && r.baseName) parentNames.set(parentCode, r.baseName);
-            }
-          }
-          // Auto-grouping desativado: o vínculo cross-channel passou para a tela "Produtos mestre" (manual via SKU mestre).
-          void parentNames;
-          for (const r of rows) {
-            const productId = productIds.get(`shopee_${r.productCode}`);
-            ops.push(
-              (prisma as any).orderItem.upsert({
-                where: { orderId_source_productCode: { orderId: r.orderId, source: 'shopee', productCode: r.productCode } },
                 update: {
-                  name: r.name,
-                  unitPrice: r.unitPrice,
-                  quantity: r.quantity,
-                  totalPrice: r.totalPrice,
-                  discount: r.discount,
-                  sellerDiscount: r.sellerDiscount,
-                  platformDiscount: r.platformDiscount,
+                  name: it.name,
+                  unitPrice: it.unitPrice,
+                  quantity: it.quantity,
+                  totalPrice: it.totalPrice,
+                  sellerDiscount: it.sellerDiscount || 0,
+                  discount: it.sellerDiscount || 0,
                   productId,
                 },
                 create: {
-                  orderId: r.orderId,
-                  source: 'shopee',
-                  productCode: r.productCode,
-                  name: r.name,
-                  unitPrice: r.unitPrice,
-                  quantity: r.quantity,
-                  totalPrice: r.totalPrice,
-                  discount: r.discount ?? 0,
-                  sellerDiscount: r.sellerDiscount,
-                  platformDiscount: r.platformDiscount,
+                  orderId: o.orderId,
+                  source: SOURCE_ATACADO,
+                  productCode: it.productCode,
+                  name: it.name,
+                  unitPrice: it.unitPrice,
+                  quantity: it.quantity,
+                  totalPrice: it.totalPrice,
+                  sellerDiscount: it.sellerDiscount || 0,
+                  discount: it.sellerDiscount || 0,
                   productId,
                 },
-              })
+              }),
             );
           }
-          const results = await prisma.$transaction(ops);
-          return res.status(200).json({
-            message: 'Processado com sucesso.',
-            count: results.length,
+        }
+
+        if (preview) {
+          const diff = await buildImportPreview(prisma as any, {
+            source: SOURCE_ATACADO,
+            orders: plannedOrders,
+            items: plannedItems,
+            previousOrders,
+            previousItems,
+            rejected: rejectedRows,
           });
+          return res.status(200).json({ ...diff, ...previewMeta });
         }
 
-        if (source === 'tiktok') {
-          const rows = jsonData
-            .map((row) => standardizeTiktokRow(row))
-            .filter((r): r is StandardizedTiktokItem => r !== null);
-
-          const byOrder = new Map<string, {
-            orderDate: Date;
-            status: string;
-            orderAmount: number;
-            productName: string;
-            quantity: number;
-          }>();
-          for (const r of rows) {
-            const key = r.orderId;
-            if (!byOrder.has(key)) {
-              const firstMatch = jsonData.find((row) => String(row['Order ID'] ?? '').trim() === key);
-              const orderAmount = parseBrNumber(firstMatch?.['Order Amount']);
-              byOrder.set(key, {
-                orderDate: r.orderDate,
-                status: r.status,
-                orderAmount,
-                productName: r.name,
-                quantity: 0,
-              });
-            }
-            byOrder.get(key)!.quantity += r.quantity;
-          }
+        const batchOp = buildImportBatchCreate(prisma as any, {
+          kind: 'orders',
+          source: SOURCE_ATACADO,
+          fileName,
+          fileHash,
+          forced: force,
+          rejected: rejectedRows,
+          orderKeys,
+          previousOrders,
+          itemKeys,
+          previousItems,
+        });
+        const eventOps = buildOrderEventsCreate(
+          prisma as any,
+          importOrderEvents(plannedOrders, previousOrders, 'import', fileName),
+        );
+        await progress?.phase('writing', 75);
+        const [batch, ...results] = await prisma.$transaction([batchOp, ...ops, ...eventOps]);
+        const customersLinked = await linkOrderCustomers(
+          prisma,
+          SOURCE_ATACADO,
+          nuvemOrders.map((o) => ({ orderId: o.orderId, buyer: o.buyer })),
+        );
+        return res.status(200).json({
+          message: 'Pedidos Atacado (Nuvemshop) processados com sucesso.',
+          count: nuvemOrders.length,
+          items: itemCount,
+          operations: ops.length,
+          customersLinked,
+          skipped,
+          importBatchId: batch.id,
+          rejected: countRejected(rejectedRows),
+          rejectedRows,
+        });
+      }
 
-          const ops: any[] = [];
-          for (const [orderId, agg] of byOrder.entries()) {
-            const orderTotal = agg.orderAmount > 0 ? agg.orderAmount : rows.filter((r) => r.orderId === orderId).reduce((s, r) => s + r.totalPrice, 0);
-            ops.push(
-              prisma.order.upsert({
-                where: { orderId_source: { orderId, source: 'tiktok' } },
-                update: {
-                  orderDate: agg.orderDate,
-                  status: agg.status,
-                  totalPrice: Number(orderTotal.toFixed(2)),
-                  quantity: agg.quantity,
-                  productName: agg.productName,
-                },
-                create: {
-                  orderId,
-                  source: 'tiktok',
-                  orderDate: agg.orderDate,
-                  status: agg.status,
-                  totalPrice: Number(orderTotal.toFixed(2)),
-                  quantity: agg.quantity,
-                  productName: agg.productName,
-                },
-              })
-            );
-          }
-          const productIds = new Map<string, number>();
-          for (const r of rows) {
-            const key = `tiktok_${r.productCode}`;
-            if (!productIds.has(key)) {
-              const id = await ensureProduct(prisma, 'tiktok', r.productCode, r.name);
-              productIds.set(key, id);
+      // Mercado Livre: relatório de Vendas (pedidos + itens + tarifas no mesmo arquivo)
+      if (normalizedSource === SOURCE_MERCADO_LIVRE) {
+        const { orders: mlOrders, skipped, rejected: mlRejected } = parseMercadoLivreSalesRows(jsonData, mapping);
+        const rejectedRows = mlRejected.map((r) => rejectedRow(jsonData, r.rowIndex, r.code));
+        if (mlOrders.length === 0) {
+          return res.status(400).json({
+            message:
+              'Nenhuma venda Mercado Livre encontrada. Use o relatório de Vendas (.xlsx) com as colunas N.º de venda, Receita por produtos, SKU…',
+            skipped,
+            rejectedRows,
+          });
+        }
+
+        const productIds = new Map<string, number>();
+        const ops: any[] = [];
+        let itemCount = 0;
+
+        const orderKeys = mlOrders.map((o) => ({ orderId: o.orderId, source: SOURCE_MERCADO_LIVRE }));
+        const itemKeys = mlOrders.flatMap((o) =>
+          o.items.map((it) => ({ orderId: o.orderId, source: SOURCE_MERCADO_LIVRE, productCode: it.productCode })),
+        );
+        await progress?.phase('comparing', 45);
+        const [previousOrders, previousItems, manualFees] = await Promise.all([
+          snapshotOrders(prisma as any, orderKeys),
+          snapshotOrderItems(prisma as any, itemKeys),
+          loadManualFeeOrderIds(prisma, SOURCE_MERCADO_LIVRE, mlOrders.map((o) => o.orderId)),
+        ]);
+        // ensureProduct grava no laço abaixo: o cancelamento precisa acontecer antes dele
+        if (!preview) await progress?.phase('writing', 60);
+        const existingProducts = preview
+          ? await findProductIdsByCode(
+              prisma,
+              itemKeys.map((k) => `${MERCADO_LIVRE_PRODUCT_PREFIX}_${k.productCode}`),
+            )
+          : null;
+        const plannedOrders: PlannedOrder[] = [];
+        const plannedItems: PlannedItem[] = [];
+
+        for (const o of mlOrders) {
+          const qty = o.items.reduce((s, it) => s + it.quantity, 0);
+          const updateData: Record<string, unknown> = withoutManualFees({
+            orderDate: o.orderDate,
+            status: o.status,
+            totalPrice: o.totalPrice,
+            quantity: qty || 1,
+            productName: o.items[0]?.name || `Venda Mercado Livre #${o.orderId}`,
+            commissionFee: o.saleFee > 0 ? o.saleFee : null,
+            freight: o.shippingCost > 0 ? o.shippingCost : null,
+            settlementAmount: o.netAmount > 0 ? o.netAmount : null,
+          }, manualFees.has(o.orderId));
+          plannedOrders.push({ orderId: o.orderId, source: SOURCE_MERCADO_LIVRE, data: updateData });
+          ops.push(
+            prisma.order.upsert({
+              where: { orderId_source: { orderId: o.orderId, source: SOURCE_MERCADO_LIVRE } },
+              update: updateData,
+              create: { orderId: o.orderId, source: SOURCE_MERCADO_LIVRE, ...updateData } as any,
+            }),
+          );
+
+          for (const it of o.items) {
+            const pkey = `${MERCADO_LIVRE_PRODUCT_PREFIX}_${it.productCode}`;
+            if (!productIds.has(pkey)) {
+              const id = existingProducts
+                ? existingProducts.get(pkey)
+                : await ensureProduct(prisma, SOURCE_MERCADO_LIVRE, it.productCode, it.name, {
+                    sku: it.productCode,
+                    codePrefix: MERCADO_LIVRE_PRODUCT_PREFIX,
+                  });
+              if (id != null) productIds.set(pkey, id);
             }
-          }
-          for (const r of rows) {
-            const productId = productIds.get(`tiktok_${r.productCode}`);
+            const productId = productIds.get(pkey);
+            plannedItems.push({
+              orderId: o.orderId,
+              source: SOURCE_MERCADO_LIVRE,
+              productCode: it.productCode,
+              name: it.name,
+              productRef: pkey,
+              productId: productId ?? null,
+            });
+            itemCount++;
+            const itemData = {
+              name: it.name,
+              unitPrice: it.unitPrice,
+              quantity: it.quantity,
+              totalPrice: it.totalPrice,
+              productId,
+            };
             ops.push(
               (prisma as any).orderItem.upsert({
-                where: { orderId_source_productCode: { orderId: r.orderId, source: 'tiktok', productCode: r.productCode } },
-                update: {
-                  name: r.name,
-                  unitPrice: r.unitPrice,
-                  quantity: r.quantity,
-                  totalPrice: r.totalPrice,
-                  discount: r.discount,
-                  sellerDiscount: r.sellerDiscount,
-                  platformDiscount: r.platformDiscount,
-                  productId,
-                },
-                create: {
-                  orderId: r.orderId,
-                  source: 'tiktok',
-                  productCode: r.productCode,
-                  name: r.name,
-                  unitPrice: r.unitPrice,
-                  quantity: r.quantity,
-                  totalPrice: r.totalPrice,
-                  discount: r.discount ?? 0,
-                  sellerDiscount: r.sellerDiscount,
-                  platformDiscount: r.platformDiscount,
-                  productId,
+                where: {
+                  orderId_source_productCode: {
+                    orderId: o.orderId,
+                    source: SOURCE_MERCADO_LIVRE,
+                    productCode: it.productCode,
+                  },
                 },
-              })
+                update: itemData,
+                create: { orderId: o.orderId, source: SOURCE_MERCADO_LIVRE, productCode: it.productCode, ...itemData },
+              }),
             );
           }
-          const results = await prisma.$transaction(ops);
-          return res.status(200).json({ message: 'Processado com sucesso.', count: results.length });
         }
 
-        const standardizedSales = jsonData
-          .map((row) => standardizeData(row, source))
-          .filter((sale): sale is StandardizedSale => sale !== null);
-
-        // Mesmo número de pedido em `tray` (legado) + em tray_atacado/tray_varejo contava duas vezes nos KPIs.
-        // Ao importar com subcanal explícito ou automático que grava atacado/varejo, remove o legado equivalente.
-        const splitTrayOrderIds = [
-          ...new Set(
-            standardizedSales
-              .filter((s) => s.source === TRAY_SOURCE_ATACADO || s.source === TRAY_SOURCE_VAREJO)
-              .map((s) => s.orderId)
-          ),
-        ];
-        if (splitTrayOrderIds.length > 0) {
-          const CHUNK = 500;
-          let removed = 0;
-          for (let i = 0; i < splitTrayOrderIds.length; i += CHUNK) {
-            const chunk = splitTrayOrderIds.slice(i, i + CHUNK);
-            const r = await prisma.order.deleteMany({
-              where: { source: 'tray', orderId: { in: chunk } },
-            });
-            removed += r.count;
-          }
-          if (removed > 0) {
-            console.log(
-              `[tray] Removidos ${removed} pedido(s) com source=tray legado (mesmo código já existe como atacado/varejo neste arquivo).`
-            );
-          }
+        if (preview) {
+          const diff = await buildImportPreview(prisma as any, {
+            source: SOURCE_MERCADO_LIVRE,
+            orders: plannedOrders,
+            items: plannedItems,
+            previousOrders,
+            previousItems,
+            rejected: rejectedRows,
+          });
+          return res.status(200).json({ ...diff, ...previewMeta });
         }
 
-        const traySalesForFreight = standardizedSales.filter((sale) => isTrayOrderSource(sale.source));
-        const freightLockedRows =
-          traySalesForFreight.length > 0
-            ? await (prisma as any).order.findMany({
-                where: {
-                  OR: traySalesForFreight.map((sale) => ({
-                    orderId: sale.orderId,
-                    source: sale.source,
-                  })),
-                  freightManual: true,
-                },
-                select: { orderId: true, source: true },
-              })
-            : [];
-        const freightLocked = new Set(
-          (freightLockedRows as Array<{ orderId: string; source: string }>).map(
-            (r) => `${r.orderId}|${r.source}`,
-          ),
-        );
-
-        const operations = standardizedSales.map((sale) => {
-          const baseData = {
-            orderId: sale.orderId,
-            source: sale.source,
-            orderDate: sale.orderDate,
-            productName: sale.productName,
-            quantity: sale.quantity,
-            totalPrice: sale.totalPrice,
-            status: sale.status,
-          };
-          const createData: any = { ...baseData };
-          const updateData: any = { ...baseData };
-          if (isTrayOrderSource(sale.source)) {
-            if (sale.freight != null) {
-              createData.freight = sale.freight;
-              createData.freightManual = false;
-              // Não sobrescreve frete editado manualmente na simulação.
-              if (!freightLocked.has(`${sale.orderId}|${sale.source}`)) {
-                updateData.freight = sale.freight;
-              }
-            }
-            // Só preenche paymentType na criação; pedidos existentes mantêm valor editado manualmente.
-            if (sale.paymentType != null) createData.paymentType = sale.paymentType;
-          }
-          return prisma.order.upsert({
-            where: {
-              orderId_source: {
-                orderId: sale.orderId,
-                source: sale.source,
-              },
-            },
-            update: updateData,
-            create: createData,
-          });
+        const batchOp = buildImportBatchCreate(prisma as any, {
+          kind: 'orders',
+          source: SOURCE_MERCADO_LIVRE,
+          fileName,
+          fileHash,
+          forced: force,
+          rejected: rejectedRows,
+          orderKeys,
+          previousOrders,
+          itemKeys,
+          previousItems,
         });
-
-        console.log(`Processando ${operations.length} registros...`);
-        const results = await prisma.$transaction(operations);
-
+        const eventOps = buildOrderEventsCreate(
+          prisma as any,
+          importOrderEvents(plannedOrders, previousOrders, 'import', fileName),
+        );
+        await progress?.phase('writing', 75);
+        const [batch, ...results] = await prisma.$transaction([batchOp, ...ops, ...eventOps]);
         return res.status(200).json({
-          message: 'Processado com sucesso.',
-          count: results.length,
+          message: 'Vendas Mercado Livre processadas com sucesso.',
+          count: mlOrders.length,
+          items: itemCount,
+          operations: ops.length,
+          skipped,
+          importBatchId: batch.id,
+          rejected: countRejected(rejectedRows),
+          rejectedRows,
         });
-
-      } catch (e) {
-        console.error(e);
-        return res.status(500).json({ message: 'Erro interno.' });
       }
-    });
-  });
-
-  // Upload de itens/produtos vendidos (Tray)
-  app.post('/api/upload-items', (req, res) => {
-    const form = formidable({ multiples: false, keepExtensions: true });
-
-    form.parse(req, async (err: unknown, fields: FormFields, files: FormFields) => {
-      if (err) return res.status(500).json({ message: 'Erro no form.' });
-
-      try {
-        const { file } = getFileFromFormidable(files as any);
-        if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
-
-        const filepath = getFilePath(file);
-        if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
 
-        const sourceRaw = (fields as any).source;
-        const source = String(first(sourceRaw) ?? '').trim().toLowerCase();
-        const allowedItems = ['tray', TRAY_SOURCE_ATACADO, TRAY_SOURCE_VAREJO, 'tray_atacado'];
-        if (!allowedItems.includes(source)) {
-          return res.status(400).json({ message: 'Source inválido (use tray, atacado ou tray_varejo).' });
+      if (source === 'shopee') {
+        const { items: rowsRaw, rejected: rejectedRows } = standardizeRows(jsonData, (row, onReject) =>
+          standardizeShopeeRow(row, onReject, mapping),
+        );
+        // Planilha Shopee costuma trazer linha "pai" (só nome do produto) + linha da variação — mesma venda, mesmo preço.
+        const rows = dedupeShopeeImportRows(rowsRaw);
+        const orderKeys = [...new Set(rows.map((r) => r.orderId))].map((orderId) => ({ orderId, source: 'shopee' }));
+        const itemKeys = rows.map((r) => ({ orderId: r.orderId, source: 'shopee', productCode: r.productCode }));
+        await progress?.phase('comparing', 45);
+        const [previousOrders, previousItems, manualFees] = await Promise.all([
+          snapshotOrders(prisma as any, orderKeys),
+          snapshotOrderItems(prisma as any, itemKeys),
+          loadManualFeeOrderIds(prisma, 'shopee', orderKeys.map((k) => k.orderId)),
+        ]);
+
+        const byOrder = new Map<string, {
+          orderDate: Date;
+          status: string;
+          commissionFee: number | null;
+          serviceFee: number | null;
+          totalPrice: number;
+          productName: string;
+          quantity: number;
+        }>();
+        for (const r of rows) {
+          const key = r.orderId;
+          if (!byOrder.has(key)) {
+            byOrder.set(key, {
+              orderDate: r.orderDate,
+              status: r.status,
+              commissionFee: r.commissionFee,
+              serviceFee: r.serviceFee,
+              totalPrice: 0,
+              productName: r.name,
+              quantity: 0,
+            });
+          }
+          const agg = byOrder.get(key)!;
+          agg.totalPrice += r.totalPrice;
+          agg.quantity += r.quantity;
         }
-        const itemsSource = source === 'tray_atacado' ? TRAY_SOURCE_ATACADO : source;
 
-        const ext = String(path.extname(filepath || '')).toLowerCase();
-        const workbook =
-          ext === '.csv'
-            ? xlsx.readFile(filepath, { FS: ';', raw: true })
-            : xlsx.readFile(filepath);
-
-        const sheetName = workbook.SheetNames[0];
-        const jsonData = xlsx.utils.sheet_to_json(workbook.Sheets[sheetName], {
-          defval: '',
-          raw: true,
-        }) as Record<string, unknown>[];
-
-        const items = jsonData
-          .map((row) => standardizeTrayItem(row, itemsSource))
-          .filter((it): it is StandardizedOrderItem => it !== null);
-
-        // Agrupar por pedido para atualizar metadados no Order (sem alterar totalPrice,
-        // pois o canal Tray pode ter desconto progressivo e o total correto vem da planilha de pedidos)
-        const byOrder = new Map<string, { qty: number; firstName: string }>();
-        for (const it of items) {
-          const k = it.orderId;
-          const prev = byOrder.get(k);
-          if (!prev) byOrder.set(k, { qty: it.quantity, firstName: it.name });
-          else byOrder.set(k, { qty: prev.qty + it.quantity, firstName: prev.firstName });
+        const ops: any[] = [];
+        const plannedOrders: PlannedOrder[] = [];
+        for (const [orderId, agg] of byOrder.entries()) {
+          // Taxas editadas à mão (feesManual) ficam como estão
+          const updateData = withoutManualFees({
+            orderDate: agg.orderDate,
+            status: agg.status,
+            totalPrice: Number(agg.totalPrice.toFixed(2)),
+            quantity: agg.quantity,
+            productName: agg.productName,
+            commissionFee: agg.commissionFee,
+            serviceFee: agg.serviceFee,
+          }, manualFees.has(orderId));
+          plannedOrders.push({ orderId, source: 'shopee', data: updateData });
+          ops.push(
+            prisma.order.upsert({
+              where: { orderId_source: { orderId, source: 'shopee' } },
+              update: updateData,
+              create: { orderId, source: 'shopee', ...updateData },
+            })
+          );
         }
-
+        // ensureProduct grava no laço abaixo: o cancelamento precisa acontecer antes dele
+        if (!preview) await progress?.phase('writing', 60);
+        const existingProducts = preview
+          ? await findProductIdsByCode(prisma, rows.map((r) => `shopee_${r.productCode}`))
+          : null;
         const productIds = new Map<string, number>();
-        for (const it of items) {
-          const key = `tray_${it.productCode}`;
+        const parentNames = new Map<string, string>(); // parentCode → baseName
+        for (const r of rows) {
+          const key = `shopee_${r.productCode}`;
           if (!productIds.has(key)) {
-            const id = await ensureProduct(prisma, 'tray', it.productCode, it.name);
-            productIds.set(key, id);
+            const parentCode = r.variationName ? `shopee_base_${slugifyProductKey(r.baseName, '')}` : undefined;
+            const id = existingProducts
+              ? existingProducts.get(key)
+              : await ensureProduct(prisma, 'shopee', r.productCode, r.name, {
+                  variationName: r.variationName || null,
+                  parentCode: parentCode || null,
+                  sku: r.skuId || null,
+                });
+            if (id != null) productIds.set(key, id);
+            if (parentCode && r.baseName) parentNames.set(parentCode, r.baseName);
           }
         }
-
-        const ops: any[] = [];
-
-        // upsert item por (orderId, source, productCode)
-        for (const it of items) {
-          const productId = productIds.get(`tray_${it.productCode}`);
+        // Auto-grouping desativado: o vínculo cross-channel passou para a tela "Produtos mestre" (manual via SKU mestre).
+        void parentNames;
+        for (const r of rows) {
+          const productId = productIds.get(`shopee_${r.productCode}`);
           ops.push(
             (prisma as any).orderItem.upsert({
-              where: { orderId_source_productCode: { orderId: it.orderId, source: it.source, productCode: it.productCode } },
+              where: { orderId_source_productCode: { orderId: r.orderId, source: 'shopee', productCode: r.productCode } },
               update: {
-                name: it.name,
-                unitPrice: it.unitPrice,
-                quantity: it.quantity,
-                totalPrice: it.totalPrice,
+                name: r.name,
+                unitPrice: r.unitPrice,
+                quantity: r.quantity,
+                totalPrice: r.totalPrice,
+                discount: r.discount,
+                sellerDiscount: r.sellerDiscount,
+                platformDiscount: r.platformDiscount,
+                productId,
+              },
+              create: {
+                orderId: r.orderId,
+                source: 'shopee',
+                productCode: r.productCode,
+                name: r.name,
+                unitPrice: r.unitPrice,
+                quantity: r.quantity,
+                totalPrice: r.totalPrice,
+                discount: r.discount ?? 0,
+                sellerDiscount: r.sellerDiscount,
+                platformDiscount: r.platformDiscount,
                 productId,
               },
-              create: { ...it, productId },
             })
           );
         }
+        if (preview) {
+          const diff = await buildImportPreview(prisma as any, {
+            source: 'shopee',
+            orders: plannedOrders,
+            items: rows.map((r) => ({
+              orderId: r.orderId,
+              source: 'shopee',
+              productCode: r.productCode,
+              name: r.name,
+              productRef: `shopee_${r.productCode}`,
+              productId: productIds.get(`shopee_${r.productCode}`) ?? null,
+            })),
+            previousOrders,
+            previousItems,
+            rejected: rejectedRows,
+          });
+          return res.status(200).json({ ...diff, ...previewMeta });
+        }
+
+        const batchOp = buildImportBatchCreate(prisma as any, {
+          kind: 'orders',
+          source: 'shopee',
+          fileName,
+          fileHash,
+          forced: force,
+          skipped: rowsRaw.length - rows.length,
+          rejected: rejectedRows,
+          orderKeys,
+          previousOrders,
+          itemKeys,
+          previousItems,
+        });
+        const eventOps = buildOrderEventsCreate(
+          prisma as any,
+          importOrderEvents(plannedOrders, previousOrders, 'import', fileName),
+        );
+        await progress?.phase('writing', 75);
+        const [batch, ...results] = await prisma.$transaction([batchOp, ...ops, ...eventOps]);
+        const buyers = buyersFromRows(
+          jsonData,
+          (row) => String(pick(row, headerKeys(mapping, 'shopee', 'orderId')) ?? '').trim(),
+          (row, field) => pick(row, headerKeys(mapping, 'shopee', field)),
+        );
+        const customersLinked = await linkOrderCustomers(
+          prisma,
+          'shopee',
+          [...byOrder.keys()].filter((orderId) => buyers.has(orderId)).map((orderId) => ({ orderId, buyer: buyers.get(orderId)! })),
+        );
+        return res.status(200).json({
+          message: 'Processado com sucesso.',
+          count: ops.length,
+          customersLinked,
+          importBatchId: batch.id,
+          rejected: countRejected(rejectedRows),
+          rejectedRows,
+        });
+      }
 
-        // Atualiza o Order somando itens (se o pedido existir)
-        const orderIdToSources = new Map<string, Set<string>>();
-        for (const it of items) {
-          if (!orderIdToSources.has(it.orderId)) orderIdToSources.set(it.orderId, new Set());
-          orderIdToSources.get(it.orderId)!.add(it.source);
+      if (source === 'tiktok') {
+        const { items: rows, rejected: rejectedRows } = standardizeRows(jsonData, (row, onReject) =>
+          standardizeTiktokRow(row, onReject, mapping),
+        );
+        const orderKeys = [...new Set(rows.map((r) => r.orderId))].map((orderId) => ({ orderId, source: 'tiktok' }));
+        const itemKeys = rows.map((r) => ({ orderId: r.orderId, source: 'tiktok', productCode: r.productCode }));
+        await progress?.phase('comparing', 45);
+        const [previousOrders, previousItems] = await Promise.all([
+          snapshotOrders(prisma as any, orderKeys),
+          snapshotOrderItems(prisma as any, itemKeys),
+        ]);
+
+        const byOrder = new Map<string, {
+          orderDate: Date;
+          status: string;
+          orderAmount: number;
+          productName: string;
+          quantity: number;
+        }>();
+        for (const r of rows) {
+          const key = r.orderId;
+          if (!byOrder.has(key)) {
+            const firstMatch = jsonData.find(
+              (row) => String(pick(row, headerKeys(mapping, 'tiktok', 'orderId')) ?? '').trim() === key,
+            );
+            const orderAmount = parseBrNumber(firstMatch ? pick(firstMatch, headerKeys(mapping, 'tiktok', 'orderAmount')) : undefined);
+            byOrder.set(key, {
+              orderDate: r.orderDate,
+              status: r.status,
+              orderAmount,
+              productName: r.name,
+              quantity: 0,
+            });
+          }
+          byOrder.get(key)!.quantity += r.quantity;
         }
+
+        const ops: any[] = [];
+        const plannedOrders: PlannedOrder[] = [];
         for (const [orderId, agg] of byOrder.entries()) {
-          const sources = orderIdToSources.get(orderId);
-          const list = sources ? [...sources] : [resolveTraySubSource(null, orderId)];
-          for (const src of list) {
-            ops.push(
-              prisma.order.updateMany({
-                where: { orderId, source: src },
-                data: {
-                  quantity: agg.qty,
-                  productName: agg.firstName,
-                },
-              })
-            );
+          const orderTotal = agg.orderAmount > 0 ? agg.orderAmount : rows.filter((r) => r.orderId === orderId).reduce((s, r) => s + r.totalPrice, 0);
+          const updateData = {
+            orderDate: agg.orderDate,
+            status: agg.status,
+            totalPrice: Number(orderTotal.toFixed(2)),
+            quantity: agg.quantity,
+            productName: agg.productName,
+          };
+          plannedOrders.push({ orderId, source: 'tiktok', data: updateData });
+          ops.push(
+            prisma.order.upsert({
+              where: { orderId_source: { orderId, source: 'tiktok' } },
+              update: updateData,
+              create: { orderId, source: 'tiktok', ...updateData },
+            })
+          );
+        }
+        // ensureProduct grava no laço abaixo: o cancelamento precisa acontecer antes dele
+        if (!preview) await progress?.phase('writing', 60);
+        const existingProducts = preview
+          ? await findProductIdsByCode(prisma, rows.map((r) => `tiktok_${r.productCode}`))
+          : null;
+        const productIds = new Map<string, number>();
+        for (const r of rows) {
+          const key = `tiktok_${r.productCode}`;
+          if (!productIds.has(key)) {
+            const id = existingProducts
+              ? existingProducts.get(key)
+              : await ensureProduct(prisma, 'tiktok', r.productCode, r.name);
+            if (id != null) productIds.set(key, id);
           }
         }
+        for (const r of rows) {
+          const productId = productIds.get(`tiktok_${r.productCode}`);
+          ops.push(
+            (prisma as any).orderItem.upsert({
+              where: { orderId_source_productCode: { orderId: r.orderId, source: 'tiktok', productCode: r.productCode } },
+              update: {
+                name: r.name,
+                unitPrice: r.unitPrice,
+                quantity: r.quantity,
+                totalPrice: r.totalPrice,
+                discount: r.discount,
+                sellerDiscount: r.sellerDiscount,
+                platformDiscount: r.platformDiscount,
+                productId,
+              },
+              create: {
+                orderId: r.orderId,
+                source: 'tiktok',
+                productCode: r.productCode,
+                name: r.name,
+                unitPrice: r.unitPrice,
+                quantity: r.quantity,
+                totalPrice: r.totalPrice,
+                discount: r.discount ?? 0,
+                sellerDiscount: r.sellerDiscount,
+                platformDiscount: r.platformDiscount,
+                productId,
+              },
+            })
+          );
+        }
+        if (preview) {
+          const diff = await buildImportPreview(prisma as any, {
+            source: 'tiktok',
+            orders: plannedOrders,
+            items: rows.map((r) => ({
+              orderId: r.orderId,
+              source: 'tiktok',
+              productCode: r.productCode,
+              name: r.name,
+              productRef: `tiktok_${r.productCode}`,
+              productId: productIds.get(`tiktok_${r.productCode}`) ?? null,
+            })),
+            previousOrders,
+            previousItems,
+            rejected: rejectedRows,
+          });
+          return res.status(200).json({ ...diff, ...previewMeta });
+        }
+
+        const batchOp = buildImportBatchCreate(prisma as any, {
+          kind: 'orders',
+          source: 'tiktok',
+          fileName,
+          fileHash,
+          forced: force,
+          rejected: rejectedRows,
+          orderKeys,
+          previousOrders,
+          itemKeys,
+          previousItems,
+        });
+        const eventOps = buildOrderEventsCreate(
+          prisma as any,
+          importOrderEvents(plannedOrders, previousOrders, 'import', fileName),
+        );
+        await progress?.phase('writing', 75);
+        const [batch, ...results] = await prisma.$transaction([batchOp, ...ops, ...eventOps]);
+        const buyers = buyersFromRows(
+          jsonData,
+          (row) => String(pick(row, headerKeys(mapping, 'tiktok', 'orderId')) ?? '').trim(),
+          (row, field) => pick(row, headerKeys(mapping, 'tiktok', field)),
+        );
+        const customersLinked = await linkOrderCustomers(
+          prisma,
+          'tiktok',
+          [...byOrder.keys()].filter((orderId) => buyers.has(orderId)).map((orderId) => ({ orderId, buyer: buyers.get(orderId)! })),
+        );
+        return res.status(200).json({
+          message: 'Processado com sucesso.',
+          count: ops.length,
+          customersLinked,
+          importBatchId: batch.id,
+          rejected: countRejected(rejectedRows),
+          rejectedRows,
+        });
+      }
+
+      const { items: standardizedSales, rejected: rejectedRows } = standardizeRows(jsonData, (row, onReject) =>
+        standardizeData(row, source, onReject, mapping),
+      );
+
+      // Mesmo número de pedido em `tray` (legado) + em tray_atacado/tray_varejo contava duas vezes nos KPIs.
+      // Ao importar com subcanal explícito ou automático que grava atacado/varejo, remove o legado equivalente.
+      const splitTrayOrderIds = [
+        ...new Set(
+          standardizedSales
+            .filter((s) => s.source === TRAY_SOURCE_ATACADO || s.source === TRAY_SOURCE_VAREJO)
+            .map((s) => s.orderId)
+        ),
+      ];
+      // A remoção entra no mesmo $transaction do lote, com o estado anterior guardado para rollback.
+      await progress?.phase('comparing', 45);
+      const legacyKeys = splitTrayOrderIds.map((orderId) => ({ orderId, source: 'tray' }));
+      const deletedOrders = [...(await snapshotOrders(prisma as any, legacyKeys)).values()];
+      const deletedItems = await snapshotItemsOfOrders(
+        prisma as any,
+        deletedOrders.map((o) => ({ orderId: String(o.orderId), source: 'tray' })),
+      );
+      const legacyDeleteOps: any[] = [];
+      const CHUNK = 500;
+      for (let i = 0; i < splitTrayOrderIds.length; i += CHUNK) {
+        const chunk = splitTrayOrderIds.slice(i, i + CHUNK);
+        legacyDeleteOps.push(
+          prisma.order.deleteMany({
+            where: { source: 'tray', orderId: { in: chunk } },
+          }),
+        );
+      }
+
+      const traySalesForFreight = standardizedSales.filter((sale) => isTrayOrderSource(sale.source));
+      const freightLockedRows =
+        traySalesForFreight.length > 0
+          ? await (prisma as any).order.findMany({
+              where: {
+                OR: traySalesForFreight.map((sale) => ({
+                  orderId: sale.orderId,
+                  source: sale.source,
+                })),
+                freightManual: true,
+              },
+              select: { orderId: true, source: true },
+            })
+          : [];
+      const freightLocked = new Set(
+        (freightLockedRows as Array<{ orderId: string; source: string }>).map(
+          (r) => `${r.orderId}|${r.source}`,
+        ),
+      );
+
+      const orderKeys = standardizedSales.map((sale) => ({ orderId: sale.orderId, source: sale.source }));
+      const previousOrders = await snapshotOrders(prisma as any, orderKeys);
+
+      const plannedOrders: PlannedOrder[] = [];
+      const operations = standardizedSales.map((sale) => {
+        const baseData = {
+          orderId: sale.orderId,
+          source: sale.source,
+          orderDate: sale.orderDate,
+          productName: sale.productName,
+          quantity: sale.quantity,
+          totalPrice: sale.totalPrice,
+          status: sale.status,
+        };
+        const createData: any = { ...baseData };
+        const updateData: any = { ...baseData };
+        if (isTrayOrderSource(sale.source)) {
+          if (sale.freight != null) {
+            createData.freight = sale.freight;
+            createData.freightManual = false;
+            // Não sobrescreve frete editado manualmente na simulação.
+            if (!freightLocked.has(`${sale.orderId}|${sale.source}`)) {
+              updateData.freight = sale.freight;
+            }
+          }
+          // Só preenche paymentType na criação; pedidos existentes mantêm valor editado manualmente.
+          if (sale.paymentType != null) createData.paymentType = sale.paymentType;
+        }
+        plannedOrders.push({ orderId: sale.orderId, source: sale.source, data: updateData });
+        return prisma.order.upsert({
+          where: {
+            orderId_source: {
+              orderId: sale.orderId,
+              source: sale.source,
+            },
+          },
+          update: updateData,
+          create: createData,
+        });
+      });
+
+      if (preview) {
+        const diff = await buildImportPreview(prisma as any, {
+          source: normalizedSource,
+          orders: plannedOrders,
+          items: [],
+          previousOrders,
+          previousItems: new Map(),
+          rejected: rejectedRows,
+          deletedOrders,
+        });
+        return res.status(200).json({ ...diff, ...previewMeta });
+      }
+
+      const batchOp = buildImportBatchCreate(prisma as any, {
+        kind: 'orders',
+        source: normalizedSource,
+        fileName,
+        fileHash,
+        forced: force,
+        rejected: rejectedRows,
+        orderKeys,
+        previousOrders,
+        itemKeys: [],
+        previousItems: new Map(),
+        deletedOrders,
+        deletedItems,
+      });
+
+      const eventOps = buildOrderEventsCreate(
+        prisma as any,
+        importOrderEvents(plannedOrders, previousOrders, 'import', fileName),
+      );
+      console.log(`Processando ${operations.length} registros...`);
+      await progress?.phase('writing', 75);
+      const [batch, ...txResults] = await prisma.$transaction([batchOp, ...legacyDeleteOps, ...operations, ...eventOps]);
+      const removed = txResults
+        .slice(0, legacyDeleteOps.length)
+        .reduce((a: number, r: any) => a + (r?.count ?? 0), 0);
+      if (removed > 0) {
+        console.log(
+          `[tray] Removidos ${removed} pedido(s) com source=tray legado (mesmo código já existe como atacado/varejo neste arquivo).`
+        );
+      }
+      const results = txResults.slice(legacyDeleteOps.length, legacyDeleteOps.length + operations.length);
+
+      return res.status(200).json({
+        message: 'Processado com sucesso.',
+        count: results.length,
+        importBatchId: batch.id,
+        rejected: countRejected(rejectedRows),
+        rejectedRows,
+      });
+
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro interno.' });
+    }
+  };
+  importJobHandlers.orders = handleOrdersUpload;
+
+  app.post('/api/upload', (req, res) => {
+    const form = formidable({ multiples: false, keepExtensions: true });
+
+    form.parse(req, async (err: unknown, fields: FormFields, files: FormFields) => {
+      if (err) return res.status(500).json({ message: 'Erro no form.' });
+      if (wantsBackgroundJob(fields)) return enqueueImportJob(res, 'orders', fields, files);
+      return handleOrdersUpload(fields, files, res);
+    });
+  });
+
+  // Upload de itens/produtos vendidos (Tray)
+  /** Upload de itens Tray (rota síncrona e worker de importações). */
+  const handleItemsUpload: ImportJobHandler = async (fields, files, res, progress) => {
+    try {
+      const { file } = getFileFromFormidable(files as any);
+      if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+
+      const filepath = getFilePath(file);
+      if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+
+      const sourceRaw = (fields as any).source;
+      const source = String(first(sourceRaw) ?? '').trim().toLowerCase();
+      const allowedItems = ['tray', TRAY_SOURCE_ATACADO, TRAY_SOURCE_VAREJO, 'tray_atacado'];
+      if (!allowedItems.includes(source)) {
+        return res.status(400).json({ message: 'Source inválido (use tray, atacado ou tray_varejo).' });
+      }
+      const itemsSource = source === 'tray_atacado' ? TRAY_SOURCE_ATACADO : source;
+
+      const previewRaw = String(first((fields as any).preview) ?? '').trim().toLowerCase();
+      const preview = previewRaw === '1' || previewRaw === 'true' || previewRaw === 'yes';
+
+      const fileHash = fileSha256(filepath);
+      const fileName = String(file.originalFilename || file.name || '').trim();
+      const forceRaw = String(first((fields as any).force) ?? '').trim().toLowerCase();
+      const force = forceRaw === '1' || forceRaw === 'true' || forceRaw === 'yes';
+      const dup = force ? null : await findAppliedBatchByHash(prisma as any, 'items', fileHash);
+      if (dup && !preview) {
+        return res.status(409).json({ message: duplicateImportMessage(dup), duplicateBatch: dup });
+      }
+
+      await progress?.phase('reading', 5);
+      const jsonData = readUploadSheetRows(filepath, 'tray_items');
+      const mapping = await loadImportMapping(prisma, 'tray_items');
+      await progress?.phase('parsing', 25);
+
+      const { items, rejected: rejectedRows } = standardizeRows(jsonData, (row, onReject) =>
+        standardizeTrayItem(row, itemsSource, onReject, mapping),
+      );
+
+      // Agrupar por pedido para atualizar metadados no Order (sem alterar totalPrice,
+      // pois o canal Tray pode ter desconto progressivo e o total correto vem da planilha de pedidos)
+      const byOrder = new Map<string, { qty: number; firstName: string }>();
+      for (const it of items) {
+        const k = it.orderId;
+        const prev = byOrder.get(k);
+        if (!prev) byOrder.set(k, { qty: it.quantity, firstName: it.name });
+        else byOrder.set(k, { qty: prev.qty + it.quantity, firstName: prev.firstName });
+      }
+
+      const ops: any[] = [];
+
+      // Atualiza o Order somando itens (se o pedido existir)
+      const orderIdToSources = new Map<string, Set<string>>();
+      for (const it of items) {
+        if (!orderIdToSources.has(it.orderId)) orderIdToSources.set(it.orderId, new Set());
+        orderIdToSources.get(it.orderId)!.add(it.source);
+      }
+      const orderKeys: Array<{ orderId: string; source: string }> = [];
+      for (const [orderId, agg] of byOrder.entries()) {
+        const sources = orderIdToSources.get(orderId);
+        const list = sources ? [...sources] : [resolveTraySubSource(null, orderId)];
+        for (const src of list) {
+          orderKeys.push({ orderId, source: src });
+          ops.push(
+            prisma.order.updateMany({
+              where: { orderId, source: src },
+              data: {
+                quantity: agg.qty,
+                productName: agg.firstName,
+              },
+            })
+          );
+        }
+      }
 
-        const results = await prisma.$transaction(ops);
-        const updatedOrders = results.filter((r: any) => r && typeof r.count === 'number').reduce((a: number, r: any) => a + r.count, 0);
+      const itemKeys = items.map((it) => ({ orderId: it.orderId, source: it.source, productCode: it.productCode }));
+      await progress?.phase('comparing', 45);
+      const [previousOrders, previousItems] = await Promise.all([
+        snapshotOrders(prisma as any, orderKeys),
+        snapshotOrderItems(prisma as any, itemKeys),
+      ]);
 
+      // ensureProduct grava no laço abaixo: o cancelamento precisa acontecer antes dele
+      if (!preview) await progress?.phase('writing', 60);
+      const existingProducts = preview
+        ? await findProductIdsByCode(prisma, items.map((it) => `tray_${it.productCode}`))
+        : null;
+      const productIds = new Map<string, number>();
+      for (const it of items) {
+        const key = `tray_${it.productCode}`;
+        if (!productIds.has(key)) {
+          const id = existingProducts
+            ? existingProducts.get(key)
+            : await ensureProduct(prisma, 'tray', it.productCode, it.name);
+          if (id != null) productIds.set(key, id);
+        }
+      }
+
+      // upsert item por (orderId, source, productCode)
+      for (const it of items) {
+        const productId = productIds.get(`tray_${it.productCode}`);
+        ops.push(
+          (prisma as any).orderItem.upsert({
+            where: { orderId_source_productCode: { orderId: it.orderId, source: it.source, productCode: it.productCode } },
+            update: {
+              name: it.name,
+              unitPrice: it.unitPrice,
+              quantity: it.quantity,
+              totalPrice: it.totalPrice,
+              productId,
+            },
+            create: { ...it, productId },
+          })
+        );
+      }
+
+      if (preview) {
+        const diff = await buildImportPreview(prisma as any, {
+          source: itemsSource,
+          orders: orderKeys.map((k) => ({
+            ...k,
+            data: { quantity: byOrder.get(k.orderId)?.qty, productName: byOrder.get(k.orderId)?.firstName },
+          })),
+          items: items.map((it) => ({
+            orderId: it.orderId,
+            source: it.source,
+            productCode: it.productCode,
+            name: it.name,
+            productRef: `tray_${it.productCode}`,
+            productId: productIds.get(`tray_${it.productCode}`) ?? null,
+          })),
+          previousOrders,
+          previousItems,
+          rejected: rejectedRows,
+          ordersUpdateOnly: true,
+        });
         return res.status(200).json({
-          message: 'Itens processados com sucesso.',
-          items: items.length,
-          ordersUpdated: updatedOrders,
+          ...diff,
+          fileName,
+          fileHash,
+          duplicateBatch: dup,
+          duplicateMessage: dup ? duplicateImportMessage(dup) : null,
         });
-      } catch (e) {
-        console.error(e);
-        return res.status(500).json({ message: 'Erro interno.' });
       }
+
+      const batchOp = buildImportBatchCreate(prisma as any, {
+        kind: 'items',
+        source: itemsSource,
+        fileName,
+        fileHash,
+        forced: force,
+        rejected: rejectedRows,
+        orderKeys,
+        previousOrders,
+        itemKeys,
+        previousItems,
+      });
+
+      await progress?.phase('writing', 75);
+      const [batch, ...results] = await prisma.$transaction([batchOp, ...ops]);
+      const updatedOrders = results.filter((r: any) => r && typeof r.count === 'number').reduce((a: number, r: any) => a + r.count, 0);
+
+      return res.status(200).json({
+        message: 'Itens processados com sucesso.',
+        items: items.length,
+        ordersUpdated: updatedOrders,
+        importBatchId: batch.id,
+        rejected: countRejected(rejectedRows),
+        rejectedRows,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro interno.' });
+    }
+  };
+  importJobHandlers.items = handleItemsUpload;
+
+  app.post('/api/upload-items', (req, res) => {
+    const form = formidable({ multiples: false, keepExtensions: true });
+
+    form.parse(req, async (err: unknown, fields: FormFields, files: FormFields) => {
+      if (err) return res.status(500).json({ message: 'Erro no form.' });
+      if (wantsBackgroundJob(fields)) return enqueueImportJob(res, 'items', fields, files);
+      return handleItemsUpload(fields, files, res);
     });
   });
 
+  // Histórico de lotes de importação + rollback
+  registerImportBatchRoutes(app, { prisma });
+  // Progresso / cancelamento das importações em segundo plano
+  registerImportJobRoutes(app, { prisma });
+  // Perfis de mapeamento de cabeçalhos das planilhas de upload
+  registerImportMappingRoutes(app, { prisma, readUploadSheetRows, getFileFromFormidable, getFilePath });
+
   app.get('/api/sales', async (_req, res) => {
     try {
       const sales = await prisma.order.findMany({ orderBy: { orderDate: 'desc' } });
@@ -1815,86 +2608,15 @@ async function main() {
       return res.status(500).json({ message: 'Erro ao registrar custo.' });
     }
   });
-  // Lista pedidos com filtros (canal, período, busca)
-  // GET /api/orders?channel=all&start=2026-06&end=2026-06&q=55691&limit=100&offset=0
-  app.get('/api/orders', async (req, res) => {
-    try {
-      const channel = String(req.query.channel ?? 'all').trim().toLowerCase();
-      const q = String(req.query.q ?? '').trim();
-      const startStr = String(req.query.start ?? '').trim();
-      const endStr = String(req.query.end ?? startStr).trim();
-      const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '100'), 10) || 100));
-      const offset = Math.max(0, parseInt(String(req.query.offset ?? '0'), 10) || 0);
-
-      const where: Prisma.OrderWhereInput = {};
-      if (q) {
-        where.OR = [
-          { orderId: { contains: q, mode: 'insensitive' } },
-          { productName: { contains: q, mode: 'insensitive' } },
-        ];
-      }
-      if (startStr) {
-        const monthStart = monthStartFromYYYYMM(startStr);
-        const monthEnd = monthStartFromYYYYMM(endStr);
-        if (!monthStart || !monthEnd) {
-          return res.status(400).json({ message: 'Parâmetros start/end inválidos (use YYYY-MM).' });
-        }
-        const rangeStart = monthStart.getTime() <= monthEnd.getTime() ? monthStart : monthEnd;
-        const rangeEnd = monthStart.getTime() <= monthEnd.getTime() ? monthEnd : monthStart;
-        where.orderDate = {
-          gte: rangeStart,
-          lt: new Date(rangeEnd.getFullYear(), rangeEnd.getMonth() + 1, 1),
-        };
-      }
-      if (channel !== 'all') {
-        if (channel === 'tray') {
-          where.source = { in: [...TRAY_ORDER_SOURCES_LIST] };
-        } else {
-          where.source = channel;
-        }
-      }
-
-      const [orders, total] = await Promise.all([
-        prisma.order.findMany({
-          where,
-          orderBy: [{ orderDate: 'desc' }, { orderId: 'desc' }],
-          skip: offset,
-          take: limit,
-          select: {
-            id: true,
-            orderId: true,
-            orderDate: true,
-            productName: true,
-            quantity: true,
-            totalPrice: true,
-            source: true,
-            status: true,
-            paymentType: true,
-            freight: true,
-          },
-        }),
-        prisma.order.count({ where }),
-      ]);
-
-      return res.status(200).json({
-        orders: orders.map((o) => ({
-          ...o,
-          orderDate: o.orderDate.toISOString(),
-          paymentType: o.paymentType ?? '',
-          freight: o.freight ?? null,
-        })),
-        total,
-        limit,
-        offset,
-      });
-    } catch (e) {
-      console.error(e);
-      return res.status(500).json({ message: 'Erro ao listar pedidos.' });
-    }
-  });
-
-  // Atualiza campos editáveis do pedido (forma de pagamento e/ou frete)
-  // PATCH /api/orders/:orderId/:source  body: { paymentType?: "...", freight?: number | null }
+  registerOrderSearchRoutes(app, { prisma });
+  registerCustomerRoutes(app, { prisma });
+  registerReturnAnalyticsRoutes(app, { prisma });
+  registerOrderExportRoutes(app, { prisma, orderAmounts: mapOrderToGrossRevenueRow });
+
+  // Atualiza campos editáveis do pedido (forma de pagamento, frete e/ou taxas)
+  // PATCH /api/orders/:orderId/:source
+  // body: { paymentType?: "...", freight?: number | null, commissionFee?|serviceFee?|easyReturnFee?|autoRechargeFee?: number | null,
+  //         feesManual?: false (devolve as taxas para o income/escrow) }
   app.patch('/api/orders/:orderId/:source', express.json(), async (req, res) => {
     try {
       const orderId = decodeURIComponent(String(req.params.orderId ?? '')).trim();
@@ -1918,10 +2640,27 @@ async function main() {
         }
         data.freightManual = true;
       }
+      for (const field of ORDER_FEE_FIELDS) {
+        const v = req.body?.[field];
+        if (v === undefined) continue;
+        if (v === null || v === '') {
+          data[field] = null;
+        } else {
+          const parsed = parseBrNumber(v);
+          if (!Number.isFinite(parsed) || parsed < 0) {
+            return res.status(400).json({ message: `${field} inválido.` });
+          }
+          data[field] = Number(parsed.toFixed(2));
+        }
+        data.feesManual = true;
+      }
+      if (req.body?.feesManual === false && data.feesManual === undefined) data.feesManual = false;
       if (Object.keys(data).length === 0) {
-        return res.status(400).json({ message: 'Informe paymentType e/ou freight.' });
+        return res.status(400).json({ message: 'Informe paymentType, freight e/ou taxas.' });
       }
 
+      const previous = await loadOrderHistoryState(prisma, orderId, source);
+      if (!previous) return res.status(404).json({ message: 'Pedido não encontrado.' });
       const updated = await (prisma as any).order.update({
         where: { orderId_source: { orderId, source } },
         data,
@@ -1931,17 +2670,24 @@ async function main() {
           paymentType: true,
           freight: true,
           freightManual: true,
+          commissionFee: true,
+          serviceFee: true,
+          easyReturnFee: true,
+          autoRechargeFee: true,
+          feesManual: true,
           orderDate: true,
           totalPrice: true,
           status: true,
         },
       });
+      await recordOrderEvent(prisma, { orderId, source, previous, next: data, origin: 'manual' });
       return res.status(200).json({
         ...updated,
         orderDate: updated.orderDate.toISOString(),
         paymentType: updated.paymentType ?? '',
         freight: updated.freight ?? null,
         freightManual: Boolean(updated.freightManual),
+        feesManual: Boolean(updated.feesManual),
       });
     } catch (e: unknown) {
       if (e && typeof e === 'object' && 'code' in e && (e as { code: string }).code === 'P2025') {
@@ -2124,76 +2870,87 @@ async function main() {
     return { ok: true, paymentType, orderDate, status, customerName, freight };
   }
 
-  app.post('/api/orders/manual', express.json(), async (req, res) => {
-    try {
-      const body = req.body ?? {};
-      const source = SOURCE_ATACADO;
-      const header = parseManualOrderHeader(body);
-      if (!header.ok) return res.status(header.status).json({ message: header.message });
-
-      const resolved = await resolveManualOrderItems(Array.isArray(body.items) ? body.items : []);
-      if (!resolved.ok) return res.status(resolved.status).json({ message: resolved.message });
-
-      const mergedLines = resolved.lines;
-      const itemsTotal = mergedLines.reduce((s, l) => s + l.totalPrice, 0);
-      const totalPrice = Number((itemsTotal + (header.freight || 0)).toFixed(2));
-      const quantity = mergedLines.reduce((s, l) => s + l.quantity, 0);
-      const productName = buildManualProductName(header.customerName, mergedLines);
+  /** Cria o pedido manual Atacado (com itens e evento na linha do tempo); usado pela venda WhatsApp e pela troca. */
+  async function createManualOrder(
+    body: any,
+    detail = 'Venda WhatsApp',
+  ): Promise<{ ok: true; order: any } | { ok: false; status: number; message: string }> {
+    const source = SOURCE_ATACADO;
+    const header = parseManualOrderHeader(body);
+    if (!header.ok) return header;
+
+    const resolved = await resolveManualOrderItems(Array.isArray(body.items) ? body.items : []);
+    if (!resolved.ok) return resolved;
+
+    const mergedLines = resolved.lines;
+    const itemsTotal = mergedLines.reduce((s, l) => s + l.totalPrice, 0);
+    const totalPrice = Number((itemsTotal + (header.freight || 0)).toFixed(2));
+    const quantity = mergedLines.reduce((s, l) => s + l.quantity, 0);
+    const productName = buildManualProductName(header.customerName, mergedLines);
+
+    let orderId = String(body.orderId ?? '').trim();
+    if (!orderId) {
+      const stamp = new Date()
+        .toISOString()
+        .replace(/[-:TZ.]/g, '')
+        .slice(0, 14);
+      orderId = `WA-${stamp}`;
+    }
 
-      let orderId = String(body.orderId ?? '').trim();
-      if (!orderId) {
-        const stamp = new Date()
-          .toISOString()
-          .replace(/[-:TZ.]/g, '')
-          .slice(0, 14);
-        orderId = `WA-${stamp}`;
-      }
+    const existing = await prisma.order.findUnique({
+      where: { orderId_source: { orderId, source } },
+    });
+    if (existing) {
+      return { ok: false, status: 409, message: `Já existe pedido ${orderId} no Atacado.` };
+    }
 
-      const existing = await prisma.order.findUnique({
-        where: { orderId_source: { orderId, source } },
+    await prisma.$transaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          orderId,
+          source,
+          orderDate: header.orderDate,
+          status: header.status,
+          totalPrice,
+          quantity: quantity || 1,
+          productName,
+          freight: header.freight,
+          freightManual: header.freight != null,
+          paymentType: header.paymentType,
+        },
       });
-      if (existing) {
-        return res.status(409).json({ message: `Já existe pedido ${orderId} no Atacado.` });
-      }
-
-      await prisma.$transaction(async (tx) => {
-        await tx.order.create({
+      await recordOrderEvent(tx, { orderId, source, previous: null, next: created, origin: 'manual', detail });
+      for (const line of mergedLines) {
+        await (tx as any).orderItem.create({
           data: {
             orderId,
             source,
-            orderDate: header.orderDate,
-            status: header.status,
-            totalPrice,
-            quantity: quantity || 1,
-            productName,
-            freight: header.freight,
-            freightManual: header.freight != null,
-            paymentType: header.paymentType,
+            productCode: line.productCode,
+            name: line.name,
+            unitPrice: line.unitPrice,
+            quantity: line.quantity,
+            totalPrice: line.totalPrice,
+            discount: 0,
+            sellerDiscount: 0,
+            platformDiscount: 0,
+            productId: line.productId,
           },
         });
-        for (const line of mergedLines) {
-          await (tx as any).orderItem.create({
-            data: {
-              orderId,
-              source,
-              productCode: line.productCode,
-              name: line.name,
-              unitPrice: line.unitPrice,
-              quantity: line.quantity,
-              totalPrice: line.totalPrice,
-              discount: 0,
-              sellerDiscount: 0,
-              platformDiscount: 0,
-              productId: line.productId,
-            },
-          });
-        }
-      });
+      }
+    });
 
-      const created = await prisma.order.findUnique({
-        where: { orderId_source: { orderId, source } },
-        include: { items: true },
-      });
+    const order = await prisma.order.findUnique({
+      where: { orderId_source: { orderId, source } },
+      include: { items: true },
+    });
+    return { ok: true, order };
+  }
+
+  app.post('/api/orders/manual', express.json(), async (req, res) => {
+    try {
+      const result = await createManualOrder(req.body ?? {});
+      if (!result.ok) return res.status(result.status).json({ message: result.message });
+      const created = result.order;
 
       return res.status(201).json({
         ...created,
@@ -2289,18 +3046,27 @@ async function main() {
         await (tx as any).orderItem.deleteMany({
           where: { orderId, source: SOURCE_ATACADO },
         });
+        const next = {
+          orderDate: header.orderDate,
+          status: header.status,
+          totalPrice,
+          quantity: quantity || 1,
+          productName,
+          freight: header.freight,
+          freightManual: header.freight != null,
+          paymentType: header.paymentType,
+        };
         await tx.order.update({
           where: { orderId_source: { orderId, source: SOURCE_ATACADO } },
-          data: {
-            orderDate: header.orderDate,
-            status: header.status,
-            totalPrice,
-            quantity: quantity || 1,
-            productName,
-            freight: header.freight,
-            freightManual: header.freight != null,
-            paymentType: header.paymentType,
-          },
+          data: next,
+        });
+        await recordOrderEvent(tx, {
+          orderId,
+          source: SOURCE_ATACADO,
+          previous: existing,
+          next,
+          origin: 'manual',
+          detail: 'Venda WhatsApp',
         });
         for (const line of mergedLines) {
           await (tx as any).orderItem.create({
@@ -2338,9 +3104,9 @@ async function main() {
     }
   });
 
-  // Remove registros por origem (ex.: ?source=tray)
+  // Remove registros por origem (ex.: ?source=tray); vão para a lixeira (/api/order-trash) com itens e devoluções
   // Opcional: ?from=2026-06&to=2026-06 (filtro por orderDate, mês inclusive)
-  // Opcional: ?dryRun=1 (apenas lista, não apaga)
+  // Opcional: ?dryRun=1 (apenas lista, não apaga) · ?deletedBy=nome (ou header X-User) para o registro da exclusão
   app.delete('/api/orders', async (req, res) => {
     try {
       const source = String(req.query.source ?? '').trim().toLowerCase();
@@ -2385,10 +3151,16 @@ async function main() {
         });
       }
 
-      const result = await prisma.order.deleteMany({ where });
+      const deletion = await trashOrders(prisma, {
+        where,
+        source,
+        filter: { source, from: fromStr || null, to: fromStr ? toStr : null },
+        deletedBy: deletedByOf(req),
+      });
       return res.status(200).json({
-        message: 'Removido com sucesso.',
-        deleted: result.count,
+        message: 'Pedidos movidos para a lixeira.',
+        deleted: deletion.orderCount,
+        deletionId: deletion.id,
         source,
         from: fromStr || null,
         to: toStr || null,
@@ -2399,19 +3171,19 @@ async function main() {
     }
   });
 
-  // Remove itens/produtos por origem (ex.: ?source=tray)
+  // Remove itens/produtos por origem (ex.: ?source=tray); vão para a lixeira como os pedidos
   app.delete('/api/order-items', async (req, res) => {
     try {
       const source = String(req.query.source ?? '').trim().toLowerCase();
       if (!source) return res.status(400).json({ message: 'Informe ?source=...' });
 
-      const prismaAny = prisma as any;
-      if (!prismaAny.orderItem) {
-        return res.status(500).json({ message: 'Model OrderItem não disponível no Prisma Client. Rode prisma generate.' });
-      }
-
-      const result = await prismaAny.orderItem.deleteMany({ where: { source } });
-      return res.status(200).json({ message: 'Itens removidos com sucesso.', deleted: result.count, source });
+      const deletion = await trashOrderItems(prisma, { source, deletedBy: deletedByOf(req) });
+      return res.status(200).json({
+        message: 'Itens movidos para a lixeira.',
+        deleted: deletion.itemCount,
+        deletionId: deletion.id,
+        source,
+      });
     } catch (e) {
       console.error(e);
       return res.status(500).json({ message: 'Erro ao remover itens.' });
@@ -2457,15 +3229,12 @@ async function main() {
       if (!month) return res.status(400).json({ message: 'month inválido. Use YYYY-MM (ex: 2026-01).' });
       if (!channel) return res.status(400).json({ message: 'channel obrigatório.' });
 
-      const prismaAny = prisma as any;
-      if (!prismaAny.adSpend) return res.status(500).json({ message: 'Model AdSpend não disponível. Rode prisma generate.' });
+      if (!Number.isFinite(amount) || amount < 0) return res.status(400).json({ message: 'amount inválido.' });
 
-      const row = await prismaAny.adSpend.upsert({
-        where: { month_channel: { month, channel } },
-        update: { amount, notes },
-        create: { month, channel, amount, notes },
-      });
-      return res.status(200).json(row);
+      // Vira linha diária "mensal": o AdSpend do mês é sempre a soma das linhas diárias
+      const result = await writeManualAdSpend(prisma, channel, month, amount, notes);
+      if ('error' in result) return res.status(400).json({ message: result.error });
+      return res.status(200).json(result.row);
     } catch (e) {
       console.error(e);
       return res.status(500).json({ message: 'Erro ao salvar gasto de ADS.' });
@@ -2481,10 +3250,14 @@ async function main() {
       if (!month) return res.status(400).json({ message: 'month inválido. Use YYYY-MM.' });
       if (!channel) return res.status(400).json({ message: 'channel obrigatório.' });
 
+      // Linhas diárias do mês saem junto; sem isso o próximo rollup traria o gasto de volta
       const prismaAny = prisma as any;
-      await prismaAny.adSpend.delete({
-        where: { month_channel: { month, channel } },
-      });
+      await prisma.$transaction([
+        prismaAny.adSpendDaily.deleteMany({
+          where: { channel, date: { gte: month, lt: new Date(month.getFullYear(), month.getMonth() + 1, 1) } },
+        }),
+        prismaAny.adSpend.delete({ where: { month_channel: { month, channel } } }),
+      ]);
       return res.status(200).json({ message: 'Removido com sucesso.' });
     } catch (e: any) {
       if (String(e?.code || '') === 'P2025') {
@@ -2507,7 +3280,10 @@ async function main() {
       if (!prismaAny.adSpend) {
         return res.status(500).json({ message: 'Model AdSpend não disponível.' });
       }
-      const result = await prismaAny.adSpend.deleteMany({});
+      const [, result] = await prisma.$transaction([
+        prismaAny.adSpendDaily.deleteMany({}),
+        prismaAny.adSpend.deleteMany({}),
+      ]);
       return res.status(200).json({
         message: 'Todos os registros de ADS foram removidos.',
         deleted: result.count,
@@ -2518,374 +3294,331 @@ async function main() {
     }
   });
 
-  // Importação de ADS por planilha (inicialmente Shopee)
-  // POST /api/adspend/import (multipart/form-data: channel, file)
-  app.post('/api/adspend/import', (req, res) => {
-    const form = formidable({ multiples: false, keepExtensions: true });
-
-    form.parse(req, async (err: unknown, fields: FormFields, files: FormFiles) => {
-      if (err) return res.status(500).json({ message: 'Erro no form.' });
-
-      try {
-        const { file } = getFileFromFormidable(files);
-        if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
-
-        const filepath = getFilePath(file);
-        if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
-
-        const channel = String(first((fields as any).channel) ?? '')
-          .trim()
-          .toLowerCase();
-
-        const mode = String(first((fields as any).mode) ?? 'replace')
-          .trim()
-          .toLowerCase(); // replace | add
-        const dryRunRaw = String(first((fields as any).dryRun) ?? '')
-          .trim()
-          .toLowerCase();
-        const dryRun = dryRunRaw === '1' || dryRunRaw === 'true' || dryRunRaw === 'yes';
-
-        if (!channel) return res.status(400).json({ message: 'channel obrigatório.' });
-        if (channel !== 'shopee') return res.status(400).json({ message: 'Por enquanto, a importação suporta apenas o canal shopee.' });
-        if (mode !== 'replace' && mode !== 'add') return res.status(400).json({ message: 'mode inválido. Use replace | add.' });
-
-        const { byMonth, matchedRows, total, message } = parseShopeeAdsWalletReport(filepath);
-        if (message) return res.status(400).json({ message });
-        if (byMonth.size === 0) {
-          return res.status(200).json({ message: 'Nenhuma linha de ADS encontrada no arquivo.', dryRun, mode, matchedRows, total, months: [] });
-        }
-
-        const prismaAny = prisma as any;
-        if (!prismaAny.adSpend) return res.status(500).json({ message: 'Model AdSpend não disponível. Rode prisma generate.' });
+  /**
+   * Relatório de campanhas Meta Ads / Google Ads → AdSpendDaily (por dia e campanha) e AdSpend do mês.
+   * replace: substitui só os dias presentes no arquivo (reimportar o mesmo período não duplica);
+   * add: soma ao que já existe.
+   */
+  async function importExternalAdsReport(
+    channel: ExternalAdsChannel,
+    filepath: string,
+    mode: string,
+    dryRun: boolean,
+    res: ImportJobResponder,
+    progress?: ImportJobProgress,
+  ) {
+    await progress?.phase('reading', 10);
+    const { rows, dataRows, skipped, message } = readExternalAdsReport(filepath, channel);
+    if (message) return res.status(400).json({ message });
+    if (rows.length === 0) {
+      return res.status(200).json({ message: 'Nenhuma linha com gasto encontrada no arquivo.', channel, dryRun, mode, matchedRows: 0, skipped, total: 0, months: [] });
+    }
 
-        const monthKeys = [...byMonth.keys()].filter(Boolean).sort((a, b) => a.localeCompare(b));
-        const monthDates = monthKeys
-          .map((k) => ({ k, d: monthStartFromYYYYMM(k) }))
-          .filter((x): x is { k: string; d: Date } => !!x.d);
+    const prismaAny = prisma as any;
+    const byMonth = new Map<string, number>();
+    const fileDays = new Set<number>();
+    for (const r of rows) {
+      const k = dayKey(r.date).slice(0, 7);
+      byMonth.set(k, (byMonth.get(k) || 0) + r.spend);
+      fileDays.add(r.date.getTime());
+    }
+    const monthDates = [...byMonth.keys()]
+      .sort((a, b) => a.localeCompare(b))
+      .map((k) => ({ k, d: monthStartFromYYYYMM(k) }))
+      .filter((x): x is { k: string; d: Date } => !!x.d);
+    const rangeStart = monthDates[0].d;
+    const lastMonth = monthDates[monthDates.length - 1].d;
+    const rangeEnd = new Date(lastMonth.getFullYear(), lastMonth.getMonth() + 1, 1);
+
+    await progress?.phase('comparing', 45);
+    const [existingMonthly, existingDaily] = await Promise.all([
+      prismaAny.adSpend.findMany({ where: { channel, month: { in: monthDates.map((x) => x.d) } } }),
+      prismaAny.adSpendDaily.findMany({
+        where: { channel, date: { gte: rangeStart, lt: rangeEnd } },
+        select: { date: true, spend: true, campaignId: true },
+      }),
+    ]);
+    const existingByKey = new Map<string, number>();
+    for (const r of existingMonthly || []) existingByKey.set(dayKey(new Date(r.month)).slice(0, 7), Number(r.amount || 0));
+    // Gasto diário já gravado fora dos dias do arquivo e o lançamento manual (permanecem no modo replace)
+    const keptByKey = new Map<string, number>();
+    const monthsWithDaily = new Set<string>();
+    for (const r of existingDaily || []) {
+      const date = new Date(r.date);
+      const k = dayKey(date).slice(0, 7);
+      monthsWithDaily.add(k);
+      if (!fileDays.has(date.getTime()) || r.campaignId === MANUAL_MONTH_CAMPAIGN_ID) keptByKey.set(k, (keptByKey.get(k) || 0) + Number(r.spend || 0));
+    }
 
-        const existingRows = await prismaAny.adSpend.findMany({
-          where: { channel, month: { in: monthDates.map((x) => x.d) } },
-        });
-        const existingByKey = new Map<string, number>();
-        for (const r of existingRows || []) {
-          const dt = (r as any).month as Date;
-          const k = `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, '0')}`;
-          existingByKey.set(k, Number((r as any).amount || 0));
-        }
+    const monthsOut: Array<{ month: string; imported: number; existing: number; result: number }> = [];
+    for (const { k } of monthDates) {
+      const imported = Number((byMonth.get(k) || 0).toFixed(2));
+      const existing = Number(existingByKey.get(k) || 0);
+      const result = mode === 'add' ? existing + imported : (keptByKey.get(k) || 0) + imported;
+      monthsOut.push({ month: k, imported, existing, result: Number(result.toFixed(2)) });
+    }
 
-        const monthsOut: Array<{ month: string; imported: number; existing: number; result: number }> = [];
-        for (const { k, d } of monthDates) {
-          const imported = Number(byMonth.get(k) || 0);
-          const existing = Number(existingByKey.get(k) || 0);
-          const result = mode === 'add' ? Number((existing + imported).toFixed(2)) : imported;
-          monthsOut.push({ month: k, imported, existing, result });
+    if (!dryRun) {
+      await progress?.phase('writing', 75);
+      const dailyRows: AdSpendDailyInput[] = [...rows];
+      if (mode === 'add') {
+        // Mês lançado só como total em Cadastro ADS: vira uma linha para a soma continuar valendo
+        for (const m of monthsOut) {
+          const month = monthStartFromYYYYMM(m.month);
+          if (!month || m.existing <= 0 || monthsWithDaily.has(m.month)) continue;
+          dailyRows.push({ date: month, campaignId: LEGACY_MONTH_CAMPAIGN_ID, campaignName: 'Total mensal anterior', spend: m.existing });
         }
-
-        if (!dryRun) {
-          for (const m of monthsOut) {
-            const month = monthStartFromYYYYMM(m.month);
-            if (!month) continue;
-            await prismaAny.adSpend.upsert({
-              where: { month_channel: { month, channel } },
-              update: {
-                amount: m.result,
-                notes: `Import Shopee (${mode === 'add' ? 'somar' : 'sobrescrever'}): Pagamento no Saldo da Carteira - Recarga por compra de ADS`,
-              },
-              create: {
-                month,
-                channel,
-                amount: m.result,
-                notes: `Import Shopee (${mode === 'add' ? 'somar' : 'sobrescrever'}): Pagamento no Saldo da Carteira - Recarga por compra de ADS`,
-              },
-            });
-          }
-        }
-
-        const totalResult = Number(monthsOut.reduce((a, m) => a + (m.result || 0), 0).toFixed(2));
-        return res.status(200).json({
-          message: dryRun ? 'Pré-visualização concluída.' : 'Importação concluída.',
-          channel,
-          dryRun,
-          mode,
-          matchedRows,
-          total,
-          totalResult,
-          months: monthsOut,
-        });
-      } catch (e) {
-        console.error(e);
-        return res.status(500).json({ message: 'Erro ao importar ADS por planilha.' });
       }
-    });
-  });
+      const label = channel === 'meta' ? 'Meta Ads' : 'Google Ads';
+      await writeAdSpendDaily(prisma, channel, dailyRows, {
+        mode: mode === 'add' ? 'add' : 'replaceDays',
+        origin: 'import',
+        notes: `Import ${label} (${mode === 'add' ? 'somar' : 'sobrescrever dias'}): relatório de campanhas`,
+      });
+    }
 
-  // Importação income / onhold TikTok Shop (xlsx, auto-detecção de aba)
-  // POST /api/tiktok/income/import (multipart: file)
-  app.post('/api/tiktok/income/import', (req, res) => {
-    const form = formidable({ multiples: false, keepExtensions: true });
+    const total = Number([...byMonth.values()].reduce((a, b) => a + b, 0).toFixed(2));
+    const totalResult = Number(monthsOut.reduce((a, m) => a + (m.result || 0), 0).toFixed(2));
+    return res.status(200).json({
+      message: dryRun ? 'Pré-visualização concluída.' : 'Importação concluída.',
+      channel,
+      dryRun,
+      mode,
+      matchedRows: rows.length,
+      dataRows,
+      skipped,
+      campaigns: new Set(rows.map((r) => r.campaignId)).size,
+      total,
+      totalResult,
+      months: monthsOut,
+    });
+  }
 
-    form.parse(req, async (err: unknown, _fields: FormFields, files: FormFiles) => {
-      if (err) return res.status(500).json({ message: 'Erro no form.' });
+  // Importação de ADS por planilha: carteira Shopee e relatórios de campanhas Meta Ads / Google Ads
+  // POST /api/adspend/import (multipart/form-data: channel, mode, dryRun, file)
+  /** Import de ADS por planilha (rota síncrona e worker de importações). */
+  const handleAdSpendImport: ImportJobHandler = async (fields, files, res, progress) => {
+    try {
+      const { file } = getFileFromFormidable(files);
+      if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+
+      const filepath = getFilePath(file);
+      if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+
+      const channel = String(first((fields as any).channel) ?? '')
+        .trim()
+        .toLowerCase();
+
+      const mode = String(first((fields as any).mode) ?? 'replace')
+        .trim()
+        .toLowerCase(); // replace | add
+      const dryRunRaw = String(first((fields as any).dryRun) ?? '')
+        .trim()
+        .toLowerCase();
+      const dryRun = dryRunRaw === '1' || dryRunRaw === 'true' || dryRunRaw === 'yes';
 
-      try {
-        const { file } = getFileFromFormidable(files);
-        if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
-
-        const filepath = getFilePath(file);
-        if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
-
-        const dryRunRaw = String(first((_fields as any).dryRun) ?? '').trim().toLowerCase();
-        const dryRun = dryRunRaw === '1' || dryRunRaw === 'true' || dryRunRaw === 'yes';
-
-        const incomeResult = parseTikTokIncomeReport(filepath);
-
-        if (!incomeResult.message) {
-          const { orders: settledOrders, rawRows, orderRows } = incomeResult;
-
-          if (settledOrders.length === 0) {
-            return res.status(200).json({
-              message: 'Nenhum pedido liquidado encontrado na aba Detalhes do pedido.',
-              importType: 'settled',
-              dryRun,
-              rawRows,
-              orderRows,
-              matched: 0,
-              notFound: 0,
-              updated: 0,
-              skippedSettled: 0,
-            });
-          }
+      if (!channel) return res.status(400).json({ message: 'channel obrigatório.' });
+      if (mode !== 'replace' && mode !== 'add') return res.status(400).json({ message: 'mode inválido. Use replace | add.' });
+      if (isExternalAdsChannel(channel)) return importExternalAdsReport(channel, filepath, mode, dryRun, res, progress);
+      if (channel !== 'shopee') return res.status(400).json({ message: 'A importação suporta os canais shopee, meta e google.' });
+
+      await progress?.phase('reading', 10);
+      const { byMonth, byDay, matchedRows, total, message } = parseShopeeAdsWalletReport(filepath);
+      if (message) return res.status(400).json({ message });
+      if (byMonth.size === 0) {
+        return res.status(200).json({ message: 'Nenhuma linha de ADS encontrada no arquivo.', dryRun, mode, matchedRows, total, months: [] });
+      }
 
-          const orderIds = settledOrders.map((o) => o.orderId);
-          const existing = await prisma.order.findMany({
-            where: { source: 'tiktok', orderId: { in: orderIds } },
-            select: { orderId: true },
-          });
-          const existingSet = new Set(existing.map((o) => o.orderId));
-
-          let updated = 0;
-          const notFoundIds: string[] = [];
-
-          if (!dryRun) {
-            for (const row of settledOrders) {
-              if (!existingSet.has(row.orderId)) {
-                notFoundIds.push(row.orderId);
-                continue;
-              }
-              await prisma.order.update({
-                where: { orderId_source: { orderId: row.orderId, source: 'tiktok' } },
-                data: {
-                  settlementAmount: row.settlementAmount,
-                  commissionFee: row.commissionFee,
-                  serviceFee: row.serviceFee,
-                  partnerCommission: row.partnerCommission,
-                  paymentId: row.paymentId || '',
-                  estimatedSettlementAmount: null,
-                },
-              });
-              updated++;
-            }
-          }
+      const prismaAny = prisma as any;
+      if (!prismaAny.adSpend) return res.status(500).json({ message: 'Model AdSpend não disponível. Rode prisma generate.' });
 
-          const matched = settledOrders.filter((o) => existingSet.has(o.orderId)).length;
-          const notFound = settledOrders.length - matched;
+      const monthKeys = [...byMonth.keys()].filter(Boolean).sort((a, b) => a.localeCompare(b));
+      const monthDates = monthKeys
+        .map((k) => ({ k, d: monthStartFromYYYYMM(k) }))
+        .filter((x): x is { k: string; d: Date } => !!x.d);
 
-          return res.status(200).json({
-            message: dryRun
-              ? 'Pré-visualização concluída (liquidados).'
-              : `Liquidação TikTok aplicada em ${updated} pedido(s).`,
-            importType: 'settled',
-            dryRun,
-            rawRows,
-            orderRows,
-            ordersInFile: settledOrders.length,
-            matched,
-            notFound,
-            updated: dryRun ? 0 : updated,
-            skippedSettled: 0,
-            notFoundSample: notFoundIds.slice(0, 20),
-            preview: dryRun
-              ? settledOrders.slice(0, 10).map((o) => ({
-                  orderId: o.orderId,
-                  paymentId: o.paymentId,
-                  settlementAmount: o.settlementAmount,
-                  commissionFee: o.commissionFee,
-                  serviceFee: o.serviceFee,
-                  partnerCommission: o.partnerCommission,
-                  exists: existingSet.has(o.orderId),
-                }))
-              : undefined,
-          });
-        }
+      await progress?.phase('comparing', 45);
+      const [existingRows, manualRows] = await Promise.all([
+        prismaAny.adSpend.findMany({
+          where: { channel, month: { in: monthDates.map((x) => x.d) } },
+        }),
+        prismaAny.adSpendDaily.findMany({
+          where: { channel, campaignId: MANUAL_MONTH_CAMPAIGN_ID, date: { in: monthDates.map((x) => x.d) } },
+          select: { date: true, spend: true },
+        }),
+      ]);
+      const existingByKey = new Map<string, number>();
+      for (const r of existingRows || []) {
+        const dt = (r as any).month as Date;
+        const k = `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, '0')}`;
+        existingByKey.set(k, Number((r as any).amount || 0));
+      }
+      // Lançamento manual do mês continua somado no modo replace
+      const manualByKey = new Map<string, number>();
+      for (const r of manualRows || []) manualByKey.set(dayKey(new Date(r.date)).slice(0, 7), Number(r.spend || 0));
+
+      const monthsOut: Array<{ month: string; imported: number; existing: number; result: number }> = [];
+      for (const { k, d } of monthDates) {
+        const imported = Number(byMonth.get(k) || 0);
+        const existing = Number(existingByKey.get(k) || 0);
+        const result = Number((mode === 'add' ? existing + imported : (manualByKey.get(k) || 0) + imported).toFixed(2));
+        monthsOut.push({ month: k, imported, existing, result });
+      }
 
-        const onholdResult = parseTikTokOnholdReport(filepath);
-        if (onholdResult.message) {
-          return res.status(400).json({
-            message: `${incomeResult.message} ${onholdResult.message}`.trim(),
-          });
+      if (!dryRun) {
+        await progress?.phase('writing', 75);
+        const dailyRows: AdSpendDailyInput[] = [];
+        for (const [k, amount] of byDay) {
+          const date = dateFromDayKey(k);
+          if (date) dailyRows.push({ date, spend: amount });
         }
-
-        if (onholdResult.orders.length === 0) {
-          return res.status(200).json({
-            message:
-              'Nenhum pedido encontrado. Use income (aba Detalhes do pedido) ou onhold (Pedidos não liquidados e ajuste).',
-            importType: 'onhold',
-            dryRun,
-            rawRows: onholdResult.rawRows,
-            orderRows: onholdResult.orderRows,
-            matched: 0,
-            notFound: 0,
-            updated: 0,
-            skippedSettled: 0,
+        if (mode === 'add') {
+          // Mês lançado só como total (antes do detalhamento diário): vira uma linha para a soma continuar valendo
+          const lastMonth = monthDates[monthDates.length - 1].d;
+          const withDaily = await prismaAny.adSpendDaily.findMany({
+            where: { channel, date: { gte: monthDates[0].d, lt: new Date(lastMonth.getFullYear(), lastMonth.getMonth() + 1, 1) } },
+            select: { date: true },
           });
-        }
-
-        const orderIds = onholdResult.orders.map((o) => o.orderId);
-        const existing = await prisma.order.findMany({
-          where: { source: 'tiktok', orderId: { in: orderIds } },
-          select: { orderId: true, settlementAmount: true },
-        });
-        const existingMap = new Map(existing.map((o) => [o.orderId, o]));
-
-        let updated = 0;
-        let skippedSettled = 0;
-        const notFoundIds: string[] = [];
-
-        if (!dryRun) {
-          for (const row of onholdResult.orders) {
-            const ex = existingMap.get(row.orderId);
-            if (!ex) {
-              notFoundIds.push(row.orderId);
-              continue;
-            }
-            if (ex.settlementAmount != null && Number(ex.settlementAmount) > 0) {
-              skippedSettled++;
-              continue;
-            }
-            await prisma.order.update({
-              where: { orderId_source: { orderId: row.orderId, source: 'tiktok' } },
-              data: {
-                estimatedSettlementAmount: row.estimatedSettlementAmount,
-                commissionFee: row.commissionFee,
-                serviceFee: row.serviceFee,
-                partnerCommission: row.partnerCommission,
-              },
-            });
-            updated++;
+          const monthsWithDaily = new Set(withDaily.map((r: { date: Date }) => dayKey(new Date(r.date)).slice(0, 7)));
+          for (const m of monthsOut) {
+            const month = monthStartFromYYYYMM(m.month);
+            if (!month || m.existing <= 0 || monthsWithDaily.has(m.month)) continue;
+            dailyRows.push({ date: month, campaignId: LEGACY_MONTH_CAMPAIGN_ID, campaignName: 'Total mensal anterior', spend: m.existing });
           }
         }
-
-        const matched = onholdResult.orders.filter((o) => existingMap.has(o.orderId)).length;
-        const notFound = onholdResult.orders.length - matched;
-
-        return res.status(200).json({
-          message: dryRun
-            ? 'Pré-visualização concluída (onhold).'
-            : `Previsão onhold aplicada em ${updated} pedido(s).`,
-          importType: 'onhold',
-          dryRun,
-          rawRows: onholdResult.rawRows,
-          orderRows: onholdResult.orderRows,
-          ordersInFile: onholdResult.orders.length,
-          matched,
-          notFound,
-          updated: dryRun ? 0 : updated,
-          skippedSettled: dryRun ? 0 : skippedSettled,
-          notFoundSample: notFoundIds.slice(0, 20),
-          preview: dryRun
-            ? onholdResult.orders.slice(0, 10).map((o) => ({
-                orderId: o.orderId,
-                estimatedSettlementAmount: o.estimatedSettlementAmount,
-                commissionFee: o.commissionFee,
-                serviceFee: o.serviceFee,
-                partnerCommission: o.partnerCommission,
-                exists: existingMap.has(o.orderId),
-                skippedSettled:
-                  (existingMap.get(o.orderId)?.settlementAmount ?? 0) > 0,
-              }))
-            : undefined,
+        await writeAdSpendDaily(prisma, channel, dailyRows, {
+          mode: mode === 'add' ? 'add' : 'replace',
+          origin: 'import',
+          notes: `Import Shopee (${mode === 'add' ? 'somar' : 'sobrescrever'}): Pagamento no Saldo da Carteira - Recarga por compra de ADS`,
         });
-      } catch (e) {
-        console.error(e);
-        return res.status(500).json({ message: 'Erro ao importar income TikTok.' });
       }
-    });
-  });
 
-  // Importação income / liquidação Shopee (xlsx, aba Renda)
-  // POST /api/shopee/income/import (multipart: file)
-  app.post('/api/shopee/income/import', (req, res) => {
+      const totalResult = Number(monthsOut.reduce((a, m) => a + (m.result || 0), 0).toFixed(2));
+      return res.status(200).json({
+        message: dryRun ? 'Pré-visualização concluída.' : 'Importação concluída.',
+        channel,
+        dryRun,
+        mode,
+        matchedRows,
+        total,
+        totalResult,
+        months: monthsOut,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao importar ADS por planilha.' });
+    }
+  };
+  importJobHandlers.adspend = handleAdSpendImport;
+
+  app.post('/api/adspend/import', (req, res) => {
     const form = formidable({ multiples: false, keepExtensions: true });
 
-    form.parse(req, async (err: unknown, _fields: FormFields, files: FormFiles) => {
+    form.parse(req, async (err: unknown, fields: FormFields, files: FormFiles) => {
       if (err) return res.status(500).json({ message: 'Erro no form.' });
+      if (wantsBackgroundJob(fields)) return enqueueImportJob(res, 'adspend', fields, files);
+      return handleAdSpendImport(fields, files, res);
+    });
+  });
 
-      try {
-        const { file } = getFileFromFormidable(files);
-        if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+  registerAdSpendDailyRoutes(app, { prisma });
+  registerAdSpendAllocationRoutes(app, { prisma });
+  registerReturnCostRoutes(app, { prisma });
+  registerOrderHistoryRoutes(app, { prisma });
+  registerOrderTrashRoutes(app, { prisma });
+
+  // Grava liquidação TikTok (income XLSX e Finance API): settlementAmount/taxas/paymentId por pedido existente
+  async function applyTiktokSettledOrders(
+    settledOrders: TikTokIncomeOrderRow[],
+    dryRun: boolean,
+    detail: string,
+    progress?: ImportJobProgress,
+  ) {
+    const orderIds = settledOrders.map((o) => o.orderId);
+    const existing: any[] = await prisma.order.findMany({
+      where: { source: 'tiktok', orderId: { in: orderIds } },
+      select: { ...ORDER_HISTORY_SELECT, feesManual: true },
+    });
+    const existingMap = new Map(existing.map((o) => [o.orderId as string, o]));
+    const existingSet = new Set(existingMap.keys());
+    const manualFeesSet = new Set(existing.filter((o) => o.feesManual).map((o) => o.orderId as string));
+
+    let updated = 0;
+    const notFoundIds: string[] = [];
+
+    if (!dryRun) {
+      const ops: any[] = [];
+      const events: OrderEventDraft[] = [];
+      for (const row of settledOrders) {
+        if (!existingSet.has(row.orderId)) {
+          notFoundIds.push(row.orderId);
+          continue;
+        }
+        const data = withoutManualFees({
+          settlementAmount: row.settlementAmount,
+          commissionFee: row.commissionFee,
+          serviceFee: row.serviceFee,
+          partnerCommission: row.partnerCommission,
+          paymentId: row.paymentId || '',
+          estimatedSettlementAmount: null,
+        }, manualFeesSet.has(row.orderId));
+        ops.push(prisma.order.update({
+          where: { orderId_source: { orderId: row.orderId, source: 'tiktok' } },
+          data,
+        }));
+        events.push({ orderId: row.orderId, source: 'tiktok', previous: existingMap.get(row.orderId), next: data, origin: 'settlement', detail });
+        updated++;
+      }
+      await progress?.phase('writing', 75);
+      await prisma.$transaction([...ops, ...buildOrderEventsCreate(prisma, events)]);
+    }
+
+    const matched = settledOrders.filter((o) => existingSet.has(o.orderId)).length;
+    return { existingSet, updated, notFoundIds, matched, notFound: settledOrders.length - matched };
+  }
+
+  // Importação income / onhold TikTok Shop (xlsx, auto-detecção de aba)
+  // POST /api/tiktok/income/import (multipart: file)
+  /** Import income/onhold TikTok (rota síncrona e worker de importações). */
+  const handleTiktokIncomeImport: ImportJobHandler = async (fields, files, res, progress) => {
+    try {
+      const { file } = getFileFromFormidable(files);
+      if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
 
-        const filepath = getFilePath(file);
-        if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+      const filepath = getFilePath(file);
+      if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
 
-        const dryRunRaw = String(first((_fields as any).dryRun) ?? '').trim().toLowerCase();
-        const dryRun = dryRunRaw === '1' || dryRunRaw === 'true' || dryRunRaw === 'yes';
+      const dryRunRaw = String(first((fields as any).dryRun) ?? '').trim().toLowerCase();
+      const dryRun = dryRunRaw === '1' || dryRunRaw === 'true' || dryRunRaw === 'yes';
 
-        const result = parseShopeeIncomeReport(filepath);
-        if (result.message) {
-          return res.status(400).json({ message: result.message });
-        }
+      await progress?.phase('reading', 10);
+      const incomeResult = parseTikTokIncomeReport(filepath);
 
-        const { orders: settledOrders, rawRows, orderRows } = result;
+      if (!incomeResult.message) {
+        const { orders: settledOrders, rawRows, orderRows } = incomeResult;
 
         if (settledOrders.length === 0) {
           return res.status(200).json({
-            message: 'Nenhum pedido liquidado encontrado na aba Renda.',
+            message: 'Nenhum pedido liquidado encontrado na aba Detalhes do pedido.',
+            importType: 'settled',
             dryRun,
             rawRows,
             orderRows,
             matched: 0,
             notFound: 0,
             updated: 0,
+            skippedSettled: 0,
           });
         }
 
-        const orderIds = settledOrders.map((o) => o.orderId);
-        const existing = await prisma.order.findMany({
-          where: { source: 'shopee', orderId: { in: orderIds } },
-          select: { orderId: true },
-        });
-        const existingSet = new Set(existing.map((o) => o.orderId));
-
-        let updated = 0;
-        const notFoundIds: string[] = [];
-
-        if (!dryRun) {
-          for (const row of settledOrders) {
-            if (!existingSet.has(row.orderId)) {
-              notFoundIds.push(row.orderId);
-              continue;
-            }
-            await prisma.order.update({
-              where: { orderId_source: { orderId: row.orderId, source: 'shopee' } },
-              data: {
-                settlementAmount: row.settlementAmount,
-                commissionFee: row.commissionFee,
-                serviceFee: row.serviceFee,
-                easyReturnFee: row.easyReturnFee,
-                autoRechargeFee: row.autoRechargeFee,
-              },
-            });
-            updated++;
-          }
-        }
-
-        const matched = settledOrders.filter((o) => existingSet.has(o.orderId)).length;
-        const notFound = settledOrders.length - matched;
+        await progress?.phase('comparing', 45);
+        const { existingSet, updated, notFoundIds, matched, notFound } = await applyTiktokSettledOrders(settledOrders, dryRun, 'Income TikTok (XLSX)', progress);
 
         return res.status(200).json({
           message: dryRun
-            ? 'Pré-visualização concluída (Shopee income).'
-            : `Liquidação Shopee aplicada em ${updated} pedido(s).`,
+            ? 'Pré-visualização concluída (liquidados).'
+            : `Liquidação TikTok aplicada em ${updated} pedido(s).`,
+          importType: 'settled',
           dryRun,
           rawRows,
           orderRows,
@@ -2893,26 +3626,268 @@ async function main() {
           matched,
           notFound,
           updated: dryRun ? 0 : updated,
+          skippedSettled: 0,
           notFoundSample: notFoundIds.slice(0, 20),
           preview: dryRun
             ? settledOrders.slice(0, 10).map((o) => ({
                 orderId: o.orderId,
+                paymentId: o.paymentId,
                 settlementAmount: o.settlementAmount,
                 commissionFee: o.commissionFee,
                 serviceFee: o.serviceFee,
-                easyReturnFee: o.easyReturnFee,
-                autoRechargeFee: o.autoRechargeFee,
-                paymentCompletedAt: o.paymentCompletedAt,
+                partnerCommission: o.partnerCommission,
                 exists: existingSet.has(o.orderId),
               }))
             : undefined,
         });
-      } catch (e) {
-        console.error(e);
-        return res.status(500).json({ message: 'Erro ao importar income Shopee.' });
       }
+
+      const onholdResult = parseTikTokOnholdReport(filepath);
+      if (onholdResult.message) {
+        return res.status(400).json({
+          message: `${incomeResult.message} ${onholdResult.message}`.trim(),
+        });
+      }
+
+      if (onholdResult.orders.length === 0) {
+        return res.status(200).json({
+          message:
+            'Nenhum pedido encontrado. Use income (aba Detalhes do pedido) ou onhold (Pedidos não liquidados e ajuste).',
+          importType: 'onhold',
+          dryRun,
+          rawRows: onholdResult.rawRows,
+          orderRows: onholdResult.orderRows,
+          matched: 0,
+          notFound: 0,
+          updated: 0,
+          skippedSettled: 0,
+        });
+      }
+
+      await progress?.phase('comparing', 45);
+      const orderIds = onholdResult.orders.map((o) => o.orderId);
+      const existing: any[] = await prisma.order.findMany({
+        where: { source: 'tiktok', orderId: { in: orderIds } },
+        select: { ...ORDER_HISTORY_SELECT, feesManual: true },
+      });
+      const existingMap = new Map(existing.map((o) => [o.orderId as string, o]));
+
+      let updated = 0;
+      let skippedSettled = 0;
+      const notFoundIds: string[] = [];
+
+      if (!dryRun) {
+        const ops: any[] = [];
+        const events: OrderEventDraft[] = [];
+        for (const row of onholdResult.orders) {
+          const ex = existingMap.get(row.orderId);
+          if (!ex) {
+            notFoundIds.push(row.orderId);
+            continue;
+          }
+          if (ex.settlementAmount != null && Number(ex.settlementAmount) > 0) {
+            skippedSettled++;
+            continue;
+          }
+          const data = withoutManualFees({
+            estimatedSettlementAmount: row.estimatedSettlementAmount,
+            commissionFee: row.commissionFee,
+            serviceFee: row.serviceFee,
+            partnerCommission: row.partnerCommission,
+          }, ex.feesManual);
+          ops.push(prisma.order.update({
+            where: { orderId_source: { orderId: row.orderId, source: 'tiktok' } },
+            data,
+          }));
+          events.push({ orderId: row.orderId, source: 'tiktok', previous: ex, next: data, origin: 'settlement', detail: 'Onhold TikTok (XLSX)' });
+          updated++;
+        }
+        await progress?.phase('writing', 75);
+        await prisma.$transaction([...ops, ...buildOrderEventsCreate(prisma, events)]);
+      }
+
+      const matched = onholdResult.orders.filter((o) => existingMap.has(o.orderId)).length;
+      const notFound = onholdResult.orders.length - matched;
+
+      return res.status(200).json({
+        message: dryRun
+          ? 'Pré-visualização concluída (onhold).'
+          : `Previsão onhold aplicada em ${updated} pedido(s).`,
+        importType: 'onhold',
+        dryRun,
+        rawRows: onholdResult.rawRows,
+        orderRows: onholdResult.orderRows,
+        ordersInFile: onholdResult.orders.length,
+        matched,
+        notFound,
+        updated: dryRun ? 0 : updated,
+        skippedSettled: dryRun ? 0 : skippedSettled,
+        notFoundSample: notFoundIds.slice(0, 20),
+        preview: dryRun
+          ? onholdResult.orders.slice(0, 10).map((o) => ({
+              orderId: o.orderId,
+              estimatedSettlementAmount: o.estimatedSettlementAmount,
+              commissionFee: o.commissionFee,
+              serviceFee: o.serviceFee,
+              partnerCommission: o.partnerCommission,
+              exists: existingMap.has(o.orderId),
+              skippedSettled:
+                (existingMap.get(o.orderId)?.settlementAmount ?? 0) > 0,
+            }))
+          : undefined,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao importar income TikTok.' });
+    }
+  };
+  importJobHandlers.tiktok_income = handleTiktokIncomeImport;
+
+  app.post('/api/tiktok/income/import', (req, res) => {
+    const form = formidable({ multiples: false, keepExtensions: true });
+
+    form.parse(req, async (err: unknown, fields: FormFields, files: FormFiles) => {
+      if (err) return res.status(500).json({ message: 'Erro no form.' });
+      if (wantsBackgroundJob(fields)) return enqueueImportJob(res, 'tiktok_income', fields, files);
+      return handleTiktokIncomeImport(fields, files, res);
+    });
+  });
+
+  // Importação income / liquidação Shopee (xlsx, aba Renda)
+  // POST /api/shopee/income/import (multipart: file)
+  /** Import income Shopee (rota síncrona e worker de importações). */
+  const handleShopeeIncomeImport: ImportJobHandler = async (fields, files, res, progress) => {
+    try {
+      const { file } = getFileFromFormidable(files);
+      if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+
+      const filepath = getFilePath(file);
+      if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+
+      const dryRunRaw = String(first((fields as any).dryRun) ?? '').trim().toLowerCase();
+      const dryRun = dryRunRaw === '1' || dryRunRaw === 'true' || dryRunRaw === 'yes';
+
+      await progress?.phase('reading', 10);
+      const result = parseShopeeIncomeReport(filepath);
+      if (result.message) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      const { orders: settledOrders, rawRows, orderRows } = result;
+
+      if (settledOrders.length === 0) {
+        return res.status(200).json({
+          message: 'Nenhum pedido liquidado encontrado na aba Renda.',
+          dryRun,
+          rawRows,
+          orderRows,
+          matched: 0,
+          notFound: 0,
+          updated: 0,
+        });
+      }
+
+      await progress?.phase('comparing', 45);
+      const orderIds = settledOrders.map((o) => o.orderId);
+      const existing: any[] = await prisma.order.findMany({
+        where: { source: 'shopee', orderId: { in: orderIds } },
+        select: { ...ORDER_HISTORY_SELECT, feesManual: true },
+      });
+      const existingMap = new Map(existing.map((o) => [o.orderId as string, o]));
+      const existingSet = new Set(existingMap.keys());
+      const manualFeesSet = new Set(existing.filter((o) => o.feesManual).map((o) => o.orderId as string));
+
+      let updated = 0;
+      const notFoundIds: string[] = [];
+
+      if (!dryRun) {
+        const ops: any[] = [];
+        const events: OrderEventDraft[] = [];
+        for (const row of settledOrders) {
+          if (!existingSet.has(row.orderId)) {
+            notFoundIds.push(row.orderId);
+            continue;
+          }
+          const data = withoutManualFees({
+            settlementAmount: row.settlementAmount,
+            commissionFee: row.commissionFee,
+            serviceFee: row.serviceFee,
+            easyReturnFee: row.easyReturnFee,
+            autoRechargeFee: row.autoRechargeFee,
+            reverseShippingFee: row.reverseShippingFee,
+          }, manualFeesSet.has(row.orderId));
+          ops.push(prisma.order.update({
+            where: { orderId_source: { orderId: row.orderId, source: 'shopee' } },
+            data,
+          }));
+          events.push({ orderId: row.orderId, source: 'shopee', previous: existingMap.get(row.orderId), next: data, origin: 'settlement', detail: 'Income Shopee (XLSX)' });
+          updated++;
+        }
+        await progress?.phase('writing', 75);
+        await prisma.$transaction([...ops, ...buildOrderEventsCreate(prisma, events)]);
+      }
+
+      const matched = settledOrders.filter((o) => existingSet.has(o.orderId)).length;
+      const notFound = settledOrders.length - matched;
+
+      return res.status(200).json({
+        message: dryRun
+          ? 'Pré-visualização concluída (Shopee income).'
+          : `Liquidação Shopee aplicada em ${updated} pedido(s).`,
+        dryRun,
+        rawRows,
+        orderRows,
+        ordersInFile: settledOrders.length,
+        matched,
+        notFound,
+        updated: dryRun ? 0 : updated,
+        notFoundSample: notFoundIds.slice(0, 20),
+        preview: dryRun
+          ? settledOrders.slice(0, 10).map((o) => ({
+              orderId: o.orderId,
+              settlementAmount: o.settlementAmount,
+              commissionFee: o.commissionFee,
+              serviceFee: o.serviceFee,
+              easyReturnFee: o.easyReturnFee,
+              autoRechargeFee: o.autoRechargeFee,
+              reverseShippingFee: o.reverseShippingFee,
+              paymentCompletedAt: o.paymentCompletedAt,
+              exists: existingSet.has(o.orderId),
+            }))
+          : undefined,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao importar income Shopee.' });
+    }
+  };
+  importJobHandlers.shopee_income = handleShopeeIncomeImport;
+
+  app.post('/api/shopee/income/import', (req, res) => {
+    const form = formidable({ multiples: false, keepExtensions: true });
+
+    form.parse(req, async (err: unknown, fields: FormFields, files: FormFiles) => {
+      if (err) return res.status(500).json({ message: 'Erro no form.' });
+      if (wantsBackgroundJob(fields)) return enqueueImportJob(res, 'shopee_income', fields, files);
+      return handleShopeeIncomeImport(fields, files, res);
+    });
+  });
+
+  // Extrato da carteira Shopee (my_balance_transaction_report) + conciliação de repasses/saques
+  // POST /api/shopee/balance/import (multipart: file, dryRun)
+  const handleShopeeBalanceImport = createShopeeBalanceImportHandler({ prisma, getFileFromFormidable, getFilePath });
+  importJobHandlers.shopee_balance = handleShopeeBalanceImport;
+
+  app.post('/api/shopee/balance/import', (req, res) => {
+    const form = formidable({ multiples: false, keepExtensions: true });
+
+    form.parse(req, async (err: unknown, fields: FormFields, files: FormFiles) => {
+      if (err) return res.status(500).json({ message: 'Erro no form.' });
+      if (wantsBackgroundJob(fields)) return enqueueImportJob(res, 'shopee_balance', fields, files);
+      return handleShopeeBalanceImport(fields, files, res);
     });
   });
+  registerShopeeBalanceRoutes(app, { prisma });
 
   // Taxas por tipo de pagamento (Tray)
   // GET /api/payment-type-fees?month=2026-01&channel=tray
@@ -4023,7 +4998,7 @@ async function main() {
   });
 
   // Simulação P&L por mês e canal
-  // GET /api/simulation?month=2026-01&channel=shopee|tiktok|tray|tray_atacado|tray_varejo|all
+  // GET /api/simulation?month=2026-01&channel=shopee|tiktok|mercadolivre|tray|tray_atacado|tray_varejo|all
   app.get('/api/simulation', async (req, res) => {
     try {
       const monthStr = String(req.query.month ?? '').trim();
@@ -4300,9 +5275,10 @@ async function main() {
 
       const orderWhere = buildSimulationOrderWhere(monthStart, channel);
       // Frete só entra na simulação para fontes Tray (incluindo atacado/varejo).
+      // Mercado Livre: custo de envio já entra em taxasMercadoLivre.
       if (channel === 'all') {
         orderWhere.source = { in: [...TRAY_ORDER_SOURCES_LIST] };
-      } else if (channel === 'shopee' || channel === 'tiktok') {
+      } else if (channel === 'shopee' || channel === 'tiktok' || channel === SOURCE_MERCADO_LIVRE) {
         return res.status(200).json({
           month: monthStr,
           channel,
@@ -4407,6 +5383,7 @@ async function main() {
           estimatedSettlementAmount: (o as { estimatedSettlementAmount?: number | null })
             .estimatedSettlementAmount,
           paymentId: (o as { paymentId?: string | null }).paymentId,
+          shippingFee: o.source === SOURCE_MERCADO_LIVRE ? o.freight : null,
           items: o.items,
         });
         const profit = computeOrderProfitBreakdown({
@@ -4463,12 +5440,13 @@ async function main() {
     }
   });
 
-  // Dashboard ADS (ROAS) baseado em Orders + AdSpend
-  // GET /api/ads-dashboard?from=2026-01&to=2026-12
+  // Dashboard ADS (ROAS / ACOS) baseado em Orders + AdSpend (mês) + AdSpendDaily (dia e campanha)
+  // GET /api/ads-dashboard?from=2026-01&to=2026-12[&daily=1]  (daily exige from e to)
   app.get('/api/ads-dashboard', async (req, res) => {
     try {
       const from = req.query.from ? monthStartFromYYYYMM(String(req.query.from)) : null;
       const to = req.query.to ? monthStartFromYYYYMM(String(req.query.to)) : null;
+      const daily = String(req.query.daily ?? '') === '1' && !!from && !!to;
 
       const orderWhere: any = {};
       if (from || to) {
@@ -4479,11 +5457,12 @@ async function main() {
 
       const orders = await prisma.order.findMany({
         where: orderWhere,
-        select: { orderDate: true, source: true, totalPrice: true, status: true },
+        select: { orderDate: true, source: true, totalPrice: true, refundedAmount: true, status: true },
       });
 
       const revenueByMonthChannel = new Map<string, number>(); // YYYY-MM|channel
       const revenueByMonthTotal = new Map<string, number>(); // YYYY-MM
+      const revenueByDayChannel = new Map<string, number>(); // YYYY-MM-DD|channel
 
       for (const o of orders) {
         const status = String(o.status || '').toLowerCase();
@@ -4495,8 +5474,13 @@ async function main() {
         const ym = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
         const ch = String(o.source || '').toLowerCase();
         const key = `${ym}|${ch}`;
-        revenueByMonthChannel.set(key, (revenueByMonthChannel.get(key) || 0) + (o.totalPrice || 0));
-        revenueByMonthTotal.set(ym, (revenueByMonthTotal.get(ym) || 0) + (o.totalPrice || 0));
+        const revenue = orderNetRevenue(o);
+        revenueByMonthChannel.set(key, (revenueByMonthChannel.get(key) || 0) + revenue);
+        revenueByMonthTotal.set(ym, (revenueByMonthTotal.get(ym) || 0) + revenue);
+        if (daily) {
+          const dayChannelKey = `${dayKey(d)}|${ch}`;
+          revenueByDayChannel.set(dayChannelKey, (revenueByDayChannel.get(dayChannelKey) || 0) + revenue);
+        }
       }
 
       const prismaAny = prisma as any;
@@ -4534,29 +5518,106 @@ async function main() {
       for (const k of spendByMonthChannel.keys()) channels.add(k.split('|')[1]);
       const channelsSorted = [...channels].sort();
 
+      // ROAS = receita / gasto; ACOS = gasto / receita
+      const ratio = (num: number, den: number) => (den > 0 ? Number((num / den).toFixed(4)) : null);
+
       const byMonth = monthsSorted.map((ym) => {
         const revenue = Number((revenueByMonthTotal.get(ym) || 0).toFixed(2));
         const spend = Number((spendByMonthTotal.get(ym) || 0).toFixed(2));
-        const roas = spend > 0 ? Number((revenue / spend).toFixed(4)) : null;
 
         const byChannel = channelsSorted.map((ch) => {
           const rev = Number((revenueByMonthChannel.get(`${ym}|${ch}`) || 0).toFixed(2));
           const sp = Number((spendByMonthChannel.get(`${ym}|${ch}`) || 0).toFixed(2));
-          const r = sp > 0 ? Number((rev / sp).toFixed(4)) : null;
-          return { channel: ch, revenue: rev, spend: sp, roas: r };
+          return { channel: ch, revenue: rev, spend: sp, roas: ratio(rev, sp), acos: ratio(sp, rev) };
         });
 
-        return { month: ym, revenue, spend, roas, byChannel };
+        return { month: ym, revenue, spend, roas: ratio(revenue, spend), acos: ratio(spend, revenue), byChannel };
       });
 
       const totalRevenue = Number([...revenueByMonthTotal.values()].reduce((a, b) => a + b, 0).toFixed(2));
       const totalSpend = Number([...spendByMonthTotal.values()].reduce((a, b) => a + b, 0).toFixed(2));
-      const totalRoas = totalSpend > 0 ? Number((totalRevenue / totalSpend).toFixed(4)) : null;
+
+      // Dia a dia: só o gasto detalhado em AdSpendDaily (canais lançados só por mês não aparecem aqui)
+      let byDay: any[] | undefined;
+      if (daily && from && to) {
+        const end = new Date(to.getFullYear(), to.getMonth() + 1, 1);
+        const spendByDayChannel = await loadDailySpendByDayChannel(prisma, from, end);
+        byDay = [];
+        for (let d = new Date(from); d < end; d.setDate(d.getDate() + 1)) {
+          const day = dayKey(d);
+          let revenue = 0;
+          let spend = 0;
+          let attributedRevenue = 0;
+          const dayChannels = channelsSorted.map((ch) => {
+            const rev = revenueByDayChannel.get(`${day}|${ch}`) || 0;
+            const sp = spendByDayChannel.get(`${day}|${ch}`);
+            revenue += rev;
+            spend += sp?.spend || 0;
+            attributedRevenue += sp?.attributedRevenue || 0;
+            return {
+              channel: ch,
+              revenue: Number(rev.toFixed(2)),
+              spend: Number((sp?.spend || 0).toFixed(2)),
+              roas: ratio(rev, sp?.spend || 0),
+              acos: ratio(sp?.spend || 0, rev),
+            };
+          });
+          byDay.push({
+            date: day,
+            revenue: Number(revenue.toFixed(2)),
+            spend: Number(spend.toFixed(2)),
+            attributedRevenue: Number(attributedRevenue.toFixed(2)),
+            roas: ratio(revenue, spend),
+            acos: ratio(spend, revenue),
+            byChannel: dayChannels,
+          });
+        }
+      }
+
+      const campaignWhere: any = {};
+      if (from || to) {
+        campaignWhere.date = {};
+        if (from) campaignWhere.date.gte = from;
+        if (to) campaignWhere.date.lt = new Date(to.getFullYear(), to.getMonth() + 1, 1);
+      }
+      const campaignGroups = await prismaAny.adSpendDaily.groupBy({
+        by: ['channel', 'campaignId', 'campaignName'],
+        where: campaignWhere,
+        _sum: { spend: true, impressions: true, clicks: true, conversions: true, attributedRevenue: true },
+      });
+      const campaigns = (campaignGroups as any[])
+        .map((g) => {
+          const spend = Number((g._sum.spend || 0).toFixed(2));
+          const attributedRevenue = Number((g._sum.attributedRevenue || 0).toFixed(2));
+          const impressions = Number(g._sum.impressions || 0);
+          const clicks = Number(g._sum.clicks || 0);
+          return {
+            channel: g.channel,
+            campaignId: g.campaignId,
+            campaignName: g.campaignName,
+            spend,
+            impressions,
+            clicks,
+            conversions: Number(g._sum.conversions || 0),
+            attributedRevenue,
+            ctr: ratio(clicks, impressions),
+            roas: ratio(attributedRevenue, spend),
+            acos: ratio(spend, attributedRevenue),
+          };
+        })
+        .sort((a, b) => b.spend - a.spend);
 
       return res.status(200).json({
-        kpis: { revenue: totalRevenue, spend: totalSpend, roas: totalRoas },
+        kpis: {
+          revenue: totalRevenue,
+          spend: totalSpend,
+          roas: ratio(totalRevenue, totalSpend),
+          acos: ratio(totalSpend, totalRevenue),
+        },
         channels: channelsSorted,
         byMonth,
+        byDay,
+        campaigns,
       });
     } catch (e) {
       console.error(e);
@@ -4582,7 +5643,7 @@ app.get('/api/dashboard', async (_req, res) => {
 
     sales.forEach(sale => {
       const monthYear = new Date(sale.orderDate).toLocaleDateString('pt-BR', { month: '2-digit', year: '2-digit' });
-      const amount = sale.totalPrice;
+      const amount = orderNetRevenue(sale);
       const source = sale.source;
 
       salesByChannel[source] = (salesByChannel[source] || 0) + amount;
@@ -4593,11 +5654,13 @@ app.get('/api/dashboard', async (_req, res) => {
           name: monthYear,
           shopee: 0,
           tiktok: 0,
+          mercadoLivre: 0,
           trayAtacado: 0,
           trayVarejo: 0,
           total: 0,
           shopeeCount: 0,
           tiktokCount: 0,
+          mercadoLivreCount: 0,
           trayAtacadoCount: 0,
           trayVarejoCount: 0,
           totalCount: 0,
@@ -4611,6 +5674,10 @@ app.get('/api/dashboard', async (_req, res) => {
         salesByMonth[monthYear].tiktok += amount;
         salesByMonth[monthYear].tiktokCount += 1;
       }
+      if (source === SOURCE_MERCADO_LIVRE) {
+        salesByMonth[monthYear].mercadoLivre += amount;
+        salesByMonth[monthYear].mercadoLivreCount += 1;
+      }
       if (isTrayOrderSource(source)) {
         const b = bucketTrayMetrics(source, sale.orderId);
         if (b === 'trayVarejo') {
@@ -4795,17 +5862,19 @@ app.get('/api/dashboard', async (_req, res) => {
           orderDate: { gte: start, lt: end },
           NOT: [...ORDER_STATUS_EXCLUDED_FROM_SALES_METRICS],
         },
-        select: { orderDate: true, source: true, totalPrice: true, orderId: true },
+        select: { orderDate: true, source: true, totalPrice: true, refundedAmount: true, orderId: true },
       });
 
       type DayAgg = {
         shopee: number;
         tiktok: number;
+        mercadoLivre: number;
         trayAtacado: number;
         trayVarejo: number;
         total: number;
         shopeeOrders: number;
         tiktokOrders: number;
+        mercadoLivreOrders: number;
         trayAtacadoOrders: number;
         trayVarejoOrders: number;
         totalOrders: number;
@@ -4813,11 +5882,13 @@ app.get('/api/dashboard', async (_req, res) => {
       const emptyDay = (): DayAgg => ({
         shopee: 0,
         tiktok: 0,
+        mercadoLivre: 0,
         trayAtacado: 0,
         trayVarejo: 0,
         total: 0,
         shopeeOrders: 0,
         tiktokOrders: 0,
+        mercadoLivreOrders: 0,
         trayAtacadoOrders: 0,
         trayVarejoOrders: 0,
         totalOrders: 0,
@@ -4839,7 +5910,7 @@ app.get('/api/dashboard', async (_req, res) => {
           dayKeys.push(key);
           dayKeys.sort();
         }
-        const amt = o.totalPrice || 0;
+        const amt = orderNetRevenue(o);
         byDay[key].total += amt;
         byDay[key].totalOrders += 1;
         if (o.source === 'shopee') {
@@ -4848,6 +5919,9 @@ app.get('/api/dashboard', async (_req, res) => {
         } else if (o.source === 'tiktok') {
           byDay[key].tiktok += amt;
           byDay[key].tiktokOrders += 1;
+        } else if (o.source === SOURCE_MERCADO_LIVRE) {
+          byDay[key].mercadoLivre += amt;
+          byDay[key].mercadoLivreOrders += 1;
         } else if (isTrayOrderSource(o.source)) {
           const b = bucketTrayMetrics(o.source, o.orderId);
           if (b === 'trayVarejo') {
@@ -4861,14 +5935,33 @@ app.get('/api/dashboard', async (_req, res) => {
         }
       }
 
+      // Gasto diário de ADS (AdSpendDaily) → ROAS / ACOS do dia
+      const spendByDayChannel = await loadDailySpendByDayChannel(prisma, start, end);
+      const adSpendByDay = new Map<string, { total: number; shopee: number; tiktok: number }>();
+      for (const [key, t] of spendByDayChannel) {
+        const [day, channel] = key.split('|');
+        const a = adSpendByDay.get(day) ?? { total: 0, shopee: 0, tiktok: 0 };
+        a.total += t.spend;
+        if (channel === 'shopee') a.shopee += t.spend;
+        if (channel === 'tiktok') a.tiktok += t.spend;
+        adSpendByDay.set(day, a);
+      }
+      const ratio = (num: number, den: number) => (den > 0 ? Number((num / den).toFixed(4)) : null);
+
       const rows = dayKeys.map((k) => {
         const b = byDay[k];
+        const ads = adSpendByDay.get(k) ?? { total: 0, shopee: 0, tiktok: 0 };
         return {
           date: k,
           name: new Date(k + 'T12:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' }),
           ...b,
           tray: b.trayAtacado + b.trayVarejo,
           trayOrders: b.trayAtacadoOrders + b.trayVarejoOrders,
+          adSpend: Number(ads.total.toFixed(2)),
+          adSpendShopee: Number(ads.shopee.toFixed(2)),
+          adSpendTiktok: Number(ads.tiktok.toFixed(2)),
+          roas: ratio(b.total, ads.total),
+          acos: ratio(ads.total, b.total),
         };
       });
 
@@ -4879,6 +5972,50 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SINCRONIZAÇÃO AUTOMÁTICA (cron por integração + histórico SyncRun)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const syncScheduler = createSyncScheduler({
+    prisma,
+    runners: {
+      shopee: { ensureToken: (marginMs) => ensureValidToken(marginMs), run: (window) => syncShopeeOrders(window) },
+      tiktok_shop: {
+        ensureToken: (marginMs) => ensureValidTiktokShopToken(marginMs),
+        run: (window) => syncTiktokShopOrders(window),
+      },
+      tiktok_ads: { run: (window) => syncTiktokAdsSpend(window) },
+    },
+  });
+  registerSyncRoutes(app, { prisma, scheduler: syncScheduler });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ENVIO DE ESTOQUE (saldo do produto mestre → anúncios Shopee / TikTok Shop)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const stockPush = createStockPush({
+    prisma,
+    isOrderValidForStock,
+    connectors: {
+      shopee: createShopeeStockConnector({ prisma, ensureToken: () => ensureValidToken() }),
+      tiktok_shop: createTiktokShopStockConnector({ prisma, ensureToken: () => ensureValidTiktokShopToken() }),
+    },
+  });
+  registerStockPushRoutes(app, { prisma, stockPush });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // WEBHOOKS (push das plataformas → reconsulta do pedido)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const webhookQueue = createWebhookQueue({
+    prisma,
+    receivers: {
+      shopee: createShopeeWebhookReceiver({ prisma, refresh: (orderSns) => refreshShopeeOrders(orderSns) }),
+      tiktok_shop: createTiktokShopWebhookReceiver({ prisma, refresh: (orderIds) => refreshTiktokShopOrders(orderIds) }),
+    },
+  });
+  registerWebhookRoutes(app, { prisma, queue: webhookQueue });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SHOPEE OPEN PLATFORM INTEGRATION
   // ═══════════════════════════════════════════════════════════════════════════
@@ -5063,12 +6200,13 @@ app.get('/api/dashboard', async (_req, res) => {
   });
 
   // Helper: ensure valid access token (auto-refresh if needed)
-  async function ensureValidToken() {
+  // marginMs > 0: renova antes de expirar (agendador de sync)
+  async function ensureValidToken(marginMs = 0) {
     const integration = await prisma.shopeeIntegration.findFirst({ orderBy: { id: 'desc' } });
     if (!integration?.accessToken || !integration?.shopId) throw new Error('Integração não conectada.');
 
     const now = new Date();
-    if (integration.tokenExpiresAt && integration.tokenExpiresAt > now) return integration;
+    if (integration.tokenExpiresAt && integration.tokenExpiresAt.getTime() - marginMs > now.getTime()) return integration;
 
     if (!integration.refreshToken || (integration.refreshExpiresAt && integration.refreshExpiresAt < now)) {
       await prisma.shopeeIntegration.update({ where: { id: integration.id }, data: { status: 'expired' } });
@@ -5101,155 +6239,348 @@ app.get('/api/dashboard', async (_req, res) => {
     return updated;
   }
 
-  // Sync orders from Shopee
-  app.post('/api/shopee/sync', express.json(), async (req, res) => {
-    try {
-      const integration = await ensureValidToken();
-      const partnerId = Number(integration.partnerId);
-      const shopId = Number(integration.shopId);
+  // Taxas e valor liquidado via payment/get_escrow_detail (mesmos campos do income XLSX).
+  // Só pedidos sem taxas ainda (ou todos com force); feesManual nunca é sobrescrito.
+  async function applyShopeeEscrowFees(
+    integration: { partnerId: string; partnerKey: string; accessToken: string | null; shopId: string | null },
+    orderSns: string[],
+    opts: { force?: boolean } = {},
+  ) {
+    const existing: any[] = await prisma.order.findMany({
+      where: { source: 'shopee', orderId: { in: orderSns } },
+      select: { ...ORDER_HISTORY_SELECT, feesManual: true },
+    });
+    const skippedManual = existing.filter((o) => o.feesManual).length;
+    const targets = existing
+      .filter((o) => !o.feesManual && (opts.force || o.commissionFee == null || o.settlementAmount == null))
+      .map((o) => o.orderId);
+    if (targets.length === 0) return { checked: 0, updated: 0, skippedManual, errors: [] as string[] };
+
+    const { details, errors } = await shopeeApi.fetchEscrowDetails(
+      Number(integration.partnerId), integration.partnerKey, integration.accessToken!, Number(integration.shopId), targets,
+    );
+    const existingMap = new Map(existing.map((o) => [o.orderId as string, o]));
+    const events: OrderEventDraft[] = [];
+    const ops = details.map((d) => {
+      const fees = shopeeApi.mapEscrowToOrderFees(d);
+      const data = {
+        settlementAmount: fees.settlementAmount,
+        commissionFee: fees.commissionFee,
+        serviceFee: fees.serviceFee,
+        easyReturnFee: fees.easyReturnFee,
+        autoRechargeFee: fees.autoRechargeFee,
+        reverseShippingFee: fees.reverseShippingFee,
+      };
+      events.push({ orderId: d.order_sn, source: 'shopee', previous: existingMap.get(d.order_sn), next: data, origin: 'settlement', detail: 'Escrow API Shopee' });
+      return prisma.order.update({
+        where: { orderId_source: { orderId: d.order_sn, source: 'shopee' } },
+        data,
+      });
+    });
+    if (ops.length > 0) await prisma.$transaction([...ops, ...buildOrderEventsCreate(prisma, events)]);
 
-      // Default: sync last 30 days (or custom date range)
-      const daysBack = Number(req.body.daysBack) || 30;
-      const now = Math.floor(Date.now() / 1000);
-      const timeFrom = req.body.timeFrom ? Number(req.body.timeFrom) : now - daysBack * 24 * 60 * 60;
-      const timeTo = req.body.timeTo ? Number(req.body.timeTo) : now;
+    return {
+      checked: targets.length,
+      updated: ops.length,
+      skippedManual,
+      errors: errors.map((e) => `${e.orderSn} (escrow): ${e.message}`),
+    };
+  }
 
-      // 1. Fetch all order SNs
-      const orderSns = await shopeeApi.fetchAllOrderSns(
-        partnerId, integration.partnerKey, integration.accessToken!, shopId,
-        timeFrom, timeTo,
-      );
+  // Grava um pedido da API (pedido, itens e produtos de canal) — sync por janela e webhook
+  async function upsertShopeeOrder(order: shopeeApi.ShopeeOrderDetail) {
+    const orderId = order.order_sn;
+    const orderDate = new Date(order.create_time * 1000);
+    const statusMap: Record<string, string> = {
+      UNPAID: 'Não pago',
+      READY_TO_SHIP: 'Pronto para envio',
+      PROCESSED: 'Processado',
+      SHIPPED: 'Enviado',
+      COMPLETED: 'Concluído',
+      IN_CANCEL: 'Em cancelamento',
+      CANCELLED: 'Cancelado',
+      INVOICE_PENDING: 'Nota pendente',
+      TO_RETURN: 'Devolvido',
+    };
+    const status = statusMap[order.order_status] || order.order_status;
+    const totalPrice = order.total_amount || 0;
+    const items = order.item_list || [];
+    const productName = items.length > 0
+      ? items.map((i) => i.item_name).join(' + ')
+      : 'Produto Shopee';
+    const quantity = items.reduce((sum, i) => sum + (i.model_quantity_purchased || 1), 0);
+
+    const previous = await loadOrderHistoryState(prisma, orderId, 'shopee');
+    await prisma.order.upsert({
+      where: { orderId_source: { orderId, source: 'shopee' } },
+      update: {
+        orderDate,
+        productName,
+        quantity,
+        totalPrice,
+        status,
+      },
+      create: {
+        orderId,
+        orderDate,
+        productName,
+        quantity,
+        totalPrice,
+        source: 'shopee',
+        status,
+      },
+    });
+    await recordOrderEvent(prisma, {
+      orderId,
+      source: 'shopee',
+      previous,
+      next: { totalPrice, status },
+      origin: 'api',
+      detail: 'Shopee API',
+    });
+    await linkOrderCustomers(prisma, 'shopee', [
+      {
+        orderId,
+        buyer: {
+          document: order.buyer_cpf_id,
+          username: order.buyer_username,
+          phone: order.recipient_address?.phone,
+          city: order.recipient_address?.city,
+          state: order.recipient_address?.state,
+        },
+      },
+    ]);
+
+    // Upsert items with variation support
+    const parentItemIds = new Set<string>();
+    for (const item of items) {
+      const hasVariation = !!item.model_id && !!item.model_name;
+      const productCode = `shopee_${item.item_id}${item.model_id ? '_' + item.model_id : ''}`;
+      const itemName = hasVariation
+        ? `${item.item_name} - ${item.model_name}`
+        : item.item_name;
+      const variationName = hasVariation ? item.model_name : null;
+      const parentCode = hasVariation ? `shopee_item_${item.item_id}` : null;
+      const unitPrice = item.model_discounted_price || item.model_original_price || 0;
+      const qty = item.model_quantity_purchased || 1;
+      const itemSku = item.model_sku || item.item_sku || null;
+
+      await prisma.product.upsert({
+        where: { code: productCode },
+        update: {
+          name: itemName,
+          source: 'shopee',
+          variationName,
+          parentCode,
+          sku: itemSku,
+        },
+        create: {
+          code: productCode,
+          name: itemName,
+          source: 'shopee',
+          variationName,
+          parentCode,
+          sku: itemSku,
+        },
+      });
 
-      if (orderSns.length === 0) {
-        await prisma.shopeeIntegration.update({
-          where: { id: integration.id },
-          data: { lastSyncAt: new Date() },
-        });
-        return res.json({ success: true, synced: 0, total: 0, message: 'Nenhum pedido encontrado no período.' });
+      const product = await prisma.product.findUnique({ where: { code: productCode } });
+
+      await prisma.orderItem.upsert({
+        where: { orderId_source_productCode: { orderId, source: 'shopee', productCode } },
+        update: {
+          name: itemName,
+          unitPrice,
+          quantity: qty,
+          totalPrice: unitPrice * qty,
+          productId: product?.id ?? null,
+        },
+        create: {
+          orderId,
+          source: 'shopee',
+          productCode,
+          name: itemName,
+          unitPrice,
+          quantity: qty,
+          totalPrice: unitPrice * qty,
+          productId: product?.id ?? null,
+        },
+      });
+
+      if (parentCode) parentItemIds.add(`${parentCode}|${item.item_name}`);
+    }
+
+    // Auto-grouping desativado para sync Shopee — manter dados em "Pendentes" para vinculação manual ao SKU mestre.
+    void parentItemIds;
+  }
+
+  // Busca e grava os pedidos Shopee criados na janela (botão "Sincronizar" e agendador)
+  async function syncShopeeOrders(window: SyncWindow): Promise<SyncResult> {
+    const integration = await ensureValidToken();
+    const partnerId = Number(integration.partnerId);
+    const shopId = Number(integration.shopId);
+    const timeFrom = Math.floor(window.from.getTime() / 1000);
+    const timeTo = Math.floor(window.to.getTime() / 1000);
+
+    // 1. Fetch all order SNs
+    const orderSns = await shopeeApi.fetchAllOrderSns(
+      partnerId, integration.partnerKey, integration.accessToken!, shopId,
+      timeFrom, timeTo, window.timeField,
+    );
+
+    if (orderSns.length === 0) {
+      await syncScheduler.advanceLastSyncAt('shopee', integration.id, window, 0);
+      return { fetched: 0, synced: 0, failed: 0, errors: [], message: 'Nenhum pedido encontrado no período.' };
+    }
+
+    // 2. Fetch order details
+    const orders = await shopeeApi.fetchOrderDetails(
+      partnerId, integration.partnerKey, integration.accessToken!, shopId, orderSns,
+    );
+
+    // 3. Upsert into database (um pedido com erro não interrompe os demais)
+    let synced = 0;
+    const errors: string[] = [];
+    for (const order of orders) {
+      try {
+        await upsertShopeeOrder(order);
+        synced++;
+      } catch (e: any) {
+        console.error(`Shopee sync error (${order.order_sn}):`, e);
+        errors.push(`${order.order_sn}: ${e?.message || String(e)}`);
       }
+    }
 
-      // 2. Fetch order details
-      const orders = await shopeeApi.fetchOrderDetails(
-        partnerId, integration.partnerKey, integration.accessToken!, shopId, orderSns,
-      );
+    // 4. Taxas dos pedidos concluídos (escrow) — dispensa o upload do income XLSX
+    const completedSns = orders.filter((o) => o.order_status === 'COMPLETED').map((o) => o.order_sn);
+    const escrow = await applyShopeeEscrowFees(integration, completedSns);
+    errors.push(...escrow.errors);
 
-      // 3. Upsert into database
-      let synced = 0;
-      for (const order of orders) {
-        const orderId = order.order_sn;
-        const orderDate = new Date(order.create_time * 1000);
-        const statusMap: Record<string, string> = {
-          UNPAID: 'Não pago',
-          READY_TO_SHIP: 'Pronto para envio',
-          PROCESSED: 'Processado',
-          SHIPPED: 'Enviado',
-          COMPLETED: 'Concluído',
-          IN_CANCEL: 'Em cancelamento',
-          CANCELLED: 'Cancelado',
-          INVOICE_PENDING: 'Nota pendente',
-        };
-        const status = statusMap[order.order_status] || order.order_status;
-        const totalPrice = order.total_amount || 0;
-        const items = order.item_list || [];
-        const productName = items.length > 0
-          ? items.map((i) => i.item_name).join(' + ')
-          : 'Produto Shopee';
-        const quantity = items.reduce((sum, i) => sum + (i.model_quantity_purchased || 1), 0);
-
-        await prisma.order.upsert({
-          where: { orderId_source: { orderId, source: 'shopee' } },
-          update: {
-            orderDate,
-            productName,
-            quantity,
-            totalPrice,
-            status,
-          },
-          create: {
-            orderId,
-            orderDate,
-            productName,
-            quantity,
-            totalPrice,
-            source: 'shopee',
-            status,
-          },
-        });
+    await syncScheduler.advanceLastSyncAt('shopee', integration.id, window, errors.length);
 
-        // Upsert items with variation support
-        const parentItemIds = new Set<string>();
-        for (const item of items) {
-          const hasVariation = !!item.model_id && !!item.model_name;
-          const productCode = `shopee_${item.item_id}${item.model_id ? '_' + item.model_id : ''}`;
-          const itemName = hasVariation
-            ? `${item.item_name} - ${item.model_name}`
-            : item.item_name;
-          const variationName = hasVariation ? item.model_name : null;
-          const parentCode = hasVariation ? `shopee_item_${item.item_id}` : null;
-          const unitPrice = item.model_discounted_price || item.model_original_price || 0;
-          const qty = item.model_quantity_purchased || 1;
-          const itemSku = item.model_sku || item.item_sku || null;
-
-          await prisma.product.upsert({
-            where: { code: productCode },
-            update: {
-              name: itemName,
-              source: 'shopee',
-              variationName,
-              parentCode,
-              sku: itemSku,
-            },
-            create: {
-              code: productCode,
-              name: itemName,
-              source: 'shopee',
-              variationName,
-              parentCode,
-              sku: itemSku,
-            },
-          });
+    return {
+      fetched: orderSns.length,
+      synced,
+      failed: errors.length,
+      errors,
+      message: escrow.checked > 0 ? `Taxas (escrow) atualizadas em ${escrow.updated} de ${escrow.checked} pedido(s) concluído(s).` : undefined,
+    };
+  }
 
-          const product = await prisma.product.findUnique({ where: { code: productCode } });
+  // Reconsulta pontual de pedidos (webhook): devolve order_sn → erro (null = gravado)
+  async function refreshShopeeOrders(orderSns: string[]): Promise<Map<string, string | null>> {
+    const integration = await ensureValidToken();
+    const orders = await shopeeApi.fetchOrderDetails(
+      Number(integration.partnerId), integration.partnerKey, integration.accessToken!, Number(integration.shopId), orderSns,
+    );
+    const out = new Map<string, string | null>();
+    for (const order of orders) {
+      try {
+        await upsertShopeeOrder(order);
+        out.set(order.order_sn, null);
+      } catch (e: any) {
+        console.error(`Shopee webhook refresh error (${order.order_sn}):`, e);
+        out.set(order.order_sn, e?.message || String(e));
+      }
+    }
+    const completedSns = orders.filter((o) => o.order_status === 'COMPLETED').map((o) => o.order_sn);
+    const escrow = await applyShopeeEscrowFees(integration, completedSns);
+    if (escrow.errors.length > 0) console.warn('[webhooks] Taxas (escrow) com erro:', escrow.errors);
+    return out;
+  }
 
-          await prisma.orderItem.upsert({
-            where: { orderId_source_productCode: { orderId, source: 'shopee', productCode } },
-            update: {
-              name: itemName,
-              unitPrice,
-              quantity: qty,
-              totalPrice: unitPrice * qty,
-              productId: product?.id ?? null,
-            },
-            create: {
-              orderId,
-              source: 'shopee',
-              productCode,
-              name: itemName,
-              unitPrice,
-              quantity: qty,
-              totalPrice: unitPrice * qty,
-              productId: product?.id ?? null,
-            },
-          });
+  // Sync orders from Shopee
+  app.post('/api/shopee/sync', express.json(), async (req, res) => {
+    try {
+      if (syncScheduler.isRunning('shopee')) {
+        return res.status(409).json({ message: 'Sincronização Shopee já em andamento.' });
+      }
 
-          if (parentCode) parentItemIds.add(`${parentCode}|${item.item_name}`);
-        }
+      // Default: sync last 30 days (or custom date range)
+      const daysBack = Number(req.body.daysBack) || 30;
+      const now = Math.floor(Date.now() / 1000);
+      const timeFrom = req.body.timeFrom ? Number(req.body.timeFrom) : now - daysBack * 24 * 60 * 60;
+      const timeTo = req.body.timeTo ? Number(req.body.timeTo) : now;
+      const window = { from: new Date(timeFrom * 1000), to: new Date(timeTo * 1000) };
 
-        // Auto-grouping desativado para sync Shopee — manter dados em "Pendentes" para vinculação manual ao SKU mestre.
-        void parentItemIds;
+      const { run, result } = await syncScheduler.recordRun('shopee', 'manual', window, () => syncShopeeOrders(window));
+      return res.json({
+        success: true,
+        synced: result.synced,
+        total: result.fetched,
+        failed: result.failed,
+        runId: run.id,
+        ...(result.message ? { message: result.message } : {}),
+      });
+    } catch (e: any) {
+      console.error('Shopee sync error:', e);
+      return res.status(500).json({ message: e.message || 'Erro ao sincronizar pedidos.' });
+    }
+  });
 
-        synced++;
+  // Preenche taxas de pedidos Shopee concluídos já existentes (importados por CSV ou sync antiga)
+  // POST /api/shopee/escrow/sync  body: { month?: "2026-06", orderIds?: string[], force?: boolean }
+  app.post('/api/shopee/escrow/sync', express.json(), async (req, res) => {
+    try {
+      const integration = await ensureValidToken();
+      const force = req.body?.force === true;
+      const ESCROW_MAX_ORDERS = 300;
+
+      let orderSns: string[];
+      if (Array.isArray(req.body?.orderIds) && req.body.orderIds.length > 0) {
+        orderSns = req.body.orderIds.map((id: unknown) => String(id).trim()).filter(Boolean).slice(0, ESCROW_MAX_ORDERS);
+      } else {
+        const monthStr = String(req.body?.month ?? '').trim();
+        const monthStart = monthStr ? monthStartFromYYYYMM(monthStr) : null;
+        if (!monthStart) return res.status(400).json({ message: 'Informe month (YYYY-MM) ou orderIds.' });
+        const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+        const rows = await prisma.order.findMany({
+          where: {
+            source: 'shopee',
+            orderDate: { gte: monthStart, lt: monthEnd },
+            status: { contains: 'Conclu', mode: 'insensitive' },
+            feesManual: false,
+            ...(force ? {} : { OR: [{ commissionFee: null }, { settlementAmount: null }] }),
+          },
+          select: { orderId: true },
+          orderBy: { orderDate: 'asc' },
+          take: ESCROW_MAX_ORDERS,
+        });
+        orderSns = rows.map((r) => r.orderId);
       }
 
-      await prisma.shopeeIntegration.update({
-        where: { id: integration.id },
-        data: { lastSyncAt: new Date() },
+      const result = await applyShopeeEscrowFees(integration, orderSns, { force });
+      return res.json({
+        success: true,
+        ...result,
+        message:
+          orderSns.length >= ESCROW_MAX_ORDERS
+            ? `Processados os primeiros ${ESCROW_MAX_ORDERS} pedidos; rode novamente para continuar.`
+            : undefined,
       });
+    } catch (e: any) {
+      console.error('Shopee escrow sync error:', e);
+      return res.status(500).json({ message: e.message || 'Erro ao buscar taxas (escrow) Shopee.' });
+    }
+  });
 
-      return res.json({ success: true, synced, total: orderSns.length });
+  // Catálogo da loja → Product (anúncios sem venda também aparecem em estoque e precificação)
+  // POST /api/shopee/catalog/sync
+  app.post('/api/shopee/catalog/sync', async (_req, res) => {
+    try {
+      const integration = await ensureValidToken();
+      const items = await shopeeApi.fetchCatalog(
+        Number(integration.partnerId), integration.partnerKey, integration.accessToken!, Number(integration.shopId),
+      );
+      const report = await upsertShopeeCatalog(prisma, items);
+      return res.json({
+        success: true,
+        message: `${report.listings} anúncio(s)/variação(ões) sincronizados: ${report.created} novo(s), ${report.linked} vinculado(s) ao produto mestre.`,
+        ...report,
+      });
     } catch (e: any) {
-      console.error('Shopee sync error:', e);
-      return res.status(500).json({ message: e.message || 'Erro ao sincronizar pedidos.' });
+      console.error('Shopee catalog sync error:', e);
+      return res.status(500).json({ message: e.message || 'Erro ao sincronizar catálogo Shopee.' });
     }
   });
 
@@ -5403,12 +6734,12 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
-  async function ensureValidTiktokShopToken() {
+  async function ensureValidTiktokShopToken(marginMs = 0) {
     const integration = await (prisma as any).tiktokShopIntegration.findFirst({ orderBy: { id: 'desc' } });
     if (!integration?.accessToken || !integration?.shopCipher) throw new Error('Integração TikTok Shop não conectada.');
 
     const now = new Date();
-    if (integration.tokenExpiresAt && integration.tokenExpiresAt > now) return integration;
+    if (integration.tokenExpiresAt && new Date(integration.tokenExpiresAt).getTime() - marginMs > now.getTime()) return integration;
 
     if (!integration.refreshToken || (integration.refreshExpiresAt && integration.refreshExpiresAt < now)) {
       await (prisma as any).tiktokShopIntegration.update({ where: { id: integration.id }, data: { status: 'expired' } });
@@ -5434,81 +6765,410 @@ app.get('/api/dashboard', async (_req, res) => {
     });
   }
 
+  // Grava um pedido TikTok Shop da API (pedido, itens e produtos de canal) — sync por janela e webhook
+  async function upsertTiktokShopOrder(order: tiktokShopApi.TiktokShopOrder) {
+    const orderId = order.id;
+    const orderDate = new Date(order.create_time * 1000);
+    const items = order.line_items || [];
+    const productName = items.length > 0
+      ? items.map((i) => i.product_name).join(' + ')
+      : 'Produto TikTok Shop';
+    const quantity = items.length || 1;
+    const totalPrice = parseFloat(order.payment?.total_amount ?? '0') || 0;
+    const status = TIKTOK_ORDER_STATUS_LABELS[order.status] || order.status;
+
+    // Devolução registrada (manual ou sync) prevalece sobre o status de entrega da plataforma
+    const current = await loadOrderHistoryState(prisma, orderId, 'tiktok');
+    const keepReturned = current?.status === 'Devolvido' && status !== 'Cancelado';
+
+    await prisma.order.upsert({
+      where: { orderId_source: { orderId, source: 'tiktok' } },
+      update: { orderDate, productName, quantity, totalPrice, ...(keepReturned ? {} : { status }) },
+      create: { orderId, orderDate, productName, quantity, totalPrice, source: 'tiktok', status },
+    });
+    await recordOrderEvent(prisma, {
+      orderId,
+      source: 'tiktok',
+      previous: current,
+      next: { totalPrice, ...(keepReturned ? {} : { status }) },
+      origin: 'api',
+      detail: 'TikTok Shop API',
+    });
+    // A API não expõe o "Buyer Username" da planilha: o comprador é identificado pelo user_id
+    const district = order.recipient_address?.district_info ?? [];
+    const districtName = (re: RegExp) => district.find((d) => re.test(d.address_level_name ?? ''))?.address_name;
+    await linkOrderCustomers(prisma, 'tiktok', [
+      {
+        orderId,
+        buyer: {
+          username: order.user_id,
+          email: order.buyer_email,
+          phone: order.recipient_address?.phone_number,
+          city: districtName(/city|cidade|munic/i),
+          state: districtName(/state|estado|province/i),
+        },
+      },
+    ]);
+
+    for (const item of items) {
+      const productCode = item.seller_sku || item.sku_id || item.product_id;
+      const unitPrice = parseFloat(item.sale_price ?? '0') || 0;
+
+      const product = await prisma.product.upsert({
+        where: { code: `tiktok_${productCode}` },
+        update: { name: item.product_name, source: 'tiktok' },
+        create: { code: `tiktok_${productCode}`, name: item.product_name, source: 'tiktok' },
+      });
+
+      await (prisma as any).orderItem.upsert({
+        where: { orderId_source_productCode: { orderId, source: 'tiktok', productCode } },
+        update: { name: item.product_name, unitPrice, quantity: 1, totalPrice: unitPrice, productId: product.id },
+        create: {
+          orderId, source: 'tiktok', productCode, name: item.product_name,
+          unitPrice, quantity: 1, totalPrice: unitPrice, productId: product.id,
+        },
+      });
+    }
+  }
+
+  // Reconsulta pontual de pedidos (webhook): devolve order_id → erro (null = gravado)
+  async function refreshTiktokShopOrders(orderIds: string[]): Promise<Map<string, string | null>> {
+    const integration = await ensureValidTiktokShopToken();
+    const res = await tiktokShopApi.getOrderDetail(
+      integration.appKey, integration.appSecret, integration.accessToken!, integration.shopCipher!, orderIds,
+    );
+    if (res.code !== 0) throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
+    const out = new Map<string, string | null>();
+    for (const order of res.data?.orders ?? []) {
+      try {
+        await upsertTiktokShopOrder(order);
+        out.set(order.id, null);
+      } catch (e: any) {
+        console.error(`TikTok Shop webhook refresh error (${order.id}):`, e);
+        out.set(order.id, e?.message || String(e));
+      }
+    }
+    return out;
+  }
+
+  // Devoluções/reembolsos e cancelamentos TikTok Shop atualizados na janela → OrderReturn e status do pedido
+  async function syncTiktokShopReturns(window: SyncWindow) {
+    const integration = await ensureValidTiktokShopToken();
+    const ge = Math.floor(window.from.getTime() / 1000);
+    const lt = Math.floor(window.to.getTime() / 1000);
+    const returns = await tiktokShopApi.fetchAllReturns(
+      integration.appKey, integration.appSecret, integration.accessToken!, integration.shopCipher!, ge, lt,
+    );
+    const cancellations = await tiktokShopApi.fetchAllCancellations(
+      integration.appKey, integration.appSecret, integration.accessToken!, integration.shopCipher!, ge, lt,
+    );
+
+    const plans = planTiktokReturns(returns);
+    const cancelledIds = cancelledOrderIds(cancellations);
+    const prismaAny = prisma as any;
+    const existing: Array<{ orderId: string; status: string; returnRecord: any }> = await prismaAny.order.findMany({
+      where: { source: 'tiktok', orderId: { in: [...plans.map((p) => p.orderId), ...cancelledIds] } },
+      select: { orderId: true, status: true, returnRecord: true },
+    });
+    const byOrderId = new Map(existing.map((o) => [o.orderId, o]));
+
+    let created = 0;
+    let updated = 0;
+    let removed = 0;
+    let cancelled = 0;
+    const notFoundIds: string[] = [];
+    const restoreIds: string[] = [];
+    const errors: string[] = [];
+
+    for (const plan of plans) {
+      const order = byOrderId.get(plan.orderId);
+      if (!order) {
+        notFoundIds.push(plan.orderId);
+        continue;
+      }
+      const key = { orderId_source: { orderId: plan.orderId, source: 'tiktok' } };
+      const rec = order.returnRecord;
+      try {
+        if (!plan.active) {
+          // Solicitação recusada/cancelada: desfaz só o que o sync criou; registro manual fica como está
+          if (rec?.origin === 'tiktok_shop') {
+            await prismaAny.orderReturn.delete({ where: key });
+            await prisma.order.update({ where: key, data: { status: '' } });
+            await recordOrderEvent(prisma, {
+              orderId: plan.orderId,
+              source: 'tiktok',
+              previous: order,
+              next: { status: '' },
+              origin: 'returns',
+              detail: `Devolução ${plan.status} na TikTok Shop`,
+            });
+            restoreIds.push(plan.orderId);
+            removed++;
+          } else if (rec) {
+            await prismaAny.orderReturn.update({ where: key, data: { externalStatus: plan.status } });
+          }
+          continue;
+        }
+
+        const platformData = {
+          refundAmount: plan.refundAmount,
+          externalId: plan.returnIds.join(','),
+          externalStatus: plan.status,
+        };
+        if (rec) {
+          await prismaAny.orderReturn.update({
+            where: key,
+            data: rec.origin === 'tiktok_shop'
+              ? { ...platformData, reason: plan.reason, notes: plan.reasonText, returnDate: plan.returnDate }
+              : platformData,
+          });
+          updated++;
+        } else {
+          await prismaAny.orderReturn.create({
+            data: {
+              orderId: plan.orderId,
+              source: 'tiktok',
+              reason: plan.reason,
+              notes: plan.reasonText,
+              returnDate: plan.returnDate,
+              origin: 'tiktok_shop',
+              ...platformData,
+            },
+          });
+          created++;
+        }
+        // Devolução parcial cadastrada por item: as linhas decidem o status, não a plataforma
+        if (plan.completed && order.status !== 'Devolvido' && !rec?.partial) {
+          await prisma.order.update({ where: key, data: { status: 'Devolvido' } });
+          await recordOrderEvent(prisma, {
+            orderId: plan.orderId,
+            source: 'tiktok',
+            previous: order,
+            next: { status: 'Devolvido' },
+            origin: 'returns',
+            detail: 'Devolução concluída na TikTok Shop',
+          });
+        }
+      } catch (e: any) {
+        console.error(`TikTok Shop return sync error (${plan.orderId}):`, e);
+        errors.push(`${plan.orderId}: ${e?.message || String(e)}`);
+      }
+    }
+
+    for (const orderId of cancelledIds) {
+      const order = byOrderId.get(orderId);
+      if (!order) {
+        notFoundIds.push(orderId);
+        continue;
+      }
+      if (order.status === 'Cancelado') continue;
+      await prisma.order.update({ where: { orderId_source: { orderId, source: 'tiktok' } }, data: { status: 'Cancelado' } });
+      await recordOrderEvent(prisma, {
+        orderId,
+        source: 'tiktok',
+        previous: order,
+        next: { status: 'Cancelado' },
+        origin: 'returns',
+        detail: 'Cancelamento na TikTok Shop',
+      });
+      cancelled++;
+    }
+
+    // Pedidos cuja devolução foi desfeita voltam ao status atual da plataforma
+    for (let i = 0; i < restoreIds.length; i += 50) {
+      const refreshed = await refreshTiktokShopOrders(restoreIds.slice(i, i + 50));
+      for (const [orderId, err] of refreshed) if (err) errors.push(`${orderId}: ${err}`);
+    }
+
+    return {
+      fetched: returns.length + cancellations.length,
+      synced: created + updated + removed + cancelled,
+      failed: errors.length,
+      errors,
+      message: `Devoluções: ${created} nova(s), ${updated} atualizada(s), ${removed} removida(s); ${cancelled} cancelamento(s).`,
+      created,
+      updated,
+      removed,
+      cancelled,
+      notFound: notFoundIds.length,
+      notFoundSample: notFoundIds.slice(0, 20),
+    };
+  }
+
+  // Busca e grava os pedidos TikTok Shop criados na janela (rota de sync e agendador)
+  async function syncTiktokShopOrders(window: SyncWindow): Promise<SyncResult> {
+    const integration = await ensureValidTiktokShopToken();
+
+    const orders = await tiktokShopApi.fetchAllOrders(
+      integration.appKey, integration.appSecret, integration.accessToken!, integration.shopCipher!,
+      Math.floor(window.from.getTime() / 1000), Math.floor(window.to.getTime() / 1000), window.timeField,
+    );
+
+    let synced = 0;
+    const errors: string[] = [];
+    for (const order of orders) {
+      try {
+        await upsertTiktokShopOrder(order);
+        synced++;
+      } catch (e: any) {
+        console.error(`TikTok Shop sync error (${order.id}):`, e);
+        errors.push(`${order.id}: ${e?.message || String(e)}`);
+      }
+    }
+
+    // Devoluções e cancelamentos atualizados na mesma janela (depois dos pedidos, para achar os recém-criados)
+    let message: string | undefined;
+    try {
+      const returns = await syncTiktokShopReturns(window);
+      message = returns.message;
+      errors.push(...returns.errors.map((err) => `devolução ${err}`));
+    } catch (e: any) {
+      console.error('TikTok Shop returns sync error:', e);
+      errors.push(`devoluções: ${e?.message || String(e)}`);
+    }
+
+    await syncScheduler.advanceLastSyncAt('tiktok_shop', integration.id, window, errors.length);
+
+    return { fetched: orders.length, synced, failed: errors.length, errors, message };
+  }
+
   // Sincroniza pedidos TikTok Shop direto pela API (alternativa ao upload manual de planilha)
   // body opcional: { month: "2026-06" } ou { daysBack: 30 }
   app.post('/api/tiktok-shop/sync', express.json(), async (req, res) => {
     try {
-      const integration = await ensureValidTiktokShopToken();
+      if (syncScheduler.isRunning('tiktok_shop')) {
+        return res.status(409).json({ message: 'Sincronização TikTok Shop já em andamento.' });
+      }
 
-      let createTimeGe: number;
-      let createTimeLt: number;
+      let window: SyncWindow;
       const monthStr = String(req.body?.month ?? '').trim();
       if (monthStr) {
         const monthStart = monthStartFromYYYYMM(monthStr);
         if (!monthStart) return res.status(400).json({ message: 'month inválido. Use YYYY-MM.' });
-        const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
-        createTimeGe = Math.floor(monthStart.getTime() / 1000);
-        createTimeLt = Math.floor(monthEnd.getTime() / 1000);
+        window = { from: monthStart, to: new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1) };
       } else {
         const daysBack = Number(req.body?.daysBack) || 30;
-        const nowSec = Math.floor(Date.now() / 1000);
-        createTimeGe = nowSec - daysBack * 24 * 60 * 60;
-        createTimeLt = nowSec;
+        const now = new Date();
+        window = { from: new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000), to: now };
+      }
+
+      const { run, result } = await syncScheduler.recordRun('tiktok_shop', 'manual', window, () => syncTiktokShopOrders(window));
+      return res.json({ success: true, synced: result.synced, total: result.fetched, failed: result.failed, runId: run.id });
+    } catch (e: any) {
+      console.error('TikTok Shop sync error:', e);
+      return res.status(500).json({ message: e.message || 'Erro ao sincronizar pedidos TikTok Shop.' });
+    }
+  });
+
+  // Liquidação TikTok Shop pela Finance API (mesma agregação do income XLSX)
+  // body: { month: "2026-06" } ou { from: "2026-06-01", to: "2026-06-30" }, dryRun opcional
+  // dryRun compara com os valores gravados (ex.: vindos da planilha) sem alterar nada
+  app.post('/api/tiktok-shop/finance/sync', express.json(), async (req, res) => {
+    try {
+      const dryRun = req.body?.dryRun === true || String(req.body?.dryRun ?? '') === '1';
+      let from: Date | null;
+      let to: Date | null;
+      const monthStr = String(req.body?.month ?? '').trim();
+      if (monthStr) {
+        from = monthStartFromYYYYMM(monthStr);
+        to = from ? new Date(from.getFullYear(), from.getMonth() + 1, 1) : null;
+      } else {
+        from = dateStartFromYYYYMMDD(String(req.body?.from ?? ''));
+        const toDay = dateStartFromYYYYMMDD(String(req.body?.to ?? ''));
+        to = toDay ? new Date(toDay.getFullYear(), toDay.getMonth(), toDay.getDate() + 1) : null;
+      }
+      if (!from || !to || to <= from) {
+        return res.status(400).json({ message: 'Informe month (YYYY-MM) ou from/to (YYYY-MM-DD).' });
       }
 
-      const orders = await tiktokShopApi.fetchAllOrders(
+      const integration = await ensureValidTiktokShopToken();
+      const entries = await tiktokShopApi.fetchStatementTransactions(
         integration.appKey, integration.appSecret, integration.accessToken!, integration.shopCipher!,
-        createTimeGe, createTimeLt,
+        Math.floor(from.getTime() / 1000), Math.floor(to.getTime() / 1000),
       );
+      const { orders: settledOrders, transactions, orderRows } = aggregateStatementTransactions(entries);
 
-      let synced = 0;
-      for (const order of orders) {
-        const orderId = order.id;
-        const orderDate = new Date(order.create_time * 1000);
-        const items = order.line_items || [];
-        const productName = items.length > 0
-          ? items.map((i) => i.product_name).join(' + ')
-          : 'Produto TikTok Shop';
-        const quantity = items.length || 1;
-        const totalPrice = parseFloat(order.payment?.total_amount ?? '0') || 0;
-
-        await prisma.order.upsert({
-          where: { orderId_source: { orderId, source: 'tiktok' } },
-          update: { orderDate, productName, quantity, totalPrice, status: order.status },
-          create: { orderId, orderDate, productName, quantity, totalPrice, source: 'tiktok', status: order.status },
+      let comparison: Record<string, unknown> | undefined;
+      if (dryRun) {
+        const stored = await prisma.order.findMany({
+          where: { source: 'tiktok', orderId: { in: settledOrders.map((o) => o.orderId) } },
+          select: { orderId: true, settlementAmount: true, commissionFee: true, serviceFee: true, partnerCommission: true },
         });
-
-        for (const item of items) {
-          const productCode = item.seller_sku || item.sku_id || item.product_id;
-          const unitPrice = parseFloat(item.sale_price ?? '0') || 0;
-
-          const product = await prisma.product.upsert({
-            where: { code: `tiktok_${productCode}` },
-            update: { name: item.product_name, source: 'tiktok' },
-            create: { code: `tiktok_${productCode}`, name: item.product_name, source: 'tiktok' },
-          });
-
-          await (prisma as any).orderItem.upsert({
-            where: { orderId_source_productCode: { orderId, source: 'tiktok', productCode } },
-            update: { name: item.product_name, unitPrice, quantity: 1, totalPrice: unitPrice, productId: product.id },
-            create: {
-              orderId, source: 'tiktok', productCode, name: item.product_name,
-              unitPrice, quantity: 1, totalPrice: unitPrice, productId: product.id,
-            },
+        const storedMap = new Map(stored.map((o) => [o.orderId, o]));
+        const fields = ['settlementAmount', 'commissionFee', 'serviceFee', 'partnerCommission'] as const;
+        let equal = 0;
+        let notSettled = 0;
+        const different: Array<Record<string, unknown>> = [];
+        for (const row of settledOrders) {
+          const ex = storedMap.get(row.orderId);
+          if (!ex) continue;
+          if (ex.settlementAmount == null) {
+            notSettled++;
+            continue;
+          }
+          const diff = fields.filter((f) => Math.abs(Number(ex[f] ?? 0) - row[f]) > 0.005);
+          if (diff.length === 0) {
+            equal++;
+            continue;
+          }
+          different.push({
+            orderId: row.orderId,
+            fields: diff,
+            stored: Object.fromEntries(diff.map((f) => [f, ex[f]])),
+            api: Object.fromEntries(diff.map((f) => [f, row[f]])),
           });
         }
-        synced++;
+        comparison = { equal, different: different.length, notSettled, differentSample: different.slice(0, 20) };
       }
 
-      await (prisma as any).tiktokShopIntegration.update({
-        where: { id: integration.id },
-        data: { lastSyncAt: new Date() },
+      const { updated, notFoundIds, matched, notFound } = await applyTiktokSettledOrders(settledOrders, dryRun, 'Finance API TikTok Shop');
+
+      return res.json({
+        message: dryRun
+          ? 'Pré-visualização concluída (Finance API).'
+          : `Liquidação TikTok aplicada em ${updated} pedido(s).`,
+        dryRun,
+        statements: new Set(entries.map((e) => e.statement.id)).size,
+        transactions,
+        orderRows,
+        ordersInApi: settledOrders.length,
+        matched,
+        notFound,
+        updated: dryRun ? 0 : updated,
+        notFoundSample: notFoundIds.slice(0, 20),
+        comparison,
       });
+    } catch (e: any) {
+      console.error('TikTok Shop finance sync error:', e);
+      return res.status(500).json({ message: e.message || 'Erro ao buscar liquidação TikTok Shop.' });
+    }
+  });
 
-      return res.json({ success: true, synced, total: orders.length });
+  // Sincroniza só devoluções/reembolsos e cancelamentos TikTok Shop (tela Devoluções)
+  // body opcional: { month: "2026-06" } ou { daysBack: 30 } — janela pela data de atualização da solicitação
+  app.post('/api/tiktok-shop/returns/sync', express.json(), async (req, res) => {
+    try {
+      if (syncScheduler.isRunning('tiktok_shop')) {
+        return res.status(409).json({ message: 'Sincronização TikTok Shop já em andamento.' });
+      }
+
+      let window: SyncWindow;
+      const monthStr = String(req.body?.month ?? '').trim();
+      if (monthStr) {
+        const monthStart = monthStartFromYYYYMM(monthStr);
+        if (!monthStart) return res.status(400).json({ message: 'month inválido. Use YYYY-MM.' });
+        window = { from: monthStart, to: new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1) };
+      } else {
+        const daysBack = Number(req.body?.daysBack) || 30;
+        const now = new Date();
+        window = { from: new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000), to: now };
+      }
+
+      const { run, result } = await syncScheduler.recordRun('tiktok_shop', 'manual', window, () => syncTiktokShopReturns(window));
+      return res.json({ success: true, ...result, runId: run.id });
     } catch (e: any) {
-      console.error('TikTok Shop sync error:', e);
-      return res.status(500).json({ message: e.message || 'Erro ao sincronizar pedidos TikTok Shop.' });
+      console.error('TikTok Shop returns sync error:', e);
+      return res.status(500).json({ message: e.message || 'Erro ao sincronizar devoluções TikTok Shop.' });
     }
   });
 
@@ -5532,7 +7192,7 @@ app.get('/api/dashboard', async (_req, res) => {
   });
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // TIKTOK ADS (BUSINESS/MARKETING API) — custo mensal de anúncios → tabela AdSpend
+  // TIKTOK ADS (BUSINESS/MARKETING API) — custo diário por campanha → AdSpendDaily (e AdSpend do mês)
   // ═══════════════════════════════════════════════════════════════════════════
 
   app.get('/api/tiktok-ads/status', async (_req, res) => {
@@ -5634,6 +7294,62 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
+  // Gasto diário por campanha de cada mês tocado pela janela (o mês corrente é regravado a cada execução)
+  // → AdSpendDaily channel="tiktok"; o AdSpend do mês é a soma
+  async function syncTiktokAdsSpend(window: SyncWindow): Promise<SyncResult & { rows: any[] }> {
+    const prismaAny = prisma as any;
+    const integration = await prismaAny.tiktokAdsIntegration.findFirst({ orderBy: { id: 'desc' } });
+    if (!integration?.accessToken || !integration?.advertiserId) throw new Error('Integração TikTok Ads não conectada.');
+
+    const rows: any[] = [];
+    const errors: string[] = [];
+    let fetched = 0;
+    const last = new Date(window.to.getTime() - 1);
+    for (
+      let monthStart = new Date(window.from.getFullYear(), window.from.getMonth(), 1);
+      monthStart <= last;
+      monthStart = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1)
+    ) {
+      fetched++;
+      const monthEndInclusive = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0);
+      try {
+        const report = await tiktokAdsApi.getCampaignDailyReport(
+          integration.accessToken, integration.advertiserId, dayKey(monthStart), dayKey(monthEndInclusive),
+        );
+        const daily: AdSpendDailyInput[] = [];
+        for (const r of report) {
+          const date = dateFromDayKey(r.date);
+          if (!date) continue;
+          daily.push({
+            date,
+            campaignId: r.campaignId,
+            campaignName: r.campaignName,
+            spend: r.spend,
+            impressions: r.impressions,
+            clicks: r.clicks,
+            conversions: r.conversions,
+            attributedRevenue: r.attributedRevenue,
+          });
+        }
+        rows.push(
+          ...(await writeAdSpendDaily(prisma, 'tiktok', daily, {
+            mode: 'replace',
+            origin: 'api',
+            months: [monthStart],
+            notes: 'Sincronizado automaticamente via TikTok Ads API (soma diária por campanha)',
+          })),
+        );
+      } catch (e: any) {
+        console.error(`TikTok Ads sync error (${dayKey(monthStart).slice(0, 7)}):`, e);
+        errors.push(`${dayKey(monthStart).slice(0, 7)}: ${e?.message || String(e)}`);
+      }
+    }
+
+    await syncScheduler.advanceLastSyncAt('tiktok_ads', integration.id, window, errors.length);
+
+    return { fetched, synced: rows.length, failed: errors.length, errors, rows };
+  }
+
   // Busca o gasto do mês na TikTok Ads e grava em AdSpend (channel="tiktok")
   // body: { month: "2026-06" }
   app.post('/api/tiktok-ads/sync', express.json(), async (req, res) => {
@@ -5642,31 +7358,20 @@ app.get('/api/dashboard', async (_req, res) => {
       if (!integration?.accessToken || !integration?.advertiserId) {
         return res.status(400).json({ message: 'Integração TikTok Ads não conectada.' });
       }
+      if (syncScheduler.isRunning('tiktok_ads')) {
+        return res.status(409).json({ message: 'Sincronização TikTok Ads já em andamento.' });
+      }
 
       const monthStr = String(req.body?.month ?? '').trim();
       const monthStart = monthStr ? monthStartFromYYYYMM(monthStr) : null;
       if (!monthStart) return res.status(400).json({ message: 'month inválido. Use YYYY-MM (ex: 2026-06).' });
 
-      const monthEndInclusive = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0);
-      const toIso = (d: Date) => d.toISOString().slice(0, 10);
-
-      const { spend } = await tiktokAdsApi.getAdvertiserSpend(
-        integration.accessToken, integration.advertiserId, toIso(monthStart), toIso(monthEndInclusive),
-      );
-
-      const prismaAny = prisma as any;
-      const row = await prismaAny.adSpend.upsert({
-        where: { month_channel: { month: monthStart, channel: 'tiktok' } },
-        update: { amount: spend, notes: 'Sincronizado automaticamente via TikTok Ads API' },
-        create: { month: monthStart, channel: 'tiktok', amount: spend, notes: 'Sincronizado automaticamente via TikTok Ads API' },
-      });
-
-      await prismaAny.tiktokAdsIntegration.update({
-        where: { id: integration.id },
-        data: { lastSyncAt: new Date() },
-      });
+      const window = { from: monthStart, to: new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1) };
+      const { run, result } = await syncScheduler.recordRun('tiktok_ads', 'manual', window, () => syncTiktokAdsSpend(window));
+      if (result.failed > 0) throw new Error(result.errors[0]);
+      const row = result.rows[0];
 
-      return res.json({ success: true, month: monthStr, spend, adSpend: row });
+      return res.json({ success: true, month: monthStr, spend: row.amount, adSpend: row, runId: run.id });
     } catch (e: any) {
       console.error('TikTok Ads sync error:', e);
       return res.status(500).json({ message: e.message || 'Erro ao sincronizar custo de ADS TikTok.' });
@@ -5806,7 +7511,10 @@ app.get('/api/dashboard', async (_req, res) => {
             { productName: { contains: q, mode: 'insensitive' } },
           ],
         },
-        include: { returnRecord: true },
+        include: {
+          returnRecord: { include: { lines: true } },
+          items: { select: { id: true, productCode: true, name: true, quantity: true, totalPrice: true }, orderBy: { id: 'asc' } },
+        },
         orderBy: { orderDate: 'desc' },
         take: 20,
       });
@@ -5817,35 +7525,62 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
-  // Register a return (devolução)
+  // Register a return (devolução). lines: [{ orderItemId, quantity, condition, refundAmount? }]
+  // Sem lines devolve todos os itens restantes na condição informada (padrão resellable).
+  // Devolução parcial já registrada recebe as novas linhas; devolução total não aceita mais nada.
   app.post('/api/returns', express.json(), async (req, res) => {
     try {
-      const { orderId, source, reason, notes, returnDate } = req.body ?? {};
+      const { orderId, source, reason, notes, returnDate, lines, condition } = req.body ?? {};
       if (!orderId || !source || !reason || !returnDate) {
         return res.status(400).json({ message: 'orderId, source, reason e returnDate são obrigatórios.' });
       }
+      const defaultCondition = condition == null || condition === '' ? 'resellable' : condition;
+      if (!isReturnCondition(defaultCondition)) {
+        return res.status(400).json({ message: 'Condição inválida (use resellable ou damaged).' });
+      }
+      if (lines != null && !Array.isArray(lines)) {
+        return res.status(400).json({ message: 'lines deve ser uma lista.' });
+      }
 
+      const key = { orderId: String(orderId), source: String(source) };
       const order = await prisma.order.findUnique({
-        where: { orderId_source: { orderId: String(orderId), source: String(source) } },
+        where: { orderId_source: key },
+        include: { items: { select: { id: true } } },
       });
       if (!order) return res.status(404).json({ message: 'Pedido não encontrado.' });
 
       const prismaAny = prisma as any;
-      const returnRecord = await prismaAny.orderReturn.create({
-        data: {
-          orderId: String(orderId),
-          source: String(source),
-          reason: String(reason),
-          notes: String(notes ?? ''),
-          returnDate: new Date(returnDate),
-        },
-      });
+      const existing = await prismaAny.orderReturn.findUnique({ where: { orderId_source: key } });
+      if (existing && !existing.partial) {
+        return res.status(400).json({ message: 'Este pedido já possui uma devolução registrada.' });
+      }
+      const plan = await planReturnLines(prismaAny, key.orderId, key.source, lines, defaultCondition);
+      if ('error' in plan) return res.status(400).json({ message: plan.error });
+      if (order.items.length > 0 && plan.lines.length === 0) {
+        return res.status(400).json({ message: 'Todos os itens deste pedido já foram devolvidos.' });
+      }
 
-      await prisma.order.update({
-        where: { orderId_source: { orderId: String(orderId), source: String(source) } },
-        data: { status: 'Devolvido' },
-      });
+      if (existing) {
+        await prismaAny.orderReturnLine.createMany({
+          data: plan.lines.map((l) => ({ ...l, returnId: existing.id })),
+        });
+      } else {
+        await prismaAny.orderReturn.create({
+          data: {
+            ...key,
+            reason: String(reason),
+            notes: String(notes ?? ''),
+            returnDate: new Date(returnDate),
+            lines: { create: plan.lines },
+          },
+        });
+      }
+      await settleOrderReturn(prismaAny, key.orderId, key.source, String(reason));
 
+      const returnRecord = await prismaAny.orderReturn.findUnique({
+        where: { orderId_source: key },
+        include: { lines: true },
+      });
       return res.status(201).json(returnRecord);
     } catch (e: any) {
       if (e?.code === 'P2002') return res.status(400).json({ message: 'Este pedido já possui uma devolução registrada.' });
@@ -5870,7 +7605,11 @@ app.get('/api/dashboard', async (_req, res) => {
       const returns = await prismaAny.orderReturn.findMany({
         where: dateFilter,
         include: {
-          order: { select: { productName: true, totalPrice: true, quantity: true, orderDate: true, status: true } },
+          order: {
+            select: { productName: true, totalPrice: true, refundedAmount: true, quantity: true, orderDate: true, status: true },
+          },
+          lines: { include: { orderItem: { select: { name: true } } }, orderBy: { id: 'asc' } },
+          exchanges: { orderBy: { id: 'asc' } },
         },
         orderBy: { returnDate: 'desc' },
       });
@@ -5881,7 +7620,7 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
-  // Delete a return (undo)
+  // Delete a return (undo): remove a devolução inteira (todas as linhas e trocas; os pedidos de reposição ficam)
   app.delete('/api/returns/:orderId/:source', async (req, res) => {
     try {
       const { orderId, source } = req.params;
@@ -5889,11 +7628,8 @@ app.get('/api/dashboard', async (_req, res) => {
       await prismaAny.orderReturn.delete({
         where: { orderId_source: { orderId, source } },
       });
-      // Restore order status
-      await prisma.order.update({
-        where: { orderId_source: { orderId, source } },
-        data: { status: '' },
-      });
+      // Restore order status / reembolso parcial
+      await settleOrderReturn(prismaAny, orderId, source, 'Devolução removida');
       return res.json({ ok: true });
     } catch (e: any) {
       if (e?.code === 'P2025') return res.status(404).json({ message: 'Devolução não encontrada.' });
@@ -5902,6 +7638,160 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
+  // Remove uma linha da devolução; sem linhas restantes a devolução some
+  app.delete('/api/returns/lines/:id', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'id inválido.' });
+      const prismaAny = prisma as any;
+      const line = await prismaAny.orderReturnLine.findUnique({
+        where: { id },
+        include: { orderReturn: { select: { id: true, orderId: true, source: true } } },
+      });
+      if (!line) return res.status(404).json({ message: 'Linha de devolução não encontrada.' });
+      const { orderId, source } = line.orderReturn;
+      await prismaAny.orderReturnLine.delete({ where: { id } });
+      const remaining = await prismaAny.orderReturnLine.count({ where: { returnId: line.orderReturn.id } });
+      if (remaining === 0) await prismaAny.orderReturn.delete({ where: { id: line.orderReturn.id } });
+      await settleOrderReturn(prismaAny, orderId, source, remaining === 0 ? 'Devolução removida' : 'Item da devolução removido');
+      return res.json({ ok: true, remaining });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao remover item da devolução.' });
+    }
+  });
+
+  // Troca: os itens voltam sem reembolso (linhas com exchangeId) e a reposição vira um pedido manual Atacado,
+  // com o valor cobrado do cliente (zero ou a diferença), guardado em replacementTotal.
+  // O pedido original continua vendido; o estoque anda pelos dois lados.
+  // POST /api/exchanges
+  // body: {
+  //   orderId, source, returnDate: "YYYY-MM-DD", reason?, notes?,
+  //   lines: [{ orderItemId: number, quantity: number, condition?: "resellable" | "damaged" }],
+  //   replacement: { items: [{ masterProductId?, productId?, quantity, unitPrice }], paymentType?, freight?, customerName? }
+  // }
+  app.post('/api/exchanges', express.json(), async (req, res) => {
+    try {
+      const { orderId, source, reason, notes, returnDate, lines, replacement } = req.body ?? {};
+      if (!orderId || !source || !returnDate) {
+        return res.status(400).json({ message: 'orderId, source e returnDate são obrigatórios.' });
+      }
+      if (!Array.isArray(lines) || lines.length === 0) {
+        return res.status(400).json({ message: 'Informe os itens trocados.' });
+      }
+      if (!replacement || !Array.isArray(replacement.items) || replacement.items.length === 0) {
+        return res.status(400).json({ message: 'Informe os itens da reposição.' });
+      }
+
+      const key = { orderId: String(orderId), source: String(source) };
+      const order = await prisma.order.findUnique({ where: { orderId_source: key } });
+      if (!order) return res.status(404).json({ message: 'Pedido não encontrado.' });
+
+      const prismaAny = prisma as any;
+      const existing = await prismaAny.orderReturn.findUnique({ where: { orderId_source: key } });
+      if (existing && !existing.partial) {
+        return res.status(400).json({ message: 'Este pedido já possui uma devolução registrada.' });
+      }
+      const plan = await planReturnLines(prismaAny, key.orderId, key.source, lines, 'resellable', { exchange: true });
+      if ('error' in plan) return res.status(400).json({ message: plan.error });
+
+      const created = await createManualOrder(
+        {
+          paymentType: 'Troca',
+          customerName: `Troca #${key.orderId}`,
+          orderDate: String(returnDate).slice(0, 10),
+          ...replacement,
+          orderId: undefined,
+        },
+        `Troca do pedido ${key.orderId}`,
+      );
+      if (!created.ok) return res.status(created.status).json({ message: created.message });
+      const replacementOrder = created.order;
+
+      let exchange: any;
+      try {
+        exchange = await prisma.$transaction(async (tx) => {
+          const txAny = tx as any;
+          const returnId =
+            existing?.id ??
+            (
+              await txAny.orderReturn.create({
+                data: {
+                  ...key,
+                  reason: String(reason || 'Não Serviu'),
+                  notes: String(notes ?? ''),
+                  returnDate: new Date(returnDate),
+                },
+              })
+            ).id;
+          const row = await txAny.orderExchange.create({
+            data: {
+              returnId,
+              replacementOrderId: replacementOrder.orderId,
+              replacementSource: SOURCE_ATACADO,
+              replacementTotal: replacementOrder.totalPrice ?? 0,
+            },
+          });
+          await txAny.orderReturnLine.createMany({
+            data: plan.lines.map((l) => ({ ...l, returnId, exchangeId: row.id })),
+          });
+          return row;
+        });
+      } catch (e) {
+        // Sem a troca registrada a reposição fica solta: desfaz o pedido criado
+        await prisma.order
+          .delete({ where: { orderId_source: { orderId: replacementOrder.orderId, source: SOURCE_ATACADO } } })
+          .catch(() => undefined);
+        throw e;
+      }
+      await settleOrderReturn(prismaAny, key.orderId, key.source, `Troca — reposição ${replacementOrder.orderId}`);
+
+      const returnRecord = await prismaAny.orderReturn.findUnique({
+        where: { orderId_source: key },
+        include: { lines: true, exchanges: true },
+      });
+      return res.status(201).json({ exchange, returnRecord, replacementOrder });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao registrar troca.' });
+    }
+  });
+
+  // Desfaz a troca: remove as linhas trocadas e manda o pedido de reposição para a lixeira
+  app.delete('/api/exchanges/:id', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'id inválido.' });
+      const prismaAny = prisma as any;
+      const exchange = await prismaAny.orderExchange.findUnique({
+        where: { id },
+        include: { orderReturn: { select: { id: true, orderId: true, source: true } } },
+      });
+      if (!exchange) return res.status(404).json({ message: 'Troca não encontrada.' });
+      const { orderId, source } = exchange.orderReturn;
+
+      // As linhas da troca saem pelo cascade
+      await prismaAny.orderExchange.delete({ where: { id } });
+      const remaining = await prismaAny.orderReturnLine.count({ where: { returnId: exchange.orderReturn.id } });
+      if (remaining === 0) await prismaAny.orderReturn.delete({ where: { id: exchange.orderReturn.id } });
+      await settleOrderReturn(prismaAny, orderId, source, 'Troca removida');
+
+      const replacementWhere = { orderId: exchange.replacementOrderId, source: exchange.replacementSource };
+      const deletion = (await prisma.order.count({ where: replacementWhere }))
+        ? await trashOrders(prisma, {
+            where: replacementWhere,
+            source: exchange.replacementSource,
+            filter: { exchangeId: id, ...replacementWhere },
+            deletedBy: deletedByOf(req),
+          })
+        : null;
+      return res.json({ ok: true, remaining, deletionId: deletion?.id ?? null });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao remover troca.' });
+    }
+  });
+
   // PRODUCT CONSOLIDATION (cross-channel)
   // ═══════════════════════════════════════════════════════════════════════════
 
@@ -6083,6 +7973,11 @@ app.get('/api/dashboard', async (_req, res) => {
     }
   });
 
+  await importJobs.start();
+  await syncScheduler.start();
+  await stockPush.start();
+  await webhookQueue.start();
+  startOrderTrashPurge(prisma);
   app.listen(APP_PORT, () => console.log(`Rodando em ${APP_PORT}`));
 }
 
@@ -72,6 +72,25 @@ export async function computeSoldByProduct(
   return soldByProduct;
 }
 
+/** Entradas de devolução: linhas resellable com data de devolução a partir do início do controle. */
+export async function computeRestockedByProduct(prismaAny: any, stockStartDate: Date | null) {
+  const restockedByProduct = new Map<number, number>();
+  if (!stockStartDate) return restockedByProduct;
+  const rows = await prismaAny.orderReturnLine.groupBy({
+    by: ['productId'],
+    where: {
+      condition: 'resellable',
+      productId: { not: null },
+      orderReturn: { returnDate: { gte: stockStartDate } },
+    },
+    _sum: { quantity: true },
+  });
+  for (const r of rows) {
+    restockedByProduct.set(r.productId, Number(r._sum.quantity) || 0);
+  }
+  return restockedByProduct;
+}
+
 export async function buildMasterStockCurrent(
   prismaAny: any,
   prisma: PrismaClient,
@@ -79,7 +98,10 @@ export async function buildMasterStockCurrent(
 ) {
   const config = await prismaAny.inventoryConfig.findFirst({ orderBy: { id: 'desc' } });
   const stockStartDate = config ? new Date(config.stockStartDate) : null;
-  const soldByProduct = await computeSoldByProduct(prisma, stockStartDate, isOrderValidForStock);
+  const [soldByProduct, restockedByProduct] = await Promise.all([
+    computeSoldByProduct(prisma, stockStartDate, isOrderValidForStock),
+    computeRestockedByProduct(prismaAny, stockStartDate),
+  ]);
   const now = new Date();
 
   const masters = await prismaAny.masterProduct.findMany({
@@ -96,8 +118,9 @@ export async function buildMasterStockCurrent(
   const items = masters.map((m: any) => {
     const productIds = (m.products ?? []).map((p: any) => p.id);
     const sold = productIds.reduce((sum: number, pid: number) => sum + (soldByProduct.get(pid) || 0), 0);
+    const restocked = productIds.reduce((sum: number, pid: number) => sum + (restockedByProduct.get(pid) || 0), 0);
     const opening = m.stock?.quantity ?? 0;
-    const current = Math.max(0, opening - sold);
+    const current = Math.max(0, opening - sold + restocked);
     const costRows = costMap.get(m.id);
     const latest = getLatestMasterCostEntry(costRows, now);
     const costFields = masterEffectiveCostDisplay(latest);
@@ -109,6 +132,7 @@ export async function buildMasterStockCurrent(
       source: p.source ?? '',
       variationName: p.variationName,
       sold: soldByProduct.get(p.id) || 0,
+      restocked: restockedByProduct.get(p.id) || 0,
     }));
     const sources = [...new Set(members.map((x: any) => x.source).filter(Boolean))];
     return {
@@ -117,7 +141,10 @@ export async function buildMasterStockCurrent(
       sku: m.sku,
       name: m.name,
       opening,
+      // sem MasterProductStock o saldo não é controlado (0 aqui não significa esgotado)
+      hasStock: !!m.stock,
       sold,
+      restocked,
       current,
       costPrice: costFields.unitCost,
       effectiveCostDate: costFields.effectiveDate,
@@ -0,0 +1,277 @@
+/**
+ * Parser do relatório de Vendas do Mercado Livre (XLSX "Vendas BR", Minha conta → Vendas → Exportar).
+ *
+ * Cada linha é uma venda (N.º de venda) com um anúncio. Carrinhos com mais de um produto vêm como
+ * uma linha "Pacote de N produtos" (totais do pacote) seguida das N linhas dos produtos; o pacote vira
+ * um único pedido e as linhas seguintes viram seus itens.
+ *
+ * Valores monetários: tarifas vêm negativas no relatório; aqui saem em módulo (custo).
+ */
+
+import type { RowRejectCode } from './importRejections.js';
+import { headerKeys, type ImportFieldMapping } from './importMapping.js';
+
+export const SOURCE_MERCADO_LIVRE = 'mercadolivre';
+/** Prefixo do Product.code dos anúncios Mercado Livre (ex.: ml_CAMISA-P). */
+export const MERCADO_LIVRE_PRODUCT_PREFIX = 'ml';
+
+export type MercadoLivreOrderItem = {
+  productCode: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  totalPrice: number;
+};
+
+export type MercadoLivreOrder = {
+  orderId: string;
+  orderDate: Date;
+  status: string;
+  /** Receita por produtos (faturamento bruto). */
+  totalPrice: number;
+  /** Tarifa de venda e impostos. */
+  saleFee: number;
+  /** Custo de envio pago pelo vendedor (tarifas de envio − receita de envio paga pelo comprador). */
+  shippingCost: number;
+  /** Total (BRL) do relatório: valor líquido a receber. */
+  netAmount: number;
+  items: MercadoLivreOrderItem[];
+};
+
+export type MercadoLivreRejectedRow = {
+  /** Índice da linha em `rows`. */
+  rowIndex: number;
+  code: RowRejectCode;
+};
+
+const MONTHS_PT: Record<string, number> = {
+  janeiro: 0,
+  fevereiro: 1,
+  marco: 2,
+  abril: 3,
+  maio: 4,
+  junho: 5,
+  julho: 6,
+  agosto: 7,
+  setembro: 8,
+  outubro: 9,
+  novembro: 10,
+  dezembro: 11,
+};
+
+function normalizeHeader(s: string): string {
+  return String(s || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function pickNormalized(row: Record<string, unknown>, candidates: string[]): unknown {
+  const normalized = Object.entries(row || {}).map(([k, v]) => [normalizeHeader(k), v] as const);
+  for (const c of candidates) {
+    const nc = normalizeHeader(c);
+    const hit = normalized.find(([k]) => k === nc);
+    if (hit && hit[1] !== undefined && hit[1] !== null && String(hit[1]).trim() !== '') {
+      return hit[1];
+    }
+  }
+  return undefined;
+}
+
+function parseBrNumber(v: unknown): number {
+  if (v == null || v === '') return 0;
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  const s = String(v).trim().replace(/\s/g, '').replace(/^R\$/, '');
+  if (!s) return 0;
+  if (s.includes(',')) return Number(s.replace(/\./g, '').replace(',', '.')) || 0;
+  return Number(s) || 0;
+}
+
+/** "15 de janeiro de 2026 14:32 hs.", "15/01/2026 14:32", Date ou serial do Excel. */
+function parseMercadoLivreDate(v: unknown): Date | null {
+  if (v == null || v === '') return null;
+  if (v instanceof Date && !isNaN(v.getTime())) return v;
+  if (typeof v === 'number' && Number.isFinite(v)) {
+    const d = new Date(Math.round((v - 25569) * 86400 * 1000));
+    return isNaN(d.getTime()) ? null : d;
+  }
+  const s = normalizeHeader(String(v));
+  const long = s.match(/^(\d{1,2}) de ([a-z]+) de (\d{4})(?:\s+(\d{1,2}):(\d{2}))?/);
+  if (long && long[2] in MONTHS_PT) {
+    const d = new Date(Number(long[3]), MONTHS_PT[long[2]], Number(long[1]), Number(long[4] || 0), Number(long[5] || 0));
+    return isNaN(d.getTime()) ? null : d;
+  }
+  const short = s.match(/^(\d{2})\/(\d{2})\/(\d{4})(?:\s+(\d{2}):(\d{2}))?/);
+  if (short) {
+    const d = new Date(Number(short[3]), Number(short[2]) - 1, Number(short[1]), Number(short[4] || 0), Number(short[5] || 0));
+    return isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+/** Traduz o "Estado" do Mercado Livre para os status que as métricas já excluem (Cancelado / Devolvido / …). */
+export function normalizeMercadoLivreStatus(raw: string): string {
+  const s = normalizeHeader(raw);
+  if (!s) return '';
+  if (s.includes('cancelad') || s.includes('cancelamento')) return 'Cancelado';
+  if (s.includes('devolvid') || s.includes('devolucao')) return 'Devolvido';
+  if (s.includes('pagamento pendente') || s.includes('aguardando pagamento')) return 'Aguardando pagamento';
+  return String(raw).trim();
+}
+
+/** "Pacote de 3 produtos" → 3; null se não for linha de pacote. */
+function packSize(status: string): number | null {
+  const m = normalizeHeader(status).match(/^pacote de (\d+) produtos?/);
+  return m ? Number(m[1]) : null;
+}
+
+/**
+ * Agrupa as linhas do relatório de Vendas em pedidos com itens.
+ */
+export function parseMercadoLivreSalesRows(
+  rows: Record<string, unknown>[],
+  mapping?: ImportFieldMapping,
+): {
+  orders: MercadoLivreOrder[];
+  skipped: number;
+  rejected: MercadoLivreRejectedRow[];
+} {
+  // Aliases do perfil de mapeamento (se houver) antes da lista fixa
+  const keys = (field: string) => headerKeys(mapping, 'mercadolivre', field);
+  const money = (row: Record<string, unknown>, field: string) => parseBrNumber(pickNormalized(row, keys(field)));
+
+  const orders: MercadoLivreOrder[] = [];
+  const rejected: MercadoLivreRejectedRow[] = [];
+  let skipped = 0;
+
+  /** Pacote aberto: recebe as próximas `remaining` linhas como itens. */
+  let pack: { order: MercadoLivreOrder; remaining: number; fromChildren: boolean } | null = null;
+
+  const itemOf = (row: Record<string, unknown>): MercadoLivreOrderItem | null => {
+    const sku = String(pickNormalized(row, keys('sku')) ?? '').trim();
+    const listingId = String(pickNormalized(row, keys('listingId')) ?? '').trim();
+    const productCode = sku || listingId;
+    if (!productCode) return null;
+    const title = String(pickNormalized(row, keys('productName')) ?? '').trim();
+    const variation = String(pickNormalized(row, keys('variation')) ?? '').trim();
+    const quantity = Math.round(parseBrNumber(pickNormalized(row, keys('quantity')))) || 1;
+    const totalPrice = money(row, 'totalPrice');
+    const unitPrice = money(row, 'unitPrice') || (quantity > 0 ? totalPrice / quantity : 0);
+    return {
+      productCode,
+      name: (variation ? `${title} - ${variation}` : title) || productCode,
+      unitPrice: Number(unitPrice.toFixed(2)),
+      quantity,
+      totalPrice: Number((totalPrice || unitPrice * quantity).toFixed(2)),
+    };
+  };
+
+  const addItem = (order: MercadoLivreOrder, it: MercadoLivreOrderItem) => {
+    const existing = order.items.find((x) => x.productCode === it.productCode);
+    if (existing) {
+      existing.quantity += it.quantity;
+      existing.totalPrice = Number((existing.totalPrice + it.totalPrice).toFixed(2));
+      return;
+    }
+    order.items.push(it);
+  };
+
+  const moneyOf = (row: Record<string, unknown>) => {
+    const shippingFees = Math.abs(money(row, 'shippingCost'));
+    const shippingRevenue = money(row, 'shippingRevenue');
+    return {
+      totalPrice: money(row, 'totalPrice'),
+      saleFee: Math.abs(money(row, 'commissionFee')),
+      shippingCost: Math.max(0, shippingFees - shippingRevenue),
+      netAmount: money(row, 'netAmount'),
+    };
+  };
+
+  rows.forEach((row, rowIndex) => {
+    const orderId = String(pickNormalized(row, keys('orderId')) ?? '').trim();
+    const rawStatus = String(pickNormalized(row, keys('status')) ?? '').trim();
+
+    if (pack && pack.remaining > 0) {
+      pack.remaining--;
+      const it = itemOf(row);
+      if (!it) {
+        rejected.push({ rowIndex, code: 'missing_product' });
+        skipped++;
+        return;
+      }
+      addItem(pack.order, it);
+      // Linha de pacote não traz o estado da entrega; fica com o do 1º produto
+      if (!pack.order.status) pack.order.status = normalizeMercadoLivreStatus(rawStatus);
+      // Totais do pacote vazios: soma os valores das linhas dos produtos
+      if (pack.fromChildren) {
+        const m = moneyOf(row);
+        pack.order.totalPrice += m.totalPrice;
+        pack.order.saleFee += m.saleFee;
+        pack.order.shippingCost += m.shippingCost;
+        pack.order.netAmount += m.netAmount;
+      }
+      return;
+    }
+    pack = null;
+
+    if (!orderId) {
+      // Linhas de título/rodapé do relatório (sem N.º de venda) não contam como rejeição
+      if (Object.values(row).some((v) => String(v ?? '').trim() !== '')) {
+        rejected.push({ rowIndex, code: 'missing_order_id' });
+      }
+      skipped++;
+      return;
+    }
+    const orderDate = parseMercadoLivreDate(pickNormalized(row, keys('orderDate')));
+    if (!orderDate) {
+      rejected.push({ rowIndex, code: 'invalid_order_date' });
+      skipped++;
+      return;
+    }
+
+    const m = moneyOf(row);
+    const size = packSize(rawStatus);
+    const order: MercadoLivreOrder = {
+      orderId,
+      orderDate,
+      status: size != null ? '' : normalizeMercadoLivreStatus(rawStatus),
+      ...m,
+      items: [],
+    };
+    orders.push(order);
+
+    if (size != null) {
+      pack = { order, remaining: size, fromChildren: m.totalPrice === 0 && m.netAmount === 0 };
+      return;
+    }
+    const it = itemOf(row);
+    if (!it) {
+      orders.pop();
+      rejected.push({ rowIndex, code: 'missing_product' });
+      skipped++;
+      return;
+    }
+    addItem(order, it);
+  });
+
+  for (const o of orders) {
+    o.totalPrice = Number(o.totalPrice.toFixed(2));
+    o.saleFee = Number(o.saleFee.toFixed(2));
+    o.shippingCost = Number(o.shippingCost.toFixed(2));
+    o.netAmount = Number(o.netAmount.toFixed(2));
+  }
+
+  return { orders: orders.filter((o) => o.items.length > 0), skipped, rejected };
+}
+
+/** Índice da linha de cabeçalho no relatório (as primeiras linhas são título/filtros). */
+export function findMercadoLivreHeaderRow(aoa: unknown[][], orderIdHeaders: string[]): number {
+  const wanted = new Set(orderIdHeaders.map(normalizeHeader));
+  const limit = Math.min(aoa.length, 30);
+  for (let i = 0; i < limit; i++) {
+    if ((aoa[i] ?? []).some((c) => wanted.has(normalizeHeader(String(c ?? ''))))) return i;
+  }
+  return 0;
+}
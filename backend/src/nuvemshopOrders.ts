@@ -6,6 +6,10 @@
  * as seguintes repetem o número do pedido e só preenchem colunas de produto.
  */
 
+import type { RowRejectCode } from './importRejections.js';
+import { headerKeys, type ImportFieldMapping } from './importMapping.js';
+import { buyerFromRow, mergeBuyer, type BuyerInfo } from './customers.js';
+
 export const SOURCE_ATACADO = 'atacado';
 
 export type NuvemshopOrderItem = {
@@ -29,6 +33,7 @@ export type NuvemshopOrder = {
   fees: number;
   paymentType: string;
   paymentId: string | null;
+  buyer: BuyerInfo;
   items: NuvemshopOrderItem[];
 };
 
@@ -104,14 +109,25 @@ function cleanSku(v: unknown): string {
   return s.trim();
 }
 
+export type NuvemshopRejectedRow = {
+  /** Índice da linha em `rows` (pedido inválido: 1ª linha do pedido). */
+  rowIndex: number;
+  code: RowRejectCode;
+};
+
 /**
  * Agrupa linhas do CSV Nuvemshop em pedidos com itens.
  */
-export function parseNuvemshopSalesRows(rows: Record<string, unknown>[]): {
+export function parseNuvemshopSalesRows(
+  rows: Record<string, unknown>[],
+  mapping?: ImportFieldMapping,
+): {
   orders: NuvemshopOrder[];
   skipped: number;
+  rejected: NuvemshopRejectedRow[];
 } {
   type Acc = {
+    firstRowIndex: number;
     orderNumber: string;
     orderId: string;
     orderDate: Date | null;
@@ -123,27 +139,30 @@ export function parseNuvemshopSalesRows(rows: Record<string, unknown>[]): {
     fees: number;
     paymentType: string;
     paymentId: string | null;
+    buyer: BuyerInfo;
     items: NuvemshopOrderItem[];
   };
 
+  // Aliases do perfil de mapeamento (se houver) antes da lista fixa
+  const keys = (field: string) => headerKeys(mapping, 'atacado', field);
+
   const byNumber = new Map<string, Acc>();
   let skipped = 0;
+  const rejected: NuvemshopRejectedRow[] = [];
 
-  for (const row of rows) {
-    const orderNumberRaw = pickNormalized(row, [
-      'Numero do Pedido',
-      'Número do Pedido',
-      'Numero do pedido',
-    ]);
+  rows.forEach((row, rowIndex) => {
+    const orderNumberRaw = pickNormalized(row, keys('orderNumber'));
     const orderNumber = orderNumberRaw != null ? String(orderNumberRaw).trim() : '';
     if (!orderNumber) {
       skipped++;
-      continue;
+      rejected.push({ rowIndex, code: 'missing_order_id' });
+      return;
     }
 
     let acc = byNumber.get(orderNumber);
     if (!acc) {
       acc = {
+        firstRowIndex: rowIndex,
         orderNumber,
         orderId: '',
         orderDate: null,
@@ -155,76 +174,73 @@ export function parseNuvemshopSalesRows(rows: Record<string, unknown>[]): {
         fees: 0,
         paymentType: '',
         paymentId: null,
+        buyer: {},
         items: [],
       };
       byNumber.set(orderNumber, acc);
     }
 
-    const idPedido = pickNormalized(row, [
-      'Identificador do pedido',
-      'Identificador do Pedido',
-      'ID do pedido',
-    ]);
+    const idPedido = pickNormalized(row, keys('orderId'));
     if (idPedido != null && String(idPedido).trim()) {
       acc.orderId = String(idPedido).trim();
     }
 
-    const dateVal = pickNormalized(row, ['Data', 'Data do pedido', 'Data de criacao']);
+    const dateVal = pickNormalized(row, keys('orderDate'));
     const parsedDate = parseNuvemDate(dateVal);
     if (parsedDate && !acc.orderDate) acc.orderDate = parsedDate;
 
-    const statusVal = pickNormalized(row, ['Status do Pedido', 'Status do pedido']);
+    const statusVal = pickNormalized(row, keys('status'));
     if (statusVal != null && String(statusVal).trim()) {
       acc.status = String(statusVal).trim();
     }
 
-    const payStatus = pickNormalized(row, ['Status do Pagamento', 'Status do pagamento']);
+    const payStatus = pickNormalized(row, keys('paymentStatus'));
     if (payStatus != null && String(payStatus).trim()) {
       acc.paymentStatus = String(payStatus).trim();
     }
 
-    const totalVal = pickNormalized(row, ['Total']);
+    const totalVal = pickNormalized(row, keys('totalPrice'));
     if (totalVal != null && String(totalVal).trim() !== '') {
       acc.totalPrice = parseBrNumber(totalVal);
     }
 
-    const freightVal = pickNormalized(row, ['Valor do Frete', 'Valor do frete', 'Frete']);
+    const freightVal = pickNormalized(row, keys('freight'));
     if (freightVal != null && String(freightVal).trim() !== '') {
       acc.freight = parseBrNumber(freightVal);
     }
 
-    const discountVal = pickNormalized(row, ['Desconto']);
+    const discountVal = pickNormalized(row, keys('discount'));
     if (discountVal != null && String(discountVal).trim() !== '') {
       acc.discount = parseBrNumber(discountVal);
     }
 
-    const feesVal = pickNormalized(row, ['Taxas']);
+    const feesVal = pickNormalized(row, keys('fees'));
     if (feesVal != null && String(feesVal).trim() !== '') {
       acc.fees = parseBrNumber(feesVal);
     }
 
-    const payType = pickNormalized(row, ['Meio de pagamento']);
+    const payType = pickNormalized(row, keys('paymentType'));
     if (payType != null && String(payType).trim()) {
       acc.paymentType = String(payType).trim();
     } else {
-      const payForm = pickNormalized(row, ['Forma de Pagamento', 'Forma de pagamento']);
+      const payForm = pickNormalized(row, keys('paymentForm'));
       if (payForm != null && String(payForm).trim() && !acc.paymentType) {
         acc.paymentType = String(payForm).trim();
       }
     }
 
-    const payId = pickNormalized(row, [
-      'Identificador da transacao no meio de pagamento',
-      'Identificador da transação no meio de pagamento',
-    ]);
+    const payId = pickNormalized(row, keys('paymentId'));
     if (payId != null && String(payId).trim()) {
       acc.paymentId = String(payId).trim();
     }
 
-    const nameVal = pickNormalized(row, ['Nome do Produto', 'Nome do produto']);
-    const skuVal = pickNormalized(row, ['SKU', 'Sku']);
-    const qtyVal = pickNormalized(row, ['Quantidade Comprada', 'Quantidade']);
-    const unitVal = pickNormalized(row, ['Valor do Produto', 'Valor do produto']);
+    // Comprador só vem na 1ª linha do pedido; as demais ficam vazias
+    acc.buyer = mergeBuyer(acc.buyer, buyerFromRow((field) => pickNormalized(row, keys(field))));
+
+    const nameVal = pickNormalized(row, keys('productName'));
+    const skuVal = pickNormalized(row, keys('sku'));
+    const qtyVal = pickNormalized(row, keys('quantity'));
+    const unitVal = pickNormalized(row, keys('unitPrice'));
 
     const name = nameVal != null ? String(nameVal).trim() : '';
     const productCode = cleanSku(skuVal) || (name ? `sku_${normalizeHeader(name).slice(0, 40)}` : '');
@@ -241,18 +257,20 @@ export function parseNuvemshopSalesRows(rows: Record<string, unknown>[]): {
         sellerDiscount: 0,
       });
     }
-  }
+  });
 
   const orders: NuvemshopOrder[] = [];
   for (const acc of byNumber.values()) {
     if (!acc.orderDate) {
       skipped++;
+      rejected.push({ rowIndex: acc.firstRowIndex, code: 'invalid_order_date' });
       continue;
     }
     // Preferir identificador Nuvemshop; fallback para número do pedido na loja
     const orderId = acc.orderId || acc.orderNumber;
     if (!orderId) {
       skipped++;
+      rejected.push({ rowIndex: acc.firstRowIndex, code: 'missing_order_id' });
       continue;
     }
 
@@ -284,9 +302,10 @@ export function parseNuvemshopSalesRows(rows: Record<string, unknown>[]): {
       fees: acc.fees,
       paymentType: acc.paymentType,
       paymentId: acc.paymentId,
+      buyer: acc.buyer,
       items: acc.items,
     });
   }
 
-  return { orders, skipped };
+  return { orders, skipped, rejected };
 }
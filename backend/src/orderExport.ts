@@ -0,0 +1,326 @@
+import type { Express, Response } from 'express';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { createRequire } from 'module';
+import { resolveCombinedCost } from './masterProductCost.js';
+import { loadCombinedCostLookup } from './masterProductRoutes.js';
+import { SOURCE_MERCADO_LIVRE } from './mercadoLivreOrders.js';
+import { afterCursorWhere, buildOrderSearchWhere } from './orderSearch.js';
+import { buildMonthChannelRateMap, computeOrderProfitBreakdown, type MonthChannelRates } from './simulationMetrics.js';
+
+const require = createRequire(import.meta.url);
+const xlsx = require('xlsx');
+
+/**
+ * Exportação da lista de pedidos (mesmos filtros de GET /api/orders) em CSV ou XLSX, uma linha por
+ * pedido ou por item, com taxas, liquidação, frete, custo unitário (resolveCombinedCost na data do
+ * pedido) e lucro por pedido (computeOrderProfitBreakdown).
+ *
+ * Os pedidos são lidos em páginas de BATCH_SIZE. O CSV vai sendo escrito na resposta a cada página;
+ * o XLSX precisa montar a planilha inteira, por isso tem limite de linhas (acima disso, use CSV).
+ */
+
+export type OrderAmountsInput = {
+  orderId: string;
+  source: string;
+  orderDate: Date;
+  status: string;
+  totalPrice: number | null;
+  commissionFee: number | null;
+  serviceFee: number | null;
+  easyReturnFee: number | null;
+  autoRechargeFee: number | null;
+  partnerCommission: number | null;
+  settlementAmount: number | null;
+  estimatedSettlementAmount: number | null;
+  paymentId: string | null;
+  shippingFee: number | null;
+  items: Array<{
+    productCode: string;
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    discount: number | null;
+    sellerDiscount: number | null;
+    platformDiscount: number | null;
+  }>;
+};
+
+type Deps = {
+  prisma: PrismaClient;
+  /** mapOrderToGrossRevenueRow do index: taxas somadas e valor a receber, como no faturamento bruto. */
+  orderAmounts: (o: OrderAmountsInput) => { totalFees: number; amountToReceive: number };
+};
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+export type OrderExportLevel = 'order' | 'item';
+
+const BATCH_SIZE = 500;
+const XLSX_MAX_ROWS = 50000;
+
+const CONTENT_TYPES: Record<OrderExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const ORDER_COLUMNS = [
+  'Pedido',
+  'Canal',
+  'Data',
+  'Status',
+  'Forma de pagamento',
+  'Produtos',
+  'Qtd',
+  'Total',
+  'Comissão',
+  'Taxa de serviço',
+  'Devolução Fácil',
+  'Recarga automática',
+  'Comissão afiliados',
+  'Total de taxas',
+  'Frete',
+  'Liquidado',
+  'Previsto (onhold)',
+  'A receber',
+  'Custo de produção',
+  'Custo ADS',
+  'Custo operação',
+  'Imposto',
+  'Lucro líquido',
+  'Lucro % (bruto)',
+  'Devolução',
+];
+
+/** Por item: colunas do item e, só na primeira linha de cada pedido, os valores do pedido (somar a coluna não duplica). */
+const ITEM_COLUMNS = [
+  'Pedido',
+  'Canal',
+  'Data',
+  'Status',
+  'Forma de pagamento',
+  'Código',
+  'SKU',
+  'Item',
+  'Qtd',
+  'Preço unitário',
+  'Desconto vendedor',
+  'Total do item',
+  'Custo unitário',
+  'Custo do item',
+  'Total do pedido',
+  'Total de taxas',
+  'Frete',
+  'A receber',
+  'Lucro líquido do pedido',
+];
+
+const ORDER_INCLUDE = {
+  items: {
+    orderBy: { id: 'asc' },
+    include: { product: { select: { costPrice: true, sku: true } } },
+  },
+  returnRecord: { select: { id: true } },
+} satisfies Prisma.OrderInclude;
+
+type ExportOrder = Prisma.OrderGetPayload<{ include: typeof ORDER_INCLUDE }>;
+
+function round2(n: number): number {
+  return Math.round(Number(n || 0) * 100) / 100;
+}
+
+function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function monthKey(d: Date): string {
+  return dayKey(d).slice(0, 7);
+}
+
+/** CSV para o Excel pt-BR: ";" como separador e vírgula decimal. */
+function csvCell(v: unknown): string {
+  if (v == null) return '';
+  const s = typeof v === 'number' ? String(v).replace('.', ',') : String(v);
+  return /[";\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvLine(cells: unknown[]): string {
+  return `${cells.map(csvCell).join(';')}\r\n`;
+}
+
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  return res.write(chunk) ? Promise.resolve() : new Promise((resolve) => res.once('drain', () => resolve()));
+}
+
+/**
+ * Percorre os pedidos do where em ordem (data, id), BATCH_SIZE por vez, e devolve as linhas de cada página.
+ * Custos e taxas de rateio (ADS, operação, imposto) são carregados por página / por mês.
+ */
+async function forEachExportPage(
+  prisma: PrismaClient,
+  deps: Deps,
+  where: Prisma.OrderWhereInput,
+  level: OrderExportLevel,
+  onRows: (rows: unknown[][]) => Promise<void>,
+) {
+  const rateMap = new Map<string, MonthChannelRates>();
+  const loadedMonths = new Set<string>();
+  let last: ExportOrder | null = null;
+
+  for (;;) {
+    const after = last ? afterCursorWhere('orderDate', 'asc', { v: last.orderDate.toISOString(), id: last.id }) : null;
+    const orders: ExportOrder[] = await prisma.order.findMany({
+      where: after ? { AND: [where, after] } : where,
+      orderBy: [{ orderDate: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+      include: ORDER_INCLUDE,
+    });
+    if (orders.length === 0) break;
+    last = orders[orders.length - 1];
+
+    const newMonths = [...new Set(orders.map((o) => monthKey(o.orderDate)))].filter((m) => !loadedMonths.has(m));
+    if (newMonths.length > 0) {
+      const monthRates = await buildMonthChannelRateMap(prisma, newMonths);
+      monthRates.forEach((v, k) => rateMap.set(k, v));
+      newMonths.forEach((m) => loadedMonths.add(m));
+    }
+    const productIds = orders.flatMap((o) => o.items.map((i) => i.productId).filter((id): id is number => id != null));
+    const combinedCost = await loadCombinedCostLookup(prisma, productIds);
+
+    const rows: unknown[][] = [];
+    for (const o of orders) {
+      const amounts = deps.orderAmounts({
+        orderId: o.orderId,
+        source: o.source,
+        orderDate: o.orderDate,
+        status: o.status,
+        totalPrice: o.totalPrice,
+        commissionFee: o.commissionFee,
+        serviceFee: o.serviceFee,
+        easyReturnFee: o.easyReturnFee,
+        autoRechargeFee: o.autoRechargeFee,
+        partnerCommission: o.partnerCommission,
+        settlementAmount: o.settlementAmount,
+        estimatedSettlementAmount: o.estimatedSettlementAmount,
+        paymentId: o.paymentId,
+        shippingFee: o.source === SOURCE_MERCADO_LIVRE ? o.freight : null,
+        items: o.items,
+      });
+      const profit = computeOrderProfitBreakdown({
+        source: o.source,
+        orderId: o.orderId,
+        orderDate: o.orderDate,
+        orderTotal: Number(o.totalPrice || 0),
+        amountToReceive: amounts.amountToReceive,
+        items: o.items,
+        combinedCost,
+        rateMap,
+      });
+      const base = [o.orderId, o.source, dayKey(o.orderDate), o.status, o.paymentType ?? ''];
+
+      if (level === 'order') {
+        rows.push([
+          ...base,
+          o.productName,
+          o.quantity,
+          round2(o.totalPrice),
+          o.commissionFee,
+          o.serviceFee,
+          o.easyReturnFee,
+          o.autoRechargeFee,
+          o.partnerCommission,
+          amounts.totalFees,
+          o.freight,
+          o.settlementAmount,
+          o.estimatedSettlementAmount,
+          amounts.amountToReceive,
+          profit.custoProducao,
+          profit.custoAds,
+          profit.custoOperacao,
+          profit.imposto,
+          profit.lucroLiquido,
+          profit.lucroLiquidoPercentGross,
+          o.returnRecord ? 'Sim' : 'Não',
+        ]);
+        continue;
+      }
+
+      const orderCells = [round2(o.totalPrice), amounts.totalFees, o.freight, amounts.amountToReceive, profit.lucroLiquido];
+      if (o.items.length === 0) {
+        rows.push([...base, '', '', o.productName, o.quantity, null, null, round2(o.totalPrice), null, null, ...orderCells]);
+        continue;
+      }
+      o.items.forEach((it, idx) => {
+        const unitCost = resolveCombinedCost(combinedCost, it.productId, o.orderDate, it.product?.costPrice);
+        rows.push([
+          ...base,
+          it.productCode,
+          it.product?.sku ?? '',
+          it.name,
+          it.quantity,
+          round2(it.unitPrice),
+          round2(Math.abs(Number(it.sellerDiscount ?? 0))),
+          round2(it.totalPrice),
+          round2(unitCost),
+          round2(unitCost * (it.quantity || 0)),
+          ...(idx === 0 ? orderCells : orderCells.map(() => null)),
+        ]);
+      });
+    }
+    await onRows(rows);
+    if (orders.length < BATCH_SIZE) break;
+  }
+}
+
+export function registerOrderExportRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+
+  // GET /api/orders/export?format=csv|xlsx&level=order|item&<filtros de GET /api/orders>
+  app.get('/api/orders/export', async (req, res) => {
+    try {
+      const format: OrderExportFormat = String(req.query.format ?? 'csv').trim().toLowerCase() === 'xlsx' ? 'xlsx' : 'csv';
+      const level: OrderExportLevel = String(req.query.level ?? 'order').trim().toLowerCase() === 'item' ? 'item' : 'order';
+      const built = buildOrderSearchWhere(req.query as Record<string, unknown>);
+      if ('error' in built) return res.status(400).json({ message: built.error });
+      const { where } = built;
+
+      const header = level === 'item' ? ITEM_COLUMNS : ORDER_COLUMNS;
+      const fileName = `pedidos-${level === 'item' ? 'itens-' : ''}${dayKey(new Date())}.${format}`;
+
+      if (format === 'xlsx') {
+        const [orderCount, itemCount] = await Promise.all([
+          prisma.order.count({ where }),
+          level === 'item' ? prisma.orderItem.count({ where: { order: { is: where } } }) : Promise.resolve(0),
+        ]);
+        if (Math.max(orderCount, itemCount) > XLSX_MAX_ROWS) {
+          return res.status(400).json({
+            message: `O XLSX aceita até ${XLSX_MAX_ROWS.toLocaleString('pt-BR')} linhas; este filtro tem mais. Exporte em CSV ou reduza o período.`,
+          });
+        }
+        const sheet = xlsx.utils.aoa_to_sheet([header]);
+        await forEachExportPage(prisma, deps, where, level, async (rows) => {
+          xlsx.utils.sheet_add_aoa(sheet, rows, { origin: -1 });
+        });
+        const wb = xlsx.utils.book_new();
+        xlsx.utils.book_append_sheet(wb, sheet, level === 'item' ? 'Itens' : 'Pedidos');
+        const buffer = xlsx.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+        res.setHeader('Content-Type', CONTENT_TYPES.xlsx);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        return res.status(200).send(buffer);
+      }
+
+      res.status(200);
+      res.setHeader('Content-Type', CONTENT_TYPES.csv);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      await writeChunk(res, `\uFEFF${csvLine(header)}`);
+      await forEachExportPage(prisma, deps, where, level, async (rows) => {
+        await writeChunk(res, rows.map(csvLine).join(''));
+      });
+      return res.end();
+    } catch (e) {
+      console.error(e);
+      // CSV já começou a ser enviado: só encerra (o arquivo chega truncado)
+      if (res.headersSent) return res.end();
+      return res.status(500).json({ message: 'Erro ao exportar pedidos.' });
+    }
+  });
+}
@@ -0,0 +1,190 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { orderKeyOf, type SnapshotMap } from './importBatchRoutes.js';
+import { sameValue, type OrderFieldChange, type PlannedOrder } from './importPreview.js';
+
+/**
+ * Linha do tempo do pedido (OrderStatusEvent).
+ * Order.status e as taxas são sobrescritos a cada import/sync; aqui fica um evento por alteração de
+ * status, taxas ou totais, com a origem (import, API, manual...). Pedido criado também gera evento.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+/** Campos do Order acompanhados na linha do tempo. */
+export const ORDER_HISTORY_FIELDS = [
+  'status',
+  'totalPrice',
+  'commissionFee',
+  'serviceFee',
+  'easyReturnFee',
+  'autoRechargeFee',
+  'partnerCommission',
+  'settlementAmount',
+  'estimatedSettlementAmount',
+  'freight',
+  'refundedAmount',
+  'reverseShippingFee',
+] as const;
+
+/** select do Prisma com os campos acompanhados (para ler o estado antes de gravar). */
+export const ORDER_HISTORY_SELECT = {
+  orderId: true,
+  source: true,
+  ...Object.fromEntries(ORDER_HISTORY_FIELDS.map((f) => [f, true])),
+} as Record<string, true>;
+
+export type OrderChangeOrigin = 'import' | 'api' | 'manual' | 'settlement' | 'returns' | 'revert';
+
+export type OrderEventDraft = {
+  orderId: string;
+  source: string;
+  /** Estado antes (null = pedido criado agora). */
+  previous: Record<string, unknown> | null;
+  /** Dados gravados; campos ausentes não foram tocados. */
+  next: Record<string, unknown>;
+  origin: OrderChangeOrigin;
+  /** Ex.: nome da planilha, "Webhook", "Income XLSX". */
+  detail?: string;
+};
+
+/** data do OrderStatusEvent, ou null se nenhum campo acompanhado mudou. */
+export function orderEventData(draft: OrderEventDraft) {
+  const prev = draft.previous;
+  const changes: OrderFieldChange[] = [];
+  for (const field of ORDER_HISTORY_FIELDS) {
+    if (!(field in draft.next)) continue;
+    const old = prev ? (prev[field] ?? null) : null;
+    const value = draft.next[field] ?? null;
+    if (prev ? !sameValue(old, value) : value !== null && value !== '') {
+      changes.push({ field, old, new: value });
+    }
+  }
+  if (prev && changes.length === 0) return null;
+
+  const previousStatus = prev ? String(prev.status ?? '') : null;
+  const status = 'status' in draft.next ? String(draft.next.status ?? '') : (previousStatus ?? '');
+  return {
+    orderId: draft.orderId,
+    source: draft.source,
+    status,
+    previousStatus,
+    changes,
+    origin: draft.origin,
+    detail: draft.detail ?? '',
+  };
+}
+
+/**
+ * createMany dos eventos para entrar no mesmo $transaction da gravação, depois das ops dos pedidos
+ * (FK em Order). Lista vazia quando nada mudou.
+ */
+export function buildOrderEventsCreate(prismaAny: any, drafts: OrderEventDraft[]): any[] {
+  const data = drafts.map(orderEventData).filter((d): d is NonNullable<typeof d> => d !== null);
+  return data.length > 0 ? [prismaAny.orderStatusEvent.createMany({ data })] : [];
+}
+
+/** Eventos de um upload: compara os pedidos planejados com o snapshot do lote. */
+export function importOrderEvents(
+  planned: PlannedOrder[],
+  previousOrders: SnapshotMap,
+  origin: OrderChangeOrigin,
+  detail?: string,
+): OrderEventDraft[] {
+  const seen = new Set<string>();
+  const out: OrderEventDraft[] = [];
+  // Mesmo pedido repetido no arquivo: vale a última linha (é o que o upsert deixa gravado)
+  for (const o of [...planned].reverse()) {
+    const key = orderKeyOf(o.orderId, o.source);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ orderId: o.orderId, source: o.source, previous: previousOrders.get(key) ?? null, next: o.data, origin, detail });
+  }
+  return out.reverse();
+}
+
+/** Grava o evento de uma alteração pontual (PATCH, sync de um pedido, devolução). */
+export async function recordOrderEvent(prismaAny: any, draft: OrderEventDraft) {
+  const data = orderEventData(draft);
+  if (data) await prismaAny.orderStatusEvent.create({ data });
+}
+
+/** Estado atual dos campos acompanhados (null se o pedido não existe). */
+export async function loadOrderHistoryState(prismaAny: any, orderId: string, source: string) {
+  return prismaAny.order.findUnique({
+    where: { orderId_source: { orderId, source } },
+    select: ORDER_HISTORY_SELECT,
+  }) as Promise<Record<string, unknown> | null>;
+}
+
+type Milestone = 'shipped' | 'delivered' | 'completed' | 'cancelled' | 'returned';
+
+const MILESTONE_PATTERNS: Array<{ milestone: Milestone; pattern: RegExp }> = [
+  { milestone: 'cancelled', pattern: /cancel/i },
+  { milestone: 'returned', pattern: /devolvid|returned/i },
+  { milestone: 'completed', pattern: /conclu|complet|finaliz/i },
+  { milestone: 'delivered', pattern: /entregue|delivered/i },
+  { milestone: 'shipped', pattern: /^enviado|tr[aâ]nsito|transit|shipped|a caminho/i },
+];
+
+function milestoneOf(status: string): Milestone | null {
+  return MILESTONE_PATTERNS.find((m) => m.pattern.test(status))?.milestone ?? null;
+}
+
+/**
+ * Dias entre a data do pedido e a primeira vez que cada marco apareceu na linha do tempo.
+ * O evento de criação não conta: pedido que já chega concluído no primeiro import não tem prazo medível.
+ */
+export function computeLeadTimes(
+  orderDate: Date,
+  events: Array<{ status: string; previousStatus: string | null; createdAt: Date }>,
+) {
+  const out: Record<Milestone, number | null> = {
+    shipped: null,
+    delivered: null,
+    completed: null,
+    cancelled: null,
+    returned: null,
+  };
+  for (const e of events) {
+    if (e.previousStatus === null) continue;
+    const m = milestoneOf(e.status);
+    if (!m || out[m] != null) continue;
+    const days = (new Date(e.createdAt).getTime() - orderDate.getTime()) / 86400000;
+    out[m] = Math.max(0, Math.round(days * 10) / 10);
+  }
+  return out;
+}
+
+export function registerOrderHistoryRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/orders/:orderId/:source/history → { order, events, leadTimes }
+  app.get('/api/orders/:orderId/:source/history', async (req, res) => {
+    try {
+      const orderId = decodeURIComponent(String(req.params.orderId ?? '')).trim();
+      const source = decodeURIComponent(String(req.params.source ?? '')).trim().toLowerCase();
+      const order = await prisma.order.findUnique({
+        where: { orderId_source: { orderId, source } },
+        select: { orderId: true, source: true, orderDate: true, status: true, createdAt: true },
+      });
+      if (!order) return res.status(404).json({ message: 'Pedido não encontrado.' });
+
+      const events = await prismaAny.orderStatusEvent.findMany({
+        where: { orderId, source },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      return res.status(200).json({
+        order,
+        events,
+        leadTimes: computeLeadTimes(new Date(order.orderDate), events),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar histórico do pedido.' });
+    }
+  });
+}
@@ -0,0 +1,152 @@
+import { loadOrderHistoryState, recordOrderEvent } from './orderHistory.js';
+import { RETURN_CONDITIONS, type ReturnCondition } from './returnReasons.js';
+
+/**
+ * Devolução por item (OrderReturnLine).
+ * Cada linha aponta um OrderItem, a quantidade devolvida, o valor reembolsado e a condição.
+ * Com todos os itens devolvidos o pedido vira "Devolvido" (sai das métricas, como antes); com parte deles
+ * a devolução fica partial e o reembolso vai para Order.refundedAmount, descontado do faturamento.
+ * Linhas resellable voltam ao estoque do produto mestre (computeRestockedByProduct).
+ * Troca (OrderExchange): as linhas levam exchangeId, reembolso 0 por padrão e não contam para a devolução
+ * total — o pedido original continua vendido e a reposição é um pedido manual Atacado à parte.
+ */
+
+export type ReturnLineInput = {
+  orderItemId: number;
+  quantity: number;
+  condition?: string;
+  refundAmount?: number | null;
+};
+
+export type PlannedReturnLine = {
+  orderItemId: number;
+  productId: number | null;
+  productCode: string;
+  quantity: number;
+  refundAmount: number;
+  condition: ReturnCondition;
+};
+
+function roundMoney(n: number) {
+  return Math.round(Number(n || 0) * 100) / 100;
+}
+
+export function isReturnCondition(v: unknown): v is ReturnCondition {
+  return (RETURN_CONDITIONS as readonly string[]).includes(String(v));
+}
+
+/**
+ * Valida as linhas contra os itens do pedido (só o que ainda não foi devolvido).
+ * Sem linhas = devolve tudo o que resta, na condição padrão. Reembolso ausente = proporcional ao item.
+ */
+export async function planReturnLines(
+  prismaAny: any,
+  orderId: string,
+  source: string,
+  input: ReturnLineInput[] | null | undefined,
+  defaultCondition: ReturnCondition,
+  { exchange = false }: { exchange?: boolean } = {},
+): Promise<{ lines: PlannedReturnLine[] } | { error: string }> {
+  const items: Array<{
+    id: number;
+    productId: number | null;
+    productCode: string;
+    name: string;
+    quantity: number;
+    totalPrice: number;
+    returnLines: Array<{ quantity: number }>;
+  }> = await prismaAny.orderItem.findMany({
+    where: { orderId, source },
+    include: { returnLines: { select: { quantity: true } } },
+    orderBy: { id: 'asc' },
+  });
+  const remainingOf = (it: (typeof items)[number]) =>
+    (it.quantity || 0) - it.returnLines.reduce((s, l) => s + (l.quantity || 0), 0);
+  const refundOf = (it: (typeof items)[number], qty: number) =>
+    !exchange && it.quantity > 0 ? roundMoney((Number(it.totalPrice || 0) * qty) / it.quantity) : 0;
+
+  if (!input || input.length === 0) {
+    return {
+      lines: items
+        .filter((it) => remainingOf(it) > 0)
+        .map((it) => ({
+          orderItemId: it.id,
+          productId: it.productId,
+          productCode: it.productCode,
+          quantity: remainingOf(it),
+          refundAmount: refundOf(it, remainingOf(it)),
+          condition: defaultCondition,
+        })),
+    };
+  }
+
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const requested = new Map<number, number>();
+  const lines: PlannedReturnLine[] = [];
+  for (const raw of input) {
+    const it = byId.get(Number(raw?.orderItemId));
+    if (!it) return { error: `Item ${raw?.orderItemId} não pertence ao pedido.` };
+    const qty = Number(raw.quantity);
+    const already = requested.get(it.id) ?? 0;
+    if (!Number.isInteger(qty) || qty <= 0 || already + qty > remainingOf(it)) {
+      return { error: `Quantidade inválida para "${it.name}" (restam ${remainingOf(it) - already} para devolver).` };
+    }
+    const condition = raw.condition == null || raw.condition === '' ? defaultCondition : raw.condition;
+    if (!isReturnCondition(condition)) return { error: 'Condição inválida (use resellable ou damaged).' };
+    const refund = raw.refundAmount == null || String(raw.refundAmount) === '' ? refundOf(it, qty) : Number(raw.refundAmount);
+    if (!Number.isFinite(refund) || refund < 0) return { error: `Reembolso inválido para "${it.name}".` };
+    requested.set(it.id, already + qty);
+    lines.push({
+      orderItemId: it.id,
+      productId: it.productId,
+      productCode: it.productCode,
+      quantity: qty,
+      refundAmount: roundMoney(refund),
+      condition,
+    });
+  }
+  return { lines };
+}
+
+/**
+ * Recalcula devolução e pedido a partir das linhas: partial, reembolso, Order.refundedAmount e status.
+ * Devolução sem linhas (legado / sync da plataforma) conta como total; itens trocados não contam.
+ * Sem devolução, o status "Devolvido" é limpo.
+ */
+export async function settleOrderReturn(prismaAny: any, orderId: string, source: string, detail: string) {
+  const key = { orderId_source: { orderId, source } };
+  const [items, record] = await Promise.all([
+    prismaAny.orderItem.findMany({ where: { orderId, source }, select: { id: true, quantity: true } }),
+    prismaAny.orderReturn.findUnique({ where: key, include: { lines: true } }),
+  ]);
+  const previous = await loadOrderHistoryState(prismaAny, orderId, source);
+  if (!previous) return null;
+
+  let next: Record<string, unknown>;
+  if (!record) {
+    next = { refundedAmount: null, ...(previous.status === 'Devolvido' ? { status: '' } : {}) };
+  } else {
+    const lines: Array<{ orderItemId: number | null; exchangeId: number | null; quantity: number; refundAmount: number }> =
+      record.lines;
+    const returnedByItem = new Map<number, number>();
+    for (const l of lines) {
+      if (l.orderItemId == null || l.exchangeId != null) continue;
+      returnedByItem.set(l.orderItemId, (returnedByItem.get(l.orderItemId) ?? 0) + l.quantity);
+    }
+    const full =
+      lines.length === 0 ||
+      items.every((it: { id: number; quantity: number }) => (returnedByItem.get(it.id) ?? 0) >= (it.quantity || 0));
+    const refund = roundMoney(lines.reduce((s, l) => s + Number(l.refundAmount || 0), 0));
+    await prismaAny.orderReturn.update({
+      where: key,
+      data: { partial: !full, ...(lines.length > 0 ? { refundAmount: refund } : {}) },
+    });
+    next = full
+      ? { refundedAmount: null, status: 'Devolvido' }
+      : { refundedAmount: refund > 0 ? refund : null, ...(previous.status === 'Devolvido' ? { status: '' } : {}) };
+  }
+
+  await prismaAny.order.update({ where: key, data: next });
+  await recordOrderEvent(prismaAny, { orderId, source, previous, next, origin: 'returns', detail });
+  return next;
+}
@@ -0,0 +1,318 @@
+import type { Express } from 'express';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { dateFromDayKey } from './adSpendDaily.js';
+import { SOURCE_MERCADO_LIVRE } from './mercadoLivreOrders.js';
+import { monthStartFromYYYYMM, TRAY_ORDER_SOURCES_LIST } from './simulationMetrics.js';
+
+/**
+ * Busca de pedidos da tela Pedidos: filtros no servidor, ordenação e paginação por cursor (keyset),
+ * com totais do conjunto filtrado. O offset continua aceito para chamadas antigas.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+export const ORDER_SORT_FIELDS = ['orderDate', 'totalPrice', 'orderId'] as const;
+export type OrderSortField = (typeof ORDER_SORT_FIELDS)[number];
+
+/** Canais com comissão/taxa vinda da plataforma (income, escrow, relatório de vendas). */
+const FEE_CHANNELS = ['shopee', 'tiktok', SOURCE_MERCADO_LIVRE];
+
+export type OrderCursor = { v: string | number; id: number };
+
+export function encodeOrderCursor(field: OrderSortField, row: Record<string, unknown>): string {
+  const raw = row[field];
+  const v = raw instanceof Date ? raw.toISOString() : (raw as string | number);
+  return Buffer.from(JSON.stringify({ v, id: row.id })).toString('base64url');
+}
+
+function decodeOrderCursor(s: string): OrderCursor | null {
+  try {
+    const c = JSON.parse(Buffer.from(s, 'base64url').toString('utf8'));
+    if (!c || typeof c.id !== 'number' || (typeof c.v !== 'string' && typeof c.v !== 'number')) return null;
+    return c as OrderCursor;
+  } catch {
+    return null;
+  }
+}
+
+function listParam(v: unknown): string[] {
+  return String(v ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function flagParam(v: unknown): boolean | null {
+  const s = String(v ?? '').trim().toLowerCase();
+  if (s === '1' || s === 'true' || s === 'sim') return true;
+  if (s === '0' || s === 'false' || s === 'nao' || s === 'não') return false;
+  return null;
+}
+
+function moneyParam(v: unknown): number | null | undefined {
+  const s = String(v ?? '').trim();
+  if (!s) return undefined;
+  const n = Number(s.replace(',', '.'));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Query string → where do Prisma.
+ * channel=shopee,tray (tray = atacado + tray_varejo + legado) · start/end=YYYY-MM · from/to=YYYY-MM-DD ·
+ * status=A,B (none = sem status) · paymentType=... (none = sem forma) · sku · masterProductId ·
+ * minTotal/maxTotal · hasReturn=1|0 · missingFees=1 · missingCost=1 · q (ID do pedido ou produto).
+ */
+export function buildOrderSearchWhere(query: Record<string, unknown>): { where: Prisma.OrderWhereInput } | { error: string } {
+  const and: Prisma.OrderWhereInput[] = [];
+
+  const q = String(query.q ?? '').trim();
+  if (q) {
+    and.push({
+      OR: [
+        { orderId: { contains: q, mode: 'insensitive' } },
+        { productName: { contains: q, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  // Período: meses (start/end) ou dias (from/to, inclusivo); os dois juntos restringem
+  const startStr = String(query.start ?? '').trim();
+  if (startStr) {
+    const endStr = String(query.end ?? startStr).trim() || startStr;
+    const monthStart = monthStartFromYYYYMM(startStr);
+    const monthEnd = monthStartFromYYYYMM(endStr);
+    if (!monthStart || !monthEnd) return { error: 'Parâmetros start/end inválidos (use YYYY-MM).' };
+    const rangeStart = monthStart.getTime() <= monthEnd.getTime() ? monthStart : monthEnd;
+    const rangeEnd = monthStart.getTime() <= monthEnd.getTime() ? monthEnd : monthStart;
+    and.push({ orderDate: { gte: rangeStart, lt: new Date(rangeEnd.getFullYear(), rangeEnd.getMonth() + 1, 1) } });
+  }
+  const fromStr = String(query.from ?? '').trim();
+  const toStr = String(query.to ?? '').trim();
+  if (fromStr || toStr) {
+    const from = fromStr ? dateFromDayKey(fromStr) : null;
+    const to = toStr ? dateFromDayKey(toStr) : null;
+    if ((fromStr && !from) || (toStr && !to)) return { error: 'Parâmetros from/to inválidos (use YYYY-MM-DD).' };
+    and.push({
+      orderDate: {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lt: new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1) } : {}),
+      },
+    });
+  }
+
+  const channels = listParam(String(query.channel ?? '').toLowerCase()).filter((c) => c !== 'all');
+  if (channels.length > 0) {
+    const sources = new Set<string>();
+    for (const c of channels) {
+      if (c === 'tray') TRAY_ORDER_SOURCES_LIST.forEach((s) => sources.add(s));
+      else sources.add(c);
+    }
+    and.push({ source: { in: [...sources] } });
+  }
+
+  const statuses = listParam(query.status);
+  if (statuses.length > 0) {
+    and.push({ status: { in: statuses.map((s) => (s === 'none' ? '' : s)) } });
+  }
+
+  const paymentType = String(query.paymentType ?? '').trim();
+  if (paymentType === 'none') {
+    and.push({ OR: [{ paymentType: null }, { paymentType: '' }] });
+  } else if (paymentType) {
+    and.push({ paymentType: { equals: paymentType, mode: 'insensitive' } });
+  }
+
+  const sku = String(query.sku ?? '').trim();
+  if (sku) {
+    and.push({
+      items: {
+        some: {
+          OR: [
+            { productCode: { contains: sku, mode: 'insensitive' } },
+            { product: { sku: { contains: sku, mode: 'insensitive' } } },
+            { product: { masterProduct: { sku: { contains: sku, mode: 'insensitive' } } } },
+          ],
+        },
+      },
+    });
+  }
+  const masterProductIdStr = String(query.masterProductId ?? '').trim();
+  if (masterProductIdStr) {
+    const masterProductId = parseInt(masterProductIdStr, 10);
+    if (!Number.isFinite(masterProductId)) return { error: 'masterProductId inválido.' };
+    and.push({ items: { some: { product: { masterProductId } } } });
+  }
+
+  const minTotal = moneyParam(query.minTotal);
+  const maxTotal = moneyParam(query.maxTotal);
+  if (minTotal === null || maxTotal === null) return { error: 'minTotal/maxTotal devem ser números.' };
+  if (minTotal !== undefined || maxTotal !== undefined) {
+    and.push({
+      totalPrice: {
+        ...(minTotal !== undefined ? { gte: minTotal } : {}),
+        ...(maxTotal !== undefined ? { lte: maxTotal } : {}),
+      },
+    });
+  }
+
+  const hasReturn = flagParam(query.hasReturn);
+  if (hasReturn !== null) {
+    and.push({ returnRecord: hasReturn ? { isNot: null } : { is: null } });
+  }
+
+  // Sem taxas: canal de marketplace sem comissão nem taxa de serviço gravadas (income/escrow ainda não veio)
+  if (flagParam(query.missingFees) === true) {
+    and.push({ source: { in: FEE_CHANNELS }, commissionFee: null, serviceFee: null });
+  }
+
+  // Sem custo: algum item sem produto vinculado, ou cujo produto (e o mestre) não tem custo nem histórico
+  if (flagParam(query.missingCost) === true) {
+    and.push({
+      items: {
+        some: {
+          OR: [
+            { productId: null },
+            {
+              product: {
+                costPrice: null,
+                costHistory: { none: {} },
+                OR: [{ masterProductId: null }, { masterProduct: { costHistory: { none: {} } } }],
+              },
+            },
+          ],
+        },
+      },
+    });
+  }
+
+  return { where: and.length > 0 ? { AND: and } : {} };
+}
+
+/** Condição "depois do cursor" para a ordenação (campo, id) na direção pedida. */
+export function afterCursorWhere(field: OrderSortField, dir: 'asc' | 'desc', cursor: OrderCursor): Prisma.OrderWhereInput | null {
+  const cmp = dir === 'desc' ? 'lt' : 'gt';
+  let v: Date | number | string;
+  if (field === 'orderDate') {
+    const d = new Date(String(cursor.v));
+    if (isNaN(d.getTime())) return null;
+    v = d;
+  } else if (field === 'totalPrice') {
+    v = Number(cursor.v);
+    if (!Number.isFinite(v)) return null;
+  } else {
+    v = String(cursor.v);
+  }
+  return {
+    OR: [{ [field]: { [cmp]: v } }, { [field]: v, id: { [cmp]: cursor.id } }],
+  } as Prisma.OrderWhereInput;
+}
+
+export function registerOrderSearchRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+
+  // Lista pedidos com filtros, ordenação e cursor
+  // GET /api/orders?channel=shopee,tray&from=2026-06-01&to=2026-06-30&status=Concluído&hasReturn=1&sort=totalPrice&dir=desc&limit=50&cursor=...
+  // → { orders, total, totals: { count, totalPrice, quantity, freight }, limit, nextCursor }
+  app.get('/api/orders', async (req, res) => {
+    try {
+      const built = buildOrderSearchWhere(req.query as Record<string, unknown>);
+      if ('error' in built) return res.status(400).json({ message: built.error });
+      const { where } = built;
+
+      const sortRaw = String(req.query.sort ?? 'orderDate').trim();
+      const sort: OrderSortField = (ORDER_SORT_FIELDS as readonly string[]).includes(sortRaw)
+        ? (sortRaw as OrderSortField)
+        : 'orderDate';
+      const dir = String(req.query.dir ?? 'desc').trim().toLowerCase() === 'asc' ? 'asc' : 'desc';
+      const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '100'), 10) || 100));
+      const offset = Math.max(0, parseInt(String(req.query.offset ?? '0'), 10) || 0);
+
+      const cursorStr = String(req.query.cursor ?? '').trim();
+      let pageWhere: Prisma.OrderWhereInput = where;
+      if (cursorStr) {
+        const cursor = decodeOrderCursor(cursorStr);
+        const after = cursor ? afterCursorWhere(sort, dir, cursor) : null;
+        if (!after) return res.status(400).json({ message: 'Cursor inválido.' });
+        pageWhere = { AND: [where, after] };
+      }
+
+      const [rows, agg] = await Promise.all([
+        prisma.order.findMany({
+          where: pageWhere,
+          orderBy: [{ [sort]: dir }, { id: dir }],
+          skip: cursorStr ? 0 : offset,
+          take: limit + 1,
+          select: {
+            id: true,
+            orderId: true,
+            orderDate: true,
+            productName: true,
+            quantity: true,
+            totalPrice: true,
+            source: true,
+            status: true,
+            paymentType: true,
+            freight: true,
+            returnRecord: { select: { id: true } },
+          },
+        }),
+        prisma.order.aggregate({
+          where,
+          _count: { _all: true },
+          _sum: { totalPrice: true, quantity: true, freight: true },
+        }),
+      ]);
+
+      const hasMore = rows.length > limit;
+      const page = hasMore ? rows.slice(0, limit) : rows;
+      const total = agg._count._all;
+      return res.status(200).json({
+        orders: page.map(({ returnRecord, ...o }) => ({
+          ...o,
+          orderDate: o.orderDate.toISOString(),
+          paymentType: o.paymentType ?? '',
+          freight: o.freight ?? null,
+          hasReturn: returnRecord != null,
+        })),
+        total,
+        totals: {
+          count: total,
+          totalPrice: Math.round(Number(agg._sum.totalPrice ?? 0) * 100) / 100,
+          quantity: Number(agg._sum.quantity ?? 0),
+          freight: Math.round(Number(agg._sum.freight ?? 0) * 100) / 100,
+        },
+        limit,
+        offset: cursorStr ? null : offset,
+        nextCursor: hasMore ? encodeOrderCursor(sort, page[page.length - 1] as Record<string, unknown>) : null,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar pedidos.' });
+    }
+  });
+
+  // GET /api/orders/facets → { statuses, paymentTypes } (valores distintos para os filtros da tela Pedidos)
+  app.get('/api/orders/facets', async (_req, res) => {
+    try {
+      const [statusRows, paymentRows] = await Promise.all([
+        prisma.order.groupBy({ by: ['status'], _count: { _all: true } }),
+        prisma.order.groupBy({ by: ['paymentType'], _count: { _all: true } }),
+      ]);
+      const byCountDesc = (a: { count: number }, b: { count: number }) => b.count - a.count;
+      return res.status(200).json({
+        statuses: statusRows
+          .map((r) => ({ value: r.status, count: r._count._all }))
+          .sort(byCountDesc),
+        paymentTypes: paymentRows
+          .filter((r) => String(r.paymentType ?? '').trim())
+          .map((r) => ({ value: String(r.paymentType).trim(), count: r._count._all }))
+          .sort(byCountDesc),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar filtros de pedidos.' });
+    }
+  });
+}
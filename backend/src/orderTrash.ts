@@ -0,0 +1,494 @@
+import type { Express, Request } from 'express';
+import { Prisma, type PrismaClient } from '@prisma/client';
+
+/**
+ * Lixeira de pedidos.
+ * DELETE /api/orders e DELETE /api/order-items não apagam mais de vez: os pedidos, itens, devoluções e a
+ * linha do tempo saem das tabelas (e portanto de todas as métricas) e viram OrderTrashEntry de uma
+ * OrderDeletion, que registra quem excluiu, o filtro usado e as quantidades. Dá para restaurar pela tela
+ * Lixeira; depois de retentionDays (OrderTrashConfig) as entradas são apagadas de vez e fica só o registro.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+export type TrashEntity = 'order' | 'orderItem' | 'orderReturn' | 'orderStatusEvent';
+export type OrderDeletionKind = 'orders' | 'items';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const CHUNK = 1000;
+/** Colunas DateTime das linhas guardadas (voltam a Date na restauração). */
+const DATE_FIELDS = ['orderDate', 'createdAt', 'returnDate'];
+
+/** Quem excluiu: ?deletedBy=, header X-User ou, sem nada, o IP de origem. */
+export function deletedByOf(req: Request): string {
+  const explicit = String(req.query.deletedBy ?? req.get('x-user') ?? '').trim();
+  return (explicit || req.ip || '').slice(0, 120);
+}
+
+/** Linha do Prisma → data do OrderTrashEntry (sem id; datas em ISO). */
+function toTrashData(row: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(row)) {
+    if (k === 'id') continue;
+    out[k] = v instanceof Date ? v.toISOString() : v;
+  }
+  return out;
+}
+
+function fromTrashData(data: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...data };
+  for (const f of DATE_FIELDS) {
+    if (typeof out[f] === 'string') out[f] = new Date(out[f] as string);
+  }
+  return out;
+}
+
+function chunks<T>(list: T[], size = CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+}
+
+function keyOf(orderId: string, source: string) {
+  return `${orderId}|${source}`;
+}
+
+function groupBySource(keys: Array<{ orderId: string; source: string }>): Map<string, string[]> {
+  const out = new Map<string, Set<string>>();
+  for (const k of keys) {
+    if (!out.has(k.source)) out.set(k.source, new Set());
+    out.get(k.source)!.add(k.orderId);
+  }
+  return new Map([...out.entries()].map(([s, ids]) => [s, [...ids]]));
+}
+
+export async function getTrashRetentionDays(prismaAny: any): Promise<number> {
+  const row = await prismaAny.orderTrashConfig.findFirst({ orderBy: { id: 'desc' } });
+  return row ? Number(row.retentionDays) : DEFAULT_RETENTION_DAYS;
+}
+
+export type TrashOrdersInput = {
+  where: Prisma.OrderWhereInput;
+  filter: Record<string, unknown>;
+  source: string;
+  deletedBy: string;
+};
+
+/**
+ * Move para a lixeira os pedidos do where (com itens, devolução e linha do tempo) e os remove.
+ * Leitura e exclusão na mesma transação, com os pedidos travados (FOR UPDATE) antes de ler o resto: um import
+ * ou sync no meio espera a transação, então o cascade só apaga linhas que foram guardadas. Os pedidos são
+ * apagados pelas chaves lidas, não pelo where, para não sumir com algo que entrou no meio.
+ */
+export async function trashOrders(prisma: PrismaClient, input: TrashOrdersInput) {
+  return prisma.$transaction(
+    async (tx) => {
+      const txAny = tx as any;
+      const candidates = await tx.order.findMany({ where: input.where, select: { id: true } });
+      const orderIds = candidates.map((o) => o.id);
+      // Inserts de itens/devoluções/eventos desses pedidos (FK) e upserts do próprio pedido esperam o fim da transação
+      for (const part of chunks(orderIds)) {
+        await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" IN (${Prisma.join(part)}) FOR UPDATE`;
+      }
+
+      const orders: Prisma.OrderGetPayload<true>[] = [];
+      const items: Prisma.OrderItemGetPayload<true>[] = [];
+      const returns: Prisma.OrderReturnGetPayload<{ include: { lines: true; exchanges: true } }>[] = [];
+      const events: Array<Record<string, unknown>> = [];
+      for (const part of chunks(orderIds)) {
+        const related = { order: { is: { id: { in: part } } } };
+        const [o, i, r, e] = await Promise.all([
+          tx.order.findMany({ where: { id: { in: part } } }),
+          tx.orderItem.findMany({ where: related }),
+          tx.orderReturn.findMany({ where: related, include: { lines: true, exchanges: true } }),
+          txAny.orderStatusEvent.findMany({ where: related }) as Promise<Array<Record<string, unknown>>>,
+        ]);
+        orders.push(...o);
+        items.push(...i);
+        returns.push(...r);
+        events.push(...e);
+      }
+
+      const entry = (entity: TrashEntity) => (row: Record<string, unknown>) => ({
+        entity,
+        orderId: String(row.orderId),
+        source: String(row.source),
+        data: toTrashData(row),
+      });
+      const entries = [
+        ...orders.map(entry('order')),
+        ...items.map(entry('orderItem')),
+        // Linhas e trocas da devolução vão junto no data (os ids mudam na restauração)
+        ...returns.map(({ lines, exchanges, ...r }) => ({
+          ...entry('orderReturn')(r),
+          data: {
+            ...toTrashData(r),
+            lines: lines.map((l) => toTrashData(l as unknown as Record<string, unknown>)),
+            // O id da troca fica para religar as linhas (exchangeId) na restauração
+            exchanges: exchanges.map((x) => ({ ...toTrashData(x as unknown as Record<string, unknown>), id: x.id })),
+          },
+        })),
+        ...events.map(entry('orderStatusEvent')),
+      ];
+
+      const deletion = await txAny.orderDeletion.create({
+        data: {
+          kind: 'orders',
+          source: input.source,
+          filter: input.filter,
+          deletedBy: input.deletedBy,
+          orderCount: orders.length,
+          itemCount: items.length,
+          returnCount: returns.length,
+        },
+      });
+      for (const part of chunks(entries)) {
+        await txAny.orderTrashEntry.createMany({ data: part.map((e) => ({ ...e, deletionId: deletion.id })) });
+      }
+      // Itens, devolução e eventos saem junto pelo cascade
+      for (const [source, ids] of groupBySource(orders)) {
+        for (const part of chunks(ids)) {
+          await tx.order.deleteMany({ where: { source, orderId: { in: part } } });
+        }
+      }
+      return deletion;
+    },
+    { timeout: 120000 },
+  );
+}
+
+/** Move para a lixeira todos os itens de uma origem (DELETE /api/order-items). */
+export async function trashOrderItems(prisma: PrismaClient, input: { source: string; deletedBy: string }) {
+  const items = await prisma.orderItem.findMany({ where: { source: input.source } });
+  return prisma.$transaction(
+    async (tx) => {
+      const txAny = tx as any;
+      const deletion = await txAny.orderDeletion.create({
+        data: {
+          kind: 'items',
+          source: input.source,
+          filter: { source: input.source },
+          deletedBy: input.deletedBy,
+          itemCount: items.length,
+        },
+      });
+      for (const part of chunks(items)) {
+        await txAny.orderTrashEntry.createMany({
+          data: part.map((it) => ({
+            deletionId: deletion.id,
+            entity: 'orderItem',
+            orderId: it.orderId,
+            source: it.source,
+            data: toTrashData(it as unknown as Record<string, unknown>),
+          })),
+        });
+        await tx.orderItem.deleteMany({ where: { id: { in: part.map((it) => it.id) } } });
+      }
+      return deletion;
+    },
+    { timeout: 120000 },
+  );
+}
+
+export type RestoreResult = {
+  orders: number;
+  items: number;
+  returns: number;
+  /** Pedidos que voltaram a existir depois da exclusão (reimportados) ficam como estão, sem os itens/devoluções guardados. */
+  skippedOrders: number;
+  /** Itens/devoluções/eventos sem pedido para voltar (ex.: pedido reexcluído ou reimportado) ou já existentes. */
+  skippedRows: number;
+};
+
+/**
+ * Devolve às tabelas tudo que a exclusão guardou; a exclusão fica como restored e as entradas somem.
+ * Retorna null se a exclusão já não está na lixeira (restaurada ou apagada por outra requisição).
+ */
+export async function restoreOrderDeletion(prisma: PrismaClient, deletionId: number): Promise<RestoreResult | null> {
+  return prisma.$transaction(
+    async (tx) => {
+      const txAny = tx as any;
+      // Update condicional primeiro: trava a exclusão; uma restauração concorrente espera e cai no count 0
+      const claimed = await txAny.orderDeletion.updateMany({
+        where: { id: deletionId, status: 'trashed' },
+        data: { status: 'restored', restoredAt: new Date() },
+      });
+      if (claimed.count === 0) return null;
+
+      const entries: Array<{ entity: TrashEntity; orderId: string; source: string; data: Record<string, unknown> }> =
+        await txAny.orderTrashEntry.findMany({ where: { deletionId }, orderBy: { id: 'asc' } });
+      const byEntity = (entity: TrashEntity) => entries.filter((e) => e.entity === entity);
+      const orders = byEntity('order');
+      const others = entries.filter((e) => e.entity !== 'order');
+
+      // Produto removido depois da exclusão: o item volta sem vínculo (mesmo efeito do onDelete: SetNull)
+      const productIds = [
+        ...new Set(byEntity('orderItem').map((e) => e.data.productId).filter((v): v is number => typeof v === 'number')),
+      ];
+      const existingProducts = new Set<number>();
+      for (const part of chunks(productIds)) {
+        const rows = await tx.product.findMany({ where: { id: { in: part } }, select: { id: true } });
+        rows.forEach((r) => existingProducts.add(r.id));
+      }
+
+      const existingOrders = new Set<string>();
+      for (const [source, ids] of groupBySource(entries)) {
+        for (const part of chunks(ids)) {
+          const rows = await tx.order.findMany({
+            where: { source, orderId: { in: part } },
+            select: { orderId: true, source: true },
+          });
+          rows.forEach((r) => existingOrders.add(keyOf(r.orderId, r.source)));
+        }
+      }
+
+      // Pedido reimportado depois da exclusão: fica como está, e as linhas guardadas dele não voltam
+      const trashedOrders = new Set(orders.map((e) => keyOf(e.orderId, e.source)));
+      const toRestore = orders.filter((e) => !existingOrders.has(keyOf(e.orderId, e.source)));
+      let restoredOrders = 0;
+      for (const part of chunks(toRestore)) {
+        const r = await tx.order.createMany({ data: part.map((e) => fromTrashData(e.data)) as any, skipDuplicates: true });
+        restoredOrders += r.count;
+      }
+      const restoredKeys = new Set(toRestore.map((e) => keyOf(e.orderId, e.source)));
+
+      // Exclusão de itens (sem pedidos guardados): voltam para o pedido que ainda existe
+      const restorable = others.filter((e) => {
+        const key = keyOf(e.orderId, e.source);
+        return trashedOrders.has(key) ? restoredKeys.has(key) : existingOrders.has(key);
+      });
+      const dataOf = (entity: TrashEntity) =>
+        restorable
+          .filter((e) => e.entity === entity)
+          .map((e) => {
+            const data = fromTrashData(e.data);
+            if (entity === 'orderItem' && typeof data.productId === 'number' && !existingProducts.has(data.productId)) {
+              data.productId = null;
+            }
+            return data;
+          });
+
+      let items = 0;
+      let returns = 0;
+      let events = 0;
+      for (const part of chunks(dataOf('orderItem'))) {
+        items += (await tx.orderItem.createMany({ data: part as any, skipDuplicates: true })).count;
+      }
+      const returnRows = dataOf('orderReturn');
+      const plainReturns = returnRows.filter((r) => !Array.isArray(r.lines) || r.lines.length === 0);
+      for (const part of chunks(plainReturns.map(({ lines: _lines, exchanges: _exchanges, ...r }) => r))) {
+        returns += (await tx.orderReturn.createMany({ data: part as any, skipDuplicates: true })).count;
+      }
+      // Devolução com linhas: uma a uma, recriando as trocas e religando cada linha ao item restaurado (mesmo productCode)
+      for (const { lines, exchanges, ...r } of returnRows.filter((row) => !plainReturns.includes(row))) {
+        const key = { orderId: String(r.orderId), source: String(r.source) };
+        if (await tx.orderReturn.findUnique({ where: { orderId_source: key }, select: { id: true } })) continue;
+        const created = await tx.orderReturn.create({ data: r as any, select: { id: true } });
+        const exchangeIds = new Map<number, number>();
+        for (const raw of (Array.isArray(exchanges) ? exchanges : []) as Array<Record<string, unknown>>) {
+          const { id: oldId, returnId: _returnId, priceDifference, ...exchange } = fromTrashData(raw);
+          // Entradas anteriores ao rename guardam o total como priceDifference
+          if (exchange.replacementTotal == null && priceDifference != null) exchange.replacementTotal = priceDifference;
+          const x = await txAny.orderExchange.create({ data: { ...exchange, returnId: created.id }, select: { id: true } });
+          exchangeIds.set(Number(oldId), x.id);
+        }
+        const lineData = [];
+        for (const raw of lines as Array<Record<string, unknown>>) {
+          const { returnId: _returnId, exchangeId, ...line } = fromTrashData(raw);
+          const item = await tx.orderItem.findUnique({
+            where: { orderId_source_productCode: { ...key, productCode: String(line.productCode) } },
+            select: { id: true },
+          });
+          lineData.push({
+            ...line,
+            returnId: created.id,
+            orderItemId: item?.id ?? null,
+            exchangeId: exchangeId == null ? null : (exchangeIds.get(Number(exchangeId)) ?? null),
+          });
+        }
+        await txAny.orderReturnLine.createMany({ data: lineData });
+        returns += 1;
+      }
+      for (const part of chunks(dataOf('orderStatusEvent'))) {
+        events += (await txAny.orderStatusEvent.createMany({ data: part })).count;
+      }
+
+      await txAny.orderTrashEntry.deleteMany({ where: { deletionId } });
+      return {
+        orders: restoredOrders,
+        items,
+        returns,
+        skippedOrders: orders.length - restoredOrders,
+        skippedRows: others.length - items - returns - events,
+      };
+    },
+    { timeout: 120000 },
+  );
+}
+
+/** Apaga de vez as entradas das exclusões informadas que ainda estão na lixeira (status purged; o registro fica). */
+async function purgeDeletions(prismaAny: any, ids: number[]) {
+  if (ids.length === 0) return 0;
+  let purged = 0;
+  for (const id of ids) {
+    // Mesmo update condicional da restauração: quem chegar depois não mexe nas entradas
+    purged += await prismaAny.$transaction(async (tx: any) => {
+      const claimed = await tx.orderDeletion.updateMany({
+        where: { id, status: 'trashed' },
+        data: { status: 'purged', purgedAt: new Date() },
+      });
+      if (claimed.count === 0) return 0;
+      await tx.orderTrashEntry.deleteMany({ where: { deletionId: id } });
+      return 1;
+    });
+  }
+  return purged;
+}
+
+/** Exclusões na lixeira há mais de retentionDays. */
+export async function purgeExpiredOrderTrash(prisma: PrismaClient) {
+  const prismaAny = prisma as any;
+  const retentionDays = await getTrashRetentionDays(prismaAny);
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  const expired = await prismaAny.orderDeletion.findMany({
+    where: { status: 'trashed', createdAt: { lt: cutoff } },
+    select: { id: true },
+  });
+  return purgeDeletions(prismaAny, expired.map((d: { id: number }) => d.id));
+}
+
+/** Limpeza da lixeira no processo da API: na subida e a cada 6 h. */
+export function startOrderTrashPurge(prisma: PrismaClient) {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredOrderTrash(prisma);
+      if (purged > 0) console.log(`[lixeira] ${purged} exclusão(ões) expirada(s) apagada(s) de vez.`);
+    } catch (e) {
+      console.error('[lixeira] Falha ao limpar exclusões expiradas:', e);
+    }
+  };
+  void run();
+  setInterval(() => void run(), PURGE_INTERVAL_MS).unref();
+}
+
+export function registerOrderTrashRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/order-trash?status=trashed|all → { retentionDays, deletions: [{ ..., expiresAt }] }
+  app.get('/api/order-trash', async (req, res) => {
+    try {
+      const status = String(req.query.status ?? 'trashed').trim();
+      const retentionDays = await getTrashRetentionDays(prismaAny);
+      const rows = await prismaAny.orderDeletion.findMany({
+        where: status === 'all' ? {} : { status },
+        orderBy: { createdAt: 'desc' },
+        take: 200,
+      });
+      return res.status(200).json({
+        retentionDays,
+        deletions: rows.map((d: any) => ({
+          ...d,
+          expiresAt: d.status === 'trashed' ? new Date(new Date(d.createdAt).getTime() + retentionDays * DAY_MS) : null,
+        })),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar lixeira.' });
+    }
+  });
+
+  // GET /api/order-trash/config → { retentionDays }
+  app.get('/api/order-trash/config', async (_req, res) => {
+    try {
+      return res.status(200).json({ retentionDays: await getTrashRetentionDays(prismaAny) });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar configuração da lixeira.' });
+    }
+  });
+
+  // PUT /api/order-trash/config  body: { retentionDays: 30 }
+  app.put('/api/order-trash/config', async (req, res) => {
+    try {
+      const retentionDays = Number(req.body?.retentionDays);
+      if (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > 3650) {
+        return res.status(400).json({ message: 'retentionDays deve ser um inteiro entre 1 e 3650.' });
+      }
+      const existing = await prismaAny.orderTrashConfig.findFirst({ orderBy: { id: 'desc' } });
+      if (existing) {
+        await prismaAny.orderTrashConfig.update({ where: { id: existing.id }, data: { retentionDays } });
+      } else {
+        await prismaAny.orderTrashConfig.create({ data: { retentionDays } });
+      }
+      return res.status(200).json({ retentionDays });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar configuração da lixeira.' });
+    }
+  });
+
+  // GET /api/order-trash/:id → exclusão + pedidos/itens guardados (até 500 de cada)
+  app.get('/api/order-trash/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: 'id inválido.' });
+      const deletion = await prismaAny.orderDeletion.findUnique({ where: { id } });
+      if (!deletion) return res.status(404).json({ message: 'Exclusão não encontrada.' });
+      const entityRows = (entity: TrashEntity) =>
+        prismaAny.orderTrashEntry.findMany({ where: { deletionId: id, entity }, orderBy: { id: 'asc' }, take: 500 });
+      const [orders, items] = await Promise.all([entityRows('order'), entityRows('orderItem')]);
+      return res.status(200).json({
+        deletion,
+        orders: orders.map((e: any) => e.data),
+        items: items.map((e: any) => e.data),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar exclusão.' });
+    }
+  });
+
+  // POST /api/order-trash/:id/restore
+  app.post('/api/order-trash/:id/restore', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: 'id inválido.' });
+      const deletion = await prismaAny.orderDeletion.findUnique({ where: { id } });
+      if (!deletion) return res.status(404).json({ message: 'Exclusão não encontrada.' });
+      const result = deletion.status === 'trashed' ? await restoreOrderDeletion(prisma, id) : null;
+      if (!result) return res.status(409).json({ message: 'Esta exclusão não está mais na lixeira.' });
+      const skipped =
+        result.skippedOrders > 0 ? ` ${result.skippedOrders} pedido(s) já existiam de novo e foram mantidos como estão.` : '';
+      return res.status(200).json({
+        message: `Restaurado: ${result.orders} pedido(s), ${result.items} item(ns), ${result.returns} devolução(ões).${skipped}`,
+        ...result,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao restaurar exclusão.' });
+    }
+  });
+
+  // DELETE /api/order-trash/:id → apaga de vez agora (o registro da exclusão fica como purged)
+  app.delete('/api/order-trash/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: 'id inválido.' });
+      const deletion = await prismaAny.orderDeletion.findUnique({ where: { id } });
+      if (!deletion) return res.status(404).json({ message: 'Exclusão não encontrada.' });
+      const purged = deletion.status === 'trashed' ? await purgeDeletions(prismaAny, [id]) : 0;
+      if (purged === 0) {
+        return res.status(409).json({ message: 'Esta exclusão não está mais na lixeira.' });
+      }
+      return res.status(200).json({ success: true, id });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao esvaziar exclusão da lixeira.' });
+    }
+  });
+}
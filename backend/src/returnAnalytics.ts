@@ -0,0 +1,375 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { resolveCombinedCost } from './masterProductCost.js';
+import { loadCombinedCostLookup } from './masterProductRoutes.js';
+import {
+  ORDER_STATUS_EXCLUDED_KEEP_RETURNED,
+  listMonthsInclusive,
+  monthStartFromYYYYMM,
+  monthStrFromDate,
+} from './simulationMetrics.js';
+
+/**
+ * Análise de devoluções: taxa de devolução (unidades devolvidas / vendidas) por produto mestre, variação (SKU),
+ * canal e motivo, com tendência mensal e faturamento/margem perdidos.
+ *
+ * Coorte pela data do pedido: a devolução conta no mês da venda, então a taxa compara as mesmas vendas.
+ * Pedidos "Devolvido" entram nas vendas (saíram depois); cancelados e não pagos, não.
+ * Devolução sem linhas (legado / sync) conta todos os itens, com reembolso = valor do item e sem volta ao estoque.
+ * Margem perdida: reembolso − custo das unidades que voltaram para revenda. Troca não tem reembolso e a reposição
+ * é um pedido próprio: só a unidade avariada pesa (o custo dela). Trocas entram na taxa e aparecem em exchangedUnits.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+export type ReturnAnalyticsConfig = {
+  returnRateThreshold: number;
+  minSoldUnits: number;
+};
+
+const DEFAULT_CONFIG: ReturnAnalyticsConfig = { returnRateThreshold: 15, minSoldUnits: 10 };
+const DEFAULT_RANGE_MONTHS = 6;
+const MAX_ROWS = 200;
+const NO_MASTER_KEY = 'none';
+const NO_REASON = 'Não informado';
+
+type Bucket = {
+  soldUnits: number;
+  soldRevenue: number;
+  returnedUnits: number;
+  exchangedUnits: number;
+  revenueLost: number;
+  marginLost: number;
+};
+
+export type ReturnRateRow = Bucket & {
+  key: string;
+  label: string;
+  returnRate: number;
+  flagged: boolean;
+};
+
+function roundMoney(n: number) {
+  return Math.round(Number(n || 0) * 100) / 100;
+}
+
+function emptyBucket(): Bucket {
+  return { soldUnits: 0, soldRevenue: 0, returnedUnits: 0, exchangedUnits: 0, revenueLost: 0, marginLost: 0 };
+}
+
+function rateOf(b: Bucket) {
+  return b.soldUnits > 0 ? roundMoney((b.returnedUnits / b.soldUnits) * 100) : 0;
+}
+
+export async function getReturnAnalyticsConfig(prismaAny: any): Promise<ReturnAnalyticsConfig> {
+  const row = await prismaAny.returnAnalyticsConfig.findFirst({ orderBy: { id: 'desc' } });
+  return row ? { returnRateThreshold: row.returnRateThreshold, minSoldUnits: row.minSoldUnits } : { ...DEFAULT_CONFIG };
+}
+
+type BucketMap = ReturnType<typeof createBucketMap>;
+
+/** Soma por chave, guardando o rótulo da primeira ocorrência. */
+function createBucketMap() {
+  const rows = new Map<string, { label: string; bucket: Bucket }>();
+  return {
+    get(key: string, label: string): Bucket {
+      let row = rows.get(key);
+      if (!row) {
+        row = { label, bucket: emptyBucket() };
+        rows.set(key, row);
+      }
+      return row.bucket;
+    },
+    toRows(config: ReturnAnalyticsConfig | null): ReturnRateRow[] {
+      return [...rows.entries()].map(([key, { label, bucket }]) => {
+        const returnRate = rateOf(bucket);
+        return {
+          key,
+          label,
+          ...roundBucket(bucket),
+          returnRate,
+          flagged: !!config && bucket.soldUnits >= config.minSoldUnits && returnRate > config.returnRateThreshold,
+        };
+      });
+    },
+  };
+}
+
+function roundBucket(b: Bucket): Bucket {
+  return {
+    ...b,
+    soldRevenue: roundMoney(b.soldRevenue),
+    revenueLost: roundMoney(b.revenueLost),
+    marginLost: roundMoney(b.marginLost),
+  };
+}
+
+function addSold(buckets: Bucket[], units: number, revenue: number) {
+  for (const b of buckets) {
+    b.soldUnits += units;
+    b.soldRevenue += revenue;
+  }
+}
+
+function addReturned(buckets: Bucket[], units: number, exchange: boolean, revenueLost: number, marginLost: number) {
+  for (const b of buckets) {
+    b.returnedUnits += units;
+    if (exchange) b.exchangedUnits += units;
+    b.revenueLost += revenueLost;
+    b.marginLost += marginLost;
+  }
+}
+
+type AnalyticsOrder = {
+  orderId: string;
+  source: string;
+  orderDate: Date;
+  status: string;
+  items: Array<{
+    id: number;
+    productCode: string;
+    name: string;
+    quantity: number;
+    totalPrice: number;
+    productId: number | null;
+    product: {
+      sku: string | null;
+      variationName: string | null;
+      costPrice: number | null;
+      masterProduct: { id: number; sku: string; name: string } | null;
+    } | null;
+  }>;
+  returnRecord: {
+    reason: string;
+    lines: Array<{
+      orderItemId: number | null;
+      productCode: string;
+      quantity: number;
+      refundAmount: number;
+      condition: string;
+      exchangeId: number | null;
+    }>;
+  } | null;
+};
+
+export function registerReturnAnalyticsRoutes(app: Express, { prisma }: Deps) {
+  const prismaAny = prisma as any;
+
+  /**
+   * GET /api/returns/analytics?start=YYYY-MM&end=YYYY-MM&channel=all
+   * Sem start: últimos 6 meses. Retorna totais, tendência mensal (com taxa por canal) e as quebras por canal,
+   * motivo, produto mestre e variação; flagged = taxa acima do limite configurado com vendas suficientes.
+   */
+  app.get('/api/returns/analytics', async (req, res) => {
+    try {
+      const channel = String(req.query.channel ?? 'all').trim() || 'all';
+      const now = new Date();
+      const defaultStart = monthStrFromDate(new Date(now.getFullYear(), now.getMonth() - (DEFAULT_RANGE_MONTHS - 1), 1));
+      const startStr = String(req.query.start ?? '').trim() || defaultStart;
+      const endStr = String(req.query.end ?? '').trim() || (req.query.start ? startStr : monthStrFromDate(now));
+      const monthStart = monthStartFromYYYYMM(startStr);
+      const monthEnd = monthStartFromYYYYMM(endStr);
+      if (!monthStart || !monthEnd) {
+        return res.status(400).json({ message: 'Parâmetros start/end inválidos (use YYYY-MM).' });
+      }
+      const [from, to] = monthStart <= monthEnd ? [monthStart, monthEnd] : [monthEnd, monthStart];
+      const until = new Date(to.getFullYear(), to.getMonth() + 1, 1);
+
+      const config = await getReturnAnalyticsConfig(prismaAny);
+      const orders: AnalyticsOrder[] = await prismaAny.order.findMany({
+        where: {
+          orderDate: { gte: from, lt: until },
+          NOT: [...ORDER_STATUS_EXCLUDED_KEEP_RETURNED],
+          ...(channel !== 'all' ? { source: channel } : {}),
+        },
+        select: {
+          orderId: true,
+          source: true,
+          orderDate: true,
+          status: true,
+          items: {
+            select: {
+              id: true,
+              productCode: true,
+              name: true,
+              quantity: true,
+              totalPrice: true,
+              productId: true,
+              product: {
+                select: {
+                  sku: true,
+                  variationName: true,
+                  costPrice: true,
+                  masterProduct: { select: { id: true, sku: true, name: true } },
+                },
+              },
+            },
+          },
+          returnRecord: {
+            select: {
+              reason: true,
+              lines: {
+                select: {
+                  orderItemId: true,
+                  productCode: true,
+                  quantity: true,
+                  refundAmount: true,
+                  condition: true,
+                  exchangeId: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      const returnedProductIds = orders
+        .filter((o) => o.returnRecord || o.status === 'Devolvido')
+        .flatMap((o) => o.items.map((it) => it.productId))
+        .filter((id): id is number => id != null);
+      const costLookup = await loadCombinedCostLookup(prismaAny, returnedProductIds);
+
+      const months = listMonthsInclusive(monthStrFromDate(from), monthStrFromDate(to));
+      const totals = emptyBucket();
+      const byMonth = new Map(months.map((m) => [m, emptyBucket()]));
+      const byMonthChannel = new Map<string, BucketMap>();
+      const channels = createBucketMap();
+      const reasons = createBucketMap();
+      const masters = createBucketMap();
+      const variations = createBucketMap();
+
+      for (const o of orders) {
+        const month = monthStrFromDate(new Date(o.orderDate));
+        const monthBucket = byMonth.get(month) ?? emptyBucket();
+        byMonth.set(month, monthBucket);
+        const monthChannels = byMonthChannel.get(month) ?? createBucketMap();
+        byMonthChannel.set(month, monthChannels);
+        const orderBuckets = [totals, monthBucket, channels.get(o.source, o.source), monthChannels.get(o.source, o.source)];
+
+        const itemBuckets = (it: AnalyticsOrder['items'][number]) => {
+          const master = it.product?.masterProduct;
+          const sku = String(it.product?.sku || '').trim() || it.productCode;
+          return [
+            master
+              ? masters.get(String(master.id), `${master.name} (${master.sku})`)
+              : masters.get(NO_MASTER_KEY, 'Sem produto mestre'),
+            variations.get(sku, it.product?.variationName ? `${it.name} — ${it.product.variationName}` : it.name),
+          ];
+        };
+
+        for (const it of o.items) {
+          addSold([...orderBuckets, ...itemBuckets(it)], it.quantity || 0, Number(it.totalPrice || 0));
+        }
+
+        if (!o.returnRecord && o.status !== 'Devolvido') continue;
+        const reason = o.returnRecord?.reason || NO_REASON;
+        const recordLines = o.returnRecord?.lines ?? [];
+        const lines =
+          recordLines.length > 0
+            ? recordLines
+            : o.items.map((it) => ({
+                orderItemId: it.id,
+                productCode: it.productCode,
+                quantity: it.quantity || 0,
+                refundAmount: Number(it.totalPrice || 0),
+                condition: '',
+                exchangeId: null,
+              }));
+        const itemById = new Map(o.items.map((it) => [it.id, it]));
+        const itemByCode = new Map(o.items.map((it) => [it.productCode, it]));
+
+        for (const line of lines) {
+          const it = (line.orderItemId != null ? itemById.get(line.orderItemId) : undefined) ?? itemByCode.get(line.productCode);
+          const unitCost = it ? resolveCombinedCost(costLookup, it.productId, new Date(o.orderDate), it.product?.costPrice) : 0;
+          const cost = unitCost * line.quantity;
+          const exchange = line.exchangeId != null;
+          const refund = Number(line.refundAmount || 0);
+          const marginLost = exchange
+            ? line.condition === 'damaged' ? cost : 0
+            : refund - (line.condition === 'resellable' ? cost : 0);
+          addReturned(
+            [...orderBuckets, reasons.get(reason, reason), ...(it ? itemBuckets(it) : [])],
+            line.quantity,
+            exchange,
+            refund,
+            marginLost,
+          );
+        }
+      }
+
+      const byReturned = (a: ReturnRateRow, b: ReturnRateRow) => b.returnedUnits - a.returnedUnits || b.returnRate - a.returnRate;
+      const withActivity = (rows: ReturnRateRow[]) => rows.filter((r) => r.soldUnits > 0 || r.returnedUnits > 0);
+      const variationRows = withActivity(variations.toRows(config));
+      const reasonRows = reasons.toRows(null).map((r) => ({
+        ...r,
+        // Motivo não tem vendas próprias: taxa sobre o total vendido e participação nas devoluções
+        soldUnits: totals.soldUnits,
+        returnRate: totals.soldUnits > 0 ? roundMoney((r.returnedUnits / totals.soldUnits) * 100) : 0,
+        share: totals.returnedUnits > 0 ? roundMoney((r.returnedUnits / totals.returnedUnits) * 100) : 0,
+      }));
+
+      return res.json({
+        start: monthStrFromDate(from),
+        end: monthStrFromDate(to),
+        channel,
+        config,
+        totals: { ...roundBucket(totals), returnRate: rateOf(totals) },
+        trend: [...byMonth.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([month, b]) => ({
+            month,
+            ...roundBucket(b),
+            returnRate: rateOf(b),
+            byChannel: Object.fromEntries(
+              (byMonthChannel.get(month)?.toRows(null) ?? []).map((r) => [r.key, r.returnRate]),
+            ),
+          })),
+        channels: channels.toRows(null).sort((a, b) => b.returnRate - a.returnRate),
+        reasons: reasonRows.sort(byReturned),
+        masterProducts: withActivity(masters.toRows(config)).sort(byReturned).slice(0, MAX_ROWS),
+        variations: variationRows.sort(byReturned).slice(0, MAX_ROWS),
+        flagged: variationRows.filter((r) => r.flagged).sort((a, b) => b.returnRate - a.returnRate),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao calcular análise de devoluções.' });
+    }
+  });
+
+  // GET /api/returns/analytics/config → { returnRateThreshold, minSoldUnits }
+  app.get('/api/returns/analytics/config', async (_req, res) => {
+    try {
+      return res.status(200).json(await getReturnAnalyticsConfig(prismaAny));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar configuração da análise de devoluções.' });
+    }
+  });
+
+  // PUT /api/returns/analytics/config  body: { returnRateThreshold: 15, minSoldUnits: 10 }
+  app.put('/api/returns/analytics/config', async (req, res) => {
+    try {
+      const returnRateThreshold = Number(req.body?.returnRateThreshold);
+      const minSoldUnits = Number(req.body?.minSoldUnits ?? DEFAULT_CONFIG.minSoldUnits);
+      if (!Number.isFinite(returnRateThreshold) || returnRateThreshold < 0 || returnRateThreshold > 100) {
+        return res.status(400).json({ message: 'returnRateThreshold deve ser um percentual entre 0 e 100.' });
+      }
+      if (!Number.isInteger(minSoldUnits) || minSoldUnits < 0) {
+        return res.status(400).json({ message: 'minSoldUnits deve ser um inteiro maior ou igual a 0.' });
+      }
+      const data = { returnRateThreshold, minSoldUnits };
+      const existing = await prismaAny.returnAnalyticsConfig.findFirst({ orderBy: { id: 'desc' } });
+      if (existing) {
+        await prismaAny.returnAnalyticsConfig.update({ where: { id: existing.id }, data });
+      } else {
+        await prismaAny.returnAnalyticsConfig.create({ data });
+      }
+      return res.status(200).json(data);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar configuração da análise de devoluções.' });
+    }
+  });
+}
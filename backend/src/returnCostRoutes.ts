@@ -0,0 +1,71 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { CONTRIBUTION_DASHBOARD_CHANNELS } from './simulationMetrics.js';
+
+/**
+ * Custo de logística reversa por pedido devolvido, por canal (ReturnCostSetting).
+ * Usado na linha "devoluções" da simulação quando o pedido não trouxe a taxa de envio reversa importada.
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+const SALES_CHANNELS: readonly string[] = CONTRIBUTION_DASHBOARD_CHANNELS;
+
+export function registerReturnCostRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/simulation/return-costs → { channels, costs: { shopee: 12.5, ... } }
+  app.get('/api/simulation/return-costs', async (_req, res) => {
+    try {
+      const rows = await prismaAny.returnCostSetting.findMany({ orderBy: { channel: 'asc' } });
+      const costs: Record<string, number> = {};
+      for (const ch of SALES_CHANNELS) costs[ch] = 0;
+      for (const r of rows) costs[r.channel] = Number(r.logisticsCost || 0);
+      return res.status(200).json({ channels: SALES_CHANNELS, costs });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar custos de devolução.' });
+    }
+  });
+
+  // PUT /api/simulation/return-costs  body: { costs: { shopee: 12.5, tray_varejo: 20 } }
+  app.put('/api/simulation/return-costs', async (req, res) => {
+    try {
+      const raw = req.body?.costs;
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return res.status(400).json({ message: 'costs obrigatório (ex.: { "shopee": 12.5 }).' });
+      }
+      const entries: Array<{ channel: string; logisticsCost: number }> = [];
+      for (const [channel, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (!SALES_CHANNELS.includes(channel)) {
+          return res.status(400).json({ message: `Canal de venda inválido: ${channel}.` });
+        }
+        const logisticsCost = Number(value ?? 0);
+        if (!Number.isFinite(logisticsCost) || logisticsCost < 0) {
+          return res.status(400).json({ message: 'Custo de logística reversa deve ser um número maior ou igual a zero.' });
+        }
+        entries.push({ channel, logisticsCost: Math.round(logisticsCost * 100) / 100 });
+      }
+
+      await prisma.$transaction(
+        entries.map((e) =>
+          prismaAny.returnCostSetting.upsert({
+            where: { channel: e.channel },
+            create: e,
+            update: { logisticsCost: e.logisticsCost },
+          }),
+        ),
+      );
+      return res.status(200).json({
+        success: true,
+        costs: Object.fromEntries(entries.map((e) => [e.channel, e.logisticsCost])),
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar custos de devolução.' });
+    }
+  });
+}
@@ -0,0 +1,19 @@
+/** Motivos de devolução da tela Devoluções (mesma lista do frontend, Returns.tsx). */
+export const RETURN_REASONS = [
+  'Endereço não encontrado',
+  'Não Serviu',
+  'Produto com defeito',
+  'Desistência do comprador',
+  'Produto diferente do anunciado',
+  'Outro',
+] as const;
+
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+/** Origem do registro em OrderReturn: cadastro manual ou sync da integração. */
+export type ReturnOrigin = 'manual' | 'tiktok_shop';
+
+/** Condição do item devolvido: resellable volta ao estoque do produto mestre, damaged não. */
+export const RETURN_CONDITIONS = ['resellable', 'damaged'] as const;
+
+export type ReturnCondition = (typeof RETURN_CONDITIONS)[number];
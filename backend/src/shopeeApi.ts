@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 
-const SHOPEE_HOST = 'https://partner.shopeemobile.com';
+// SHOPEE_API_HOST permite apontar para o servidor fake local (scripts/shopee-fake-server.cjs: mesmas rotas e assinaturas)
+const SHOPEE_HOST = (process.env.SHOPEE_API_HOST || 'https://partner.shopeemobile.com').replace(/\/+$/, '');
 
 // ── Signature ───────────────────────────────────────────────────────────────
 
@@ -29,6 +30,16 @@ export function signShop(
   return makeSign(partnerKey, `${partnerId}${path}${timestamp}${accessToken}${shopId}`);
 }
 
+/**
+ * Push (webhook): header Authorization = HMAC-SHA256(partnerKey, "<url de callback>|<corpo cru>").
+ * A URL tem de ser exatamente a cadastrada no Open Platform.
+ */
+export function verifyPushSignature(partnerKey: string, callbackUrl: string, rawBody: string, authorization: string): boolean {
+  const expected = Buffer.from(makeSign(partnerKey, `${callbackUrl}|${rawBody}`));
+  const received = Buffer.from(String(authorization || '').trim().toLowerCase());
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
 // ── Auth URL ────────────────────────────────────────────────────────────────
 
 export function buildAuthUrl(partnerId: number, partnerKey: string, redirectUrl: string): string {
@@ -169,6 +180,14 @@ export interface ShopeeOrderDetail {
   update_time: number;
   total_amount: number;
   buyer_username: string;
+  buyer_user_id?: number;
+  buyer_cpf_id?: string; // só lojas BR
+  recipient_address?: {
+    name?: string;
+    phone?: string;
+    city?: string;
+    state?: string;
+  };
   item_list: ShopeeOrderItem[];
   pay_time: number;
   estimated_shipping_fee: number;
@@ -191,6 +210,7 @@ export async function getOrderList(
   timeTo: number,
   cursor = '',
   pageSize = 100,
+  timeRangeField: 'create_time' | 'update_time' = 'create_time',
 ): Promise<OrderListResponse> {
   const path = '/api/v2/order/get_order_list';
   const timestamp = ts();
@@ -201,7 +221,7 @@ export async function getOrderList(
     sign,
     access_token: accessToken,
     shop_id: String(shopId),
-    time_range_field: 'create_time',
+    time_range_field: timeRangeField,
     time_from: String(timeFrom),
     time_to: String(timeTo),
     page_size: String(pageSize),
@@ -226,9 +246,11 @@ export async function getOrderDetail(
   const optionalFields = [
     'buyer_user_id',
     'buyer_username',
+    'buyer_cpf_id',
     'estimated_shipping_fee',
     'item_list',
     'pay_time',
+    'recipient_address',
     'total_amount',
   ].join(',');
 
@@ -248,6 +270,7 @@ export async function getOrderDetail(
 
 // ── Fetch all order SNs for a date range (paginated) ────────────────────────
 
+/** `timeRangeField`: create_time (período de vendas) ou update_time (sync incremental: pega mudanças de status). */
 export async function fetchAllOrderSns(
   partnerId: number,
   partnerKey: string,
@@ -255,6 +278,7 @@ export async function fetchAllOrderSns(
   shopId: number,
   timeFrom: number,
   timeTo: number,
+  timeRangeField: 'create_time' | 'update_time' = 'create_time',
 ): Promise<string[]> {
   const allSns: string[] = [];
   let cursor = '';
@@ -272,7 +296,7 @@ export async function fetchAllOrderSns(
     while (hasMore) {
       const res = await getOrderList(
         partnerId, partnerKey, accessToken, shopId,
-        rangeStart, rangeEnd, cursor,
+        rangeStart, rangeEnd, cursor, 100, timeRangeField,
       );
       if (res.error) throw new Error(`Shopee API error: ${res.error} - ${res.message}`);
 
@@ -308,3 +332,320 @@ export async function fetchOrderDetails(
 
   return all;
 }
+
+// ── Escrow (payment/get_escrow_detail) ──────────────────────────────────────
+
+/** Subconjunto de order_income usado para as taxas do pedido (valores em BRL; taxas vêm positivas). */
+export interface ShopeeEscrowOrderIncome {
+  escrow_amount: number;
+  commission_fee: number;
+  service_fee: number;
+  net_commission_fee?: number;
+  net_service_fee?: number;
+  seller_transaction_fee?: number;
+  buyer_total_amount?: number;
+  reverse_shipping_fee?: number;
+  /** Prêmio do programa de devolução (no relatório de income: "Taxa de Devolução Fácil Shopee"). */
+  delivery_seller_protection_fee_premium_amount?: number;
+  /** Recarga automática de ADS descontada do pedido ("Taxa da Recarga Automática (Pedido)"). */
+  ads_escrow_top_up_fee_or_technical_support_fee?: number;
+}
+
+export interface ShopeeEscrowDetail {
+  order_sn: string;
+  order_income: ShopeeEscrowOrderIncome;
+}
+
+interface EscrowDetailResponse {
+  error: string;
+  message: string;
+  request_id?: string;
+  response: ShopeeEscrowDetail;
+}
+
+export async function getEscrowDetail(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+  orderSn: string,
+): Promise<EscrowDetailResponse> {
+  const path = '/api/v2/payment/get_escrow_detail';
+  const timestamp = ts();
+  const sign = signShop(partnerId, partnerKey, path, timestamp, accessToken, shopId);
+  const params = new URLSearchParams({
+    partner_id: String(partnerId),
+    timestamp: String(timestamp),
+    sign,
+    access_token: accessToken,
+    shop_id: String(shopId),
+    order_sn: orderSn,
+  });
+  const res = await fetch(`${SHOPEE_HOST}${path}?${params.toString()}`);
+  return res.json() as Promise<EscrowDetailResponse>;
+}
+
+/** Escrow de vários pedidos (um por chamada); falha de um pedido não interrompe os demais. */
+export async function fetchEscrowDetails(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+  orderSns: string[],
+): Promise<{ details: ShopeeEscrowDetail[]; errors: Array<{ orderSn: string; message: string }> }> {
+  const details: ShopeeEscrowDetail[] = [];
+  const errors: Array<{ orderSn: string; message: string }> = [];
+
+  for (const orderSn of orderSns) {
+    try {
+      const res = await getEscrowDetail(partnerId, partnerKey, accessToken, shopId, orderSn);
+      if (res.error) {
+        errors.push({ orderSn, message: `Shopee API error: ${res.error} - ${res.message}` });
+        continue;
+      }
+      if (res.response?.order_income) details.push({ ...res.response, order_sn: res.response.order_sn || orderSn });
+    } catch (e) {
+      errors.push({ orderSn, message: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return { details, errors };
+}
+
+export interface ShopeeEscrowFees {
+  settlementAmount: number;
+  commissionFee: number;
+  serviceFee: number;
+  easyReturnFee: number;
+  autoRechargeFee: number;
+  reverseShippingFee: number;
+}
+
+/**
+ * Mesmos campos que o relatório de income (Renda) preenche: quantia lançada, taxas líquidas (comissão, serviço,
+ * Devolução Fácil, Recarga Automática) e envio reverso — dispensa o upload do XLSX.
+ */
+export function mapEscrowToOrderFees(detail: ShopeeEscrowDetail): ShopeeEscrowFees {
+  const income = detail.order_income;
+  const money = (v: unknown) => Math.round(Math.abs(Number(v) || 0) * 100) / 100;
+  return {
+    settlementAmount: Math.round((Number(income.escrow_amount) || 0) * 100) / 100,
+    commissionFee: money(income.net_commission_fee ?? income.commission_fee),
+    serviceFee: money(income.net_service_fee ?? income.service_fee),
+    easyReturnFee: money(income.delivery_seller_protection_fee_premium_amount),
+    autoRechargeFee: money(income.ads_escrow_top_up_fee_or_technical_support_fee),
+    reverseShippingFee: money(income.reverse_shipping_fee),
+  };
+}
+
+// ── Catálogo (product/get_item_list, get_item_base_info, get_model_list) ────
+
+interface ItemListResponse {
+  error: string;
+  message: string;
+  response: {
+    item: Array<{ item_id: number; item_status: string; update_time: number }>;
+    total_count: number;
+    has_next_page: boolean;
+    next_offset: number;
+  };
+}
+
+/** Estoque v2: `summary_info.total_available_stock` é o disponível para venda. */
+export interface ShopeeStockInfoV2 {
+  summary_info?: { total_reserved_stock?: number; total_available_stock?: number };
+  seller_stock?: Array<{ location_id?: string; stock: number }>;
+}
+
+export interface ShopeeItemBaseInfo {
+  item_id: number;
+  item_name: string;
+  item_sku: string;
+  item_status: string;
+  has_model: boolean;
+  stock_info_v2?: ShopeeStockInfoV2;
+}
+
+interface ItemBaseInfoResponse {
+  error: string;
+  message: string;
+  response: { item_list: ShopeeItemBaseInfo[] };
+}
+
+export interface ShopeeModel {
+  model_id: number;
+  model_sku: string;
+  tier_index: number[];
+  stock_info_v2?: ShopeeStockInfoV2;
+}
+
+interface ModelListResponse {
+  error: string;
+  message: string;
+  response: {
+    tier_variation: Array<{ name: string; option_list: Array<{ option: string }> }>;
+    model: ShopeeModel[];
+  };
+}
+
+/** Anúncio com as variações já nomeadas como no pedido ("Preto,M"). */
+export interface ShopeeCatalogItem extends ShopeeItemBaseInfo {
+  models: Array<{ model_id: number; model_sku: string; model_name: string; stock: number | null }>;
+}
+
+export function availableStock(info: ShopeeStockInfoV2 | undefined): number | null {
+  const v = info?.summary_info?.total_available_stock;
+  return typeof v === 'number' && Number.isFinite(v) ? v : null;
+}
+
+function shopParams(
+  partnerId: number,
+  partnerKey: string,
+  path: string,
+  accessToken: string,
+  shopId: number,
+): URLSearchParams {
+  const timestamp = ts();
+  return new URLSearchParams({
+    partner_id: String(partnerId),
+    timestamp: String(timestamp),
+    sign: signShop(partnerId, partnerKey, path, timestamp, accessToken, shopId),
+    access_token: accessToken,
+    shop_id: String(shopId),
+  });
+}
+
+export async function getItemList(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+  offset = 0,
+  pageSize = 100,
+): Promise<ItemListResponse> {
+  const path = '/api/v2/product/get_item_list';
+  const params = shopParams(partnerId, partnerKey, path, accessToken, shopId);
+  params.set('offset', String(offset));
+  params.set('page_size', String(pageSize));
+  // Anúncios ativos e deslistados (os banidos/excluídos não entram em estoque)
+  params.append('item_status', 'NORMAL');
+  params.append('item_status', 'UNLIST');
+  const res = await fetch(`${SHOPEE_HOST}${path}?${params.toString()}`);
+  return res.json() as Promise<ItemListResponse>;
+}
+
+export async function getItemBaseInfo(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+  itemIds: number[],
+): Promise<ItemBaseInfoResponse> {
+  const path = '/api/v2/product/get_item_base_info';
+  const params = shopParams(partnerId, partnerKey, path, accessToken, shopId);
+  params.set('item_id_list', itemIds.join(','));
+  const res = await fetch(`${SHOPEE_HOST}${path}?${params.toString()}`);
+  return res.json() as Promise<ItemBaseInfoResponse>;
+}
+
+export async function getModelList(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+  itemId: number,
+): Promise<ModelListResponse> {
+  const path = '/api/v2/product/get_model_list';
+  const params = shopParams(partnerId, partnerKey, path, accessToken, shopId);
+  params.set('item_id', String(itemId));
+  const res = await fetch(`${SHOPEE_HOST}${path}?${params.toString()}`);
+  return res.json() as Promise<ModelListResponse>;
+}
+
+/** Nome da variação a partir dos índices de tier ("Preto,M"), igual ao model_name do pedido. */
+export function modelNameFromTiers(
+  tiers: ModelListResponse['response']['tier_variation'],
+  tierIndex: number[],
+): string {
+  return tierIndex
+    .map((optIdx, tierIdx) => tiers?.[tierIdx]?.option_list?.[optIdx]?.option ?? '')
+    .filter(Boolean)
+    .join(',');
+}
+
+/** Todos os anúncios da loja (paginado) com suas variações. */
+export async function fetchCatalog(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+): Promise<ShopeeCatalogItem[]> {
+  const itemIds: number[] = [];
+  let offset = 0;
+  for (;;) {
+    const res = await getItemList(partnerId, partnerKey, accessToken, shopId, offset);
+    if (res.error) throw new Error(`Shopee API error: ${res.error} - ${res.message}`);
+    itemIds.push(...(res.response?.item ?? []).map((i) => i.item_id));
+    if (!res.response?.has_next_page) break;
+    offset = res.response.next_offset;
+  }
+
+  const items: ShopeeCatalogItem[] = [];
+  const BATCH = 50;
+  for (let i = 0; i < itemIds.length; i += BATCH) {
+    const res = await getItemBaseInfo(partnerId, partnerKey, accessToken, shopId, itemIds.slice(i, i + BATCH));
+    if (res.error) throw new Error(`Shopee API error: ${res.error} - ${res.message}`);
+    for (const base of res.response?.item_list ?? []) {
+      const item: ShopeeCatalogItem = { ...base, models: [] };
+      if (base.has_model) {
+        const models = await getModelList(partnerId, partnerKey, accessToken, shopId, base.item_id);
+        if (models.error) throw new Error(`Shopee API error: ${models.error} - ${models.message}`);
+        const tiers = models.response?.tier_variation ?? [];
+        item.models = (models.response?.model ?? []).map((m) => ({
+          model_id: m.model_id,
+          model_sku: m.model_sku,
+          model_name: modelNameFromTiers(tiers, m.tier_index ?? []),
+          stock: availableStock(m.stock_info_v2),
+        }));
+      }
+      items.push(item);
+    }
+  }
+  return items;
+}
+
+// ── Estoque (product/update_stock) ──────────────────────────────────────────
+
+interface UpdateStockResponse {
+  error: string;
+  message: string;
+  response?: {
+    success_list?: Array<{ model_id: number; location_id?: string; stock: number }>;
+    failure_list?: Array<{ model_id: number; failed_reason: string }>;
+  };
+}
+
+/**
+ * Define o estoque do vendedor de um anúncio. Sem variação: model_id 0.
+ * Até 50 variações por chamada; falhas por variação vêm em `failure_list`.
+ */
+export async function updateStock(
+  partnerId: number,
+  partnerKey: string,
+  accessToken: string,
+  shopId: number,
+  itemId: number,
+  stockList: Array<{ model_id: number; stock: number }>,
+): Promise<UpdateStockResponse> {
+  const path = '/api/v2/product/update_stock';
+  const params = shopParams(partnerId, partnerKey, path, accessToken, shopId);
+  const res = await fetch(`${SHOPEE_HOST}${path}?${params.toString()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      item_id: itemId,
+      stock_list: stockList.map((s) => ({ model_id: s.model_id, seller_stock: [{ stock: s.stock }] })),
+    }),
+  });
+  return res.json() as Promise<UpdateStockResponse>;
+}
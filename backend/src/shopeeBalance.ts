@@ -0,0 +1,171 @@
+/**
+ * Parser do extrato da carteira Shopee ("my_balance_transaction_report", aba Transaction Report).
+ * Cada linha vira um lançamento do razão: renda do pedido, ajuste, saque, recarga de ADS…
+ */
+import crypto from 'crypto';
+import { normHeader, parseBrNumber, readWorkbook, round2, sheetToArrays } from './tiktokSettlementCommon.js';
+
+const COL_DATE = ['Data'];
+const COL_TYPE = ['Tipo de transação', 'Tipo de transacao'];
+const COL_DESCRIPTION = ['Descrição', 'Descricao'];
+const COL_ORDER_ID = ['ID do pedido', 'ID do Pedido'];
+const COL_DIRECTION = ['Direção do dinheiro', 'Direcao do dinheiro'];
+const COL_AMOUNT = ['Valor'];
+const COL_STATUS = ['Status'];
+const COL_BALANCE_AFTER = ['Balança após as transações', 'Balanca apos as transacoes', 'Saldo após as transações'];
+const COL_PENDING_ADJUSTMENT = ['Valor a Ser Ajustado', 'Valor a ser ajustado'];
+
+export type ShopeeBalanceTxType = 'order_income' | 'adjustment' | 'withdrawal' | 'ads_topup' | 'other';
+
+export const SHOPEE_BALANCE_TX_LABELS: Record<ShopeeBalanceTxType, string> = {
+  order_income: 'Renda do pedido',
+  adjustment: 'Ajuste',
+  withdrawal: 'Saque',
+  ads_topup: 'Recarga de ADS',
+  other: 'Outros',
+};
+
+export interface ShopeeBalanceTransactionRow {
+  /** Hash estável da linha (reimportar o mesmo período não duplica). */
+  externalKey: string;
+  occurredAt: Date;
+  type: ShopeeBalanceTxType;
+  rawType: string;
+  description: string;
+  /** ID do pedido Shopee (coluna ou "pedido XXXX" na descrição do ajuste). */
+  orderSn: string | null;
+  direction: 'in' | 'out';
+  /** Com sinal: saída negativa. */
+  amount: number;
+  status: string;
+  balanceAfter: number | null;
+  pendingAdjustment: number;
+}
+
+export interface ParseShopeeBalanceResult {
+  transactions: ShopeeBalanceTransactionRow[];
+  periodFrom: string;
+  periodTo: string;
+  rawRows: number;
+  message: string;
+}
+
+function colIndex(header: string[], keys: readonly string[]): number {
+  const wants = keys.map((k) => normHeader(k));
+  return header.findIndex((h) => wants.includes(normHeader(h)));
+}
+
+function cellStr(row: unknown[], idx: number): string {
+  if (idx < 0 || idx >= row.length) return '';
+  return String(row[idx] ?? '').trim();
+}
+
+/** "2026-04-26 16:13:13" (horário de Brasília no relatório) ou serial do Excel. */
+function parseBalanceDate(v: unknown): Date | null {
+  if (v == null || v === '') return null;
+  if (typeof v === 'number' && Number.isFinite(v)) {
+    const d = new Date(Math.round((v - 25569) * 86400 * 1000));
+    return isNaN(d.getTime()) ? null : d;
+  }
+  const m = String(v).trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4] || 0), Number(m[5] || 0), Number(m[6] || 0));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function classifyShopeeBalanceTx(rawType: string, description: string): ShopeeBalanceTxType {
+  const t = normHeader(rawType);
+  const d = normHeader(description);
+  if (t.includes('renda do pedido') || d.startsWith('renda do pedido')) return 'order_income';
+  if (t.includes('saque')) return 'withdrawal';
+  if (d.includes('recarga por compra de ads')) return 'ads_topup';
+  if (t.includes('ajuste')) return 'adjustment';
+  return 'other';
+}
+
+/** Ajustes trazem o pedido só na descrição ("Débito referente ao pedido 260401M25DEP5T …"). */
+function orderSnFrom(orderCell: string, description: string): string | null {
+  if (orderCell && orderCell !== '-') return orderCell;
+  const m = description.match(/pedido\s+#?\s*([0-9A-Z]{10,})/i);
+  return m ? m[1].toUpperCase() : null;
+}
+
+function externalKeyOf(parts: unknown[]): string {
+  return crypto.createHash('sha256').update(parts.map((p) => String(p ?? '')).join('|')).digest('hex');
+}
+
+export function parseShopeeBalanceReport(filepath: string): ParseShopeeBalanceResult {
+  const empty = { transactions: [], periodFrom: '', periodTo: '', rawRows: 0 };
+  const { workbook, error } = readWorkbook(filepath);
+  if (error || !workbook) return { ...empty, message: error || 'Arquivo inválido.' };
+
+  const rows = sheetToArrays(workbook.Sheets[workbook.SheetNames[0]]);
+
+  // Bloco "Informações da conta": De / Para
+  let periodFrom = '';
+  let periodTo = '';
+  let headerIdx = -1;
+  for (let i = 0; i < Math.min(rows.length, 40); i++) {
+    const r = (rows[i] || []).map((c) => String(c ?? '').trim());
+    const first = normHeader(r[0] ?? '');
+    if (first === 'de') periodFrom = r[1] ?? '';
+    if (first === 'para') periodTo = r[1] ?? '';
+    if (colIndex(r, COL_DATE) >= 0 && colIndex(r, COL_TYPE) >= 0 && colIndex(r, COL_AMOUNT) >= 0) {
+      headerIdx = i;
+      break;
+    }
+  }
+  if (headerIdx < 0) {
+    return { ...empty, message: 'Cabeçalho "Detalhes da transação" não encontrado (Data / Tipo de transação / Valor).' };
+  }
+
+  const header = (rows[headerIdx] || []).map((c) => String(c ?? '').trim());
+  const idxDate = colIndex(header, COL_DATE);
+  const idxType = colIndex(header, COL_TYPE);
+  const idxDescription = colIndex(header, COL_DESCRIPTION);
+  const idxOrderId = colIndex(header, COL_ORDER_ID);
+  const idxDirection = colIndex(header, COL_DIRECTION);
+  const idxAmount = colIndex(header, COL_AMOUNT);
+  const idxStatus = colIndex(header, COL_STATUS);
+  const idxBalanceAfter = colIndex(header, COL_BALANCE_AFTER);
+  const idxPending = colIndex(header, COL_PENDING_ADJUSTMENT);
+
+  const transactions: ShopeeBalanceTransactionRow[] = [];
+  let rawRows = 0;
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const row = rows[i] || [];
+    if (row.every((c) => String(c ?? '').trim() === '')) continue;
+    rawRows++;
+
+    const occurredAt = parseBalanceDate(row[idxDate]);
+    if (!occurredAt) continue;
+
+    const rawType = cellStr(row, idxType);
+    const description = cellStr(row, idxDescription);
+    const amount = round2(parseBrNumber(row[idxAmount]));
+    const directionRaw = normHeader(cellStr(row, idxDirection));
+    const balanceAfter = idxBalanceAfter >= 0 && cellStr(row, idxBalanceAfter) !== '' ? round2(parseBrNumber(row[idxBalanceAfter])) : null;
+
+    transactions.push({
+      externalKey: externalKeyOf([cellStr(row, idxDate), rawType, description, cellStr(row, idxOrderId), amount, balanceAfter]),
+      occurredAt,
+      type: classifyShopeeBalanceTx(rawType, description),
+      rawType,
+      description,
+      orderSn: orderSnFrom(cellStr(row, idxOrderId), description),
+      direction: directionRaw.startsWith('said') || (!directionRaw && amount < 0) ? 'out' : 'in',
+      amount,
+      status: cellStr(row, idxStatus),
+      balanceAfter,
+      pendingAdjustment: idxPending >= 0 ? round2(parseBrNumber(row[idxPending])) : 0,
+    });
+  }
+
+  return {
+    transactions,
+    periodFrom,
+    periodTo,
+    rawRows,
+    message: transactions.length === 0 ? 'Nenhuma transação encontrada no extrato da carteira.' : '',
+  };
+}
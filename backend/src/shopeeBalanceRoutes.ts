@@ -0,0 +1,374 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import type { ImportJobHandler } from './importJobs.js';
+import { parseShopeeBalanceReport, SHOPEE_BALANCE_TX_LABELS, type ShopeeBalanceTxType } from './shopeeBalance.js';
+import { ORDER_STATUS_EXCLUDED } from './simulationMetrics.js';
+import { AMOUNT_EPS, round2 } from './tiktokSettlementCommon.js';
+
+/**
+ * Carteira Shopee: import do extrato (my_balance_transaction_report) e conciliação
+ * pedidos × repasses × saques × extrato bancário (Contas a receber importadas do Nubank).
+ */
+
+type Deps = {
+  prisma: PrismaClient;
+};
+
+type ImportDeps = Deps & {
+  getFileFromFormidable: (files: Record<string, unknown>) => { file: any };
+  getFilePath: (file: any) => string | undefined;
+};
+
+const DAY_MS = 86400000;
+/** Pedido sem repasse só é cobrado depois deste prazo (entrega + liberação Shopee). */
+const DEFAULT_MIN_AGE_DAYS = 15;
+/** Saque cai no banco entre 1 dia antes (fuso) e alguns dias úteis depois. */
+const WITHDRAWAL_MATCH_DAYS_BEFORE = 1;
+const WITHDRAWAL_MATCH_DAYS_AFTER = 7;
+const CHUNK = 500;
+
+function parseDayParam(v: unknown): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(v ?? '').trim());
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function isTruthyField(v: unknown): boolean {
+  const s = String((Array.isArray(v) ? v[0] : v) ?? '').trim().toLowerCase();
+  return s === '1' || s === 'true' || s === 'yes';
+}
+
+async function findShopeeOrders(prismaAny: any, orderIds: string[]) {
+  const out: any[] = [];
+  for (let i = 0; i < orderIds.length; i += CHUNK) {
+    out.push(
+      ...(await prismaAny.order.findMany({
+        where: { source: 'shopee', orderId: { in: orderIds.slice(i, i + CHUNK) } },
+      })),
+    );
+  }
+  return out;
+}
+
+/** Upload do extrato da carteira (rota síncrona e worker de importações). */
+export function createShopeeBalanceImportHandler(deps: ImportDeps): ImportJobHandler {
+  const { prisma, getFileFromFormidable, getFilePath } = deps;
+  const prismaAny = prisma as any;
+
+  return async (fields, files, res, progress) => {
+    try {
+      const { file } = getFileFromFormidable(files);
+      if (!file) return res.status(400).json({ message: 'Arquivo não enviado.' });
+      const filepath = getFilePath(file);
+      if (!filepath) return res.status(400).json({ message: 'Caminho do arquivo não encontrado.' });
+      const dryRun = isTruthyField(fields.dryRun);
+
+      await progress?.phase('reading', 10);
+      const result = parseShopeeBalanceReport(filepath);
+      if (result.message) return res.status(400).json({ message: result.message });
+      const { transactions, periodFrom, periodTo, rawRows } = result;
+
+      await progress?.phase('comparing', 45);
+      const keys = transactions.map((t) => t.externalKey);
+      const existing = new Set<string>();
+      for (let i = 0; i < keys.length; i += CHUNK) {
+        const rows = await prismaAny.shopeeBalanceTransaction.findMany({
+          where: { externalKey: { in: keys.slice(i, i + CHUNK) } },
+          select: { externalKey: true },
+        });
+        for (const r of rows) existing.add(r.externalKey);
+      }
+      const orderSns = [...new Set(transactions.map((t) => t.orderSn).filter((s): s is string => !!s))];
+      const knownOrders = new Set((await findShopeeOrders(prismaAny, orderSns)).map((o) => o.orderId));
+
+      const byType: Record<string, { count: number; total: number }> = {};
+      for (const t of transactions) {
+        const b = (byType[t.type] = byType[t.type] ?? { count: 0, total: 0 });
+        b.count++;
+        b.total = round2(b.total + t.amount);
+      }
+
+      if (!dryRun) {
+        await progress?.phase('writing', 75);
+        await prisma.$transaction(
+          transactions.map((t) => {
+            const { externalKey, ...data } = t;
+            return prismaAny.shopeeBalanceTransaction.upsert({
+              where: { externalKey },
+              update: data,
+              create: { externalKey, ...data },
+            });
+          }),
+        );
+      }
+
+      const created = transactions.filter((t) => !existing.has(t.externalKey)).length;
+      return res.status(200).json({
+        message: dryRun
+          ? 'Pré-visualização concluída (carteira Shopee).'
+          : `Extrato da carteira Shopee importado: ${created} nova(s) transação(ões).`,
+        dryRun,
+        periodFrom,
+        periodTo,
+        rawRows,
+        transactions: transactions.length,
+        created,
+        updated: transactions.length - created,
+        byType: Object.entries(byType).map(([type, v]) => ({
+          type,
+          label: SHOPEE_BALANCE_TX_LABELS[type as ShopeeBalanceTxType] ?? type,
+          ...v,
+        })),
+        linkedOrders: orderSns.filter((s) => knownOrders.has(s)).length,
+        unknownOrders: orderSns.filter((s) => !knownOrders.has(s)).length,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao importar extrato da carteira Shopee.' });
+    }
+  };
+}
+
+export function registerShopeeBalanceRoutes(app: Express, deps: Deps) {
+  const { prisma } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/shopee/balance/transactions?from=2026-04-01&to=2026-04-30&type=withdrawal&orderSn=...
+  app.get('/api/shopee/balance/transactions', async (req, res) => {
+    try {
+      const from = parseDayParam(req.query.from);
+      const to = parseDayParam(req.query.to);
+      const type = String(req.query.type ?? '').trim();
+      const orderSn = String(req.query.orderSn ?? '').trim();
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '200'), 10) || 200, 1), 2000);
+      const offset = Math.max(parseInt(String(req.query.offset ?? '0'), 10) || 0, 0);
+
+      const where: Record<string, unknown> = {};
+      if (from || to) {
+        where.occurredAt = {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lt: new Date(to.getTime() + DAY_MS) } : {}),
+        };
+      }
+      if (type) where.type = type;
+      if (orderSn) where.orderSn = orderSn;
+
+      const [total, rows] = await Promise.all([
+        prismaAny.shopeeBalanceTransaction.count({ where }),
+        prismaAny.shopeeBalanceTransaction.findMany({
+          where,
+          orderBy: [{ occurredAt: 'desc' }, { id: 'desc' }],
+          skip: offset,
+          take: limit,
+        }),
+      ]);
+      return res.status(200).json({ total, limit, offset, transactions: rows });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar transações da carteira Shopee.' });
+    }
+  });
+
+  // GET /api/shopee/balance/reconciliation?from=2026-04-01&to=2026-04-30&minAgeDays=15
+  // Sem from/to: período coberto pelo extrato importado.
+  app.get('/api/shopee/balance/reconciliation', async (req, res) => {
+    try {
+      const bounds = await prismaAny.shopeeBalanceTransaction.aggregate({
+        _min: { occurredAt: true },
+        _max: { occurredAt: true },
+      });
+      const ledgerFrom: Date | null = bounds._min.occurredAt;
+      const ledgerTo: Date | null = bounds._max.occurredAt;
+      if (!ledgerFrom || !ledgerTo) {
+        return res.status(200).json({ empty: true, message: 'Nenhum extrato da carteira Shopee importado.' });
+      }
+
+      const minAgeDaysRaw = parseInt(String(req.query.minAgeDays ?? ''), 10);
+      const minAgeDays = Number.isInteger(minAgeDaysRaw) && minAgeDaysRaw >= 0 ? minAgeDaysRaw : DEFAULT_MIN_AGE_DAYS;
+      const fromDay = parseDayParam(req.query.from) ?? parseDayParam(dayKey(ledgerFrom))!;
+      const toDay = parseDayParam(req.query.to) ?? parseDayParam(dayKey(ledgerTo))!;
+      const toExclusive = new Date(toDay.getTime() + DAY_MS);
+
+      const txs: any[] = await prismaAny.shopeeBalanceTransaction.findMany({
+        where: { occurredAt: { gte: fromDay, lt: toExclusive } },
+        orderBy: [{ occurredAt: 'asc' }, { id: 'asc' }],
+      });
+
+      // Repasses por pedido (renda + ajustes), em todo o razão: o pagamento pode cair fora do período
+      const incomeTxs = txs.filter((t) => t.orderSn && (t.type === 'order_income' || t.type === 'adjustment'));
+      const orderSns = [...new Set(incomeTxs.map((t) => t.orderSn as string))];
+      const allOrderTxs: any[] = [];
+      for (let i = 0; i < orderSns.length; i += CHUNK) {
+        allOrderTxs.push(
+          ...(await prismaAny.shopeeBalanceTransaction.findMany({
+            where: { orderSn: { in: orderSns.slice(i, i + CHUNK) }, type: { in: ['order_income', 'adjustment'] } },
+          })),
+        );
+      }
+      const payoutByOrder = new Map<string, { paidOut: number; adjustments: number; lastPaidAt: Date }>();
+      for (const t of allOrderTxs) {
+        const p = payoutByOrder.get(t.orderSn) ?? { paidOut: 0, adjustments: 0, lastPaidAt: t.occurredAt };
+        if (t.type === 'order_income') p.paidOut = round2(p.paidOut + t.amount);
+        else p.adjustments = round2(p.adjustments + t.amount);
+        if (t.occurredAt > p.lastPaidAt) p.lastPaidAt = t.occurredAt;
+        payoutByOrder.set(t.orderSn, p);
+      }
+
+      // 1) Repasses diferentes de totalPrice − taxas
+      const paidOrders = await findShopeeOrders(prismaAny, orderSns);
+      const paidOrderById = new Map(paidOrders.map((o) => [o.orderId, o]));
+      const payoutMismatches: unknown[] = [];
+      let ordersWithoutFees = 0;
+      for (const o of paidOrders) {
+        const p = payoutByOrder.get(o.orderId);
+        if (!p || p.paidOut === 0) continue;
+        if (o.commissionFee == null && o.serviceFee == null) {
+          ordersWithoutFees++;
+          continue;
+        }
+        const fees = round2(
+          Number(o.commissionFee || 0) + Number(o.serviceFee || 0) + Number(o.easyReturnFee || 0) + Number(o.autoRechargeFee || 0),
+        );
+        const expected = round2(Number(o.totalPrice || 0) - fees);
+        const diff = round2(p.paidOut - expected);
+        if (Math.abs(diff) <= AMOUNT_EPS) continue;
+        payoutMismatches.push({
+          orderId: o.orderId,
+          orderDate: o.orderDate,
+          status: o.status,
+          totalPrice: o.totalPrice,
+          fees,
+          expected,
+          paidOut: p.paidOut,
+          adjustments: p.adjustments,
+          settlementAmount: o.settlementAmount,
+          diff,
+          paidAt: p.lastPaidAt,
+        });
+      }
+
+      // Renda de pedidos que não existem no sistema (CSV de pedidos ainda não importado)
+      const unknownOrders = orderSns
+        .filter((sn) => !paidOrderById.has(sn))
+        .map((sn) => ({ orderSn: sn, ...payoutByOrder.get(sn)! }));
+
+      // 2) Pedidos sem repasse: feitos dentro do extrato e com idade mínima para já terem sido pagos
+      const unpaidCutoff = new Date(Math.min(toExclusive.getTime(), ledgerTo.getTime()) - minAgeDays * DAY_MS);
+      const candidates: any[] =
+        unpaidCutoff > fromDay
+          ? await prismaAny.order.findMany({
+              where: {
+                source: 'shopee',
+                orderDate: { gte: fromDay, lt: unpaidCutoff },
+                NOT: [...ORDER_STATUS_EXCLUDED],
+              },
+              orderBy: { orderDate: 'asc' },
+            })
+          : [];
+      const candidatePaid = new Set<string>();
+      const candidateIds = candidates.map((o) => o.orderId).filter((id) => !payoutByOrder.has(id));
+      for (let i = 0; i < candidateIds.length; i += CHUNK) {
+        const rows = await prismaAny.shopeeBalanceTransaction.findMany({
+          where: { orderSn: { in: candidateIds.slice(i, i + CHUNK) }, type: 'order_income' },
+          select: { orderSn: true },
+        });
+        for (const r of rows) candidatePaid.add(r.orderSn);
+      }
+      const unpaidOrders = candidates
+        .filter((o) => !payoutByOrder.has(o.orderId) && !candidatePaid.has(o.orderId))
+        .map((o) => ({
+          orderId: o.orderId,
+          orderDate: o.orderDate,
+          status: o.status,
+          totalPrice: o.totalPrice,
+          settlementAmount: o.settlementAmount,
+          ageDays: Math.floor((ledgerTo.getTime() - new Date(o.orderDate).getTime()) / DAY_MS),
+        }));
+
+      // 3) Saques × extrato bancário (Contas a receber importadas do extrato)
+      const withdrawalsTx = txs.filter((t) => t.type === 'withdrawal');
+      const bankLines: any[] = await prismaAny.receivable.findMany({
+        where: {
+          dueDate: {
+            gte: new Date(fromDay.getTime() - WITHDRAWAL_MATCH_DAYS_BEFORE * DAY_MS),
+            lt: new Date(toExclusive.getTime() + WITHDRAWAL_MATCH_DAYS_AFTER * DAY_MS),
+          },
+        },
+        orderBy: { dueDate: 'asc' },
+      });
+      const mentionsShopee = (r: any) => `${r.supplier} ${r.description}`.toLowerCase().includes('shopee');
+      const usedBankLines = new Set<number>();
+      const withdrawals = withdrawalsTx.map((w) => {
+        const amount = Math.abs(Number(w.amount));
+        const at = new Date(w.occurredAt).getTime();
+        const candidatesForW = bankLines
+          .filter((r) => !usedBankLines.has(r.id) && r.dueDate)
+          .filter((r) => Math.abs(Number(r.totalAmount) - amount) <= AMOUNT_EPS)
+          .filter((r) => {
+            const delta = new Date(r.dueDate).getTime() - at;
+            return delta >= -WITHDRAWAL_MATCH_DAYS_BEFORE * DAY_MS && delta <= WITHDRAWAL_MATCH_DAYS_AFTER * DAY_MS;
+          })
+          .sort(
+            (a, b) =>
+              Number(mentionsShopee(b)) - Number(mentionsShopee(a)) ||
+              Math.abs(new Date(a.dueDate).getTime() - at) - Math.abs(new Date(b.dueDate).getTime() - at),
+          );
+        const match = candidatesForW[0] ?? null;
+        if (match) usedBankLines.add(match.id);
+        return {
+          id: w.id,
+          occurredAt: w.occurredAt,
+          amount,
+          status: w.status,
+          bankLine: match
+            ? {
+                receivableId: match.id,
+                date: match.dueDate,
+                amount: match.totalAmount,
+                supplier: match.supplier,
+                description: match.description,
+              }
+            : null,
+        };
+      });
+      const unmatchedBankLines = bankLines
+        .filter((r) => mentionsShopee(r) && !usedBankLines.has(r.id))
+        .filter((r) => new Date(r.dueDate) >= fromDay && new Date(r.dueDate) < toExclusive)
+        .map((r) => ({ receivableId: r.id, date: r.dueDate, amount: r.totalAmount, supplier: r.supplier, description: r.description }));
+
+      const sumType = (type: ShopeeBalanceTxType) =>
+        round2(txs.filter((t) => t.type === type).reduce((a, t) => a + Number(t.amount), 0));
+
+      return res.status(200).json({
+        period: { from: dayKey(fromDay), to: dayKey(toDay), ledgerFrom, ledgerTo, minAgeDays },
+        summary: {
+          transactions: txs.length,
+          incomeTotal: sumType('order_income'),
+          adjustmentsTotal: sumType('adjustment'),
+          withdrawalsTotal: sumType('withdrawal'),
+          adsTopupTotal: sumType('ads_topup'),
+          unpaidOrders: unpaidOrders.length,
+          payoutMismatches: payoutMismatches.length,
+          ordersWithoutFees,
+          unknownOrders: unknownOrders.length,
+          matchedWithdrawals: withdrawals.filter((w) => w.bankLine).length,
+          unmatchedWithdrawals: withdrawals.filter((w) => !w.bankLine).length,
+          unmatchedBankLines: unmatchedBankLines.length,
+        },
+        unpaidOrders,
+        payoutMismatches,
+        unknownOrders,
+        withdrawals,
+        unmatchedBankLines,
+      });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao conciliar carteira Shopee.' });
+    }
+  });
+}
@@ -0,0 +1,140 @@
+import type { PrismaClient } from '@prisma/client';
+import type { ShopeeCatalogItem } from './shopeeApi.js';
+
+/**
+ * Catálogo Shopee → Product.
+ * Usa os mesmos códigos da sync de pedidos (shopee_<item_id>[_<model_id>], pai shopee_item_<item_id>),
+ * então anúncio sem venda e item vendido caem no mesmo Product. Vínculo ao MasterProduct só por SKU
+ * idêntico e só em produtos ainda sem mestre (vínculos manuais não mudam).
+ */
+
+export type ShopeeCatalogListing = {
+  productId: number;
+  code: string;
+  name: string;
+  sku: string | null;
+  variationName: string | null;
+  itemId: number;
+  itemStatus: string;
+};
+
+export type ShopeeCatalogSyncReport = {
+  items: number;
+  listings: number;
+  created: number;
+  updated: number;
+  /** Vinculados ao produto mestre nesta execução (SKU igual). */
+  linked: number;
+  alreadyLinked: number;
+  /** Anúncios/variações sem produto mestre (com ou sem SKU). */
+  withoutMaster: ShopeeCatalogListing[];
+};
+
+type ListingDraft = {
+  code: string;
+  name: string;
+  sku: string | null;
+  variationName: string | null;
+  parentCode: string | null;
+  itemId: number;
+  itemStatus: string;
+};
+
+function listingsOf(item: ShopeeCatalogItem): ListingDraft[] {
+  const itemSku = String(item.item_sku ?? '').trim() || null;
+  if (item.models.length === 0) {
+    return [
+      {
+        code: `shopee_${item.item_id}`,
+        name: item.item_name,
+        sku: itemSku,
+        variationName: null,
+        parentCode: null,
+        itemId: item.item_id,
+        itemStatus: item.item_status,
+      },
+    ];
+  }
+  return item.models.map((m) => {
+    const variationName = m.model_name || null;
+    return {
+      code: `shopee_${item.item_id}_${m.model_id}`,
+      name: variationName ? `${item.item_name} - ${variationName}` : item.item_name,
+      sku: String(m.model_sku ?? '').trim() || itemSku,
+      variationName,
+      parentCode: `shopee_item_${item.item_id}`,
+      itemId: item.item_id,
+      itemStatus: item.item_status,
+    };
+  });
+}
+
+const skuKey = (sku: string) => sku.trim().toLowerCase();
+
+export async function upsertShopeeCatalog(prisma: PrismaClient, items: ShopeeCatalogItem[]): Promise<ShopeeCatalogSyncReport> {
+  const prismaAny = prisma as any;
+  const drafts = items.flatMap(listingsOf);
+
+  const masters: Array<{ id: number; sku: string }> = await prismaAny.masterProduct.findMany({ select: { id: true, sku: true } });
+  const masterBySku = new Map(masters.map((m) => [skuKey(m.sku), m.id]));
+
+  const existing = new Map<string, { id: number; masterProductId: number | null }>();
+  const CHUNK = 500;
+  for (let i = 0; i < drafts.length; i += CHUNK) {
+    const rows = await prismaAny.product.findMany({
+      where: { code: { in: drafts.slice(i, i + CHUNK).map((d) => d.code) } },
+      select: { id: true, code: true, masterProductId: true },
+    });
+    for (const r of rows) existing.set(r.code, r);
+  }
+
+  const report: ShopeeCatalogSyncReport = {
+    items: items.length,
+    listings: drafts.length,
+    created: 0,
+    updated: 0,
+    linked: 0,
+    alreadyLinked: 0,
+    withoutMaster: [],
+  };
+
+  for (const d of drafts) {
+    const prev = existing.get(d.code);
+    const masterId = d.sku ? masterBySku.get(skuKey(d.sku)) ?? null : null;
+    const linkNow = !prev?.masterProductId && masterId != null;
+    const data: Record<string, unknown> = {
+      name: d.name,
+      source: 'shopee',
+      variationName: d.variationName,
+      parentCode: d.parentCode,
+      // SKU vazio no anúncio não apaga o que já estava no produto
+      ...(d.sku ? { sku: d.sku } : {}),
+      ...(linkNow ? { masterProductId: masterId } : {}),
+    };
+
+    const saved = await prismaAny.product.upsert({
+      where: { code: d.code },
+      update: data,
+      create: { code: d.code, ...data },
+      select: { id: true, sku: true, masterProductId: true },
+    });
+    if (prev) report.updated++;
+    else report.created++;
+    if (linkNow) report.linked++;
+    else if (prev?.masterProductId) report.alreadyLinked++;
+
+    if (saved.masterProductId == null) {
+      report.withoutMaster.push({
+        productId: saved.id,
+        code: d.code,
+        name: d.name,
+        sku: saved.sku ?? null,
+        variationName: d.variationName,
+        itemId: d.itemId,
+        itemStatus: d.itemStatus,
+      });
+    }
+  }
+
+  return report;
+}
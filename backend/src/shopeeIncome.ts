@@ -18,6 +18,7 @@ const COL_COMMISSION = ['Taxa de comissão líquida', 'Taxa de comissao liquida'
 const COL_SERVICE = ['Taxa de serviço líquida', 'Taxa de servico liquida'];
 const COL_EASY_RETURN = ['Taxa de Devolução Fácil Shopee', 'Taxa de Devolucao Facil Shopee'];
 const COL_AUTO_RECHARGE = ['Taxa da Recarga Automática (Pedido)', 'Taxa da Recarga Automatica (Pedido)'];
+const COL_REVERSE_SHIPPING = ['Taxa de envio reversa', 'Taxa de Envio Reversa'];
 const COL_PAYMENT_DATE = ['Data de conclusão do pagamento', 'Data de conclusao do pagamento'];
 
 export interface ShopeeIncomeOrderRow {
@@ -27,6 +28,7 @@ export interface ShopeeIncomeOrderRow {
   serviceFee: number;
   easyReturnFee: number;
   autoRechargeFee: number;
+  reverseShippingFee: number;
   paymentCompletedAt?: string;
 }
 
@@ -110,6 +112,7 @@ export function parseShopeeIncomeReport(filepath: string): ParseShopeeIncomeResu
   const idxService = colIndex(header, COL_SERVICE);
   const idxEasyReturn = colIndex(header, COL_EASY_RETURN);
   const idxAutoRecharge = colIndex(header, COL_AUTO_RECHARGE);
+  const idxReverseShipping = colIndex(header, COL_REVERSE_SHIPPING);
   const idxPaymentDate = colIndex(header, COL_PAYMENT_DATE);
 
   if (idxVer < 0 || idxOrderId < 0) {
@@ -143,6 +146,7 @@ export function parseShopeeIncomeReport(filepath: string): ParseShopeeIncomeResu
       serviceFee: idxService >= 0 ? absFee(row[idxService]) : 0,
       easyReturnFee: idxEasyReturn >= 0 ? absFee(row[idxEasyReturn]) : 0,
       autoRechargeFee: idxAutoRecharge >= 0 ? absFee(row[idxAutoRecharge]) : 0,
+      reverseShippingFee: idxReverseShipping >= 0 ? absFee(row[idxReverseShipping]) : 0,
       paymentCompletedAt: paymentCompletedAt || undefined,
     });
   }
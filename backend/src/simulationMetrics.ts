@@ -4,27 +4,34 @@
 import { Prisma } from '@prisma/client';
 import { resolveCombinedCost } from './masterProductCost.js';
 import { loadCombinedCostLookup } from './masterProductRoutes.js';
+import { SOURCE_MERCADO_LIVRE } from './mercadoLivreOrders.js';
 
 export const TRAY_SOURCE_ATACADO = 'atacado';
 export const TRAY_SOURCE_VAREJO = 'tray_varejo';
-const TRAY_ORDER_SOURCES_LIST = [TRAY_SOURCE_ATACADO, TRAY_SOURCE_VAREJO, 'tray'] as const;
+export const TRAY_ORDER_SOURCES_LIST = [TRAY_SOURCE_ATACADO, TRAY_SOURCE_VAREJO, 'tray'] as const;
 
 export const CONTRIBUTION_DASHBOARD_CHANNELS = [
   'shopee',
   'tiktok',
+  SOURCE_MERCADO_LIVRE,
   TRAY_SOURCE_ATACADO,
   TRAY_SOURCE_VAREJO,
 ] as const;
 
 export type ContributionDashboardChannel = (typeof CONTRIBUTION_DASHBOARD_CHANNELS)[number];
 
-const ORDER_STATUS_EXCLUDED: Prisma.OrderWhereInput[] = [
+export const ORDER_STATUS_EXCLUDED: Prisma.OrderWhereInput[] = [
   { status: { contains: 'ancelado', mode: 'insensitive' } },
   { status: { contains: 'Não pago', mode: 'insensitive' } },
   { status: { contains: 'Aguardando pagamento', mode: 'insensitive' } },
   { status: 'Devolvido' },
 ];
 
+/** Mesmo filtro sem o "Devolvido": a venda aconteceu e voltou (custos e taxa de devolução). */
+export const ORDER_STATUS_EXCLUDED_KEEP_RETURNED: Prisma.OrderWhereInput[] = ORDER_STATUS_EXCLUDED.filter(
+  (w) => w.status !== 'Devolvido',
+);
+
 function isTrayOrderSource(source: string): boolean {
   const s = String(source || '').toLowerCase();
   return s === 'tray' || s === TRAY_SOURCE_ATACADO || s === 'tray_atacado' || s === TRAY_SOURCE_VAREJO;
@@ -56,6 +63,11 @@ function collectProductIdsFromOrders(
   return [...ids];
 }
 
+/** Faturamento do pedido descontando reembolso de devolução parcial (devolução total já exclui o pedido). */
+export function orderNetRevenue(o: { totalPrice: number | null; refundedAmount?: number | null }): number {
+  return (o.totalPrice || 0) - (o.refundedAmount || 0);
+}
+
 export function monthStartFromYYYYMM(v: string): Date | null {
   const s = String(v || '').trim();
   const m = s.match(/^(\d{4})-(\d{2})$/);
@@ -115,6 +127,9 @@ export type SimulationMetrics = {
   taxasShopeePercent: number;
   taxasTiktok: number;
   taxasTiktokPercent: number;
+  /** Tarifa de venda + custo de envio do vendedor (relatório de Vendas ML). */
+  taxasMercadoLivre: number;
+  taxasMercadoLivrePercent: number;
   taxasCartaoPix: number;
   taxasCartaoPixPercent: number;
   frete: number;
@@ -123,6 +138,11 @@ export type SimulationMetrics = {
   custoProducaoPercent: number;
   custoFixo: number;
   custoFixoPercent: number;
+  /** Logística reversa + taxas de marketplace não reembolsadas dos pedidos do mês que voltaram. */
+  devolucoes: number;
+  devolucoesPercent: number;
+  devolucoesLogistica: number;
+  devolucoesTaxas: number;
   imposto: number;
   /** Alíquota configurada do mês (%). */
   taxPercent: number;
@@ -147,14 +167,141 @@ export async function getTaxPercentForMonth(prisma: any, monthStr: string): Prom
   return DEFAULT_TAX_PERCENT;
 }
 
+/**
+ * Parte do gasto dos canais de ADS externos (Meta / Google) rateada para o canal de venda (AdSpendAllocation).
+ * Em "all" o gasto externo já entra inteiro pelo AdSpend, então o rateio só vale no filtro por canal;
+ * o que não for rateado (soma < 100%) aparece apenas no total.
+ */
+export async function allocatedExternalAdSpend(
+  prisma: any,
+  monthStart: Date,
+  monthEnd: Date,
+  channel: string,
+): Promise<number> {
+  const salesChannels = channel === 'tray' ? [...TRAY_ORDER_SOURCES_LIST] : [channel];
+  let allocations: Array<{ adChannel: string; percent: number }> = [];
+  try {
+    allocations = (await prisma.adSpendAllocation?.findMany?.({ where: { salesChannel: { in: salesChannels } } })) ?? [];
+  } catch {
+    // Model pode ainda não existir antes da migrate.
+  }
+  const percentByAdChannel = new Map<string, number>();
+  for (const a of allocations) {
+    const pct = Number(a.percent || 0);
+    if (pct > 0) percentByAdChannel.set(a.adChannel, (percentByAdChannel.get(a.adChannel) || 0) + pct);
+  }
+  if (percentByAdChannel.size === 0) return 0;
+
+  const rows = await prisma.adSpend.findMany({
+    where: { month: { gte: monthStart, lt: monthEnd }, channel: { in: [...percentByAdChannel.keys()] } },
+  });
+  return rows.reduce(
+    (s: number, r: { channel: string; amount: number | null }) =>
+      s + Number(r.amount || 0) * ((percentByAdChannel.get(r.channel) || 0) / 100),
+    0,
+  );
+}
+
+/** Custo de logística reversa por pedido devolvido, por canal (ReturnCostSetting). */
+export async function loadReturnLogisticsCosts(prisma: any): Promise<Map<string, number>> {
+  let rows: Array<{ channel: string; logisticsCost: number }> = [];
+  try {
+    rows = (await prisma.returnCostSetting?.findMany?.()) ?? [];
+  } catch {
+    // Model pode ainda não existir antes da migrate.
+  }
+  return new Map(rows.map((r) => [r.channel, Number(r.logisticsCost || 0)]));
+}
+
+/** Taxas de marketplace gravadas no pedido (income/escrow trazem as líquidas, já sem o que foi estornado). */
+function marketplaceFeesOf(o: {
+  source: string;
+  commissionFee: number | null;
+  serviceFee: number | null;
+  easyReturnFee?: number | null;
+  autoRechargeFee?: number | null;
+  partnerCommission?: number | null;
+  freight?: number | null;
+}): number {
+  if (o.source === 'shopee') {
+    return (o.commissionFee || 0) + (o.serviceFee || 0) + (o.easyReturnFee || 0) + (o.autoRechargeFee || 0);
+  }
+  if (o.source === 'tiktok') return (o.commissionFee || 0) + (o.serviceFee || 0) + (o.partnerCommission || 0);
+  if (o.source === SOURCE_MERCADO_LIVRE) return (o.commissionFee || 0) + (o.freight || 0);
+  return 0;
+}
+
+/**
+ * Devoluções dos pedidos do mês (total ou parcial):
+ * - logística reversa: taxa de envio reversa importada do pedido ou, sem ela, o custo configurado do canal;
+ * - taxas: na devolução total o pedido sai das vendas, mas as taxas que ficaram gravadas continuam custo;
+ * - ajuste do custo de produção: item que volta para revenda não é custo (sai da parcial), avariado é
+ *   (entra na total). Devolução sem linhas conta como revenda, o padrão do cadastro.
+ */
+async function computeReturnCosts(
+  prisma: any,
+  monthStart: Date,
+  channel: string,
+): Promise<{ logistica: number; taxas: number; custoProducaoAjuste: number }> {
+  const returned = await prisma.order.findMany({
+    where: {
+      ...buildSimulationOrderWhere(monthStart, channel),
+      NOT: [...ORDER_STATUS_EXCLUDED_KEEP_RETURNED],
+      OR: [{ status: 'Devolvido' }, { returnRecord: { isNot: null } }],
+    },
+    include: {
+      returnRecord: {
+        include: { lines: { include: { orderItem: { include: { product: { select: { costPrice: true } } } } } } },
+      },
+    },
+  });
+  if (returned.length === 0) return { logistica: 0, taxas: 0, custoProducaoAjuste: 0 };
+
+  const logisticsByChannel = await loadReturnLogisticsCosts(prisma);
+  const productIds: number[] = [];
+  for (const o of returned) {
+    for (const l of o.returnRecord?.lines ?? []) {
+      const id = l.orderItem?.productId ?? l.productId;
+      if (id != null) productIds.push(id);
+    }
+  }
+  const costLookup = await loadCombinedCostLookup(prisma, productIds);
+
+  let logistica = 0;
+  let taxas = 0;
+  let custoProducaoAjuste = 0;
+  for (const o of returned) {
+    const full = o.status === 'Devolvido';
+    const imported = Number(o.reverseShippingFee || 0);
+    logistica += imported > 0 ? imported : logisticsByChannel.get(channelKeyForOrder(o.source, o.orderId)) ?? 0;
+    if (full) taxas += marketplaceFeesOf(o);
+
+    const orderDate = new Date(o.orderDate);
+    for (const l of o.returnRecord?.lines ?? []) {
+      const resellable = l.condition === 'resellable';
+      // Total + revenda e parcial + avariado já estão certos no custo dos pedidos válidos
+      if (full === resellable) continue;
+      const unitCost = resolveCombinedCost(
+        costLookup,
+        l.orderItem?.productId ?? l.productId,
+        orderDate,
+        l.orderItem?.product?.costPrice,
+      );
+      custoProducaoAjuste += (full ? 1 : -1) * unitCost * (l.quantity || 0);
+    }
+  }
+  return { logistica, taxas, custoProducaoAjuste };
+}
+
 export function taxasForChannel(m: SimulationMetrics, channel: string): number {
   const ch = String(channel || '').toLowerCase();
   if (ch === 'shopee') return m.taxasShopee;
   if (ch === 'tiktok') return m.taxasTiktok;
+  if (ch === SOURCE_MERCADO_LIVRE) return m.taxasMercadoLivre;
   if (ch === TRAY_SOURCE_ATACADO || ch === TRAY_SOURCE_VAREJO) {
     return m.taxasCartaoPix + m.frete;
   }
-  return m.taxasShopee + m.taxasTiktok + m.taxasCartaoPix + m.frete;
+  return m.taxasShopee + m.taxasTiktok + m.taxasMercadoLivre + m.taxasCartaoPix + m.frete;
 }
 
 export async function computeSimulationMetrics(
@@ -179,13 +326,16 @@ export async function computeSimulationMetrics(
     include: { items: { include: { product: true } } },
   });
 
-  const totalRevenue = orders.reduce((s: number, o: { totalPrice: number | null }) => s + (o.totalPrice || 0), 0);
+  const totalRevenue = orders.reduce(
+    (s: number, o: { totalPrice: number | null; refundedAmount?: number | null }) => s + orderNetRevenue(o),
+    0,
+  );
 
   const isTrayChannelFilter =
     channel === 'tray' || channel === TRAY_SOURCE_ATACADO || channel === TRAY_SOURCE_VAREJO;
 
   const shopeeFees =
-    isTrayChannelFilter || channel === 'tiktok'
+    isTrayChannelFilter || channel === 'tiktok' || channel === SOURCE_MERCADO_LIVRE
       ? 0
       : orders
           .filter((o: { source: string }) => o.source === 'shopee')
@@ -205,7 +355,7 @@ export async function computeSimulationMetrics(
           );
 
   const tiktokFees =
-    isTrayChannelFilter || channel === 'shopee'
+    isTrayChannelFilter || channel === 'shopee' || channel === SOURCE_MERCADO_LIVRE
       ? 0
       : orders
           .filter((o: { source: string }) => o.source === 'tiktok')
@@ -218,6 +368,18 @@ export async function computeSimulationMetrics(
             0,
           );
 
+  // Mercado Livre: frete do pedido = custo de envio do vendedor (fora do bucket frete, que é só Tray)
+  const mercadoLivreFees =
+    isTrayChannelFilter || channel === 'shopee' || channel === 'tiktok'
+      ? 0
+      : orders
+          .filter((o: { source: string }) => o.source === SOURCE_MERCADO_LIVRE)
+          .reduce(
+            (s: number, o: { commissionFee: number | null; freight?: number | null }) =>
+              s + (o.commissionFee || 0) + (o.freight || 0),
+            0,
+          );
+
   const trayOrders = orders.filter((o: { source: string }) => isTrayOrderSource(o.source));
 
   const feePercentFor = (feeByCh: Map<string, Map<string, number>>, ch: string, pt: string): number => {
@@ -257,7 +419,10 @@ export async function computeSimulationMetrics(
   const simProductIds = collectProductIdsFromOrders(orders);
   const simCombined = await loadCombinedCostLookup(prisma, simProductIds);
 
-  const productionCost = orders.reduce(
+  const returnCosts = await computeReturnCosts(prisma, monthStart, channel);
+  const returnsCost = returnCosts.logistica + returnCosts.taxas;
+
+  const itemsProductionCost = orders.reduce(
     (s: number, o: { orderDate: Date; items: Array<{ productId: number | null; quantity: number; product?: { costPrice: number | null } | null }> }) => {
       const orderDate = new Date(o.orderDate);
       for (const item of o.items) {
@@ -273,6 +438,7 @@ export async function computeSimulationMetrics(
     },
     0,
   );
+  const productionCost = itemsProductionCost + returnCosts.custoProducaoAjuste;
 
   const adSpendWhere: { month: { gte: Date; lt: Date }; channel?: string | { in: string[] } } = {
     month: { gte: monthStart, lt: monthEnd },
@@ -285,7 +451,9 @@ export async function computeSimulationMetrics(
     }
   }
   const adSpendRows = await prisma.adSpend.findMany({ where: adSpendWhere });
-  const adsSpend = adSpendRows.reduce((s: number, r: { amount: number | null }) => s + Number(r.amount || 0), 0);
+  const adsSpend =
+    adSpendRows.reduce((s: number, r: { amount: number | null }) => s + Number(r.amount || 0), 0) +
+    (channel !== 'all' ? await allocatedExternalAdSpend(prisma, monthStart, monthEnd, channel) : 0);
 
   const fixedCostPayments = await prisma.billPayment.findMany({
     where: {
@@ -309,14 +477,15 @@ export async function computeSimulationMetrics(
         })
       : orders;
   const totalRevenueAll = allOrdersForProportion.reduce(
-    (s: number, o: { totalPrice: number | null }) => s + (o.totalPrice || 0),
+    (s: number, o: { totalPrice: number | null; refundedAmount?: number | null }) => s + orderNetRevenue(o),
     0,
   );
   const fixedCostProportional =
     totalRevenueAll > 0 && channel !== 'all' ? fixedCost * (totalRevenue / totalRevenueAll) : fixedCost;
 
   const tax = totalRevenue * (resolvedTaxPercent / 100);
-  const variableCosts = adsSpend + shopeeFees + tiktokFees + cardPix + freight + productionCost + tax;
+  const variableCosts =
+    adsSpend + shopeeFees + tiktokFees + mercadoLivreFees + cardPix + freight + productionCost + returnsCost + tax;
   const contributionMargin = totalRevenue - variableCosts;
   const contributionMarginPercent = totalRevenue > 0 ? (contributionMargin / totalRevenue) * 100 : 0;
   const profit = contributionMargin - fixedCostProportional;
@@ -334,6 +503,8 @@ export async function computeSimulationMetrics(
     taxasShopeePercent: pct(shopeeFees),
     taxasTiktok: Number(tiktokFees.toFixed(2)),
     taxasTiktokPercent: pct(tiktokFees),
+    taxasMercadoLivre: Number(mercadoLivreFees.toFixed(2)),
+    taxasMercadoLivrePercent: pct(mercadoLivreFees),
     taxasCartaoPix: Number(cardPix.toFixed(2)),
     taxasCartaoPixPercent: pct(cardPix),
     frete: Number(freight.toFixed(2)),
@@ -342,6 +513,10 @@ export async function computeSimulationMetrics(
     custoProducaoPercent: pct(productionCost),
     custoFixo: Number(fixedCostProportional.toFixed(2)),
     custoFixoPercent: pct(fixedCostProportional),
+    devolucoes: Number(returnsCost.toFixed(2)),
+    devolucoesPercent: pct(returnsCost),
+    devolucoesLogistica: Number(returnCosts.logistica.toFixed(2)),
+    devolucoesTaxas: Number(returnCosts.taxas.toFixed(2)),
     imposto: Number(tax.toFixed(2)),
     taxPercent: resolvedTaxPercent,
     impostoPercent: resolvedTaxPercent,
@@ -360,6 +535,7 @@ export type ContributionChannelRow = {
   taxasCartaoPix: number;
   frete: number;
   custoProducao: number;
+  devolucoes: number;
   margemContribuicao: number;
   margemContribuicaoPercent: number;
   lucroLiquido: number;
@@ -395,6 +571,7 @@ export async function computeContributionDashboard(
         taxasCartaoPix: m.taxasCartaoPix,
         frete: m.frete,
         custoProducao: m.custoProducao,
+        devolucoes: m.devolucoes,
         margemContribuicao: m.margemContribuicao,
         margemContribuicaoPercent: m.margemContribuicaoPercent,
         lucroLiquido: m.lucroLiquido,
@@ -427,7 +604,7 @@ export type OrderProfitBreakdown = {
   lucroLiquidoPercentReceived: number;
 };
 
-type MonthChannelRates = {
+export type MonthChannelRates = {
   adsPercent: number;
   fixedPercent: number;
   taxPercent: number;
@@ -443,7 +620,7 @@ function pctOfBase(base: number, amount: number): number {
 
 export function channelKeyForOrder(source: string, orderId: string): string {
   const s = String(source || '').trim().toLowerCase();
-  if (s === 'shopee' || s === 'tiktok') return s;
+  if (s === 'shopee' || s === 'tiktok' || s === SOURCE_MERCADO_LIVRE) return s;
   if (s === TRAY_SOURCE_ATACADO || s === 'tray_atacado') return TRAY_SOURCE_ATACADO;
   if (s === TRAY_SOURCE_VAREJO) return s;
   if (s === 'tray') return resolveTraySubSource(orderId);
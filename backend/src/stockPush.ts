@@ -0,0 +1,596 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import * as shopeeApi from './shopeeApi.js';
+import * as tiktokShopApi from './tiktokShopApi.js';
+import { buildMasterStockCurrent } from './masterProductRoutes.js';
+import { cronMatches, nextCronRun, parseCron } from './syncScheduler.js';
+
+/**
+ * Envio de estoque: saldo atual do produto mestre (buildMasterStockCurrent) → anúncios vinculados.
+ * Cada Product de canal ligado ao mestre é resolvido para o anúncio/variação no catálogo atual da loja
+ * (Shopee: shopee_<item>[_<model>]; TikTok: seller_sku, sku_id ou product_id do código tiktok_<...>).
+ * Quantidade enviada = max(0, saldo - margem de segurança do canal). Anúncios com o mesmo estoque
+ * não são chamados. Cada execução grava um StockPushRun e o resultado por anúncio (StockPushItem).
+ */
+
+export type StockPushChannel = 'shopee' | 'tiktok_shop';
+export type StockPushTrigger = 'schedule' | 'manual';
+export type StockPushRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export const STOCK_PUSH_CHANNELS: StockPushChannel[] = ['shopee', 'tiktok_shop'];
+
+export const STOCK_PUSH_CHANNEL_LABELS: Record<StockPushChannel, string> = {
+  shopee: 'Shopee',
+  tiktok_shop: 'TikTok Shop',
+};
+
+/** Product.source dos produtos de canal de cada integração. */
+const CHANNEL_SOURCES: Record<StockPushChannel, string> = {
+  shopee: 'shopee',
+  tiktok_shop: 'tiktok',
+};
+
+export function isStockPushChannel(v: unknown): v is StockPushChannel {
+  return typeof v === 'string' && (STOCK_PUSH_CHANNELS as string[]).includes(v);
+}
+
+// ─── Conectores ─────────────────────────────────────────────────────────────
+
+/** Anúncio/variação no canal; `target` leva os ids que a chamada de atualização precisa. */
+export type ChannelListing<T = unknown> = {
+  ref: string;
+  label: string;
+  currentStock: number | null;
+  target: T;
+};
+
+/** Resolve o código do Product para o anúncio, ou devolve o motivo de não enviar. */
+export type ListingLookup = (productCode: string) => ChannelListing | { reason: string };
+
+export type StockUpdate = { listing: ChannelListing; quantity: number };
+
+export type StockPushConnector = {
+  isConnected(): Promise<boolean>;
+  /** Lê o catálogo atual da loja (ids e estoque no canal). */
+  loadListings(): Promise<ListingLookup>;
+  /** Envia as quantidades; devolve ref → mensagem de erro (null = ok). */
+  push(updates: StockUpdate[]): Promise<Map<string, string | null>>;
+};
+
+type ShopeeTarget = { itemId: number; modelId: number };
+type TiktokTarget = { productId: string; skuId: string; warehouseId?: string };
+
+const SHOPEE_CODE_RE = /^shopee_(\d+)(?:_(\d+))?$/;
+const SHOPEE_STOCK_BATCH = 50;
+
+export function createShopeeStockConnector(deps: {
+  prisma: PrismaClient;
+  ensureToken: () => Promise<{ partnerId: string; partnerKey: string; accessToken: string | null; shopId: string | null }>;
+}): StockPushConnector {
+  const { prisma, ensureToken } = deps;
+
+  async function credentials() {
+    const integration = await ensureToken();
+    return [
+      Number(integration.partnerId),
+      integration.partnerKey,
+      integration.accessToken!,
+      Number(integration.shopId),
+    ] as const;
+  }
+
+  return {
+    async isConnected() {
+      const integration = await prisma.shopeeIntegration.findFirst({ orderBy: { id: 'desc' } });
+      return integration?.status === 'connected' && !!integration.accessToken;
+    },
+
+    async loadListings() {
+      const items = await shopeeApi.fetchCatalog(...(await credentials()));
+      const byCode = new Map<string, ChannelListing<ShopeeTarget>>();
+      for (const item of items) {
+        if (item.models.length === 0) {
+          byCode.set(`shopee_${item.item_id}`, {
+            ref: `${item.item_id}:0`,
+            label: `item ${item.item_id}`,
+            currentStock: shopeeApi.availableStock(item.stock_info_v2),
+            target: { itemId: item.item_id, modelId: 0 },
+          });
+        }
+        for (const m of item.models) {
+          byCode.set(`shopee_${item.item_id}_${m.model_id}`, {
+            ref: `${item.item_id}:${m.model_id}`,
+            label: `item ${item.item_id} / model ${m.model_id}`,
+            currentStock: m.stock,
+            target: { itemId: item.item_id, modelId: m.model_id },
+          });
+        }
+      }
+      return (code) => {
+        const listing = byCode.get(code);
+        if (listing) return listing;
+        if (!SHOPEE_CODE_RE.test(code)) {
+          return { reason: 'Produto importado por planilha (sem ID do anúncio). Sincronize o catálogo e vincule a variação ao mestre.' };
+        }
+        return { reason: 'Anúncio/variação não encontrado na loja (excluído ou banido).' };
+      };
+    },
+
+    async push(updates) {
+      const args = await credentials();
+      const out = new Map<string, string | null>();
+      const byItem = new Map<number, StockUpdate[]>();
+      for (const u of updates) {
+        const { itemId } = u.listing.target as ShopeeTarget;
+        byItem.set(itemId, [...(byItem.get(itemId) ?? []), u]);
+      }
+      for (const [itemId, list] of byItem) {
+        for (let i = 0; i < list.length; i += SHOPEE_STOCK_BATCH) {
+          const batch = list.slice(i, i + SHOPEE_STOCK_BATCH);
+          try {
+            const res = await shopeeApi.updateStock(
+              ...args,
+              itemId,
+              batch.map((u) => ({ model_id: (u.listing.target as ShopeeTarget).modelId, stock: u.quantity })),
+            );
+            if (res.error) throw new Error(`${res.error} - ${res.message}`);
+            const failures = new Map((res.response?.failure_list ?? []).map((f) => [f.model_id, f.failed_reason]));
+            for (const u of batch) {
+              const reason = failures.get((u.listing.target as ShopeeTarget).modelId);
+              out.set(u.listing.ref, reason ? String(reason) : null);
+            }
+          } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            for (const u of batch) out.set(u.listing.ref, message);
+          }
+        }
+      }
+      return out;
+    },
+  };
+}
+
+export function createTiktokShopStockConnector(deps: {
+  prisma: PrismaClient;
+  ensureToken: () => Promise<{ appKey: string; appSecret: string; accessToken: string | null; shopCipher: string | null }>;
+}): StockPushConnector {
+  const { prisma, ensureToken } = deps;
+
+  async function credentials() {
+    const integration = await ensureToken();
+    return [integration.appKey, integration.appSecret, integration.accessToken!, integration.shopCipher!] as const;
+  }
+
+  return {
+    async isConnected() {
+      const integration = await (prisma as any).tiktokShopIntegration.findFirst({ orderBy: { id: 'desc' } });
+      return integration?.status === 'connected' && !!integration.accessToken;
+    },
+
+    async loadListings() {
+      const products = await tiktokShopApi.fetchAllProducts(...(await credentials()));
+      // O pedido grava tiktok_<seller_sku | sku_id | product_id>; a mesma chave em dois SKUs fica ambígua (null)
+      const byKey = new Map<string, ChannelListing<TiktokTarget> | null>();
+      const add = (key: string, listing: ChannelListing<TiktokTarget>) => {
+        const prev = byKey.get(key);
+        byKey.set(key, prev === undefined || prev?.ref === listing.ref ? listing : null);
+      };
+      for (const p of products) {
+        for (const s of p.skus ?? []) {
+          // Envia para o primeiro armazém do SKU (loja com um armazém é o caso comum)
+          const warehouse = s.inventory?.[0];
+          const listing: ChannelListing<TiktokTarget> = {
+            ref: `${p.id}:${s.id}`,
+            label: `product ${p.id} / sku ${s.id}`,
+            currentStock: warehouse ? Number(warehouse.quantity) : null,
+            target: { productId: p.id, skuId: s.id, warehouseId: warehouse?.warehouse_id },
+          };
+          if (s.seller_sku) add(`tiktok_${s.seller_sku}`, listing);
+          add(`tiktok_${s.id}`, listing);
+          if ((p.skus ?? []).length === 1) add(`tiktok_${p.id}`, listing);
+        }
+      }
+      return (code) => {
+        const listing = byKey.get(code);
+        if (listing) return listing;
+        if (listing === null) return { reason: 'SKU do vendedor repetido em mais de um anúncio TikTok; não dá para saber qual atualizar.' };
+        return { reason: 'Anúncio/SKU não encontrado na loja TikTok Shop.' };
+      };
+    },
+
+    async push(updates) {
+      const args = await credentials();
+      const out = new Map<string, string | null>();
+      const byProduct = new Map<string, StockUpdate[]>();
+      for (const u of updates) {
+        const { productId } = u.listing.target as TiktokTarget;
+        byProduct.set(productId, [...(byProduct.get(productId) ?? []), u]);
+      }
+      for (const [productId, list] of byProduct) {
+        try {
+          const res = await tiktokShopApi.updateInventory(
+            ...args,
+            productId,
+            list.map((u) => {
+              const t = u.listing.target as TiktokTarget;
+              return { id: t.skuId, inventory: [{ ...(t.warehouseId ? { warehouse_id: t.warehouseId } : {}), quantity: u.quantity }] };
+            }),
+          );
+          if (res.code !== 0) throw new Error(`${res.code} - ${res.message}`);
+          for (const u of list) out.set(u.listing.ref, null);
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          for (const u of list) out.set(u.listing.ref, message);
+        }
+      }
+      return out;
+    },
+  };
+}
+
+// ─── Plano (preview) ────────────────────────────────────────────────────────
+
+export type StockPushAction = 'update' | 'unchanged' | 'skip';
+
+export type StockPushPlanRow = {
+  masterProductId: number;
+  masterSku: string;
+  masterName: string;
+  productId: number;
+  productCode: string;
+  productName: string;
+  listingRef: string | null;
+  listingLabel: string | null;
+  /** Saldo atual do mestre. */
+  available: number;
+  buffer: number;
+  quantity: number | null;
+  channelStock: number | null;
+  action: StockPushAction;
+  reason: string | null;
+};
+
+type PlanEntry = { row: StockPushPlanRow; listing: ChannelListing | null };
+
+const MINUTE_MS = 60 * 1000;
+
+function minuteKey(d: Date): number {
+  return Math.floor(d.getTime() / MINUTE_MS);
+}
+
+type Deps = {
+  prisma: PrismaClient;
+  isOrderValidForStock: (o: { status?: string }) => boolean;
+  connectors: Record<StockPushChannel, StockPushConnector>;
+};
+
+export function createStockPush(deps: Deps) {
+  const { prisma, isOrderValidForStock, connectors } = deps;
+  const prismaAny = prisma as any;
+  const running = new Set<StockPushChannel>();
+  const lastFiredMinute = new Map<StockPushChannel, number>();
+  let ticking = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function loadConfig(channel: StockPushChannel): Promise<{ safetyBuffer: number; cron: string | null }> {
+    const config = await prismaAny.stockPushConfig.findUnique({ where: { channel } });
+    return { safetyBuffer: config?.safetyBuffer ?? 0, cron: config?.cron ?? null };
+  }
+
+  function isRunning(channel: StockPushChannel): boolean {
+    return running.has(channel);
+  }
+
+  async function buildPlan(channel: StockPushChannel): Promise<{ safetyBuffer: number; entries: PlanEntry[] }> {
+    const { safetyBuffer } = await loadConfig(channel);
+    const lookup = await connectors[channel].loadListings();
+    const stock = await buildMasterStockCurrent(prismaAny, prisma, isOrderValidForStock);
+    const source = CHANNEL_SOURCES[channel];
+    const seen = new Map<string, string>(); // listing ref → product code que já cobre
+    const entries: PlanEntry[] = [];
+
+    for (const master of stock.items) {
+      for (const member of master.members) {
+        if (member.source !== source) continue;
+        const row: StockPushPlanRow = {
+          masterProductId: master.masterProductId,
+          masterSku: master.sku,
+          masterName: master.name,
+          productId: member.productId,
+          productCode: member.code,
+          productName: member.name,
+          listingRef: null,
+          listingLabel: null,
+          available: master.current,
+          buffer: safetyBuffer,
+          quantity: null,
+          channelStock: null,
+          action: 'skip',
+          reason: null,
+        };
+        const resolved = lookup(member.code);
+        if ('reason' in resolved) {
+          entries.push({ row: { ...row, reason: resolved.reason }, listing: null });
+          continue;
+        }
+        row.listingRef = resolved.ref;
+        row.listingLabel = resolved.label;
+        row.channelStock = resolved.currentStock;
+        if (!master.hasStock) {
+          row.reason = 'Produto mestre sem estoque lançado.';
+        } else if (seen.has(resolved.ref)) {
+          row.reason = `Anúncio já coberto pelo produto ${seen.get(resolved.ref)}.`;
+        } else {
+          seen.set(resolved.ref, member.code);
+          row.quantity = Math.max(0, master.current - safetyBuffer);
+          row.action = row.channelStock === row.quantity ? 'unchanged' : 'update';
+        }
+        entries.push({ row, listing: row.action === 'skip' ? null : resolved });
+      }
+    }
+    return { safetyBuffer, entries };
+  }
+
+  async function preview(channel: StockPushChannel) {
+    const { safetyBuffer, entries } = await buildPlan(channel);
+    const rows = entries.map((e) => e.row);
+    const count = (a: StockPushAction) => rows.filter((r) => r.action === a).length;
+    return {
+      channel,
+      safetyBuffer,
+      summary: { update: count('update'), unchanged: count('unchanged'), skip: count('skip') },
+      rows,
+    };
+  }
+
+  /** Cria o StockPushRun e marca o canal como ocupado; o envio em si é `execute`. */
+  async function begin(channel: StockPushChannel, trigger: StockPushTrigger) {
+    if (running.has(channel)) throw new Error('Envio de estoque já em andamento.');
+    running.add(channel);
+    try {
+      return await prismaAny.stockPushRun.create({ data: { channel, trigger } });
+    } catch (e) {
+      running.delete(channel);
+      throw e;
+    }
+  }
+
+  async function execute(runId: number, channel: StockPushChannel) {
+    try {
+      const { entries } = await buildPlan(channel);
+      const toPush = entries.filter((e) => e.row.action === 'update' && e.listing);
+      const results = toPush.length > 0
+        ? await connectors[channel].push(toPush.map((e) => ({ listing: e.listing!, quantity: e.row.quantity! })))
+        : new Map<string, string | null>();
+
+      const counts = { updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+      const items = entries.map(({ row }) => {
+        let status: 'updated' | 'unchanged' | 'skipped' | 'failed' = 'skipped';
+        let error = row.reason;
+        if (row.action === 'unchanged') status = 'unchanged';
+        if (row.action === 'update') {
+          error = row.listingRef ? results.get(row.listingRef) ?? null : 'Sem resposta do canal.';
+          status = error ? 'failed' : 'updated';
+        }
+        counts[status]++;
+        return {
+          runId,
+          masterProductId: row.masterProductId,
+          masterSku: row.masterSku,
+          productId: row.productId,
+          productCode: row.productCode,
+          productName: row.productName,
+          listingRef: row.listingLabel,
+          previousStock: row.channelStock,
+          quantity: row.quantity,
+          status,
+          error,
+        };
+      });
+      if (items.length > 0) await prismaAny.stockPushItem.createMany({ data: items });
+
+      const status: StockPushRunStatus = counts.failed > 0 ? (counts.updated > 0 ? 'partial' : 'failed') : 'succeeded';
+      return await prismaAny.stockPushRun.update({
+        where: { id: runId },
+        data: {
+          status,
+          planned: toPush.length,
+          ...counts,
+          message: `${counts.updated} atualizado(s), ${counts.unchanged} sem mudança, ${counts.skipped} ignorado(s), ${counts.failed} falha(s).`,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      await prismaAny.stockPushRun
+        .update({ where: { id: runId }, data: { status: 'failed', message, finishedAt: new Date() } })
+        .catch((err: unknown) => console.error('[stock-push] Erro ao gravar falha do envio:', err));
+      throw e;
+    } finally {
+      running.delete(channel);
+    }
+  }
+
+  async function tickChannel(channel: StockPushChannel, now: Date) {
+    const { cron: cronStr } = await loadConfig(channel);
+    const cron = cronStr ? parseCron(cronStr) : null;
+    if (!cron || !cronMatches(cron, now) || lastFiredMinute.get(channel) === minuteKey(now)) return;
+    lastFiredMinute.set(channel, minuteKey(now));
+    if (running.has(channel) || !(await connectors[channel].isConnected())) return;
+    try {
+      const run = await begin(channel, 'schedule');
+      const done = await execute(run.id, channel);
+      console.log(`[stock-push] ${channel}: ${done.status} — ${done.message}`);
+    } catch (e) {
+      console.error(`[stock-push] ${channel}: envio agendado falhou:`, e);
+    }
+  }
+
+  async function tick() {
+    timer = null;
+    if (!ticking) {
+      ticking = true;
+      const now = new Date();
+      try {
+        for (const channel of STOCK_PUSH_CHANNELS) await tickChannel(channel, now);
+      } catch (e) {
+        console.error('[stock-push] Erro no agendador:', e);
+      } finally {
+        ticking = false;
+      }
+    }
+    scheduleNextMinute();
+  }
+
+  function scheduleNextMinute() {
+    if (timer) clearTimeout(timer);
+    const now = Date.now();
+    timer = setTimeout(() => void tick(), MINUTE_MS - (now % MINUTE_MS) + 500);
+  }
+
+  /** Envios "running" de antes de um reinício nunca vão terminar. */
+  async function start() {
+    const stale = await prismaAny.stockPushRun.updateMany({
+      where: { status: 'running' },
+      data: { status: 'failed', message: 'Interrompido pelo reinício do servidor.', finishedAt: new Date() },
+    });
+    if (stale.count > 0) console.warn(`[stock-push] ${stale.count} envio(s) interrompido(s) marcados como falha.`);
+    if (String(process.env.STOCK_PUSH_SCHEDULER_ENABLED ?? '').trim().toLowerCase() === 'false') {
+      console.log('[stock-push] Envio agendado desativado (STOCK_PUSH_SCHEDULER_ENABLED=false).');
+      return;
+    }
+    scheduleNextMinute();
+  }
+
+  return { start, isRunning, loadConfig, preview, begin, execute, connectors };
+}
+
+export type StockPush = ReturnType<typeof createStockPush>;
+
+// ─── Rotas ──────────────────────────────────────────────────────────────────
+
+export function registerStockPushRoutes(app: Express, deps: { prisma: PrismaClient; stockPush: StockPush }) {
+  const { prisma, stockPush } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/stock-push/config — margem, cron, próxima execução e último envio de cada canal
+  app.get('/api/stock-push/config', async (_req, res) => {
+    try {
+      const now = new Date();
+      const out = [];
+      for (const channel of STOCK_PUSH_CHANNELS) {
+        const config = await stockPush.loadConfig(channel);
+        const cron = config.cron ? parseCron(config.cron) : null;
+        const connected = await stockPush.connectors[channel].isConnected();
+        const lastRun = await prismaAny.stockPushRun.findFirst({ where: { channel }, orderBy: { startedAt: 'desc' } });
+        out.push({
+          channel,
+          label: STOCK_PUSH_CHANNEL_LABELS[channel],
+          connected,
+          safetyBuffer: config.safetyBuffer,
+          cron: config.cron ?? '',
+          nextRunAt: connected && cron ? nextCronRun(cron, now) : null,
+          running: stockPush.isRunning(channel),
+          lastRun,
+        });
+      }
+      return res.status(200).json(out);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar configuração de envio de estoque.' });
+    }
+  });
+
+  // PUT /api/stock-push/config/:channel  body: { safetyBuffer: 2, cron: "0 * * * *" }
+  app.put('/api/stock-push/config/:channel', async (req, res) => {
+    try {
+      const channel = String(req.params.channel);
+      if (!isStockPushChannel(channel)) return res.status(400).json({ message: 'Canal inválido.' });
+      const safetyBuffer = Number(req.body?.safetyBuffer ?? 0);
+      if (!Number.isInteger(safetyBuffer) || safetyBuffer < 0) {
+        return res.status(400).json({ message: 'Margem de segurança deve ser um número inteiro maior ou igual a zero.' });
+      }
+      const cronStr = String(req.body?.cron ?? '').trim().replace(/\s+/g, ' ');
+      if (cronStr && !parseCron(cronStr)) {
+        return res.status(400).json({ message: 'Cron inválido. Use 5 campos: minuto hora dia mês dia-da-semana (ex: 0 * * * *).' });
+      }
+      const saved = await prismaAny.stockPushConfig.upsert({
+        where: { channel },
+        update: { safetyBuffer, cron: cronStr || null },
+        create: { channel, safetyBuffer, cron: cronStr || null },
+      });
+      return res.status(200).json({ success: true, safetyBuffer: saved.safetyBuffer, cron: saved.cron ?? '' });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar configuração de envio de estoque.' });
+    }
+  });
+
+  // GET /api/stock-push/:channel/preview — o que seria enviado agora (consulta o catálogo da loja)
+  app.get('/api/stock-push/:channel/preview', async (req, res) => {
+    try {
+      const channel = String(req.params.channel);
+      if (!isStockPushChannel(channel)) return res.status(400).json({ message: 'Canal inválido.' });
+      if (!(await stockPush.connectors[channel].isConnected())) {
+        return res.status(400).json({ message: 'Integração não conectada.' });
+      }
+      return res.status(200).json(await stockPush.preview(channel));
+    } catch (e: any) {
+      console.error(e);
+      return res.status(500).json({ message: e?.message || 'Erro ao montar prévia do envio de estoque.' });
+    }
+  });
+
+  // POST /api/stock-push/:channel/run — envia em segundo plano (acompanhar por /api/stock-push/runs/:id)
+  app.post('/api/stock-push/:channel/run', async (req, res) => {
+    try {
+      const channel = String(req.params.channel);
+      if (!isStockPushChannel(channel)) return res.status(400).json({ message: 'Canal inválido.' });
+      if (stockPush.isRunning(channel)) return res.status(409).json({ message: 'Envio de estoque já em andamento.' });
+      if (!(await stockPush.connectors[channel].isConnected())) {
+        return res.status(400).json({ message: 'Integração não conectada.' });
+      }
+      const run = await stockPush.begin(channel, 'manual');
+      stockPush.execute(run.id, channel).catch((e) => console.error(`[stock-push] ${channel}: envio manual falhou:`, e));
+      return res.status(202).json({ success: true, message: 'Envio de estoque iniciado.', run });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao iniciar envio de estoque.' });
+    }
+  });
+
+  // GET /api/stock-push/runs?channel=shopee&limit=30
+  app.get('/api/stock-push/runs', async (req, res) => {
+    try {
+      const channel = String(req.query.channel ?? '').trim();
+      if (channel && !isStockPushChannel(channel)) return res.status(400).json({ message: 'Canal inválido.' });
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '30'), 10) || 30, 1), 200);
+      const runs = await prismaAny.stockPushRun.findMany({
+        where: channel ? { channel } : {},
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      });
+      return res.status(200).json(runs);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar envios de estoque.' });
+    }
+  });
+
+  // GET /api/stock-push/runs/:id — envio com o resultado por anúncio
+  app.get('/api/stock-push/runs/:id', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const run = await prismaAny.stockPushRun.findUnique({
+        where: { id },
+        include: { items: { orderBy: [{ status: 'asc' }, { id: 'asc' }] } },
+      });
+      if (!run) return res.status(404).json({ message: 'Envio não encontrado.' });
+      return res.status(200).json(run);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar envio de estoque.' });
+    }
+  });
+}
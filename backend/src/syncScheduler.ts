@@ -0,0 +1,413 @@
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+
+/**
+ * Sincronização automática das integrações (Shopee, TikTok Shop, TikTok Ads).
+ * Cada integração conectada tem um cron próprio (campo syncCron; vazio = só manual). A janela começa em
+ * lastSyncAt menos uma sobreposição, para não perder pedidos alterados durante a execução anterior, e filtra
+ * pela data de atualização: pedidos antigos que mudaram de status (enviado → concluído, cancelado) voltam a vir.
+ * Toda execução — agendada ou pelo botão — vira um SyncRun com contagens e erros.
+ *
+ * O agendador roda dentro do processo da API (horário local do servidor). Com mais de uma instância,
+ * deixe SYNC_SCHEDULER_ENABLED=false em todas menos uma.
+ */
+
+export type SyncIntegrationKey = 'shopee' | 'tiktok_shop' | 'tiktok_ads';
+export type SyncTrigger = 'schedule' | 'manual';
+export type SyncRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export const SYNC_INTEGRATION_KEYS: SyncIntegrationKey[] = ['shopee', 'tiktok_shop', 'tiktok_ads'];
+
+export const SYNC_INTEGRATION_LABELS: Record<SyncIntegrationKey, string> = {
+  shopee: 'Shopee (pedidos)',
+  tiktok_shop: 'TikTok Shop (pedidos)',
+  tiktok_ads: 'TikTok Ads (gasto)',
+};
+
+/** Modelo Prisma de cada integração (todos têm status, accessToken, lastSyncAt e syncCron). */
+const INTEGRATION_MODELS: Record<SyncIntegrationKey, string> = {
+  shopee: 'shopeeIntegration',
+  tiktok_shop: 'tiktokShopIntegration',
+  tiktok_ads: 'tiktokAdsIntegration',
+};
+
+export type SyncTimeField = 'create_time' | 'update_time';
+
+/** `timeField` ausente = create_time (sync manual por período). */
+export type SyncWindow = { from: Date; to: Date; timeField?: SyncTimeField };
+
+export type SyncResult = {
+  /** Registros encontrados na API (pedidos, meses…). */
+  fetched: number;
+  synced: number;
+  failed: number;
+  errors: string[];
+  message?: string;
+};
+
+export type SyncRunner = {
+  /** Renova o access token se ele vence em menos de `marginMs` (integrações sem refresh não definem). */
+  ensureToken?(marginMs: number): Promise<unknown>;
+  run(window: SyncWindow): Promise<SyncResult>;
+};
+
+type Deps = {
+  prisma: PrismaClient;
+  runners: Record<SyncIntegrationKey, SyncRunner>;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_STORED_ERRORS = 50;
+
+function envNumber(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/** Sobreposição da janela incremental (minutos). */
+const OVERLAP_MS = envNumber('SYNC_OVERLAP_MINUTES', 120) * MINUTE_MS;
+/** Renova o token quando falta menos que isso para expirar (minutos). */
+const TOKEN_REFRESH_MARGIN_MS = envNumber('SYNC_TOKEN_REFRESH_MARGIN_MINUTES', 30) * MINUTE_MS;
+/** Primeira execução (sem lastSyncAt): quantos dias para trás. */
+const INITIAL_DAYS = envNumber('SYNC_INITIAL_DAYS', 30);
+
+export function isSyncIntegrationKey(v: unknown): v is SyncIntegrationKey {
+  return SYNC_INTEGRATION_KEYS.includes(v as SyncIntegrationKey);
+}
+
+// ─── Cron (5 campos: minuto hora dia-do-mês mês dia-da-semana) ──────────────
+
+type CronField = { values: Set<number>; any: boolean };
+export type CronSchedule = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const CRON_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+function parseCronField(raw: string, min: number, max: number): CronField | null {
+  const values = new Set<number>();
+  for (const part of raw.split(',')) {
+    const m = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part.trim());
+    if (!m) return null;
+    const step = m[2] ? Number(m[2]) : 1;
+    if (step < 1) return null;
+    let lo = min;
+    let hi = max;
+    if (m[1] !== '*') {
+      const [a, b] = m[1].split('-').map(Number);
+      lo = a;
+      hi = b ?? (m[2] ? max : a);
+    }
+    if (lo < min || hi > max || lo > hi) return null;
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return { values, any: raw.trim() === '*' };
+}
+
+/** "0 *\/6 * * *", "30 7,19 * * 1-5"… Retorna null se inválido. */
+export function parseCron(expr: string): CronSchedule | null {
+  const parts = String(expr ?? '').trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+  const fields = parts.map((p, i) => parseCronField(p, CRON_RANGES[i][0], CRON_RANGES[i][1]));
+  if (fields.some((f) => !f)) return null;
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as CronField[];
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+export function cronMatches(cron: CronSchedule, d: Date): boolean {
+  if (!cron.minute.values.has(d.getMinutes())) return false;
+  if (!cron.hour.values.has(d.getHours())) return false;
+  if (!cron.month.values.has(d.getMonth() + 1)) return false;
+  const dom = cron.dayOfMonth.values.has(d.getDate());
+  const dow = cron.dayOfWeek.values.has(d.getDay());
+  // Regra do cron: com dia do mês e dia da semana restritos, basta um dos dois
+  if (!cron.dayOfMonth.any && !cron.dayOfWeek.any) return dom || dow;
+  return dom && dow;
+}
+
+/** Próximo minuto (após `from`) em que o cron dispara; procura até um ano à frente. */
+export function nextCronRun(cron: CronSchedule, from: Date): Date | null {
+  const d = new Date(from.getTime());
+  d.setSeconds(0, 0);
+  for (let i = 0; i < 366 * 24 * 60; i++) {
+    d.setTime(d.getTime() + MINUTE_MS);
+    if (cronMatches(cron, d)) return d;
+  }
+  return null;
+}
+
+function minuteKey(d: Date): number {
+  return Math.floor(d.getTime() / MINUTE_MS);
+}
+
+// ─── Agendador ──────────────────────────────────────────────────────────────
+
+export function createSyncScheduler(deps: Deps) {
+  const { prisma, runners } = deps;
+  const prismaAny = prisma as any;
+  const running = new Set<SyncIntegrationKey>();
+  const lastFiredMinute = new Map<SyncIntegrationKey, number>();
+  let ticking = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function loadIntegration(key: SyncIntegrationKey) {
+    return prismaAny[INTEGRATION_MODELS[key]].findFirst({ orderBy: { id: 'desc' } });
+  }
+
+  function isConnected(integration: any): boolean {
+    return !!integration && integration.status === 'connected' && !!integration.accessToken;
+  }
+
+  /**
+   * Janela incremental: pedidos atualizados desde a última sync (menos a sobreposição) até agora.
+   * A primeira sync (sem lastSyncAt) traz os criados nos últimos INITIAL_DAYS.
+   */
+  function incrementalWindow(integration: any, now = new Date()): SyncWindow {
+    if (!integration?.lastSyncAt) {
+      return { from: new Date(now.getTime() - INITIAL_DAYS * DAY_MS), to: now, timeField: 'create_time' };
+    }
+    return { from: new Date(new Date(integration.lastSyncAt).getTime() - OVERLAP_MS), to: now, timeField: 'update_time' };
+  }
+
+  /**
+   * Cursor da próxima janela incremental: vai para o fim da janela sincronizada só se nenhum registro falhou
+   * (senão os pedidos com erro ficariam fora das próximas janelas) e nunca volta (sync manual de mês antigo).
+   */
+  async function advanceLastSyncAt(key: SyncIntegrationKey, integrationId: number, window: SyncWindow, failed: number) {
+    if (failed > 0) return;
+    await prismaAny[INTEGRATION_MODELS[key]].updateMany({
+      where: { id: integrationId, OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: window.to } }] },
+      data: { lastSyncAt: window.to },
+    });
+  }
+
+  function isRunning(key: SyncIntegrationKey): boolean {
+    return running.has(key);
+  }
+
+  /** Executa `fn` registrando um SyncRun (status, contagens, erros). Relança a exceção depois de gravar. */
+  async function recordRun<R extends SyncResult>(
+    key: SyncIntegrationKey,
+    trigger: SyncTrigger,
+    window: SyncWindow | null,
+    fn: () => Promise<R>,
+  ) {
+    running.add(key);
+    let runId: number | null = null;
+    try {
+      const run = await prismaAny.syncRun.create({
+        data: { integration: key, trigger, windowFrom: window?.from ?? null, windowTo: window?.to ?? null },
+      });
+      runId = run.id;
+      const result = await fn();
+      const status: SyncRunStatus = result.failed > 0 ? (result.synced > 0 ? 'partial' : 'failed') : 'succeeded';
+      const saved = await prismaAny.syncRun.update({
+        where: { id: run.id },
+        data: {
+          status,
+          fetched: result.fetched,
+          synced: result.synced,
+          failed: result.failed,
+          errors: result.errors.length > 0 ? result.errors.slice(0, MAX_STORED_ERRORS) : undefined,
+          message: result.message ?? null,
+          finishedAt: new Date(),
+        },
+      });
+      return { run: saved, result };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      if (runId != null) {
+        await prismaAny.syncRun
+          .update({ where: { id: runId }, data: { status: 'failed', message, errors: [message], finishedAt: new Date() } })
+          .catch((err: unknown) => console.error('[sync] Erro ao gravar falha da execução:', err));
+      }
+      throw e;
+    } finally {
+      running.delete(key);
+    }
+  }
+
+  /** Sync incremental (agendada ou "rodar agora"); erros ficam no SyncRun. */
+  async function runIncremental(key: SyncIntegrationKey, trigger: SyncTrigger) {
+    const integration = await loadIntegration(key);
+    if (!isConnected(integration)) throw new Error('Integração não conectada.');
+    const window = incrementalWindow(integration);
+    const runner = runners[key];
+    return recordRun(key, trigger, window, async () => {
+      if (runner.ensureToken) await runner.ensureToken(TOKEN_REFRESH_MARGIN_MS);
+      return runner.run(window);
+    });
+  }
+
+  async function tickIntegration(key: SyncIntegrationKey, now: Date) {
+    const integration = await loadIntegration(key);
+    if (!isConnected(integration) || running.has(key)) return;
+    const runner = runners[key];
+
+    // Renovação proativa: mantém o refresh token vivo mesmo sem sync agendada
+    const expiresAt = integration.tokenExpiresAt ? new Date(integration.tokenExpiresAt).getTime() : null;
+    if (runner.ensureToken && expiresAt != null && expiresAt - TOKEN_REFRESH_MARGIN_MS <= now.getTime()) {
+      try {
+        await runner.ensureToken(TOKEN_REFRESH_MARGIN_MS);
+      } catch (e) {
+        console.error(`[sync] Falha ao renovar token (${key}):`, e);
+      }
+    }
+
+    const cron = integration.syncCron ? parseCron(integration.syncCron) : null;
+    if (!cron || !cronMatches(cron, now) || lastFiredMinute.get(key) === minuteKey(now)) return;
+    lastFiredMinute.set(key, minuteKey(now));
+    try {
+      const { run } = await runIncremental(key, 'schedule');
+      console.log(`[sync] ${key}: ${run.status} (${run.synced}/${run.fetched}, falhas: ${run.failed})`);
+    } catch (e) {
+      console.error(`[sync] ${key}: execução agendada falhou:`, e);
+    }
+  }
+
+  async function tick() {
+    timer = null;
+    if (!ticking) {
+      ticking = true;
+      const now = new Date();
+      try {
+        for (const key of SYNC_INTEGRATION_KEYS) await tickIntegration(key, now);
+      } catch (e) {
+        console.error('[sync] Erro no agendador:', e);
+      } finally {
+        ticking = false;
+      }
+    }
+    scheduleNextMinute();
+  }
+
+  function scheduleNextMinute() {
+    if (timer) clearTimeout(timer);
+    const now = Date.now();
+    timer = setTimeout(() => void tick(), MINUTE_MS - (now % MINUTE_MS) + 500);
+  }
+
+  /** Execuções "running" de antes de um reinício nunca vão terminar. */
+  async function start() {
+    const stale = await prismaAny.syncRun.updateMany({
+      where: { status: 'running' },
+      data: { status: 'failed', message: 'Interrompida pelo reinício do servidor.', finishedAt: new Date() },
+    });
+    if (stale.count > 0) console.warn(`[sync] ${stale.count} execução(ões) interrompida(s) marcadas como falha.`);
+    if (String(process.env.SYNC_SCHEDULER_ENABLED ?? '').trim().toLowerCase() === 'false') {
+      console.log('[sync] Agendador desativado (SYNC_SCHEDULER_ENABLED=false).');
+      return;
+    }
+    scheduleNextMinute();
+  }
+
+  return { start, isRunning, recordRun, runIncremental, loadIntegration, isConnected, incrementalWindow, advanceLastSyncAt };
+}
+
+export type SyncScheduler = ReturnType<typeof createSyncScheduler>;
+
+// ─── Rotas ──────────────────────────────────────────────────────────────────
+
+export function registerSyncRoutes(app: Express, deps: { prisma: PrismaClient; scheduler: SyncScheduler }) {
+  const { prisma, scheduler } = deps;
+  const prismaAny = prisma as any;
+
+  // GET /api/sync-schedules — cron, próxima execução e última execução de cada integração
+  app.get('/api/sync-schedules', async (_req, res) => {
+    try {
+      const now = new Date();
+      const out = [];
+      for (const key of SYNC_INTEGRATION_KEYS) {
+        const integration = await scheduler.loadIntegration(key);
+        const cron = integration?.syncCron ? parseCron(integration.syncCron) : null;
+        const connected = scheduler.isConnected(integration);
+        const lastRun = await prismaAny.syncRun.findFirst({ where: { integration: key }, orderBy: { startedAt: 'desc' } });
+        out.push({
+          integration: key,
+          label: SYNC_INTEGRATION_LABELS[key],
+          configured: !!integration,
+          connected,
+          cron: integration?.syncCron ?? '',
+          nextRunAt: connected && cron ? nextCronRun(cron, now) : null,
+          lastSyncAt: integration?.lastSyncAt ?? null,
+          nextWindowFrom: connected ? scheduler.incrementalWindow(integration, now).from : null,
+          running: scheduler.isRunning(key),
+          lastRun,
+        });
+      }
+      return res.status(200).json(out);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar agendamentos de sincronização.' });
+    }
+  });
+
+  // PUT /api/sync-schedules/:integration  body: { cron: "0 */2 * * *" }  (vazio desativa)
+  app.put('/api/sync-schedules/:integration', async (req, res) => {
+    try {
+      const key = String(req.params.integration);
+      if (!isSyncIntegrationKey(key)) return res.status(400).json({ message: 'Integração inválida.' });
+      const cronStr = String(req.body?.cron ?? '').trim().replace(/\s+/g, ' ');
+      if (cronStr && !parseCron(cronStr)) {
+        return res.status(400).json({ message: 'Cron inválido. Use 5 campos: minuto hora dia mês dia-da-semana (ex: 0 */2 * * *).' });
+      }
+      const integration = await scheduler.loadIntegration(key);
+      if (!integration) return res.status(404).json({ message: 'Integração não configurada.' });
+      await prismaAny[INTEGRATION_MODELS[key]].update({
+        where: { id: integration.id },
+        data: { syncCron: cronStr || null },
+      });
+      return res.status(200).json({ success: true, cron: cronStr });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao salvar agendamento.' });
+    }
+  });
+
+  // POST /api/sync-schedules/:integration/run — sync incremental agora (acompanhar por /api/sync-runs)
+  app.post('/api/sync-schedules/:integration/run', async (req, res) => {
+    try {
+      const key = String(req.params.integration);
+      if (!isSyncIntegrationKey(key)) return res.status(400).json({ message: 'Integração inválida.' });
+      if (scheduler.isRunning(key)) return res.status(409).json({ message: 'Sincronização já em andamento.' });
+      const integration = await scheduler.loadIntegration(key);
+      if (!scheduler.isConnected(integration)) return res.status(400).json({ message: 'Integração não conectada.' });
+
+      scheduler.runIncremental(key, 'manual').catch((e) => console.error(`[sync] ${key}: execução manual falhou:`, e));
+      return res.status(202).json({ success: true, message: 'Sincronização iniciada.' });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao iniciar sincronização.' });
+    }
+  });
+
+  // GET /api/sync-runs?integration=shopee&limit=50
+  app.get('/api/sync-runs', async (req, res) => {
+    try {
+      const key = String(req.query.integration ?? '').trim();
+      if (key && !isSyncIntegrationKey(key)) return res.status(400).json({ message: 'Integração inválida.' });
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 500);
+      const runs = await prismaAny.syncRun.findMany({
+        where: key ? { integration: key } : {},
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      });
+      return res.status(200).json(runs);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar execuções de sincronização.' });
+    }
+  });
+}
@@ -86,7 +86,7 @@ export async function getAdvertiserInfo(
   return res.json() as Promise<AdvertiserInfoResponse>;
 }
 
-// ── Relatório de custo (spend) ───────────────────────────────────────────────
+// ── Relatório de custo (spend) por dia e campanha ──────────────────────────────
 
 interface IntegratedReportResponse {
   code: number;
@@ -96,44 +96,84 @@ interface IntegratedReportResponse {
       dimensions: Record<string, string>;
       metrics: Record<string, string>;
     }>;
+    page_info?: { page: number; page_size: number; total_number: number; total_page: number };
   };
 }
 
+export interface TiktokCampaignDayRow {
+  date: string; // YYYY-MM-DD
+  campaignId: string;
+  campaignName: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  /** Valor de compras atribuído (total_onsite_shopping_value); 0 se a conta não reporta. */
+  attributedRevenue: number;
+}
+
+/** Limite da API para a dimensão stat_time_day. */
+const MAX_DAYS_PER_REQUEST = 30;
+
+function addDaysIso(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
 /**
- * Retorna o gasto total (spend) de uma conta de anúncio em um intervalo de datas
- * (ex.: primeiro ao último dia do mês). Agrega no nível da conta (sem quebrar por
- * campanha) — é o número que interessa para "custo com ADS do mês".
+ * Gasto por dia e campanha (spend, impressões, cliques, conversões e receita atribuída) de um intervalo
+ * de datas inclusivo. Quebra em blocos de 30 dias e pagina automaticamente.
  */
-export async function getAdvertiserSpend(
+export async function getCampaignDailyReport(
   accessToken: string,
   advertiserId: string,
   startDate: string, // YYYY-MM-DD
-  endDate: string, // YYYY-MM-DD
-): Promise<{ spend: number; raw: IntegratedReportResponse }> {
-  const params = new URLSearchParams({
-    advertiser_id: advertiserId,
-    report_type: 'BASIC',
-    data_level: 'AUCTION_ADVERTISER',
-    dimensions: JSON.stringify(['advertiser_id']),
-    metrics: JSON.stringify(['spend']),
-    start_date: startDate,
-    end_date: endDate,
-    page: '1',
-    page_size: '10',
-  });
-
-  const res = await fetch(
-    `${API_HOST}/open_api/${API_VERSION}/report/integrated/get/?${params.toString()}`,
-    { headers: { 'Access-Token': accessToken } },
-  );
-  const json = (await res.json()) as IntegratedReportResponse;
-
-  if (json.code !== 0) {
-    throw new Error(`TikTok Ads API error: ${json.code} - ${json.message}`);
+  endDate: string, // YYYY-MM-DD (inclusivo)
+): Promise<TiktokCampaignDayRow[]> {
+  const out: TiktokCampaignDayRow[] = [];
+  for (let chunkStart = startDate; chunkStart <= endDate; chunkStart = addDaysIso(chunkStart, MAX_DAYS_PER_REQUEST)) {
+    const chunkEnd = addDaysIso(chunkStart, MAX_DAYS_PER_REQUEST - 1) < endDate
+      ? addDaysIso(chunkStart, MAX_DAYS_PER_REQUEST - 1)
+      : endDate;
+    let page = 1;
+    let totalPage = 1;
+    do {
+      const params = new URLSearchParams({
+        advertiser_id: advertiserId,
+        report_type: 'BASIC',
+        data_level: 'AUCTION_CAMPAIGN',
+        dimensions: JSON.stringify(['campaign_id', 'stat_time_day']),
+        metrics: JSON.stringify(['campaign_name', 'spend', 'impressions', 'clicks', 'conversion', 'total_onsite_shopping_value']),
+        start_date: chunkStart,
+        end_date: chunkEnd,
+        page: String(page),
+        page_size: '1000',
+      });
+      const res = await fetch(
+        `${API_HOST}/open_api/${API_VERSION}/report/integrated/get/?${params.toString()}`,
+        { headers: { 'Access-Token': accessToken } },
+      );
+      const json = (await res.json()) as IntegratedReportResponse;
+      if (json.code !== 0) {
+        throw new Error(`TikTok Ads API error: ${json.code} - ${json.message}`);
+      }
+      for (const row of json.data?.list ?? []) {
+        const m = row.metrics ?? {};
+        out.push({
+          date: String(row.dimensions?.stat_time_day ?? '').slice(0, 10),
+          campaignId: String(row.dimensions?.campaign_id ?? ''),
+          campaignName: String(m.campaign_name ?? ''),
+          spend: parseFloat(m.spend ?? '0') || 0,
+          impressions: parseInt(m.impressions ?? '0', 10) || 0,
+          clicks: parseInt(m.clicks ?? '0', 10) || 0,
+          conversions: parseInt(m.conversion ?? '0', 10) || 0,
+          attributedRevenue: parseFloat(m.total_onsite_shopping_value ?? '0') || 0,
+        });
+      }
+      totalPage = json.data?.page_info?.total_page ?? 1;
+      page++;
+    } while (page <= totalPage);
   }
-
-  const rows = json.data?.list ?? [];
-  const spend = rows.reduce((sum, row) => sum + (parseFloat(row.metrics?.spend ?? '0') || 0), 0);
-
-  return { spend: Math.round(spend * 100) / 100, raw: json };
+  return out;
 }
@@ -0,0 +1,101 @@
+/**
+ * Devoluções/reembolsos e cancelamentos da TikTok Shop → OrderReturn e status do pedido.
+ * Um pedido pode ter várias solicitações (ex.: uma por item); o OrderReturn é um por pedido, então as
+ * solicitações são agrupadas: valor reembolsado somado, motivo/status da mais recente.
+ */
+import type { TiktokShopCancellation, TiktokShopReturn } from './tiktokShopApi.js';
+import type { ReturnReason } from './returnReasons.js';
+
+/** Solicitação encerrada sem devolução (recusada pelo vendedor ou cancelada pelo comprador). */
+const CLOSED_RETURN_STATUSES = new Set(['REFUND_OR_RETURN_REQUEST_REJECT', 'RETURN_OR_REFUND_REQUEST_CANCEL']);
+
+/** Reembolso concluído: o pedido deixa de contar como venda. */
+const COMPLETED_RETURN_STATUSES = new Set(['RETURN_OR_REFUND_REQUEST_SUCCESS', 'RETURN_OR_REFUND_REQUEST_COMPLETE']);
+
+const COMPLETED_CANCEL_STATUSES = new Set(['CANCELLATION_REQUEST_SUCCESS', 'CANCELLATION_REQUEST_COMPLETE']);
+
+/** Status do pedido na API → rótulos usados nas planilhas (as métricas excluem Cancelado / Não pago). */
+export const TIKTOK_ORDER_STATUS_LABELS: Record<string, string> = {
+  UNPAID: 'Não pago',
+  ON_HOLD: 'Em espera',
+  AWAITING_SHIPMENT: 'Aguardando envio',
+  PARTIALLY_SHIPPING: 'Envio parcial',
+  AWAITING_COLLECTION: 'Aguardando coleta',
+  IN_TRANSIT: 'Em trânsito',
+  DELIVERED: 'Entregue',
+  COMPLETED: 'Concluído',
+  CANCELLED: 'Cancelado',
+};
+
+const REASON_RULES: Array<{ reason: ReturnReason; pattern: RegExp }> = [
+  { reason: 'Endereço não encontrado', pattern: /address|undeliver|delivery_fail|failed_delivery|endere[cç]o/ },
+  { reason: 'Não Serviu', pattern: /size|fit|tamanho|servi/ },
+  { reason: 'Produto com defeito', pattern: /damage|defect|broken|quality|not_work|malfunction|defeito|danificad|quebrad/ },
+  {
+    reason: 'Produto diferente do anunciado',
+    pattern: /not_as_described|wrong|different|missing|incorrect|fake|counterfeit|diferente|errad|faltando/,
+  },
+  { reason: 'Desistência do comprador', pattern: /mind|no_longer|not_need|dont_want|mistake|changed|desist|arrepend|n[aã]o quero/ },
+];
+
+/** Código/texto do motivo na TikTok → motivo da lista RETURN_REASONS ("Outro" se nada bater). */
+export function mapTiktokReturnReason(code: string | undefined, text: string | undefined): ReturnReason {
+  const s = `${code ?? ''} ${text ?? ''}`.toLowerCase();
+  for (const rule of REASON_RULES) {
+    if (rule.pattern.test(s)) return rule.reason;
+  }
+  return 'Outro';
+}
+
+export interface TiktokReturnPlan {
+  orderId: string;
+  /** false quando todas as solicitações foram recusadas/canceladas (remove o registro do sync). */
+  active: boolean;
+  /** Reembolso concluído em alguma solicitação ativa → pedido vira "Devolvido". */
+  completed: boolean;
+  returnIds: string[];
+  status: string;
+  reason: ReturnReason;
+  reasonText: string;
+  refundAmount: number;
+  returnDate: Date;
+}
+
+/** Agrupa as solicitações por pedido (trocas/REPLACEMENT ficam de fora: não há reembolso). */
+export function planTiktokReturns(returns: TiktokShopReturn[]): TiktokReturnPlan[] {
+  const byOrder = new Map<string, TiktokShopReturn[]>();
+  for (const r of returns) {
+    if (!r.order_id || r.return_type === 'REPLACEMENT') continue;
+    const list = byOrder.get(r.order_id) ?? [];
+    list.push(r);
+    byOrder.set(r.order_id, list);
+  }
+
+  const plans: TiktokReturnPlan[] = [];
+  for (const [orderId, list] of byOrder) {
+    const active = list.filter((r) => !CLOSED_RETURN_STATUSES.has(r.return_status));
+    const relevant = active.length > 0 ? active : list;
+    const latest = relevant.reduce((a, b) => (b.update_time > a.update_time ? b : a));
+    const refundAmount = active.reduce((sum, r) => sum + (parseFloat(r.refund_amount?.refund_total ?? '0') || 0), 0);
+    const firstCreated = Math.min(...relevant.map((r) => r.create_time));
+    plans.push({
+      orderId,
+      active: active.length > 0,
+      completed: active.some((r) => COMPLETED_RETURN_STATUSES.has(r.return_status)),
+      returnIds: relevant.map((r) => r.return_id),
+      status: latest.return_status,
+      reason: mapTiktokReturnReason(latest.return_reason, latest.return_reason_text),
+      reasonText: latest.return_reason_text ?? '',
+      refundAmount: Math.round(refundAmount * 100) / 100,
+      returnDate: new Date(firstCreated * 1000),
+    });
+  }
+  return plans;
+}
+
+/** Pedidos com cancelamento concluído na plataforma. */
+export function cancelledOrderIds(cancellations: TiktokShopCancellation[]): string[] {
+  return [
+    ...new Set(cancellations.filter((c) => c.order_id && COMPLETED_CANCEL_STATUSES.has(c.cancel_status)).map((c) => c.order_id)),
+  ];
+}
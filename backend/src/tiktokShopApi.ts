@@ -98,6 +98,16 @@ function buildSignedQuery(
   return usp;
 }
 
+/**
+ * Webhook: header Authorization = HMAC-SHA256(appSecret, appKey + corpo cru), em hex.
+ * (Diferente de `signRequest`, que assina path + query das chamadas à API.)
+ */
+export function verifyWebhookSignature(appKey: string, appSecret: string, rawBody: string, authorization: string): boolean {
+  const expected = Buffer.from(crypto.createHmac('sha256', appSecret).update(`${appKey}${rawBody}`).digest('hex'));
+  const received = Buffer.from(String(authorization || '').trim().toLowerCase());
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
 // ── Autorização (OAuth) ─────────────────────────────────────────────────────
 
 /**
@@ -209,6 +219,12 @@ export interface TiktokShopOrder {
     total_amount: string;
     currency: string;
   };
+  user_id?: string;
+  buyer_email?: string; // e-mail mascarado/relay da plataforma
+  recipient_address?: {
+    phone_number?: string;
+    district_info?: Array<{ address_level?: string; address_level_name?: string; address_name?: string }>;
+  };
   line_items: TiktokShopOrderLineItem[];
 }
 
@@ -222,23 +238,24 @@ interface OrderListResponse {
   };
 }
 
-/** POST /order/{version}/orders/search — busca por página, filtrando por data de criação. */
+/** POST /order/{version}/orders/search — busca por página, filtrando por data de criação ou de atualização. */
 export async function searchOrders(
   appKey: string,
   appSecret: string,
   accessToken: string,
   shopCipher: string,
-  createTimeGe: number,
-  createTimeLt: number,
+  timeGe: number,
+  timeLt: number,
   pageToken = '',
   pageSize = 100,
+  timeField: 'create_time' | 'update_time' = 'create_time',
 ): Promise<OrderListResponse> {
   const path = `/order/${API_VERSION}/orders/search`;
   const body = {
     page_size: pageSize,
     ...(pageToken ? { page_token: pageToken } : {}),
-    create_time_ge: createTimeGe,
-    create_time_lt: createTimeLt,
+    [`${timeField}_ge`]: timeGe,
+    [`${timeField}_lt`]: timeLt,
     order_status: 'ALL',
   };
   const query = buildSignedQuery(
@@ -261,14 +278,40 @@ export async function searchOrders(
   return res.json() as Promise<OrderListResponse>;
 }
 
-/** Busca todos os pedidos de um intervalo de datas, paginando automaticamente. */
+interface OrderDetailResponse {
+  code: number;
+  message: string;
+  data?: { orders: TiktokShopOrder[] };
+}
+
+/** GET /order/{version}/orders?ids=... — detalhe de até 50 pedidos (reconsulta pontual, ex.: webhook). */
+export async function getOrderDetail(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  orderIds: string[],
+): Promise<OrderDetailResponse> {
+  const path = `/order/${API_VERSION}/orders`;
+  const query = buildSignedQuery(appKey, appSecret, path, { shop_cipher: shopCipher, ids: orderIds.join(',') }, accessToken);
+  const res = await fetch(`${API_HOST}${path}?${query.toString()}`, {
+    headers: { 'x-tts-access-token': accessToken },
+  });
+  return res.json() as Promise<OrderDetailResponse>;
+}
+
+/**
+ * Busca todos os pedidos de um intervalo de datas, paginando automaticamente.
+ * `timeField`: create_time (período de vendas) ou update_time (sync incremental: pega mudanças de status).
+ */
 export async function fetchAllOrders(
   appKey: string,
   appSecret: string,
   accessToken: string,
   shopCipher: string,
-  createTimeGe: number,
-  createTimeLt: number,
+  timeGe: number,
+  timeLt: number,
+  timeField: 'create_time' | 'update_time' = 'create_time',
 ): Promise<TiktokShopOrder[]> {
   const all: TiktokShopOrder[] = [];
   let pageToken = '';
@@ -277,7 +320,7 @@ export async function fetchAllOrders(
   while (hasMore) {
     const res = await searchOrders(
       appKey, appSecret, accessToken, shopCipher,
-      createTimeGe, createTimeLt, pageToken,
+      timeGe, timeLt, pageToken, 100, timeField,
     );
     if (res.code !== 0) {
       throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
@@ -290,3 +333,428 @@ export async function fetchAllOrders(
 
   return all;
 }
+
+// ── Produtos e estoque ──────────────────────────────────────────────────────
+
+export interface TiktokShopProductSku {
+  id: string; // sku_id
+  seller_sku?: string;
+  inventory?: Array<{ warehouse_id: string; quantity: number }>;
+}
+
+export interface TiktokShopProduct {
+  id: string; // product_id
+  title: string;
+  status?: string;
+  skus: TiktokShopProductSku[];
+}
+
+interface ProductListResponse {
+  code: number;
+  message: string;
+  data?: {
+    products: TiktokShopProduct[];
+    next_page_token?: string;
+    total_count?: number;
+  };
+}
+
+/** POST /product/{version}/products/search — lista os produtos da loja por página. */
+export async function searchProducts(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  pageToken = '',
+  pageSize = 100,
+): Promise<ProductListResponse> {
+  const path = `/product/${API_VERSION}/products/search`;
+  const body = {};
+  const query = buildSignedQuery(
+    appKey,
+    appSecret,
+    path,
+    { shop_cipher: shopCipher, page_size: pageSize, ...(pageToken ? { page_token: pageToken } : {}) },
+    accessToken,
+    body,
+  );
+
+  const res = await fetch(`${API_HOST}${path}?${query.toString()}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-tts-access-token': accessToken,
+    },
+    body: JSON.stringify(body),
+  });
+  return res.json() as Promise<ProductListResponse>;
+}
+
+/** Todos os produtos da loja (com SKUs e estoque por armazém), paginando automaticamente. */
+export async function fetchAllProducts(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+): Promise<TiktokShopProduct[]> {
+  const all: TiktokShopProduct[] = [];
+  let pageToken = '';
+  let hasMore = true;
+
+  while (hasMore) {
+    const res = await searchProducts(appKey, appSecret, accessToken, shopCipher, pageToken);
+    if (res.code !== 0) {
+      throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
+    }
+    const products = res.data?.products ?? [];
+    all.push(...products);
+    pageToken = res.data?.next_page_token ?? '';
+    hasMore = Boolean(pageToken) && products.length > 0;
+  }
+
+  return all;
+}
+
+interface InventoryUpdateResponse {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/** POST /product/{version}/products/{product_id}/inventory/update — quantidade por SKU e armazém. */
+export async function updateInventory(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  productId: string,
+  skus: Array<{ id: string; inventory: Array<{ warehouse_id?: string; quantity: number }> }>,
+): Promise<InventoryUpdateResponse> {
+  const path = `/product/${API_VERSION}/products/${productId}/inventory/update`;
+  const body = { skus };
+  const query = buildSignedQuery(appKey, appSecret, path, { shop_cipher: shopCipher }, accessToken, body);
+
+  const res = await fetch(`${API_HOST}${path}?${query.toString()}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-tts-access-token': accessToken,
+    },
+    body: JSON.stringify(body),
+  });
+  return res.json() as Promise<InventoryUpdateResponse>;
+}
+
+// ── Finanças (demonstrativos e transações) ──────────────────────────────────
+
+export interface TiktokShopStatement {
+  id: string; // statement_id
+  statement_time: number; // epoch seconds
+  settlement_amount: string;
+  currency: string;
+  payment_id?: string;
+  payment_status?: string;
+}
+
+interface StatementListResponse {
+  code: number;
+  message: string;
+  data?: {
+    statements: TiktokShopStatement[];
+    next_page_token?: string;
+  };
+}
+
+/**
+ * Transação do demonstrativo (uma por pedido/ajuste). Valores em string com sinal (custos negativos).
+ * As taxas podem vir soltas ou em `fee_tax_breakdown.fee` — o flatten em tiktokStatement.ts aceita os dois.
+ */
+export interface TiktokShopStatementTransaction {
+  id: string;
+  type: string; // ORDER | ADJUSTMENT | ...
+  order_id?: string;
+  sku_id?: string;
+  settlement_amount?: string;
+  fee_tax_amount?: string;
+  platform_commission_amount?: string;
+  sfp_service_fee_amount?: string;
+  fee_per_item_sold_amount?: string;
+  affiliate_commission_amount?: string;
+  affiliate_partner_commission_amount?: string;
+  affiliate_ads_commission_amount?: string;
+  affiliate_partner_ads_commission_amount?: string;
+  transaction_fee_amount?: string;
+  voucher_xtra_service_fee_amount?: string;
+  flash_sales_service_fee_amount?: string;
+  live_specials_fee_amount?: string;
+  mall_service_fee_amount?: string;
+  bonus_cashback_service_fee_amount?: string;
+  cofunded_promotion_service_fee_amount?: string;
+  pre_order_service_fee_amount?: string;
+  fee_tax_breakdown?: { fee?: Record<string, string | undefined> };
+}
+
+interface StatementTransactionsResponse {
+  code: number;
+  message: string;
+  data?: {
+    statement_transactions: TiktokShopStatementTransaction[];
+    next_page_token?: string;
+  };
+}
+
+/** GET /finance/{version}/statements — demonstrativos por data do demonstrativo. */
+export async function getStatements(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  statementTimeGe: number,
+  statementTimeLt: number,
+  pageToken = '',
+  pageSize = 100,
+): Promise<StatementListResponse> {
+  const path = `/finance/${API_VERSION}/statements`;
+  const query = buildSignedQuery(
+    appKey,
+    appSecret,
+    path,
+    {
+      shop_cipher: shopCipher,
+      statement_time_ge: statementTimeGe,
+      statement_time_lt: statementTimeLt,
+      sort_field: 'statement_time',
+      page_size: pageSize,
+      ...(pageToken ? { page_token: pageToken } : {}),
+    },
+    accessToken,
+  );
+  const res = await fetch(`${API_HOST}${path}?${query.toString()}`, {
+    headers: { 'x-tts-access-token': accessToken },
+  });
+  return res.json() as Promise<StatementListResponse>;
+}
+
+/** GET /finance/{version}/statements/{statement_id}/statement_transactions */
+export async function getStatementTransactions(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  statementId: string,
+  pageToken = '',
+  pageSize = 100,
+): Promise<StatementTransactionsResponse> {
+  const path = `/finance/${API_VERSION}/statements/${statementId}/statement_transactions`;
+  const query = buildSignedQuery(
+    appKey,
+    appSecret,
+    path,
+    {
+      shop_cipher: shopCipher,
+      sort_field: 'order_create_time',
+      page_size: pageSize,
+      ...(pageToken ? { page_token: pageToken } : {}),
+    },
+    accessToken,
+  );
+  const res = await fetch(`${API_HOST}${path}?${query.toString()}`, {
+    headers: { 'x-tts-access-token': accessToken },
+  });
+  return res.json() as Promise<StatementTransactionsResponse>;
+}
+
+/** Todas as transações dos demonstrativos do intervalo, cada uma com o demonstrativo de origem. */
+export async function fetchStatementTransactions(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  statementTimeGe: number,
+  statementTimeLt: number,
+): Promise<Array<{ statement: TiktokShopStatement; transaction: TiktokShopStatementTransaction }>> {
+  const statements: TiktokShopStatement[] = [];
+  let pageToken = '';
+  do {
+    const res = await getStatements(appKey, appSecret, accessToken, shopCipher, statementTimeGe, statementTimeLt, pageToken);
+    if (res.code !== 0) {
+      throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
+    }
+    const page = res.data?.statements ?? [];
+    statements.push(...page);
+    pageToken = page.length > 0 ? res.data?.next_page_token ?? '' : '';
+  } while (pageToken);
+
+  const all: Array<{ statement: TiktokShopStatement; transaction: TiktokShopStatementTransaction }> = [];
+  for (const statement of statements) {
+    let txToken = '';
+    do {
+      const res = await getStatementTransactions(appKey, appSecret, accessToken, shopCipher, statement.id, txToken);
+      if (res.code !== 0) {
+        throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
+      }
+      const page = res.data?.statement_transactions ?? [];
+      for (const transaction of page) all.push({ statement, transaction });
+      txToken = page.length > 0 ? res.data?.next_page_token ?? '' : '';
+    } while (txToken);
+  }
+
+  return all;
+}
+
+// ── Devoluções, reembolsos e cancelamentos ──────────────────────────────────
+
+export interface TiktokShopRefundAmount {
+  currency: string;
+  refund_total?: string;
+  refund_subtotal?: string;
+  refund_shipping_fee?: string;
+}
+
+export interface TiktokShopReturn {
+  return_id: string;
+  order_id: string;
+  return_type: string; // REFUND | RETURN_AND_REFUND | REPLACEMENT
+  return_status: string; // RETURN_OR_REFUND_REQUEST_PENDING | AWAITING_BUYER_SHIP | ... | RETURN_OR_REFUND_REQUEST_COMPLETE
+  return_reason?: string; // código, ex.: ecom_order_delivered_refund_and_return_reason_wrong_size
+  return_reason_text?: string;
+  refund_amount?: TiktokShopRefundAmount;
+  create_time: number; // epoch seconds
+  update_time: number;
+}
+
+export interface TiktokShopCancellation {
+  cancel_id: string;
+  order_id: string;
+  cancel_type?: string; // CANCEL | BUYER_CANCEL
+  cancel_status: string; // CANCELLATION_REQUEST_PENDING | CANCELLATION_REQUEST_SUCCESS | CANCELLATION_REQUEST_CANCEL | CANCELLATION_REQUEST_COMPLETE
+  cancel_reason_text?: string;
+  refund_amount?: TiktokShopRefundAmount;
+  create_time: number;
+  update_time: number;
+}
+
+interface ReturnSearchResponse {
+  code: number;
+  message: string;
+  data?: { return_orders: TiktokShopReturn[]; next_page_token?: string };
+}
+
+interface CancellationSearchResponse {
+  code: number;
+  message: string;
+  data?: { cancellations: TiktokShopCancellation[]; next_page_token?: string };
+}
+
+async function postSearch<T>(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  path: string,
+  body: Record<string, unknown>,
+  pageToken: string,
+  pageSize: number,
+): Promise<T> {
+  const query = buildSignedQuery(
+    appKey,
+    appSecret,
+    path,
+    { shop_cipher: shopCipher, page_size: pageSize, ...(pageToken ? { page_token: pageToken } : {}) },
+    accessToken,
+    body,
+  );
+  const res = await fetch(`${API_HOST}${path}?${query.toString()}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-tts-access-token': accessToken,
+    },
+    body: JSON.stringify(body),
+  });
+  return res.json() as Promise<T>;
+}
+
+/** POST /return_refund/{version}/returns/search — pedidos de devolução/reembolso atualizados no intervalo. */
+export async function searchReturns(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  updateTimeGe: number,
+  updateTimeLt: number,
+  pageToken = '',
+  pageSize = 50,
+): Promise<ReturnSearchResponse> {
+  return postSearch<ReturnSearchResponse>(
+    appKey, appSecret, accessToken, shopCipher,
+    `/return_refund/${API_VERSION}/returns/search`,
+    { update_time_ge: updateTimeGe, update_time_lt: updateTimeLt },
+    pageToken, pageSize,
+  );
+}
+
+/** POST /return_refund/{version}/cancellations/search — cancelamentos atualizados no intervalo. */
+export async function searchCancellations(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  updateTimeGe: number,
+  updateTimeLt: number,
+  pageToken = '',
+  pageSize = 50,
+): Promise<CancellationSearchResponse> {
+  return postSearch<CancellationSearchResponse>(
+    appKey, appSecret, accessToken, shopCipher,
+    `/return_refund/${API_VERSION}/cancellations/search`,
+    { update_time_ge: updateTimeGe, update_time_lt: updateTimeLt },
+    pageToken, pageSize,
+  );
+}
+
+/** Todas as devoluções/reembolsos atualizados no intervalo, paginando automaticamente. */
+export async function fetchAllReturns(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  updateTimeGe: number,
+  updateTimeLt: number,
+): Promise<TiktokShopReturn[]> {
+  const all: TiktokShopReturn[] = [];
+  let pageToken = '';
+  do {
+    const res = await searchReturns(appKey, appSecret, accessToken, shopCipher, updateTimeGe, updateTimeLt, pageToken);
+    if (res.code !== 0) {
+      throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
+    }
+    const page = res.data?.return_orders ?? [];
+    all.push(...page);
+    pageToken = page.length > 0 ? res.data?.next_page_token ?? '' : '';
+  } while (pageToken);
+  return all;
+}
+
+/** Todos os cancelamentos atualizados no intervalo, paginando automaticamente. */
+export async function fetchAllCancellations(
+  appKey: string,
+  appSecret: string,
+  accessToken: string,
+  shopCipher: string,
+  updateTimeGe: number,
+  updateTimeLt: number,
+): Promise<TiktokShopCancellation[]> {
+  const all: TiktokShopCancellation[] = [];
+  let pageToken = '';
+  do {
+    const res = await searchCancellations(appKey, appSecret, accessToken, shopCipher, updateTimeGe, updateTimeLt, pageToken);
+    if (res.code !== 0) {
+      throw new Error(`TikTok Shop API error: ${res.code} - ${res.message}`);
+    }
+    const page = res.data?.cancellations ?? [];
+    all.push(...page);
+    pageToken = page.length > 0 ? res.data?.next_page_token ?? '' : '';
+  } while (pageToken);
+  return all;
+}
@@ -0,0 +1,175 @@
+/**
+ * Liquidação TikTok Shop pela Finance API (demonstrativos → transações).
+ * Cada transação vira uma "linha" com as mesmas colunas lógicas do income XLSX e passa por
+ * groupRowsByOrder/aggregateOrderLines — mesmas regras (dedupe vs soma, AMOUNT_EPS, um bucket por
+ * pagamento/demonstrativo), então API e planilha do mesmo mês dão os mesmos valores.
+ * `npm run check:tiktok-settlement` confere essa paridade (scripts/tiktok-settlement-parity.ts).
+ */
+import type { TiktokShopStatement, TiktokShopStatementTransaction } from './tiktokShopApi.js';
+import { aggregateOrderLines, groupRowsByOrder, type TikTokSettlementCol } from './tiktokSettlementCommon.js';
+import type { TikTokIncomeOrderRow } from './tiktokIncome.js';
+
+/**
+ * Campos da transação no lugar das colunas do XLSX. "Taxas de serviço" e "Comissões de afiliados"
+ * não existem na API: viram os totais `service_fee_total` / `affiliate_fee_total` montados abaixo.
+ */
+export const STATEMENT_COL: TikTokSettlementCol = {
+  txType: ['type'],
+  orderId: ['order_id'],
+  paymentId: ['payment_id'],
+  statementId: ['statement_id'],
+  skuId: ['sku_id'],
+  settlement: ['settlement_amount'],
+  platformCommission: ['platform_commission_amount'],
+  serviceFee: ['service_fee_total'],
+  sfpFee: ['sfp_service_fee_amount'],
+  perItemFee: ['fee_per_item_sold_amount'],
+  taxesTotal: ['fee_tax_amount'],
+  affiliate: ['affiliate_fee_total'],
+  creator: ['affiliate_commission_amount'],
+  agency: ['affiliate_partner_commission_amount'],
+  shopAdsCreator: ['affiliate_ads_commission_amount'],
+  shopAdsAgency: ['affiliate_partner_ads_commission_amount'],
+};
+
+const FEE_FIELDS = [
+  'platform_commission_amount',
+  'sfp_service_fee_amount',
+  'fee_per_item_sold_amount',
+  'affiliate_commission_amount',
+  'affiliate_partner_commission_amount',
+  'affiliate_ads_commission_amount',
+  'affiliate_partner_ads_commission_amount',
+] as const;
+
+/** Taxas que o XLSX soma em "Taxas de serviço" (SFP, por item vendido e as demais taxas de serviço). */
+export const SERVICE_FEE_FIELDS = [
+  'sfp_service_fee_amount',
+  'fee_per_item_sold_amount',
+  'transaction_fee_amount',
+  'voucher_xtra_service_fee_amount',
+  'flash_sales_service_fee_amount',
+  'live_specials_fee_amount',
+  'mall_service_fee_amount',
+  'bonus_cashback_service_fee_amount',
+  'cofunded_promotion_service_fee_amount',
+  'pre_order_service_fee_amount',
+] as const;
+
+/** Subcolunas de "Comissões de afiliados" no XLSX (a comissão das agências parceiras fica fora). */
+export const AFFILIATE_FEE_FIELDS = [
+  'affiliate_commission_amount',
+  'affiliate_ads_commission_amount',
+  'affiliate_partner_ads_commission_amount',
+] as const;
+
+/** Soma com sinal dos campos presentes; '' quando nenhum veio (a coluna fica vazia, como no XLSX). */
+function sumFeeFields(
+  tx: TiktokShopStatementTransaction,
+  breakdown: Record<string, string | undefined>,
+  fields: readonly (keyof TiktokShopStatementTransaction & `${string}_amount`)[],
+): number | '' {
+  let total = 0;
+  let found = false;
+  for (const f of fields) {
+    const raw = tx[f] ?? breakdown[f];
+    if (raw === undefined || String(raw).trim() === '') continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n)) continue;
+    total += n;
+    found = true;
+  }
+  return found ? Number(total.toFixed(2)) : '';
+}
+
+export type StatementEntry = { statement: TiktokShopStatement; transaction: TiktokShopStatementTransaction };
+
+/** Transação → linha no formato lido pelo agregador ("ORDER" vira "Pedido", como no XLSX). */
+export function statementTransactionRow(entry: StatementEntry): Record<string, unknown> {
+  const { statement, transaction: tx } = entry;
+  const breakdown = tx.fee_tax_breakdown?.fee ?? {};
+  const row: Record<string, unknown> = {
+    type: String(tx.type ?? '').toUpperCase() === 'ORDER' ? 'Pedido' : tx.type,
+    order_id: tx.order_id ?? '',
+    payment_id: statement.payment_id ?? '',
+    statement_id: statement.id,
+    sku_id: tx.sku_id ?? '',
+    settlement_amount: tx.settlement_amount ?? '',
+    fee_tax_amount: tx.fee_tax_amount ?? '',
+  };
+  for (const f of FEE_FIELDS) row[f] = tx[f] ?? breakdown[f] ?? '';
+  row.service_fee_total = sumFeeFields(tx, breakdown, SERVICE_FEE_FIELDS);
+  row.affiliate_fee_total = sumFeeFields(tx, breakdown, AFFILIATE_FEE_FIELDS);
+  return row;
+}
+
+export interface AggregateStatementResult {
+  orders: TikTokIncomeOrderRow[];
+  transactions: number;
+  orderRows: number;
+}
+
+export function aggregateStatementTransactions(entries: StatementEntry[]): AggregateStatementResult {
+  const rows = entries.map(statementTransactionRow);
+  const { byOrder, orderRows } = groupRowsByOrder(rows, STATEMENT_COL);
+  const orders: TikTokIncomeOrderRow[] = [];
+  for (const [orderId, lines] of byOrder.entries()) {
+    orders.push(aggregateOrderLines(orderId, lines, STATEMENT_COL));
+  }
+  return { orders, transactions: entries.length, orderRows };
+}
+
+/** Campos gravados por applyTiktokSettledOrders. */
+export const SETTLED_ORDER_FIELDS = [
+  'settlementAmount',
+  'commissionFee',
+  'serviceFee',
+  'partnerCommission',
+  'taxesAndFeesTotal',
+] as const;
+
+export interface SettledOrderDiff {
+  orderId: string;
+  fields: string[];
+  left: Record<string, number | null>;
+  right: Record<string, number | null>;
+}
+
+export interface SettledOrdersComparison {
+  equal: number;
+  different: SettledOrderDiff[];
+  onlyLeft: string[];
+  onlyRight: string[];
+}
+
+/** Compara duas entradas de applyTiktokSettledOrders (ex.: Finance API × income XLSX) pedido a pedido. */
+export function compareSettledOrders(
+  left: TikTokIncomeOrderRow[],
+  right: TikTokIncomeOrderRow[],
+): SettledOrdersComparison {
+  const rightMap = new Map(right.map((o) => [o.orderId, o]));
+  const leftIds = new Set(left.map((o) => o.orderId));
+  let equal = 0;
+  const different: SettledOrderDiff[] = [];
+  const onlyLeft: string[] = [];
+  for (const l of left) {
+    const r = rightMap.get(l.orderId);
+    if (!r) {
+      onlyLeft.push(l.orderId);
+      continue;
+    }
+    const fields = SETTLED_ORDER_FIELDS.filter((f) => Math.abs(l[f] - r[f]) > 0.005);
+    if (fields.length === 0) {
+      equal++;
+      continue;
+    }
+    different.push({
+      orderId: l.orderId,
+      fields: [...fields],
+      left: Object.fromEntries(fields.map((f) => [f, l[f]])),
+      right: Object.fromEntries(fields.map((f) => [f, r[f]])),
+    });
+  }
+  const onlyRight = right.filter((o) => !leftIds.has(o.orderId)).map((o) => o.orderId);
+  return { equal, different, onlyLeft, onlyRight };
+}
@@ -0,0 +1,386 @@
+import type { Express, Request } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import * as shopeeApi from './shopeeApi.js';
+import * as tiktokShopApi from './tiktokShopApi.js';
+
+/**
+ * Webhooks (push) da Shopee e da TikTok Shop.
+ * A rota confere a assinatura com a chave da integração salva, grava o evento cru (WebhookEvent)
+ * e responde na hora; um worker local reconsulta os pedidos afetados pela API (em lote, um pedido
+ * repetido em vários eventos vira uma consulta só) e grava com o mesmo upsert da sync.
+ * Falha na reconsulta volta para a fila com espera crescente, até MAX_ATTEMPTS.
+ */
+
+export type WebhookSource = 'shopee' | 'tiktok_shop';
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'ignored' | 'rejected';
+
+export const WEBHOOK_SOURCES: WebhookSource[] = ['shopee', 'tiktok_shop'];
+
+export function isWebhookSource(v: unknown): v is WebhookSource {
+  return typeof v === 'string' && (WEBHOOK_SOURCES as string[]).includes(v);
+}
+
+export type WebhookRequest = {
+  rawBody: string;
+  headers: Record<string, string>;
+  /** URL pública que a plataforma chamou (entra na assinatura da Shopee). */
+  url: string;
+};
+
+export type ParsedWebhook = {
+  eventType: string | null;
+  shopRef: string | null;
+  /** Pedido a reconsultar; null = evento só registrado. */
+  orderRef: string | null;
+};
+
+export type WebhookReceiver = {
+  verify(req: WebhookRequest): Promise<boolean>;
+  parse(payload: any): ParsedWebhook;
+  /** Motivo para ignorar o evento (ex.: outra loja), ou null. */
+  ignoreReason(parsed: ParsedWebhook): Promise<string | null>;
+  /** Reconsulta e grava os pedidos; devolve pedido → erro (null = ok). */
+  refresh(orderRefs: string[]): Promise<Map<string, string | null>>;
+};
+
+type RefreshOrders = (orderRefs: string[]) => Promise<Map<string, string | null>>;
+
+/** Cabeçalhos guardados com o evento (o resto não ajuda a depurar). */
+const KEPT_HEADERS = ['authorization', 'content-type', 'user-agent', 'x-forwarded-for'];
+
+// ─── Receptores ─────────────────────────────────────────────────────────────
+
+// Push Shopee: code 3 = mudança de status do pedido (data.ordersn); code 4 = rastreio
+const SHOPEE_ORDER_PUSH_CODES = new Set([3, 4]);
+
+export function createShopeeWebhookReceiver(deps: { prisma: PrismaClient; refresh: RefreshOrders }): WebhookReceiver {
+  const { prisma, refresh } = deps;
+  return {
+    async verify(req) {
+      const integration = await prisma.shopeeIntegration.findFirst({ orderBy: { id: 'desc' } });
+      if (!integration?.partnerKey) return false;
+      return shopeeApi.verifyPushSignature(integration.partnerKey, req.url, req.rawBody, req.headers.authorization ?? '');
+    },
+    parse(payload) {
+      const code = Number(payload?.code);
+      const orderSn = payload?.data?.ordersn ?? payload?.data?.order_sn;
+      return {
+        eventType: Number.isFinite(code) ? String(code) : null,
+        shopRef: payload?.shop_id != null ? String(payload.shop_id) : null,
+        orderRef: SHOPEE_ORDER_PUSH_CODES.has(code) && orderSn ? String(orderSn) : null,
+      };
+    },
+    async ignoreReason(parsed) {
+      if (!parsed.orderRef) return 'Evento sem pedido para reconsultar.';
+      const integration = await prisma.shopeeIntegration.findFirst({ orderBy: { id: 'desc' } });
+      if (parsed.shopRef && integration?.shopId && parsed.shopRef !== String(integration.shopId)) {
+        return `Loja ${parsed.shopRef} diferente da integrada (${integration.shopId}).`;
+      }
+      return null;
+    },
+    refresh,
+  };
+}
+
+export function createTiktokShopWebhookReceiver(deps: { prisma: PrismaClient; refresh: RefreshOrders }): WebhookReceiver {
+  const { prisma, refresh } = deps;
+  const prismaAny = prisma as any;
+  return {
+    async verify(req) {
+      const integration = await prismaAny.tiktokShopIntegration.findFirst({ orderBy: { id: 'desc' } });
+      if (!integration?.appKey || !integration?.appSecret) return false;
+      return tiktokShopApi.verifyWebhookSignature(
+        integration.appKey, integration.appSecret, req.rawBody, req.headers.authorization ?? '',
+      );
+    },
+    parse(payload) {
+      // type 1 = status do pedido, 2 = devolução/reembolso; os dois trazem data.order_id
+      const orderId = payload?.data?.order_id;
+      return {
+        eventType: payload?.type != null ? String(payload.type) : null,
+        shopRef: payload?.shop_id != null ? String(payload.shop_id) : null,
+        orderRef: orderId ? String(orderId) : null,
+      };
+    },
+    async ignoreReason(parsed) {
+      if (!parsed.orderRef) return 'Evento sem pedido para reconsultar.';
+      const integration = await prismaAny.tiktokShopIntegration.findFirst({ orderBy: { id: 'desc' } });
+      if (parsed.shopRef && integration?.shopId && parsed.shopRef !== String(integration.shopId)) {
+        return `Loja ${parsed.shopRef} diferente da integrada (${integration.shopId}).`;
+      }
+      return null;
+    },
+    refresh,
+  };
+}
+
+// ─── Fila ───────────────────────────────────────────────────────────────────
+
+const POLL_MS = 5000;
+const REFRESH_BATCH = 50;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+
+type Deps = {
+  prisma: PrismaClient;
+  receivers: Record<WebhookSource, WebhookReceiver>;
+};
+
+export function createWebhookQueue(deps: Deps) {
+  const { prisma, receivers } = deps;
+  const prismaAny = prisma as any;
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function processSource(source: WebhookSource): Promise<boolean> {
+    const events = await prismaAny.webhookEvent.findMany({
+      where: { source, status: 'pending', availableAt: { lte: new Date() } },
+      orderBy: { id: 'asc' },
+      take: 200,
+      select: { id: true, orderRef: true, attempts: true },
+    });
+    if (events.length === 0) return false;
+    const ids = events.map((e: { id: number }) => e.id);
+    await prismaAny.webhookEvent.updateMany({
+      where: { id: { in: ids }, status: 'pending' },
+      data: { status: 'processing', attempts: { increment: 1 } },
+    });
+
+    const orderRefs = [...new Set<string>(events.map((e: { orderRef: string | null }) => e.orderRef).filter(Boolean))];
+    const results = new Map<string, string | null>();
+    for (let i = 0; i < orderRefs.length; i += REFRESH_BATCH) {
+      const chunk = orderRefs.slice(i, i + REFRESH_BATCH);
+      try {
+        const res = await receivers[source].refresh(chunk);
+        for (const ref of chunk) results.set(ref, res.has(ref) ? res.get(ref)! : 'Pedido não retornado pela API.');
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        for (const ref of chunk) results.set(ref, message);
+      }
+    }
+
+    const now = new Date();
+    for (const ev of events) {
+      const error = ev.orderRef ? results.get(ev.orderRef) ?? null : 'Evento sem pedido.';
+      const attempts = ev.attempts + 1;
+      const data = !error
+        ? { status: 'processed', error: null, processedAt: now }
+        : attempts >= MAX_ATTEMPTS
+          ? { status: 'failed', error, processedAt: now }
+          : { status: 'pending', error, availableAt: new Date(now.getTime() + attempts * RETRY_BASE_MS) };
+      await prismaAny.webhookEvent.update({ where: { id: ev.id }, data });
+    }
+    return true;
+  }
+
+  async function tick() {
+    timer = null;
+    if (running) return;
+    running = true;
+    try {
+      for (const source of WEBHOOK_SOURCES) {
+        while (await processSource(source));
+      }
+    } catch (e) {
+      console.error('[webhooks] Erro no worker:', e);
+    } finally {
+      running = false;
+      schedule(POLL_MS);
+    }
+  }
+
+  function schedule(ms: number) {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void tick(), ms);
+  }
+
+  function wake() {
+    if (!running) schedule(0);
+  }
+
+  /** Reconsulta é idempotente: eventos pegos no meio de um reinício voltam para a fila. */
+  async function start() {
+    const stale = await prismaAny.webhookEvent.updateMany({ where: { status: 'processing' }, data: { status: 'pending' } });
+    if (stale.count > 0) console.warn(`[webhooks] ${stale.count} evento(s) interrompido(s) voltaram para a fila.`);
+    schedule(0);
+  }
+
+  return { start, wake, receivers };
+}
+
+export type WebhookQueue = ReturnType<typeof createWebhookQueue>;
+
+// ─── Rotas ──────────────────────────────────────────────────────────────────
+
+function requestUrl(req: Request, configured: string | undefined): string {
+  if (configured) return configured;
+  const proto = String(req.headers['x-forwarded-proto'] ?? req.protocol).split(',')[0].trim();
+  return `${proto}://${req.get('host')}${req.originalUrl}`;
+}
+
+function keptHeaders(req: Request): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const h of KEPT_HEADERS) {
+    const v = req.headers[h];
+    if (v != null) out[h] = Array.isArray(v) ? v.join(', ') : String(v);
+  }
+  return out;
+}
+
+function eventView(ev: any) {
+  const { rawBody: _rawBody, headers: _headers, ...rest } = ev;
+  return rest;
+}
+
+export function registerWebhookRoutes(app: Express, deps: { prisma: PrismaClient; queue: WebhookQueue }) {
+  const { prisma, queue } = deps;
+  const prismaAny = prisma as any;
+
+  /**
+   * Grava o evento e responde rápido (as plataformas reenviam se demorar).
+   * Assinatura inválida: 401 e evento "rejected" (fica no log para depurar a chave/URL).
+   */
+  async function receive(source: WebhookSource, req: Request, url: string) {
+    const receiver = queue.receivers[source];
+    const rawBody: string = (req as any).rawBody ? (req as any).rawBody.toString('utf8') : '';
+    const headers = keptHeaders(req);
+    const signatureValid = await receiver.verify({ rawBody, headers, url });
+
+    let parsed: ParsedWebhook = { eventType: null, shopRef: null, orderRef: null };
+    let ignore: string | null = null;
+    try {
+      parsed = receiver.parse(JSON.parse(rawBody || '{}'));
+      if (signatureValid) ignore = await receiver.ignoreReason(parsed);
+    } catch {
+      ignore = 'Corpo não é JSON válido.';
+    }
+
+    const status: WebhookEventStatus = !signatureValid ? 'rejected' : ignore ? 'ignored' : 'pending';
+    const event = await prismaAny.webhookEvent.create({
+      data: {
+        source,
+        ...parsed,
+        status,
+        signatureValid,
+        url,
+        headers,
+        rawBody,
+        error: !signatureValid ? 'Assinatura inválida.' : ignore,
+      },
+    });
+    if (status === 'pending') queue.wake();
+    return event;
+  }
+
+  // POST /api/webhooks/shopee — Push Mechanism do Open Platform
+  // SHOPEE_WEBHOOK_URL: URL exata cadastrada na Shopee (atrás de proxy, a URL da requisição pode ser outra)
+  app.post('/api/webhooks/shopee', async (req, res) => {
+    try {
+      const event = await receive('shopee', req, requestUrl(req, process.env.SHOPEE_WEBHOOK_URL));
+      if (!event.signatureValid) return res.status(401).json({ message: 'Assinatura inválida.' });
+      return res.status(200).json({});
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao receber webhook Shopee.' });
+    }
+  });
+
+  // POST /api/webhooks/tiktok-shop — webhooks do Partner Center
+  app.post('/api/webhooks/tiktok-shop', async (req, res) => {
+    try {
+      const event = await receive('tiktok_shop', req, requestUrl(req, process.env.TIKTOK_SHOP_WEBHOOK_URL));
+      if (!event.signatureValid) return res.status(401).json({ code: 401, message: 'Assinatura inválida.' });
+      return res.status(200).json({ code: 0, message: 'success' });
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao receber webhook TikTok Shop.' });
+    }
+  });
+
+  // GET /api/webhooks/events?source=shopee&status=failed&orderRef=...&limit=100
+  app.get('/api/webhooks/events', async (req, res) => {
+    try {
+      const source = String(req.query.source ?? '').trim();
+      if (source && !isWebhookSource(source)) return res.status(400).json({ message: 'Origem inválida.' });
+      const status = String(req.query.status ?? '').trim();
+      const orderRef = String(req.query.orderRef ?? '').trim();
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '100'), 10) || 100, 1), 500);
+      const events = await prismaAny.webhookEvent.findMany({
+        where: {
+          ...(source ? { source } : {}),
+          ...(status ? { status } : {}),
+          ...(orderRef ? { orderRef } : {}),
+        },
+        orderBy: { receivedAt: 'desc' },
+        take: limit,
+      });
+      return res.status(200).json(events.map(eventView));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao listar eventos de webhook.' });
+    }
+  });
+
+  // GET /api/webhooks/events/:id — com corpo cru e cabeçalhos
+  app.get('/api/webhooks/events/:id', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const event = await prismaAny.webhookEvent.findUnique({ where: { id } });
+      if (!event) return res.status(404).json({ message: 'Evento não encontrado.' });
+      return res.status(200).json(event);
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao buscar evento de webhook.' });
+    }
+  });
+
+  // POST /api/webhooks/events/:id/replay — reprocessa o evento gravado
+  // Rejeitado: confere a assinatura de novo (ex.: depois de corrigir a chave ou SHOPEE_WEBHOOK_URL)
+  app.post('/api/webhooks/events/:id/replay', async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'ID inválido.' });
+      const event = await prismaAny.webhookEvent.findUnique({ where: { id } });
+      if (!event) return res.status(404).json({ message: 'Evento não encontrado.' });
+      if (event.status === 'pending' || event.status === 'processing') {
+        return res.status(409).json({ message: 'Evento já está na fila.' });
+      }
+      const receiver = queue.receivers[event.source as WebhookSource];
+      if (!receiver) return res.status(400).json({ message: 'Origem inválida.' });
+
+      const signatureValid = event.signatureValid || (await receiver.verify({
+        rawBody: event.rawBody,
+        headers: (event.headers ?? {}) as Record<string, string>,
+        url: event.url ?? '',
+      }));
+      if (!signatureValid) return res.status(400).json({ message: 'Assinatura continua inválida; confira a chave da integração e a URL de callback.' });
+
+      let parsed: ParsedWebhook;
+      try {
+        parsed = receiver.parse(JSON.parse(event.rawBody || '{}'));
+      } catch {
+        return res.status(400).json({ message: 'Corpo do evento não é JSON válido.' });
+      }
+      if (!parsed.orderRef) return res.status(400).json({ message: 'Evento sem pedido para reconsultar.' });
+
+      const updated = await prismaAny.webhookEvent.update({
+        where: { id },
+        data: {
+          ...parsed,
+          signatureValid,
+          status: 'pending',
+          error: null,
+          attempts: 0,
+          availableAt: new Date(),
+          processedAt: null,
+        },
+      });
+      queue.wake();
+      return res.status(202).json(eventView(updated));
+    } catch (e) {
+      console.error(e);
+      return res.status(500).json({ message: 'Erro ao reprocessar evento de webhook.' });
+    }
+  });
+}
@@ -93,6 +93,37 @@ get_azs() {
     --output text | tr '\t' '\n' | head -2
 }
 
+# Secret ${PROJECT}/customer-key-salt (criado uma vez; mudar o valor quebra as chaves de comprador já gravadas).
+# Imprime o ARN. Um valor antigo em .deploy-state.json (deploys anteriores) é migrado para o secret e removido.
+ensure_customer_key_salt_secret() {
+  local arn legacy
+  arn=$(aws secretsmanager describe-secret \
+    --secret-id "${PROJECT}/customer-key-salt" \
+    --query ARN --output text \
+    --region "$AWS_REGION" 2>/dev/null || true)
+  if [ -z "$arn" ] || [ "$arn" = "None" ]; then
+    legacy=$(jq_get customer_key_salt)
+    arn=$(aws secretsmanager create-secret \
+      --name "${PROJECT}/customer-key-salt" \
+      --secret-string "${legacy:-$(openssl rand -hex 32)}" \
+      --query ARN --output text \
+      --region "$AWS_REGION")
+    ok "Customer key salt stored in Secrets Manager (${PROJECT}/customer-key-salt)" >&2
+  fi
+  load_state | jq 'del(.customer_key_salt)' > "${STATE_FILE}.tmp" && mv "${STATE_FILE}.tmp" "$STATE_FILE"
+  echo "$arn"
+}
+
+# O task execution role precisa ler o secret para injetá-lo no container.
+allow_secret_read() {
+  aws iam put-role-policy --role-name ecsTaskExecutionRole \
+    --policy-name "${PROJECT}-customer-key-salt" \
+    --policy-document "{
+      \"Version\":\"2012-10-17\",
+      \"Statement\":[{\"Effect\":\"Allow\",\"Action\":\"secretsmanager:GetSecretValue\",\"Resource\":\"$1\"}]
+    }"
+}
+
 # ─── Step 1: VPC & Networking ──────────────────────────────────────────────
 
 create_networking() {
@@ -315,7 +346,7 @@ create_ecr_and_push() {
 create_ecs() {
   log "Step 4: Creating ECS Fargate service with ALB..."
 
-  local vpc_id pub1 pub2 alb_sg ecs_sg ecr_uri database_url
+  local vpc_id pub1 pub2 alb_sg ecs_sg ecr_uri database_url customer_key_salt_arn
   vpc_id=$(jq_get vpc_id)
   pub1=$(jq_get pub_subnet_1)
   pub2=$(jq_get pub_subnet_2)
@@ -324,6 +355,10 @@ create_ecs() {
   ecr_uri=$(jq_get ecr_uri)
   database_url=$(jq_get database_url)
 
+  # Chave do HMAC dos compradores: fica só no Secrets Manager (o container recebe via "secrets")
+  customer_key_salt_arn=$(ensure_customer_key_salt_secret)
+  jq_set customer_key_salt_arn "$customer_key_salt_arn"
+
   aws ecs create-cluster --cluster-name "$ECS_CLUSTER" --region "$AWS_REGION" > /dev/null 2>&1 || true
   ok "ECS cluster: $ECS_CLUSTER"
 
@@ -341,6 +376,7 @@ create_ecs() {
       --policy-arn arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy
     execution_role_arn=$(aws iam get-role --role-name ecsTaskExecutionRole --query 'Role.Arn' --output text)
   fi
+  allow_secret_read "$customer_key_salt_arn"
 
   local log_group="/ecs/${PROJECT}"
   aws logs create-log-group --log-group-name "$log_group" --region "$AWS_REGION" 2>/dev/null || true
@@ -364,6 +400,9 @@ create_ecs() {
         {"name": "PORT", "value": "${CONTAINER_PORT}"},
         {"name": "FRONTEND_URL", "value": "*"}
       ],
+      "secrets": [
+        {"name": "CUSTOMER_KEY_SALT", "valueFrom": "${customer_key_salt_arn}"}
+      ],
       "logConfiguration": {
         "logDriver": "awslogs",
         "options": {
@@ -2,9 +2,37 @@ import React, { useEffect, useMemo, useState } from "react";
 
 import { API_URL } from './config';
 
-type ChannelRow = { channel: string; revenue: number; spend: number; roas: number | null };
-type MonthRow = { month: string; revenue: number; spend: number; roas: number | null; byChannel: ChannelRow[] };
-type AdsDashboardData = { kpis: { revenue: number; spend: number; roas: number | null }; channels: string[]; byMonth: MonthRow[] };
+type ChannelRow = { channel: string; revenue: number; spend: number; roas: number | null; acos?: number | null };
+type MonthRow = { month: string; revenue: number; spend: number; roas: number | null; acos: number | null; byChannel: ChannelRow[] };
+type DayRow = {
+  date: string;
+  revenue: number;
+  spend: number;
+  attributedRevenue: number;
+  roas: number | null;
+  acos: number | null;
+  byChannel: ChannelRow[];
+};
+type CampaignRow = {
+  channel: string;
+  campaignId: string;
+  campaignName: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  attributedRevenue: number;
+  ctr: number | null;
+  roas: number | null;
+  acos: number | null;
+};
+type AdsDashboardData = {
+  kpis: { revenue: number; spend: number; roas: number | null; acos: number | null };
+  channels: string[];
+  byMonth: MonthRow[];
+  byDay?: DayRow[];
+  campaigns: CampaignRow[];
+};
 
 function cn(...classes: Array<string | false | undefined | null>) {
   return classes.filter(Boolean).join(" ");
@@ -19,6 +47,14 @@ function fmtMoney(v: number) {
   return Number(v || 0).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
 }
 
+function fmtRatio(v: number | null | undefined) {
+  return v === null || v === undefined ? "-" : v.toFixed(2);
+}
+
+function fmtPct(v: number | null | undefined) {
+  return v === null || v === undefined ? "-" : `${(v * 100).toFixed(1)}%`;
+}
+
 export default function AdsDashboard(): JSX.Element {
   const [data, setData] = useState<AdsDashboardData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -38,7 +74,13 @@ export default function AdsDashboard(): JSX.Element {
     }
 
     return Array.from(map.entries())
-      .map(([channel, v]) => ({ channel, revenue: v.revenue, spend: v.spend, roas: v.spend > 0 ? v.revenue / v.spend : null }))
+      .map(([channel, v]) => ({
+        channel,
+        revenue: v.revenue,
+        spend: v.spend,
+        roas: v.spend > 0 ? v.revenue / v.spend : null,
+        acos: v.revenue > 0 ? v.spend / v.revenue : null,
+      }))
       .sort((a, b) => (b.revenue || 0) - (a.revenue || 0));
   }, [data]);
 
@@ -49,6 +91,8 @@ export default function AdsDashboard(): JSX.Element {
       const qs = new URLSearchParams();
       if (from) qs.set("from", from);
       if (to) qs.set("to", to);
+      // Dia a dia só com período fechado (De e Até)
+      if (from && to) qs.set("daily", "1");
       const url = `${API_URL}/api/ads-dashboard${qs.toString() ? `?${qs.toString()}` : ""}`;
       const res = await fetch(url);
       const json = await res.json();
@@ -80,7 +124,9 @@ export default function AdsDashboard(): JSX.Element {
           <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
             <div>
               <h2 className="text-lg font-black tracking-tight text-slate-900">Dashboard ADS (ROAS)</h2>
-              <p className="mt-1 text-sm text-slate-500">ROAS total e por canal, mês a mês.</p>
+              <p className="mt-1 text-sm text-slate-500">
+                ROAS e ACOS total e por canal, mês a mês. Informe De e Até para ver também dia a dia.
+              </p>
             </div>
             <div className="flex flex-wrap items-end gap-3">
               <div>
@@ -110,7 +156,7 @@ export default function AdsDashboard(): JSX.Element {
             </div>
           </div>
 
-          <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className={cn(UI.card, "p-5")}>
               <div className="text-xs font-bold tracking-widest uppercase text-slate-500">Receita</div>
               <div className="mt-2 text-2xl font-black text-slate-900">{fmtMoney(data.kpis.revenue)}</div>
@@ -121,7 +167,11 @@ export default function AdsDashboard(): JSX.Element {
             </div>
             <div className={cn(UI.card, "p-5")}>
               <div className="text-xs font-bold tracking-widest uppercase text-slate-500">ROAS</div>
-              <div className="mt-2 text-2xl font-black text-slate-900">{data.kpis.roas === null ? "-" : data.kpis.roas.toFixed(2)}</div>
+              <div className="mt-2 text-2xl font-black text-slate-900">{fmtRatio(data.kpis.roas)}</div>
+            </div>
+            <div className={cn(UI.card, "p-5")}>
+              <div className="text-xs font-bold tracking-widest uppercase text-slate-500">ACOS</div>
+              <div className="mt-2 text-2xl font-black text-slate-900">{fmtPct(data.kpis.acos)}</div>
             </div>
           </div>
         </div>
@@ -139,6 +189,7 @@ export default function AdsDashboard(): JSX.Element {
                     <th className="px-4 py-3">Receita</th>
                     <th className="px-4 py-3">ADS</th>
                     <th className="px-4 py-3">ROAS</th>
+                    <th className="px-4 py-3">ACOS</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
@@ -147,12 +198,13 @@ export default function AdsDashboard(): JSX.Element {
                       <td className="px-4 py-3 font-extrabold text-slate-900">{m.month}</td>
                       <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(m.revenue)}</td>
                       <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(m.spend)}</td>
-                      <td className="px-4 py-3 text-slate-900 font-extrabold">{m.roas === null ? "-" : m.roas.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-slate-900 font-extrabold">{fmtRatio(m.roas)}</td>
+                      <td className="px-4 py-3 text-slate-900 font-bold">{fmtPct(m.acos)}</td>
                     </tr>
                   ))}
                   {data.byMonth.length === 0 && (
                     <tr>
-                      <td className="px-4 py-6 text-sm text-slate-500" colSpan={4}>
+                      <td className="px-4 py-6 text-sm text-slate-500" colSpan={5}>
                         Sem dados no período.
                       </td>
                     </tr>
@@ -176,6 +228,7 @@ export default function AdsDashboard(): JSX.Element {
                     <th className="px-4 py-3">Receita</th>
                     <th className="px-4 py-3">ADS</th>
                     <th className="px-4 py-3">ROAS</th>
+                    <th className="px-4 py-3">ACOS</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
@@ -184,12 +237,13 @@ export default function AdsDashboard(): JSX.Element {
                       <td className="px-4 py-3 font-extrabold text-slate-900">{c.channel}</td>
                       <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(c.revenue)}</td>
                       <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(c.spend)}</td>
-                      <td className="px-4 py-3 text-slate-900 font-extrabold">{c.roas === null ? "-" : c.roas.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-slate-900 font-extrabold">{fmtRatio(c.roas)}</td>
+                      <td className="px-4 py-3 text-slate-900 font-bold">{fmtPct(c.acos)}</td>
                     </tr>
                   ))}
                   {totalsByChannel.length === 0 && (
                     <tr>
-                      <td className="px-4 py-6 text-sm text-slate-500" colSpan={4}>
+                      <td className="px-4 py-6 text-sm text-slate-500" colSpan={5}>
                         Sem dados por canal.
                       </td>
                     </tr>
@@ -199,6 +253,98 @@ export default function AdsDashboard(): JSX.Element {
             </div>
           </div>
         </div>
+
+        {data.byDay && (
+          <div className={cn(UI.card, "overflow-hidden")}>
+            <div className="px-6 pt-6">
+              <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Dia a dia</h3>
+              <p className="mt-1 text-xs text-slate-500">
+                Gasto detalhado por dia (TikTok Ads e carteira Shopee). Canais lançados só por mês não entram aqui.
+              </p>
+            </div>
+            <div className="p-6">
+              <div className="max-h-[520px] overflow-auto rounded-2xl border border-slate-200 bg-white">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+                    <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                      <th className="px-4 py-3">Dia</th>
+                      <th className="px-4 py-3">Receita</th>
+                      <th className="px-4 py-3">ADS</th>
+                      <th className="px-4 py-3">ROAS</th>
+                      <th className="px-4 py-3">ACOS</th>
+                      <th className="px-4 py-3">Receita atribuída</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {data.byDay.map((d) => (
+                      <tr key={d.date} className="hover:bg-slate-50">
+                        <td className="px-4 py-3 font-extrabold text-slate-900">
+                          {new Date(`${d.date}T12:00:00`).toLocaleDateString("pt-BR")}
+                        </td>
+                        <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(d.revenue)}</td>
+                        <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(d.spend)}</td>
+                        <td className="px-4 py-3 text-slate-900 font-extrabold">{fmtRatio(d.roas)}</td>
+                        <td className="px-4 py-3 text-slate-900 font-bold">{fmtPct(d.acos)}</td>
+                        <td className="px-4 py-3 text-slate-600">{d.attributedRevenue > 0 ? fmtMoney(d.attributedRevenue) : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className={cn(UI.card, "overflow-hidden")}>
+          <div className="px-6 pt-6">
+            <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Campanhas</h3>
+            <p className="mt-1 text-xs text-slate-500">ROAS e ACOS pela receita atribuída pela plataforma de anúncios.</p>
+          </div>
+          <div className="p-6">
+            <div className="overflow-auto rounded-2xl border border-slate-200 bg-white">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+                  <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                    <th className="px-4 py-3">Canal</th>
+                    <th className="px-4 py-3">Campanha</th>
+                    <th className="px-4 py-3">ADS</th>
+                    <th className="px-4 py-3">Impressões</th>
+                    <th className="px-4 py-3">Cliques</th>
+                    <th className="px-4 py-3">Conversões</th>
+                    <th className="px-4 py-3">Receita atribuída</th>
+                    <th className="px-4 py-3">ROAS</th>
+                    <th className="px-4 py-3">ACOS</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.campaigns.map((c) => (
+                    <tr key={`${c.channel}|${c.campaignId}`} className="hover:bg-slate-50">
+                      <td className="px-4 py-3 font-extrabold text-slate-900">{c.channel}</td>
+                      <td className="px-4 py-3 text-slate-900">{c.campaignName || c.campaignId || "Conta (sem campanha)"}</td>
+                      <td className="px-4 py-3 text-slate-900 font-bold">{fmtMoney(c.spend)}</td>
+                      <td className="px-4 py-3 text-slate-600">{c.impressions.toLocaleString("pt-BR")}</td>
+                      <td className="px-4 py-3 text-slate-600">
+                        {c.clicks.toLocaleString("pt-BR")}
+                        {c.ctr !== null && <span className="ml-1 text-xs text-slate-400">({fmtPct(c.ctr)})</span>}
+                      </td>
+                      <td className="px-4 py-3 text-slate-600">{c.conversions.toLocaleString("pt-BR")}</td>
+                      <td className="px-4 py-3 text-slate-600">{fmtMoney(c.attributedRevenue)}</td>
+                      <td className="px-4 py-3 text-slate-900 font-extrabold">{fmtRatio(c.roas)}</td>
+                      <td className="px-4 py-3 text-slate-900 font-bold">{fmtPct(c.acos)}</td>
+                    </tr>
+                  ))}
+                  {data.campaigns.length === 0 && (
+                    <tr>
+                      <td className="px-4 py-6 text-sm text-slate-500" colSpan={9}>
+                        Sem gasto detalhado por campanha no período.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
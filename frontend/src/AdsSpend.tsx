@@ -1,6 +1,8 @@
 ﻿import React, { useEffect, useMemo, useState } from "react";
 
 import { API_URL } from './config';
+import ImportJobProgress from './ImportJobProgress';
+import { runImportJob, type ImportJobState } from './importJobs';
 
 type AdSpendRow = {
   id: number;
@@ -10,6 +12,13 @@ type AdSpendRow = {
   notes: string;
 };
 
+type AdSpendAllocationConfig = {
+  adChannels: string[];
+  salesChannels: string[];
+  /** adChannel → salesChannel → % */
+  allocations: Record<string, Record<string, number>>;
+};
+
 type AdsImportMonthRow = {
   month: string;
   imported: number;
@@ -21,6 +30,22 @@ function cn(...classes: Array<string | false | undefined | null>) {
   return classes.filter(Boolean).join(" ");
 }
 
+const CHANNEL_LABELS: Record<string, string> = {
+  meta: "Meta Ads",
+  google: "Google Ads",
+  shopee: "Shopee",
+  tiktok: "TikTok",
+  mercadolivre: "Mercado Livre",
+  atacado: "Atacado",
+  tray_varejo: "Tray Varejo",
+};
+
+const IMPORT_HINTS: Record<string, string> = {
+  shopee: "Shopee: agrupa por mês linhas com “Pagamento no Saldo da Carteira - Recarga por compra de ADS”.",
+  meta: "Meta Ads: relatório do Gerenciador de Anúncios exportado em CSV com a quebra por Dia (campanha, valor usado).",
+  google: "Google Ads: relatório de campanhas baixado em CSV com a coluna Dia (campanha, custo).",
+};
+
 const UI = {
   bg: "bg-slate-50",
   card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
@@ -59,8 +84,14 @@ export default function AdsSpend() {
   const [importMode, setImportMode] = useState<"replace" | "add">("replace");
   const [importLoading, setImportLoading] = useState(false);
   const [importMessage, setImportMessage] = useState("");
+  const [importJob, setImportJob] = useState<ImportJobState | null>(null);
   const [preview, setPreview] = useState<null | { months: AdsImportMonthRow[]; total: number; totalResult: number }>(null);
 
+  const [allocation, setAllocation] = useState<AdSpendAllocationConfig | null>(null);
+  const [allocationDraft, setAllocationDraft] = useState<Record<string, Record<string, string>>>({});
+  const [allocationSaving, setAllocationSaving] = useState<string | null>(null);
+  const [allocationMessage, setAllocationMessage] = useState("");
+
   const total = useMemo(() => rows.reduce((a, r) => a + (r.amount || 0), 0), [rows]);
 
   async function fetchRows() {
@@ -77,10 +108,61 @@ export default function AdsSpend() {
     }
   }
 
+  async function fetchAllocation() {
+    try {
+      const res = await fetch(`${API_URL}/api/adspend/allocation`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Falha ao carregar rateio.");
+      setAllocation(data);
+      const draft: Record<string, Record<string, string>> = {};
+      for (const ad of data.adChannels as string[]) {
+        draft[ad] = {};
+        for (const sc of data.salesChannels as string[]) {
+          const v = data.allocations?.[ad]?.[sc];
+          draft[ad][sc] = v ? String(v).replace(".", ",") : "";
+        }
+      }
+      setAllocationDraft(draft);
+    } catch (e) {
+      console.error(e);
+      setAllocation(null);
+    }
+  }
+
   useEffect(() => {
     fetchRows();
+    fetchAllocation();
   }, []);
 
+  function allocationTotal(ad: string) {
+    return Object.values(allocationDraft[ad] ?? {}).reduce((a, v) => a + (Number(String(v).replace(",", ".")) || 0), 0);
+  }
+
+  async function saveAllocation(ad: string) {
+    setAllocationMessage("");
+    setAllocationSaving(ad);
+    try {
+      const allocations: Record<string, number> = {};
+      for (const [sc, v] of Object.entries(allocationDraft[ad] ?? {})) {
+        const n = Number(String(v).replace(",", "."));
+        if (n > 0) allocations[sc] = n;
+      }
+      const res = await fetch(`${API_URL}/api/adspend/allocation/${encodeURIComponent(ad)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ allocations }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.message || "Falha ao salvar rateio.");
+      setAllocationMessage(`Rateio ${CHANNEL_LABELS[ad] ?? ad} salvo.`);
+      fetchAllocation();
+    } catch (err: any) {
+      setAllocationMessage(`Erro: ${err.message}`);
+    } finally {
+      setAllocationSaving(null);
+    }
+  }
+
   async function upsert(e: React.FormEvent) {
     e.preventDefault();
     setMessage("Salvando...");
@@ -171,8 +253,8 @@ export default function AdsSpend() {
       fd.append("dryRun", dryRun ? "1" : "0");
       fd.append("file", importFile);
 
-      const res = await fetch(`${API_URL}/api/adspend/import`, { method: "POST", body: fd });
-      const json = await res.json();
+      const res = await runImportJob(`${API_URL}/api/adspend/import`, fd, setImportJob);
+      const json = res.data;
       if (!res.ok) throw new Error(json?.message || "Falha ao importar.");
       return json;
     } catch (err: any) {
@@ -276,19 +358,22 @@ export default function AdsSpend() {
             <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
               <div className="min-w-0">
                 <div className="text-sm font-extrabold text-slate-900">Importar por planilha</div>
-                <div className="mt-1 text-xs text-slate-500">
-                  Shopee: agrupa por mês linhas com “Pagamento no Saldo da Carteira - Recarga por compra de ADS”.
-                </div>
+                <div className="mt-1 text-xs text-slate-500">{IMPORT_HINTS[importChannel]}</div>
               </div>
               <div className="flex flex-wrap items-end gap-3">
                 <div>
                   <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Canal</label>
                   <select
                     value={importChannel}
-                    onChange={(e) => setImportChannel(e.target.value)}
+                    onChange={(e) => {
+                      setImportChannel(e.target.value);
+                      setPreview(null);
+                    }}
                     className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
                   >
                     <option value="shopee">Shopee</option>
+                    <option value="meta">Meta Ads</option>
+                    <option value="google">Google Ads</option>
                   </select>
                 </div>
                 <div>
@@ -298,7 +383,7 @@ export default function AdsSpend() {
                     onChange={(e) => setImportMode(e.target.value as any)}
                     className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
                   >
-                    <option value="replace">Sobrescrever mês</option>
+                    <option value="replace">{importChannel === "shopee" ? "Sobrescrever mês" : "Sobrescrever dias do arquivo"}</option>
                     <option value="add">Somar ao existente</option>
                   </select>
                 </div>
@@ -391,6 +476,7 @@ export default function AdsSpend() {
                 </button>
               </div>
             )}
+            <ImportJobProgress className="mt-3" job={importJob} />
             {importMessage && <div className="mt-3 text-sm font-semibold text-slate-700">{importMessage}</div>}
           </form>
 
@@ -409,7 +495,7 @@ export default function AdsSpend() {
               <input
                 value={channel}
                 onChange={(e) => setChannel(e.target.value)}
-                placeholder="meta | google | shopee | tiktok | atacado | tray_varejo"
+                placeholder="meta | google | shopee | tiktok | mercadolivre | atacado | tray_varejo"
                 className="mt-2 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
               />
             </div>
@@ -444,6 +530,69 @@ export default function AdsSpend() {
           {message && <div className="mt-4 text-sm font-semibold text-slate-700">{message}</div>}
         </div>
 
+        {allocation && (
+          <div className={cn(UI.card, "p-6")}>
+            <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Rateio de Meta / Google por canal de venda</h3>
+            <p className="mt-1 text-xs text-slate-500">
+              Percentual do gasto de cada canal externo atribuído aos canais de venda na simulação e na margem de
+              contribuição. O total geral sempre conta o gasto inteiro; o que não for rateado fica só nele.
+            </p>
+            <div className="mt-4 overflow-auto rounded-2xl border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-100 border-b border-slate-200">
+                  <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                    <th className="px-4 py-3">Canal de ADS</th>
+                    {allocation.salesChannels.map((sc) => (
+                      <th key={sc} className="px-4 py-3">
+                        {CHANNEL_LABELS[sc] ?? sc} (%)
+                      </th>
+                    ))}
+                    <th className="px-4 py-3">Total</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {allocation.adChannels.map((ad) => {
+                    const sum = allocationTotal(ad);
+                    return (
+                      <tr key={ad}>
+                        <td className="px-4 py-3 font-extrabold text-slate-900">{CHANNEL_LABELS[ad] ?? ad}</td>
+                        {allocation.salesChannels.map((sc) => (
+                          <td key={sc} className="px-4 py-3">
+                            <input
+                              value={allocationDraft[ad]?.[sc] ?? ""}
+                              onChange={(e) =>
+                                setAllocationDraft((prev) => ({ ...prev, [ad]: { ...(prev[ad] ?? {}), [sc]: e.target.value } }))
+                              }
+                              placeholder="0"
+                              inputMode="decimal"
+                              className="w-20 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+                            />
+                          </td>
+                        ))}
+                        <td className={cn("px-4 py-3 font-extrabold", sum > 100 ? "text-red-600" : "text-slate-900")}>
+                          {sum.toLocaleString("pt-BR", { maximumFractionDigits: 2 })}%
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            type="button"
+                            onClick={() => saveAllocation(ad)}
+                            disabled={allocationSaving !== null || sum > 100}
+                            className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-extrabold text-white shadow-sm hover:bg-slate-800 disabled:opacity-50"
+                          >
+                            {allocationSaving === ad ? "Salvando…" : "Salvar"}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {allocationMessage && <div className="mt-3 text-sm font-semibold text-slate-700">{allocationMessage}</div>}
+          </div>
+        )}
+
         <div className={cn(UI.card, "overflow-hidden")}>
           <div className="px-6 pt-6 flex items-center justify-between">
             <div>
@@ -3,6 +3,7 @@ import React, { useState, FormEvent, useEffect } from 'react';
 import './App.css';
 import Dashboard from './Dashboard';
 import AdsSpend from './AdsSpend';
+import ShopeeReconciliation from './ShopeeReconciliation';
 import AdsDashboard from './AdsDashboard';
 import ContributionDashboard from './ContributionDashboard';
 import Products from './Products';
@@ -11,6 +12,7 @@ import SimulationGrossRevenue, { type GrossRevenueNavParams } from './Simulation
 import PaymentTypeFees from './PaymentTypeFees';
 import StockOverview from './StockOverview';
 import StockLaunch from './StockLaunch';
+import StockPush from './StockPush';
 import MasterProducts from './MasterProducts';
 import BillsToPay from './BillsToPay';
 import Receivables from './Receivables';
@@ -20,13 +22,21 @@ import Pricing from './Pricing';
 import ShopeeIntegration from './ShopeeIntegration';
 import ShopeeDuplicates from './ShopeeDuplicates';
 import ProductCurve from './ProductCurve';
+import CustomersRfm from './CustomersRfm';
+import ReturnsAnalytics from './ReturnsAnalytics';
 import Returns from './Returns';
 import Orders from './Orders';
+import OrderTrash from './OrderTrash';
 import AtacadoManualSale from './AtacadoManualSale';
+import ImportBatches from './ImportBatches';
+import ImportMappings from './ImportMappings';
+import ImportPreviewPanel, { type ImportPreviewData } from './ImportPreviewPanel';
+import RejectedRowsDownload, { type RejectedRowData } from './RejectedRowsDownload';
+import ImportJobProgress from './ImportJobProgress';
+import { runImportJob, type ImportJobState } from './importJobs';
 import AppSidebar, { type AppView, getViewTitle, MobileMenuButton } from './AppSidebar';
 
 import { API_URL } from './config';
-import { parseApiJson } from './api';
 
 
 const UI = {
@@ -48,7 +58,7 @@ interface Sale {
   source: string;
 }
 
-type OrderUploadSource = 'shopee' | 'tiktok' | 'tray' | 'atacado' | 'tray_varejo';
+type OrderUploadSource = 'shopee' | 'tiktok' | 'mercadolivre' | 'tray' | 'atacado' | 'tray_varejo';
 
 function App() {
   const [currentView, setCurrentView] = useState<AppView>('upload');
@@ -82,24 +92,62 @@ function App() {
   const [tiktokIncomeFile, setTiktokIncomeFile] = useState<File | null>(null);
   const [tiktokIncomeMessage, setTiktokIncomeMessage] = useState('');
   const [tiktokIncomeLoading, setTiktokIncomeLoading] = useState(false);
+  const [tiktokFinanceMonth, setTiktokFinanceMonth] = useState('');
+  const [tiktokFinanceMessage, setTiktokFinanceMessage] = useState('');
+  const [tiktokFinanceLoading, setTiktokFinanceLoading] = useState(false);
   const [shopeeIncomeFile, setShopeeIncomeFile] = useState<File | null>(null);
   const [shopeeIncomeMessage, setShopeeIncomeMessage] = useState('');
   const [shopeeIncomeLoading, setShopeeIncomeLoading] = useState(false);
+  const [shopeeBalanceFile, setShopeeBalanceFile] = useState<File | null>(null);
+  const [shopeeBalanceMessage, setShopeeBalanceMessage] = useState('');
+  const [shopeeBalanceLoading, setShopeeBalanceLoading] = useState(false);
   const [sales, setSales] = useState<Sale[]>([]);
   const [loading, setLoading] = useState(true);
+  const [batchesRefreshKey, setBatchesRefreshKey] = useState(0);
+  const [uploadPreview, setUploadPreview] = useState<ImportPreviewData | null>(null);
+  const [itemsPreview, setItemsPreview] = useState<ImportPreviewData | null>(null);
+  // Linhas rejeitadas do último upload (lote gravado ou upload recusado), para baixar o relatório
+  const [uploadRejections, setUploadRejections] = useState<{ rows: RejectedRowData[]; batchId: number | null } | null>(null);
+  const [itemsRejections, setItemsRejections] = useState<{ rows: RejectedRowData[]; batchId: number | null } | null>(null);
+  // Progresso dos uploads processados em segundo plano (null = nenhum em andamento)
+  const [uploadJob, setUploadJob] = useState<ImportJobState | null>(null);
+  const [itemsJob, setItemsJob] = useState<ImportJobState | null>(null);
+  const [tiktokIncomeJob, setTiktokIncomeJob] = useState<ImportJobState | null>(null);
+  const [shopeeIncomeJob, setShopeeIncomeJob] = useState<ImportJobState | null>(null);
+  const [shopeeBalanceJob, setShopeeBalanceJob] = useState<ImportJobState | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setFile(e.target.files[0]);
+      setUploadPreview(null);
     }
   };
 
   const handleItemsFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setItemsFile(e.target.files[0]);
+      setItemsPreview(null);
     }
   };
 
+  /** Envia o arquivo com preview=1: o backend devolve o diff sem gravar nada. */
+  const fetchUploadPreview = async (
+    url: string,
+    uploadFile: File,
+    uploadSource: string,
+    onJobUpdate: (job: ImportJobState | null) => void,
+  ) => {
+    const formData = new FormData();
+    formData.append('file', uploadFile);
+    formData.append('source', uploadSource);
+    formData.append('preview', '1');
+    const { ok, data } = await runImportJob<ImportPreviewData & { message?: string }>(url, formData, onJobUpdate);
+    if (!ok) {
+      throw new Error(data.message || 'Erro ao gerar pré-visualização.');
+    }
+    return data;
+  };
+
   const fetchSales = async () => {
     try {
       setLoading(true);
@@ -125,29 +173,35 @@ function App() {
     }
   }, [currentView]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!file) {
-      setMessage('Por favor, selecione um arquivo.');
-      return;
-    }
-
+  const uploadOrders = async (force: boolean) => {
+    if (!file) return;
     setMessage('Enviando e processando...');
+    setUploadRejections(null);
     const formData = new FormData();
     formData.append('file', file);
     formData.append('source', source);
+    if (force) formData.append('force', '1');
 
     try {
-      const response = await fetch(`${API_URL}/api/upload`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      const data = await response.json();
+      const response = await runImportJob(`${API_URL}/api/upload`, formData, setUploadJob);
+      const data = response.data;
+
+      if (response.status === 409 && !force) {
+        if (window.confirm(data.message)) {
+          await uploadOrders(true);
+        } else {
+          setMessage('Importação cancelada: arquivo já importado.');
+        }
+        return;
+      }
 
+      if (Array.isArray(data.rejectedRows)) {
+        setUploadRejections({ rows: data.rejectedRows, batchId: response.ok ? data.importBatchId ?? null : null });
+      }
       if (response.ok) {
-        setMessage(`Sucesso! ${data.count} novas vendas foram importadas.`);
+        setMessage(`Sucesso! ${data.count} novas vendas foram importadas (lote #${data.importBatchId}).`);
         fetchSales();
+        setBatchesRefreshKey((k) => k + 1);
       } else {
         throw new Error(data.message || 'Ocorreu um erro no upload.');
       }
@@ -156,6 +210,31 @@ function App() {
     }
   };
 
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setMessage('Por favor, selecione um arquivo.');
+      return;
+    }
+    setUploadPreview(null);
+    setUploadRejections(null);
+    setMessage('Gerando pré-visualização...');
+    try {
+      const data = await fetchUploadPreview(`${API_URL}/api/upload`, file, source, setUploadJob);
+      setUploadPreview(data);
+      setMessage('');
+    } catch (error: any) {
+      setMessage(`Erro: ${error.message}`);
+    }
+  };
+
+  const confirmUpload = async () => {
+    // Arquivo repetido já foi sinalizado no preview; confirmar equivale a forçar.
+    const force = Boolean(uploadPreview?.duplicateBatch);
+    setUploadPreview(null);
+    await uploadOrders(force);
+  };
+
   const handleTiktokIncomeFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setTiktokIncomeFile(e.target.files[0]);
@@ -175,17 +254,14 @@ function App() {
     formData.append('file', tiktokIncomeFile);
 
     try {
-      const response = await fetch(`${API_URL}/api/tiktok/income/import`, {
-        method: 'POST',
-        body: formData,
-      });
-      const data = await parseApiJson<{
+      const response = await runImportJob<{
         message?: string;
         updated?: number;
         notFound?: number;
         skippedSettled?: number;
         importType?: 'settled' | 'onhold' | null;
-      }>(response);
+      }>(`${API_URL}/api/tiktok/income/import`, formData, setTiktokIncomeJob);
+      const data = response.data;
 
       if (response.ok) {
         const nf = data.notFound ?? 0;
@@ -212,6 +288,40 @@ function App() {
     }
   };
 
+  // Liquidação pela Finance API do TikTok Shop (mesmas regras do relatório income)
+  const handleTiktokFinanceSync = async (dryRun: boolean) => {
+    if (!tiktokFinanceMonth) {
+      setTiktokFinanceMessage('Selecione o mês dos demonstrativos.');
+      return;
+    }
+
+    setTiktokFinanceLoading(true);
+    setTiktokFinanceMessage(dryRun ? 'Comparando com os valores gravados...' : 'Buscando demonstrativos TikTok Shop...');
+    try {
+      const response = await fetch(`${API_URL}/api/tiktok-shop/finance/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month: tiktokFinanceMonth, dryRun }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Erro ao buscar liquidação TikTok Shop.');
+
+      const nf = data.notFound ?? 0;
+      const extras: string[] = [`${data.ordersInApi ?? 0} pedido(s) em ${data.statements ?? 0} demonstrativo(s).`];
+      if (nf > 0) extras.push(`${nf} pedido(s) não existem no sistema.`);
+      if (dryRun && data.comparison) {
+        const c = data.comparison;
+        extras.push(`Iguais aos gravados: ${c.equal}. Diferentes: ${c.different}. Ainda sem liquidação: ${c.notSettled}.`);
+      }
+      setTiktokFinanceMessage(`${data.message} ${extras.join(' ')}`);
+      if (!dryRun) fetchSales();
+    } catch (error: any) {
+      setTiktokFinanceMessage(`Erro: ${error.message}`);
+    } finally {
+      setTiktokFinanceLoading(false);
+    }
+  };
+
   const handleShopeeIncomeFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setShopeeIncomeFile(e.target.files[0]);
@@ -231,16 +341,13 @@ function App() {
     formData.append('file', shopeeIncomeFile);
 
     try {
-      const response = await fetch(`${API_URL}/api/shopee/income/import`, {
-        method: 'POST',
-        body: formData,
-      });
-      const data = await parseApiJson<{
+      const response = await runImportJob<{
         message?: string;
         updated?: number;
         notFound?: number;
         matched?: number;
-      }>(response);
+      }>(`${API_URL}/api/shopee/income/import`, formData, setShopeeIncomeJob);
+      const data = response.data;
 
       if (response.ok) {
         const nf = data.notFound ?? 0;
@@ -260,28 +367,79 @@ function App() {
     }
   };
 
-  const handleItemsSubmit = async (e: FormEvent) => {
+  const handleShopeeBalanceFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      setShopeeBalanceFile(e.target.files[0]);
+    }
+  };
+
+  const handleShopeeBalanceSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (!itemsFile) {
-      setItemsMessage('Por favor, selecione o arquivo de produtos vendidos (CSV).');
+    if (!shopeeBalanceFile) {
+      setShopeeBalanceMessage('Por favor, selecione o extrato da carteira Shopee (.xlsx).');
       return;
     }
 
+    setShopeeBalanceLoading(true);
+    setShopeeBalanceMessage('Enviando e processando extrato da carteira Shopee...');
+    const formData = new FormData();
+    formData.append('file', shopeeBalanceFile);
+
+    try {
+      const response = await runImportJob<{
+        message?: string;
+        transactions?: number;
+        linkedOrders?: number;
+        unknownOrders?: number;
+      }>(`${API_URL}/api/shopee/balance/import`, formData, setShopeeBalanceJob);
+      const data = response.data;
+
+      if (response.ok) {
+        const unknown = data.unknownOrders ?? 0;
+        const extra =
+          unknown > 0 ? ` ${unknown} pedido(s) do extrato não existem no sistema (importe os pedidos Shopee antes).` : '';
+        setShopeeBalanceMessage(
+          `${data.message} Transações: ${data.transactions ?? 0}, pedidos vinculados: ${data.linkedOrders ?? 0}.${extra}`
+        );
+      } else {
+        throw new Error(data.message || 'Erro na importação do extrato da carteira Shopee.');
+      }
+    } catch (error: unknown) {
+      setShopeeBalanceMessage(`Erro: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setShopeeBalanceLoading(false);
+    }
+  };
+
+  const uploadItems = async (force: boolean) => {
+    if (!itemsFile) return;
     setItemsMessage('Enviando e processando produtos...');
+    setItemsRejections(null);
     const formData = new FormData();
     formData.append('file', itemsFile);
     formData.append('source', itemsTraySource);
+    if (force) formData.append('force', '1');
 
     try {
-      const response = await fetch(`${API_URL}/api/upload-items`, {
-        method: 'POST',
-        body: formData,
-      });
-      const data = await response.json();
+      const response = await runImportJob(`${API_URL}/api/upload-items`, formData, setItemsJob);
+      const data = response.data;
+
+      if (response.status === 409 && !force) {
+        if (window.confirm(data.message)) {
+          await uploadItems(true);
+        } else {
+          setItemsMessage('Importação cancelada: arquivo já importado.');
+        }
+        return;
+      }
 
+      if (Array.isArray(data.rejectedRows)) {
+        setItemsRejections({ rows: data.rejectedRows, batchId: response.ok ? data.importBatchId ?? null : null });
+      }
       if (response.ok) {
         setItemsMessage(`Sucesso! ${data.items ?? 0} itens processados. Pedidos atualizados: ${data.ordersUpdated ?? 0}.`);
         fetchSales();
+        setBatchesRefreshKey((k) => k + 1);
       } else {
         throw new Error(data.message || 'Ocorreu um erro no upload de produtos.');
       }
@@ -290,6 +448,30 @@ function App() {
     }
   };
 
+  const handleItemsSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!itemsFile) {
+      setItemsMessage('Por favor, selecione o arquivo de produtos vendidos (CSV).');
+      return;
+    }
+    setItemsPreview(null);
+    setItemsRejections(null);
+    setItemsMessage('Gerando pré-visualização...');
+    try {
+      const data = await fetchUploadPreview(`${API_URL}/api/upload-items`, itemsFile, itemsTraySource, setItemsJob);
+      setItemsPreview(data);
+      setItemsMessage('');
+    } catch (error: any) {
+      setItemsMessage(`Erro: ${error.message}`);
+    }
+  };
+
+  const confirmItemsUpload = async () => {
+    const force = Boolean(itemsPreview?.duplicateBatch);
+    setItemsPreview(null);
+    await uploadItems(force);
+  };
+
   return (
     <div className={cn(UI.bg, 'min-h-screen')}>
       <AppSidebar
@@ -334,6 +516,8 @@ function App() {
         <ContributionDashboard />
       ) : currentView === 'ads_spend' ? (
         <AdsSpend />
+      ) : currentView === 'shopee_reconciliation' ? (
+        <ShopeeReconciliation />
       ) : currentView === 'products' ? (
         <Products />
       ) : currentView === 'payment_type_fees' ? (
@@ -342,6 +526,8 @@ function App() {
         <StockOverview />
       ) : currentView === 'stock_launch' ? (
         <StockLaunch />
+      ) : currentView === 'stock_push' ? (
+        <StockPush />
       ) : currentView === 'master_products' ? (
         <MasterProducts />
       ) : currentView === 'bills_to_pay' ? (
@@ -374,15 +560,23 @@ function App() {
         <ShopeeDuplicates />
       ) : currentView === 'product_curve' ? (
         <ProductCurve />
+      ) : currentView === 'customers_rfm' ? (
+        <CustomersRfm />
+      ) : currentView === 'returns_analytics' ? (
+        <ReturnsAnalytics />
       ) : currentView === 'returns' ? (
         <Returns />
       ) : currentView === 'orders' ? (
         <Orders onEditManualOrder={openAtacadoEdit} />
+      ) : currentView === 'order_trash' ? (
+        <OrderTrash />
       ) : currentView === 'atacado_manual' ? (
         <AtacadoManualSale
           initialEditOrderId={atacadoEditOrderId}
           onEditHandled={() => setAtacadoEditOrderId(null)}
         />
+      ) : currentView === 'import_mappings' ? (
+        <ImportMappings />
       ) : (
         <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
           {/* Card: Upload */}
@@ -402,11 +596,15 @@ function App() {
                 <select
                   id="source-select"
                   value={source}
-                  onChange={(e) => setSource(e.target.value as OrderUploadSource)}
+                  onChange={(e) => {
+                    setSource(e.target.value as OrderUploadSource);
+                    setUploadPreview(null);
+                  }}
                   className="mt-2 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
                 >
                   <option value="shopee">Shopee</option>
                   <option value="tiktok">TikTok Shop</option>
+                  <option value="mercadolivre">Mercado Livre (relatório de Vendas)</option>
                   <option value="atacado">Atacado (Nuvemshop — pedidos + itens)</option>
                   <option value="tray_varejo">Tray Varejo</option>
                   <option value="tray">Tray legado — detectar pelo arquivo (prefixo 5/2 ou loja)</option>
@@ -415,6 +613,11 @@ function App() {
                   <p className="mt-2 text-xs text-slate-500">
                     Use o CSV de Vendas da Nuvemshop (ex.: Vendas-….csv). Pedidos e itens entram no mesmo arquivo.
                   </p>
+                ) : source === 'mercadolivre' ? (
+                  <p className="mt-2 text-xs text-slate-500">
+                    Use o XLSX de Vendas do Mercado Livre (Vendas → Exportar). Pedidos, itens, tarifa de venda e custo de
+                    envio entram no mesmo arquivo.
+                  </p>
                 ) : null}
               </div>
 
@@ -439,7 +642,7 @@ function App() {
                       : 'bg-slate-200 text-slate-500 cursor-not-allowed'
                   )}
                 >
-                  Enviar arquivo
+                  Pré-visualizar
                 </button>
               </div>
             </form>
@@ -447,8 +650,23 @@ function App() {
             {message && (
               <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
                 {message}
+                <ImportJobProgress className="mt-2" job={uploadJob} />
+                {uploadRejections && (
+                  <RejectedRowsDownload className="mt-2" rows={uploadRejections.rows} batchId={uploadRejections.batchId} />
+                )}
               </div>
             )}
+
+            {uploadPreview && (
+              <ImportPreviewPanel
+                preview={uploadPreview}
+                onConfirm={confirmUpload}
+                onCancel={() => {
+                  setUploadPreview(null);
+                  setMessage('Importação cancelada.');
+                }}
+              />
+            )}
           </div>
 
           {/* Card: Upload Produtos (Tray) */}
@@ -468,7 +686,10 @@ function App() {
                 <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Loja Tray</label>
                 <select
                   value={itemsTraySource}
-                  onChange={(e) => setItemsTraySource(e.target.value as 'tray' | 'atacado' | 'tray_varejo')}
+                  onChange={(e) => {
+                    setItemsTraySource(e.target.value as 'tray' | 'atacado' | 'tray_varejo');
+                    setItemsPreview(null);
+                  }}
                   className="mt-2 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
                 >
                   <option value="atacado">Atacado</option>
@@ -496,7 +717,7 @@ function App() {
                       : 'bg-slate-200 text-slate-500 cursor-not-allowed'
                   )}
                 >
-                  Importar produtos
+                  Pré-visualizar
                 </button>
               </div>
             </form>
@@ -504,8 +725,23 @@ function App() {
             {itemsMessage && (
               <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
                 {itemsMessage}
+                <ImportJobProgress className="mt-2" job={itemsJob} />
+                {itemsRejections && (
+                  <RejectedRowsDownload className="mt-2" rows={itemsRejections.rows} batchId={itemsRejections.batchId} />
+                )}
               </div>
             )}
+
+            {itemsPreview && (
+              <ImportPreviewPanel
+                preview={itemsPreview}
+                onConfirm={confirmItemsUpload}
+                onCancel={() => {
+                  setItemsPreview(null);
+                  setItemsMessage('Importação cancelada.');
+                }}
+              />
+            )}
           </div>
 
           {/* Card: Income / Liquidação TikTok */}
@@ -550,8 +786,58 @@ function App() {
             {tiktokIncomeMessage && (
               <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
                 {tiktokIncomeMessage}
+                <ImportJobProgress className="mt-2" job={tiktokIncomeJob} />
               </div>
             )}
+
+            <div className="mt-5 border-t border-slate-100 pt-5">
+              <p className="text-sm text-slate-500">
+                Ou busque a liquidação direto da <span className="font-bold">API de finanças</span> (loja conectada em
+                Integrações): mesmos cálculos do relatório, por mês do demonstrativo. Use{' '}
+                <span className="font-bold">Comparar</span> para conferir com os valores já importados sem alterar nada.
+              </p>
+              <div className="mt-3 grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+                <div className="md:col-span-6">
+                  <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Mês</label>
+                  <input
+                    type="month"
+                    value={tiktokFinanceMonth}
+                    onChange={(e) => setTiktokFinanceMonth(e.target.value)}
+                    className="mt-2 block w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm"
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <button
+                    type="button"
+                    onClick={() => handleTiktokFinanceSync(true)}
+                    disabled={!tiktokFinanceMonth || tiktokFinanceLoading}
+                    className="w-full rounded-xl border border-slate-200 bg-white px-4 py-2 text-sm font-extrabold text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:text-slate-400"
+                  >
+                    Comparar
+                  </button>
+                </div>
+                <div className="md:col-span-3">
+                  <button
+                    type="button"
+                    onClick={() => handleTiktokFinanceSync(false)}
+                    disabled={!tiktokFinanceMonth || tiktokFinanceLoading}
+                    className={cn(
+                      'w-full rounded-xl px-4 py-2 text-sm font-extrabold shadow-sm transition',
+                      tiktokFinanceMonth && !tiktokFinanceLoading
+                        ? 'bg-slate-800 text-white hover:bg-slate-700'
+                        : 'bg-slate-200 text-slate-500 cursor-not-allowed'
+                    )}
+                  >
+                    {tiktokFinanceLoading ? 'Buscando...' : 'Buscar via API'}
+                  </button>
+                </div>
+              </div>
+              {tiktokFinanceMessage && (
+                <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
+                  {tiktokFinanceMessage}
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Card: Income / Liquidação Shopee */}
@@ -597,10 +883,62 @@ function App() {
             {shopeeIncomeMessage && (
               <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
                 {shopeeIncomeMessage}
+                <ImportJobProgress className="mt-2" job={shopeeIncomeJob} />
               </div>
             )}
           </div>
 
+          {/* Card: Extrato da carteira Shopee */}
+          <div className={cn(UI.card, 'p-6')}>
+            <div>
+              <h2 className="text-lg font-black tracking-tight text-slate-900">Extrato da carteira Shopee</h2>
+              <p className="mt-1 text-sm text-slate-500">
+                Relatório <span className="font-bold">my_balance_transaction_report</span> (
+                <span className="font-bold">.xlsx</span>) da Carteira do Vendedor: renda dos pedidos, ajustes, saques e
+                recargas de ADS. Reimportar o mesmo período não duplica lançamentos. A conferência fica em{' '}
+                <span className="font-bold">Financeiro › Conciliação Shopee</span>.
+              </p>
+            </div>
+
+            <form onSubmit={handleShopeeBalanceSubmit} className="mt-5 grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+              <div className="md:col-span-9">
+                <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                  Extrato da carteira (.xlsx)
+                </label>
+                <input
+                  type="file"
+                  onChange={handleShopeeBalanceFileChange}
+                  accept=".xlsx,.xls"
+                  className="mt-2 block w-full text-sm text-slate-700 file:mr-4 file:rounded-xl file:border-0 file:bg-slate-100 file:px-4 file:py-2 file:text-sm file:font-extrabold file:text-slate-900 hover:file:bg-slate-200"
+                />
+              </div>
+              <div className="md:col-span-3">
+                <button
+                  type="submit"
+                  disabled={!shopeeBalanceFile || shopeeBalanceLoading}
+                  className={cn(
+                    'w-full rounded-xl px-4 py-2 text-sm font-extrabold shadow-sm transition',
+                    shopeeBalanceFile && !shopeeBalanceLoading
+                      ? 'bg-orange-600 text-white hover:bg-orange-700'
+                      : 'bg-slate-200 text-slate-500 cursor-not-allowed'
+                  )}
+                >
+                  {shopeeBalanceLoading ? 'Processando...' : 'Importar extrato'}
+                </button>
+              </div>
+            </form>
+
+            {shopeeBalanceMessage && (
+              <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
+                {shopeeBalanceMessage}
+                <ImportJobProgress className="mt-2" job={shopeeBalanceJob} />
+              </div>
+            )}
+          </div>
+
+          {/* Card: Histórico de importações */}
+          <ImportBatches refreshKey={batchesRefreshKey} onRolledBack={fetchSales} />
+
           {/* Card: Lista */}
           <div className={cn(UI.card, 'overflow-hidden')}>
             <div className="px-6 pt-6 flex items-center justify-between">
@@ -652,7 +990,9 @@ function App() {
                                   ? 'bg-orange-600'
                                   : sale.source === 'tiktok'
                                     ? 'bg-slate-800'
-                                    : 'bg-indigo-700'
+                                    : sale.source === 'mercadolivre'
+                                      ? 'bg-yellow-500'
+                                      : 'bg-indigo-700'
                               )}
                             >
                               {sale.source}
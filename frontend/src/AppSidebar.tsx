@@ -19,6 +19,7 @@ export type AppView =
   | 'upload'
   | 'dashboard'
   | 'ads_spend'
+  | 'shopee_reconciliation'
   | 'ads_dashboard'
   | 'contribution_dashboard'
   | 'sales_by_day'
@@ -27,6 +28,7 @@ export type AppView =
   | 'payment_type_fees'
   | 'stock_overview'
   | 'stock_launch'
+  | 'stock_push'
   | 'master_products'
   | 'simulation'
   | 'simulation_gross_revenue'
@@ -36,9 +38,13 @@ export type AppView =
   | 'shopee_integration'
   | 'shopee_duplicates'
   | 'product_curve'
+  | 'customers_rfm'
+  | 'returns_analytics'
   | 'returns'
   | 'orders'
-  | 'atacado_manual';
+  | 'order_trash'
+  | 'atacado_manual'
+  | 'import_mappings';
 
 type NavItem = { view: AppView; label: string };
 
@@ -67,6 +73,7 @@ const NAV_MODULES: NavModule[] = [
       { view: 'orders', label: 'Lista de pedidos' },
       { view: 'atacado_manual', label: 'Venda Atacado (WhatsApp)' },
       { view: 'returns', label: 'Devoluções' },
+      { view: 'order_trash', label: 'Lixeira' },
     ],
   },
   {
@@ -86,6 +93,7 @@ const NAV_MODULES: NavModule[] = [
     items: [
       { view: 'stock_overview', label: 'Visão de estoque' },
       { view: 'stock_launch', label: 'Lançar estoque' },
+      { view: 'stock_push', label: 'Envio aos canais' },
     ],
   },
   {
@@ -96,6 +104,8 @@ const NAV_MODULES: NavModule[] = [
       { view: 'contribution_dashboard', label: 'Margem por Canal' },
       { view: 'ads_dashboard', label: 'Custo ADS' },
       { view: 'product_curve', label: 'Curva ABC' },
+      { view: 'customers_rfm', label: 'Clientes (RFM)' },
+      { view: 'returns_analytics', label: 'Devoluções (taxa)' },
       { view: 'simulation', label: 'Simulação' },
       { view: 'simulation_gross_revenue', label: 'Faturamento bruto' },
     ],
@@ -109,6 +119,7 @@ const NAV_MODULES: NavModule[] = [
       { view: 'bills_to_pay', label: 'Cadastro contas' },
       { view: 'receivables', label: 'Contas a receber' },
       { view: 'ads_spend', label: 'Cadastro ADS' },
+      { view: 'shopee_reconciliation', label: 'Conciliação Shopee' },
     ],
   },
   {
@@ -126,7 +137,7 @@ const NAV_MODULES: NavModule[] = [
     id: 'settings',
     label: 'Configurações',
     icon: Settings,
-    items: [],
+    items: [{ view: 'import_mappings', label: 'Mapeamento de planilhas' }],
   },
 ];
 
@@ -138,10 +149,12 @@ const VIEW_TITLES: Record<AppView, string> = {
   ads_dashboard: 'Custo ADS',
   contribution_dashboard: 'Margem por Canal',
   ads_spend: 'Cadastro ADS',
+  shopee_reconciliation: 'Conciliação Shopee',
   products: 'Produtos de canal',
   payment_type_fees: 'Taxas Tray',
   stock_overview: 'Visão de estoque',
   stock_launch: 'Lançar estoque',
+  stock_push: 'Envio aos canais',
   master_products: 'Produtos mestre',
   bills_to_pay: 'Cadastro contas',
   receivables: 'Contas a receber',
@@ -151,9 +164,13 @@ const VIEW_TITLES: Record<AppView, string> = {
   shopee_integration: 'Integrações',
   shopee_duplicates: 'Duplicatas Shopee',
   product_curve: 'Curva ABC',
+  customers_rfm: 'Clientes e recompra',
+  returns_analytics: 'Análise de devoluções',
   returns: 'Devoluções',
   orders: 'Lista de pedidos',
+  order_trash: 'Lixeira de pedidos',
   atacado_manual: 'Venda Atacado (WhatsApp)',
+  import_mappings: 'Mapeamento de planilhas',
 };
 
 export function getViewTitle(view: AppView): string {
@@ -20,6 +20,7 @@ type ChannelRow = {
   taxasCartaoPix: number;
   frete: number;
   custoProducao: number;
+  devolucoes: number;
   margemContribuicao: number;
   margemContribuicaoPercent: number;
   lucroLiquido: number;
@@ -38,6 +39,7 @@ type ContributionDashboardData = {
 const CHANNEL_LABELS: Record<string, string> = {
   shopee: "Shopee",
   tiktok: "TikTok",
+  mercadolivre: "Mercado Livre",
   atacado: "Atacado",
   tray_varejo: "Tray Varejo",
 };
@@ -45,11 +47,12 @@ const CHANNEL_LABELS: Record<string, string> = {
 const CHANNEL_COLORS: Record<string, string> = {
   shopee: "#ee4d2d",
   tiktok: "#111827",
+  mercadolivre: "#eab308",
   atacado: "#2563eb",
   tray_varejo: "#7c3aed",
 };
 
-const METRIC_KEYS = ["ADS", "Taxas", "Custo prod.", "Margem"] as const;
+const METRIC_KEYS = ["ADS", "Taxas", "Custo prod.", "Devoluções", "Margem"] as const;
 
 function cn(...classes: Array<string | false | undefined | null>) {
   return classes.filter(Boolean).join(" ");
@@ -120,6 +123,7 @@ export default function ContributionDashboard(): JSX.Element {
   const [selectedChannels, setSelectedChannels] = useState<string[]>([
     "shopee",
     "tiktok",
+    "mercadolivre",
     "atacado",
     "tray_varejo",
   ]);
@@ -155,7 +159,7 @@ export default function ContributionDashboard(): JSX.Element {
   }, []);
 
   const activeChannels = useMemo(() => {
-    const all = data?.channels || ["shopee", "tiktok", "atacado", "tray_varejo"];
+    const all = data?.channels || ["shopee", "tiktok", "mercadolivre", "atacado", "tray_varejo"];
     return all.filter((ch) => selectedChannels.includes(ch));
   }, [data, selectedChannels]);
 
@@ -188,6 +192,7 @@ export default function ContributionDashboard(): JSX.Element {
         if (metric === "ADS") point[ch] = pctOfRevenue(row.adsInvestimento, rev);
         else if (metric === "Taxas") point[ch] = pctOfRevenue(row.taxas, rev);
         else if (metric === "Custo prod.") point[ch] = pctOfRevenue(row.custoProducao, rev);
+        else if (metric === "Devoluções") point[ch] = pctOfRevenue(row.devolucoes, rev);
         else point[ch] = row.margemContribuicaoPercent;
       }
       return point;
@@ -344,6 +349,7 @@ export default function ContributionDashboard(): JSX.Element {
                       if (metric === "ADS") abs = row.adsInvestimento;
                       else if (metric === "Taxas") abs = row.taxas;
                       else if (metric === "Custo prod.") abs = row.custoProducao;
+                      else if (metric === "Devoluções") abs = row.devolucoes;
                       else abs = row.margemContribuicao;
                       return [`${fmtPct(Number(v ?? 0))} (${fmtMoney(abs)})`, channelLabel(ch)];
                     }}
@@ -382,6 +388,7 @@ export default function ContributionDashboard(): JSX.Element {
                     <th className="px-4 py-3">ADS</th>
                     <th className="px-4 py-3">Taxas</th>
                     <th className="px-4 py-3">Custo prod.</th>
+                    <th className="px-4 py-3">Devoluções</th>
                     <th className="px-4 py-3">Margem</th>
                     <th className="px-4 py-3">Lucro líquido</th>
                   </tr>
@@ -405,6 +412,9 @@ export default function ContributionDashboard(): JSX.Element {
                       <td className="px-4 py-3">
                         <MoneyWithPct value={row.custoProducao} revenue={row.faturamentoBruto} />
                       </td>
+                      <td className="px-4 py-3">
+                        <MoneyWithPct value={row.devolucoes} revenue={row.faturamentoBruto} />
+                      </td>
                       <td className="px-4 py-3">
                         <MoneyWithPct
                           value={row.margemContribuicao}
@@ -425,7 +435,7 @@ export default function ContributionDashboard(): JSX.Element {
                   ))}
                   {tableRows.length === 0 && (
                     <tr>
-                      <td colSpan={8} className="px-4 py-8 text-center text-slate-400">
+                      <td colSpan={9} className="px-4 py-8 text-center text-slate-400">
                         Nenhum dado para os filtros selecionados.
                       </td>
                     </tr>
@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { RefreshCcw, Users } from "lucide-react";
+
+import { API_URL } from "./config";
+import { parseApiJson } from "./api";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const UI = {
+  bg: "bg-slate-50",
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+type RfmSegment = "champions" | "loyal" | "new" | "potential" | "at_risk" | "hibernating";
+
+type TopCustomer = {
+  customerId: number;
+  keyType: string;
+  city: string | null;
+  state: string | null;
+  orders: number;
+  revenue: number;
+  firstOrder: string;
+  lastOrder: string;
+  recencyDays: number;
+  score: string;
+  segment: RfmSegment;
+};
+
+type ChannelSummary = {
+  channel: string;
+  customers: number;
+  repeatCustomers: number;
+  repeatRate: number;
+  orders: number;
+  revenue: number;
+  ordersPerCustomer: number;
+  avgDaysBetweenPurchases: number | null;
+  segments: Record<RfmSegment, { customers: number; revenue: number }>;
+  topCustomers: TopCustomer[];
+};
+
+type RfmResponse = {
+  referenceDate: string;
+  segmentLabels: Record<RfmSegment, string>;
+  unlinkedOrders: number;
+  channels: ChannelSummary[];
+  message?: string;
+};
+
+const CHANNEL_OPTIONS = [
+  { value: "all", label: "Todos os canais" },
+  { value: "shopee", label: "Shopee" },
+  { value: "tiktok", label: "TikTok Shop" },
+  { value: "atacado", label: "Atacado (Nuvemshop)" },
+];
+
+const CHANNEL_LABELS: Record<string, string> = {
+  shopee: "Shopee",
+  tiktok: "TikTok Shop",
+  atacado: "Atacado",
+};
+
+const SEGMENT_ORDER: RfmSegment[] = ["champions", "loyal", "new", "potential", "at_risk", "hibernating"];
+
+const SEGMENT_COLORS: Record<RfmSegment, string> = {
+  champions: "bg-emerald-50 text-emerald-700",
+  loyal: "bg-sky-50 text-sky-700",
+  new: "bg-violet-50 text-violet-700",
+  potential: "bg-amber-50 text-amber-700",
+  at_risk: "bg-rose-50 text-rose-700",
+  hibernating: "bg-slate-100 text-slate-600",
+};
+
+const KEY_TYPE_LABELS: Record<string, string> = {
+  document: "CPF/CNPJ",
+  username: "Usuário",
+  email: "E-mail",
+  phone: "Telefone",
+};
+
+function fmtMoney(v: number) {
+  return v.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtDate(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString("pt-BR");
+}
+
+function getMonthOptions(): { value: string; label: string }[] {
+  const opts: { value: string; label: string }[] = [{ value: "", label: "Todo o histórico" }];
+  const now = new Date();
+  for (let i = 0; i < 24; i++) {
+    const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    const val = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+    const label = d.toLocaleDateString("pt-BR", { month: "long", year: "numeric" });
+    opts.push({ value: val, label: label.charAt(0).toUpperCase() + label.slice(1) });
+  }
+  return opts;
+}
+
+const MONTH_OPTIONS = getMonthOptions();
+
+/** Recompra e segmentação RFM por canal (GET /api/customers/rfm). */
+export default function CustomersRfm(): JSX.Element {
+  const [channel, setChannel] = useState("all");
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [data, setData] = useState<RfmResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchRfm = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const params = new URLSearchParams({ channel });
+      if (start) {
+        params.set("start", start);
+        params.set("end", end || start);
+      }
+      const res = await fetch(`${API_URL}/api/customers/rfm?${params.toString()}`);
+      const json = await parseApiJson<RfmResponse>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao carregar clientes.");
+      setData(json);
+    } catch (e: any) {
+      setError(`Erro: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [channel, start, end]);
+
+  useEffect(() => {
+    fetchRfm();
+  }, [fetchRfm]);
+
+  const labels = data?.segmentLabels;
+
+  return (
+    <div className={cn(UI.bg, "min-h-screen")}>
+      <div className="max-w-[1400px] mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div>
+          <h2 className="text-lg font-black tracking-tight text-slate-900">Clientes e recompra</h2>
+          <p className="text-sm text-slate-500 mt-0.5">
+            Compradores identificados nas planilhas e nas integrações (chave anonimizada por canal). Considera só
+            pedidos válidos — sem cancelados, não pagos e devolvidos.
+          </p>
+        </div>
+
+        <div className={cn(UI.card, "p-5 flex flex-col gap-4 md:flex-row md:items-end md:justify-between")}>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Canal</label>
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                {CHANNEL_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">De</label>
+              <select
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                {MONTH_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Até</label>
+              <select
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                disabled={!start}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm disabled:opacity-50"
+              >
+                {MONTH_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.value ? o.label : "Mesmo mês"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={fetchRfm}
+            className="inline-flex items-center gap-2 rounded-xl bg-white px-4 py-2 text-sm font-extrabold text-slate-900 shadow-sm border border-slate-200 hover:bg-slate-50 transition"
+          >
+            <RefreshCcw className={cn("h-4 w-4", loading && "animate-spin")} /> Atualizar
+          </button>
+        </div>
+
+        {error && <div className={cn(UI.card, "px-4 py-3 text-sm font-semibold text-red-600")}>{error}</div>}
+
+        {data && data.unlinkedOrders > 0 && (
+          <div className={cn(UI.card, "px-4 py-3 text-xs font-semibold text-slate-500")}>
+            {data.unlinkedOrders.toLocaleString("pt-BR")} pedido(s) válidos no filtro sem comprador identificado
+            (planilhas antigas, canais sem dados do comprador ou dados mascarados) ficam de fora.
+          </div>
+        )}
+
+        {loading && !data ? (
+          <div className={cn(UI.card, "p-8 text-center text-sm text-slate-500")}>Carregando clientes...</div>
+        ) : data && data.channels.length === 0 ? (
+          <div className={cn(UI.card, "p-8 text-center text-sm text-slate-500")}>
+            Nenhum cliente identificado no período. Reimporte as planilhas ou sincronize as integrações.
+          </div>
+        ) : (
+          data?.channels.map((c) => (
+            <div key={c.channel} className={cn(UI.card, "overflow-hidden")}>
+              <div className="flex items-center gap-2 border-b border-slate-200 px-5 py-4">
+                <Users className="h-4 w-4 text-slate-500" />
+                <h3 className="text-sm font-black tracking-tight text-slate-900">{CHANNEL_LABELS[c.channel] ?? c.channel}</h3>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 px-5 py-4 md:grid-cols-5">
+                <Metric label="Clientes" value={c.customers.toLocaleString("pt-BR")} />
+                <Metric
+                  label="Taxa de recompra"
+                  value={`${c.repeatRate.toLocaleString("pt-BR")}%`}
+                  hint={`${c.repeatCustomers.toLocaleString("pt-BR")} com 2+ pedidos`}
+                />
+                <Metric label="Pedidos por cliente" value={c.ordersPerCustomer.toLocaleString("pt-BR")} />
+                <Metric
+                  label="Dias entre compras"
+                  value={c.avgDaysBetweenPurchases != null ? c.avgDaysBetweenPurchases.toLocaleString("pt-BR") : "—"}
+                  hint="média de quem recomprou"
+                />
+                <Metric label="Faturamento" value={fmtMoney(c.revenue)} hint={`${c.orders.toLocaleString("pt-BR")} pedidos`} />
+              </div>
+
+              <div className="flex flex-wrap gap-2 px-5 pb-4">
+                {SEGMENT_ORDER.map((s) => (
+                  <span key={s} className={cn("rounded-full px-3 py-1 text-xs font-bold", SEGMENT_COLORS[s])}>
+                    {labels?.[s] ?? s}: {c.segments[s]?.customers ?? 0} · {fmtMoney(c.segments[s]?.revenue ?? 0)}
+                  </span>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto border-t border-slate-200">
+                <table className="w-full min-w-[900px] text-sm">
+                  <thead className="bg-slate-100 border-b border-slate-200">
+                    <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                      <th className="px-4 py-3">Cliente</th>
+                      <th className="px-4 py-3">Cidade / UF</th>
+                      <th className="px-4 py-3 text-right">Pedidos</th>
+                      <th className="px-4 py-3 text-right">Faturamento</th>
+                      <th className="px-4 py-3">1ª compra</th>
+                      <th className="px-4 py-3">Última compra</th>
+                      <th className="px-4 py-3">RFM</th>
+                      <th className="px-4 py-3">Segmento</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {c.topCustomers.map((t) => (
+                      <tr key={t.customerId} className="hover:bg-slate-50">
+                        <td className="px-4 py-3 font-extrabold text-slate-900">
+                          #{t.customerId}
+                          <div className="text-[11px] font-semibold text-slate-400">{KEY_TYPE_LABELS[t.keyType] ?? t.keyType}</div>
+                        </td>
+                        <td className="px-4 py-3 text-slate-700">
+                          {[t.city, t.state].filter(Boolean).join(" / ") || "—"}
+                        </td>
+                        <td className="px-4 py-3 text-right text-slate-700">{t.orders}</td>
+                        <td className="px-4 py-3 text-right font-semibold text-slate-900">{fmtMoney(t.revenue)}</td>
+                        <td className="px-4 py-3 text-slate-700">{fmtDate(t.firstOrder)}</td>
+                        <td className="px-4 py-3 text-slate-700">
+                          {fmtDate(t.lastOrder)}
+                          <div className="text-[11px] text-slate-400">há {t.recencyDays} dia(s)</div>
+                        </td>
+                        <td className="px-4 py-3 font-mono text-xs font-bold text-slate-600">{t.score}</td>
+                        <td className="px-4 py-3">
+                          <span className={cn("rounded-full px-2 py-0.5 text-[11px] font-bold", SEGMENT_COLORS[t.segment])}>
+                            {labels?.[t.segment] ?? t.segment}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div>
+      <div className="text-[11px] font-bold tracking-widest uppercase text-slate-500">{label}</div>
+      <div className="mt-1 text-lg font-black text-slate-900 tabular-nums">{value}</div>
+      {hint && <div className="text-[11px] text-slate-400">{hint}</div>}
+    </div>
+  );
+}
@@ -42,6 +42,7 @@ interface DashboardData {
     name: string;
     shopee: number;
     tiktok: number;
+    mercadoLivre: number;
     trayAtacado: number;
     trayVarejo: number;
     total: number;
@@ -51,7 +52,7 @@ interface DashboardData {
 }
 
 type RangeKey = "7d" | "30d" | "90d";
-type BarMode = "total" | "shopee" | "tiktok" | "trayAtacado" | "trayVarejo";
+type BarMode = "total" | "shopee" | "tiktok" | "mercadoLivre" | "trayAtacado" | "trayVarejo";
 
 const ranges: { key: RangeKey; label: string }[] = [
   { key: "7d", label: "7 dias" },
@@ -62,6 +63,7 @@ const ranges: { key: RangeKey; label: string }[] = [
 const CHANNEL_COLORS: Record<string, string> = {
   shopee: "#FF6B35",
   tiktok: "#1F2937",
+  mercadoLivre: "#EAB308",
   tray: "#0EA5E9",
   trayAtacado: "#0369A1",
   trayVarejo: "#38BDF8",
@@ -195,11 +197,12 @@ export default function DashboardBI() {
     if (!data) return null;
     const shopee = data.byMonth.reduce((a, m) => a + (m.shopee || 0), 0);
     const tiktok = data.byMonth.reduce((a, m) => a + (m.tiktok || 0), 0);
+    const mercadoLivre = data.byMonth.reduce((a, m) => a + (m.mercadoLivre || 0), 0);
     const trayAtacado = data.byMonth.reduce((a, m) => a + (m.trayAtacado || 0), 0);
     const trayVarejo = data.byMonth.reduce((a, m) => a + (m.trayVarejo || 0), 0);
     const tray = trayAtacado + trayVarejo;
     const total = data.byMonth.reduce((a, m) => a + (m.total || 0), 0);
-    return { shopee, tiktok, trayAtacado, trayVarejo, tray, total };
+    return { shopee, tiktok, mercadoLivre, trayAtacado, trayVarejo, tray, total };
   }, [data]);
 
   if (loading) return <div className={cn(UI.bg, "min-h-screen flex items-center justify-center text-slate-500")}>Carregando...</div>;
@@ -256,7 +259,7 @@ export default function DashboardBI() {
           </div>
 
           {/* Mini resumo do período */}
-          <div className="mt-5 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+          <div className="mt-5 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
             <div className="rounded-xl bg-white/10 border border-white/15 px-4 py-3">
               <div className="text-xs text-white/80 font-semibold">Total no período</div>
               <div className="text-lg font-black">{totals ? formatMoney(totals.total) : "-"}</div>
@@ -269,6 +272,10 @@ export default function DashboardBI() {
               <div className="text-xs text-white/80 font-semibold">TikTok</div>
               <div className="text-lg font-black">{totals ? formatMoney(totals.tiktok) : "-"}</div>
             </div>
+            <div className="rounded-xl bg-white/10 border border-white/15 px-4 py-3">
+              <div className="text-xs text-white/80 font-semibold">Mercado Livre</div>
+              <div className="text-lg font-black">{totals ? formatMoney(totals.mercadoLivre) : "-"}</div>
+            </div>
             <div className="rounded-xl bg-white/10 border border-white/15 px-4 py-3">
               <div className="text-xs text-white/80 font-semibold">Atacado</div>
               <div className="text-lg font-black">{totals ? formatMoney(totals.trayAtacado) : "-"}</div>
@@ -321,6 +328,7 @@ export default function DashboardBI() {
                   { key: "total", label: "Total" },
                   { key: "shopee", label: "Shopee" },
                   { key: "tiktok", label: "TikTok" },
+                  { key: "mercadoLivre", label: "M. Livre" },
                   { key: "trayAtacado", label: "Tray Atac." },
                   { key: "trayVarejo", label: "Tray Var." },
                 ] as const).map((m) => (
@@ -367,7 +375,9 @@ export default function DashboardBI() {
                           ? "Shopee"
                           : barKey === "tiktok"
                             ? "TikTok"
-                            : barKey === "trayAtacado"
+                            : barKey === "mercadoLivre"
+                              ? "Mercado Livre"
+                              : barKey === "trayAtacado"
                               ? "Atacado"
                               : "Tray Varejo"
                     }
@@ -389,6 +399,7 @@ export default function DashboardBI() {
                       const colorMap: Record<string, string> = {
                         Shopee: CHANNEL_COLORS.shopee,
                         TikTok: CHANNEL_COLORS.tiktok,
+                        "Mercado Livre": CHANNEL_COLORS.mercadoLivre,
                         Tray: CHANNEL_COLORS.tray,
                         "Atacado": CHANNEL_COLORS.trayAtacado,
                         "Tray Varejo": CHANNEL_COLORS.trayVarejo,
@@ -427,6 +438,10 @@ export default function DashboardBI() {
                       <stop offset="5%" stopColor={CHANNEL_COLORS.tiktok} stopOpacity={0.18} />
                       <stop offset="95%" stopColor={CHANNEL_COLORS.tiktok} stopOpacity={0} />
                     </linearGradient>
+                    <linearGradient id="ml" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor={CHANNEL_COLORS.mercadoLivre} stopOpacity={0.2} />
+                      <stop offset="95%" stopColor={CHANNEL_COLORS.mercadoLivre} stopOpacity={0} />
+                    </linearGradient>
                     <linearGradient id="tra" x1="0" y1="0" x2="0" y2="1">
                       <stop offset="5%" stopColor={CHANNEL_COLORS.trayAtacado} stopOpacity={0.2} />
                       <stop offset="95%" stopColor={CHANNEL_COLORS.trayAtacado} stopOpacity={0} />
@@ -444,6 +459,7 @@ export default function DashboardBI() {
                       const labels: Record<string, string> = {
                         shopee: "Shopee",
                         tiktok: "TikTok",
+                        mercadoLivre: "Mercado Livre",
                         trayAtacado: "Atacado",
                         trayVarejo: "Tray Varejo",
                       };
@@ -452,6 +468,7 @@ export default function DashboardBI() {
                   />
                   <Area type="monotone" dataKey="shopee" stroke={CHANNEL_COLORS.shopee} strokeWidth={3} fill="url(#sh)" dot={false} />
                   <Area type="monotone" dataKey="tiktok" stroke={CHANNEL_COLORS.tiktok} strokeWidth={3} fill="url(#tt)" dot={false} />
+                  <Area type="monotone" dataKey="mercadoLivre" stroke={CHANNEL_COLORS.mercadoLivre} strokeWidth={2} fill="url(#ml)" dot={false} />
                   <Area type="monotone" dataKey="trayAtacado" stroke={CHANNEL_COLORS.trayAtacado} strokeWidth={2} fill="url(#tra)" dot={false} />
                   <Area type="monotone" dataKey="trayVarejo" stroke={CHANNEL_COLORS.trayVarejo} strokeWidth={2} fill="url(#trv)" dot={false} />
                 </AreaChart>
@@ -473,7 +490,7 @@ export default function DashboardBI() {
                           {p.channels?.map(ch => (
                             <span key={ch} className={cn(
                               "inline-flex items-center rounded-md px-1.5 py-0.5 text-[10px] font-extrabold text-white",
-                              ch === 'shopee' ? 'bg-orange-600' : ch === 'tiktok' ? 'bg-slate-800' :
+                              ch === 'shopee' ? 'bg-orange-600' : ch === 'tiktok' ? 'bg-slate-800' : ch === 'mercadolivre' ? 'bg-yellow-500' :
                               ch === 'atacado' ? 'bg-sky-900' : ch === 'tray_varejo' ? 'bg-sky-500' :
                               ch === 'tray' ? 'bg-sky-600' : 'bg-slate-500'
                             )}>{ch}</span>
@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from "react";
+
+import { API_URL } from "./config";
+import { parseApiJson } from "./api";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const UI = {
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+type ImportBatch = {
+  id: number;
+  kind: "orders" | "items";
+  source: string;
+  fileName: string;
+  fileHash: string;
+  status: "applied" | "rolled_back";
+  forced: boolean;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  rejectedCount: number;
+  createdAt: string;
+  rolledBackAt: string | null;
+  /** Linhas rejeitadas + com ressalva guardadas no lote. */
+  _count?: { rejections: number };
+};
+
+type ListResponse = {
+  total: number;
+  batches: ImportBatch[];
+  message?: string;
+};
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return d.toLocaleString("pt-BR");
+}
+
+/** Histórico de uploads (/api/upload e /api/upload-items) com opção de desfazer o lote. */
+export default function ImportBatches({
+  refreshKey,
+  onRolledBack,
+}: {
+  refreshKey?: number;
+  onRolledBack?: () => void;
+}): JSX.Element {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/api/import-batches?limit=20`);
+      const json = await parseApiJson<ListResponse>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao carregar histórico.");
+      setBatches(Array.isArray(json.batches) ? json.batches : []);
+      setTotal(json.total ?? 0);
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, refreshKey]);
+
+  async function rollback(batch: ImportBatch, force = false) {
+    if (
+      !force &&
+      !window.confirm(
+        `Desfazer o lote #${batch.id} (${batch.fileName || batch.source})?\n\nPedidos criados por ele serão removidos e os alterados voltam aos valores anteriores.`,
+      )
+    ) {
+      return;
+    }
+    setRollingBackId(batch.id);
+    setMessage("");
+    try {
+      const qs = force ? "?force=1" : "";
+      const res = await fetch(`${API_URL}/api/import-batches/${batch.id}/rollback${qs}`, { method: "POST" });
+      const json = await parseApiJson<{ message?: string; restored?: number; removed?: number }>(res);
+      if (res.status === 409 && !force) {
+        if (window.confirm(`${json.message}\n\nDesfazer mesmo assim?`)) {
+          await rollback(batch, true);
+        }
+        return;
+      }
+      if (!res.ok) throw new Error(json?.message || "Falha ao desfazer lote.");
+      setMessage(`${json.message} Restaurados: ${json.restored ?? 0}. Removidos: ${json.removed ?? 0}.`);
+      await fetchBatches();
+      onRolledBack?.();
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setRollingBackId(null);
+    }
+  }
+
+  return (
+    <div className={cn(UI.card, "overflow-hidden")}>
+      <div className="px-6 pt-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Histórico de importações</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            Últimos {batches.length} de {total} lote(s). Desfazer restaura os pedidos e itens ao estado anterior ao upload.
+          </p>
+        </div>
+        <button
+          onClick={fetchBatches}
+          className="rounded-xl bg-white px-4 py-2 text-sm font-extrabold text-slate-900 shadow-sm border border-slate-200 hover:bg-slate-50 transition"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      {message && (
+        <div className="mx-6 mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
+          {message}
+        </div>
+      )}
+
+      <div className="p-6">
+        {loading && batches.length === 0 ? (
+          <div className="text-sm text-slate-500">Carregando histórico...</div>
+        ) : batches.length === 0 ? (
+          <div className="text-sm text-slate-500">Nenhuma importação registrada.</div>
+        ) : (
+          <div className="max-h-[360px] overflow-auto rounded-2xl border border-slate-200 bg-white">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+                <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                  <th className="px-4 py-3">Lote</th>
+                  <th className="px-4 py-3">Data</th>
+                  <th className="px-4 py-3">Arquivo</th>
+                  <th className="px-4 py-3">Origem</th>
+                  <th className="px-4 py-3 text-right">Criados</th>
+                  <th className="px-4 py-3 text-right">Atualizados</th>
+                  <th className="px-4 py-3 text-right">Ignorados</th>
+                  <th className="px-4 py-3 text-right">Rejeitados</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {batches.map((b) => (
+                  <tr key={b.id} className={cn("hover:bg-slate-50", b.status === "rolled_back" && "opacity-60")}>
+                    <td className="px-4 py-3 font-extrabold text-slate-900">#{b.id}</td>
+                    <td className="px-4 py-3 text-slate-700">{fmtDateTime(b.createdAt)}</td>
+                    <td className="px-4 py-3 text-slate-700">
+                      <div className="max-w-[240px] truncate" title={b.fileName}>
+                        {b.fileName || "—"}
+                      </div>
+                      <div className="text-[11px] text-slate-400">
+                        {b.kind === "items" ? "itens" : "pedidos"}
+                        {b.forced ? " · reenvio forçado" : ""}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-slate-700">{b.source}</td>
+                    <td className="px-4 py-3 text-right text-slate-700">{b.createdCount}</td>
+                    <td className="px-4 py-3 text-right text-slate-700">{b.updatedCount}</td>
+                    <td className="px-4 py-3 text-right text-slate-700">{b.skippedCount}</td>
+                    <td className="px-4 py-3 text-right text-slate-700">
+                      {b.rejectedCount}
+                      {(b._count?.rejections ?? 0) > 0 && (
+                        <div className="text-[11px] font-bold">
+                          <a href={`${API_URL}/api/import-batches/${b.id}/rejections?format=csv`} className="text-sky-700 hover:underline">
+                            CSV
+                          </a>
+                          {" · "}
+                          <a href={`${API_URL}/api/import-batches/${b.id}/rejections?format=xlsx`} className="text-sky-700 hover:underline">
+                            XLSX
+                          </a>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {b.status === "rolled_back" ? (
+                        <span className="text-xs font-bold text-slate-500">
+                          Desfeito{b.rolledBackAt ? ` em ${fmtDateTime(b.rolledBackAt)}` : ""}
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => rollback(b)}
+                          disabled={rollingBackId != null}
+                          className="rounded-lg border border-rose-200 bg-white px-3 py-1 text-xs font-extrabold text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+                        >
+                          {rollingBackId === b.id ? "Desfazendo…" : "Desfazer"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React, { useState } from "react";
+import { cancelImportJob, type ImportJobState } from "./importJobs";
+
+/** Barra de progresso de uma importação em segundo plano, com botão de cancelar (até começar a gravar). */
+export default function ImportJobProgress({
+  job,
+  className,
+}: {
+  job: ImportJobState | null;
+  className?: string;
+}): JSX.Element | null {
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!job) return null;
+
+  const canCancel = (job.status === "queued" || job.status === "running") && job.phase !== "writing";
+
+  const cancel = async () => {
+    setCancelling(true);
+    setError("");
+    try {
+      await cancelImportJob(job.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-3 text-xs font-semibold text-slate-600">
+        <span>
+          {job.phaseLabel} · {job.progress}%
+        </span>
+        {canCancel && (
+          <button
+            type="button"
+            onClick={cancel}
+            disabled={cancelling}
+            className="rounded-lg border border-rose-200 bg-white px-2.5 py-1 font-extrabold text-rose-700 hover:bg-rose-50 disabled:opacity-50 transition"
+          >
+            {cancelling ? "Cancelando…" : "Cancelar"}
+          </button>
+        )}
+      </div>
+      <div className="mt-1.5 h-2 w-full overflow-hidden rounded-full bg-slate-200">
+        <div className="h-full rounded-full bg-slate-900 transition-all" style={{ width: `${job.progress}%` }} />
+      </div>
+      {error && <div className="mt-1 text-xs font-semibold text-rose-700">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+
+import { API_URL } from "./config";
+import { parseApiJson } from "./api";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const UI = {
+  bg: "bg-slate-50",
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+type LayoutField = {
+  field: string;
+  label: string;
+  builtin: string[];
+  aliases: string[];
+};
+
+type LayoutMapping = {
+  source: string;
+  label: string;
+  fields: LayoutField[];
+};
+
+type InspectHeader = {
+  header: string;
+  field: string | null;
+  via: "profile" | "builtin" | null;
+  sample: string;
+};
+
+type InspectResponse = {
+  source: string;
+  rows: number;
+  headers: InspectHeader[];
+  unmapped: string[];
+  missingFields: Array<{ field: string; label: string }>;
+  message?: string;
+};
+
+type Draft = Record<string, string[]>;
+
+function draftFromLayout(layout: LayoutMapping | undefined): Draft {
+  const out: Draft = {};
+  for (const f of layout?.fields ?? []) out[f.field] = [...f.aliases];
+  return out;
+}
+
+/** Configuração de aliases de cabeçalho por layout de planilha (consultados antes da lista fixa do import). */
+export default function ImportMappings(): JSX.Element {
+  const [layouts, setLayouts] = useState<LayoutMapping[]>([]);
+  const [source, setSource] = useState("shopee");
+  const [draft, setDraft] = useState<Draft>({});
+  const [file, setFile] = useState<File | null>(null);
+  const [inspect, setInspect] = useState<InspectResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const layout = useMemo(() => layouts.find((l) => l.source === source), [layouts, source]);
+  const fieldLabel = useCallback(
+    (field: string | null) => layout?.fields.find((f) => f.field === field)?.label ?? field ?? "",
+    [layout],
+  );
+
+  const fetchLayouts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/api/import-mappings`);
+      const json = await parseApiJson<LayoutMapping[] & { message?: string }>(res);
+      if (!res.ok) throw new Error((json as { message?: string })?.message || "Falha ao carregar mapeamentos.");
+      setLayouts(Array.isArray(json) ? json : []);
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLayouts();
+  }, [fetchLayouts]);
+
+  useEffect(() => {
+    setDraft(draftFromLayout(layout));
+  }, [layout]);
+
+  /** Header atribuído no rascunho (perfil), se houver. */
+  function draftFieldFor(header: string): string | null {
+    for (const [field, aliases] of Object.entries(draft)) {
+      if (aliases.includes(header)) return field;
+    }
+    return null;
+  }
+
+  function assignHeader(header: string, field: string) {
+    setDraft((prev) => {
+      const next: Draft = {};
+      for (const [f, aliases] of Object.entries(prev)) next[f] = aliases.filter((a) => a !== header);
+      if (field) next[field] = [...(next[field] ?? []), header];
+      return next;
+    });
+  }
+
+  function removeAlias(field: string, alias: string) {
+    setDraft((prev) => ({ ...prev, [field]: (prev[field] ?? []).filter((a) => a !== alias) }));
+  }
+
+  async function analyze() {
+    if (!file) return;
+    setLoading(true);
+    setMessage("");
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`${API_URL}/api/import-mappings/${source}/inspect`, { method: "POST", body: formData });
+      const json = await parseApiJson<InspectResponse>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao analisar arquivo.");
+      setInspect(json);
+    } catch (e: any) {
+      setInspect(null);
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function save() {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await fetch(`${API_URL}/api/import-mappings/${source}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mappings: draft }),
+      });
+      const json = await parseApiJson<LayoutMapping & { message?: string }>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao salvar.");
+      setLayouts((prev) => prev.map((l) => (l.source === json.source ? json : l)));
+      setMessage("Mapeamento salvo. Os próximos uploads já usam os novos cabeçalhos.");
+      if (file) await analyze();
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(draftFromLayout(layout));
+
+  return (
+    <div className={cn(UI.bg, "min-h-screen")}>
+      <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+        <div className={cn(UI.card, "p-6")}>
+          <h2 className="text-lg font-black tracking-tight text-slate-900">Mapeamento de colunas das planilhas</h2>
+          <p className="mt-2 text-sm text-slate-600 leading-relaxed">
+            Quando Shopee, TikTok, Mercado Livre, Tray ou Nuvemshop renomeiam uma coluna, envie o arquivo novo aqui, veja os cabeçalhos
+            que o sistema não reconhece e atribua cada um ao campo correspondente. Os aliases salvos são consultados
+            antes da lista padrão em todos os uploads.
+          </p>
+
+          <div className="mt-5 grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+            <div className="md:col-span-4">
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Layout</label>
+              <select
+                value={source}
+                onChange={(e) => {
+                  setSource(e.target.value);
+                  setInspect(null);
+                }}
+                className="mt-2 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+              >
+                {layouts.map((l) => (
+                  <option key={l.source} value={l.source}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-5">
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Arquivo de exemplo</label>
+              <input
+                type="file"
+                accept=".csv, .xlsx, .xls"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setInspect(null);
+                }}
+                className="mt-2 block w-full text-sm text-slate-700 file:mr-4 file:rounded-xl file:border-0 file:bg-slate-100 file:px-4 file:py-2 file:text-sm file:font-extrabold file:text-slate-900 hover:file:bg-slate-200"
+              />
+            </div>
+            <div className="md:col-span-3">
+              <button
+                type="button"
+                onClick={analyze}
+                disabled={!file || loading}
+                className={cn(
+                  "w-full rounded-xl px-4 py-2 text-sm font-extrabold shadow-sm transition",
+                  file && !loading ? "bg-slate-900 text-white hover:bg-slate-800" : "bg-slate-200 text-slate-500 cursor-not-allowed",
+                )}
+              >
+                {loading ? "Analisando…" : "Analisar cabeçalhos"}
+              </button>
+            </div>
+          </div>
+
+          {message && (
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-700">
+              {message}
+            </div>
+          )}
+        </div>
+
+        {inspect && (
+          <div className={cn(UI.card, "overflow-hidden")}>
+            <div className="px-6 pt-6">
+              <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Cabeçalhos do arquivo</h3>
+              <p className="mt-1 text-xs text-slate-500">
+                {inspect.rows} linha(s) · {inspect.unmapped.length} cabeçalho(s) não mapeado(s)
+                {inspect.missingFields.length > 0
+                  ? ` · campos sem coluna: ${inspect.missingFields.map((f) => f.label).join(", ")}`
+                  : ""}
+              </p>
+            </div>
+            <div className="p-6">
+              <div className="max-h-[480px] overflow-auto rounded-2xl border border-slate-200 bg-white">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+                    <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                      <th className="px-4 py-3">Cabeçalho</th>
+                      <th className="px-4 py-3">Exemplo</th>
+                      <th className="px-4 py-3">Campo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {[...inspect.headers]
+                      .sort((a, b) => Number(Boolean(a.field)) - Number(Boolean(b.field)))
+                      .map((h) => {
+                        const assigned = draftFieldFor(h.header);
+                        const builtin = h.via === "builtin" ? h.field : null;
+                        return (
+                          <tr key={h.header} className={cn(!h.field && !assigned && "bg-amber-50/60")}>
+                            <td className="px-4 py-2 font-bold text-slate-900">{h.header}</td>
+                            <td className="px-4 py-2 text-xs text-slate-500">
+                              <div className="max-w-[260px] truncate" title={h.sample}>
+                                {h.sample || "—"}
+                              </div>
+                            </td>
+                            <td className="px-4 py-2">
+                              {builtin && !assigned ? (
+                                <span className="text-xs font-semibold text-slate-500">{fieldLabel(builtin)} (padrão)</span>
+                              ) : (
+                                <select
+                                  value={assigned ?? ""}
+                                  onChange={(e) => assignHeader(h.header, e.target.value)}
+                                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-900"
+                                >
+                                  <option value="">Não mapeado</option>
+                                  {layout?.fields.map((f) => (
+                                    <option key={f.field} value={f.field}>
+                                      {f.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className={cn(UI.card, "overflow-hidden")}>
+          <div className="px-6 pt-6 flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Campos — {layout?.label ?? source}</h3>
+              <p className="mt-1 text-xs text-slate-500">Aliases do usuário vêm antes dos cabeçalhos padrão.</p>
+            </div>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!dirty || saving}
+              className={cn(
+                "rounded-xl px-4 py-2 text-sm font-extrabold shadow-sm transition",
+                dirty && !saving ? "bg-slate-900 text-white hover:bg-slate-800" : "bg-slate-200 text-slate-500 cursor-not-allowed",
+              )}
+            >
+              {saving ? "Salvando…" : "Salvar mapeamento"}
+            </button>
+          </div>
+          <div className="p-6">
+            <div className="rounded-2xl border border-slate-200 bg-white divide-y divide-slate-100">
+              {(layout?.fields ?? []).map((f) => (
+                <div key={f.field} className="px-4 py-3 grid grid-cols-1 md:grid-cols-12 gap-2">
+                  <div className="md:col-span-3 text-sm font-extrabold text-slate-900">{f.label}</div>
+                  <div className="md:col-span-4 flex flex-wrap gap-1">
+                    {(draft[f.field] ?? []).length === 0 ? (
+                      <span className="text-xs text-slate-400">sem alias</span>
+                    ) : (
+                      (draft[f.field] ?? []).map((a) => (
+                        <span
+                          key={a}
+                          className="inline-flex items-center gap-1 rounded-lg bg-sky-100 px-2 py-0.5 text-xs font-bold text-sky-800"
+                        >
+                          {a}
+                          <button
+                            type="button"
+                            onClick={() => removeAlias(f.field, a)}
+                            className="text-sky-600 hover:text-sky-900"
+                            aria-label={`Remover ${a}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))
+                    )}
+                  </div>
+                  <div className="md:col-span-5 text-xs text-slate-500">{f.builtin.join(" · ")}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import React from "react";
+import RejectedRowsDownload, { type RejectedRowData } from "./RejectedRowsDownload";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+type ProductRef = {
+  id: number | null;
+  code: string;
+  name: string;
+  masterProductId: number | null;
+};
+
+export type ImportPreviewData = {
+  preview: true;
+  source: string;
+  fileName: string;
+  duplicateBatch: { id: number; fileName: string; createdAt: string } | null;
+  duplicateMessage: string | null;
+  summary: {
+    newOrders: number;
+    changedOrders: number;
+    unchangedOrders: number;
+    overwritesIncomeFees: number;
+    newItems: number;
+    itemMappingChanges: number;
+    deletedOrders: number;
+    rejectedRows: number;
+    warningRows: number;
+  };
+  newOrders: Array<{ orderId: string; source: string; orderDate: string; status: string; totalPrice: number }>;
+  changedOrders: Array<{
+    orderId: string;
+    source: string;
+    changes: Array<{ field: string; old: unknown; new: unknown }>;
+    overwritesIncomeFees: boolean;
+  }>;
+  itemMappingChanges: Array<{
+    orderId: string;
+    source: string;
+    productCode: string;
+    name: string;
+    oldProduct: ProductRef | null;
+    newProduct: ProductRef & { isNew: boolean };
+  }>;
+  deletedOrders: Array<{ orderId: string; source: string; totalPrice: number; status: string }>;
+  rejectedRows: RejectedRowData[];
+};
+
+/** Máximo de linhas por tabela do diff (o resumo mostra o total). */
+const MAX_ROWS = 200;
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  totalPrice: "Total",
+  commissionFee: "Comissão",
+  serviceFee: "Taxa de serviço",
+  freight: "Frete",
+  paymentType: "Pagamento",
+  paymentId: "ID pagamento",
+};
+
+const MONEY_FIELDS = new Set(["totalPrice", "commissionFee", "serviceFee", "freight"]);
+
+function fmtMoney(v: number) {
+  return Number(v || 0).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtValue(field: string, v: unknown) {
+  if (v === null || v === undefined || v === "") return "—";
+  if (MONEY_FIELDS.has(field) && typeof v === "number") return fmtMoney(v);
+  return String(v);
+}
+
+function fmtDate(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString("pt-BR");
+}
+
+function rowValuesPreview(values: Record<string, unknown>) {
+  return Object.entries(values)
+    .filter(([, v]) => v !== null && v !== undefined && String(v).trim() !== "")
+    .slice(0, 4)
+    .map(([k, v]) => `${k}: ${String(v)}`)
+    .join(" · ");
+}
+
+function Section({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  if (count === 0) return null;
+  return (
+    <div className="mt-5">
+      <h4 className="text-xs font-extrabold tracking-widest uppercase text-slate-500">
+        {title} ({count}){count > MAX_ROWS ? ` — exibindo ${MAX_ROWS}` : ""}
+      </h4>
+      <div className="mt-2 max-h-[280px] overflow-auto rounded-2xl border border-slate-200 bg-white">{children}</div>
+    </div>
+  );
+}
+
+/** Diff do upload em modo preview (nada gravado ainda), com confirmar/cancelar. */
+export default function ImportPreviewPanel({
+  preview,
+  onConfirm,
+  onCancel,
+}: {
+  preview: ImportPreviewData;
+  onConfirm: () => void;
+  onCancel: () => void;
+}): JSX.Element {
+  const s = preview.summary;
+  const nothingToDo = s.newOrders + s.changedOrders + s.newItems + s.itemMappingChanges + s.deletedOrders === 0;
+
+  return (
+    <div className="mt-5 rounded-2xl border border-sky-200 bg-sky-50/60 p-5">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h3 className="text-sm font-extrabold tracking-wide text-slate-900">
+            Pré-visualização — {preview.fileName || preview.source}
+          </h3>
+          <p className="mt-1 text-xs text-slate-600">Nada foi gravado. Revise as diferenças e confirme a importação.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl bg-white px-4 py-2 text-sm font-extrabold text-slate-900 shadow-sm border border-slate-200 hover:bg-slate-50 transition"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={nothingToDo}
+            className={cn(
+              "rounded-xl px-4 py-2 text-sm font-extrabold shadow-sm transition",
+              nothingToDo ? "bg-slate-200 text-slate-500 cursor-not-allowed" : "bg-slate-900 text-white hover:bg-slate-800",
+            )}
+          >
+            Confirmar importação
+          </button>
+        </div>
+      </div>
+
+      {preview.duplicateMessage && (
+        <div className="mt-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm font-semibold text-amber-800">
+          {preview.duplicateMessage}
+        </div>
+      )}
+      {s.overwritesIncomeFees > 0 && (
+        <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-semibold text-rose-800">
+          {s.overwritesIncomeFees} pedido(s) já conciliados por relatório de income teriam as taxas sobrescritas.
+        </div>
+      )}
+
+      <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-6">
+        {[
+          ["Novos pedidos", s.newOrders],
+          ["Pedidos alterados", s.changedOrders],
+          ["Sem mudança", s.unchangedOrders],
+          ["Vínculo de produto", s.itemMappingChanges],
+          ["Pedidos removidos", s.deletedOrders],
+          ["Linhas rejeitadas", s.rejectedRows],
+        ].map(([label, value]) => (
+          <div key={String(label)} className="rounded-xl border border-slate-200 bg-white px-3 py-2">
+            <div className="text-[11px] font-bold uppercase tracking-wider text-slate-400">{label}</div>
+            <div className="text-lg font-black text-slate-900">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <Section title="Pedidos alterados" count={preview.changedOrders.length}>
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+            <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+              <th className="px-4 py-2">Pedido</th>
+              <th className="px-4 py-2">Campo</th>
+              <th className="px-4 py-2">Atual</th>
+              <th className="px-4 py-2">Novo</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {preview.changedOrders.slice(0, MAX_ROWS).flatMap((o) =>
+              o.changes.map((c, i) => (
+                <tr key={`${o.source}-${o.orderId}-${c.field}`} className={cn(o.overwritesIncomeFees && "bg-rose-50/50")}>
+                  <td className="px-4 py-2 font-extrabold text-slate-900">
+                    {i === 0 ? (
+                      <>
+                        {o.orderId}
+                        <span className="ml-1 text-[11px] font-semibold text-slate-400">{o.source}</span>
+                      </>
+                    ) : null}
+                  </td>
+                  <td className="px-4 py-2 text-slate-700">{FIELD_LABELS[c.field] ?? c.field}</td>
+                  <td className="px-4 py-2 text-slate-500 line-through">{fmtValue(c.field, c.old)}</td>
+                  <td className="px-4 py-2 font-bold text-slate-900">{fmtValue(c.field, c.new)}</td>
+                </tr>
+              )),
+            )}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="Novos pedidos" count={preview.newOrders.length}>
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+            <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+              <th className="px-4 py-2">Pedido</th>
+              <th className="px-4 py-2">Data</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {preview.newOrders.slice(0, MAX_ROWS).map((o) => (
+              <tr key={`${o.source}-${o.orderId}`}>
+                <td className="px-4 py-2 font-extrabold text-slate-900">{o.orderId}</td>
+                <td className="px-4 py-2 text-slate-700">{fmtDate(o.orderDate)}</td>
+                <td className="px-4 py-2 text-slate-700">{o.status}</td>
+                <td className="px-4 py-2 text-right font-bold text-slate-900">{fmtMoney(o.totalPrice)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="Itens com vínculo de produto alterado" count={preview.itemMappingChanges.length}>
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+            <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+              <th className="px-4 py-2">Pedido</th>
+              <th className="px-4 py-2">Item</th>
+              <th className="px-4 py-2">Produto atual</th>
+              <th className="px-4 py-2">Novo produto</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {preview.itemMappingChanges.slice(0, MAX_ROWS).map((it) => (
+              <tr key={`${it.source}-${it.orderId}-${it.productCode}`}>
+                <td className="px-4 py-2 font-extrabold text-slate-900">{it.orderId}</td>
+                <td className="px-4 py-2 text-slate-700">{it.name}</td>
+                <td className="px-4 py-2 text-slate-500">
+                  {it.oldProduct ? `${it.oldProduct.code} — ${it.oldProduct.name}` : "sem vínculo"}
+                </td>
+                <td className="px-4 py-2 font-bold text-slate-900">
+                  {it.newProduct.code}
+                  {it.newProduct.isNew ? (
+                    <span className="ml-2 rounded-md bg-emerald-100 px-1.5 py-0.5 text-[11px] font-extrabold text-emerald-700">
+                      novo
+                    </span>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="Pedidos removidos (Tray legado duplicado)" count={preview.deletedOrders.length}>
+        <table className="w-full text-sm">
+          <tbody className="divide-y divide-slate-100">
+            {preview.deletedOrders.slice(0, MAX_ROWS).map((o) => (
+              <tr key={`${o.source}-${o.orderId}`}>
+                <td className="px-4 py-2 font-extrabold text-slate-900">{o.orderId}</td>
+                <td className="px-4 py-2 text-slate-700">{o.source}</td>
+                <td className="px-4 py-2 text-slate-700">{o.status}</td>
+                <td className="px-4 py-2 text-right font-bold text-slate-900">{fmtMoney(o.totalPrice)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      {preview.rejectedRows.length > 0 && <RejectedRowsDownload className="mt-5" rows={preview.rejectedRows} />}
+      <Section title="Linhas rejeitadas / com ressalva" count={preview.rejectedRows.length}>
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-100 border-b border-slate-200">
+            <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+              <th className="px-4 py-2">Linha</th>
+              <th className="px-4 py-2">Motivo</th>
+              <th className="px-4 py-2">Valores</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {preview.rejectedRows.slice(0, MAX_ROWS).map((r) => (
+              <tr key={`${r.rowNumber}-${r.code}`}>
+                <td className="px-4 py-2 font-extrabold text-slate-900">{r.rowNumber}</td>
+                <td className={cn("px-4 py-2 font-semibold", r.severity === "warning" ? "text-amber-700" : "text-rose-700")}>
+                  {r.reason}
+                  {r.severity === "warning" && <span className="ml-1 text-[11px] font-bold text-amber-600">(importada)</span>}
+                </td>
+                <td className="px-4 py-2 text-xs text-slate-500">{rowValuesPreview(r.values)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { CalendarClock, CheckCircle2, History, Loader2, Play, Save, XCircle } from "lucide-react";
+
+import { API_URL } from "./config";
+
+const UI = {
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+type SyncRun = {
+  id: number;
+  integration: string;
+  trigger: "schedule" | "manual";
+  status: "running" | "succeeded" | "partial" | "failed";
+  windowFrom: string | null;
+  windowTo: string | null;
+  fetched: number;
+  synced: number;
+  failed: number;
+  errors: string[] | null;
+  message: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+type SyncSchedule = {
+  integration: string;
+  label: string;
+  configured: boolean;
+  connected: boolean;
+  cron: string;
+  nextRunAt: string | null;
+  lastSyncAt: string | null;
+  nextWindowFrom: string | null;
+  running: boolean;
+  lastRun: SyncRun | null;
+};
+
+const RUN_STATUS: Record<SyncRun["status"], { label: string; color: string }> = {
+  running: { label: "Rodando", color: "text-sky-700 bg-sky-50" },
+  succeeded: { label: "OK", color: "text-emerald-700 bg-emerald-50" },
+  partial: { label: "Parcial", color: "text-amber-700 bg-amber-50" },
+  failed: { label: "Falhou", color: "text-red-700 bg-red-50" },
+};
+
+const CRON_PRESETS = [
+  { value: "", label: "Desativado (só manual)" },
+  { value: "0 * * * *", label: "A cada hora" },
+  { value: "0 */2 * * *", label: "A cada 2 horas" },
+  { value: "0 */6 * * *", label: "A cada 6 horas" },
+  { value: "0 6 * * *", label: "Diário às 06:00" },
+];
+
+function fmtDateTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("pt-BR") : "—";
+}
+
+/** Agendamento (cron) e histórico de execuções das sincronizações automáticas. */
+export default function IntegrationSyncSchedules() {
+  const [schedules, setSchedules] = useState<SyncSchedule[]>([]);
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [cronDraft, setCronDraft] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [sRes, rRes] = await Promise.all([
+        fetch(`${API_URL}/api/sync-schedules`),
+        fetch(`${API_URL}/api/sync-runs?limit=50`),
+      ]);
+      const sData = await sRes.json();
+      const rData = await rRes.json();
+      if (!sRes.ok) throw new Error(sData?.message || "Erro ao carregar agendamentos.");
+      if (!rRes.ok) throw new Error(rData?.message || "Erro ao carregar histórico.");
+      setSchedules(sData as SyncSchedule[]);
+      setRuns(rData as SyncRun[]);
+      setCronDraft((prev) => {
+        const next = { ...prev };
+        for (const s of sData as SyncSchedule[]) if (next[s.integration] === undefined) next[s.integration] = s.cron;
+        return next;
+      });
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  // Enquanto alguma execução estiver rodando, atualiza o histórico
+  const anyRunning = schedules.some((s) => s.running) || runs.some((r) => r.status === "running");
+  useEffect(() => {
+    if (!anyRunning) return;
+    const t = setInterval(fetchAll, 3000);
+    return () => clearInterval(t);
+  }, [anyRunning, fetchAll]);
+
+  const saveCron = async (integration: string) => {
+    setBusy(integration);
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_URL}/api/sync-schedules/${integration}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cron: cronDraft[integration] ?? "" }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao salvar agendamento.");
+      setMessage({ type: "success", text: data.cron ? "Agendamento salvo." : "Sincronização automática desativada." });
+      await fetchAll();
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runNow = async (integration: string) => {
+    setBusy(integration);
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_URL}/api/sync-schedules/${integration}/run`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao iniciar sincronização.");
+      setMessage({ type: "success", text: data.message || "Sincronização iniciada." });
+      await fetchAll();
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const labelOf = (integration: string) => schedules.find((s) => s.integration === integration)?.label ?? integration;
+
+  return (
+    <>
+      <div className={cn(UI.card, "p-6")}>
+        <h3 className="text-sm font-extrabold tracking-wide text-slate-900 flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-slate-400" />
+          Sincronização automática
+        </h3>
+        <p className="mt-1 text-xs text-slate-500">
+          Cada integração conectada roda no horário do cron (minuto hora dia mês dia-da-semana, horário do servidor),
+          buscando desde a última sincronização com uma margem de sobreposição. O token é renovado antes de expirar.
+        </p>
+
+        {message && (
+          <div
+            className={cn(
+              "mt-4 rounded-xl border px-4 py-3 text-sm font-semibold flex items-center gap-2",
+              message.type === "success"
+                ? "bg-emerald-50 border-emerald-200 text-emerald-800"
+                : "bg-red-50 border-red-200 text-red-800"
+            )}
+          >
+            {message.type === "success" ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {message.text}
+          </div>
+        )}
+
+        <div className="mt-4 space-y-3">
+          {schedules.map((s) => (
+            <div key={s.integration} className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm font-bold text-slate-900">{s.label}</div>
+                <div className="text-xs text-slate-500">
+                  {!s.configured
+                    ? "Não configurada"
+                    : !s.connected
+                      ? "Desconectada"
+                      : s.running
+                        ? "Sincronizando…"
+                        : `Próxima: ${s.nextRunAt ? fmtDateTime(s.nextRunAt) : "—"} · Última: ${fmtDateTime(s.lastSyncAt)}`}
+                </div>
+              </div>
+              {s.configured && (
+                <div className="mt-3 flex flex-wrap items-end gap-3">
+                  <div>
+                    <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Cron</label>
+                    <input
+                      type="text"
+                      value={cronDraft[s.integration] ?? ""}
+                      onChange={(e) => setCronDraft((d) => ({ ...d, [s.integration]: e.target.value }))}
+                      placeholder="0 */2 * * *"
+                      className="mt-2 w-40 rounded-xl border border-slate-200 bg-white px-3 py-2 font-mono text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+                    />
+                  </div>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const preset = CRON_PRESETS[Number(e.target.value)];
+                      if (preset) setCronDraft((d) => ({ ...d, [s.integration]: preset.value }));
+                    }}
+                    className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm"
+                  >
+                    <option value="">Sugestões…</option>
+                    {CRON_PRESETS.map((p, i) => (
+                      <option key={p.label} value={i}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => saveCron(s.integration)}
+                    disabled={busy !== null || (cronDraft[s.integration] ?? "") === s.cron}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-extrabold shadow-sm hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-500 transition"
+                  >
+                    <Save className="w-4 h-4" />
+                    Salvar
+                  </button>
+                  <button
+                    onClick={() => runNow(s.integration)}
+                    disabled={busy !== null || !s.connected || s.running}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm font-extrabold shadow-sm hover:bg-emerald-700 disabled:bg-slate-200 disabled:text-slate-500 transition"
+                  >
+                    {s.running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                    Rodar agora
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className={cn(UI.card, "p-6")}>
+        <h3 className="text-sm font-extrabold tracking-wide text-slate-900 flex items-center gap-2">
+          <History className="w-4 h-4 text-slate-400" />
+          Histórico de sincronizações
+        </h3>
+        {runs.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-500">Nenhuma execução registrada ainda.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm min-w-[720px]">
+              <thead>
+                <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                  <th className="pb-2 pr-3">Início</th>
+                  <th className="pb-2 pr-3">Integração</th>
+                  <th className="pb-2 pr-3">Origem</th>
+                  <th className="pb-2 pr-3">Janela</th>
+                  <th className="pb-2 pr-3">Status</th>
+                  <th className="pb-2 pr-3 text-right">Gravados</th>
+                  <th className="pb-2 text-right">Falhas</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {runs.map((r) => {
+                  const st = RUN_STATUS[r.status] ?? RUN_STATUS.failed;
+                  const hasDetails = !!r.message || (r.errors?.length ?? 0) > 0;
+                  return (
+                    <React.Fragment key={r.id}>
+                      <tr
+                        className={cn(hasDetails && "cursor-pointer hover:bg-slate-50")}
+                        onClick={() => hasDetails && setExpandedRunId(expandedRunId === r.id ? null : r.id)}
+                      >
+                        <td className="py-2 pr-3 whitespace-nowrap">{fmtDateTime(r.startedAt)}</td>
+                        <td className="py-2 pr-3">{labelOf(r.integration)}</td>
+                        <td className="py-2 pr-3">{r.trigger === "schedule" ? "Agendada" : "Manual"}</td>
+                        <td className="py-2 pr-3 text-xs text-slate-500 whitespace-nowrap">
+                          {r.windowFrom ? `${fmtDateTime(r.windowFrom)} → ${fmtDateTime(r.windowTo)}` : "—"}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <span className={cn("rounded-lg px-2 py-0.5 text-xs font-bold", st.color)}>{st.label}</span>
+                        </td>
+                        <td className="py-2 pr-3 text-right tabular-nums">
+                          {r.synced}/{r.fetched}
+                        </td>
+                        <td className={cn("py-2 text-right tabular-nums", r.failed > 0 && "font-bold text-red-700")}>
+                          {r.failed}
+                        </td>
+                      </tr>
+                      {expandedRunId === r.id && (
+                        <tr>
+                          <td colSpan={7} className="pb-3 text-xs text-slate-600">
+                            {r.message && <div className="font-semibold">{r.message}</div>}
+                            {(r.errors ?? []).map((err, i) => (
+                              <div key={i} className="font-mono text-red-700">
+                                {err}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
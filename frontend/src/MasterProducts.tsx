@@ -52,6 +52,7 @@ function channelBadgeClass(src: string | null) {
   const s = (src || "").toLowerCase();
   if (s.includes("shopee")) return "bg-orange-600 text-white";
   if (s.includes("tiktok")) return "bg-slate-800 text-white";
+  if (s.includes("mercadolivre")) return "bg-yellow-300 text-slate-900";
   if (s.includes("tray")) return "bg-indigo-700 text-white";
   return "bg-slate-200 text-slate-700";
 }
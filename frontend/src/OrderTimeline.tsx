@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { API_URL } from "./config";
+
+type OrderFieldChange = { field: string; old: unknown; new: unknown };
+
+type OrderStatusEvent = {
+  id: number;
+  status: string;
+  previousStatus: string | null;
+  changes: OrderFieldChange[];
+  origin: string;
+  detail: string;
+  createdAt: string;
+};
+
+type LeadTimes = Record<"shipped" | "delivered" | "completed" | "cancelled" | "returned", number | null>;
+
+const ORIGIN_LABELS: Record<string, string> = {
+  import: "Planilha",
+  api: "API",
+  manual: "Manual",
+  settlement: "Liquidação",
+  returns: "Devolução",
+  revert: "Lote desfeito",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  totalPrice: "Total",
+  commissionFee: "Comissão",
+  serviceFee: "Taxa de serviço",
+  easyReturnFee: "Devolução Fácil",
+  autoRechargeFee: "Recarga automática",
+  partnerCommission: "Afiliados",
+  settlementAmount: "Liquidado",
+  estimatedSettlementAmount: "Previsto (onhold)",
+  freight: "Frete",
+  refundedAmount: "Reembolso parcial",
+};
+
+const LEAD_TIME_LABELS: Array<[keyof LeadTimes, string]> = [
+  ["shipped", "Pedido → enviado"],
+  ["delivered", "Pedido → entregue"],
+  ["completed", "Pedido → concluído"],
+  ["cancelled", "Pedido → cancelado"],
+  ["returned", "Pedido → devolvido"],
+];
+
+function fmtValue(field: string, v: unknown) {
+  if (v === null || v === undefined || v === "") return "—";
+  if (field !== "status" && typeof v === "number") {
+    return v.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+  }
+  return String(v);
+}
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return d.toLocaleString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+/** Linha do tempo do pedido (GET /api/orders/:orderId/:source/history) com prazos até cada marco. */
+export default function OrderTimeline({ orderId, source }: { orderId: string; source: string }) {
+  const [events, setEvents] = useState<OrderStatusEvent[] | null>(null);
+  const [leadTimes, setLeadTimes] = useState<LeadTimes | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setEvents(null);
+    setError("");
+    fetch(`${API_URL}/api/orders/${encodeURIComponent(orderId)}/${encodeURIComponent(source)}/history`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.message || "Falha ao carregar histórico.");
+        if (cancelled) return;
+        setEvents(Array.isArray(json.events) ? json.events : []);
+        setLeadTimes(json.leadTimes ?? null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Erro ao carregar histórico.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, source]);
+
+  if (error) return <div className="text-xs font-semibold text-red-600">{error}</div>;
+  if (!events) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" /> Carregando histórico...
+      </div>
+    );
+  }
+
+  const leadTimeItems = LEAD_TIME_LABELS.filter(([k]) => leadTimes?.[k] != null);
+
+  return (
+    <div className="space-y-3">
+      {leadTimeItems.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {leadTimeItems.map(([k, label]) => (
+            <span key={k} className="rounded-full bg-sky-50 px-2.5 py-1 text-[11px] font-bold text-sky-800">
+              {label}: {leadTimes![k]!.toLocaleString("pt-BR")} dia(s)
+            </span>
+          ))}
+        </div>
+      )}
+      {events.length === 0 ? (
+        <div className="text-xs text-slate-500">Nenhuma alteração registrada para este pedido.</div>
+      ) : (
+        <ol className="relative ml-1.5 border-l border-slate-200 space-y-3">
+          {events.map((e) => (
+            <li key={e.id} className="ml-4">
+              <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-slate-400" />
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="font-extrabold text-slate-900">
+                  {e.previousStatus === null ? "Criado" : e.status !== e.previousStatus ? e.status || "(sem status)" : "Valores"}
+                </span>
+                <span className="text-slate-500 tabular-nums">{fmtDateTime(e.createdAt)}</span>
+                <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-extrabold uppercase text-slate-600">
+                  {ORIGIN_LABELS[e.origin] ?? e.origin}
+                </span>
+                {e.detail && <span className="text-slate-500 truncate max-w-[280px]" title={e.detail}>{e.detail}</span>}
+              </div>
+              <ul className="mt-1 space-y-0.5 text-[11px] text-slate-600">
+                {(e.changes ?? []).map((c) => (
+                  <li key={c.field}>
+                    <span className="font-semibold">{FIELD_LABELS[c.field] ?? c.field}:</span>{" "}
+                    {e.previousStatus === null ? (
+                      fmtValue(c.field, c.new)
+                    ) : (
+                      <>
+                        {fmtValue(c.field, c.old)} → {fmtValue(c.field, c.new)}
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
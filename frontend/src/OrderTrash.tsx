@@ -0,0 +1,276 @@
+import React, { useCallback, useEffect, useState } from "react";
+
+import { API_URL } from "./config";
+import { parseApiJson } from "./api";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const UI = {
+  bg: "bg-slate-50",
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+type OrderDeletion = {
+  id: number;
+  kind: "orders" | "items";
+  source: string;
+  filter: { source?: string; from?: string | null; to?: string | null };
+  deletedBy: string;
+  orderCount: number;
+  itemCount: number;
+  returnCount: number;
+  status: "trashed" | "restored" | "purged";
+  createdAt: string;
+  restoredAt: string | null;
+  purgedAt: string | null;
+  expiresAt: string | null;
+};
+
+type ListResponse = {
+  retentionDays: number;
+  deletions: OrderDeletion[];
+  message?: string;
+};
+
+const STATUS_LABELS: Record<OrderDeletion["status"], string> = {
+  trashed: "Na lixeira",
+  restored: "Restaurada",
+  purged: "Apagada",
+};
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return d.toLocaleString("pt-BR");
+}
+
+function filterLabel(d: OrderDeletion) {
+  const f = d.filter || {};
+  if (!f.from) return d.kind === "items" ? "todos os itens" : "todo o período";
+  return f.to && f.to !== f.from ? `${f.from} → ${f.to}` : f.from;
+}
+
+/** Exclusões de pedidos/itens (DELETE /api/orders, /api/order-items): restaurar, apagar de vez e retenção. */
+export default function OrderTrash(): JSX.Element {
+  const [deletions, setDeletions] = useState<OrderDeletion[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [retentionInput, setRetentionInput] = useState("30");
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/api/order-trash?status=${showAll ? "all" : "trashed"}`);
+      const json = await parseApiJson<ListResponse>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao carregar lixeira.");
+      setDeletions(Array.isArray(json.deletions) ? json.deletions : []);
+      setRetentionDays(json.retentionDays ?? 30);
+      setRetentionInput(String(json.retentionDays ?? 30));
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  async function restore(d: OrderDeletion) {
+    if (!window.confirm(`Restaurar a exclusão #${d.id} (${d.source}, ${filterLabel(d)})?`)) return;
+    setBusyId(d.id);
+    setMessage("");
+    try {
+      const res = await fetch(`${API_URL}/api/order-trash/${d.id}/restore`, { method: "POST" });
+      const json = await parseApiJson<{ message?: string }>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao restaurar.");
+      setMessage(json.message || "Restaurado.");
+      await fetchTrash();
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function purge(d: OrderDeletion) {
+    if (!window.confirm(`Apagar de vez a exclusão #${d.id}? Não será mais possível restaurar.`)) return;
+    setBusyId(d.id);
+    setMessage("");
+    try {
+      const res = await fetch(`${API_URL}/api/order-trash/${d.id}`, { method: "DELETE" });
+      const json = await parseApiJson<{ message?: string }>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao apagar.");
+      setMessage(`Exclusão #${d.id} apagada de vez.`);
+      await fetchTrash();
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function saveRetention() {
+    setMessage("");
+    try {
+      const res = await fetch(`${API_URL}/api/order-trash/config`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ retentionDays: Number(retentionInput) }),
+      });
+      const json = await parseApiJson<{ message?: string; retentionDays?: number }>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao salvar retenção.");
+      setMessage(`Retenção atualizada para ${json.retentionDays} dia(s).`);
+      await fetchTrash();
+    } catch (e: any) {
+      setMessage(`Erro: ${e.message}`);
+    }
+  }
+
+  return (
+    <div className={cn(UI.bg, "min-h-screen")}>
+      <div className="max-w-[1400px] mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div>
+          <h2 className="text-lg font-black tracking-tight text-slate-900">Lixeira de pedidos</h2>
+          <p className="text-sm text-slate-500 mt-0.5">
+            Pedidos e itens excluídos ficam aqui, fora de todas as métricas, por {retentionDays} dia(s). Depois
+            disso são apagados de vez; o registro da exclusão continua.
+          </p>
+        </div>
+
+        <div className={cn(UI.card, "p-5 flex flex-col gap-4 md:flex-row md:items-end md:justify-between")}>
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                Retenção (dias)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={3650}
+                value={retentionInput}
+                onChange={(e) => setRetentionInput(e.target.value)}
+                className="mt-2 w-28 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={saveRetention}
+              disabled={retentionInput === String(retentionDays)}
+              className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-extrabold text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              Salvar
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="inline-flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              Mostrar restauradas e apagadas
+            </label>
+            <button
+              onClick={fetchTrash}
+              className="rounded-xl bg-white px-4 py-2 text-sm font-extrabold text-slate-900 shadow-sm border border-slate-200 hover:bg-slate-50 transition"
+            >
+              Atualizar
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={cn(
+              UI.card,
+              "px-4 py-3 text-sm font-semibold",
+              message.startsWith("Erro") ? "text-red-600" : "text-emerald-700",
+            )}
+          >
+            {message}
+          </div>
+        )}
+
+        <div className={cn(UI.card, "overflow-hidden")}>
+          {loading && deletions.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500">Carregando lixeira...</div>
+          ) : deletions.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500">Nenhuma exclusão na lixeira.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[900px] text-sm">
+                <thead className="bg-slate-100 border-b border-slate-200">
+                  <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                    <th className="px-4 py-3">Exclusão</th>
+                    <th className="px-4 py-3">Data</th>
+                    <th className="px-4 py-3">Por</th>
+                    <th className="px-4 py-3">Origem / filtro</th>
+                    <th className="px-4 py-3 text-right">Pedidos</th>
+                    <th className="px-4 py-3 text-right">Itens</th>
+                    <th className="px-4 py-3 text-right">Devoluções</th>
+                    <th className="px-4 py-3">Situação</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {deletions.map((d) => (
+                    <tr key={d.id} className={cn("hover:bg-slate-50", d.status !== "trashed" && "opacity-60")}>
+                      <td className="px-4 py-3 font-extrabold text-slate-900">
+                        #{d.id}
+                        <div className="text-[11px] font-semibold text-slate-400">{d.kind === "items" ? "itens" : "pedidos"}</div>
+                      </td>
+                      <td className="px-4 py-3 text-slate-700">{fmtDateTime(d.createdAt)}</td>
+                      <td className="px-4 py-3 text-slate-700">{d.deletedBy || "—"}</td>
+                      <td className="px-4 py-3 text-slate-700">
+                        {d.source}
+                        <div className="text-[11px] text-slate-400">{filterLabel(d)}</div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-700">{d.orderCount}</td>
+                      <td className="px-4 py-3 text-right text-slate-700">{d.itemCount}</td>
+                      <td className="px-4 py-3 text-right text-slate-700">{d.returnCount}</td>
+                      <td className="px-4 py-3 text-xs font-bold text-slate-600">
+                        {STATUS_LABELS[d.status] ?? d.status}
+                        {d.status === "trashed" && d.expiresAt ? (
+                          <div className="font-semibold text-slate-400">expira {fmtDateTime(d.expiresAt)}</div>
+                        ) : d.status === "restored" && d.restoredAt ? (
+                          <div className="font-semibold text-slate-400">{fmtDateTime(d.restoredAt)}</div>
+                        ) : d.status === "purged" && d.purgedAt ? (
+                          <div className="font-semibold text-slate-400">{fmtDateTime(d.purgedAt)}</div>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {d.status === "trashed" ? (
+                          <div className="inline-flex gap-2">
+                            <button
+                              type="button"
+                              onClick={() => restore(d)}
+                              disabled={busyId != null}
+                              className="rounded-lg border border-emerald-200 bg-white px-3 py-1 text-xs font-extrabold text-emerald-700 hover:bg-emerald-50 disabled:opacity-50"
+                            >
+                              {busyId === d.id ? "Aguarde…" : "Restaurar"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => purge(d)}
+                              disabled={busyId != null}
+                              className="rounded-lg border border-rose-200 bg-white px-3 py-1 text-xs font-extrabold text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+                            >
+                              Apagar de vez
+                            </button>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-﻿import React, { useCallback, useEffect, useState } from "react";
-import { Check, Loader2, Pencil, Search, X } from "lucide-react";
+﻿import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Check, Download, History, Loader2, Pencil, Search, X } from "lucide-react";
 
 import { API_URL } from "./config";
+import OrderTimeline from "./OrderTimeline";
 
 const UI = {
   bg: "bg-slate-50",
@@ -43,19 +44,40 @@ type OrderRow = {
   status: string;
   paymentType: string;
   freight: number | null;
+  hasReturn: boolean;
 };
 
 type OrdersResponse = {
   orders: OrderRow[];
   total: number;
+  totals: { count: number; totalPrice: number; quantity: number; freight: number };
   limit: number;
-  offset: number;
+  nextCursor: string | null;
 };
 
+type FacetValue = { value: string; count: number };
+
+const SORT_OPTIONS: Array<[string, string]> = [
+  ["orderDate:desc", "Mais recentes"],
+  ["orderDate:asc", "Mais antigos"],
+  ["totalPrice:desc", "Maior valor"],
+  ["totalPrice:asc", "Menor valor"],
+  ["orderId:asc", "Nº do pedido"],
+];
+
+// Mesmos filtros da lista; o CSV sai em partes (sem limite), o XLSX vai até 50 mil linhas
+const EXPORT_OPTIONS: Array<[string, string, string]> = [
+  ["csv", "order", "CSV pedidos"],
+  ["csv", "item", "CSV itens"],
+  ["xlsx", "order", "XLSX pedidos"],
+  ["xlsx", "item", "XLSX itens"],
+];
+
 const channelLabel: Record<string, string> = {
   all: "Todos",
   shopee: "Shopee",
   tiktok: "TikTok",
+  mercadolivre: "Mercado Livre",
   tray: "Tray (todos)",
   atacado: "Atacado",
   tray_varejo: "Tray Varejo",
@@ -64,6 +86,7 @@ const channelLabel: Record<string, string> = {
 const sourceBadge: Record<string, string> = {
   shopee: "bg-orange-100 text-orange-800",
   tiktok: "bg-slate-800 text-white",
+  mercadolivre: "bg-yellow-300 text-slate-900",
   tray: "bg-blue-100 text-blue-800",
   atacado: "bg-sky-900 text-white",
   tray_varejo: "bg-sky-400 text-slate-900",
@@ -79,27 +102,92 @@ export default function Orders({ onEditManualOrder }: Props) {
   const [channel, setChannel] = useState("all");
   const [query, setQuery] = useState("");
   const [debouncedQuery, setDebouncedQuery] = useState("");
-  const [page, setPage] = useState(0);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [paymentFilter, setPaymentFilter] = useState("");
+  const [sku, setSku] = useState("");
+  const [debouncedSku, setDebouncedSku] = useState("");
+  const [minTotal, setMinTotal] = useState("");
+  const [maxTotal, setMaxTotal] = useState("");
+  const [hasReturn, setHasReturn] = useState("");
+  const [missingFees, setMissingFees] = useState(false);
+  const [missingCost, setMissingCost] = useState(false);
+  const [sort, setSort] = useState(SORT_OPTIONS[0][0]);
+  // cursors[n] = cursor da página n (a primeira não tem); o servidor devolve o da próxima.
+  // Mudou algum filtro: volta para a primeira página.
+  const [paging, setPaging] = useState({ filterQs: "", page: 0, cursors: [""] });
   const limit = 50;
 
   const [data, setData] = useState<OrdersResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [paymentTypes, setPaymentTypes] = useState<string[]>([]);
+  const [facets, setFacets] = useState<{ statuses: FacetValue[]; paymentTypes: FacetValue[] }>({
+    statuses: [],
+    paymentTypes: [],
+  });
 
   const [editingKey, setEditingKey] = useState<string | null>(null);
   const [editValue, setEditValue] = useState("");
   const [savingKey, setSavingKey] = useState<string | null>(null);
   const [saveMsg, setSaveMsg] = useState("");
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
 
   useEffect(() => {
-    const t = setTimeout(() => setDebouncedQuery(query.trim()), 350);
+    const t = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+      setDebouncedSku(sku.trim());
+    }, 350);
     return () => clearTimeout(t);
-  }, [query]);
+  }, [query, sku]);
+
+  const filterQs = useMemo(() => {
+    const qs = new URLSearchParams();
+    qs.set("start", startMonth);
+    qs.set("end", endMonth);
+    qs.set("channel", channel);
+    if (debouncedQuery) qs.set("q", debouncedQuery);
+    if (statusFilter) qs.set("status", statusFilter);
+    if (paymentFilter) qs.set("paymentType", paymentFilter);
+    if (debouncedSku) qs.set("sku", debouncedSku);
+    if (minTotal.trim()) qs.set("minTotal", minTotal.trim());
+    if (maxTotal.trim()) qs.set("maxTotal", maxTotal.trim());
+    if (hasReturn) qs.set("hasReturn", hasReturn);
+    if (missingFees) qs.set("missingFees", "1");
+    if (missingCost) qs.set("missingCost", "1");
+    const [sortField, sortDir] = sort.split(":");
+    qs.set("sort", sortField);
+    qs.set("dir", sortDir);
+    return qs.toString();
+  }, [
+    startMonth,
+    endMonth,
+    channel,
+    debouncedQuery,
+    statusFilter,
+    paymentFilter,
+    debouncedSku,
+    minTotal,
+    maxTotal,
+    hasReturn,
+    missingFees,
+    missingCost,
+    sort,
+  ]);
+
+  const page = paging.filterQs === filterQs ? paging.page : 0;
+  const cursor = paging.filterQs === filterQs ? paging.cursors[page] : "";
 
   useEffect(() => {
-    setPage(0);
-  }, [startMonth, endMonth, channel, debouncedQuery]);
+    fetch(`${API_URL}/api/orders/facets`)
+      .then((r) => r.json())
+      .then((json) =>
+        setFacets({
+          statuses: Array.isArray(json?.statuses) ? json.statuses : [],
+          paymentTypes: Array.isArray(json?.paymentTypes) ? json.paymentTypes : [],
+        }),
+      )
+      .catch(() => setFacets({ statuses: [], paymentTypes: [] }));
+  }, []);
 
   useEffect(() => {
     fetch(`${API_URL}/api/payment-types`)
@@ -112,13 +200,9 @@ export default function Orders({ onEditManualOrder }: Props) {
     setLoading(true);
     setError("");
     try {
-      const qs = new URLSearchParams();
-      qs.set("start", startMonth);
-      qs.set("end", endMonth);
-      qs.set("channel", channel);
+      const qs = new URLSearchParams(filterQs);
       qs.set("limit", String(limit));
-      qs.set("offset", String(page * limit));
-      if (debouncedQuery) qs.set("q", debouncedQuery);
+      if (cursor) qs.set("cursor", cursor);
       const res = await fetch(`${API_URL}/api/orders?${qs.toString()}`);
       const json = await res.json();
       if (!res.ok) throw new Error(json?.message || "Falha ao carregar pedidos.");
@@ -129,7 +213,7 @@ export default function Orders({ onEditManualOrder }: Props) {
     } finally {
       setLoading(false);
     }
-  }, [startMonth, endMonth, channel, debouncedQuery, page]);
+  }, [filterQs, cursor]);
 
   useEffect(() => {
     fetchOrders();
@@ -189,6 +273,18 @@ export default function Orders({ onEditManualOrder }: Props) {
     }
   }
 
+  function goNextPage() {
+    const next = data?.nextCursor;
+    if (!next) return;
+    const cursors = paging.filterQs === filterQs ? paging.cursors : [""];
+    setPaging({ filterQs, page: page + 1, cursors: [...cursors.slice(0, page + 1), next] });
+  }
+
+  function goPrevPage() {
+    if (page <= 0) return;
+    setPaging((prev) => ({ ...prev, page: page - 1 }));
+  }
+
   const total = data?.total ?? 0;
   const totalPages = Math.max(1, Math.ceil(total / limit));
 
@@ -198,8 +294,9 @@ export default function Orders({ onEditManualOrder }: Props) {
         <div>
           <h2 className="text-lg font-black tracking-tight text-slate-900">Pedidos</h2>
           <p className="text-sm text-slate-500 mt-0.5">
-            Liste pedidos por canal e período; edite a forma de pagamento. Pedidos WhatsApp do
-            Atacado também podem ser alterados por completo.
+            Filtre pedidos por canal, período, status, SKU, valor e pendências; edite a forma de pagamento
+            e consulte o histórico de status e taxas. Pedidos WhatsApp do Atacado também podem ser
+            alterados por completo.
           </p>
         </div>
 
@@ -239,6 +336,7 @@ export default function Orders({ onEditManualOrder }: Props) {
                 <option value="all">Todos</option>
                 <option value="shopee">Shopee</option>
                 <option value="tiktok">TikTok</option>
+                <option value="mercadolivre">Mercado Livre</option>
                 <option value="tray">Tray (todos)</option>
                 <option value="atacado">Atacado</option>
                 <option value="tray_varejo">Tray Varejo</option>
@@ -260,12 +358,144 @@ export default function Orders({ onEditManualOrder }: Props) {
               </div>
             </div>
           </div>
-          <p className="text-xs text-slate-500">
-            {channelLabel[channel] || channel}
-            {" · "}
-            {startMonth === endMonth ? startMonth : `${startMonth} → ${endMonth}`}
-            {total > 0 ? ` · ${total} pedido(s)` : null}
-          </p>
+          <div className="flex flex-col gap-4 lg:flex-row lg:flex-wrap lg:items-end">
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                Status
+              </label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm min-w-[160px] max-w-[220px]"
+              >
+                <option value="">Todos</option>
+                {facets.statuses.map((f) => (
+                  <option key={f.value || "none"} value={f.value || "none"}>
+                    {f.value || "(sem status)"} ({f.count})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                Pagamento
+              </label>
+              <select
+                value={paymentFilter}
+                onChange={(e) => setPaymentFilter(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm min-w-[160px] max-w-[220px]"
+              >
+                <option value="">Todos</option>
+                <option value="none">(sem forma de pagamento)</option>
+                {facets.paymentTypes.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                SKU
+              </label>
+              <input
+                type="text"
+                value={sku}
+                onChange={(e) => setSku(e.target.value)}
+                placeholder="SKU ou código..."
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm w-[150px]"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                Valor (R$)
+              </label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={minTotal}
+                  onChange={(e) => setMinTotal(e.target.value)}
+                  placeholder="mín."
+                  className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm w-[100px]"
+                />
+                <span className="mt-2 text-slate-400">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={maxTotal}
+                  onChange={(e) => setMaxTotal(e.target.value)}
+                  placeholder="máx."
+                  className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm w-[100px]"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                Devolução
+              </label>
+              <select
+                value={hasReturn}
+                onChange={(e) => setHasReturn(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                <option value="">Todos</option>
+                <option value="1">Com devolução</option>
+                <option value="0">Sem devolução</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">
+                Ordenar
+              </label>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                {SORT_OPTIONS.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1 pb-1 text-sm font-semibold text-slate-700">
+              <label className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={missingFees} onChange={(e) => setMissingFees(e.target.checked)} />
+                Sem taxas do marketplace
+              </label>
+              <label className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={missingCost} onChange={(e) => setMissingCost(e.target.checked)} />
+                Item sem custo
+              </label>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-slate-500">
+              {channelLabel[channel] || channel}
+              {" · "}
+              {startMonth === endMonth ? startMonth : `${startMonth} → ${endMonth}`}
+              {data?.totals && total > 0
+                ? ` · ${total} pedido(s) · ${data.totals.quantity} un. · ${fmtMoney(data.totals.totalPrice)}`
+                : null}
+            </p>
+            <div className="flex items-center gap-2 text-xs font-bold text-slate-500">
+              <Download className="h-3.5 w-3.5" />
+              Exportar:
+              {EXPORT_OPTIONS.map(([format, level, label]) => (
+                <a
+                  key={`${format}-${level}`}
+                  href={`${API_URL}/api/orders/export?${filterQs}&format=${format}&level=${level}`}
+                  className="text-sky-700 hover:underline"
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+          </div>
         </div>
 
         {saveMsg ? (
@@ -309,89 +539,115 @@ export default function Orders({ onEditManualOrder }: Props) {
                     const isEditing = editingKey === key;
                     const isSaving = savingKey === key;
                     const canEditManual = Boolean(onEditManualOrder) && isManualWhatsAppOrder(o);
+                    const showHistory = historyKey === key;
                     return (
-                      <tr key={key} className="hover:bg-slate-50/80">
-                        <td className="px-3 py-2 font-extrabold text-slate-900">{o.orderId}</td>
-                        <td className="px-3 py-2">
-                          <span
-                            className={cn(
-                              "inline-block rounded-full px-2 py-0.5 text-[10px] font-extrabold uppercase",
-                              sourceBadge[o.source] || "bg-slate-100 text-slate-700",
-                            )}
-                          >
-                            {o.source}
-                          </span>
-                        </td>
-                        <td className="px-3 py-2 text-slate-600 tabular-nums">{fmtDate(o.orderDate)}</td>
-                        <td className="px-3 py-2 text-slate-800 max-w-[240px] truncate" title={o.productName}>
-                          {o.productName}
-                        </td>
-                        <td className="px-3 py-2 text-right font-semibold">{o.quantity}</td>
-                        <td className="px-3 py-2 text-right font-semibold tabular-nums">
-                          {fmtMoney(o.totalPrice)}
-                        </td>
-                        <td className="px-3 py-2 text-slate-600 max-w-[140px] truncate" title={o.status}>
-                          {o.status || "—"}
-                        </td>
-                        <td className="px-3 py-2">
-                          {isEditing ? (
-                            <div className="flex flex-wrap items-center gap-1">
-                              <input
-                                list="payment-type-options"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                className="min-w-[160px] flex-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold"
-                                placeholder="Ex.: Pix - Vindi"
-                              />
+                      <React.Fragment key={key}>
+                        <tr className="hover:bg-slate-50/80">
+                          <td className="px-3 py-2 font-extrabold text-slate-900">{o.orderId}</td>
+                          <td className="px-3 py-2">
+                            <span
+                              className={cn(
+                                "inline-block rounded-full px-2 py-0.5 text-[10px] font-extrabold uppercase",
+                                sourceBadge[o.source] || "bg-slate-100 text-slate-700",
+                              )}
+                            >
+                              {o.source}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-slate-600 tabular-nums">{fmtDate(o.orderDate)}</td>
+                          <td className="px-3 py-2 text-slate-800 max-w-[240px] truncate" title={o.productName}>
+                            {o.productName}
+                          </td>
+                          <td className="px-3 py-2 text-right font-semibold">{o.quantity}</td>
+                          <td className="px-3 py-2 text-right font-semibold tabular-nums">
+                            {fmtMoney(o.totalPrice)}
+                          </td>
+                          <td className="px-3 py-2 text-slate-600 max-w-[140px] truncate" title={o.status}>
+                            {o.status || "—"}
+                            {o.hasReturn ? (
+                              <span className="ml-1 rounded-full bg-rose-100 px-1.5 py-0.5 text-[10px] font-extrabold text-rose-700">
+                                Devolução
+                              </span>
+                            ) : null}
+                          </td>
+                          <td className="px-3 py-2">
+                            {isEditing ? (
+                              <div className="flex flex-wrap items-center gap-1">
+                                <input
+                                  list="payment-type-options"
+                                  value={editValue}
+                                  onChange={(e) => setEditValue(e.target.value)}
+                                  className="min-w-[160px] flex-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold"
+                                  placeholder="Ex.: Pix - Vindi"
+                                />
+                                <button
+                                  type="button"
+                                  disabled={isSaving}
+                                  onClick={() => savePaymentType(o)}
+                                  className="rounded-lg bg-emerald-600 p-1.5 text-white hover:bg-emerald-700 disabled:opacity-50"
+                                  title="Salvar"
+                                >
+                                  {isSaving ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Check className="h-4 w-4" />
+                                  )}
+                                </button>
+                                <button
+                                  type="button"
+                                  disabled={isSaving}
+                                  onClick={cancelEdit}
+                                  className="rounded-lg border border-slate-200 p-1.5 text-slate-600 hover:bg-slate-100"
+                                  title="Cancelar"
+                                >
+                                  <X className="h-4 w-4" />
+                                </button>
+                              </div>
+                            ) : (
                               <button
                                 type="button"
-                                disabled={isSaving}
-                                onClick={() => savePaymentType(o)}
-                                className="rounded-lg bg-emerald-600 p-1.5 text-white hover:bg-emerald-700 disabled:opacity-50"
-                                title="Salvar"
+                                onClick={() => startEdit(o)}
+                                className="text-left text-xs font-semibold text-slate-800 hover:text-sky-700 underline decoration-dotted underline-offset-2"
                               >
-                                {isSaving ? (
-                                  <Loader2 className="h-4 w-4 animate-spin" />
-                                ) : (
-                                  <Check className="h-4 w-4" />
-                                )}
+                                {o.paymentType?.trim() ? o.paymentType : "— (clique para definir)"}
                               </button>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="flex items-center gap-1">
                               <button
                                 type="button"
-                                disabled={isSaving}
-                                onClick={cancelEdit}
-                                className="rounded-lg border border-slate-200 p-1.5 text-slate-600 hover:bg-slate-100"
-                                title="Cancelar"
+                                onClick={() => setHistoryKey(showHistory ? null : key)}
+                                className={cn(
+                                  "inline-flex items-center rounded-lg p-1.5 hover:bg-slate-100",
+                                  showHistory ? "text-sky-700" : "text-slate-500",
+                                )}
+                                title="Histórico do pedido"
                               >
-                                <X className="h-4 w-4" />
+                                <History className="h-3.5 w-3.5" />
                               </button>
+                              {canEditManual ? (
+                                <button
+                                  type="button"
+                                  onClick={() => onEditManualOrder?.(o.orderId)}
+                                  className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-bold text-sky-700 hover:bg-sky-50"
+                                  title="Editar venda WhatsApp"
+                                >
+                                  <Pencil className="h-3.5 w-3.5" />
+                                  Editar
+                                </button>
+                              ) : null}
                             </div>
-                          ) : (
-                            <button
-                              type="button"
-                              onClick={() => startEdit(o)}
-                              className="text-left text-xs font-semibold text-slate-800 hover:text-sky-700 underline decoration-dotted underline-offset-2"
-                            >
-                              {o.paymentType?.trim() ? o.paymentType : "— (clique para definir)"}
-                            </button>
-                          )}
-                        </td>
-                        <td className="px-3 py-2">
-                          {canEditManual ? (
-                            <button
-                              type="button"
-                              onClick={() => onEditManualOrder?.(o.orderId)}
-                              className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-bold text-sky-700 hover:bg-sky-50"
-                              title="Editar venda WhatsApp"
-                            >
-                              <Pencil className="h-3.5 w-3.5" />
-                              Editar
-                            </button>
-                          ) : (
-                            <span className="text-slate-300">—</span>
-                          )}
-                        </td>
-                      </tr>
+                          </td>
+                        </tr>
+                        {showHistory && (
+                          <tr className="bg-slate-50/60">
+                            <td colSpan={9} className="px-6 py-4">
+                              <OrderTimeline orderId={o.orderId} source={o.source} />
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
                     );
                   })}
                   {(data?.orders.length ?? 0) === 0 && (
@@ -413,16 +669,16 @@ export default function Orders({ onEditManualOrder }: Props) {
                 <div className="flex gap-2">
                   <button
                     type="button"
-                    disabled={page <= 0}
-                    onClick={() => setPage((p) => Math.max(0, p - 1))}
+                    disabled={page <= 0 || loading}
+                    onClick={goPrevPage}
                     className="rounded-lg border border-slate-200 px-3 py-1 font-semibold disabled:opacity-40"
                   >
                     Anterior
                   </button>
                   <button
                     type="button"
-                    disabled={page >= totalPages - 1}
-                    onClick={() => setPage((p) => p + 1)}
+                    disabled={!data?.nextCursor || loading}
+                    onClick={goNextPage}
                     className="rounded-lg border border-slate-200 px-3 py-1 font-semibold disabled:opacity-40"
                   >
                     Próxima
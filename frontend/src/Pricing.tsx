@@ -23,6 +23,7 @@ type ChannelConfig = {
 const CHANNELS = [
   { id: "shopee", label: "Shopee" },
   { id: "tiktok", label: "TikTok" },
+  { id: "mercadolivre", label: "Mercado Livre" },
   { id: "tray", label: "Tray (todos)" },
   { id: "atacado", label: "Atacado" },
   { id: "tray_varejo", label: "Tray Varejo" },
@@ -31,6 +32,7 @@ const CHANNELS = [
 const DEFAULT_CONFIG: Record<string, ChannelConfig> = {
   shopee: { commissionPercent: 15, adsPercent: 10, fixedCostPercent: 5, taxPercent: 0, profitPercent: 15 },
   tiktok: { commissionPercent: 12, adsPercent: 8, fixedCostPercent: 5, taxPercent: 0, profitPercent: 18 },
+  mercadolivre: { commissionPercent: 14, adsPercent: 8, fixedCostPercent: 5, taxPercent: 0, profitPercent: 15 },
   tray: { commissionPercent: 0, adsPercent: 0, fixedCostPercent: 5, taxPercent: 0, profitPercent: 20 },
   atacado: { commissionPercent: 0, adsPercent: 0, fixedCostPercent: 5, taxPercent: 0, profitPercent: 20 },
   tray_varejo: { commissionPercent: 0, adsPercent: 0, fixedCostPercent: 5, taxPercent: 0, profitPercent: 20 },
@@ -32,6 +32,7 @@ const CURVE_COLORS: Record<string, { bg: string; text: string; border: string; b
 const CHANNEL_COLORS: Record<string, string> = {
   shopee: "bg-orange-600",
   tiktok: "bg-slate-800",
+  mercadolivre: "bg-yellow-500",
   tray: "bg-sky-600",
   atacado: "bg-sky-900",
   tray_varejo: "bg-sky-500",
@@ -98,6 +98,7 @@ function CostCell({
 const SOURCE_BADGE: Record<string, string> = {
   shopee: "bg-orange-600",
   tiktok: "bg-slate-800",
+  mercadolivre: "bg-yellow-500",
   tray: "bg-indigo-700",
   atacado: "bg-sky-900",
   tray_varejo: "bg-sky-500",
@@ -306,6 +307,7 @@ export default function Products() {
                     <option value="all">Todos canais</option>
                     <option value="shopee">Shopee</option>
                     <option value="tiktok">TikTok</option>
+                    <option value="mercadolivre">Mercado Livre</option>
                     <option value="tray">Tray</option>
                     <option value="atacado">Atacado</option>
                     <option value="tray_varejo">Tray Varejo</option>
@@ -0,0 +1,94 @@
+import React, { useState } from "react";
+import { API_URL } from "./config";
+import { parseApiJson } from "./api";
+
+export type RejectedRowData = {
+  rowNumber: number;
+  /** rejected = linha descartada; warning = importada com ressalva. */
+  severity: "rejected" | "warning";
+  code: string;
+  reason: string;
+  values: Record<string, unknown>;
+};
+
+type Format = "csv" | "xlsx";
+
+function fileNameFrom(res: Response, fallback: string) {
+  const m = /filename="?([^";]+)"?/i.exec(res.headers.get("Content-Disposition") || "");
+  return m ? m[1] : fallback;
+}
+
+/**
+ * Botões "Baixar CSV / XLSX" das linhas rejeitadas de um upload.
+ * Com batchId baixa do lote gravado; sem lote (prévia, upload recusado) envia as linhas para o backend montar o arquivo.
+ */
+export default function RejectedRowsDownload({
+  rows,
+  batchId,
+  className,
+}: {
+  rows: RejectedRowData[];
+  batchId?: number | null;
+  className?: string;
+}): JSX.Element | null {
+  const [busy, setBusy] = useState<Format | null>(null);
+  const [error, setError] = useState("");
+
+  if (rows.length === 0) return null;
+
+  const rejected = rows.filter((r) => r.severity !== "warning").length;
+  const warnings = rows.length - rejected;
+
+  const download = async (format: Format) => {
+    setBusy(format);
+    setError("");
+    try {
+      const res = batchId
+        ? await fetch(`${API_URL}/api/import-batches/${batchId}/rejections?format=${format}`)
+        : await fetch(`${API_URL}/api/import-rejections/export?format=${format}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ rows }),
+          });
+      if (!res.ok) {
+        const data = await parseApiJson<{ message?: string }>(res);
+        throw new Error(data.message || "Erro ao baixar relatório.");
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileNameFrom(res, `linhas-rejeitadas.${format}`);
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-600">
+        <span>
+          {rejected} linha(s) rejeitada(s){warnings > 0 ? ` · ${warnings} importada(s) com ressalva` : ""}
+        </span>
+        {(["csv", "xlsx"] as Format[]).map((f) => (
+          <button
+            key={f}
+            type="button"
+            onClick={() => download(f)}
+            disabled={busy !== null}
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 font-extrabold text-slate-800 shadow-sm hover:bg-slate-50 disabled:opacity-50 transition"
+          >
+            {busy === f ? "Gerando..." : `Baixar ${f.toUpperCase()}`}
+          </button>
+        ))}
+      </div>
+      {error && <div className="mt-1 text-xs font-semibold text-rose-700">{error}</div>}
+    </div>
+  );
+}
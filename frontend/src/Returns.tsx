@@ -1,5 +1,5 @@
 ﻿import React, { useState, useEffect, useCallback } from 'react';
-import { Search, RotateCcw, Trash2, ChevronDown, ChevronUp, PackageX, AlertTriangle } from 'lucide-react';
+import { Search, RotateCcw, Trash2, ChevronDown, ChevronUp, PackageX, AlertTriangle, RefreshCw, Loader2, Repeat, Plus } from 'lucide-react';
 
 import { API_URL } from './config';
 
@@ -23,6 +23,57 @@ const RETURN_REASONS = [
   'Outro',
 ];
 
+const RETURN_CONDITIONS: Array<{ value: ReturnCondition; label: string }> = [
+  { value: 'resellable', label: 'Revenda (volta ao estoque)' },
+  { value: 'damaged', label: 'Avariado' },
+];
+
+type ReturnCondition = 'resellable' | 'damaged';
+
+interface ReturnLine {
+  id: number;
+  orderItemId: number | null;
+  productCode: string;
+  quantity: number;
+  refundAmount: number;
+  condition: ReturnCondition;
+  exchangeId: number | null;
+  orderItem?: { name: string } | null;
+}
+
+interface ExchangeRecord {
+  id: number;
+  replacementOrderId: string;
+  replacementSource: string;
+  /** Total do pedido de reposição (o que foi cobrado do cliente na troca). */
+  replacementTotal: number;
+  createdAt: string;
+}
+
+/** Produto mestre para a reposição da troca (mesma fonte da venda Atacado). */
+interface MasterItem {
+  masterProductId: number;
+  sku: string;
+  name: string;
+  current: number;
+}
+
+interface ReplacementLine {
+  masterProductId: number;
+  sku: string;
+  name: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface OrderSearchItem {
+  id: number;
+  productCode: string;
+  name: string;
+  quantity: number;
+  totalPrice: number;
+}
+
 interface OrderSearch {
   id: number;
   orderId: string;
@@ -32,7 +83,16 @@ interface OrderSearch {
   totalPrice: number;
   source: string;
   status: string;
-  returnRecord?: { id: number } | null;
+  items: OrderSearchItem[];
+  returnRecord?: { id: number; partial: boolean; lines: ReturnLine[] } | null;
+}
+
+/** Quantidade do item ainda não devolvida (devolução parcial anterior). */
+function remainingQty(order: OrderSearch, item: OrderSearchItem) {
+  const returned = (order.returnRecord?.lines ?? [])
+    .filter((l) => l.orderItemId === item.id)
+    .reduce((s, l) => s + l.quantity, 0);
+  return Math.max(0, item.quantity - returned);
 }
 
 interface ReturnRecord {
@@ -42,10 +102,17 @@ interface ReturnRecord {
   reason: string;
   notes: string;
   returnDate: string;
+  refundAmount: number | null;
+  origin: 'manual' | 'tiktok_shop';
+  externalStatus: string | null;
+  partial: boolean;
   createdAt: string;
+  lines: ReturnLine[];
+  exchanges: ExchangeRecord[];
   order: {
     productName: string;
     totalPrice: number;
+    refundedAmount: number | null;
     quantity: number;
     orderDate: string;
     status: string;
@@ -55,6 +122,7 @@ interface ReturnRecord {
 const sourceLabel: Record<string, string> = {
   shopee: 'Shopee',
   tiktok: 'TikTok',
+  mercadolivre: 'Mercado Livre',
   tray: 'Tray',
   atacado: 'Atacado',
   tray_varejo: 'Tray Varejo',
@@ -63,6 +131,7 @@ const sourceLabel: Record<string, string> = {
 const sourceBadge: Record<string, string> = {
   shopee: 'bg-orange-100 text-orange-700',
   tiktok: 'bg-slate-100 text-slate-800',
+  mercadolivre: 'bg-yellow-100 text-yellow-800',
   tray: 'bg-blue-100 text-blue-700',
   atacado: 'bg-sky-900 text-white',
   tray_varejo: 'bg-sky-400 text-slate-900',
@@ -77,18 +146,29 @@ export default function Returns() {
   const [searching, setSearching] = useState(false);
 
   const [selectedOrder, setSelectedOrder] = useState<OrderSearch | null>(null);
+  const [lineQty, setLineQty] = useState<Record<number, string>>({});
+  const [lineCondition, setLineCondition] = useState<Record<number, ReturnCondition>>({});
   const [reason, setReason] = useState(RETURN_REASONS[0]);
   const [notes, setNotes] = useState('');
   const [returnDate, setReturnDate] = useState(now.toISOString().slice(0, 10));
   const [submitting, setSubmitting] = useState(false);
   const [formMsg, setFormMsg] = useState('');
 
+  // Troca: os itens voltam sem reembolso e a reposição vira um pedido Atacado (zero ou a diferença)
+  const [mode, setMode] = useState<'refund' | 'exchange'>('refund');
+  const [catalog, setCatalog] = useState<MasterItem[]>([]);
+  const [productQuery, setProductQuery] = useState('');
+  const [replacementLines, setReplacementLines] = useState<ReplacementLine[]>([]);
+
   const [month, setMonth] = useState(currentMonth);
   const [returns, setReturns] = useState<ReturnRecord[]>([]);
   const [loadingReturns, setLoadingReturns] = useState(false);
 
   const [showForm, setShowForm] = useState(true);
 
+  const [syncing, setSyncing] = useState(false);
+  const [syncMsg, setSyncMsg] = useState('');
+
   const searchOrders = useCallback(async () => {
     const q = query.trim();
     if (!q) { setSearchResults([]); return; }
@@ -124,26 +204,87 @@ export default function Returns() {
 
   useEffect(() => { fetchReturns(); }, [fetchReturns]);
 
+  useEffect(() => {
+    if (mode !== 'exchange' || catalog.length > 0) return;
+    fetch(`${API_URL}/api/master-products`)
+      .then((res) => res.json())
+      .then((data) => setCatalog(Array.isArray(data.items) ? data.items : []))
+      .catch(() => setCatalog([]));
+  }, [mode, catalog.length]);
+
+  const productSuggestions = (() => {
+    const q = productQuery.trim().toLowerCase();
+    if (!q) return [];
+    const chosen = new Set(replacementLines.map((l) => l.masterProductId));
+    return catalog
+      .filter((p) => !chosen.has(p.masterProductId))
+      .filter((p) => p.name.toLowerCase().includes(q) || p.sku.toLowerCase().includes(q))
+      .slice(0, 8);
+  })();
+
+  const addReplacement = (p: MasterItem) => {
+    setReplacementLines((prev) => [
+      ...prev,
+      { masterProductId: p.masterProductId, sku: p.sku, name: p.name, quantity: '1', unitPrice: '0' },
+    ]);
+    setProductQuery('');
+  };
+
+  const updateReplacement = (masterProductId: number, patch: Partial<ReplacementLine>) =>
+    setReplacementLines((prev) => prev.map((l) => (l.masterProductId === masterProductId ? { ...l, ...patch } : l)));
+
+  const replacementItems = replacementLines
+    .map((l) => ({
+      masterProductId: l.masterProductId,
+      quantity: parseInt(l.quantity, 10) || 0,
+      unitPrice: Number(String(l.unitPrice).replace(',', '.')) || 0,
+    }))
+    .filter((l) => l.quantity > 0);
+  const replacementTotal = replacementItems.reduce((s, l) => s + l.quantity * l.unitPrice, 0);
+
+  // Pedido escolhido: por padrão devolve tudo o que resta, em condição de revenda
+  const selectOrder = (o: OrderSearch) => {
+    setSelectedOrder(o);
+    setLineQty(Object.fromEntries((o.items ?? []).map((it) => [it.id, String(remainingQty(o, it))])));
+    setLineCondition(Object.fromEntries((o.items ?? []).map((it) => [it.id, 'resellable' as ReturnCondition])));
+  };
+
+  const selectedLines = (selectedOrder?.items ?? [])
+    .map((it) => ({ orderItemId: it.id, quantity: parseInt(lineQty[it.id] ?? '0', 10) || 0, condition: lineCondition[it.id] ?? 'resellable' }))
+    .filter((l) => l.quantity > 0);
+  const canSubmit =
+    !!selectedOrder &&
+    (mode === 'exchange'
+      ? selectedLines.length > 0 && replacementItems.length > 0
+      : (selectedOrder.items ?? []).length === 0 || selectedLines.length > 0);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedOrder) return;
     setSubmitting(true);
     setFormMsg('');
     try {
-      const res = await fetch(`${API_URL}/api/returns`, {
+      const payload = {
+        orderId: selectedOrder.orderId,
+        source: selectedOrder.source,
+        reason,
+        notes,
+        returnDate,
+        lines: selectedLines,
+      };
+      const res = await fetch(`${API_URL}/api/${mode === 'exchange' ? 'exchanges' : 'returns'}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          orderId: selectedOrder.orderId,
-          source: selectedOrder.source,
-          reason,
-          notes,
-          returnDate,
-        }),
+        body: JSON.stringify(mode === 'exchange' ? { ...payload, replacement: { items: replacementItems } } : payload),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.message || 'Erro ao registrar devolução.');
-      setFormMsg('Devolução registrada com sucesso!');
+      if (!res.ok) throw new Error(data.message || (mode === 'exchange' ? 'Erro ao registrar troca.' : 'Erro ao registrar devolução.'));
+      setFormMsg(
+        mode === 'exchange'
+          ? `Troca registrada com sucesso! Reposição #${data.replacementOrder?.orderId ?? ''}`
+          : 'Devolução registrada com sucesso!',
+      );
+      setReplacementLines([]);
       setSelectedOrder(null);
       setQuery('');
       setSearchResults([]);
@@ -157,6 +298,59 @@ export default function Returns() {
     }
   };
 
+  // Busca devoluções/reembolsos e cancelamentos da TikTok Shop atualizados no mês selecionado
+  const handleTiktokSync = async () => {
+    setSyncing(true);
+    setSyncMsg('');
+    try {
+      const res = await fetch(`${API_URL}/api/tiktok-shop/returns/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Erro ao sincronizar devoluções.');
+      const nf = data.notFound ? ` ${data.notFound} pedido(s) ainda não importado(s).` : '';
+      const failed = data.failed ? ` ${data.failed} erro(s).` : '';
+      setSyncMsg(`${data.message}${nf}${failed}`);
+      fetchReturns();
+    } catch (err: any) {
+      setSyncMsg(err.message || 'Erro inesperado.');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDeleteLine = async (line: ReturnLine) => {
+    if (!window.confirm('Remover este item da devolução?')) return;
+    try {
+      const res = await fetch(`${API_URL}/api/returns/lines/${line.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.message || 'Erro ao remover.');
+        return;
+      }
+      fetchReturns();
+    } catch {
+      alert('Erro ao remover item da devolução.');
+    }
+  };
+
+  const handleDeleteExchange = async (exchange: ExchangeRecord) => {
+    if (!window.confirm(`Desfazer esta troca? O pedido de reposição #${exchange.replacementOrderId} vai para a lixeira.`)) return;
+    try {
+      const res = await fetch(`${API_URL}/api/exchanges/${exchange.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.message || 'Erro ao remover.');
+        return;
+      }
+      fetchReturns();
+    } catch {
+      alert('Erro ao remover troca.');
+    }
+  };
+
   const handleDelete = async (orderId: string, source: string) => {
     if (!window.confirm('Deseja remover esta devolução? O pedido voltará para vendas válidas.')) return;
     try {
@@ -172,20 +366,31 @@ export default function Returns() {
     }
   };
 
-  const totalDevolvido = returns.reduce((s, r) => s + (r.order?.totalPrice || 0), 0);
+  // Parcial: só o reembolso dos itens; total: o pedido inteiro sai das vendas
+  const returnedValue = (r: ReturnRecord) => (r.partial ? r.refundAmount ?? 0 : r.order?.totalPrice || 0);
+  // Trocas contam à parte: devolução só quando há item sem troca (ou registro sem itens)
+  const refunds = returns.filter((r) => (r.lines ?? []).length === 0 || r.lines.some((l) => l.exchangeId == null));
+  const totalDevolvido = refunds.reduce((s, r) => s + returnedValue(r), 0);
+  const exchanges = returns.flatMap((r) => r.exchanges ?? []);
+  const totalCobradoTrocas = exchanges.reduce((s, x) => s + (x.replacementTotal || 0), 0);
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
       {/* KPIs */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className={cn(UI.card, 'p-5')}>
           <p className="text-xs font-bold uppercase tracking-widest text-slate-400">Devoluções no mês</p>
-          <p className="mt-1 text-2xl font-black text-slate-900">{returns.length}</p>
+          <p className="mt-1 text-2xl font-black text-slate-900">{refunds.length}</p>
         </div>
         <div className={cn(UI.card, 'p-5')}>
           <p className="text-xs font-bold uppercase tracking-widest text-slate-400">Total devolvido</p>
           <p className="mt-1 text-2xl font-black text-red-600">{fmt(totalDevolvido)}</p>
         </div>
+        <div className={cn(UI.card, 'p-5')}>
+          <p className="text-xs font-bold uppercase tracking-widest text-slate-400">Trocas no mês</p>
+          <p className="mt-1 text-2xl font-black text-slate-900">{exchanges.length}</p>
+          <p className="text-xs font-semibold text-slate-500">Cobrado nas reposições: {fmt(totalCobradoTrocas)}</p>
+        </div>
         <div className={cn(UI.card, 'p-5')}>
           <p className="text-xs font-bold uppercase tracking-widest text-slate-400">Mês de referência</p>
           <input
@@ -204,12 +409,31 @@ export default function Returns() {
           className="flex items-center gap-2 text-lg font-black tracking-tight text-slate-900"
         >
           <PackageX size={20} />
-          Registrar devolução
+          Registrar devolução ou troca
           {showForm ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
         </button>
 
         {showForm && (
           <form onSubmit={handleSubmit} className="mt-5 space-y-4">
+            <div className="inline-flex rounded-xl border border-slate-200 bg-slate-50 p-1">
+              {([
+                ['refund', 'Devolução'],
+                ['exchange', 'Troca'],
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={cn(
+                    'px-4 py-1.5 rounded-lg text-sm font-bold transition',
+                    mode === value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700',
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             {/* Search */}
             <div>
               <label className="block text-xs font-bold tracking-widest uppercase text-slate-500 mb-1">
@@ -235,14 +459,14 @@ export default function Returns() {
                     <p className="p-3 text-sm text-slate-400">Nenhum pedido encontrado.</p>
                   ) : (
                     searchResults.map((o) => {
-                      const alreadyReturned = !!o.returnRecord || o.status === 'Devolvido';
+                      const alreadyReturned = (!!o.returnRecord && !o.returnRecord.partial) || o.status === 'Devolvido';
                       return (
                         <button
                           key={`${o.orderId}-${o.source}`}
                           type="button"
                           disabled={alreadyReturned}
                           onClick={() => {
-                            setSelectedOrder(o);
+                            selectOrder(o);
                             setQuery('');
                             setSearchResults([]);
                           }}
@@ -261,11 +485,15 @@ export default function Returns() {
                               <span className={cn('ml-2 text-xs font-bold px-2 py-0.5 rounded-full', sourceBadge[o.source] || 'bg-slate-100 text-slate-600')}>
                                 {sourceLabel[o.source] || o.source}
                               </span>
-                              {alreadyReturned && (
+                              {alreadyReturned ? (
                                 <span className="ml-2 text-xs font-bold px-2 py-0.5 rounded-full bg-red-100 text-red-700">
                                   Devolvido
                                 </span>
-                              )}
+                              ) : o.returnRecord?.partial ? (
+                                <span className="ml-2 text-xs font-bold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">
+                                  Devolução parcial
+                                </span>
+                              ) : null}
                             </div>
                             <span className="text-sm font-bold text-slate-700">{fmt(o.totalPrice)}</span>
                           </div>
@@ -295,6 +523,148 @@ export default function Returns() {
                     ✕ Remover
                   </button>
                 </div>
+                {(selectedOrder.items ?? []).length > 0 && (
+                  <table className="mt-3 w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                        <th className="py-1 pr-3">Item</th>
+                        <th className="py-1 pr-3 text-right">Vendido</th>
+                        <th className="py-1 pr-3 text-right">{mode === 'exchange' ? 'Trocar' : 'Devolver'}</th>
+                        <th className="py-1 pr-3">Condição</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedOrder.items.map((it) => {
+                        const remaining = remainingQty(selectedOrder, it);
+                        return (
+                          <tr key={it.id} className={cn(remaining === 0 && 'opacity-50')}>
+                            <td className="py-1 pr-3 text-slate-700">
+                              {it.name}
+                              <span className="ml-1 font-mono text-[10px] text-slate-400">{it.productCode}</span>
+                            </td>
+                            <td className="py-1 pr-3 text-right text-slate-600">{it.quantity}</td>
+                            <td className="py-1 pr-3 text-right">
+                              <input
+                                type="number"
+                                min={0}
+                                max={remaining}
+                                disabled={remaining === 0}
+                                value={lineQty[it.id] ?? '0'}
+                                onChange={(e) => setLineQty((p) => ({ ...p, [it.id]: e.target.value }))}
+                                className="w-16 rounded-lg border border-slate-200 bg-white px-2 py-1 text-right text-xs font-semibold text-slate-900"
+                              />
+                            </td>
+                            <td className="py-1 pr-3">
+                              <select
+                                value={lineCondition[it.id] ?? 'resellable'}
+                                disabled={remaining === 0}
+                                onChange={(e) =>
+                                  setLineCondition((p) => ({ ...p, [it.id]: e.target.value as ReturnCondition }))
+                                }
+                                className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-900"
+                              >
+                                {RETURN_CONDITIONS.map((c) => (
+                                  <option key={c.value} value={c.value}>{c.label}</option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* Replacement (troca) */}
+            {mode === 'exchange' && selectedOrder && (
+              <div className="rounded-xl border border-violet-200 bg-violet-50 p-4 space-y-3">
+                <p className="text-xs font-bold uppercase tracking-widest text-violet-700">Reposição (pedido Atacado)</p>
+                <div className="relative">
+                  <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                  <input
+                    type="text"
+                    value={productQuery}
+                    onChange={(e) => setProductQuery(e.target.value)}
+                    placeholder="Buscar produto mestre por nome ou SKU…"
+                    className="w-full pl-9 pr-3 py-2 rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-violet-500/30"
+                  />
+                  {productSuggestions.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full rounded-xl border border-slate-200 bg-white shadow-lg overflow-hidden">
+                      {productSuggestions.map((p) => (
+                        <button
+                          key={p.masterProductId}
+                          type="button"
+                          onClick={() => addReplacement(p)}
+                          className="w-full text-left px-3 py-2 hover:bg-slate-50 flex items-center justify-between gap-3 border-b border-slate-100 last:border-0"
+                        >
+                          <span className="min-w-0 truncate text-sm font-bold text-slate-900">
+                            {p.name} <span className="text-xs font-medium text-slate-500">SKU {p.sku}</span>
+                          </span>
+                          <span className="shrink-0 text-xs font-semibold text-slate-500">
+                            Est. {p.current}
+                            <Plus className="inline h-3.5 w-3.5 ml-1 text-violet-600" />
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {replacementLines.length > 0 && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                        <th className="py-1 pr-3">Produto</th>
+                        <th className="py-1 pr-3 text-right">Qtd.</th>
+                        <th className="py-1 pr-3 text-right">Preço unit. (diferença)</th>
+                        <th className="py-1" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {replacementLines.map((l) => (
+                        <tr key={l.masterProductId}>
+                          <td className="py-1 pr-3 text-slate-700">
+                            {l.name}
+                            <span className="ml-1 font-mono text-[10px] text-slate-400">{l.sku}</span>
+                          </td>
+                          <td className="py-1 pr-3 text-right">
+                            <input
+                              type="number"
+                              min={1}
+                              value={l.quantity}
+                              onChange={(e) => updateReplacement(l.masterProductId, { quantity: e.target.value })}
+                              className="w-16 rounded-lg border border-slate-200 bg-white px-2 py-1 text-right text-xs font-semibold text-slate-900"
+                            />
+                          </td>
+                          <td className="py-1 pr-3 text-right">
+                            <input
+                              type="text"
+                              inputMode="decimal"
+                              value={l.unitPrice}
+                              onChange={(e) => updateReplacement(l.masterProductId, { unitPrice: e.target.value })}
+                              className="w-24 rounded-lg border border-slate-200 bg-white px-2 py-1 text-right text-xs font-semibold text-slate-900"
+                            />
+                          </td>
+                          <td className="py-1 text-right">
+                            <button
+                              type="button"
+                              onClick={() => setReplacementLines((prev) => prev.filter((x) => x.masterProductId !== l.masterProductId))}
+                              className="text-slate-300 hover:text-red-600"
+                              title="Remover da reposição"
+                            >
+                              ✕
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <p className="text-xs font-semibold text-slate-600">
+                  Valor do pedido de reposição: <span className="font-black text-slate-900">{fmt(replacementTotal)}</span>
+                  {replacementTotal === 0 && ' (troca sem custo)'}
+                </p>
               </div>
             )}
 
@@ -302,7 +672,7 @@ export default function Returns() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label className="block text-xs font-bold tracking-widest uppercase text-slate-500 mb-1">
-                  Motivo da devolução
+                  {mode === 'exchange' ? 'Motivo da troca' : 'Motivo da devolução'}
                 </label>
                 <select
                   value={reason}
@@ -316,7 +686,7 @@ export default function Returns() {
               </div>
               <div>
                 <label className="block text-xs font-bold tracking-widest uppercase text-slate-500 mb-1">
-                  Data da devolução
+                  {mode === 'exchange' ? 'Data da troca' : 'Data da devolução'}
                 </label>
                 <input
                   type="date"
@@ -351,15 +721,17 @@ export default function Returns() {
 
             <button
               type="submit"
-              disabled={!selectedOrder || submitting}
+              disabled={!canSubmit || submitting}
               className={cn(
                 'px-6 py-2.5 rounded-xl text-sm font-extrabold transition shadow-sm',
-                selectedOrder && !submitting
-                  ? 'bg-red-600 text-white hover:bg-red-700'
+                canSubmit && !submitting
+                  ? mode === 'exchange'
+                    ? 'bg-violet-600 text-white hover:bg-violet-700'
+                    : 'bg-red-600 text-white hover:bg-red-700'
                   : 'bg-slate-200 text-slate-400 cursor-not-allowed'
               )}
             >
-              {submitting ? 'Registrando…' : 'Registrar devolução'}
+              {submitting ? 'Registrando…' : mode === 'exchange' ? 'Registrar troca' : 'Registrar devolução'}
             </button>
           </form>
         )}
@@ -367,9 +739,25 @@ export default function Returns() {
 
       {/* List of returns */}
       <div className={cn(UI.card, 'p-6')}>
-        <h3 className="text-lg font-black tracking-tight text-slate-900 mb-4">
-          Pedidos devolvidos
-        </h3>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-black tracking-tight text-slate-900">
+            Pedidos devolvidos e trocas
+          </h3>
+          <button
+            onClick={handleTiktokSync}
+            disabled={syncing}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-700 shadow-sm hover:bg-slate-50 disabled:text-slate-400"
+            title="Devoluções, reembolsos e cancelamentos atualizados no mês de referência"
+          >
+            {syncing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+            Sincronizar TikTok Shop
+          </button>
+        </div>
+        {syncMsg && (
+          <div className="mb-4 rounded-xl border border-slate-200 bg-slate-50 px-4 py-2 text-sm font-semibold text-slate-700">
+            {syncMsg}
+          </div>
+        )}
 
         {loadingReturns ? (
           <p className="text-sm text-slate-400">Carregando…</p>
@@ -384,6 +772,7 @@ export default function Returns() {
                   <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Canal</th>
                   <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Produto</th>
                   <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Valor</th>
+                  <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Reembolso</th>
                   <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Motivo</th>
                   <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Obs.</th>
                   <th className="pb-2 text-xs font-bold uppercase tracking-widest text-slate-400">Data devol.</th>
@@ -399,11 +788,72 @@ export default function Returns() {
                         {sourceLabel[r.source] || r.source}
                       </span>
                     </td>
-                    <td className="py-2.5 text-slate-700 max-w-[200px] truncate" title={r.order?.productName}>
-                      {r.order?.productName}
+                    <td className="py-2.5 text-slate-700 max-w-[260px]">
+                      <div className="truncate" title={r.order?.productName}>{r.order?.productName}</div>
+                      {(r.lines ?? []).map((l) => (
+                        <div key={l.id} className="flex items-center gap-1 text-[11px] text-slate-500">
+                          <span className="truncate" title={l.orderItem?.name ?? l.productCode}>
+                            {l.quantity}× {l.orderItem?.name ?? l.productCode}
+                          </span>
+                          <span
+                            className={cn(
+                              'shrink-0 rounded-full px-1.5 py-0.5 text-[10px] font-bold',
+                              l.condition === 'damaged' ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-700',
+                            )}
+                          >
+                            {l.condition === 'damaged' ? 'avariado' : 'estoque'}
+                          </span>
+                          {l.exchangeId != null && (
+                            <span className="shrink-0 rounded-full bg-violet-50 px-1.5 py-0.5 text-[10px] font-bold text-violet-700">
+                              troca
+                            </span>
+                          )}
+                          <button
+                            onClick={() => handleDeleteLine(l)}
+                            className="shrink-0 text-slate-300 hover:text-red-600"
+                            title="Remover item da devolução"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                      {(r.exchanges ?? []).map((x) => (
+                        <div key={x.id} className="flex items-center gap-1 text-[11px] font-semibold text-violet-700">
+                          <Repeat size={11} className="shrink-0" />
+                          <span className="truncate">
+                            Reposição #{x.replacementOrderId}
+                            {x.replacementTotal > 0 && ` (+${fmt(x.replacementTotal)})`}
+                          </span>
+                          <button
+                            onClick={() => handleDeleteExchange(x)}
+                            className="shrink-0 text-slate-300 hover:text-red-600"
+                            title="Desfazer troca"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2.5 font-bold text-red-600">
+                      {fmt(returnedValue(r))}
+                      {r.partial && refunds.includes(r) && (
+                        <span className="ml-2 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700">
+                          parcial
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2.5 text-slate-600">{r.refundAmount != null ? fmt(r.refundAmount) : '—'}</td>
+                    <td className="py-2.5 text-slate-700">
+                      {r.reason}
+                      {r.origin === 'tiktok_shop' && (
+                        <span
+                          className="ml-2 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-slate-100 text-slate-500"
+                          title={r.externalStatus ?? undefined}
+                        >
+                          sync
+                        </span>
+                      )}
                     </td>
-                    <td className="py-2.5 font-bold text-red-600">{fmt(r.order?.totalPrice || 0)}</td>
-                    <td className="py-2.5 text-slate-700">{r.reason}</td>
                     <td className="py-2.5 text-slate-500 max-w-[150px] truncate" title={r.notes}>
                       {r.notes || '—'}
                     </td>
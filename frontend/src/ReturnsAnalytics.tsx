@@ -0,0 +1,467 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, RefreshCcw, Save } from "lucide-react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { API_URL } from "./config";
+import { parseApiJson } from "./api";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const UI = {
+  bg: "bg-slate-50",
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+type RateRow = {
+  key: string;
+  label: string;
+  soldUnits: number;
+  soldRevenue: number;
+  returnedUnits: number;
+  exchangedUnits: number;
+  revenueLost: number;
+  marginLost: number;
+  returnRate: number;
+  flagged: boolean;
+};
+
+type TrendRow = Omit<RateRow, "key" | "label" | "flagged"> & {
+  month: string;
+  byChannel: Record<string, number>;
+};
+
+type AnalyticsConfig = { returnRateThreshold: number; minSoldUnits: number };
+
+type AnalyticsResponse = {
+  start: string;
+  end: string;
+  config: AnalyticsConfig;
+  totals: Omit<RateRow, "key" | "label" | "flagged">;
+  trend: TrendRow[];
+  channels: RateRow[];
+  reasons: Array<RateRow & { share: number }>;
+  masterProducts: RateRow[];
+  variations: RateRow[];
+  flagged: RateRow[];
+  message?: string;
+};
+
+const CHANNEL_OPTIONS = [
+  { value: "all", label: "Todos os canais" },
+  { value: "shopee", label: "Shopee" },
+  { value: "tiktok", label: "TikTok Shop" },
+  { value: "mercadolivre", label: "Mercado Livre" },
+  { value: "atacado", label: "Atacado" },
+  { value: "tray_varejo", label: "Tray Varejo" },
+];
+
+const CHANNEL_LABELS: Record<string, string> = {
+  shopee: "Shopee",
+  tiktok: "TikTok",
+  mercadolivre: "Mercado Livre",
+  atacado: "Atacado",
+  tray_varejo: "Tray Varejo",
+  tray: "Tray",
+};
+
+const CHANNEL_COLORS: Record<string, string> = {
+  shopee: "#ee4d2d",
+  tiktok: "#111827",
+  mercadolivre: "#eab308",
+  atacado: "#2563eb",
+  tray_varejo: "#7c3aed",
+};
+
+const TOTAL_KEY = "total";
+
+function fmtMoney(v: number) {
+  return Number(v || 0).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtPct(v: number) {
+  return `${Number(v || 0).toLocaleString("pt-BR", { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`;
+}
+
+function channelLabel(ch: string) {
+  return ch === TOTAL_KEY ? "Total" : CHANNEL_LABELS[ch] ?? ch;
+}
+
+function getMonthOptions(): { value: string; label: string }[] {
+  const opts: { value: string; label: string }[] = [];
+  const now = new Date();
+  for (let i = 0; i < 24; i++) {
+    const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    const val = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+    const label = d.toLocaleDateString("pt-BR", { month: "long", year: "numeric" });
+    opts.push({ value: val, label: label.charAt(0).toUpperCase() + label.slice(1) });
+  }
+  return opts;
+}
+
+const MONTH_OPTIONS = getMonthOptions();
+
+/** Taxa de devolução por produto, variação, canal e motivo (GET /api/returns/analytics). */
+export default function ReturnsAnalytics(): JSX.Element {
+  const [channel, setChannel] = useState("all");
+  const [start, setStart] = useState(MONTH_OPTIONS[5].value);
+  const [end, setEnd] = useState(MONTH_OPTIONS[0].value);
+  const [data, setData] = useState<AnalyticsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const [threshold, setThreshold] = useState("");
+  const [minUnits, setMinUnits] = useState("");
+  const [savingConfig, setSavingConfig] = useState(false);
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const params = new URLSearchParams({ channel, start, end });
+      const res = await fetch(`${API_URL}/api/returns/analytics?${params.toString()}`);
+      const json = await parseApiJson<AnalyticsResponse>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao carregar análise de devoluções.");
+      setData(json);
+      setThreshold(String(json.config.returnRateThreshold));
+      setMinUnits(String(json.config.minSoldUnits));
+    } catch (e: any) {
+      setError(`Erro: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [channel, start, end]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const saveConfig = async () => {
+    setSavingConfig(true);
+    setError("");
+    try {
+      const res = await fetch(`${API_URL}/api/returns/analytics/config`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          returnRateThreshold: Number(threshold.replace(",", ".")),
+          minSoldUnits: parseInt(minUnits, 10),
+        }),
+      });
+      const json = await parseApiJson<{ message?: string }>(res);
+      if (!res.ok) throw new Error(json?.message || "Falha ao salvar limite.");
+      await fetchAnalytics();
+    } catch (e: any) {
+      setError(`Erro: ${e.message}`);
+    } finally {
+      setSavingConfig(false);
+    }
+  };
+
+  const trendChannels = useMemo(
+    () => Array.from(new Set((data?.trend ?? []).flatMap((t) => Object.keys(t.byChannel)))),
+    [data],
+  );
+  const chartData = useMemo(
+    () =>
+      (data?.trend ?? []).map((t) => ({
+        month: t.month,
+        [TOTAL_KEY]: t.returnRate,
+        ...t.byChannel,
+      })),
+    [data],
+  );
+
+  const totals = data?.totals;
+
+  return (
+    <div className={cn(UI.bg, "min-h-screen")}>
+      <div className="max-w-[1400px] mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div>
+          <h2 className="text-lg font-black tracking-tight text-slate-900">Análise de devoluções</h2>
+          <p className="text-sm text-slate-500 mt-0.5">
+            Taxa de devolução = unidades devolvidas ÷ unidades vendidas, pelo mês da venda. Trocas entram na taxa e
+            aparecem à parte; a margem perdida desconta o custo das peças que voltaram para revenda.
+          </p>
+        </div>
+
+        <div className={cn(UI.card, "p-5 flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between")}>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Canal</label>
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                {CHANNEL_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">De</label>
+              <select
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                {MONTH_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Até</label>
+              <select
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              >
+                {MONTH_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Limite (%)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="mt-2 w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Mín. vendidas</label>
+              <input
+                type="number"
+                min={0}
+                value={minUnits}
+                onChange={(e) => setMinUnits(e.target.value)}
+                className="mt-2 w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              />
+            </div>
+            <button
+              onClick={saveConfig}
+              disabled={savingConfig}
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-sm font-extrabold text-white shadow-sm hover:bg-slate-800 disabled:opacity-50 transition"
+            >
+              <Save className="h-4 w-4" /> Salvar limite
+            </button>
+          </div>
+          <button
+            onClick={fetchAnalytics}
+            className="inline-flex items-center gap-2 rounded-xl bg-white px-4 py-2 text-sm font-extrabold text-slate-900 shadow-sm border border-slate-200 hover:bg-slate-50 transition"
+          >
+            <RefreshCcw className={cn("h-4 w-4", loading && "animate-spin")} /> Atualizar
+          </button>
+        </div>
+
+        {error && <div className={cn(UI.card, "px-4 py-3 text-sm font-semibold text-red-600")}>{error}</div>}
+
+        {loading && !data ? (
+          <div className={cn(UI.card, "p-8 text-center text-sm text-slate-500")}>Carregando devoluções...</div>
+        ) : data && totals ? (
+          <>
+            <div className={cn(UI.card, "grid grid-cols-2 gap-4 px-5 py-4 md:grid-cols-5")}>
+              <Metric label="Taxa de devolução" value={fmtPct(totals.returnRate)} />
+              <Metric
+                label="Unidades devolvidas"
+                value={totals.returnedUnits.toLocaleString("pt-BR")}
+                hint={`de ${totals.soldUnits.toLocaleString("pt-BR")} vendidas`}
+              />
+              <Metric label="Trocas" value={totals.exchangedUnits.toLocaleString("pt-BR")} hint="unidades trocadas" />
+              <Metric label="Faturamento perdido" value={fmtMoney(totals.revenueLost)} hint="reembolsos" />
+              <Metric label="Margem perdida" value={fmtMoney(totals.marginLost)} />
+            </div>
+
+            <div className={cn(UI.card, "p-5")}>
+              <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Tendência da taxa de devolução</h3>
+              <div className="mt-4 h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="month" tick={{ fontSize: 12, fontWeight: 700 }} />
+                    <YAxis tickFormatter={(v) => fmtPct(Number(v))} tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(v, name) => [fmtPct(Number(v ?? 0)), channelLabel(String(name))]} />
+                    <Legend formatter={(v) => channelLabel(String(v))} />
+                    <Line type="monotone" dataKey={TOTAL_KEY} name={TOTAL_KEY} stroke="#0f172a" strokeWidth={3} dot={{ r: 4 }} />
+                    {trendChannels.map((ch) => (
+                      <Line
+                        key={ch}
+                        type="monotone"
+                        dataKey={ch}
+                        name={ch}
+                        stroke={CHANNEL_COLORS[ch] || "#64748b"}
+                        strokeWidth={2}
+                        strokeDasharray="4 3"
+                        dot={{ r: 3 }}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full min-w-[700px] text-sm">
+                  <thead className="bg-slate-100 border-b border-slate-200">
+                    <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                      <th className="px-4 py-2">Mês</th>
+                      <th className="px-4 py-2 text-right">Vendidas</th>
+                      <th className="px-4 py-2 text-right">Devolvidas</th>
+                      <th className="px-4 py-2 text-right">Taxa</th>
+                      <th className="px-4 py-2 text-right">Faturamento perdido</th>
+                      <th className="px-4 py-2 text-right">Margem perdida</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {data.trend.map((t) => (
+                      <tr key={t.month} className="hover:bg-slate-50">
+                        <td className="px-4 py-2 font-bold text-slate-900">{t.month}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">{t.soldUnits}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">{t.returnedUnits}</td>
+                        <td className="px-4 py-2 text-right font-bold text-slate-900">{fmtPct(t.returnRate)}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">{fmtMoney(t.revenueLost)}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">{fmtMoney(t.marginLost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {data.flagged.length > 0 && (
+              <div className={cn(UI.card, "overflow-hidden border-rose-200")}>
+                <div className="flex items-center gap-2 border-b border-rose-100 bg-rose-50 px-5 py-3">
+                  <AlertTriangle className="h-4 w-4 text-rose-600" />
+                  <h3 className="text-sm font-black tracking-tight text-rose-700">
+                    SKUs acima de {fmtPct(data.config.returnRateThreshold)} (com {data.config.minSoldUnits}+ vendidas)
+                  </h3>
+                </div>
+                <RateTable rows={data.flagged} firstColumn="SKU" showKey />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+              <Section title="Por canal">
+                <RateTable rows={data.channels.map((r) => ({ ...r, label: channelLabel(r.key) }))} firstColumn="Canal" />
+              </Section>
+              <Section title="Por motivo">
+                <div className="overflow-x-auto">
+                  <table className="w-full min-w-[560px] text-sm">
+                    <thead className="bg-slate-100 border-b border-slate-200">
+                      <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+                        <th className="px-4 py-2">Motivo</th>
+                        <th className="px-4 py-2 text-right">Devolvidas</th>
+                        <th className="px-4 py-2 text-right">% das devoluções</th>
+                        <th className="px-4 py-2 text-right">Taxa</th>
+                        <th className="px-4 py-2 text-right">Faturamento perdido</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {data.reasons.map((r) => (
+                        <tr key={r.key} className="hover:bg-slate-50">
+                          <td className="px-4 py-2 font-semibold text-slate-900">{r.label}</td>
+                          <td className="px-4 py-2 text-right text-slate-700">{r.returnedUnits}</td>
+                          <td className="px-4 py-2 text-right text-slate-700">{fmtPct(r.share)}</td>
+                          <td className="px-4 py-2 text-right font-bold text-slate-900">{fmtPct(r.returnRate)}</td>
+                          <td className="px-4 py-2 text-right text-slate-700">{fmtMoney(r.revenueLost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Section>
+            </div>
+
+            <Section title="Por produto mestre">
+              <RateTable rows={data.masterProducts} firstColumn="Produto mestre" />
+            </Section>
+            <Section title="Por variação (SKU / tamanho)">
+              <RateTable rows={data.variations} firstColumn="Variação" showKey />
+            </Section>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className={cn(UI.card, "overflow-hidden")}>
+      <div className="border-b border-slate-200 px-5 py-3">
+        <h3 className="text-sm font-black tracking-tight text-slate-900">{title}</h3>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function RateTable({ rows, firstColumn, showKey }: { rows: RateRow[]; firstColumn: string; showKey?: boolean }) {
+  if (rows.length === 0) {
+    return <div className="p-6 text-center text-sm text-slate-500">Nenhuma venda no período.</div>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[760px] text-sm">
+        <thead className="bg-slate-100 border-b border-slate-200">
+          <tr className="text-left text-xs font-extrabold tracking-widest uppercase text-slate-600">
+            <th className="px-4 py-2">{firstColumn}</th>
+            <th className="px-4 py-2 text-right">Vendidas</th>
+            <th className="px-4 py-2 text-right">Devolvidas</th>
+            <th className="px-4 py-2 text-right">Trocas</th>
+            <th className="px-4 py-2 text-right">Taxa</th>
+            <th className="px-4 py-2 text-right">Faturamento perdido</th>
+            <th className="px-4 py-2 text-right">Margem perdida</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map((r) => (
+            <tr key={r.key} className={cn("hover:bg-slate-50", r.flagged && "bg-rose-50/60")}>
+              <td className="px-4 py-2 font-semibold text-slate-900">
+                {r.label}
+                {showKey && <span className="ml-1 font-mono text-[11px] text-slate-400">{r.key}</span>}
+              </td>
+              <td className="px-4 py-2 text-right text-slate-700">{r.soldUnits}</td>
+              <td className="px-4 py-2 text-right text-slate-700">{r.returnedUnits}</td>
+              <td className="px-4 py-2 text-right text-slate-700">{r.exchangedUnits}</td>
+              <td className={cn("px-4 py-2 text-right font-bold", r.flagged ? "text-rose-600" : "text-slate-900")}>
+                {fmtPct(r.returnRate)}
+              </td>
+              <td className="px-4 py-2 text-right text-slate-700">{fmtMoney(r.revenueLost)}</td>
+              <td className="px-4 py-2 text-right text-slate-700">{fmtMoney(r.marginLost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div>
+      <div className="text-[11px] font-bold tracking-widest uppercase text-slate-500">{label}</div>
+      <div className="mt-1 text-lg font-black text-slate-900 tabular-nums">{value}</div>
+      {hint && <div className="text-[11px] text-slate-400">{hint}</div>}
+    </div>
+  );
+}
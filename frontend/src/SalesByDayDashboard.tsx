@@ -19,21 +19,27 @@ type DayRow = {
   name: string;
   shopee: number;
   tiktok: number;
+  mercadoLivre: number;
   trayAtacado: number;
   trayVarejo: number;
   tray: number;
   total: number;
   shopeeOrders: number;
   tiktokOrders: number;
+  mercadoLivreOrders: number;
   trayAtacadoOrders: number;
   trayVarejoOrders: number;
   trayOrders: number;
   totalOrders: number;
+  /** Gasto de ADS do dia (AdSpendDaily); o total inclui canais de anúncio sem venda própria (ex.: Meta). */
+  adSpend: number;
+  adSpendShopee: number;
+  adSpendTiktok: number;
 };
 
 type PeriodMode = "month_full" | "month_mtd" | "custom";
 
-const CHANNEL_IDS = ["shopee", "tiktok", "trayAtacado", "trayVarejo"] as const;
+const CHANNEL_IDS = ["shopee", "tiktok", "mercadoLivre", "trayAtacado", "trayVarejo"] as const;
 type ChannelId = (typeof CHANNEL_IDS)[number];
 
 type PairRow = { current: DayRow; previous?: DayRow };
@@ -46,6 +52,7 @@ type DisplayRow = DayRow & {
   prevTotal?: number;
   prevShopee?: number;
   prevTiktok?: number;
+  prevMercadoLivre?: number;
   prevTrayAtacado?: number;
   prevTrayVarejo?: number;
   prevTray?: number;
@@ -60,22 +67,28 @@ function normalizeDayRow(r: Record<string, unknown>): DayRow {
     name: String(r.name ?? ""),
     shopee: n("shopee"),
     tiktok: n("tiktok"),
+    mercadoLivre: n("mercadoLivre"),
     trayAtacado: n("trayAtacado"),
     trayVarejo: n("trayVarejo"),
     tray: n("tray"),
     total: n("total"),
     shopeeOrders: n("shopeeOrders"),
     tiktokOrders: n("tiktokOrders"),
+    mercadoLivreOrders: n("mercadoLivreOrders"),
     trayAtacadoOrders: n("trayAtacadoOrders"),
     trayVarejoOrders: n("trayVarejoOrders"),
     trayOrders: n("trayOrders"),
     totalOrders: n("totalOrders"),
+    adSpend: n("adSpend"),
+    adSpendShopee: n("adSpendShopee"),
+    adSpendTiktok: n("adSpendTiktok"),
   };
 }
 
 const CHANNEL_COLORS: Record<ChannelId, string> = {
   shopee: "#FF6B35",
   tiktok: "#1F2937",
+  mercadoLivre: "#EAB308",
   trayAtacado: "#0369A1",
   trayVarejo: "#38BDF8",
 };
@@ -83,6 +96,7 @@ const CHANNEL_COLORS: Record<ChannelId, string> = {
 const CHANNEL_LABELS: Record<ChannelId, string> = {
   shopee: "Shopee",
   tiktok: "TikTok",
+  mercadoLivre: "Mercado Livre",
   trayAtacado: "Atacado",
   trayVarejo: "Tray Varejo",
 };
@@ -109,6 +123,14 @@ function formatCompact(val: number) {
   return `${val.toFixed(0)}`;
 }
 
+/** ROAS (receita ÷ ADS) e ACOS (ADS ÷ receita) do dia; "—" sem gasto. */
+function formatRoasAcos(revenue: number, adSpend: number): string {
+  if (adSpend <= 0) return "—";
+  const roas = (revenue / adSpend).toFixed(2);
+  const acos = revenue > 0 ? `${((adSpend / revenue) * 100).toFixed(1)}%` : "—";
+  return `${roas} · ${acos}`;
+}
+
 function toYmd(d: Date): string {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 }
@@ -173,20 +195,29 @@ function salesByDayUrl(start: string, end: string): string {
 function filterRow(row: DayRow, sel: ReadonlySet<ChannelId>): DayRow {
   const shopee = sel.has("shopee") ? row.shopee : 0;
   const tiktok = sel.has("tiktok") ? row.tiktok : 0;
+  const mercadoLivre = sel.has("mercadoLivre") ? row.mercadoLivre : 0;
   const trayAtacado = sel.has("trayAtacado") ? row.trayAtacado : 0;
   const trayVarejo = sel.has("trayVarejo") ? row.trayVarejo : 0;
   const shopeeOrders = sel.has("shopee") ? row.shopeeOrders : 0;
   const tiktokOrders = sel.has("tiktok") ? row.tiktokOrders : 0;
+  const mercadoLivreOrders = sel.has("mercadoLivre") ? row.mercadoLivreOrders : 0;
   const trayAtacadoOrders = sel.has("trayAtacado") ? row.trayAtacadoOrders : 0;
   const trayVarejoOrders = sel.has("trayVarejo") ? row.trayVarejoOrders : 0;
   const tray = trayAtacado + trayVarejo;
   const trayOrders = trayAtacadoOrders + trayVarejoOrders;
-  const total = shopee + tiktok + trayAtacado + trayVarejo;
-  const totalOrders = shopeeOrders + tiktokOrders + trayAtacadoOrders + trayVarejoOrders;
+  const total = shopee + tiktok + mercadoLivre + trayAtacado + trayVarejo;
+  const totalOrders = shopeeOrders + tiktokOrders + mercadoLivreOrders + trayAtacadoOrders + trayVarejoOrders;
+  const adSpendShopee = sel.has("shopee") ? row.adSpendShopee : 0;
+  const adSpendTiktok = sel.has("tiktok") ? row.adSpendTiktok : 0;
+  const adSpend = adSpendShopee + adSpendTiktok + (row.adSpend - row.adSpendShopee - row.adSpendTiktok);
   return {
     ...row,
+    adSpend,
+    adSpendShopee,
+    adSpendTiktok,
     shopee,
     tiktok,
+    mercadoLivre,
     trayAtacado,
     trayVarejo,
     tray,
@@ -194,6 +225,7 @@ function filterRow(row: DayRow, sel: ReadonlySet<ChannelId>): DayRow {
     totalOrders,
     shopeeOrders,
     tiktokOrders,
+    mercadoLivreOrders,
     trayAtacadoOrders,
     trayVarejoOrders,
     trayOrders,
@@ -236,6 +268,7 @@ function pairRowToDisplay(row: PairRow, periodMode: PeriodMode): DisplayRow {
     prevTotal: prev?.total,
     prevShopee: prev?.shopee,
     prevTiktok: prev?.tiktok,
+    prevMercadoLivre: prev?.mercadoLivre,
     prevTrayAtacado: prev?.trayAtacado,
     prevTrayVarejo: prev?.trayVarejo,
     prevTray: prev?.tray,
@@ -373,6 +406,7 @@ export default function SalesByDayDashboard() {
         prevTotal: prevF?.total,
         prevShopee: prevF?.shopee,
         prevTiktok: prevF?.tiktok,
+        prevMercadoLivre: prevF?.mercadoLivre,
         prevTrayAtacado: prevF?.trayAtacado,
         prevTrayVarejo: prevF?.trayVarejo,
         prevTray: prevF?.tray,
@@ -388,12 +422,14 @@ export default function SalesByDayDashboard() {
       (acc, r) => ({
         shopee: acc.shopee + r.shopee,
         tiktok: acc.tiktok + r.tiktok,
+        mercadoLivre: acc.mercadoLivre + r.mercadoLivre,
         trayAtacado: acc.trayAtacado + r.trayAtacado,
         trayVarejo: acc.trayVarejo + r.trayVarejo,
         tray: acc.tray + r.tray,
         total: acc.total + r.total,
         shopeeOrders: acc.shopeeOrders + (r.shopeeOrders ?? 0),
         tiktokOrders: acc.tiktokOrders + (r.tiktokOrders ?? 0),
+        mercadoLivreOrders: acc.mercadoLivreOrders + (r.mercadoLivreOrders ?? 0),
         trayAtacadoOrders: acc.trayAtacadoOrders + (r.trayAtacadoOrders ?? 0),
         trayVarejoOrders: acc.trayVarejoOrders + (r.trayVarejoOrders ?? 0),
         trayOrders: acc.trayOrders + (r.trayOrders ?? 0),
@@ -402,12 +438,14 @@ export default function SalesByDayDashboard() {
       {
         shopee: 0,
         tiktok: 0,
+        mercadoLivre: 0,
         trayAtacado: 0,
         trayVarejo: 0,
         tray: 0,
         total: 0,
         shopeeOrders: 0,
         tiktokOrders: 0,
+        mercadoLivreOrders: 0,
         trayAtacadoOrders: 0,
         trayVarejoOrders: 0,
         trayOrders: 0,
@@ -421,12 +459,14 @@ export default function SalesByDayDashboard() {
       return {
         shopee: 0,
         tiktok: 0,
+        mercadoLivre: 0,
         trayAtacado: 0,
         trayVarejo: 0,
         tray: 0,
         total: 0,
         shopeeOrders: 0,
         tiktokOrders: 0,
+        mercadoLivreOrders: 0,
         trayAtacadoOrders: 0,
         trayVarejoOrders: 0,
         trayOrders: 0,
@@ -438,12 +478,14 @@ export default function SalesByDayDashboard() {
       (acc, r) => ({
         shopee: acc.shopee + r.shopee,
         tiktok: acc.tiktok + r.tiktok,
+        mercadoLivre: acc.mercadoLivre + r.mercadoLivre,
         trayAtacado: acc.trayAtacado + r.trayAtacado,
         trayVarejo: acc.trayVarejo + r.trayVarejo,
         tray: acc.tray + r.tray,
         total: acc.total + r.total,
         shopeeOrders: acc.shopeeOrders + (r.shopeeOrders ?? 0),
         tiktokOrders: acc.tiktokOrders + (r.tiktokOrders ?? 0),
+        mercadoLivreOrders: acc.mercadoLivreOrders + (r.mercadoLivreOrders ?? 0),
         trayAtacadoOrders: acc.trayAtacadoOrders + (r.trayAtacadoOrders ?? 0),
         trayVarejoOrders: acc.trayVarejoOrders + (r.trayVarejoOrders ?? 0),
         trayOrders: acc.trayOrders + (r.trayOrders ?? 0),
@@ -452,12 +494,14 @@ export default function SalesByDayDashboard() {
       {
         shopee: 0,
         tiktok: 0,
+        mercadoLivre: 0,
         trayAtacado: 0,
         trayVarejo: 0,
         tray: 0,
         total: 0,
         shopeeOrders: 0,
         tiktokOrders: 0,
+        mercadoLivreOrders: 0,
         trayAtacadoOrders: 0,
         trayVarejoOrders: 0,
         trayOrders: 0,
@@ -466,6 +510,8 @@ export default function SalesByDayDashboard() {
     );
   }, [compare, prevRows, selectedChannels]);
 
+  const hasAdSpend = filteredRows.some((r) => r.adSpend > 0);
+
   const selectedCount = selectedChannels.size;
   const singleChannelMode = selectedCount === 1;
 
@@ -595,7 +641,7 @@ export default function SalesByDayDashboard() {
                 Vendas diárias por canal
               </h1>
               <p className="mt-1 text-white/80 text-sm leading-snug">
-                Shopee + TikTok + Tray • {periodDescription}
+                Shopee + TikTok + Mercado Livre + Tray • {periodDescription}
                 {compare && compareRange ? ` • vs ${compareLineLabel}` : ""}
               </p>
             </div>
@@ -890,6 +936,15 @@ export default function SalesByDayDashboard() {
                         radius={[0, 0, 0, 0]}
                       />
                     )}
+                    {selectedChannels.has("mercadoLivre") && (
+                      <Bar
+                        dataKey="mercadoLivre"
+                        name="Mercado Livre"
+                        stackId={singleChannelMode ? undefined : "a"}
+                        fill={CHANNEL_COLORS.mercadoLivre}
+                        radius={[0, 0, 0, 0]}
+                      />
+                    )}
                     {selectedChannels.has("trayAtacado") && (
                       <Bar
                         dataKey="trayAtacado"
@@ -962,6 +1017,9 @@ export default function SalesByDayDashboard() {
                       {selectedChannels.has("tiktok") && (
                         <th className="px-4 py-3 text-right">TikTok</th>
                       )}
+                      {selectedChannels.has("mercadoLivre") && (
+                        <th className="px-4 py-3 text-right">M. Livre</th>
+                      )}
                       {selectedChannels.has("trayAtacado") && (
                         <th className="px-4 py-3 text-right">Tray Atac.</th>
                       )}
@@ -969,6 +1027,12 @@ export default function SalesByDayDashboard() {
                         <th className="px-4 py-3 text-right">Tray Var.</th>
                       )}
                       <th className="px-4 py-3 text-right">Total</th>
+                      {hasAdSpend && (
+                        <>
+                          <th className="px-4 py-3 text-right">ADS</th>
+                          <th className="px-4 py-3 text-right">ROAS · ACOS</th>
+                        </>
+                      )}
                       {compare && (
                         <>
                           <th className="px-4 py-3 text-right text-purple-600">Total comp.</th>
@@ -998,6 +1062,12 @@ export default function SalesByDayDashboard() {
                               <span className="text-xs text-slate-500">{r.tiktokOrders ?? 0} pedidos</span>
                             </td>
                           )}
+                          {selectedChannels.has("mercadoLivre") && (
+                            <td className="px-4 py-3 text-right text-slate-700">
+                              <span className="block">{formatMoney(r.mercadoLivre)}</span>
+                              <span className="text-xs text-slate-500">{r.mercadoLivreOrders ?? 0} pedidos</span>
+                            </td>
+                          )}
                           {selectedChannels.has("trayAtacado") && (
                             <td className="px-4 py-3 text-right text-slate-700">
                               <span className="block">{formatMoney(r.trayAtacado)}</span>
@@ -1014,6 +1084,14 @@ export default function SalesByDayDashboard() {
                             <span className="block">{formatMoney(r.total)}</span>
                             <span className="text-xs font-normal text-slate-500">{r.totalOrders ?? 0} pedidos</span>
                           </td>
+                          {hasAdSpend && (
+                            <>
+                              <td className="px-4 py-3 text-right text-slate-700">{r.adSpend > 0 ? formatMoney(r.adSpend) : "—"}</td>
+                              <td className="px-4 py-3 text-right font-semibold text-slate-700 whitespace-nowrap">
+                                {formatRoasAcos(r.total, r.adSpend)}
+                              </td>
+                            </>
+                          )}
                           {compare && (
                             <>
                               <td className="px-4 py-3 text-right text-purple-700">
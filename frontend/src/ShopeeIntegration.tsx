@@ -12,9 +12,12 @@ import {
   Download,
   ShieldCheck,
   Clock,
+  Package,
 } from "lucide-react";
 
 import { API_URL } from './config';
+import IntegrationSyncSchedules from './IntegrationSyncSchedules';
+import WebhookEvents from './WebhookEvents';
 
 const UI = {
   bg: "bg-slate-50",
@@ -36,6 +39,23 @@ interface IntegrationStatus {
   refreshExpiresAt?: string;
 }
 
+interface CatalogSyncReport {
+  message: string;
+  items: number;
+  listings: number;
+  created: number;
+  updated: number;
+  linked: number;
+  alreadyLinked: number;
+  withoutMaster: Array<{
+    productId: number;
+    code: string;
+    name: string;
+    sku: string | null;
+    itemStatus: string;
+  }>;
+}
+
 const STATUS_CONFIG: Record<string, { label: string; color: string; icon: React.ReactNode }> = {
   disconnected: { label: "Desconectado", color: "text-slate-500 bg-slate-100", icon: <Unplug className="w-4 h-4" /> },
   connected: { label: "Conectado", color: "text-emerald-700 bg-emerald-50", icon: <CheckCircle2 className="w-4 h-4" /> },
@@ -52,6 +72,10 @@ export default function ShopeeIntegration() {
   const [syncing, setSyncing] = useState(false);
   const [syncResult, setSyncResult] = useState<string | null>(null);
   const [daysBack, setDaysBack] = useState(30);
+  const [escrowMonth, setEscrowMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [escrowLoading, setEscrowLoading] = useState(false);
+  const [catalogLoading, setCatalogLoading] = useState(false);
+  const [catalogReport, setCatalogReport] = useState<CatalogSyncReport | null>(null);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
   const fetchStatus = useCallback(async () => {
@@ -160,7 +184,9 @@ export default function ShopeeIntegration() {
       });
       const data = await res.json();
       if (res.ok) {
-        setSyncResult(`${data.synced} pedidos sincronizados de ${data.total} encontrados.`);
+        const failed = data.failed ? ` ${data.failed} com erro (veja o histórico abaixo).` : "";
+        const extra = data.message ? ` ${data.message}` : "";
+        setSyncResult(`${data.synced} pedidos sincronizados de ${data.total} encontrados.${extra}${failed}`);
         setMessage({ type: "success", text: "Sincronização concluída!" });
         await fetchStatus();
       } else {
@@ -173,6 +199,50 @@ export default function ShopeeIntegration() {
     }
   };
 
+  const handleEscrowSync = async () => {
+    setEscrowLoading(true);
+    setSyncResult(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_URL}/api/shopee/escrow/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ month: escrowMonth }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        const manual = data.skippedManual ? ` ${data.skippedManual} com taxas editadas à mão foram mantidos.` : "";
+        const errors = data.errors?.length ? ` ${data.errors.length} com erro.` : "";
+        const more = data.message ? ` ${data.message}` : "";
+        setSyncResult(`Taxas (escrow) atualizadas em ${data.updated} de ${data.checked} pedido(s).${manual}${errors}${more}`);
+      } else {
+        setMessage({ type: "error", text: data.message || "Erro ao buscar taxas." });
+      }
+    } catch {
+      setMessage({ type: "error", text: "Erro de conexão." });
+    } finally {
+      setEscrowLoading(false);
+    }
+  };
+
+  const handleCatalogSync = async () => {
+    setCatalogLoading(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_URL}/api/shopee/catalog/sync`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setCatalogReport(data as CatalogSyncReport);
+      } else {
+        setMessage({ type: "error", text: data.message || "Erro ao sincronizar catálogo." });
+      }
+    } catch {
+      setMessage({ type: "error", text: "Erro de conexão." });
+    } finally {
+      setCatalogLoading(false);
+    }
+  };
+
   const statusInfo = STATUS_CONFIG[status?.status ?? "disconnected"] ?? STATUS_CONFIG.disconnected;
   const isConnected = status?.status === "connected" || status?.status === "token_expired";
 
@@ -418,6 +488,30 @@ export default function ShopeeIntegration() {
               </button>
             </div>
 
+            <div className="mt-5 border-t border-slate-100 pt-4">
+              <div className="text-xs font-bold tracking-widest uppercase text-slate-500">Taxas dos pedidos concluídos</div>
+              <p className="mt-1 text-xs text-slate-500">
+                A sincronização já busca comissão, taxa de serviço e valor liquidado (escrow) dos pedidos concluídos. Use
+                abaixo para preencher pedidos antigos sem taxas. Taxas editadas à mão não são sobrescritas.
+              </p>
+              <div className="mt-3 flex flex-wrap items-end gap-3">
+                <input
+                  type="month"
+                  value={escrowMonth}
+                  onChange={(e) => setEscrowMonth(e.target.value)}
+                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+                />
+                <button
+                  onClick={handleEscrowSync}
+                  disabled={escrowLoading || !escrowMonth}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-white border border-slate-200 text-slate-900 text-sm font-extrabold shadow-sm hover:bg-slate-50 disabled:opacity-50 transition"
+                >
+                  {escrowLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Buscar taxas do mês
+                </button>
+              </div>
+            </div>
+
             {syncResult && (
               <div className="mt-4 rounded-xl bg-emerald-50 border border-emerald-200 px-4 py-3 text-sm font-semibold text-emerald-800 flex items-center gap-2">
                 <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
@@ -427,6 +521,76 @@ export default function ShopeeIntegration() {
           </div>
         )}
 
+        {/* Catálogo */}
+        {isConnected && (
+          <div className={cn(UI.card, "p-6")}>
+            <h3 className="text-sm font-extrabold tracking-wide text-slate-900 flex items-center gap-2">
+              <Package className="w-4 h-4 text-slate-400" />
+              Sincronizar Catálogo
+            </h3>
+            <p className="mt-1 text-xs text-slate-500">
+              Cria/atualiza os produtos Shopee (com variações) a partir dos anúncios ativos e deslistados, mesmo sem
+              vendas. Quando o SKU do anúncio é igual ao de um produto mestre, o vínculo é feito automaticamente.
+            </p>
+            <div className="mt-4">
+              <button
+                onClick={handleCatalogSync}
+                disabled={catalogLoading}
+                className={cn(
+                  "inline-flex items-center gap-2 px-5 py-2.5 rounded-xl text-sm font-extrabold shadow-sm transition",
+                  catalogLoading ? "bg-slate-200 text-slate-500 cursor-not-allowed" : "bg-slate-900 text-white hover:bg-slate-800"
+                )}
+              >
+                {catalogLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+                {catalogLoading ? "Sincronizando..." : "Sincronizar catálogo"}
+              </button>
+            </div>
+
+            {catalogReport && (
+              <div className="mt-4 space-y-3">
+                <div className="rounded-xl bg-emerald-50 border border-emerald-200 px-4 py-3 text-sm font-semibold text-emerald-800">
+                  {catalogReport.message} {catalogReport.alreadyLinked > 0 && `${catalogReport.alreadyLinked} já estavam vinculados.`}
+                </div>
+                {catalogReport.withoutMaster.length > 0 && (
+                  <div className="rounded-xl border border-amber-200 bg-amber-50/60 p-4">
+                    <div className="text-sm font-bold text-amber-900">
+                      {catalogReport.withoutMaster.length} anúncio(s)/variação(ões) sem produto mestre
+                    </div>
+                    <p className="mt-1 text-xs text-amber-800">
+                      Cadastre o SKU no produto mestre ou vincule manualmente em Produtos mestre › Pendentes.
+                    </p>
+                    <div className="mt-3 max-h-72 overflow-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left font-extrabold uppercase tracking-wider text-slate-500">
+                            <th className="pb-2 pr-3">Anúncio</th>
+                            <th className="pb-2 pr-3">SKU</th>
+                            <th className="pb-2">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-amber-100">
+                          {catalogReport.withoutMaster.map((l) => (
+                            <tr key={l.productId}>
+                              <td className="py-1.5 pr-3 text-slate-900">{l.name}</td>
+                              <td className="py-1.5 pr-3 font-mono text-slate-600">{l.sku || "—"}</td>
+                              <td className="py-1.5 text-slate-600">{l.itemStatus === "UNLIST" ? "Deslistado" : "Ativo"}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Sync automática + histórico */}
+        <IntegrationSyncSchedules />
+
+        <WebhookEvents />
+
         {/* How it works */}
         <div className={cn(UI.card, "p-6")}>
           <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Como funciona</h3>
@@ -0,0 +1,406 @@
+import React, { useCallback, useEffect, useState } from "react";
+
+import { API_URL } from "./config";
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const UI = {
+  bg: "bg-slate-50",
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+type BankLine = {
+  receivableId: number;
+  date: string;
+  amount: number;
+  supplier: string;
+  description: string;
+};
+
+type ApiResponse = {
+  empty?: boolean;
+  message?: string;
+  period: { from: string; to: string; ledgerFrom: string; ledgerTo: string; minAgeDays: number };
+  summary: {
+    transactions: number;
+    incomeTotal: number;
+    adjustmentsTotal: number;
+    withdrawalsTotal: number;
+    adsTopupTotal: number;
+    unpaidOrders: number;
+    payoutMismatches: number;
+    ordersWithoutFees: number;
+    unknownOrders: number;
+    matchedWithdrawals: number;
+    unmatchedWithdrawals: number;
+    unmatchedBankLines: number;
+  };
+  unpaidOrders: Array<{
+    orderId: string;
+    orderDate: string;
+    status: string;
+    totalPrice: number;
+    settlementAmount: number | null;
+    ageDays: number;
+  }>;
+  payoutMismatches: Array<{
+    orderId: string;
+    orderDate: string;
+    status: string;
+    totalPrice: number;
+    fees: number;
+    expected: number;
+    paidOut: number;
+    adjustments: number;
+    diff: number;
+    paidAt: string;
+  }>;
+  unknownOrders: Array<{ orderSn: string; paidOut: number; adjustments: number; lastPaidAt: string }>;
+  withdrawals: Array<{ id: number; occurredAt: string; amount: number; status: string; bankLine: BankLine | null }>;
+  unmatchedBankLines: BankLine[];
+};
+
+function fmtMoney(v: number | null | undefined) {
+  return Number(v || 0).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtDate(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString("pt-BR");
+}
+
+function SummaryCard({ label, value, tone }: { label: string; value: React.ReactNode; tone?: "ok" | "warn" }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3">
+      <div className="text-xs font-bold tracking-widest uppercase text-slate-500">{label}</div>
+      <div
+        className={cn(
+          "mt-1 text-lg font-black tabular-nums",
+          tone === "warn" ? "text-amber-700" : tone === "ok" ? "text-emerald-700" : "text-slate-900"
+        )}
+      >
+        {value}
+      </div>
+    </div>
+  );
+}
+
+function Section({ title, hint, count, children }: { title: string; hint: string; count: number; children: React.ReactNode }) {
+  return (
+    <div className={cn(UI.card, "p-6")}>
+      <h3 className="text-base font-black tracking-tight text-slate-900">
+        {title} <span className={cn("ml-1", count > 0 ? "text-amber-700" : "text-emerald-700")}>({count})</span>
+      </h3>
+      <p className="mt-1 text-sm text-slate-500">{hint}</p>
+      {count === 0 ? (
+        <p className="mt-4 text-sm font-semibold text-emerald-700">Nada pendente.</p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">{children}</div>
+      )}
+    </div>
+  );
+}
+
+const TH = "pb-2 pr-3";
+const THR = "pb-2 pr-3 text-right";
+const TD = "py-2 pr-3";
+const TDR = "py-2 pr-3 text-right tabular-nums";
+
+/** Conciliação da carteira Shopee: pedidos sem repasse, repasses divergentes e saques × extrato bancário. */
+export default function ShopeeReconciliation(): JSX.Element {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [minAgeDays, setMinAgeDays] = useState("15");
+  const [data, setData] = useState<ApiResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const fetchReconciliation = useCallback(async () => {
+    setLoading(true);
+    setMessage("");
+    try {
+      const qs = new URLSearchParams();
+      if (from) qs.set("from", from);
+      if (to) qs.set("to", to);
+      if (minAgeDays.trim()) qs.set("minAgeDays", minAgeDays.trim());
+      const res = await fetch(`${API_URL}/api/shopee/balance/reconciliation?${qs.toString()}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.message || "Falha ao carregar.");
+      if (json?.empty) {
+        setData(null);
+        setMessage(json.message || "Nenhum extrato importado.");
+        return;
+      }
+      setData(json as ApiResponse);
+    } catch (e: any) {
+      setData(null);
+      setMessage(e.message || "Erro.");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, minAgeDays]);
+
+  useEffect(() => {
+    fetchReconciliation();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const s = data?.summary;
+
+  return (
+    <div className={cn(UI.bg, "min-h-screen")}>
+      <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+        <div className={cn(UI.card, "p-6")}>
+          <h2 className="text-lg font-black tracking-tight text-slate-900">Conciliação da carteira Shopee</h2>
+          <p className="mt-2 text-sm text-slate-600 leading-relaxed">
+            Cruza o <strong>extrato da carteira</strong> (importado em Vendas) com os pedidos Shopee e com o{" "}
+            <strong>extrato bancário</strong> (Contas a receber). Sem datas, usa o período coberto pelo extrato. Pedidos
+            só contam como "sem repasse" depois do prazo mínimo em dias.
+          </p>
+          <div className="mt-4 flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">De</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Até</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Prazo (dias)</label>
+              <input
+                type="number"
+                min={0}
+                value={minAgeDays}
+                onChange={(e) => setMinAgeDays(e.target.value)}
+                className="mt-2 w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 shadow-sm"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={fetchReconciliation}
+              disabled={loading}
+              className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-extrabold text-white shadow-sm hover:bg-slate-800 disabled:opacity-50"
+            >
+              {loading ? "Conciliando…" : "Conciliar"}
+            </button>
+          </div>
+          {message && <p className="mt-3 text-sm font-semibold text-slate-700">{message}</p>}
+        </div>
+
+        {data && s && (
+          <>
+            <div className={cn(UI.card, "p-6")}>
+              <p className="text-sm text-slate-600">
+                Período: <span className="font-extrabold text-slate-900">{fmtDate(`${data.period.from}T12:00:00`)}</span>
+                {" a "}
+                <span className="font-extrabold text-slate-900">{fmtDate(`${data.period.to}T12:00:00`)}</span>
+                {" · "}
+                Extrato importado até <span className="font-bold">{fmtDate(data.period.ledgerTo)}</span>
+                {" · "}
+                {s.transactions} transação(ões)
+              </p>
+              <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+                <SummaryCard label="Renda de pedidos" value={fmtMoney(s.incomeTotal)} />
+                <SummaryCard label="Ajustes" value={fmtMoney(s.adjustmentsTotal)} />
+                <SummaryCard label="Saques" value={fmtMoney(s.withdrawalsTotal)} />
+                <SummaryCard label="Recargas de ADS" value={fmtMoney(s.adsTopupTotal)} />
+                <SummaryCard label="Pedidos sem repasse" value={s.unpaidOrders} tone={s.unpaidOrders ? "warn" : "ok"} />
+                <SummaryCard
+                  label="Repasses divergentes"
+                  value={s.payoutMismatches}
+                  tone={s.payoutMismatches ? "warn" : "ok"}
+                />
+                <SummaryCard
+                  label="Saques conciliados"
+                  value={`${s.matchedWithdrawals} / ${s.matchedWithdrawals + s.unmatchedWithdrawals}`}
+                  tone={s.unmatchedWithdrawals ? "warn" : "ok"}
+                />
+                <SummaryCard
+                  label="Créditos sem saque"
+                  value={s.unmatchedBankLines}
+                  tone={s.unmatchedBankLines ? "warn" : "ok"}
+                />
+              </div>
+              {s.ordersWithoutFees > 0 && (
+                <p className="mt-3 text-xs text-slate-500">
+                  {s.ordersWithoutFees} pedido(s) pagos sem taxas gravadas não foram comparados (importe o Income Shopee).
+                </p>
+              )}
+            </div>
+
+            <Section
+              title="Pedidos sem repasse"
+              hint={`Pedidos Shopee válidos com mais de ${data.period.minAgeDays} dia(s) sem "Renda do pedido" na carteira.`}
+              count={data.unpaidOrders.length}
+            >
+              <table className="w-full text-sm min-w-[640px]">
+                <thead>
+                  <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                    <th className={TH}>Pedido</th>
+                    <th className={TH}>Data</th>
+                    <th className={TH}>Status</th>
+                    <th className={THR}>Total</th>
+                    <th className={THR}>Liquidado</th>
+                    <th className={THR}>Idade (dias)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.unpaidOrders.map((o) => (
+                    <tr key={o.orderId}>
+                      <td className={cn(TD, "font-mono text-xs")}>{o.orderId}</td>
+                      <td className={TD}>{fmtDate(o.orderDate)}</td>
+                      <td className={TD}>{o.status}</td>
+                      <td className={TDR}>{fmtMoney(o.totalPrice)}</td>
+                      <td className={TDR}>{o.settlementAmount != null ? fmtMoney(o.settlementAmount) : "—"}</td>
+                      <td className={TDR}>{o.ageDays}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            <Section
+              title="Repasses divergentes"
+              hint="Renda do pedido na carteira diferente de total − taxas (comissão, serviço, devolução fácil e recarga automática)."
+              count={data.payoutMismatches.length}
+            >
+              <table className="w-full text-sm min-w-[760px]">
+                <thead>
+                  <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                    <th className={TH}>Pedido</th>
+                    <th className={TH}>Pago em</th>
+                    <th className={THR}>Total</th>
+                    <th className={THR}>Taxas</th>
+                    <th className={THR}>Esperado</th>
+                    <th className={THR}>Repassado</th>
+                    <th className={THR}>Ajustes</th>
+                    <th className={THR}>Diferença</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.payoutMismatches.map((o) => (
+                    <tr key={o.orderId}>
+                      <td className={cn(TD, "font-mono text-xs")}>{o.orderId}</td>
+                      <td className={TD}>{fmtDate(o.paidAt)}</td>
+                      <td className={TDR}>{fmtMoney(o.totalPrice)}</td>
+                      <td className={TDR}>{fmtMoney(o.fees)}</td>
+                      <td className={TDR}>{fmtMoney(o.expected)}</td>
+                      <td className={TDR}>{fmtMoney(o.paidOut)}</td>
+                      <td className={TDR}>{o.adjustments ? fmtMoney(o.adjustments) : "—"}</td>
+                      <td className={cn(TDR, "font-bold", o.diff < 0 ? "text-red-700" : "text-amber-700")}>
+                        {fmtMoney(o.diff)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            <Section
+              title="Saques × extrato bancário"
+              hint="Cada saque da carteira procura um crédito de mesmo valor no extrato bancário (até 7 dias depois)."
+              count={data.withdrawals.filter((w) => !w.bankLine).length}
+            >
+              <table className="w-full text-sm min-w-[720px]">
+                <thead>
+                  <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                    <th className={TH}>Saque em</th>
+                    <th className={THR}>Valor</th>
+                    <th className={TH}>Status</th>
+                    <th className={TH}>Crédito no banco</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.withdrawals.map((w) => (
+                    <tr key={w.id} className={w.bankLine ? "" : "bg-amber-50/60"}>
+                      <td className={TD}>{fmtDate(w.occurredAt)}</td>
+                      <td className={TDR}>{fmtMoney(w.amount)}</td>
+                      <td className={TD}>{w.status}</td>
+                      <td className={TD}>
+                        {w.bankLine ? (
+                          <span className="text-emerald-800">
+                            {fmtDate(w.bankLine.date)} · {fmtMoney(w.bankLine.amount)} · {w.bankLine.description}
+                          </span>
+                        ) : (
+                          <span className="font-semibold text-amber-800">Não encontrado</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            <Section
+              title="Créditos Shopee no banco sem saque"
+              hint='Lançamentos em Contas a receber que mencionam "Shopee" e não casaram com nenhum saque do período.'
+              count={data.unmatchedBankLines.length}
+            >
+              <table className="w-full text-sm min-w-[640px]">
+                <thead>
+                  <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                    <th className={TH}>Data</th>
+                    <th className={TH}>Origem</th>
+                    <th className={TH}>Descrição</th>
+                    <th className={THR}>Valor</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.unmatchedBankLines.map((r) => (
+                    <tr key={r.receivableId}>
+                      <td className={TD}>{fmtDate(r.date)}</td>
+                      <td className={TD}>{r.supplier}</td>
+                      <td className={TD}>{r.description}</td>
+                      <td className={TDR}>{fmtMoney(r.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            <Section
+              title="Repasses de pedidos fora do sistema"
+              hint="Renda na carteira para pedidos que ainda não foram importados (CSV de pedidos Shopee)."
+              count={data.unknownOrders.length}
+            >
+              <table className="w-full text-sm min-w-[520px]">
+                <thead>
+                  <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                    <th className={TH}>Pedido</th>
+                    <th className={TH}>Pago em</th>
+                    <th className={THR}>Repassado</th>
+                    <th className={THR}>Ajustes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.unknownOrders.map((o) => (
+                    <tr key={o.orderSn}>
+                      <td className={cn(TD, "font-mono text-xs")}>{o.orderSn}</td>
+                      <td className={TD}>{fmtDate(o.lastPaidAt)}</td>
+                      <td className={TDR}>{fmtMoney(o.paidOut)}</td>
+                      <td className={TDR}>{o.adjustments ? fmtMoney(o.adjustments) : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ type SimulationData = {
   taxasShopeePercent: number;
   taxasTiktok: number;
   taxasTiktokPercent: number;
+  taxasMercadoLivre: number;
+  taxasMercadoLivrePercent: number;
   taxasCartaoPix: number;
   taxasCartaoPixPercent: number;
   frete: number;
@@ -20,6 +22,11 @@ type SimulationData = {
   custoProducaoPercent: number;
   custoFixo: number;
   custoFixoPercent: number;
+  /** Logística reversa + taxas não reembolsadas dos pedidos devolvidos. */
+  devolucoes: number;
+  devolucoesPercent: number;
+  devolucoesLogistica: number;
+  devolucoesTaxas: number;
   imposto: number;
   impostoPercent: number;
   /** Alíquota configurada do mês (%). Default 5. */
@@ -34,9 +41,11 @@ type SimulationItemKey =
   | "adsInvestimento"
   | "taxasShopee"
   | "taxasTiktok"
+  | "taxasMercadoLivre"
   | "taxasCartaoPix"
   | "frete"
   | "custoProducao"
+  | "devolucoes"
   | "custoFixo"
   | "imposto";
 
@@ -150,6 +159,7 @@ const channelLabel: Record<string, string> = {
   all: "Todos os canais",
   shopee: "Shopee",
   tiktok: "TikTok",
+  mercadolivre: "Mercado Livre",
   tray: "Site Tray (atacado + varejo)",
   atacado: "Atacado",
   tray_varejo: "Tray Varejo",
@@ -179,9 +189,11 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
     adsInvestimento: true,
     taxasShopee: true,
     taxasTiktok: true,
+    taxasMercadoLivre: true,
     taxasCartaoPix: true,
     frete: true,
     custoProducao: true,
+    devolucoes: true,
     custoFixo: true,
     imposto: true,
   });
@@ -190,6 +202,12 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
   const [taxSaving, setTaxSaving] = useState(false);
   const [taxMessage, setTaxMessage] = useState("");
 
+  const [returnCostsOpen, setReturnCostsOpen] = useState(false);
+  const [returnCostChannels, setReturnCostChannels] = useState<string[]>([]);
+  const [returnCostDrafts, setReturnCostDrafts] = useState<Record<string, string>>({});
+  const [returnCostSaving, setReturnCostSaving] = useState(false);
+  const [returnCostMessage, setReturnCostMessage] = useState("");
+
   function toggleInclude(key: SimulationItemKey) {
     setInclude((s) => ({ ...s, [key]: !s[key] }));
   }
@@ -201,9 +219,11 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
     const adsInvestimento = include.adsInvestimento ? Number(d.adsInvestimento || 0) : 0;
     const taxasShopee = include.taxasShopee ? Number(d.taxasShopee || 0) : 0;
     const taxasTiktok = include.taxasTiktok ? Number(d.taxasTiktok || 0) : 0;
+    const taxasMercadoLivre = include.taxasMercadoLivre ? Number(d.taxasMercadoLivre || 0) : 0;
     const taxasCartaoPix = include.taxasCartaoPix ? Number(d.taxasCartaoPix || 0) : 0;
     const frete = include.frete ? Number(d.frete || 0) : 0;
     const custoProducao = include.custoProducao ? Number(d.custoProducao || 0) : 0;
+    const devolucoes = include.devolucoes ? Number(d.devolucoes || 0) : 0;
     const custoFixo = include.custoFixo ? Number(d.custoFixo || 0) : 0;
     const imposto = include.imposto ? Number(d.imposto || 0) : 0;
 
@@ -211,9 +231,11 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
       adsInvestimento +
       taxasShopee +
       taxasTiktok +
+      taxasMercadoLivre +
       taxasCartaoPix +
       frete +
       custoProducao +
+      devolucoes +
       imposto;
     const margemContribuicao = faturamentoBruto - custosVariaveis;
     const margemContribuicaoPercent =
@@ -231,12 +253,16 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
       taxasShopeePercent: pct(taxasShopee),
       taxasTiktok,
       taxasTiktokPercent: pct(taxasTiktok),
+      taxasMercadoLivre,
+      taxasMercadoLivrePercent: pct(taxasMercadoLivre),
       taxasCartaoPix,
       taxasCartaoPixPercent: pct(taxasCartaoPix),
       frete,
       fretePercent: pct(frete),
       custoProducao,
       custoProducaoPercent: pct(custoProducao),
+      devolucoes,
+      devolucoesPercent: pct(devolucoes),
       custoFixo,
       custoFixoPercent: pct(custoFixo),
       imposto,
@@ -279,9 +305,11 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
         const adsInvestimento = sum("adsInvestimento");
         const taxasShopee = sum("taxasShopee");
         const taxasTiktok = sum("taxasTiktok");
+        const taxasMercadoLivre = sum("taxasMercadoLivre");
         const taxasCartaoPix = sum("taxasCartaoPix");
         const frete = sum("frete");
         const custoProducao = sum("custoProducao");
+        const devolucoes = sum("devolucoes");
         const custoFixo = sum("custoFixo");
         const imposto = sum("imposto");
 
@@ -289,9 +317,11 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
           adsInvestimento +
           taxasShopee +
           taxasTiktok +
+          taxasMercadoLivre +
           taxasCartaoPix +
           frete +
           custoProducao +
+          devolucoes +
           imposto;
         const margemContribuicao = faturamentoBruto - custosVariaveis;
         const margemContribuicaoPercent =
@@ -311,12 +341,18 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
           taxasShopeePercent: pct(taxasShopee),
           taxasTiktok,
           taxasTiktokPercent: pct(taxasTiktok),
+          taxasMercadoLivre,
+          taxasMercadoLivrePercent: pct(taxasMercadoLivre),
           taxasCartaoPix,
           taxasCartaoPixPercent: pct(taxasCartaoPix),
           frete,
           fretePercent: pct(frete),
           custoProducao,
           custoProducaoPercent: pct(custoProducao),
+          devolucoes,
+          devolucoesPercent: pct(devolucoes),
+          devolucoesLogistica: sum("devolucoesLogistica"),
+          devolucoesTaxas: sum("devolucoesTaxas"),
           custoFixo,
           custoFixoPercent: pct(custoFixo),
           imposto,
@@ -374,6 +410,55 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
     }
   }
 
+  async function loadReturnCosts() {
+    setReturnCostMessage("");
+    try {
+      const res = await fetch(`${API_URL}/api/simulation/return-costs`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.message || "Falha ao carregar custos de devolução.");
+      const costs: Record<string, number> = json.costs || {};
+      setReturnCostChannels(json.channels || Object.keys(costs));
+      setReturnCostDrafts(Object.fromEntries(Object.entries(costs).map(([k, v]) => [k, String(v ?? 0)])));
+    } catch (e: any) {
+      setReturnCostMessage(`Erro: ${e.message}`);
+    }
+  }
+
+  function toggleReturnCosts() {
+    const next = !returnCostsOpen;
+    setReturnCostsOpen(next);
+    if (next) loadReturnCosts();
+  }
+
+  async function saveReturnCosts() {
+    const costs: Record<string, number> = {};
+    for (const ch of returnCostChannels) {
+      const parsed = Number(String(returnCostDrafts[ch] ?? "0").replace(",", ".") || 0);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        setReturnCostMessage(`Custo inválido para ${channelLabel[ch] || ch}.`);
+        return;
+      }
+      costs[ch] = parsed;
+    }
+    setReturnCostSaving(true);
+    setReturnCostMessage("");
+    try {
+      const res = await fetch(`${API_URL}/api/simulation/return-costs`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ costs }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.message || "Falha ao salvar custos de devolução.");
+      setReturnCostMessage("Custos de logística reversa salvos.");
+      await fetchData();
+    } catch (e: any) {
+      setReturnCostMessage(`Erro: ${e.message}`);
+    } finally {
+      setReturnCostSaving(false);
+    }
+  }
+
   function closeDetailModal() {
     if (detailLoading || freightSavingKey) return;
     setDetailKind(null);
@@ -547,6 +632,7 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
                   <option value="all">Todos</option>
                   <option value="shopee">Shopee</option>
                   <option value="tiktok">TikTok</option>
+                  <option value="mercadolivre">Mercado Livre</option>
                   <option value="tray">Tray (todos)</option>
                   <option value="atacado">Atacado</option>
                   <option value="tray_varejo">Tray Varejo</option>
@@ -891,6 +977,21 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
                     <td className="py-2 text-right font-bold text-slate-900">{fmtMoney(data.taxasTiktok)}</td>
                     <td className="py-2 text-right text-slate-500">{data.taxasTiktokPercent.toFixed(2)}%</td>
                   </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-2 pr-4 text-slate-700">
+                      <label className="inline-flex items-center gap-2 select-none">
+                        <input
+                          type="checkbox"
+                          checked={include.taxasMercadoLivre}
+                          onChange={() => toggleInclude("taxasMercadoLivre")}
+                          className="h-4 w-4 rounded border-slate-300"
+                        />
+                        <span>(-) Taxas Mercado Livre</span>
+                      </label>
+                    </td>
+                    <td className="py-2 text-right font-bold text-slate-900">{fmtMoney(data.taxasMercadoLivre)}</td>
+                    <td className="py-2 text-right text-slate-500">{(data.taxasMercadoLivrePercent ?? 0).toFixed(2)}%</td>
+                  </tr>
                   <tr className="border-b border-slate-100">
                     <td className="py-2 pr-4 text-slate-700">
                       <label className="inline-flex items-center gap-2 select-none">
@@ -952,6 +1053,80 @@ export default function Simulation({ onOpenGrossRevenue }: SimulationProps): JSX
                     <td className="py-2 text-right font-bold text-slate-900">{fmtMoney(data.custoProducao)}</td>
                     <td className="py-2 text-right text-slate-500">{data.custoProducaoPercent.toFixed(2)}%</td>
                   </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-2 pr-4 text-slate-700">
+                      <div className="flex flex-col gap-1.5">
+                        <label className="inline-flex items-center gap-2 select-none">
+                          <input
+                            type="checkbox"
+                            checked={include.devolucoes}
+                            onChange={() => toggleInclude("devolucoes")}
+                            className="h-4 w-4 rounded border-slate-300"
+                          />
+                          <span>(-) Devoluções</span>
+                        </label>
+                        <div className="ml-6 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+                          <span>
+                            Logística reversa {fmtMoney(data.devolucoesLogistica || 0)} · Taxas não reembolsadas{" "}
+                            {fmtMoney(data.devolucoesTaxas || 0)}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={toggleReturnCosts}
+                            className="font-extrabold text-slate-700 underline decoration-slate-300 underline-offset-2 hover:decoration-slate-600"
+                          >
+                            {returnCostsOpen ? "Fechar" : "Custo por canal"}
+                          </button>
+                        </div>
+                        {returnCostsOpen && (
+                          <div className="ml-6 flex flex-wrap items-center gap-2">
+                            <span className="text-[11px] text-slate-500">
+                              Por pedido devolvido, quando o pedido não trouxe a taxa de envio reversa:
+                            </span>
+                            {returnCostChannels.map((ch) => (
+                              <label key={ch} className="inline-flex items-center gap-1 text-[11px] text-slate-600">
+                                <span>{channelLabel[ch] || ch}</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={0.01}
+                                  value={returnCostDrafts[ch] ?? ""}
+                                  disabled={returnCostSaving}
+                                  onChange={(e) => {
+                                    setReturnCostDrafts((s) => ({ ...s, [ch]: e.target.value }));
+                                    setReturnCostMessage("");
+                                  }}
+                                  className="w-20 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-800 disabled:bg-slate-100"
+                                />
+                              </label>
+                            ))}
+                            <button
+                              type="button"
+                              disabled={returnCostSaving || returnCostChannels.length === 0}
+                              onClick={saveReturnCosts}
+                              className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 text-[11px] font-extrabold text-slate-800 hover:bg-slate-50 disabled:opacity-50"
+                            >
+                              {returnCostSaving ? "Salvando..." : "Salvar"}
+                            </button>
+                          </div>
+                        )}
+                        {returnCostMessage && (
+                          <span
+                            className={cn(
+                              "ml-6 text-[11px] font-semibold",
+                              returnCostMessage.startsWith("Erro") || returnCostMessage.startsWith("Custo inválido")
+                                ? "text-red-600"
+                                : "text-emerald-700",
+                            )}
+                          >
+                            {returnCostMessage}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 text-right font-bold text-slate-900">{fmtMoney(data.devolucoes || 0)}</td>
+                    <td className="py-2 text-right text-slate-500">{(data.devolucoesPercent || 0).toFixed(2)}%</td>
+                  </tr>
                   <tr className="border-b border-slate-100">
                     <td className="py-2 pr-4 text-slate-700">
                       <div className="flex flex-col gap-1.5">
@@ -26,6 +26,7 @@ const channelLabel: Record<string, string> = {
   all: "Todos os canais",
   shopee: "Shopee",
   tiktok: "TikTok",
+  mercadolivre: "Mercado Livre",
   tray: "Site Tray (atacado + varejo)",
   atacado: "Atacado",
   tray_varejo: "Tray Varejo",
@@ -34,6 +35,7 @@ const channelLabel: Record<string, string> = {
 const sourceBadge: Record<string, string> = {
   shopee: "bg-orange-100 text-orange-800",
   tiktok: "bg-slate-800 text-white",
+  mercadolivre: "bg-yellow-300 text-slate-900",
   tray: "bg-blue-100 text-blue-800",
   atacado: "bg-sky-900 text-white",
   tray_varejo: "bg-sky-400 text-slate-900",
@@ -310,6 +312,7 @@ export default function SimulationGrossRevenue({ initialParams, onBack }: Props)
                 <option value="all">Todos</option>
                 <option value="shopee">Shopee</option>
                 <option value="tiktok">TikTok</option>
+                <option value="mercadolivre">Mercado Livre</option>
                 <option value="tray">Tray (todos)</option>
                 <option value="atacado">Atacado</option>
                 <option value="tray_varejo">Tray Varejo</option>
@@ -531,7 +531,13 @@ export default function Stock() {
                                 {v.source && (
                                   <span className={cn(
                                     "text-[10px] rounded px-1.5 py-0.5 font-bold text-white",
-                                    v.source === "shopee" ? "bg-orange-500" : v.source === "tiktok" ? "bg-slate-700" : "bg-indigo-600"
+                                    v.source === "shopee"
+                                      ? "bg-orange-500"
+                                      : v.source === "tiktok"
+                                        ? "bg-slate-700"
+                                        : v.source === "mercadolivre"
+                                          ? "bg-yellow-500"
+                                          : "bg-indigo-600"
                                   )}>
                                     {v.source}
                                   </span>
@@ -17,7 +17,10 @@ type MasterStockItem = {
   sku: string;
   name: string;
   opening: number;
+  hasStock: boolean;
   sold: number;
+  /** Devoluções em condição de revenda (entrada no estoque). */
+  restocked: number;
   current: number;
   costPrice: number | null;
   effectiveCostDate: string | null;
@@ -70,6 +73,7 @@ function channelBadgeClass(src: string) {
   const s = src.toLowerCase();
   if (s.includes("shopee")) return "bg-orange-600 text-white";
   if (s.includes("tiktok")) return "bg-slate-800 text-white";
+  if (s.includes("mercadolivre")) return "bg-yellow-300 text-slate-900";
   if (s.includes("tray")) return "bg-indigo-700 text-white";
   return "bg-slate-200 text-slate-700";
 }
@@ -270,7 +274,12 @@ export default function StockOverview() {
                         </div>
                       </td>
                       <td className="px-3 py-3 text-right text-slate-700">{row.opening}</td>
-                      <td className="px-3 py-3 text-right text-slate-700">{row.sold}</td>
+                      <td className="px-3 py-3 text-right text-slate-700">
+                        {row.sold}
+                        {row.restocked > 0 && (
+                          <div className="text-[11px] font-semibold text-emerald-600">+{row.restocked} devolvido</div>
+                        )}
+                      </td>
                       <td className="px-3 py-3 text-right font-extrabold text-slate-900">{row.current}</td>
                       <td className="px-3 py-3 text-right text-slate-800">{fmtMoney(row.costPrice)}</td>
                       <td className="px-3 py-3 text-slate-600">{fmtDateBR(row.effectiveCostDate)}</td>
@@ -0,0 +1,513 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { CheckCircle2, Eye, History, Loader2, Save, Send, XCircle } from "lucide-react";
+
+import { API_URL } from "./config";
+
+const UI = {
+  bg: "min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-50",
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+type Channel = "shopee" | "tiktok_shop";
+type RunStatus = "running" | "succeeded" | "partial" | "failed";
+
+type PushRun = {
+  id: number;
+  channel: Channel;
+  trigger: "schedule" | "manual";
+  status: RunStatus;
+  planned: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+  message: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+type PushItem = {
+  id: number;
+  masterSku: string | null;
+  productCode: string;
+  productName: string | null;
+  listingRef: string | null;
+  previousStock: number | null;
+  quantity: number | null;
+  status: "updated" | "unchanged" | "skipped" | "failed";
+  error: string | null;
+};
+
+type ChannelConfig = {
+  channel: Channel;
+  label: string;
+  connected: boolean;
+  safetyBuffer: number;
+  cron: string;
+  nextRunAt: string | null;
+  running: boolean;
+  lastRun: PushRun | null;
+};
+
+type PlanRow = {
+  masterProductId: number;
+  masterSku: string;
+  masterName: string;
+  productId: number;
+  productCode: string;
+  productName: string;
+  listingLabel: string | null;
+  available: number;
+  buffer: number;
+  quantity: number | null;
+  channelStock: number | null;
+  action: "update" | "unchanged" | "skip";
+  reason: string | null;
+};
+
+type Preview = {
+  channel: Channel;
+  safetyBuffer: number;
+  summary: { update: number; unchanged: number; skip: number };
+  rows: PlanRow[];
+};
+
+const RUN_STATUS: Record<RunStatus, { label: string; color: string }> = {
+  running: { label: "Enviando", color: "text-sky-700 bg-sky-50" },
+  succeeded: { label: "OK", color: "text-emerald-700 bg-emerald-50" },
+  partial: { label: "Parcial", color: "text-amber-700 bg-amber-50" },
+  failed: { label: "Falhou", color: "text-red-700 bg-red-50" },
+};
+
+const ACTION_LABEL: Record<PlanRow["action"], { label: string; color: string }> = {
+  update: { label: "Atualizar", color: "text-sky-700 bg-sky-50" },
+  unchanged: { label: "Sem mudança", color: "text-slate-600 bg-slate-100" },
+  skip: { label: "Ignorado", color: "text-amber-700 bg-amber-50" },
+};
+
+const ITEM_STATUS: Record<PushItem["status"], { label: string; color: string }> = {
+  updated: { label: "Atualizado", color: "text-emerald-700 bg-emerald-50" },
+  unchanged: { label: "Sem mudança", color: "text-slate-600 bg-slate-100" },
+  skipped: { label: "Ignorado", color: "text-amber-700 bg-amber-50" },
+  failed: { label: "Falhou", color: "text-red-700 bg-red-50" },
+};
+
+const CRON_PRESETS = [
+  { value: "", label: "Desativado (só manual)" },
+  { value: "*/30 * * * *", label: "A cada 30 minutos" },
+  { value: "0 * * * *", label: "A cada hora" },
+  { value: "0 */4 * * *", label: "A cada 4 horas" },
+  { value: "0 7 * * *", label: "Diário às 07:00" },
+];
+
+function fmtDateTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("pt-BR") : "—";
+}
+
+/** Envio do saldo dos produtos mestre para os anúncios Shopee / TikTok Shop: prévia, envio e histórico. */
+export default function StockPush() {
+  const [configs, setConfigs] = useState<ChannelConfig[]>([]);
+  const [runs, setRuns] = useState<PushRun[]>([]);
+  const [draft, setDraft] = useState<Record<string, { safetyBuffer: string; cron: string }>>({});
+  const [channel, setChannel] = useState<Channel>("shopee");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [runItems, setRunItems] = useState<PushItem[]>([]);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [cRes, rRes] = await Promise.all([
+        fetch(`${API_URL}/api/stock-push/config`),
+        fetch(`${API_URL}/api/stock-push/runs?limit=30`),
+      ]);
+      const cData = await cRes.json();
+      const rData = await rRes.json();
+      if (!cRes.ok) throw new Error(cData?.message || "Erro ao carregar configuração.");
+      if (!rRes.ok) throw new Error(rData?.message || "Erro ao carregar histórico.");
+      setConfigs(cData as ChannelConfig[]);
+      setRuns(rData as PushRun[]);
+      setDraft((prev) => {
+        const next = { ...prev };
+        for (const c of cData as ChannelConfig[]) {
+          if (next[c.channel] === undefined) next[c.channel] = { safetyBuffer: String(c.safetyBuffer), cron: c.cron };
+        }
+        return next;
+      });
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const anyRunning = configs.some((c) => c.running) || runs.some((r) => r.status === "running");
+  useEffect(() => {
+    if (!anyRunning) return;
+    const t = setInterval(fetchAll, 3000);
+    return () => clearInterval(t);
+  }, [anyRunning, fetchAll]);
+
+  const saveConfig = async (ch: Channel) => {
+    setBusy(`save_${ch}`);
+    setMessage(null);
+    try {
+      const d = draft[ch] ?? { safetyBuffer: "0", cron: "" };
+      const res = await fetch(`${API_URL}/api/stock-push/config/${ch}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ safetyBuffer: Number(d.safetyBuffer || 0), cron: d.cron }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao salvar configuração.");
+      setMessage({ type: "success", text: "Configuração salva." });
+      await fetchAll();
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const loadPreview = async () => {
+    setBusy("preview");
+    setMessage(null);
+    setPreview(null);
+    try {
+      const res = await fetch(`${API_URL}/api/stock-push/${channel}/preview`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao montar prévia.");
+      setPreview(data as Preview);
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runPush = async () => {
+    if (!window.confirm("Enviar o estoque calculado para os anúncios do canal agora?")) return;
+    setBusy("run");
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_URL}/api/stock-push/${channel}/run`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao iniciar envio.");
+      setMessage({ type: "success", text: data.message || "Envio de estoque iniciado." });
+      setPreview(null);
+      await fetchAll();
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleRun = async (id: number) => {
+    if (expandedRunId === id) {
+      setExpandedRunId(null);
+      return;
+    }
+    setExpandedRunId(id);
+    setRunItems([]);
+    try {
+      const res = await fetch(`${API_URL}/api/stock-push/runs/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao carregar envio.");
+      setRunItems((data.items ?? []) as PushItem[]);
+    } catch (e: any) {
+      setMessage({ type: "error", text: e.message || "Erro de conexão." });
+    }
+  };
+
+  const selected = configs.find((c) => c.channel === channel);
+  const labelOf = (ch: string) => configs.find((c) => c.channel === ch)?.label ?? ch;
+  const previewRows = (preview?.rows ?? []).filter((r) => !onlyChanges || r.action !== "unchanged");
+
+  return (
+    <div className={UI.bg}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        {message && (
+          <div
+            className={cn(
+              "rounded-xl border px-4 py-3 text-sm font-semibold flex items-center gap-2",
+              message.type === "success"
+                ? "bg-emerald-50 border-emerald-200 text-emerald-800"
+                : "bg-red-50 border-red-200 text-red-800"
+            )}
+          >
+            {message.type === "success" ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {message.text}
+          </div>
+        )}
+
+        <div className={cn(UI.card, "p-6")}>
+          <h3 className="text-sm font-extrabold tracking-wide text-slate-900">Canais</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            Quantidade enviada = saldo atual do produto mestre menos a margem de segurança do canal. Só entram produtos de
+            canal vinculados a um mestre com estoque lançado. O envio automático segue o cron (horário do servidor).
+          </p>
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+            {configs.map((c) => {
+              const d = draft[c.channel] ?? { safetyBuffer: String(c.safetyBuffer), cron: c.cron };
+              const dirty = d.safetyBuffer !== String(c.safetyBuffer) || d.cron !== c.cron;
+              return (
+                <div key={c.channel} className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm font-bold text-slate-900">{c.label}</div>
+                    <div className="text-xs text-slate-500">
+                      {!c.connected
+                        ? "Desconectada"
+                        : c.running
+                          ? "Enviando…"
+                          : `Próximo: ${c.nextRunAt ? fmtDateTime(c.nextRunAt) : "—"} · Último: ${fmtDateTime(c.lastRun?.startedAt ?? null)}`}
+                    </div>
+                  </div>
+                  <div className="mt-3 flex flex-wrap items-end gap-3">
+                    <div>
+                      <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Margem</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={d.safetyBuffer}
+                        onChange={(e) => setDraft((p) => ({ ...p, [c.channel]: { ...d, safetyBuffer: e.target.value } }))}
+                        className="mt-2 w-20 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Cron</label>
+                      <input
+                        type="text"
+                        value={d.cron}
+                        onChange={(e) => setDraft((p) => ({ ...p, [c.channel]: { ...d, cron: e.target.value } }))}
+                        placeholder="0 * * * *"
+                        className="mt-2 w-32 rounded-xl border border-slate-200 bg-white px-3 py-2 font-mono text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+                      />
+                    </div>
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const preset = CRON_PRESETS[Number(e.target.value)];
+                        if (preset) setDraft((p) => ({ ...p, [c.channel]: { ...d, cron: preset.value } }));
+                      }}
+                      className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm"
+                    >
+                      <option value="">Sugestões…</option>
+                      {CRON_PRESETS.map((p, i) => (
+                        <option key={p.label} value={i}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => saveConfig(c.channel)}
+                      disabled={busy !== null || !dirty}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-extrabold shadow-sm hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-500 transition"
+                    >
+                      <Save className="w-4 h-4" />
+                      Salvar
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className={cn(UI.card, "p-6")}>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-bold tracking-widest uppercase text-slate-500">Canal</label>
+              <select
+                value={channel}
+                onChange={(e) => {
+                  setChannel(e.target.value as Channel);
+                  setPreview(null);
+                }}
+                className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm"
+              >
+                {configs.map((c) => (
+                  <option key={c.channel} value={c.channel}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={loadPreview}
+              disabled={busy !== null || !selected?.connected}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-extrabold shadow-sm hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-500 transition"
+            >
+              {busy === "preview" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              Pré-visualizar
+            </button>
+            <button
+              onClick={runPush}
+              disabled={busy !== null || !selected?.connected || selected?.running}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm font-extrabold shadow-sm hover:bg-emerald-700 disabled:bg-slate-200 disabled:text-slate-500 transition"
+            >
+              {selected?.running || busy === "run" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Enviar estoque
+            </button>
+            {selected && !selected.connected && (
+              <span className="text-xs font-semibold text-amber-700">Conecte a integração na tela Integrações.</span>
+            )}
+          </div>
+
+          {preview && (
+            <div className="mt-5">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="font-bold text-sky-700">{preview.summary.update} a atualizar</span>
+                <span className="font-bold text-slate-600">{preview.summary.unchanged} sem mudança</span>
+                <span className="font-bold text-amber-700">{preview.summary.skip} ignorado(s)</span>
+                <span className="text-xs text-slate-500">Margem: {preview.safetyBuffer}</span>
+                <label className="ml-auto flex items-center gap-2 text-xs font-semibold text-slate-600">
+                  <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+                  Ocultar sem mudança
+                </label>
+              </div>
+              <div className="mt-3 max-h-[480px] overflow-auto">
+                <table className="w-full text-sm min-w-[860px]">
+                  <thead>
+                    <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                      <th className="pb-2 pr-3">Mestre</th>
+                      <th className="pb-2 pr-3">Produto de canal</th>
+                      <th className="pb-2 pr-3">Anúncio</th>
+                      <th className="pb-2 pr-3 text-right">Saldo</th>
+                      <th className="pb-2 pr-3 text-right">No canal</th>
+                      <th className="pb-2 pr-3 text-right">Enviar</th>
+                      <th className="pb-2">Ação</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {previewRows.map((r) => {
+                      const a = ACTION_LABEL[r.action];
+                      return (
+                        <tr key={r.productId}>
+                          <td className="py-2 pr-3">
+                            <div className="font-semibold text-slate-900">{r.masterName}</div>
+                            <div className="font-mono text-xs text-slate-500">{r.masterSku}</div>
+                          </td>
+                          <td className="py-2 pr-3">
+                            <div className="text-slate-900">{r.productName}</div>
+                            <div className="font-mono text-xs text-slate-500">{r.productCode}</div>
+                          </td>
+                          <td className="py-2 pr-3 font-mono text-xs text-slate-600">{r.listingLabel ?? "—"}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.available}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.channelStock ?? "—"}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums font-bold">{r.quantity ?? "—"}</td>
+                          <td className="py-2">
+                            <span className={cn("rounded-lg px-2 py-0.5 text-xs font-bold", a.color)}>{a.label}</span>
+                            {r.reason && <div className="mt-1 text-xs text-slate-500">{r.reason}</div>}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {previewRows.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="py-6 text-center text-slate-500">
+                          Nenhum anúncio vinculado a produto mestre neste canal.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className={cn(UI.card, "p-6")}>
+          <h3 className="text-sm font-extrabold tracking-wide text-slate-900 flex items-center gap-2">
+            <History className="w-4 h-4 text-slate-400" />
+            Histórico de envios
+          </h3>
+          {runs.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">Nenhum envio registrado ainda.</p>
+          ) : (
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full text-sm min-w-[720px]">
+                <thead>
+                  <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                    <th className="pb-2 pr-3">Início</th>
+                    <th className="pb-2 pr-3">Canal</th>
+                    <th className="pb-2 pr-3">Origem</th>
+                    <th className="pb-2 pr-3">Status</th>
+                    <th className="pb-2 pr-3 text-right">Atualizados</th>
+                    <th className="pb-2 pr-3 text-right">Sem mudança</th>
+                    <th className="pb-2 pr-3 text-right">Ignorados</th>
+                    <th className="pb-2 text-right">Falhas</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {runs.map((r) => {
+                    const st = RUN_STATUS[r.status] ?? RUN_STATUS.failed;
+                    return (
+                      <React.Fragment key={r.id}>
+                        <tr className="cursor-pointer hover:bg-slate-50" onClick={() => toggleRun(r.id)}>
+                          <td className="py-2 pr-3 whitespace-nowrap">{fmtDateTime(r.startedAt)}</td>
+                          <td className="py-2 pr-3">{labelOf(r.channel)}</td>
+                          <td className="py-2 pr-3">{r.trigger === "schedule" ? "Agendado" : "Manual"}</td>
+                          <td className="py-2 pr-3">
+                            <span className={cn("rounded-lg px-2 py-0.5 text-xs font-bold", st.color)}>{st.label}</span>
+                          </td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.updated}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.unchanged}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.skipped}</td>
+                          <td className={cn("py-2 text-right tabular-nums", r.failed > 0 && "font-bold text-red-700")}>
+                            {r.failed}
+                          </td>
+                        </tr>
+                        {expandedRunId === r.id && (
+                          <tr>
+                            <td colSpan={8} className="pb-3">
+                              {r.message && <div className="text-xs font-semibold text-slate-600">{r.message}</div>}
+                              {runItems.length > 0 && (
+                                <div className="mt-2 max-h-80 overflow-auto rounded-xl border border-slate-200">
+                                  <table className="w-full text-xs">
+                                    <tbody className="divide-y divide-slate-100">
+                                      {runItems.map((it) => {
+                                        const s = ITEM_STATUS[it.status] ?? ITEM_STATUS.failed;
+                                        return (
+                                          <tr key={it.id}>
+                                            <td className="px-3 py-1.5 font-mono text-slate-500">{it.masterSku ?? "—"}</td>
+                                            <td className="px-3 py-1.5 text-slate-900">{it.productName ?? it.productCode}</td>
+                                            <td className="px-3 py-1.5 font-mono text-slate-500">{it.listingRef ?? "—"}</td>
+                                            <td className="px-3 py-1.5 text-right tabular-nums">
+                                              {it.previousStock ?? "—"} → {it.quantity ?? "—"}
+                                            </td>
+                                            <td className="px-3 py-1.5">
+                                              <span className={cn("rounded-lg px-2 py-0.5 font-bold", s.color)}>{s.label}</span>
+                                            </td>
+                                            <td className="px-3 py-1.5 text-slate-500">{it.error ?? ""}</td>
+                                          </tr>
+                                        );
+                                      })}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
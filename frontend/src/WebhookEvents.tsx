@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCw, RotateCcw, Webhook } from "lucide-react";
+
+import { API_URL } from "./config";
+
+const UI = {
+  card: "bg-white/90 backdrop-blur border border-slate-200 shadow-sm rounded-2xl",
+};
+
+function cn(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+type EventStatus = "pending" | "processing" | "processed" | "failed" | "ignored" | "rejected";
+
+type WebhookEvent = {
+  id: number;
+  source: "shopee" | "tiktok_shop";
+  eventType: string | null;
+  shopRef: string | null;
+  orderRef: string | null;
+  status: EventStatus;
+  signatureValid: boolean;
+  error: string | null;
+  attempts: number;
+  receivedAt: string;
+  processedAt: string | null;
+  rawBody?: string;
+};
+
+const SOURCE_LABELS: Record<WebhookEvent["source"], string> = {
+  shopee: "Shopee",
+  tiktok_shop: "TikTok Shop",
+};
+
+const STATUS: Record<EventStatus, { label: string; color: string }> = {
+  pending: { label: "Na fila", color: "text-sky-700 bg-sky-50" },
+  processing: { label: "Processando", color: "text-sky-700 bg-sky-50" },
+  processed: { label: "Processado", color: "text-emerald-700 bg-emerald-50" },
+  failed: { label: "Falhou", color: "text-red-700 bg-red-50" },
+  ignored: { label: "Ignorado", color: "text-slate-600 bg-slate-100" },
+  rejected: { label: "Assinatura inválida", color: "text-red-700 bg-red-50" },
+};
+
+function fmtDateTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("pt-BR") : "—";
+}
+
+/** Log dos webhooks recebidos (Shopee / TikTok Shop) com replay para depuração. */
+export default function WebhookEvents() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [source, setSource] = useState("");
+  const [status, setStatus] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<WebhookEvent | null>(null);
+  const [replaying, setReplaying] = useState<number | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (source) params.set("source", source);
+      if (status) params.set("status", status);
+      const res = await fetch(`${API_URL}/api/webhooks/events?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao carregar eventos.");
+      setEvents(data as WebhookEvent[]);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || "Erro de conexão.");
+    } finally {
+      setLoading(false);
+    }
+  }, [source, status]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const toggle = async (ev: WebhookEvent) => {
+    if (expanded?.id === ev.id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      const res = await fetch(`${API_URL}/api/webhooks/events/${ev.id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao carregar evento.");
+      setExpanded(data as WebhookEvent);
+    } catch (e: any) {
+      setError(e.message || "Erro de conexão.");
+    }
+  };
+
+  const replay = async (id: number) => {
+    setReplaying(id);
+    try {
+      const res = await fetch(`${API_URL}/api/webhooks/events/${id}/replay`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.message || "Erro ao reprocessar evento.");
+      setError(null);
+      await fetchEvents();
+    } catch (e: any) {
+      setError(e.message || "Erro de conexão.");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className={cn(UI.card, "p-6")}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-extrabold tracking-wide text-slate-900 flex items-center gap-2">
+          <Webhook className="w-4 h-4 text-slate-400" />
+          Webhooks recebidos
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm"
+          >
+            <option value="">Todas as origens</option>
+            <option value="shopee">Shopee</option>
+            <option value="tiktok_shop">TikTok Shop</option>
+          </select>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm"
+          >
+            <option value="">Todos os status</option>
+            {(Object.keys(STATUS) as EventStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {STATUS[s].label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={fetchEvents}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm font-bold text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Atualizar
+          </button>
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        Cadastre na plataforma a URL de callback: <span className="font-mono">{API_URL}/api/webhooks/shopee</span> (Shopee)
+        ou <span className="font-mono">{API_URL}/api/webhooks/tiktok-shop</span> (TikTok Shop). Cada evento válido reconsulta o
+        pedido na API em poucos segundos.
+      </p>
+
+      {error && (
+        <div className="mt-3 rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm font-semibold text-red-800">{error}</div>
+      )}
+
+      {events.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-500">Nenhum evento recebido.</p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm min-w-[760px]">
+            <thead>
+              <tr className="text-left text-xs font-extrabold uppercase tracking-wider text-slate-500">
+                <th className="pb-2 pr-3">Recebido</th>
+                <th className="pb-2 pr-3">Origem</th>
+                <th className="pb-2 pr-3">Tipo</th>
+                <th className="pb-2 pr-3">Pedido</th>
+                <th className="pb-2 pr-3">Status</th>
+                <th className="pb-2 pr-3 text-right">Tentativas</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {events.map((ev) => {
+                const st = STATUS[ev.status] ?? STATUS.failed;
+                return (
+                  <React.Fragment key={ev.id}>
+                    <tr className="cursor-pointer hover:bg-slate-50" onClick={() => toggle(ev)}>
+                      <td className="py-2 pr-3 whitespace-nowrap">{fmtDateTime(ev.receivedAt)}</td>
+                      <td className="py-2 pr-3">{SOURCE_LABELS[ev.source] ?? ev.source}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{ev.eventType ?? "—"}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{ev.orderRef ?? "—"}</td>
+                      <td className="py-2 pr-3">
+                        <span className={cn("rounded-lg px-2 py-0.5 text-xs font-bold", st.color)}>{st.label}</span>
+                      </td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{ev.attempts}</td>
+                      <td className="py-2 text-right">
+                        {ev.status !== "pending" && ev.status !== "processing" && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              replay(ev.id);
+                            }}
+                            disabled={replaying !== null}
+                            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-bold text-slate-700 hover:bg-slate-100 disabled:text-slate-400"
+                          >
+                            {replaying === ev.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                            Reprocessar
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded?.id === ev.id && (
+                      <tr>
+                        <td colSpan={7} className="pb-3 text-xs">
+                          {expanded.error && <div className="font-semibold text-red-700">{expanded.error}</div>}
+                          <div className="mt-1 text-slate-500">
+                            Loja: {expanded.shopRef ?? "—"} · Processado: {fmtDateTime(expanded.processedAt)}
+                          </div>
+                          <pre className="mt-2 max-h-60 overflow-auto rounded-xl bg-slate-900 p-3 text-slate-100 whitespace-pre-wrap break-all">
+                            {expanded.rawBody}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { API_URL } from './config';
+import { parseApiJson } from './api';
+
+export type ImportJobState = {
+  id: number;
+  kind: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  phase: string;
+  phaseLabel: string;
+  progress: number;
+  fileName: string;
+  httpStatus: number | null;
+  result: unknown;
+  error: string | null;
+};
+
+/** Resultado no mesmo formato da rota síncrona (status HTTP + JSON). */
+export type ImportJobOutcome<T> = { ok: boolean; status: number; data: T };
+
+const POLL_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Envia o upload com background=1 e acompanha o job até terminar (GET /api/import-jobs/:id).
+ * `onUpdate` recebe cada leitura de progresso (null ao terminar).
+ * Erros de validação respondidos direto pela rota (sem job) voltam como outcome normal.
+ */
+export async function runImportJob<T = Record<string, any>>(
+  url: string,
+  formData: FormData,
+  onUpdate?: (job: ImportJobState | null) => void,
+): Promise<ImportJobOutcome<T>> {
+  formData.set('background', '1');
+  const response = await fetch(url, { method: 'POST', body: formData });
+  const queued = await parseApiJson<{ jobId?: number } & T>(response);
+  if (response.status !== 202 || !queued.jobId) {
+    return { ok: response.ok, status: response.status, data: queued };
+  }
+
+  try {
+    for (;;) {
+      const res = await fetch(`${API_URL}/api/import-jobs/${queued.jobId}`);
+      const job = await parseApiJson<ImportJobState & { message?: string }>(res);
+      if (!res.ok) throw new Error(job.message || 'Erro ao acompanhar importação.');
+      onUpdate?.(job);
+
+      if (job.status === 'cancelled') throw new Error(job.error || 'Importação cancelada.');
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        if (job.httpStatus == null) throw new Error(job.error || 'Erro na importação.');
+        return { ok: job.httpStatus < 400, status: job.httpStatus, data: (job.result ?? {}) as T };
+      }
+      await sleep(POLL_MS);
+    }
+  } finally {
+    onUpdate?.(null);
+  }
+}
+
+export async function cancelImportJob(id: number): Promise<void> {
+  const res = await fetch(`${API_URL}/api/import-jobs/${id}/cancel`, { method: 'POST' });
+  if (!res.ok) {
+    const data = await parseApiJson<{ message?: string }>(res);
+    throw new Error(data.message || 'Não foi possível cancelar a importação.');
+  }
+}
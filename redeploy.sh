@@ -5,7 +5,8 @@ export MSYS_NO_PATHCONV=1
 # ============================================================================
 # redeploy.sh — Lightweight re-deployment (code changes only, no infra)
 #
-# Rebuilds Docker image, pushes to ECR, forces ECS re-deploy,
+# Rebuilds Docker image, pushes to ECR, registers a new task definition revision
+# (CUSTOMER_KEY_SALT from Secrets Manager) and re-deploys ECS with it,
 # rebuilds frontend, syncs to S3, invalidates CloudFront cache.
 #
 # Usage:
@@ -30,6 +31,26 @@ err()  { echo -e "    \033[0;31m✗ $1\033[0m"; exit 1; }
 
 jq_get() { cat "$STATE_FILE" | jq -r --arg k "$1" '.[$k] // empty'; }
 
+# Mesmo secret do deploy.sh (${PROJECT}/customer-key-salt): cria se o deploy é anterior a ele. Imprime o ARN.
+ensure_customer_key_salt_secret() {
+  local arn legacy
+  arn=$(aws secretsmanager describe-secret \
+    --secret-id "${PROJECT}/customer-key-salt" \
+    --query ARN --output text \
+    --region "$AWS_REGION" 2>/dev/null || true)
+  if [ -z "$arn" ] || [ "$arn" = "None" ]; then
+    legacy=$(jq_get customer_key_salt)
+    arn=$(aws secretsmanager create-secret \
+      --name "${PROJECT}/customer-key-salt" \
+      --secret-string "${legacy:-$(openssl rand -hex 32)}" \
+      --query ARN --output text \
+      --region "$AWS_REGION")
+    ok "Customer key salt stored in Secrets Manager (${PROJECT}/customer-key-salt)" >&2
+  fi
+  jq 'del(.customer_key_salt)' "$STATE_FILE" > "${STATE_FILE}.tmp" && mv "${STATE_FILE}.tmp" "$STATE_FILE"
+  echo "$arn"
+}
+
 [ -f "$STATE_FILE" ] || err "State file not found. Run deploy.sh first."
 
 echo "============================================"
@@ -49,13 +70,40 @@ docker tag "${ECR_REPO}:latest" "${ecr_uri}:latest"
 docker push "${ecr_uri}:latest"
 ok "Image pushed: ${ecr_uri}:latest"
 
-# ─── Step 2: Force new ECS deployment ────────────────────────────────────
+# ─── Step 2: New task definition revision + ECS deployment ──────────────
+
+log "Step 2: Registering task definition and forcing new ECS deployment..."
+salt_arn=$(ensure_customer_key_salt_secret)
+aws iam put-role-policy --role-name ecsTaskExecutionRole \
+  --policy-name "${PROJECT}-customer-key-salt" \
+  --policy-document "{
+    \"Version\":\"2012-10-17\",
+    \"Statement\":[{\"Effect\":\"Allow\",\"Action\":\"secretsmanager:GetSecretValue\",\"Resource\":\"${salt_arn}\"}]
+  }"
+
+# Revisão atual sem os campos somente-leitura; CUSTOMER_KEY_SALT sai de "environment" e entra em "secrets"
+aws ecs describe-task-definition \
+  --task-definition "$ECS_TASK_FAMILY" \
+  --query taskDefinition --output json \
+  --region "$AWS_REGION" | \
+  jq --arg arn "$salt_arn" '
+    del(.taskDefinitionArn, .revision, .status, .requiresAttributes, .compatibilities,
+        .registeredAt, .registeredBy, .deregisteredAt)
+    | .containerDefinitions |= map(
+        .environment = ((.environment // []) | map(select(.name != "CUSTOMER_KEY_SALT")))
+        | .secrets = ((.secrets // []) | map(select(.name != "CUSTOMER_KEY_SALT"))
+            + [{name: "CUSTOMER_KEY_SALT", valueFrom: $arn}])
+      )' > task-def.json
+task_def_arn=$(aws ecs register-task-definition \
+  --cli-input-json file://task-def.json \
+  --query taskDefinition.taskDefinitionArn --output text)
+rm -f task-def.json
+ok "Task definition registered: $task_def_arn"
 
-log "Step 2: Forcing new ECS deployment..."
 aws ecs update-service \
   --cluster "$ECS_CLUSTER" \
   --service "$ECS_SERVICE" \
-  --task-definition "$ECS_TASK_FAMILY" \
+  --task-definition "$task_def_arn" \
   --force-new-deployment > /dev/null
 ok "ECS service redeployment triggered"
 